@@ -0,0 +1,24 @@
+CREATE TABLE `file_tags` (
+	`id` varchar(36) NOT NULL,
+	`file_id` varchar(36) NOT NULL,
+	`tag_id` varchar(36) NOT NULL,
+	`added_by_id` varchar(36) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `file_tags_id` PRIMARY KEY(`id`),
+	CONSTRAINT `file_tag_unq` UNIQUE(`file_id`,`tag_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `tags` (
+	`id` varchar(36) NOT NULL,
+	`company_id` varchar(128) NOT NULL,
+	`name` varchar(50) NOT NULL,
+	`color` varchar(7),
+	`created_by_id` varchar(36) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `tags_id` PRIMARY KEY(`id`),
+	CONSTRAINT `company_name_unq` UNIQUE(`company_id`,`name`)
+);
+--> statement-breakpoint
+ALTER TABLE `activities` MODIFY COLUMN `action` enum('upload','download','share','delete','restore','move','rename','create_folder','join_room','leave_room','update_permissions','login','logout','password_change','view','print','copy','admin_action','system_event','subscription_change','update_tags') NOT NULL;--> statement-breakpoint
+CREATE INDEX `tag_idx` ON `file_tags` (`tag_id`);
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `billing_events` (
+	`id` varchar(36) NOT NULL,
+	`provider` varchar(50) NOT NULL,
+	`event_id` varchar(255) NOT NULL,
+	`event_type` varchar(100) NOT NULL,
+	`payload` text NOT NULL,
+	`status` enum('received','processed','ignored','failed') NOT NULL DEFAULT 'received',
+	`error` text,
+	`attempts` int NOT NULL DEFAULT 0,
+	`received_at` timestamp NOT NULL DEFAULT (now()),
+	`processed_at` timestamp,
+	CONSTRAINT `billing_events_id` PRIMARY KEY(`id`),
+	CONSTRAINT `provider_event_unq` UNIQUE(`provider`,`event_id`)
+);
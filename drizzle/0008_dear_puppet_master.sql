@@ -0,0 +1 @@
+ALTER TABLE `guest_lists` ADD `expires_at` timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `activities` MODIFY COLUMN `action` enum('upload','download','share','delete','restore','move','rename','create_folder','join_room','leave_room','update_permissions','login','logout','password_change','view','print','copy','admin_action','system_event','subscription_change','update_tags','access_denied') NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `files` ADD `deleted_at` timestamp;
\ No newline at end of file
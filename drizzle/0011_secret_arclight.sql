@@ -0,0 +1,2 @@
+ALTER TABLE `company_settings` ADD `trash_retention_days` int;--> statement-breakpoint
+ALTER TABLE `files` ADD `deleted_by_id` varchar(36);
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE `multipart_upload_parts` (
+	`id` varchar(36) NOT NULL,
+	`upload_id` varchar(36) NOT NULL,
+	`part_number` int NOT NULL,
+	`etag` varchar(255) NOT NULL,
+	`size` bigint NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `multipart_upload_parts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `multipart_upload_part_unq` UNIQUE(`upload_id`,`part_number`)
+);
+--> statement-breakpoint
+CREATE TABLE `multipart_uploads` (
+	`id` varchar(36) NOT NULL,
+	`file_id` varchar(36) NOT NULL,
+	`provider_upload_id` varchar(512) NOT NULL,
+	`file_name` varchar(255) NOT NULL,
+	`mime_type` varchar(255) NOT NULL,
+	`storage_id` varchar(36) NOT NULL,
+	`storage_key` varchar(512) NOT NULL,
+	`room_id` varchar(36) NOT NULL,
+	`parent_id` varchar(36),
+	`user_id` varchar(36) NOT NULL,
+	`total_size` bigint NOT NULL,
+	`part_size` bigint NOT NULL,
+	`total_parts` int NOT NULL,
+	`status` enum('initialized','in_progress','completing','completed','failed','aborted') NOT NULL DEFAULT 'initialized',
+	`metadata` json,
+	`error` varchar(1024),
+	`expires_at` timestamp NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `multipart_uploads_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `multipart_uploads_user_status_idx` ON `multipart_uploads` (`user_id`,`status`);--> statement-breakpoint
+CREATE INDEX `multipart_uploads_expires_idx` ON `multipart_uploads` (`status`,`expires_at`);
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `tus_uploads` (
+	`id` varchar(36) NOT NULL,
+	`upload_offset` bigint NOT NULL DEFAULT 0,
+	`upload_metadata` text,
+	`locked_until` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `tus_uploads_id` PRIMARY KEY(`id`)
+);
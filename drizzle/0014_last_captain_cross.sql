@@ -0,0 +1,40 @@
+CREATE TABLE `webhook_deliveries` (
+	`id` varchar(36) NOT NULL,
+	`endpoint_id` varchar(36) NOT NULL,
+	`event_id` varchar(36) NOT NULL,
+	`event_type` varchar(50) NOT NULL,
+	`payload` text NOT NULL,
+	`status` enum('pending','succeeded','failed') NOT NULL DEFAULT 'pending',
+	`attempts` int NOT NULL DEFAULT 0,
+	`response_status` int,
+	`response_body` varchar(1024),
+	`error` varchar(1024),
+	`duration_ms` int,
+	`next_attempt_at` timestamp,
+	`last_attempt_at` timestamp,
+	`delivered_at` timestamp,
+	`redelivery_of` varchar(36),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `webhook_deliveries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `webhook_endpoints` (
+	`id` varchar(36) NOT NULL,
+	`company_id` varchar(36) NOT NULL,
+	`url` varchar(2048) NOT NULL,
+	`description` varchar(255),
+	`secret` varchar(128) NOT NULL,
+	`events` json NOT NULL,
+	`is_active` boolean NOT NULL DEFAULT true,
+	`consecutive_failures` int NOT NULL DEFAULT 0,
+	`disabled_at` timestamp,
+	`disabled_reason` varchar(255),
+	`created_by_id` varchar(36) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `webhook_endpoints_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `webhook_deliveries_endpoint_idx` ON `webhook_deliveries` (`endpoint_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `webhook_deliveries_pending_idx` ON `webhook_deliveries` (`status`,`next_attempt_at`);--> statement-breakpoint
+CREATE INDEX `webhook_endpoints_company_idx` ON `webhook_endpoints` (`company_id`);
\ No newline at end of file
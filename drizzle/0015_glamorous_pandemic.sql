@@ -0,0 +1,20 @@
+CREATE TABLE `notification_preferences` (
+	`user_id` varchar(128) NOT NULL,
+	`email_enabled` boolean NOT NULL DEFAULT true,
+	`shares` boolean NOT NULL DEFAULT true,
+	`uploads` boolean NOT NULL DEFAULT true,
+	`digest` enum('off','daily','weekly') NOT NULL DEFAULT 'off',
+	`last_digest_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `notification_preferences_user_id` PRIMARY KEY(`user_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `room_watches` (
+	`user_id` varchar(128) NOT NULL,
+	`room_id` varchar(36) NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `room_watches_user_id_room_id_pk` PRIMARY KEY(`user_id`,`room_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `room_watches_room_idx` ON `room_watches` (`room_id`);
\ No newline at end of file
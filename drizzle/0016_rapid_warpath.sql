@@ -0,0 +1,21 @@
+CREATE TABLE `activity_subscriptions` (
+	`id` varchar(36) NOT NULL,
+	`user_id` varchar(128) NOT NULL,
+	`name` varchar(100),
+	`channel` enum('websocket','email','webhook') NOT NULL,
+	`frequency` enum('immediate','daily','weekly') NOT NULL DEFAULT 'immediate',
+	`room_ids` json NOT NULL DEFAULT ('[]'),
+	`file_ids` json NOT NULL DEFAULT ('[]'),
+	`actions` json NOT NULL DEFAULT ('[]'),
+	`excluded_actions` json NOT NULL DEFAULT ('[]'),
+	`actor_ids` json NOT NULL DEFAULT ('[]'),
+	`webhook_endpoint_id` varchar(36),
+	`is_active` boolean NOT NULL DEFAULT true,
+	`last_digest_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `activity_subscriptions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `activity_subscriptions_user_idx` ON `activity_subscriptions` (`user_id`);--> statement-breakpoint
+CREATE INDEX `activity_subscriptions_active_idx` ON `activity_subscriptions` (`is_active`,`frequency`);
\ No newline at end of file
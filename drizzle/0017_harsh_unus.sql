@@ -0,0 +1,19 @@
+CREATE TABLE `activity_exports` (
+	`id` varchar(36) NOT NULL,
+	`company_id` varchar(36) NOT NULL,
+	`requested_by_id` varchar(36) NOT NULL,
+	`status` enum('pending','running','completed','failed') NOT NULL DEFAULT 'pending',
+	`format` varchar(16) NOT NULL,
+	`options` json NOT NULL,
+	`storage_id` varchar(36),
+	`storage_key` varchar(512),
+	`row_count` int NOT NULL DEFAULT 0,
+	`size` bigint NOT NULL DEFAULT 0,
+	`error` varchar(1024),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`completed_at` timestamp,
+	CONSTRAINT `activity_exports_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `activity_exports_company_idx` ON `activity_exports` (`company_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `activities_company_created_idx` ON `activities` (`company_id`,`created_at`,`id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `storage_accounts` MODIFY COLUMN `storage_type` enum('vault','s3','google_drive','dropbox','azure_blob','gcp_storage','onedrive','storj','s3_compatible') NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `file_versions` ADD `checksum` varchar(64);--> statement-breakpoint
+ALTER TABLE `files` ADD `checksum` varchar(64);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `company_master_keys` (
+	`id` varchar(36) NOT NULL,
+	`company_id` varchar(36) NOT NULL,
+	`wrapped_key` varchar(255) NOT NULL,
+	`status` enum('active','retired') NOT NULL DEFAULT 'active',
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `company_master_keys_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `file_data_keys` (
+	`id` varchar(36) NOT NULL,
+	`company_id` varchar(36) NOT NULL,
+	`master_key_id` varchar(36) NOT NULL,
+	`wrapped_key` varchar(255) NOT NULL,
+	`chunk_size` int NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `file_data_keys_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `file_versions` ADD `encryption` enum('none','client_side','server_side') DEFAULT 'none' NOT NULL;--> statement-breakpoint
+CREATE INDEX `company_master_keys_company_idx` ON `company_master_keys` (`company_id`,`status`);
\ No newline at end of file
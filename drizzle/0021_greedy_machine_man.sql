@@ -0,0 +1 @@
+ALTER TABLE `plans` ADD `payment_provider_price_id` varchar(255);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `billing_events` MODIFY COLUMN `status` enum('received','processing','processed','ignored','failed') NOT NULL DEFAULT 'received';--> statement-breakpoint
+ALTER TABLE `billing_events` ADD `claimed_at` timestamp;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE `room_access` ADD `guest_list_id` varchar(36);--> statement-breakpoint
+CREATE INDEX `room_access_guest_list_idx` ON `room_access` (`guest_list_id`);--> statement-breakpoint
+UPDATE `room_access` `ra`
+	INNER JOIN `guest_lists` `gl` ON `gl`.`user_id` = `ra`.`user_id`
+	INNER JOIN `rooms` `r` ON `r`.`id` = `ra`.`room_id` AND `r`.`company_id` = `gl`.`company_id`
+	SET `ra`.`guest_list_id` = `gl`.`id`
+	WHERE `ra`.`access_type` = 'viewer' AND `r`.`access_level` = 'guests' AND `ra`.`invited_at` >= `gl`.`added_at`;
@@ -0,0 +1 @@
+ALTER TABLE `files` ADD `trashed_with_id` varchar(36);
\ No newline at end of file
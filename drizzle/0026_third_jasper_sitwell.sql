@@ -0,0 +1,17 @@
+CREATE TABLE `mail_queue` (
+	`id` varchar(36) NOT NULL,
+	`recipient` varchar(320) NOT NULL,
+	`subject` varchar(998) NOT NULL,
+	`text` text NOT NULL,
+	`html` text,
+	`headers` json,
+	`status` enum('pending','sent','failed') NOT NULL DEFAULT 'pending',
+	`attempts` int NOT NULL DEFAULT 0,
+	`error` varchar(1024),
+	`next_attempt_at` timestamp NOT NULL DEFAULT (now()),
+	`sent_at` timestamp,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `mail_queue_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `mail_queue_pending_idx` ON `mail_queue` (`status`,`next_attempt_at`);
\ No newline at end of file
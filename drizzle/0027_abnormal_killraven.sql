@@ -0,0 +1,3 @@
+ALTER TABLE `activities` ADD `subscribers_notified_at` timestamp;--> statement-breakpoint
+CREATE INDEX `activities_pending_notification_idx` ON `activities` (`subscribers_notified_at`,`created_at`);--> statement-breakpoint
+UPDATE `activities` SET `subscribers_notified_at` = `created_at`;
\ No newline at end of file
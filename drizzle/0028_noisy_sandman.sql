@@ -0,0 +1,3 @@
+ALTER TABLE `activity_exports` ADD `attempts` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `activity_exports` ADD `claimed_until` timestamp;--> statement-breakpoint
+CREATE INDEX `activity_exports_status_idx` ON `activity_exports` (`status`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `activity_exports` ADD `encryption_key_id` varchar(36);--> statement-breakpoint
+ALTER TABLE `multipart_uploads` ADD `encryption_key_id` varchar(36);
\ No newline at end of file
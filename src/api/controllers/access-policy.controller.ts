@@ -0,0 +1,224 @@
+// src/api/controllers/access-policy.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import {
+  AccessPolicyService,
+  AccessControlPolicyDto,
+  PolicyAction
+} from '../../services/room/access-policy.service';
+import { ValidationError } from '../../utils/errors';
+
+const POLICY_ACTIONS: PolicyAction[] = ['access', 'join', 'download', 'share'];
+
+@injectable()
+export class AccessPolicyController {
+  constructor(
+    @inject('AccessPolicyService') private accessPolicyService: AccessPolicyService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('AccessPolicyController');
+  }
+
+  /**
+   * List a company's policies
+   */
+  async listCompanyPolicies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const policies = await this.accessPolicyService.listCompanyPolicies(id, req.user);
+      res.json(policies);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a company-wide policy
+   */
+  async createCompanyPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const policy = await this.accessPolicyService.createPolicy({
+        ...this.parsePolicy(req.body),
+        name: req.body.name,
+        companyId: id
+      }, req.user);
+      res.status(201).json(policy);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a company policy
+   */
+  async getPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, policyId } = req.params;
+      const policy = await this.accessPolicyService.getPolicy(id, policyId, req.user);
+      res.json(policy);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a company or room policy
+   */
+  async updatePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, policyId } = req.params;
+      const policy = await this.accessPolicyService.updatePolicy(id, policyId, this.parsePolicy(req.body), req.user);
+      res.json(policy);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a company or room policy
+   */
+  async deletePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, policyId } = req.params;
+      await this.accessPolicyService.deletePolicy(id, policyId, req.user);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Evaluate company policies against a hypothetical request
+   */
+  async dryRunCompanyPolicies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { policyId, policy } = req.body;
+
+      const result = await this.accessPolicyService.dryRunCompanyPolicies(id, req.user, {
+        ...this.parseDryRunContext(req.body),
+        policyId,
+        policy: policy ? this.parsePolicy(policy) : undefined
+      });
+      res.json(result);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the policies in effect for a room
+   */
+  async listRoomPolicies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const policies = await this.accessPolicyService.listRoomPolicies(id, req.user);
+      res.json(policies);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a room-specific policy
+   */
+  async createRoomPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const policy = await this.accessPolicyService.createRoomPolicy(id, {
+        ...this.parsePolicy(req.body),
+        name: req.body.name
+      }, req.user);
+      res.status(201).json(policy);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Evaluate the policies in effect for a room against a hypothetical request
+   */
+  async dryRunRoomPolicies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const result = await this.accessPolicyService.dryRunRoomPolicies(id, req.user, this.parseDryRunContext(req.body));
+      res.json(result);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Pick the policy fields from a request body. IP ranges may be sent as
+   * a list or as a comma-separated string.
+   */
+  private parsePolicy(body: any): Partial<AccessControlPolicyDto> {
+    if (body.description !== undefined && body.description !== null && typeof body.description !== 'string') {
+      throw new ValidationError('description must be a string');
+    }
+
+    // Names, IP ranges, time restrictions and limits are validated by the service
+    const policy: Partial<AccessControlPolicyDto> = {
+      name: body.name,
+      description: body.description,
+      timeRestrictions: body.timeRestrictions,
+      maxConcurrentUsers: body.maxConcurrentUsers,
+      maxSessionLength: body.maxSessionLength,
+      inactivityTimeout: body.inactivityTimeout
+    };
+
+    for (const field of ['allowDownloads', 'allowSharing', 'allowPrinting', 'requireMfa', 'isActive'] as const) {
+      const value = body[field];
+      if (value !== undefined && typeof value !== 'boolean') {
+        throw new ValidationError(`${field} must be true or false`);
+      }
+      policy[field] = value;
+    }
+
+    for (const field of ['allowedIpRanges', 'deniedIpRanges'] as const) {
+      const value = body[field];
+      policy[field] = Array.isArray(value) ? value.join(',') : value;
+    }
+
+    // Fields left out of the request are left as they are
+    for (const field of Object.keys(policy) as (keyof AccessControlPolicyDto)[]) {
+      if (policy[field] === undefined) {
+        delete policy[field];
+      }
+    }
+
+    return policy;
+  }
+
+  private parseDryRunContext(body: any): {
+    ipAddress?: string;
+    at?: Date;
+    userId?: string;
+    hasMfa?: boolean;
+    action?: PolicyAction;
+  } {
+    const { ipAddress, at, userId, hasMfa, action } = body;
+
+    if (action !== undefined && !POLICY_ACTIONS.includes(action)) {
+      throw new ValidationError(`Action must be one of: ${POLICY_ACTIONS.join(', ')}`);
+    }
+
+    let time: Date | undefined;
+    if (at) {
+      time = new Date(at);
+      if (isNaN(time.getTime())) {
+        throw new ValidationError('Invalid time');
+      }
+    }
+
+    return {
+      ipAddress,
+      at: time,
+      userId,
+      hasMfa: hasMfa !== undefined ? hasMfa === true || hasMfa === 'true' : undefined,
+      action
+    };
+  }
+}
@@ -0,0 +1,96 @@
+// src/api/controllers/activity-subscription.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import {
+  ActivitySubscriptionService,
+  ActivitySubscriptionInput
+} from '../../services/activity/activity-subscription.service';
+
+@injectable()
+export class ActivitySubscriptionController {
+  constructor(
+    @inject('ActivitySubscriptionService') private subscriptionService: ActivitySubscriptionService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('ActivitySubscriptionController');
+  }
+
+  /**
+   * List the signed-in user's activity subscriptions
+   */
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subscriptions = await this.subscriptionService.list(req.user.id);
+      res.json(subscriptions);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get one of the signed-in user's activity subscriptions
+   */
+  async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subscription = await this.subscriptionService.get(req.params.id, req.user.id);
+      res.json(subscription);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create an activity subscription
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subscription = await this.subscriptionService.create(req.user, this.input(req.body));
+      res.status(201).json(subscription);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change an activity subscription's filters, channel or frequency, or
+   * pause and resume it
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subscription = await this.subscriptionService.update(req.params.id, req.user, this.input(req.body));
+      res.json(subscription);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete an activity subscription
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.subscriptionService.delete(req.params.id, req.user.id);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  private input(body: any): ActivitySubscriptionInput {
+    const {
+      name,
+      channel,
+      frequency,
+      roomIds,
+      fileIds,
+      actions,
+      excludedActions,
+      actorIds,
+      webhookEndpointId,
+      isActive
+    } = body || {};
+
+    return { name, channel, frequency, roomIds, fileIds, actions, excludedActions, actorIds, webhookEndpointId, isActive };
+  }
+}
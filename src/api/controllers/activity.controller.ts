@@ -1,14 +1,19 @@
 // src/api/controllers/activity.controller.ts
 import { injectable, inject } from 'inversify';
 import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { ActivityService, ActivityFilter, ActivitySubscriptionOptions, CreateActivityDto } from '../../services/activity/activity.service';
+import { ActivityExportService } from '../../services/activity/activity-export.service';
+import { parseExportFilter, parseExportOptions } from '../../services/activity/activity-export';
 import { Logger } from '../../utils/logger';
-import { ValidationError } from '../../utils/errors';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
 
 @injectable()
 export class ActivityController {
   constructor(
     @inject('ActivityService') private activityService: ActivityService,
+    @inject('ActivityExportService') private exportService: ActivityExportService,
     @inject('Logger') private logger: Logger
   ) {
     this.logger = logger.createChildLogger('ActivityController');
@@ -157,27 +162,83 @@ export class ActivityController {
   }
   
   /**
-   * Export activity logs (admin only)
+   * Export activity logs (admin only). Streams the export in the requested
+   * format, or with `async: true` writes it to the company's storage and
+   * responds with the export job to poll.
    */
   async exportActivityLogs(req: Request, res: Response) {
     try {
-      const filter: ActivityFilter = req.body;
-      
-      if (!filter.companyId) {
-        throw new ValidationError('Company ID is required');
+      const { format, columns, timeZone, async: runInBackground, ...filterInput } = req.body || {};
+      const filter = parseExportFilter(filterInput);
+      const options = parseExportOptions({ format, columns, timeZone });
+
+      if (runInBackground) {
+        const job = await this.exportService.startExport(req.user, filter, options);
+        res.status(202).json(job);
+        return;
       }
+
+      const formatter = this.exportService.formatter(options);
       
-      const csvContent = await this.activityService.exportActivityLogs(filter);
-      
-      // Set response headers for CSV download
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename=activity_logs_${new Date().toISOString().split('T')[0]}.csv`);
+      // Set response headers for the download
+      res.setHeader('Content-Type', formatter.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename=activity_logs_${new Date().toISOString().split('T')[0]}.${formatter.extension}`);
       
-      res.send(csvContent);
+      await pipeline(Readable.from(this.exportService.stream(filter, options)), res);
     } catch (error: any) {
       this.logger.error('Failed to export activity logs', { error: error.message });
       
-      if (error instanceof ValidationError) {
+      if (res.headersSent) {
+        // Part of the export was sent already; cut the response short so it is not mistaken for a complete file
+        res.destroy(error);
+      } else if (error instanceof ValidationError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+
+  /**
+   * Get a background export's status and, once finished, its download link
+   * (admin only)
+   */
+  async getActivityExport(req: Request, res: Response) {
+    try {
+      const job = await this.exportService.getExport(req.params.exportId);
+      res.json(job);
+    } catch (error: any) {
+      this.logger.error('Failed to get activity export', { error: error.message });
+
+      if (error instanceof NotFoundError) {
+        res.status(404).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  }
+  
+  /**
+   * Download a background export the company had encrypted at rest,
+   * decrypted on the way (admin only)
+   */
+  async downloadActivityExport(req: Request, res: Response) {
+    try {
+      const download = await this.exportService.openDownload(req.params.exportId);
+
+      res.setHeader('Content-Type', download.contentType);
+      res.setHeader('Content-Length', download.contentLength);
+      res.setHeader('Content-Disposition', `attachment; filename="${download.fileName}"`);
+
+      await pipeline(download.stream, res);
+    } catch (error: any) {
+      this.logger.error('Failed to download activity export', { error: error.message });
+
+      if (res.headersSent) {
+        res.destroy(error);
+      } else if (error instanceof NotFoundError) {
+        res.status(404).json({ error: error.message });
+      } else if (error instanceof ValidationError) {
         res.status(400).json({ error: error.message });
       } else {
         res.status(500).json({ error: 'Internal server error' });
@@ -195,7 +256,7 @@ export class ActivityController {
         userId: req.user.id
       };
       
-      const success = await this.activityService.subscribeToActivities(options);
+      const success = await this.activityService.subscribeToActivities(options, req.user);
       
       res.json({
         success,
@@ -203,7 +264,15 @@ export class ActivityController {
       });
     } catch (error: any) {
       this.logger.error('Failed to subscribe to activities', { error: error.message });
-      res.status(500).json({ error: 'Internal server error' });
+      if (error instanceof ValidationError) {
+        res.status(400).json({ error: error.message });
+      } else if (error instanceof AuthorizationError) {
+        res.status(403).json({ error: error.message });
+      } else if (error instanceof NotFoundError) {
+        res.status(404).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Internal server error' });
+      }
     }
   }
   
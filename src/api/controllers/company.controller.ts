@@ -155,7 +155,7 @@ export class CompanyController {
             companyId: id,
             email,
             role
-          });
+          }, req.user);
           res.status(201).json({ invited: true, invite });
         }
         return;
@@ -220,4 +220,71 @@ export class CompanyController {
       next(error);
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Invite a user to the company by email
+   */
+  async createInvite(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { email, role } = req.body;
+
+      if (!email) {
+        throw new ValidationError('Email is required');
+      }
+
+      const invite = await this.companyService.createCompanyInvite({
+        companyId: id,
+        email,
+        role
+      }, req.user);
+      res.status(201).json(invite);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * List company invites
+   */
+  async listInvites(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = 10, status } = req.query;
+      const invites = await this.companyService.listCompanyInvites(id, req.user, {
+        page: Number(page),
+        limit: Number(limit),
+        status: status as string | undefined
+      });
+      res.json(invites);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke a company invite
+   */
+  async revokeInvite(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, token } = req.params;
+      await this.companyService.revokeCompanyInvite(id, token, req.user);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Accept a company invite as the current user
+   */
+  async acceptInvite(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.params;
+      const member = await this.companyService.acceptCompanyInvite(token, req.user);
+      res.json(member);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+}
@@ -1,34 +1,32 @@
 // src/api/controllers/file.controller.ts
 import { Request, Response, NextFunction } from 'express';
 import { injectable, inject } from 'inversify';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { FileService } from '../../services/file/file.service';
 import { UploadService } from '../../services/file/upload.service';
 import { Logger } from '../../utils/logger';
-import { ValidationError } from '../../utils/errors';
-import multer from 'multer';
+import { AccessPolicyMiddleware } from '../middleware/access-policy.middleware';
+import { AppError, ValidationError, PlanLimitError, UploadRestrictionError } from '../../utils/errors';
+import { streamUpload } from '../middleware/streaming-upload.middleware';
+import { parseRange, fileEtag, etagMatches, ifRangeAllows, contentDisposition } from '../../services/file/http-download';
 import { RateLimiterMemory } from 'rate-limiter-flexible';
 
+// 50MB limit for regular uploads; larger files go through multipart uploads
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
 @injectable()
 export class FileController {
-  private upload: multer.Multer;
   private uploadRateLimiter: RateLimiterMemory;
   
   constructor(
     @inject('FileService') private fileService: FileService,
     @inject('UploadService') private uploadService: UploadService,
+    @inject('AccessPolicyMiddleware') private accessPolicy: AccessPolicyMiddleware,
     @inject('Logger') private logger: Logger
   ) {
     this.logger = logger.createChildLogger('FileController');
     
-    // Configure multer for file uploads
-    const storage = multer.memoryStorage();
-    this.upload = multer({
-      storage,
-      limits: {
-        fileSize: 50 * 1024 * 1024, // 50MB limit for regular uploads
-      }
-    });
-    
     // Configure rate limiter for uploads
     this.uploadRateLimiter = new RateLimiterMemory({
       points: 10, // Number of uploads
@@ -62,7 +60,7 @@ export class FileController {
   async getFiles(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { roomId } = req.params;
-      const { parentId } = req.query;
+      const { parentId, tags } = req.query;
       
       if (!roomId) {
         throw new ValidationError('Room ID is required');
@@ -70,7 +68,8 @@ export class FileController {
       
       const files = await this.fileService.getFilesInDirectory(
         roomId, 
-        parentId ? String(parentId) : null
+        parentId ? String(parentId) : null,
+        tags ? (Array.isArray(tags) ? tags : [tags]) as string[] : undefined
       );
       
       res.json({
@@ -147,56 +146,69 @@ export class FileController {
   }
   
   /**
-   * Upload a file (small files)
+   * Upload a file, streaming it to storage as it arrives. The form fields
+   * (roomId or fileId, and optionally parentId, metadata, size, checksum and
+   * encryption) must come before the file. encryption=server_side encrypts
+   * the file at rest even if the company does not require it.
    */
   uploadFile = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     // Use throttling middleware
     await this.throttleUpload(req, res, (err) => {
       if (err) return next(err);
       
-      // Use multer middleware for file upload
-      this.upload.single('file')(req, res, async (err) => {
-        if (err) {
-          return next(err);
+      streamUpload('file', MAX_UPLOAD_BYTES, async (req, upload) => {
+        const { roomId, parentId, metadata, fileId, size, checksum, encryption } = req.body;
+        
+        if (!roomId && !fileId) {
+          throw new ValidationError('Room ID is required');
         }
         
-        try {
-          if (!req.file) {
-            throw new ValidationError('No file uploaded');
-          }
-          
-          const { roomId, parentId, metadata } = req.body;
-          
-          if (!roomId) {
-            throw new ValidationError('Room ID is required');
-          }
-          
-          // Get user ID from auth middleware
-          const userId = req.user.id;
-          
-          const result = await this.fileService.uploadFile({
-            name: req.file.originalname,
-            mimeType: req.file.mimetype,
-            size: req.file.size,
-            buffer: req.file.buffer,
-            roomId,
-            parentId: parentId || null,
-            userId,
-            metadata: metadata ? JSON.parse(metadata) : undefined
-          });
-          
-          if (!result.success) {
-            throw new Error(result.message || 'Failed to upload file');
+        if (encryption && encryption !== 'server_side') {
+          throw new ValidationError('encryption must be server_side when set');
+        }
+        
+        await this.accessPolicy.check(req, fileId ? { fileIds: [fileId] } : { roomIds: [roomId] });
+        
+        // Get user ID from auth middleware
+        const userId = req.user.id;
+        
+        const result = await this.fileService.uploadFile({
+          name: upload.fileName,
+          mimeType: upload.mimeType,
+          // Declared size, if any; the stored size is what actually arrives
+          size: Math.max(Number(size) || 0, 0),
+          stream: upload.stream,
+          maxBytes: upload.maxBytes,
+          checksum: checksum || undefined,
+          encryption: encryption || undefined,
+          roomId,
+          parentId: parentId || null,
+          userId,
+          metadata: metadata ? JSON.parse(metadata) : undefined,
+          fileId: fileId || undefined
+        });
+        
+        if (!result.success) {
+          // Keep the plan limit, upload restriction and validation codes so clients can tell
+          // which limit was hit or that the content did not match its checksum
+          if (result.error instanceof PlanLimitError || result.error instanceof UploadRestrictionError
+            || result.error instanceof ValidationError) {
+            throw result.error;
           }
-          
-          res.status(201).json({
-            success: true,
-            message: 'File uploaded successfully',
-            data: result.data
-          });
-        } catch (error) {
-          next(error);
+          throw new Error(result.message || 'Failed to upload file');
+        }
+        
+        return result.data;
+      })(req, res, (err?: any) => {
+        if (err) {
+          return next(err);
         }
+        
+        res.status(201).json({
+          success: true,
+          message: 'File uploaded successfully',
+          data: res.locals.upload
+        });
       });
     });
   };
@@ -230,6 +242,9 @@ export class FileController {
         });
         
         if (!result.success) {
+          if (result.error instanceof PlanLimitError || result.error instanceof UploadRestrictionError) {
+            throw result.error;
+          }
           throw new Error(result.message || 'Failed to initialize upload');
         }
         
@@ -258,11 +273,15 @@ export class FileController {
       
       const result = await this.uploadService.getUploadPartUrl(
         uploadId,
+        req.user.id,
         Number(partNumber),
         Number(contentLength)
       );
       
       if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
         throw new Error(result.message || 'Failed to get upload URL');
       }
       
@@ -289,11 +308,15 @@ export class FileController {
       
       const result = await this.uploadService.completePart(
         uploadId,
+        req.user.id,
         Number(partNumber),
         etag
       );
       
       if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
         throw new Error(result.message || 'Failed to complete part');
       }
       
@@ -317,9 +340,12 @@ export class FileController {
         throw new ValidationError('Upload ID is required');
       }
       
-      const result = await this.uploadService.completeMultipartUpload(uploadId);
+      const result = await this.uploadService.completeMultipartUpload(uploadId, req.user.id);
       
       if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
         throw new Error(result.message || 'Failed to complete upload');
       }
       
@@ -344,9 +370,12 @@ export class FileController {
         throw new ValidationError('Upload ID is required');
       }
       
-      const result = await this.uploadService.abortMultipartUpload(uploadId);
+      const result = await this.uploadService.abortMultipartUpload(uploadId, req.user.id);
       
       if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
         throw new Error(result.message || 'Failed to abort upload');
       }
       
@@ -370,9 +399,12 @@ export class FileController {
         throw new ValidationError('Upload ID is required');
       }
       
-      const result = await this.uploadService.getUploadStatus(uploadId);
+      const result = await this.uploadService.getUploadStatus(uploadId, req.user.id);
       
       if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
         throw new Error(result.message || 'Failed to get upload status');
       }
       
@@ -385,6 +417,31 @@ export class FileController {
     }
   }
   
+  /**
+   * List the current user's multipart uploads that can still be resumed
+   */
+  async listResumableUploads(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { roomId } = req.query;
+      
+      const result = await this.uploadService.listResumableUploads(
+        req.user.id,
+        typeof roomId === 'string' && roomId ? roomId : undefined
+      );
+      
+      if (!result.success) {
+        throw new Error(result.message || 'Failed to list uploads');
+      }
+      
+      res.json({
+        success: true,
+        data: result.data
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
   /**
    * Get file download URL
    */
@@ -513,6 +570,103 @@ export class FileController {
     }
   }
   
+  /**
+   * List file versions
+   */
+  async getFileVersions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      if (!id) {
+        throw new ValidationError('File ID is required');
+      }
+      
+      // Get user ID from auth middleware
+      const userId = req.user.id;
+      
+      const result = await this.fileService.listVersions(id, userId);
+      
+      if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
+        throw new Error(result.message || 'Failed to list file versions');
+      }
+      
+      res.json({
+        success: true,
+        data: result.data
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
+  /**
+   * Get download URL for a file version
+   */
+  async getVersionDownloadUrl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, versionId } = req.params;
+      
+      if (!id || !versionId) {
+        throw new ValidationError('File ID and version ID are required');
+      }
+      
+      // Get user ID from auth middleware
+      const userId = req.user.id;
+      
+      const result = await this.fileService.getVersionDownloadUrl(id, versionId, userId);
+      
+      if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
+        throw new Error(result.message || 'Failed to generate download URL');
+      }
+      
+      res.json({
+        success: true,
+        data: result.data
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
+  /**
+   * Restore a file version
+   */
+  async restoreVersion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, versionId } = req.params;
+      
+      if (!id || !versionId) {
+        throw new ValidationError('File ID and version ID are required');
+      }
+      
+      // Get user ID from auth middleware
+      const userId = req.user.id;
+      
+      const result = await this.fileService.restoreVersion(id, versionId, userId);
+      
+      if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
+        throw new Error(result.message || 'Failed to restore file version');
+      }
+      
+      res.json({
+        success: true,
+        message: 'File version restored successfully',
+        data: result.data
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+  
   /**
    * Create file share
    */
@@ -612,6 +766,27 @@ export class FileController {
    * Get file content with support for range requests
    */
   async getFileContent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.sendFileStream(req, res, next, 'inline');
+  }
+
+  /**
+   * Stream file content from storage, with support for range requests,
+   * conditional requests and resuming interrupted downloads
+   */
+  async streamFile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const download = req.query.download === 'true' || req.query.download === '1';
+    await this.sendFileStream(req, res, next, download ? 'attachment' : 'inline');
+  }
+
+  /**
+   * Proxy a file from storage to the response without holding it in memory
+   */
+  private async sendFileStream(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    disposition: 'inline' | 'attachment'
+  ): Promise<void> {
     try {
       const { id } = req.params;
       
@@ -619,70 +794,100 @@ export class FileController {
         throw new ValidationError('File ID is required');
       }
       
-      // Get user ID from auth middleware
       const userId = req.user.id;
       
-      // Get file info
-      const file = await this.fileService.getFile(id, userId);
+      const fileResult = await this.fileService.getFile(id, userId);
       
-      if (!file.success) {
-        throw new Error(file.message || 'Failed to get file');
+      if (!fileResult.success) {
+        throw fileResult.error || new Error(fileResult.message || 'Failed to get file');
       }
       
-      // Check for Range header
-      const rangeHeader = req.headers.range;
+      const file = fileResult.data;
       
-      if (rangeHeader) {
-        // Parse range header
-        const fileSize = file.data.size;
-        const parts = rangeHeader.replace(/bytes=/, '').split('-');
-        const start = parseInt(parts[0], 10);
-        const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-        
-        // Validate range
-        if (isNaN(start) || isNaN(end) || start >= fileSize || end >= fileSize || start > end) {
-          res.status(416).send('Range Not Satisfiable');
-          return;
-        }
-        
-        const chunkSize = end - start + 1;
-        
-        // Get file content with range
-        const result = await this.fileService.getFileContent(id, userId, { start, end });
+      if (file.fileType !== 'file') {
+        throw new ValidationError('Requested item is not a file');
+      }
+      
+      const size = Number(file.size);
+      const etag = fileEtag(file);
+      const lastModified = new Date(file.updatedAt);
+      
+      res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('ETag', etag);
+      res.setHeader('Last-Modified', lastModified.toUTCString());
+      res.setHeader('Cache-Control', 'private, no-cache');
+      
+      if (etagMatches(req.headers['if-none-match'], etag)) {
+        res.status(304).end();
+        return;
+      }
+      
+      // A stale If-Range means the client's partial copy is outdated, so it gets the whole file
+      const rangeRequest = ifRangeAllows(req.headers['if-range'] as string | undefined, etag, lastModified)
+        ? parseRange(req.headers.range, size)
+        : { type: 'full' as const };
+      
+      if (rangeRequest.type === 'unsatisfiable') {
+        res.setHeader('Content-Range', `bytes */${size}`);
+        res.status(416).end();
+        return;
+      }
+      
+      const range = rangeRequest.type === 'partial' ? rangeRequest.range : undefined;
+      const contentLength = range ? range.end - range.start + 1 : size;
+      
+      // Storage is only asked for the content once the request is known to be servable
+      let stream: Readable | undefined;
+      
+      if (req.method !== 'HEAD') {
+        const result = await this.fileService.getFileStream(id, userId, range);
         
         if (!result.success) {
-          throw new Error(result.message || 'Failed to get file content');
+          throw result.error || new Error(result.message || 'Failed to get file content');
         }
         
-        // Set headers for partial content
-        res.writeHead(206, {
-          'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-          'Accept-Ranges': 'bytes',
-          'Content-Length': chunkSize,
-          'Content-Type': file.data.mimeType,
-          'Content-Disposition': `inline; filename="${file.data.name}"`
-        });
-        
-        // Send partial content
-        res.end(result.data);
-      } else {
-        // Get full file content
-        const result = await this.fileService.getFileContent(id, userId);
+        stream = result.data.stream as Readable;
         
-        if (!result.success) {
-          throw new Error(result.message || 'Failed to get file content');
+        // The headers promise the recorded size; content of another length would be cut off or run over
+        const provided = result.data.contentLength;
+        if (provided !== undefined && provided !== contentLength) {
+          stream.destroy();
+          this.logger.error('Stored content does not match the recorded file size', {
+            fileId: id,
+            range,
+            expected: contentLength,
+            actual: provided
+          });
+          throw new AppError('The stored file content does not match its recorded size', 500, 'CONTENT_LENGTH_MISMATCH');
+        }
+      }
+      
+      res.status(range ? 206 : 200);
+      res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', contentDisposition(disposition, file.name));
+      res.setHeader('Content-Length', contentLength);
+      
+      if (range) {
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+      }
+      
+      if (!stream) {
+        res.end();
+        return;
+      }
+      
+      try {
+        await pipeline(stream, res);
+      } catch (error: any) {
+        // The client going away mid-download is expected; resuming is what ranges are for
+        if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+          this.logger.error('Failed to stream file content', { fileId: id, range, error: error.message });
         }
         
-        // Set headers for full content
-        res.writeHead(200, {
-          'Content-Length': file.data.size,
-          'Content-Type': file.data.mimeType,
-          'Content-Disposition': `inline; filename="${file.data.name}"`,
-          'Accept-Ranges': 'bytes'
-        });
-        
-        // Send full content
-        res.end(result.data);
+        if (!res.destroyed) {
+          // Cut the response short so a partial body is not mistaken for the whole file
+          res.destroy(error);
+        }
       }
     } catch (error) {
       next(error);
@@ -870,4 +1075,63 @@ export class FileController {
       next(error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Search files across all accessible rooms in a company
+   */
+  async searchCompanyFiles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const {
+        companyId,
+        query,
+        mimeTypes,
+        uploaderIds,
+        roomIds,
+        minSize,
+        maxSize,
+        updatedAfter,
+        updatedBefore,
+        tags,
+        cursor,
+        limit
+      } = req.query;
+      
+      if (!companyId) {
+        throw new ValidationError('Company ID is required');
+      }
+      
+      const toArray = (value: any): string[] | undefined =>
+        value ? (Array.isArray(value) ? value : [value]) as string[] : undefined;
+      
+      const result = await this.fileService.searchCompanyFiles(companyId as string, req.user.id, {
+        query: query as string | undefined,
+        mimeTypes: toArray(mimeTypes),
+        uploaderIds: toArray(uploaderIds),
+        roomIds: toArray(roomIds),
+        minSize: minSize ? parseInt(minSize as string) : undefined,
+        maxSize: maxSize ? parseInt(maxSize as string) : undefined,
+        updatedAfter: updatedAfter ? new Date(updatedAfter as string) : undefined,
+        updatedBefore: updatedBefore ? new Date(updatedBefore as string) : undefined,
+        tags: toArray(tags),
+        cursor: cursor as string | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+        // Rooms whose access policies deny the request are left out of the results
+        filterRooms: roomIds => this.accessPolicy.allowedRooms(req, companyId as string, roomIds)
+      });
+      
+      if (!result.success) {
+        if (result.error instanceof AppError) {
+          throw result.error;
+        }
+        throw new Error(result.message || 'Failed to search files');
+      }
+      
+      res.json({
+        success: true,
+        data: result.data
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
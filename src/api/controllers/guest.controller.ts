@@ -0,0 +1,74 @@
+// src/api/controllers/guest.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { GuestService } from '../../services/guest/guest.service';
+import { ValidationError } from '../../utils/errors';
+
+@injectable()
+export class GuestController {
+  constructor(
+    @inject('GuestService') private guestService: GuestService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('GuestController');
+  }
+
+  /**
+   * List a company's guests
+   */
+  async listGuests(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const guests = await this.guestService.listGuests(id, req.user);
+      res.json(guests);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Invite a guest by email
+   */
+  async addGuest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { email, firstName, lastName, expiresAt } = req.body;
+
+      if (!email) {
+        throw new ValidationError('Email is required');
+      }
+
+      let expiry: Date | null = null;
+      if (expiresAt) {
+        expiry = new Date(expiresAt);
+        if (isNaN(expiry.getTime())) {
+          throw new ValidationError('Invalid expiry date');
+        }
+      }
+
+      const guest = await this.guestService.addGuest(id, req.user, {
+        email,
+        firstName,
+        lastName,
+        expiresAt: expiry
+      });
+      res.status(201).json(guest);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a guest
+   */
+  async removeGuest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+      await this.guestService.removeGuest(id, req.user, userId);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+}
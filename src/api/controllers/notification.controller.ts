@@ -0,0 +1,156 @@
+// src/api/controllers/notification.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { NotificationService } from '../../services/notification/notification.service';
+import { UnsubscribeScope } from '../../services/notification/unsubscribe-token';
+import { escapeHtml } from '../../services/mail/mail.service';
+import { ValidationError } from '../../utils/errors';
+
+// What each unsubscribe link turns off, as shown on its confirmation page
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  all: 'all notification email',
+  shares: 'email when files are shared with you',
+  uploads: 'email about uploads to rooms you watch',
+  digest: 'activity digest email'
+};
+
+@injectable()
+export class NotificationController {
+  constructor(
+    @inject('NotificationService') private notificationService: NotificationService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('NotificationController');
+  }
+
+  /**
+   * Get the signed-in user's email notification settings
+   */
+  async getSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const settings = await this.notificationService.getSettings(req.user.id);
+      res.json(settings);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change the signed-in user's email notification settings
+   */
+  async updateSettings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { emailEnabled, shares, uploads, digest } = req.body;
+      const settings = await this.notificationService.updateSettings(req.user.id, {
+        emailEnabled,
+        shares,
+        uploads,
+        digest
+      });
+      res.json(settings);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the rooms the signed-in user is watching
+   */
+  async listWatches(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const watches = await this.notificationService.listWatches(req.user.id);
+      res.json(watches);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Watch a room for uploads
+   */
+  async watchRoom(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.notificationService.watchRoom(req.user.id, req.params.roomId);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stop watching a room
+   */
+  async unwatchRoom(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.notificationService.unwatchRoom(req.user.id, req.params.roomId);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Show the page an unsubscribe link opens. Nothing changes until the user
+   * confirms, so link scanners in mail clients cannot unsubscribe anyone.
+   */
+  async confirmUnsubscribe(req: Request, res: Response): Promise<void> {
+    const token = req.query.token;
+
+    try {
+      if (typeof token !== 'string' || !token) {
+        throw new ValidationError('token is required');
+      }
+
+      const { scope } = this.notificationService.describeUnsubscribe(token);
+      this.sendPage(res, 200, 'Unsubscribe', [
+        `<p>Stop sending ${escapeHtml(this.describeScope(scope))}?</p>`,
+        `<form method="post" action="?token=${encodeURIComponent(token)}"><button type="submit">Unsubscribe</button></form>`
+      ]);
+    } catch (error: any) {
+      if (!(error instanceof ValidationError)) {
+        this.logger.error('Failed to show unsubscribe page', { error: error.message });
+      }
+      this.sendPage(res, error instanceof ValidationError ? 400 : 500, 'Unsubscribe', [
+        '<p>This unsubscribe link is invalid or has expired. You can change your email settings in the app.</p>'
+      ]);
+    }
+  }
+
+  /**
+   * Apply an unsubscribe link, from the confirmation page or as a one-click
+   * POST from a mail client (RFC 8058), so no sign-in is needed
+   */
+  async unsubscribe(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const token = req.query.token;
+      if (typeof token !== 'string' || !token) {
+        throw new ValidationError('token is required');
+      }
+
+      const result = await this.notificationService.unsubscribe(token);
+
+      if (req.accepts(['json', 'html']) === 'html') {
+        this.sendPage(res, 200, 'Unsubscribed', [
+          `<p>You will no longer receive ${escapeHtml(this.describeScope(result.scope))}.</p>`
+        ]);
+        return;
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  private describeScope(scope: UnsubscribeScope): string {
+    return SCOPE_DESCRIPTIONS[scope] || 'email for this activity subscription';
+  }
+
+  private sendPage(res: Response, status: number, title: string, body: string[]): void {
+    res
+      .status(status)
+      .type('html')
+      .send(`<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head><body><h1>${escapeHtml(title)}</h1>${body.join('')}</body></html>`);
+  }
+}
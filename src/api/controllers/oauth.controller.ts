@@ -106,7 +106,8 @@ export class OAuthController {
    */
   private async handleStorageOAuth(tokens: any, state: any): Promise<void> {
     try {
-      const { provider, userId, companyId, storageName, storageType } = state;
+      const { provider, userId, companyId, storageName } = state;
+      let { storageType } = state;
       
       if (!storageName || !storageType) {
         throw new Error('Missing storage account information');
@@ -144,8 +145,12 @@ export class OAuthController {
             ...credentials,
             type: 'oauth',
             clientId: process.env.ONEDRIVE_CLIENT_ID,
-            clientSecret: process.env.ONEDRIVE_CLIENT_SECRET
+            clientSecret: process.env.ONEDRIVE_CLIENT_SECRET,
+            tenantId: process.env.ONEDRIVE_TENANT_ID || 'common',
+            expiryDate: Date.now() + tokens.expires_in * 1000
           };
+          // Tokens from this flow only work with the OneDrive provider
+          storageType = 'onedrive';
           break;
           
         default:
@@ -3,7 +3,7 @@ import { injectable, inject } from 'inversify';
 import { Request, Response } from 'express';
 import { RoomService, CreateRoomDto, UpdateRoomDto, RoomMemberDto, EphemeralFileDto } from '../../services/room/room.service';
 import { Logger } from '../../utils/logger';
-import { ValidationError, ForbiddenError } from '../../utils/errors';
+import { ValidationError, ForbiddenError, UploadRestrictionError } from '../../utils/errors';
 import multer from 'multer';
 
 // Configure multer for memory storage (files as buffers)
@@ -373,7 +373,14 @@ export class RoomController {
       });
     } catch (error: any) {
       this.logger.error('Failed to upload file to room', { error: error.message });
-      if (error instanceof ValidationError) {
+      if (error instanceof UploadRestrictionError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details
+        });
+      } else if (error instanceof ValidationError) {
         res.status(400).json({ 
           success: false,
           error: error.message 
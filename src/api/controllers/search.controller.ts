@@ -0,0 +1,114 @@
+// src/api/controllers/search.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { SearchService } from '../../services/search/search.service';
+
+@injectable()
+export class SearchController {
+  constructor(
+    @inject('SearchService') private searchService: SearchService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('SearchController');
+  }
+
+  /**
+   * Save a search
+   */
+  async saveSearch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name, roomId, params, isDefault } = req.body;
+      const search = await this.searchService.saveSearch(req.user.id, {
+        name,
+        roomId,
+        params,
+        isDefault: isDefault === true
+      });
+      res.status(201).json(search);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the current user's saved searches
+   */
+  async listSavedSearches(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const searches = await this.searchService.listSavedSearches(req.user.id);
+      res.json(searches);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a saved search
+   */
+  async renameSavedSearch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const search = await this.searchService.renameSavedSearch(id, req.user.id, req.body.name);
+      res.json(search);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Make a saved search the default
+   */
+  async setDefaultSavedSearch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const search = await this.searchService.setDefaultSavedSearch(id, req.user.id);
+      res.json(search);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      await this.searchService.deleteSavedSearch(id, req.user.id);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Re-run a saved search
+   */
+  async runSavedSearch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { page, limit } = req.query;
+      const results = await this.searchService.runSavedSearch(id, req.user.id, {
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined
+      });
+      res.json(results);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the current user's recent searches
+   */
+  async getRecentSearches(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { limit = 20 } = req.query;
+      const searches = await this.searchService.getRecentSearches(req.user.id, Number(limit) || 20);
+      res.json(searches);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+}
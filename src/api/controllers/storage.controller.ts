@@ -3,13 +3,19 @@ import { Request, Response, NextFunction } from 'express';
 import { injectable, inject } from 'inversify';
 import { StorageService } from '../../services/storage/storage.service';
 import { Logger } from '../../utils/logger';
-import { ValidationError } from '../../utils/errors';
+import { UploadRestrictionError, ValidationError } from '../../utils/errors';
 import { StorageProviderType } from '../../services/storage/types';
+import { WebSocketService } from '../../services/websocket/websocket.service';
+import { streamUpload } from '../middleware/streaming-upload.middleware';
+
+// 100MB limit for uploads straight to a storage account
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
 
 @injectable()
 export class StorageController {
   constructor(
     @inject('StorageService') private storageService: StorageService,
+    @inject('WebSocketService') private wsService: WebSocketService,
     @inject('Logger') private logger: Logger
   ) {
     this.logger = logger.createChildLogger('StorageController');
@@ -306,6 +312,11 @@ export class StorageController {
     }
   }
 
+  /**
+   * Upload a file to a storage account, streaming it as it arrives and
+   * reporting progress to the uploader over websocket. A size field sent
+   * before the file lets progress be given as a percentage.
+   */
   async uploadWithProgress(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
@@ -318,37 +329,23 @@ export class StorageController {
         return;
       }
       
-      if (!req.file) {
-        res.status(400).json({ error: 'No file uploaded' });
-        return;
-      }
-      
-      // Track upload progress
-      let lastProgress = 0;
-      const progressCallback = (progress: any) => {
-        // Only send progress updates when there's significant change (every 5%)
-        if (progress.percent - lastProgress >= 5) {
-          lastProgress = progress.percent;
-          // If this were a WebSocket connection, we could send progress updates
-          // this.webSocketService.sendToUser(req.user.id, 'upload:progress', {
-          //   storageId: id,
-          //   fileName: req.file!.originalname,
-          //   progress
-          // });
-        }
-      };
-      
-      // Upload the file with progress tracking
-      const fileMetadata = await this.storageService.uploadFile(
-        id,
-        path as string,
-        req.file.originalname,
-        req.file.buffer,
-        {
-          contentType: req.file.mimetype,
-          onProgress: progressCallback
-        }
-      );
+      const fileMetadata = await new Promise((resolve, reject) => {
+        streamUpload('file', MAX_UPLOAD_BYTES, (req, upload) => {
+          const declaredSize = Number(req.body.size) || undefined;
+          
+          return this.storageService.uploadFile(id, path as string, upload.fileName, upload.stream, {
+            contentType: upload.mimeType,
+            contentLength: declaredSize,
+            onProgress: progress => {
+              this.wsService.broadcastToUser(req.user.id, 'upload:progress', {
+                storageId: id,
+                fileName: upload.fileName,
+                progress
+              });
+            }
+          });
+        })(req, res, (err?: any) => (err ? reject(err) : resolve(res.locals.upload)));
+      });
       
       res.status(201).json(fileMetadata);
     } catch (error: any) {
@@ -359,6 +356,16 @@ export class StorageController {
         return;
       }
       
+      if (error instanceof UploadRestrictionError) {
+        res.status(413).json({ error: error.message });
+        return;
+      }
+      
+      if (error instanceof ValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      
       res.status(500).json({ error: 'Failed to upload file' });
     }
   }
@@ -0,0 +1,127 @@
+// src/api/controllers/subscription.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { SubscriptionService } from '../../services/subscription/subscription.service';
+import { BillingWebhookService } from '../../services/billing/billing-webhook.service';
+import { ValidationError } from '../../utils/errors';
+
+@injectable()
+export class SubscriptionController {
+  constructor(
+    @inject('SubscriptionService') private subscriptionService: SubscriptionService,
+    @inject('BillingWebhookService') private billingWebhookService: BillingWebhookService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('SubscriptionController');
+  }
+
+  /**
+   * List available plans
+   */
+  async listPlans(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const plans = await this.subscriptionService.listPlans();
+      res.json(plans);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a company's subscription, plan and usage
+   */
+  async getCompanySubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const subscription = await this.subscriptionService.getCompanySubscription(id, req.user);
+      res.json(subscription);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start a subscription for a company. Paid plans answer with a checkout to
+   * complete; the subscription starts once the payment provider confirms it.
+   */
+  async startSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { planId, trialDays } = req.body;
+
+      if (!planId) {
+        throw new ValidationError('Plan ID is required');
+      }
+
+      const result = await this.subscriptionService.startSubscription(id, {
+        planId,
+        trialDays: trialDays !== undefined ? Number(trialDays) : undefined
+      }, req.user);
+
+      if (result.checkout) {
+        res.status(202).json({ checkout: result.checkout });
+        return;
+      }
+      res.status(201).json(result.subscription);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a company's plan. Changes that go through the payment provider
+   * answer with 202 and apply once it confirms them.
+   */
+  async changePlan(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { planId } = req.body;
+
+      if (!planId) {
+        throw new ValidationError('Plan ID is required');
+      }
+
+      const result = await this.subscriptionService.changePlan(id, planId, req.user);
+
+      if (result.checkout || result.pending) {
+        res.status(202).json(result);
+        return;
+      }
+      res.json(result.subscription);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel a company's subscription
+   */
+  async cancelSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const subscription = await this.subscriptionService.cancelSubscription(id, req.user);
+      res.json(subscription);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Receive a signed event from a payment provider
+   */
+  async handleWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { provider } = req.params;
+
+      if (!req.rawBody) {
+        throw new ValidationError('Webhook body is required');
+      }
+
+      const result = await this.billingWebhookService.handleWebhook(provider, req.rawBody, req.headers);
+      res.json({ received: true, ...result });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+}
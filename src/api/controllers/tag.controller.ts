@@ -0,0 +1,139 @@
+// src/api/controllers/tag.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { TagService } from '../../services/tag/tag.service';
+import { ValidationError } from '../../utils/errors';
+
+@injectable()
+export class TagController {
+  constructor(
+    @inject('TagService') private tagService: TagService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('TagController');
+  }
+
+  /**
+   * List a company's tags
+   */
+  async listTags(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const tags = await this.tagService.listTags(id, req.user);
+      res.json(tags);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a tag
+   */
+  async createTag(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, color } = req.body;
+      const tag = await this.tagService.createTag(id, req.user, { name, color });
+      res.status(201).json(tag);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename or recolor a tag
+   */
+  async updateTag(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, tagId } = req.params;
+      const { name, color } = req.body;
+      const tag = await this.tagService.updateTag(id, tagId, req.user, { name, color });
+      res.json(tag);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a tag
+   */
+  async deleteTag(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, tagId } = req.params;
+      await this.tagService.deleteTag(id, tagId, req.user);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the tags on a file
+   */
+  async getFileTags(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const tags = await this.tagService.getFileTags(id, req.user.id);
+      res.json(tags);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add tags to a file
+   */
+  async addFileTags(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { tagIds } = req.body;
+
+      if (!Array.isArray(tagIds) || tagIds.length === 0) {
+        throw new ValidationError('tagIds must be a non-empty array');
+      }
+
+      const tags = await this.tagService.addTagsToFile(id, tagIds, req.user.id);
+      res.json(tags);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a tag from a file
+   */
+  async removeFileTag(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, tagId } = req.params;
+      const tags = await this.tagService.removeTagsFromFile(id, [tagId], req.user.id);
+      res.json(tags);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add and remove tags on several files
+   */
+  async bulkUpdateFileTags(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { fileIds, add, remove } = req.body;
+      const results = await this.tagService.bulkUpdateFileTags(fileIds, {
+        add: Array.isArray(add) ? add : undefined,
+        remove: Array.isArray(remove) ? remove : undefined
+      }, req.user.id);
+
+      const errors = results.filter(result => !result.success).length;
+      res.json({
+        success: errors === 0,
+        message: errors === 0
+          ? 'Tags updated on all files'
+          : `Tags updated on ${results.length - errors}/${results.length} files`,
+        data: results
+      });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+}
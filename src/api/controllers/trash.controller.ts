@@ -0,0 +1,67 @@
+// src/api/controllers/trash.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { TrashService } from '../../services/file/trash.service';
+import { ValidationError } from '../../utils/errors';
+
+@injectable()
+export class TrashController {
+  constructor(
+    @inject('TrashService') private trashService: TrashService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('TrashController');
+  }
+
+  /**
+   * List a room's trash
+   */
+  async listTrash(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { page, limit } = req.query;
+
+      const result = await this.trashService.listTrash(id, req.user, {
+        page: page ? parseInt(page as string, 10) || undefined : undefined,
+        limit: limit ? parseInt(limit as string, 10) || undefined : undefined
+      });
+      res.json(result);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Restore files from a room's trash
+   */
+  async restoreFiles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { fileIds } = req.body;
+
+      if (!Array.isArray(fileIds) || fileIds.some(fileId => typeof fileId !== 'string')) {
+        throw new ValidationError('fileIds must be a list of file IDs');
+      }
+
+      const result = await this.trashService.restoreFiles(id, req.user, fileIds);
+      res.json(result);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Permanently delete a batch of a room's trash. The response says how many
+   * items remain, so clients repeat the request until none do.
+   */
+  async emptyTrash(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const result = await this.trashService.emptyTrash(id, req.user);
+      res.json(result);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+}
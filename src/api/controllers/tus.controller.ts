@@ -0,0 +1,184 @@
+// src/api/controllers/tus.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import {
+  TusUploadService,
+  TusUploadState,
+  TusChecksum,
+  parseTusMetadata,
+  TUS_VERSION,
+  TUS_EXTENSIONS,
+  TUS_CHECKSUM_ALGORITHMS
+} from '../../services/file/tus-upload.service';
+import { AccessPolicyMiddleware } from '../middleware/access-policy.middleware';
+import { TusProtocolError } from '../../utils/errors';
+
+/**
+ * tus 1.0 resumable upload endpoint (core protocol plus the creation,
+ * termination, checksum and expiration extensions)
+ */
+@injectable()
+export class TusController {
+  constructor(
+    @inject('TusUploadService') private tusUploadService: TusUploadService,
+    @inject('AccessPolicyMiddleware') private accessPolicy: AccessPolicyMiddleware,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('TusController');
+  }
+
+  /**
+   * Describe the server's tus support
+   */
+  async getOptions(req: Request, res: Response): Promise<void> {
+    res.set({
+      'Tus-Resumable': TUS_VERSION,
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': TUS_EXTENSIONS.join(','),
+      'Tus-Checksum-Algorithm': TUS_CHECKSUM_ALGORITHMS.join(',')
+    });
+    res.status(204).end();
+  }
+
+  /**
+   * Create an upload
+   */
+  async createUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.assertTusRequest(req, res);
+
+      if (req.get('upload-defer-length') !== undefined) {
+        throw new TusProtocolError(400, 'DEFER_LENGTH_UNSUPPORTED', 'Upload-Length must be given when the upload is created');
+      }
+
+      const uploadLength = this.parseInteger(req.get('upload-length'), 'Upload-Length');
+      const uploadMetadata = req.get('upload-metadata') || null;
+
+      const { roomId } = parseTusMetadata(uploadMetadata);
+      if (roomId) {
+        await this.accessPolicy.check(req, { roomIds: [roomId] });
+      }
+
+      const upload = await this.tusUploadService.createUpload({
+        userId: req.user.id,
+        uploadLength,
+        uploadMetadata
+      });
+
+      res.set({
+        Location: `${req.protocol}://${req.get('host')}${req.baseUrl}/tus/${upload.id}`,
+        'Upload-Expires': upload.expiresAt.toUTCString()
+      });
+      res.status(201).end();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Report an upload's offset
+   */
+  async getUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.assertTusRequest(req, res);
+
+      const upload = await this.tusUploadService.getUpload(req.params.id, req.user.id);
+
+      this.setUploadHeaders(res, upload);
+      res.set({
+        'Upload-Length': String(upload.length),
+        'Cache-Control': 'no-store'
+      });
+      if (upload.metadata) {
+        res.set('Upload-Metadata', upload.metadata);
+      }
+      res.status(200).end();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Append a chunk to an upload
+   */
+  async appendChunk(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.assertTusRequest(req, res);
+
+      if (req.get('content-type') !== 'application/offset+octet-stream') {
+        throw new TusProtocolError(415, 'UNSUPPORTED_CONTENT_TYPE', 'Content-Type must be application/offset+octet-stream');
+      }
+
+      const offset = this.parseInteger(req.get('upload-offset'), 'Upload-Offset');
+      const contentLength = req.get('content-length');
+
+      const upload = await this.tusUploadService.appendChunk(req.params.id, req.user.id, offset, req, {
+        contentLength: contentLength !== undefined ? this.parseInteger(contentLength, 'Content-Length') : undefined,
+        checksum: this.parseChecksum(req.get('upload-checksum'))
+      });
+
+      this.setUploadHeaders(res, upload);
+      if (upload.fileId) {
+        res.set('X-File-Id', upload.fileId);
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Terminate an upload
+   */
+  async terminateUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.assertTusRequest(req, res);
+
+      await this.tusUploadService.terminateUpload(req.params.id, req.user.id);
+      res.status(204).end();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Every tus response carries Tus-Resumable; requests for another protocol
+   * version are refused
+   */
+  private assertTusRequest(req: Request, res: Response): void {
+    res.set('Tus-Resumable', TUS_VERSION);
+
+    if (req.get('tus-resumable') !== TUS_VERSION) {
+      res.set('Tus-Version', TUS_VERSION);
+      throw new TusProtocolError(412, 'TUS_VERSION_UNSUPPORTED', `Tus-Resumable must be ${TUS_VERSION}`);
+    }
+  }
+
+  private setUploadHeaders(res: Response, upload: TusUploadState): void {
+    res.set({
+      'Upload-Offset': String(upload.offset),
+      'Upload-Expires': upload.expiresAt.toUTCString()
+    });
+  }
+
+  private parseInteger(value: string | undefined, header: string): number {
+    if (value === undefined || !/^\d+$/.test(value)) {
+      throw new TusProtocolError(400, 'INVALID_HEADER', `${header} must be a non-negative integer`);
+    }
+    return Number(value);
+  }
+
+  private parseChecksum(value: string | undefined): TusChecksum | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const [algorithm, digest] = value.trim().split(' ');
+    if (!algorithm || !digest) {
+      throw new TusProtocolError(400, 'INVALID_HEADER', 'Upload-Checksum must be an algorithm and a base64 digest');
+    }
+
+    return { algorithm, digest };
+  }
+}
@@ -0,0 +1,126 @@
+// src/api/controllers/webhook.controller.ts
+import { Request, Response, NextFunction } from 'express';
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { WebhookService } from '../../services/webhook/webhook.service';
+import { ValidationError } from '../../utils/errors';
+
+@injectable()
+export class WebhookController {
+  constructor(
+    @inject('WebhookService') private webhookService: WebhookService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('WebhookController');
+  }
+
+  /**
+   * List a company's webhook endpoints
+   */
+  async listEndpoints(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const endpoints = await this.webhookService.listEndpoints(id, req.user);
+      res.json(endpoints);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a webhook endpoint. The signing secret is only returned here.
+   */
+  async createEndpoint(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { url, description, events } = req.body;
+
+      const endpoint = await this.webhookService.createEndpoint(id, req.user, { url, description, events });
+      res.status(201).json(endpoint);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a webhook endpoint's URL, events or enabled state
+   */
+  async updateEndpoint(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, webhookId } = req.params;
+      const { url, description, events, isActive } = req.body;
+
+      if (isActive !== undefined && typeof isActive !== 'boolean') {
+        throw new ValidationError('isActive must be a boolean');
+      }
+
+      const endpoint = await this.webhookService.updateEndpoint(id, webhookId, req.user, {
+        url,
+        description,
+        events,
+        isActive
+      });
+      res.json(endpoint);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a webhook endpoint
+   */
+  async deleteEndpoint(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, webhookId } = req.params;
+      await this.webhookService.deleteEndpoint(id, webhookId, req.user);
+      res.status(204).send();
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a ping event to a webhook endpoint
+   */
+  async sendTestEvent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, webhookId } = req.params;
+      const delivery = await this.webhookService.sendTestEvent(id, webhookId, req.user);
+      res.json(delivery);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * List a webhook endpoint's deliveries
+   */
+  async listDeliveries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, webhookId } = req.params;
+      const { status, page, limit } = req.query;
+
+      const deliveries = await this.webhookService.listDeliveries(id, webhookId, req.user, {
+        status: status as string | undefined,
+        page: page ? parseInt(page as string) : undefined,
+        limit: limit ? parseInt(limit as string) : undefined
+      });
+      res.json(deliveries);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a past delivery again
+   */
+  async redeliver(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, webhookId, deliveryId } = req.params;
+      const delivery = await this.webhookService.redeliver(id, webhookId, deliveryId, req.user);
+      res.json(delivery);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+// src/api/middleware/access-policy.middleware.ts
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { injectable, inject } from 'inversify';
+import {
+  AccessPolicyService,
+  PolicyAccessRequest,
+  PolicyAction
+} from '../../services/room/access-policy.service';
+
+type PolicyTarget = Pick<PolicyAccessRequest, 'roomIds' | 'fileIds' | 'shareId' | 'uploadId'>;
+
+/**
+ * Enforces room access control policies on authenticated requests.
+ * Must run after AuthMiddleware.verifyToken.
+ */
+@injectable()
+export class AccessPolicyMiddleware {
+  constructor(
+    @inject('AccessPolicyService') private readonly accessPolicyService: AccessPolicyService
+  ) {}
+
+  /**
+   * Enforce the policies of the room in a route parameter
+   */
+  forRoom(param: string = 'id', action: PolicyAction = 'access'): RequestHandler {
+    return this.guard(req => ({ roomIds: this.ids(req.params[param]) }), action);
+  }
+
+  /**
+   * Enforce the policies of the room containing the file in a route parameter
+   */
+  forFile(param: string = 'id', action: PolicyAction = 'access'): RequestHandler {
+    return this.guard(req => ({ fileIds: this.ids(req.params[param]) }), action);
+  }
+
+  /**
+   * Enforce the policies of the room containing the shared file in a route parameter
+   */
+  forShare(param: string = 'id', action: PolicyAction = 'access'): RequestHandler {
+    return this.guard(req => ({ shareId: req.params[param] }), action);
+  }
+
+  /**
+   * Enforce the policies of the room a multipart or tus upload in a route parameter goes to
+   */
+  forUpload(param: string = 'uploadId', action: PolicyAction = 'access'): RequestHandler {
+    return this.guard(req => ({ uploadId: req.params[param] }), action);
+  }
+
+  /**
+   * Enforce the policies of the room in a body field
+   */
+  forBodyRoom(field: string = 'roomId', action: PolicyAction = 'access'): RequestHandler {
+    return this.guard(req => ({ roomIds: this.ids(req.body?.[field]) }), action);
+  }
+
+  /**
+   * Enforce the policies of the rooms containing the files in a body field,
+   * which may hold one file ID or a list of them
+   */
+  forBodyFiles(field: string = 'fileIds', action: PolicyAction = 'access'): RequestHandler {
+    return this.guard(req => ({ fileIds: this.ids(req.body?.[field]) }), action);
+  }
+
+  /**
+   * Enforce policies for a request whose targets are only known inside the
+   * handler, e.g. after parsing a multipart body
+   */
+  async check(req: Request, target: PolicyTarget, action: PolicyAction = 'access'): Promise<void> {
+    if (!req.user) {
+      return;
+    }
+
+    await this.accessPolicyService.assertAccessAllowed({
+      ...target,
+      ...this.describe(req),
+      action
+    });
+  }
+
+  /**
+   * The rooms of a company among roomIds whose policies allow a request that
+   * spans many rooms, e.g. company-wide search
+   */
+  async allowedRooms(req: Request, companyId: string, roomIds: string[], action: PolicyAction = 'access'): Promise<string[]> {
+    if (!req.user) {
+      return roomIds;
+    }
+
+    return this.accessPolicyService.filterAllowedRoomIds(companyId, roomIds, {
+      ...this.describe(req),
+      action
+    });
+  }
+
+  private describe(req: Request) {
+    return {
+      userId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      token: req.headers.authorization?.split(' ')[1]
+    };
+  }
+
+  private guard(select: (req: Request) => PolicyTarget, action: PolicyAction): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        await this.check(req, select(req), action);
+        next();
+      } catch (error: any) {
+        next(error);
+      }
+    };
+  }
+
+  private ids(value: unknown): string[] {
+    if (Array.isArray(value)) {
+      return value.filter((id): id is string => typeof id === 'string');
+    }
+    return typeof value === 'string' && value ? [value] : [];
+  }
+}
@@ -0,0 +1,83 @@
+// src/api/middleware/streaming-upload.middleware.ts
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import { PassThrough, Readable } from 'stream';
+import { UploadRestrictionError, ValidationError } from '../../utils/errors';
+
+/**
+ * A file from a multipart form, before any of its content has been read
+ */
+export interface IncomingUpload {
+  fileName: string;
+  mimeType: string;
+  stream: Readable;
+  // Largest file the route accepts, in bytes
+  maxBytes: number;
+}
+
+/**
+ * Consumes an upload's stream. Form fields sent before the file are already
+ * on req.body. The result is left on res.locals.upload.
+ */
+export type UploadStreamHandler = (req: Request, upload: IncomingUpload) => Promise<unknown>;
+
+/**
+ * Accept one file in a multipart form and hand its content to a handler as it
+ * arrives, instead of buffering it like multer's memory storage does. Clients
+ * must send the form fields the handler needs before the file. A file larger
+ * than maxBytes fails both its handler, so a truncated file is never stored,
+ * and the request.
+ */
+export function streamUpload(fieldName: string, maxBytes: number, handler: UploadStreamHandler): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    let handled = false;
+    let result: unknown;
+
+    const tooLarge = () => new UploadRestrictionError('FILE_TOO_LARGE', 'The file is larger than the maximum upload size', {
+      max: maxBytes
+    });
+
+    const storage: multer.StorageEngine = {
+      _handleFile(request, file, callback) {
+        handled = true;
+
+        const stream = new PassThrough();
+        file.stream.on('limit', () => stream.destroy(tooLarge()));
+        file.stream.pipe(stream);
+
+        handler(request, { fileName: file.originalname, mimeType: file.mimetype, stream, maxBytes }).then(
+          value => {
+            result = value;
+            callback(null, {});
+          },
+          error => {
+            // Drain what is left so the rest of the form can still be parsed
+            file.stream.unpipe(stream);
+            stream.destroy();
+            file.stream.resume();
+            callback(error);
+          }
+        );
+      },
+      _removeFile(_request, _file, callback) {
+        // Handlers clean up after their own failures
+        callback(null);
+      }
+    };
+
+    multer({ storage, limits: { files: 1, fileSize: maxBytes } }).single(fieldName)(req, res, (error?: any) => {
+      if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        return next(tooLarge());
+      }
+      if (error) {
+        return next(error);
+      }
+      if (!handled) {
+        return next(new ValidationError('No file uploaded'));
+      }
+
+      res.locals.upload = result;
+      next();
+    });
+  };
+}
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { injectable, inject } from 'inversify';
 import { ActivityController } from '../controllers/activity.controller';
+import { ActivitySubscriptionController } from '../controllers/activity-subscription.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
 import { AdminMiddleware } from '../middleware/admin.middleware';
 
@@ -10,6 +11,7 @@ export class ActivityRoutes {
 
   constructor(
     @inject('ActivityController') private activityController: ActivityController,
+    @inject('ActivitySubscriptionController') private subscriptionController: ActivitySubscriptionController,
     @inject('AuthMiddleware') private authMiddleware: AuthMiddleware,
     @inject('AdminMiddleware') private adminMiddleware: AdminMiddleware
   ) {
@@ -40,10 +42,27 @@ export class ActivityRoutes {
       this.adminMiddleware.verifyAdmin.bind(this.adminMiddleware),
       this.activityController.exportActivityLogs.bind(this.activityController)
     );
+    this.router.get('/exports/:exportId',
+      this.authMiddleware.verifyToken.bind(this.authMiddleware),
+      this.adminMiddleware.verifyAdmin.bind(this.adminMiddleware),
+      this.activityController.getActivityExport.bind(this.activityController)
+    );
+    this.router.get('/exports/:exportId/download',
+      this.authMiddleware.verifyToken.bind(this.authMiddleware),
+      this.adminMiddleware.verifyAdmin.bind(this.adminMiddleware),
+      this.activityController.downloadActivityExport.bind(this.activityController)
+    );
     
     // Activity notification subscription
     this.router.post('/subscribe', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.activityController.subscribeToActivities.bind(this.activityController));
     this.router.post('/unsubscribe', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.activityController.unsubscribeFromActivities.bind(this.activityController));
+
+    // Activity subscriptions
+    this.router.get('/subscriptions', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.subscriptionController.list.bind(this.subscriptionController));
+    this.router.post('/subscriptions', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.subscriptionController.create.bind(this.subscriptionController));
+    this.router.get('/subscriptions/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.subscriptionController.get.bind(this.subscriptionController));
+    this.router.patch('/subscriptions/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.subscriptionController.update.bind(this.subscriptionController));
+    this.router.delete('/subscriptions/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.subscriptionController.delete.bind(this.subscriptionController));
   }
 
   public getRouter(): Router {
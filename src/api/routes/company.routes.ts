@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import { injectable, inject } from 'inversify';
 import { CompanyController } from '../controllers/company.controller';
+import { TagController } from '../controllers/tag.controller';
+import { SubscriptionController } from '../controllers/subscription.controller';
+import { GuestController } from '../controllers/guest.controller';
+import { AccessPolicyController } from '../controllers/access-policy.controller';
+import { WebhookController } from '../controllers/webhook.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
 import { validateCompanyCreate, validateCompanyUpdate, validate } from '../middleware/validation.middleware';
 
@@ -10,6 +15,11 @@ export class CompanyRoutes {
 
   constructor(
     @inject('CompanyController') private companyController: CompanyController,
+    @inject('TagController') private tagController: TagController,
+    @inject('SubscriptionController') private subscriptionController: SubscriptionController,
+    @inject('GuestController') private guestController: GuestController,
+    @inject('AccessPolicyController') private accessPolicyController: AccessPolicyController,
+    @inject('WebhookController') private webhookController: WebhookController,
     @inject('AuthMiddleware') private authMiddleware: AuthMiddleware
   ) {
     this.router = Router();
@@ -36,6 +46,48 @@ export class CompanyRoutes {
     this.router.delete('/:id/members/:userId', this.companyController.removeCompanyMember.bind(this.companyController));
     this.router.put('/:id/members/:userId/role', this.companyController.updateMemberRole.bind(this.companyController));
 
+    // Company invite routes - must be before the basic /:id routes
+    this.router.get('/:id/invites', this.companyController.listInvites.bind(this.companyController));
+    this.router.post('/:id/invites', this.companyController.createInvite.bind(this.companyController));
+    this.router.delete('/:id/invites/:token', this.companyController.revokeInvite.bind(this.companyController));
+
+    // Company tag routes - must be before the basic /:id routes
+    this.router.get('/:id/tags', this.tagController.listTags.bind(this.tagController));
+    this.router.post('/:id/tags', this.tagController.createTag.bind(this.tagController));
+    this.router.patch('/:id/tags/:tagId', this.tagController.updateTag.bind(this.tagController));
+    this.router.delete('/:id/tags/:tagId', this.tagController.deleteTag.bind(this.tagController));
+
+    // Company subscription routes - must be before the basic /:id routes
+    this.router.get('/:id/subscription', this.subscriptionController.getCompanySubscription.bind(this.subscriptionController));
+    this.router.post('/:id/subscription', this.subscriptionController.startSubscription.bind(this.subscriptionController));
+    this.router.patch('/:id/subscription', this.subscriptionController.changePlan.bind(this.subscriptionController));
+    this.router.post('/:id/subscription/cancel', this.subscriptionController.cancelSubscription.bind(this.subscriptionController));
+
+    // Company guest list routes - must be before the basic /:id routes
+    this.router.get('/:id/guests', this.guestController.listGuests.bind(this.guestController));
+    this.router.post('/:id/guests', this.guestController.addGuest.bind(this.guestController));
+    this.router.delete('/:id/guests/:userId', this.guestController.removeGuest.bind(this.guestController));
+
+    // Company access policy routes - must be before the basic /:id routes
+    this.router.get('/:id/policies', this.accessPolicyController.listCompanyPolicies.bind(this.accessPolicyController));
+    this.router.post('/:id/policies', this.accessPolicyController.createCompanyPolicy.bind(this.accessPolicyController));
+    this.router.post('/:id/policies/dry-run', this.accessPolicyController.dryRunCompanyPolicies.bind(this.accessPolicyController));
+    this.router.get('/:id/policies/:policyId', this.accessPolicyController.getPolicy.bind(this.accessPolicyController));
+    this.router.patch('/:id/policies/:policyId', this.accessPolicyController.updatePolicy.bind(this.accessPolicyController));
+    this.router.delete('/:id/policies/:policyId', this.accessPolicyController.deletePolicy.bind(this.accessPolicyController));
+
+    // Company webhook routes - must be before the basic /:id routes
+    this.router.get('/:id/webhooks', this.webhookController.listEndpoints.bind(this.webhookController));
+    this.router.post('/:id/webhooks', this.webhookController.createEndpoint.bind(this.webhookController));
+    this.router.patch('/:id/webhooks/:webhookId', this.webhookController.updateEndpoint.bind(this.webhookController));
+    this.router.delete('/:id/webhooks/:webhookId', this.webhookController.deleteEndpoint.bind(this.webhookController));
+    this.router.post('/:id/webhooks/:webhookId/test', this.webhookController.sendTestEvent.bind(this.webhookController));
+    this.router.get('/:id/webhooks/:webhookId/deliveries', this.webhookController.listDeliveries.bind(this.webhookController));
+    this.router.post(
+      '/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver',
+      this.webhookController.redeliver.bind(this.webhookController)
+    );
+
     // Basic company CRUD routes
     this.router.get('/:id', this.companyController.getCompany.bind(this.companyController));
     this.router.put('/:id', validateCompanyUpdate, validate, this.companyController.updateCompany.bind(this.companyController));
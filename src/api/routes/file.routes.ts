@@ -2,7 +2,10 @@
 import { Router } from 'express';
 import { injectable, inject } from 'inversify';
 import { FileController } from '../controllers/file.controller';
+import { TagController } from '../controllers/tag.controller';
+import { TusController } from '../controllers/tus.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { AccessPolicyMiddleware } from '../middleware/access-policy.middleware';
 
 @injectable()
 export class FileRoutes {
@@ -10,7 +13,10 @@ export class FileRoutes {
 
   constructor(
     @inject('FileController') private fileController: FileController,
-    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware
+    @inject('TagController') private tagController: TagController,
+    @inject('TusController') private tusController: TusController,
+    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware,
+    @inject('AccessPolicyMiddleware') private accessPolicy: AccessPolicyMiddleware
   ) {
     this.router = Router();
     this.setupRoutes();
@@ -20,37 +26,64 @@ export class FileRoutes {
     // Public routes for file sharing
     this.router.get('/share/:token', this.fileController.getFileByShareToken.bind(this.fileController));
 
+    // tus capability discovery
+    this.router.options('/tus', this.tusController.getOptions.bind(this.tusController));
+    this.router.options('/tus/:id', this.tusController.getOptions.bind(this.tusController));
+
     // Protected routes - require authentication
     this.router.use(this.authMiddleware.verifyToken.bind(this.authMiddleware));
 
+    // Room access policies are enforced per route, based on the room or file it targets
+
     // File management
-    this.router.get('/room/:roomId', this.fileController.getFiles.bind(this.fileController));
-    this.router.get('/room/:roomId/search', this.fileController.searchFiles.bind(this.fileController));
-    this.router.get('/:id', this.fileController.getFile.bind(this.fileController));
-    this.router.get('/:id/content', this.fileController.getFileContent.bind(this.fileController));
-    this.router.post('/folder', this.fileController.createFolder.bind(this.fileController));
+    this.router.get('/room/:roomId', this.accessPolicy.forRoom('roomId'), this.fileController.getFiles.bind(this.fileController));
+    this.router.get('/room/:roomId/search', this.accessPolicy.forRoom('roomId'), this.fileController.searchFiles.bind(this.fileController));
+    // Spans many rooms, so the handler leaves out the ones whose policies deny the request
+    this.router.get('/search', this.fileController.searchCompanyFiles.bind(this.fileController));
+    this.router.get('/:id', this.accessPolicy.forFile(), this.fileController.getFile.bind(this.fileController));
+    this.router.get('/:id/content', this.accessPolicy.forFile('id', 'download'), this.fileController.getFileContent.bind(this.fileController));
+    this.router.get('/:id/stream', this.accessPolicy.forFile('id', 'download'), this.fileController.streamFile.bind(this.fileController));
+    this.router.post('/folder', this.accessPolicy.forBodyRoom(), this.fileController.createFolder.bind(this.fileController));
     this.router.post('/upload', this.fileController.uploadFile);
-    this.router.patch('/:id', this.fileController.updateFile.bind(this.fileController));
-    this.router.delete('/:id', this.fileController.deleteFile.bind(this.fileController));
-    this.router.post('/:id/restore', this.fileController.restoreFile.bind(this.fileController));
-    this.router.get('/:id/download', this.fileController.getDownloadUrl.bind(this.fileController));
+    this.router.patch('/:id', this.accessPolicy.forFile(), this.fileController.updateFile.bind(this.fileController));
+    this.router.delete('/:id', this.accessPolicy.forFile(), this.fileController.deleteFile.bind(this.fileController));
+    this.router.post('/:id/restore', this.accessPolicy.forFile(), this.fileController.restoreFile.bind(this.fileController));
+    this.router.get('/:id/download', this.accessPolicy.forFile('id', 'download'), this.fileController.getDownloadUrl.bind(this.fileController));
+
+    // File versions
+    this.router.get('/:id/versions', this.accessPolicy.forFile(), this.fileController.getFileVersions.bind(this.fileController));
+    this.router.get('/:id/versions/:versionId/download', this.accessPolicy.forFile('id', 'download'), this.fileController.getVersionDownloadUrl.bind(this.fileController));
+    this.router.post('/:id/versions/:versionId/restore', this.accessPolicy.forFile(), this.fileController.restoreVersion.bind(this.fileController));
+
+    // File tags
+    this.router.get('/:id/tags', this.accessPolicy.forFile(), this.tagController.getFileTags.bind(this.tagController));
+    this.router.post('/:id/tags', this.accessPolicy.forFile(), this.tagController.addFileTags.bind(this.tagController));
+    this.router.delete('/:id/tags/:tagId', this.accessPolicy.forFile(), this.tagController.removeFileTag.bind(this.tagController));
 
     // Bulk operations
-    this.router.post('/bulk/move', this.fileController.moveFiles.bind(this.fileController));
-    this.router.post('/bulk/delete', this.fileController.deleteFiles.bind(this.fileController));
-    this.router.post('/bulk/copy', this.fileController.copyFiles.bind(this.fileController));
+    this.router.post('/bulk/move', this.accessPolicy.forBodyFiles(), this.fileController.moveFiles.bind(this.fileController));
+    this.router.post('/bulk/delete', this.accessPolicy.forBodyFiles(), this.fileController.deleteFiles.bind(this.fileController));
+    this.router.post('/bulk/copy', this.accessPolicy.forBodyFiles(), this.fileController.copyFiles.bind(this.fileController));
+    this.router.post('/bulk/tags', this.accessPolicy.forBodyFiles(), this.tagController.bulkUpdateFileTags.bind(this.tagController));
 
     // File sharing
-    this.router.post('/:id/share', this.fileController.createFileShare.bind(this.fileController));
-    this.router.delete('/share/:id', this.fileController.deleteFileShare.bind(this.fileController));
+    this.router.post('/:id/share', this.accessPolicy.forFile('id', 'share'), this.fileController.createFileShare.bind(this.fileController));
+    this.router.delete('/share/:id', this.accessPolicy.forShare(), this.fileController.deleteFileShare.bind(this.fileController));
 
     // Multipart upload
-    this.router.post('/upload/multipart', this.fileController.initMultipartUpload.bind(this.fileController));
-    this.router.get('/upload/multipart/:uploadId/part', this.fileController.getUploadPartUrl.bind(this.fileController));
-    this.router.post('/upload/multipart/:uploadId/part', this.fileController.completeUploadPart.bind(this.fileController));
-    this.router.post('/upload/multipart/:uploadId/complete', this.fileController.completeMultipartUpload.bind(this.fileController));
-    this.router.post('/upload/multipart/:uploadId/abort', this.fileController.abortMultipartUpload.bind(this.fileController));
-    this.router.get('/upload/multipart/:uploadId/status', this.fileController.getUploadStatus.bind(this.fileController));
+    this.router.get('/upload/multipart', this.fileController.listResumableUploads.bind(this.fileController));
+    this.router.post('/upload/multipart', this.accessPolicy.forBodyRoom(), this.fileController.initMultipartUpload.bind(this.fileController));
+    this.router.get('/upload/multipart/:uploadId/part', this.accessPolicy.forUpload(), this.fileController.getUploadPartUrl.bind(this.fileController));
+    this.router.post('/upload/multipart/:uploadId/part', this.accessPolicy.forUpload(), this.fileController.completeUploadPart.bind(this.fileController));
+    this.router.post('/upload/multipart/:uploadId/complete', this.accessPolicy.forUpload(), this.fileController.completeMultipartUpload.bind(this.fileController));
+    this.router.post('/upload/multipart/:uploadId/abort', this.accessPolicy.forUpload(), this.fileController.abortMultipartUpload.bind(this.fileController));
+    this.router.get('/upload/multipart/:uploadId/status', this.accessPolicy.forUpload(), this.fileController.getUploadStatus.bind(this.fileController));
+
+    // tus resumable uploads; the room of a new upload comes from its metadata, so creation is checked in the handler
+    this.router.post('/tus', this.tusController.createUpload.bind(this.tusController));
+    this.router.head('/tus/:id', this.accessPolicy.forUpload('id'), this.tusController.getUpload.bind(this.tusController));
+    this.router.patch('/tus/:id', this.accessPolicy.forUpload('id'), this.tusController.appendChunk.bind(this.tusController));
+    this.router.delete('/tus/:id', this.accessPolicy.forUpload('id'), this.tusController.terminateUpload.bind(this.tusController));
   }
 
   public getRouter(): Router {
@@ -10,6 +10,10 @@ import { RoomRoutes } from './room.routes';
 import { SharingRoutes } from './sharing.routes';
 import { ActivityRoutes } from './activity.routes';
 import { OAuthRoutes } from './oauth.routes';
+import { InviteRoutes } from './invite.routes';
+import { SearchRoutes } from './search.routes';
+import { SubscriptionRoutes } from './subscription.routes';
+import { NotificationRoutes } from './notification.routes';
 
 @injectable()
 export class Routes {
@@ -24,7 +28,11 @@ export class Routes {
     @inject('RoomRoutes') private roomRoutes: RoomRoutes,
     @inject('SharingRoutes') private sharingRoutes: SharingRoutes,
     @inject('ActivityRoutes') private activityRoutes: ActivityRoutes,
-    @inject('OAuthRoutes') private oauthRoutes: OAuthRoutes
+    @inject('OAuthRoutes') private oauthRoutes: OAuthRoutes,
+    @inject('InviteRoutes') private inviteRoutes: InviteRoutes,
+    @inject('SearchRoutes') private searchRoutes: SearchRoutes,
+    @inject('SubscriptionRoutes') private subscriptionRoutes: SubscriptionRoutes,
+    @inject('NotificationRoutes') private notificationRoutes: NotificationRoutes
   ) {
     this.router = Router();
     this.setupRoutes();
@@ -50,6 +58,10 @@ export class Routes {
     this.router.use('/shares', this.sharingRoutes.getRouter());
     this.router.use('/activities', this.activityRoutes.getRouter());
     this.router.use('/oauth', this.oauthRoutes.getRouter());
+    this.router.use('/invites', this.inviteRoutes.getRouter());
+    this.router.use('/searches', this.searchRoutes.getRouter());
+    this.router.use('/subscriptions', this.subscriptionRoutes.getRouter());
+    this.router.use('/notifications', this.notificationRoutes.getRouter());
   }
 
   public getRouter(): Router {
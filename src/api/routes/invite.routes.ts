@@ -0,0 +1,29 @@
+// src/api/routes/invite.routes.ts
+import { Router } from 'express';
+import { injectable, inject } from 'inversify';
+import { CompanyController } from '../controllers/company.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+
+@injectable()
+export class InviteRoutes {
+  private router: Router;
+
+  constructor(
+    @inject('CompanyController') private companyController: CompanyController,
+    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware
+  ) {
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // Protected routes - the invitee must be signed in with the invited email
+    this.router.use(this.authMiddleware.verifyToken.bind(this.authMiddleware));
+
+    this.router.post('/:token/accept', this.companyController.acceptInvite.bind(this.companyController));
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+}
@@ -0,0 +1,39 @@
+// src/api/routes/notification.routes.ts
+import { Router } from 'express';
+import { injectable, inject } from 'inversify';
+import { NotificationController } from '../controllers/notification.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+
+@injectable()
+export class NotificationRoutes {
+  private router: Router;
+
+  constructor(
+    @inject('NotificationController') private notificationController: NotificationController,
+    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware
+  ) {
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // Unsubscribe links are opened from emails - the signed token identifies the user.
+    // Opening one shows a confirmation page; the change is made by the POST.
+    this.router.get('/unsubscribe', this.notificationController.confirmUnsubscribe.bind(this.notificationController));
+    this.router.post('/unsubscribe', this.notificationController.unsubscribe.bind(this.notificationController));
+
+    // Protected routes - require authentication
+    this.router.use(this.authMiddleware.verifyToken.bind(this.authMiddleware));
+
+    this.router.get('/preferences', this.notificationController.getSettings.bind(this.notificationController));
+    this.router.patch('/preferences', this.notificationController.updateSettings.bind(this.notificationController));
+
+    this.router.get('/watches', this.notificationController.listWatches.bind(this.notificationController));
+    this.router.put('/watches/:roomId', this.notificationController.watchRoom.bind(this.notificationController));
+    this.router.delete('/watches/:roomId', this.notificationController.unwatchRoom.bind(this.notificationController));
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+}
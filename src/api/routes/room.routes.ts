@@ -1,7 +1,10 @@
 import { Router } from 'express';
 import { injectable, inject } from 'inversify';
 import { RoomController } from '../controllers/room.controller';
+import { AccessPolicyController } from '../controllers/access-policy.controller';
+import { TrashController } from '../controllers/trash.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { AccessPolicyMiddleware } from '../middleware/access-policy.middleware';
 
 @injectable()
 export class RoomRoutes {
@@ -9,7 +12,10 @@ export class RoomRoutes {
 
   constructor(
     @inject('RoomController') private roomController: RoomController,
-    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware
+    @inject('AccessPolicyController') private accessPolicyController: AccessPolicyController,
+    @inject('TrashController') private trashController: TrashController,
+    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware,
+    @inject('AccessPolicyMiddleware') private accessPolicy: AccessPolicyMiddleware
   ) {
     this.router = Router();
     this.setupRoutes();
@@ -18,34 +24,44 @@ export class RoomRoutes {
   private setupRoutes(): void {
     // Room management routes
     this.router.post('/', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.createRoom.bind(this.roomController));
-    this.router.get('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.getRoomById.bind(this.roomController));
-    this.router.put('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.updateRoom.bind(this.roomController));
-    this.router.delete('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.deleteRoom.bind(this.roomController));
+    this.router.get('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.getRoomById.bind(this.roomController));
+    this.router.put('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.updateRoom.bind(this.roomController));
+    this.router.delete('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.deleteRoom.bind(this.roomController));
     
     // Room locking/unlocking routes
-    this.router.post('/:id/lock', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.lockRoom.bind(this.roomController));
-    this.router.post('/:id/unlock', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.unlockRoom.bind(this.roomController));
+    this.router.post('/:id/lock', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.lockRoom.bind(this.roomController));
+    this.router.post('/:id/unlock', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.unlockRoom.bind(this.roomController));
     
     // Room join route
-    this.router.post('/:id/join', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.joinRoom.bind(this.roomController));
+    this.router.post('/:id/join', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom('id', 'join'), this.roomController.joinRoom.bind(this.roomController));
     
     // Room membership routes
-    this.router.post('/:id/members', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.addMember.bind(this.roomController));
-    this.router.delete('/:id/members/:userId', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.removeMember.bind(this.roomController));
-    this.router.get('/:id/members', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.getRoomMembers.bind(this.roomController));
+    this.router.post('/:id/members', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.addMember.bind(this.roomController));
+    this.router.delete('/:id/members/:userId', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.removeMember.bind(this.roomController));
+    this.router.get('/:id/members', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.getRoomMembers.bind(this.roomController));
     
     // P2P ephemeral file routes
-    this.router.post('/:id/ephemeral-files', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.registerEphemeralFile.bind(this.roomController));
-    this.router.get('/:id/ephemeral-files', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.getEphemeralFiles.bind(this.roomController));
-    this.router.delete('/:id/ephemeral-files/:fileId', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.removeEphemeralFile.bind(this.roomController));
+    this.router.post('/:id/ephemeral-files', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.registerEphemeralFile.bind(this.roomController));
+    this.router.get('/:id/ephemeral-files', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.getEphemeralFiles.bind(this.roomController));
+    this.router.delete('/:id/ephemeral-files/:fileId', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.removeEphemeralFile.bind(this.roomController));
     
     // Room file operations routes
-    this.router.post('/:id/files', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.uploadFileToRoom.bind(this.roomController));
-    this.router.post('/:id/files/transfer/:transferId/cancel', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.cancelFileTransfer.bind(this.roomController));
+    this.router.post('/:id/files', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.uploadFileToRoom.bind(this.roomController));
+    this.router.post('/:id/files/transfer/:transferId/cancel', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.cancelFileTransfer.bind(this.roomController));
+    
+    // Room trash routes
+    this.router.get('/:id/trash', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.trashController.listTrash.bind(this.trashController));
+    this.router.post('/:id/trash/restore', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.trashController.restoreFiles.bind(this.trashController));
+    this.router.delete('/:id/trash', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.trashController.emptyTrash.bind(this.trashController));
+    
+    // Room access policy routes
+    this.router.get('/:id/policies', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicyController.listRoomPolicies.bind(this.accessPolicyController));
+    this.router.post('/:id/policies', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicyController.createRoomPolicy.bind(this.accessPolicyController));
+    this.router.post('/:id/policies/dry-run', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicyController.dryRunRoomPolicies.bind(this.accessPolicyController));
     
     // Real-time participant awareness routes
-    this.router.post('/:id/participants/status', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.updateParticipantStatus.bind(this.roomController));
-    this.router.get('/:id/participants', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.roomController.getRoomParticipants.bind(this.roomController));
+    this.router.post('/:id/participants/status', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.updateParticipantStatus.bind(this.roomController));
+    this.router.get('/:id/participants', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forRoom(), this.roomController.getRoomParticipants.bind(this.roomController));
   }
 
   public getRouter(): Router {
@@ -0,0 +1,38 @@
+// src/api/routes/search.routes.ts
+import { Router } from 'express';
+import { injectable, inject } from 'inversify';
+import { SearchController } from '../controllers/search.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+
+@injectable()
+export class SearchRoutes {
+  private router: Router;
+
+  constructor(
+    @inject('SearchController') private searchController: SearchController,
+    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware
+  ) {
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // Protected routes
+    this.router.use(this.authMiddleware.verifyToken.bind(this.authMiddleware));
+
+    // Saved searches
+    this.router.get('/saved', this.searchController.listSavedSearches.bind(this.searchController));
+    this.router.post('/saved', this.searchController.saveSearch.bind(this.searchController));
+    this.router.patch('/saved/:id', this.searchController.renameSavedSearch.bind(this.searchController));
+    this.router.delete('/saved/:id', this.searchController.deleteSavedSearch.bind(this.searchController));
+    this.router.post('/saved/:id/default', this.searchController.setDefaultSavedSearch.bind(this.searchController));
+    this.router.post('/saved/:id/run', this.searchController.runSavedSearch.bind(this.searchController));
+
+    // Search history
+    this.router.get('/recent', this.searchController.getRecentSearches.bind(this.searchController));
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+}
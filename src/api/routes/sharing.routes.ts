@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { injectable, inject } from 'inversify';
 import { SharingController } from '../controllers/sharing.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
+import { AccessPolicyMiddleware } from '../middleware/access-policy.middleware';
 
 @injectable()
 export class SharingRoutes {
@@ -9,7 +10,8 @@ export class SharingRoutes {
 
   constructor(
     @inject('SharingController') private sharingController: SharingController,
-    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware
+    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware,
+    @inject('AccessPolicyMiddleware') private accessPolicy: AccessPolicyMiddleware
   ) {
     this.router = Router();
     this.setupRoutes();
@@ -17,19 +19,19 @@ export class SharingRoutes {
 
   private setupRoutes(): void {
     // Create a new share
-    this.router.post('/', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.sharingController.createShare.bind(this.sharingController));
+    this.router.post('/', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forBodyFiles('fileId', 'share'), this.sharingController.createShare.bind(this.sharingController));
 
     // Get share by ID
-    this.router.get('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.sharingController.getShareById.bind(this.sharingController));
+    this.router.get('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forShare(), this.sharingController.getShareById.bind(this.sharingController));
 
     // Update share
-    this.router.patch('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.sharingController.updateShare.bind(this.sharingController));
+    this.router.patch('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forShare('id', 'share'), this.sharingController.updateShare.bind(this.sharingController));
 
     // Delete share
-    this.router.delete('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.sharingController.deleteShare.bind(this.sharingController));
+    this.router.delete('/:id', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forShare(), this.sharingController.deleteShare.bind(this.sharingController));
 
     // Get file shares
-    this.router.get('/file/:fileId', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.sharingController.getFileShares.bind(this.sharingController));
+    this.router.get('/file/:fileId', this.authMiddleware.verifyToken.bind(this.authMiddleware), this.accessPolicy.forFile('fileId'), this.sharingController.getFileShares.bind(this.sharingController));
   }
 
   public getRouter(): Router {
@@ -4,17 +4,8 @@ import { injectable, inject } from 'inversify';
 import { StorageController } from '../controllers/storage.controller';
 import { AuthMiddleware } from '../middleware/auth.middleware';
 import { validate } from '../middleware/validation.middleware';
-import multer from 'multer';
 import { Request, Response, NextFunction } from 'express';
 
-// Configure multer for memory storage (files as buffers)
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 100 * 1024 * 1024, // 100MB limit
-  }
-});
-
 @injectable()
 export class StorageRoutes {
   private router: Router;
@@ -70,8 +61,8 @@ export class StorageRoutes {
     // Get all storage accounts with usage information
     this.router.get('/usage/company', wrap(this.storageController.getAllStorageAccountsWithUsage));
 
-    // Upload file with progress tracking
-    this.router.post('/:id/upload', upload.single('file'), wrap(this.storageController.uploadWithProgress));
+    // Upload file with progress tracking; the file is streamed to storage as it arrives
+    this.router.post('/:id/upload', wrap(this.storageController.uploadWithProgress));
   }
 
   public getRouter(): Router {
@@ -0,0 +1,32 @@
+// src/api/routes/subscription.routes.ts
+import { Router } from 'express';
+import { injectable, inject } from 'inversify';
+import { SubscriptionController } from '../controllers/subscription.controller';
+import { AuthMiddleware } from '../middleware/auth.middleware';
+
+@injectable()
+export class SubscriptionRoutes {
+  private router: Router;
+
+  constructor(
+    @inject('SubscriptionController') private subscriptionController: SubscriptionController,
+    @inject('AuthMiddleware') private authMiddleware: AuthMiddleware
+  ) {
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // Payment provider webhooks - authenticated by their signature
+    this.router.post('/webhooks/:provider', this.subscriptionController.handleWebhook.bind(this.subscriptionController));
+
+    // Protected routes - require authentication
+    this.router.use(this.authMiddleware.verifyToken.bind(this.authMiddleware));
+
+    this.router.get('/plans', this.subscriptionController.listPlans.bind(this.subscriptionController));
+  }
+
+  public getRouter(): Router {
+    return this.router;
+  }
+}
@@ -10,6 +10,15 @@ import { env } from './config/env';
 import { apiLimiter } from './api/middleware/rate-limiter.middleware';
 import { container, initializeContainer } from './config/container';
 
+// Extend Express Request to include the raw body
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
 // Initialize Express application
 const app: Application = express();
 
@@ -28,9 +37,27 @@ app.use(cors({
   origin: env.NODE_ENV === 'production' 
     ? ['https://yourdomain.com'] 
     : ['http://localhost:3000', 'http://localhost:5173', 'http://localhost:5174', 'http://127.0.0.1:5501'],
-  credentials: true
+  credentials: true,
+  // Let browser tus clients read the upload headers
+  exposedHeaders: [
+    'Location',
+    'Upload-Offset',
+    'Upload-Length',
+    'Upload-Metadata',
+    'Upload-Expires',
+    'Tus-Resumable',
+    'Tus-Version',
+    'Tus-Extension',
+    'Tus-Checksum-Algorithm',
+    'X-File-Id'
+  ]
 }));
-app.use(express.json()); // Parse JSON request body
+app.use(express.json({
+  // Keep the raw body for webhook signature verification
+  verify: (req, res, buf) => {
+    (req as express.Request).rawBody = buf;
+  }
+})); // Parse JSON request body
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
 // Serve static files from the public directory
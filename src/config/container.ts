@@ -13,12 +13,15 @@ import { OAuthService } from '../services/auth/oauth.service';
 import { AuthController } from '../api/controllers/auth.controller';
 import { AuthMiddleware } from '../api/middleware/auth.middleware';
 import { AdminMiddleware } from '../api/middleware/admin.middleware';
+import { AccessPolicyMiddleware } from '../api/middleware/access-policy.middleware';
 import { StorageController } from '../api/controllers/storage.controller';
 import { StorageAccountRepository } from '../repositories/storage-account.repository';
 import { StorageAccountRepositoryImpl } from '../repositories/storage-account.repository.impl';
 import { FileRepository } from '../repositories/file.repository';
 import { FileService } from '../services/file/file.service';
 import { UploadService } from '../services/file/upload.service';
+import { UploadPolicyService } from '../services/file/upload-policy.service';
+import { FileEncryptionService } from '../services/file/file-encryption.service';
 import { FileController } from '../api/controllers/file.controller';
 import { createConnection } from '../db/connection';
 import { MySql2Database } from 'drizzle-orm/mysql2';
@@ -26,6 +29,7 @@ import { setupStorageModule } from '../services/storage/setup';
 import { EventEmitter } from 'events';
 import { DrizzleClient } from '../db/drizzle.client';
 import { RoomService } from '../services/room/room.service';
+import { EphemeralFileStore } from '../services/room/ephemeral-file.store';
 import { SharingService } from '../services/sharing/sharing.service';
 import { ActivityService } from '../services/activity/activity.service';
 import { RoomController } from '../api/controllers/room.controller';
@@ -49,6 +53,45 @@ import { UserService } from '../services/user/user.service';
 import { CompanyController } from '../api/controllers/company.controller';
 import { CompanyService } from '../services/company/company.service';
 import { CompanyRepository } from '../repositories/company.repository';
+import { MailService } from '../services/mail/mail.service';
+import { MailQueueService } from '../services/mail/mail-queue.service';
+import { MailQueueRepository } from '../repositories/mail-queue.repository';
+import { SearchRepository } from '../repositories/search.repository';
+import { SearchService } from '../services/search/search.service';
+import { FileSearchIndexer } from '../services/search/file-search-indexer';
+import { TagRepository } from '../repositories/tag.repository';
+import { TagService } from '../services/tag/tag.service';
+import { TagController } from '../api/controllers/tag.controller';
+import { SubscriptionRepository } from '../repositories/subscription.repository';
+import { SubscriptionService } from '../services/subscription/subscription.service';
+import { BillingEventRepository } from '../repositories/billing-event.repository';
+import { BillingWebhookService } from '../services/billing/billing-webhook.service';
+import { SubscriptionController } from '../api/controllers/subscription.controller';
+import { GuestRepository } from '../repositories/guest.repository';
+import { GuestService } from '../services/guest/guest.service';
+import { GuestController } from '../api/controllers/guest.controller';
+import { RetentionRepository } from '../repositories/retention.repository';
+import { RetentionService } from '../services/retention/retention.service';
+import { TrashRepository } from '../repositories/trash.repository';
+import { MultipartUploadRepository } from '../repositories/multipart-upload.repository';
+import { TrashService } from '../services/file/trash.service';
+import { TrashController } from '../api/controllers/trash.controller';
+import { TusUploadService } from '../services/file/tus-upload.service';
+import { TusController } from '../api/controllers/tus.controller';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { WebhookService } from '../services/webhook/webhook.service';
+import { WebhookController } from '../api/controllers/webhook.controller';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { NotificationService } from '../services/notification/notification.service';
+import { NotificationController } from '../api/controllers/notification.controller';
+import { ActivitySubscriptionRepository } from '../repositories/activity-subscription.repository';
+import { ActivitySubscriptionService } from '../services/activity/activity-subscription.service';
+import { ActivitySubscriptionController } from '../api/controllers/activity-subscription.controller';
+import { ActivityExportRepository } from '../repositories/activity-export.repository';
+import { EncryptionKeyRepository } from '../repositories/encryption-key.repository';
+import { ActivityExportService } from '../services/activity/activity-export.service';
+import { AccessPolicyController } from '../api/controllers/access-policy.controller';
+import { SearchController } from '../api/controllers/search.controller';
 
 // Routes
 import { Routes } from '../api/routes';
@@ -62,6 +105,10 @@ import { SharingRoutes } from '../api/routes/sharing.routes';
 import { ActivityRoutes } from '../api/routes/activity.routes';
 import { OAuthController } from '../api/controllers/oauth.controller';
 import { OAuthRoutes } from '../api/routes/oauth.routes';
+import { InviteRoutes } from '../api/routes/invite.routes';
+import { SearchRoutes } from '../api/routes/search.routes';
+import { SubscriptionRoutes } from '../api/routes/subscription.routes';
+import { NotificationRoutes } from '../api/routes/notification.routes';
 
 // Add binding for RoomRepository
 import { RoomRepository } from '../repositories/room.repository';
@@ -95,16 +142,52 @@ container.bind<FileRepository>('FileRepository').toConstantValue(fileRepository)
 
 // Add binding for RoomRepository
 container.bind<RoomRepository>('RoomRepository').to(RoomRepository).inSingletonScope();
+container.bind<SearchRepository>('SearchRepository').to(SearchRepository).inSingletonScope();
+container.bind<TagRepository>('TagRepository').to(TagRepository).inSingletonScope();
+container.bind<SubscriptionRepository>('SubscriptionRepository').to(SubscriptionRepository).inSingletonScope();
+container.bind<BillingEventRepository>('BillingEventRepository').to(BillingEventRepository).inSingletonScope();
+container.bind<GuestRepository>('GuestRepository').to(GuestRepository).inSingletonScope();
+container.bind<RetentionRepository>('RetentionRepository').to(RetentionRepository).inSingletonScope();
+container.bind<TrashRepository>('TrashRepository').to(TrashRepository).inSingletonScope();
+container.bind<MultipartUploadRepository>('MultipartUploadRepository').to(MultipartUploadRepository).inSingletonScope();
+container.bind<WebhookRepository>('WebhookRepository').to(WebhookRepository).inSingletonScope();
+container.bind<NotificationRepository>('NotificationRepository').to(NotificationRepository).inSingletonScope();
+container.bind<MailQueueRepository>('MailQueueRepository').to(MailQueueRepository).inSingletonScope();
+container.bind<ActivitySubscriptionRepository>('ActivitySubscriptionRepository').to(ActivitySubscriptionRepository).inSingletonScope();
+container.bind<ActivityExportRepository>('ActivityExportRepository').to(ActivityExportRepository).inSingletonScope();
+container.bind<EncryptionKeyRepository>('EncryptionKeyRepository').to(EncryptionKeyRepository).inSingletonScope();
 
 // Services
 container.bind<JwtService>('JwtService').to(JwtService).inSingletonScope();
 container.bind<Auth0Service>('Auth0Service').to(Auth0Service).inSingletonScope();
 container.bind<AuthService>('AuthService').to(AuthServiceImpl).inSingletonScope();
-container.bind<OAuthService>('OAuthService').to(OAuthService).inSingletonScope();
+container.bind<OAuthService>('OAuthService').to(OAuthService).inSingletonScope()
+  .onActivation((_context, oauthService) => {
+    // Register the storage OAuth providers before the service is first used
+    oauthService.initialize();
+    return oauthService;
+  });
 container.bind<FileService>('FileService').to(FileService).inSingletonScope();
 container.bind<UploadService>('UploadService').to(UploadService).inSingletonScope();
+container.bind<UploadPolicyService>('UploadPolicyService').to(UploadPolicyService).inSingletonScope();
+container.bind<FileEncryptionService>('FileEncryptionService').to(FileEncryptionService).inSingletonScope();
 container.bind<WebSocketService>('WebSocketService').to(WebSocketService).inSingletonScope();
 container.bind<UserService>('UserService').to(UserService).inSingletonScope();
+container.bind<MailService>('MailService').to(MailService).inSingletonScope();
+container.bind<MailQueueService>('MailQueueService').to(MailQueueService).inSingletonScope();
+container.bind<SearchService>('SearchService').to(SearchService).inSingletonScope();
+container.bind<FileSearchIndexer>('FileSearchIndexer').to(FileSearchIndexer).inSingletonScope();
+container.bind<TagService>('TagService').to(TagService).inSingletonScope();
+container.bind<SubscriptionService>('SubscriptionService').to(SubscriptionService).inSingletonScope();
+container.bind<BillingWebhookService>('BillingWebhookService').to(BillingWebhookService).inSingletonScope();
+container.bind<GuestService>('GuestService').to(GuestService).inSingletonScope();
+container.bind<RetentionService>('RetentionService').to(RetentionService).inSingletonScope();
+container.bind<TrashService>('TrashService').to(TrashService).inSingletonScope();
+container.bind<TusUploadService>('TusUploadService').to(TusUploadService).inSingletonScope();
+container.bind<WebhookService>('WebhookService').to(WebhookService).inSingletonScope();
+container.bind<NotificationService>('NotificationService').to(NotificationService).inSingletonScope();
+container.bind<ActivitySubscriptionService>('ActivitySubscriptionService').to(ActivitySubscriptionService).inSingletonScope();
+container.bind<ActivityExportService>('ActivityExportService').to(ActivityExportService).inSingletonScope();
 
 // Setup storage module
 setupStorageModule(container);
@@ -115,10 +198,21 @@ container.bind<StorageController>('StorageController').to(StorageController).inS
 container.bind<FileController>('FileController').to(FileController).inSingletonScope();
 container.bind<UserController>('UserController').to(UserController).inSingletonScope();
 container.bind<OAuthController>('OAuthController').to(OAuthController).inSingletonScope();
+container.bind<SearchController>('SearchController').to(SearchController).inSingletonScope();
+container.bind<TagController>('TagController').to(TagController).inSingletonScope();
+container.bind<SubscriptionController>('SubscriptionController').to(SubscriptionController).inSingletonScope();
+container.bind<GuestController>('GuestController').to(GuestController).inSingletonScope();
+container.bind<AccessPolicyController>('AccessPolicyController').to(AccessPolicyController).inSingletonScope();
+container.bind<TrashController>('TrashController').to(TrashController).inSingletonScope();
+container.bind<TusController>('TusController').to(TusController).inSingletonScope();
+container.bind<WebhookController>('WebhookController').to(WebhookController).inSingletonScope();
+container.bind<NotificationController>('NotificationController').to(NotificationController).inSingletonScope();
+container.bind<ActivitySubscriptionController>('ActivitySubscriptionController').to(ActivitySubscriptionController).inSingletonScope();
 
 // Middleware
 container.bind<AuthMiddleware>('AuthMiddleware').to(AuthMiddleware).inSingletonScope();
 container.bind<AdminMiddleware>('AdminMiddleware').to(AdminMiddleware).inSingletonScope();
+container.bind<AccessPolicyMiddleware>('AccessPolicyMiddleware').to(AccessPolicyMiddleware).inSingletonScope();
 
 // Company bindings
 container.bind<CompanyController>('CompanyController').to(CompanyController).inSingletonScope();
@@ -135,9 +229,14 @@ container.bind<RoomRoutes>('RoomRoutes').to(RoomRoutes).inSingletonScope();
 container.bind<SharingRoutes>('SharingRoutes').to(SharingRoutes).inSingletonScope();
 container.bind<ActivityRoutes>('ActivityRoutes').to(ActivityRoutes).inSingletonScope();
 container.bind<OAuthRoutes>('OAuthRoutes').to(OAuthRoutes).inSingletonScope();
+container.bind<InviteRoutes>('InviteRoutes').to(InviteRoutes).inSingletonScope();
+container.bind<SearchRoutes>('SearchRoutes').to(SearchRoutes).inSingletonScope();
+container.bind<SubscriptionRoutes>('SubscriptionRoutes').to(SubscriptionRoutes).inSingletonScope();
+container.bind<NotificationRoutes>('NotificationRoutes').to(NotificationRoutes).inSingletonScope();
 container.bind<Routes>('Routes').to(Routes).inSingletonScope();
 
 // Register services
+container.bind<EphemeralFileStore>('EphemeralFileStore').to(EphemeralFileStore).inSingletonScope();
 container.bind<RoomService>('RoomService').to(RoomService).inSingletonScope();
 container.bind<SharingService>('SharingService').to(SharingService).inSingletonScope();
 container.bind<ActivityService>('ActivityService').to(ActivityService).inSingletonScope();
@@ -49,7 +49,54 @@ const envSchema = z.object({
   SMTP_PORT: z.coerce.number().optional(),
   SMTP_USER: z.string().optional(),
   SMTP_PASS: z.string().optional(),
+  // Unset: implicit TLS on port 465, STARTTLS elsewhere
+  SMTP_SECURE: z.string().optional().transform(value => (value ? value === 'true' : undefined)),
   SMTP_FROM: z.string().optional(),
+  MAIL_TRANSPORT: z.enum(['console', 'file', 'smtp', 'memory']).default('console'),
+  MAIL_FILE_DIR: z.string().default('tmp/mail'),
+  // Signs the unsubscribe links in notification email; must differ from JWT_SECRET
+  UNSUBSCRIBE_SECRET: z.string(),
+  UNSUBSCRIBE_LINK_TTL_DAYS: z.coerce.number().default(90),
+
+  // Public URL of the web app, used in links sent to users
+  APP_URL: z.string().default('http://localhost:3000'),
+
+  // Billing webhooks
+  STRIPE_WEBHOOK_SECRET: z.string().optional(),
+  BILLING_WEBHOOK_TOLERANCE_SECONDS: z.coerce.number().default(300),
+  // Paid plans are bought through the payment provider's checkout
+  STRIPE_SECRET_KEY: z.string().optional(),
+  SUBSCRIPTION_MAX_TRIAL_DAYS: z.coerce.number().int().min(0).default(30),
+
+  // File retention worker
+  RETENTION_INTERVAL_MINUTES: z.coerce.number().default(60),
+  TRASH_RETENTION_DAYS: z.coerce.number().default(30),
+  EXPIRY_WARNING_HOURS: z.coerce.number().default(24),
+  // Finished activity exports are deleted from storage after this many days
+  ACTIVITY_EXPORT_RETENTION_DAYS: z.coerce.number().positive().default(7),
+
+  // Multipart uploads not continued within this time are aborted
+  MULTIPART_UPLOAD_TTL_HOURS: z.coerce.number().default(24),
+  // Uploads streamed through the server that are larger than this become
+  // multipart uploads, sent in parts of this size
+  UPLOAD_PART_SIZE_MB: z.coerce.number().positive().default(8),
+
+  // Outgoing company webhooks
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().default(10000),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().default(8),
+  WEBHOOK_RETRY_BASE_SECONDS: z.coerce.number().default(30),
+  WEBHOOK_DISABLE_AFTER_FAILURES: z.coerce.number().default(20),
+  WEBHOOK_POLL_INTERVAL_SECONDS: z.coerce.number().default(15),
+
+  // Storage providers, one per storage account
+  STORAGE_PROVIDER_MAX_CONCURRENCY: z.coerce.number().int().positive().default(8),
+  STORAGE_PROVIDER_IDLE_MINUTES: z.coerce.number().positive().default(15),
+  // Backend holding vault accounts
+  VAULT_BACKEND: z.enum(['wasabi', 'storj']).default('wasabi'),
+
+  // Root key (64 hex characters) wrapping each company's file encryption master key.
+  // Server-side encryption is unavailable without it.
+  FILE_ENCRYPTION_KEY: z.string().regex(/^[0-9a-fA-F]{64}$/, 'Must be 64 hex characters').optional(),
 });
 
 // Parse and validate environment variables
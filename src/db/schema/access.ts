@@ -1,5 +1,5 @@
 // src/db/schema/access.ts
-import { mysqlTable, varchar, timestamp, boolean, unique, text, json, int } from 'drizzle-orm/mysql-core';
+import { mysqlTable, varchar, timestamp, boolean, unique, index, text, json, int } from 'drizzle-orm/mysql-core';
 import { relations } from 'drizzle-orm';
 import { companies } from './companies';
 import { users } from './users';
@@ -11,11 +11,13 @@ export const roomAccess = mysqlTable('room_access', {
   userId: varchar('user_id', { length: 36 }).notNull(),
   accessType: varchar('access_type', { length: 50 }).notNull(), // owner, editor, viewer
   invitedById: varchar('invited_by_id', { length: 36 }),
+  guestListId: varchar('guest_list_id', { length: 36 }), // Guest list entry the access was granted through
   invitedAt: timestamp('invited_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow()
 }, (table) => ({
   // Ensure a user only has one access entry per room
-  unq: unique().on(table.roomId, table.userId)
+  unq: unique().on(table.roomId, table.userId),
+  guestListIdx: index('room_access_guest_list_idx').on(table.guestListId)
 }));
 
 export const guestLists = mysqlTable('guest_lists', {
@@ -23,6 +25,7 @@ export const guestLists = mysqlTable('guest_lists', {
   companyId: varchar('company_id', { length: 36 }).notNull(),
   userId: varchar('user_id', { length: 36 }).notNull(),
   addedById: varchar('added_by_id', { length: 36 }).notNull(),
+  expiresAt: timestamp('expires_at'), // Access is revoked after this date
   addedAt: timestamp('added_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow()
 }, (table) => ({
@@ -1,4 +1,4 @@
-import { mysqlTable, varchar, timestamp, mysqlEnum, text } from 'drizzle-orm/mysql-core';
+import { mysqlTable, varchar, timestamp, mysqlEnum, text, index } from 'drizzle-orm/mysql-core';
 import { relations } from 'drizzle-orm';
 import { users } from './users';
 import { files } from './files';
@@ -31,13 +31,21 @@ export const activities = mysqlTable('activities', {
     'copy',
     'admin_action',
     'system_event',
-    'subscription_change'
+    'subscription_change',
+    'update_tags',
+    'access_denied'
   ]).notNull(),
   metadata: text('metadata'),
   ipAddress: varchar('ip_address', { length: 45 }),
   userAgent: varchar('user_agent', { length: 255 }),
+  // Set once the worker has told immediate subscribers about the activity
+  subscribersNotifiedAt: timestamp('subscribers_notified_at'),
   createdAt: timestamp('created_at').notNull().defaultNow()
-});
+}, (table) => ({
+  // Exports page through a company's activities in time order
+  companyCreatedIdx: index('activities_company_created_idx').on(table.companyId, table.createdAt, table.id),
+  pendingNotificationIdx: index('activities_pending_notification_idx').on(table.subscribersNotifiedAt, table.createdAt)
+}));
 
 export const activitiesRelations = relations(activities, ({ one }) => ({
   user: one(users, {
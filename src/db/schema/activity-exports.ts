@@ -0,0 +1,51 @@
+// src/db/schema/activity-exports.ts
+import { mysqlTable, varchar, timestamp, int, bigint, json, mysqlEnum, index } from 'drizzle-orm/mysql-core';
+import { relations } from 'drizzle-orm';
+import { users } from './users';
+import { companies } from './companies';
+import { storageAccounts } from './storage';
+
+export const ACTIVITY_EXPORT_STATUS = ['pending', 'running', 'completed', 'failed'] as const;
+
+// Activity exports written to a company's storage in the background
+export const activityExports = mysqlTable('activity_exports', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  companyId: varchar('company_id', { length: 36 }).notNull(),
+  requestedById: varchar('requested_by_id', { length: 36 }).notNull(),
+  status: mysqlEnum('status', ACTIVITY_EXPORT_STATUS).notNull().default('pending'),
+  format: varchar('format', { length: 16 }).notNull(),
+  // Filters, columns and time zone the export was requested with
+  options: json('options').notNull(),
+  storageId: varchar('storage_id', { length: 36 }),
+  // Set once the export is written; providers such as Google Drive key files by ID
+  storageKey: varchar('storage_key', { length: 512 }),
+  // Data key the export is encrypted with, for companies that encrypt at rest
+  encryptionKeyId: varchar('encryption_key_id', { length: 36 }),
+  // Runs started, and until when the worker running it holds it
+  attempts: int('attempts').notNull().default(0),
+  claimedUntil: timestamp('claimed_until'),
+  rowCount: int('row_count').notNull().default(0),
+  size: bigint('size', { mode: 'number' }).notNull().default(0),
+  error: varchar('error', { length: 1024 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  completedAt: timestamp('completed_at')
+}, (table) => ({
+  companyIdx: index('activity_exports_company_idx').on(table.companyId, table.createdAt),
+  statusIdx: index('activity_exports_status_idx').on(table.status, table.createdAt)
+}));
+
+// Relations
+export const activityExportsRelations = relations(activityExports, ({ one }) => ({
+  company: one(companies, {
+    fields: [activityExports.companyId],
+    references: [companies.id]
+  }),
+  requestedBy: one(users, {
+    fields: [activityExports.requestedById],
+    references: [users.id]
+  }),
+  storage: one(storageAccounts, {
+    fields: [activityExports.storageId],
+    references: [storageAccounts.id]
+  })
+}));
@@ -0,0 +1,44 @@
+// src/db/schema/activity-subscriptions.ts
+import { mysqlTable, varchar, timestamp, boolean, json, mysqlEnum, index } from 'drizzle-orm/mysql-core';
+import { relations } from 'drizzle-orm';
+import { users } from './users';
+import { webhookEndpoints } from './webhooks';
+
+export const ACTIVITY_SUBSCRIPTION_CHANNELS = ['websocket', 'email', 'webhook'] as const;
+export const ACTIVITY_SUBSCRIPTION_FREQUENCIES = ['immediate', 'daily', 'weekly'] as const;
+
+// A user's standing request to hear about activities matching some filters.
+// Empty filter lists match everything.
+export const activitySubscriptions = mysqlTable('activity_subscriptions', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  userId: varchar('user_id', { length: 128 }).notNull(),
+  name: varchar('name', { length: 100 }),
+  channel: mysqlEnum('channel', ACTIVITY_SUBSCRIPTION_CHANNELS).notNull(),
+  // Only email subscriptions can be batched into digests
+  frequency: mysqlEnum('frequency', ACTIVITY_SUBSCRIPTION_FREQUENCIES).notNull().default('immediate'),
+  roomIds: json('room_ids').$type<string[]>().notNull().default([]),
+  fileIds: json('file_ids').$type<string[]>().notNull().default([]),
+  actions: json('actions').$type<string[]>().notNull().default([]),
+  excludedActions: json('excluded_actions').$type<string[]>().notNull().default([]),
+  actorIds: json('actor_ids').$type<string[]>().notNull().default([]),
+  webhookEndpointId: varchar('webhook_endpoint_id', { length: 36 }),
+  isActive: boolean('is_active').notNull().default(true),
+  lastDigestAt: timestamp('last_digest_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+}, (table) => ({
+  userIdx: index('activity_subscriptions_user_idx').on(table.userId),
+  activeIdx: index('activity_subscriptions_active_idx').on(table.isActive, table.frequency)
+}));
+
+// Relations
+export const activitySubscriptionsRelations = relations(activitySubscriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [activitySubscriptions.userId],
+    references: [users.id]
+  }),
+  webhookEndpoint: one(webhookEndpoints, {
+    fields: [activitySubscriptions.webhookEndpointId],
+    references: [webhookEndpoints.id]
+  })
+}));
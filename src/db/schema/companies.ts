@@ -2,6 +2,9 @@
 import { mysqlTable, varchar, text, timestamp, int, json, boolean } from 'drizzle-orm/mysql-core';
 import { createId } from '@paralleldrive/cuid2';
 
+// Member roles, highest privilege first
+export const COMPANY_ROLES = ['owner', 'admin', 'member'] as const;
+
 export const companies = mysqlTable('companies', {
   id: varchar('id', { length: 128 }).primaryKey().$defaultFn(() => createId()),
   name: varchar('name', { length: 100 }).notNull(),
@@ -31,6 +34,7 @@ export const companySettings = mysqlTable('company_settings', {
   maxFileSize: int('max_file_size').default(100).notNull(), // in MB
   allowedFileTypes: json('allowed_file_types').$type<string[]>().default([]).notNull(),
   storageQuota: int('storage_quota').default(1000).notNull(), // in MB
+  trashRetentionDays: int('trash_retention_days'), // Falls back to TRASH_RETENTION_DAYS
   customBranding: json('custom_branding').$type<{
     logo?: string;
     colors?: {
@@ -47,6 +51,7 @@ export const companySettings = mysqlTable('company_settings', {
     requireApproval: boolean;
     passwordProtected: boolean;
     expirationDays?: number;
+    encryptAtRest?: boolean;  // Encrypt every upload with a per-file data key
   }>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().onUpdateNow().notNull()
@@ -0,0 +1,49 @@
+// src/db/schema/encryption.ts
+import { mysqlTable, varchar, timestamp, int, mysqlEnum, index } from 'drizzle-orm/mysql-core';
+import { relations } from 'drizzle-orm';
+import { companies } from './companies';
+
+export const MASTER_KEY_STATUS = ['active', 'retired'] as const;
+
+// Company master keys, stored wrapped by the deployment's root key
+export const companyMasterKeys = mysqlTable('company_master_keys', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  companyId: varchar('company_id', { length: 36 }).notNull(),
+  wrappedKey: varchar('wrapped_key', { length: 255 }).notNull(),
+  // New data keys are wrapped by the company's active key; retired keys only unwrap old ones
+  status: mysqlEnum('status', MASTER_KEY_STATUS).notNull().default('active'),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => ({
+  companyIdx: index('company_master_keys_company_idx').on(table.companyId, table.status)
+}));
+
+// Per-file data keys, stored wrapped by a company master key.
+// files.encryption_key_id and file_versions.encryption_key_id point here.
+export const fileDataKeys = mysqlTable('file_data_keys', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  companyId: varchar('company_id', { length: 36 }).notNull(),
+  masterKeyId: varchar('master_key_id', { length: 36 }).notNull(),
+  wrappedKey: varchar('wrapped_key', { length: 255 }).notNull(),
+  // Plaintext bytes per encrypted chunk of the file
+  chunkSize: int('chunk_size').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+});
+
+// Relations
+export const companyMasterKeysRelations = relations(companyMasterKeys, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyMasterKeys.companyId],
+    references: [companies.id]
+  })
+}));
+
+export const fileDataKeysRelations = relations(fileDataKeys, ({ one }) => ({
+  company: one(companies, {
+    fields: [fileDataKeys.companyId],
+    references: [companies.id]
+  }),
+  masterKey: one(companyMasterKeys, {
+    fields: [fileDataKeys.masterKeyId],
+    references: [companyMasterKeys.id]
+  })
+}));
@@ -22,9 +22,13 @@ export const files = mysqlTable('files', {
   storageKey: varchar('storage_key', { length: 255 }),  // Path or key in storage
   encryption: mysqlEnum('encryption', ENCRYPTION_TYPES).notNull().default('none'),
   encryptionKeyId: varchar('encryption_key_id', { length: 255 }),
+  checksum: varchar('checksum', { length: 64 }),  // SHA-256 of the current version, when known
   metadata: text('metadata'),  // JSON metadata
   deleteAfter: timestamp('delete_after'),
   isDeleted: boolean('is_deleted').notNull().default(false),
+  deletedAt: timestamp('deleted_at'),  // When the file was moved to the trash
+  deletedById: varchar('deleted_by_id', { length: 36 }),
+  trashedWithId: varchar('trashed_with_id', { length: 36 }),  // Folder whose deletion moved this item to the trash
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow()
 })
@@ -36,7 +40,9 @@ export const fileVersions = mysqlTable('file_versions', {
   size: bigint('size', { mode: 'number' }).notNull(),
   storageKey: varchar('storage_key', { length: 255 }).notNull(),
   uploadedById: varchar('uploaded_by_id', { length: 36 }).notNull(),
+  encryption: mysqlEnum('encryption', ENCRYPTION_TYPES).notNull().default('none'),
   encryptionKeyId: varchar('encryption_key_id', { length: 255 }),
+  checksum: varchar('checksum', { length: 64 }),  // SHA-256, when known
   createdAt: timestamp('created_at').notNull().defaultNow()
 });
 
@@ -6,4 +6,12 @@ export * from './room-members';
 export * from './access';
 export * from './files';
 export * from './subscriptions';
-export * from './finder';
\ No newline at end of file
+export * from './finder';
+export * from './tags';
+export * from './uploads';
+export * from './webhooks';
+export * from './notifications';
+export * from './mail';
+export * from './activity-subscriptions';
+export * from './activity-exports';
+export * from './encryption';
\ No newline at end of file
@@ -0,0 +1,22 @@
+// src/db/schema/mail.ts
+import { mysqlTable, varchar, timestamp, int, json, text, mysqlEnum, index } from 'drizzle-orm/mysql-core';
+
+export const MAIL_QUEUE_STATUS = ['pending', 'sent', 'failed'] as const;
+
+// Email the worker sends, so requests do not wait on the mail server
+export const mailQueue = mysqlTable('mail_queue', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  recipient: varchar('recipient', { length: 320 }).notNull(),
+  subject: varchar('subject', { length: 998 }).notNull(),
+  text: text('text').notNull(),
+  html: text('html'),
+  headers: json('headers').$type<Record<string, string>>(),
+  status: mysqlEnum('status', MAIL_QUEUE_STATUS).notNull().default('pending'),
+  attempts: int('attempts').notNull().default(0),
+  error: varchar('error', { length: 1024 }),
+  nextAttemptAt: timestamp('next_attempt_at').notNull().defaultNow(),
+  sentAt: timestamp('sent_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => ({
+  pendingIdx: index('mail_queue_pending_idx').on(table.status, table.nextAttemptAt)
+}));
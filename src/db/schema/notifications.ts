@@ -0,0 +1,51 @@
+// src/db/schema/notifications.ts
+import { mysqlTable, varchar, timestamp, boolean, mysqlEnum, primaryKey, index } from 'drizzle-orm/mysql-core';
+import { relations } from 'drizzle-orm';
+import { users } from './users';
+import { rooms } from './rooms';
+
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+
+// Kinds of notification email a user can turn off individually
+export const EMAIL_NOTIFICATION_CATEGORIES = ['shares', 'uploads', 'digest'] as const;
+
+// Per-user email notification preferences. Users without a row get the defaults.
+export const notificationPreferences = mysqlTable('notification_preferences', {
+  userId: varchar('user_id', { length: 128 }).primaryKey().notNull(),
+  emailEnabled: boolean('email_enabled').notNull().default(true),
+  shares: boolean('shares').notNull().default(true),
+  uploads: boolean('uploads').notNull().default(true),
+  digest: mysqlEnum('digest', DIGEST_FREQUENCIES).notNull().default('off'),
+  lastDigestAt: timestamp('last_digest_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+});
+
+// Rooms a user wants to hear about uploads to
+export const roomWatches = mysqlTable('room_watches', {
+  userId: varchar('user_id', { length: 128 }).notNull(),
+  roomId: varchar('room_id', { length: 36 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.roomId] }),
+  roomIdx: index('room_watches_room_idx').on(table.roomId)
+}));
+
+// Relations
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id]
+  })
+}));
+
+export const roomWatchesRelations = relations(roomWatches, ({ one }) => ({
+  user: one(users, {
+    fields: [roomWatches.userId],
+    references: [users.id]
+  }),
+  room: one(rooms, {
+    fields: [roomWatches.roomId],
+    references: [rooms.id]
+  })
+}));
@@ -10,7 +10,10 @@ export const STORAGE_TYPES = [
     'google_drive',
     'dropbox',
     'azure_blob',
-    'gcp_storage'
+    'gcp_storage',
+    'onedrive',
+    'storj',
+    's3_compatible'
   ] as const;
   
   export const storageAccounts = mysqlTable('storage_accounts', {
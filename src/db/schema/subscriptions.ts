@@ -1,5 +1,5 @@
 // src/db/schema/subscriptions.ts
-import { mysqlTable, varchar, timestamp, int, mysqlEnum, decimal, boolean, bigint, text } from 'drizzle-orm/mysql-core';
+import { mysqlTable, varchar, timestamp, int, mysqlEnum, decimal, boolean, bigint, text, unique } from 'drizzle-orm/mysql-core';
 import { relations } from 'drizzle-orm';
 import { companies } from './companies';
 
@@ -7,6 +7,7 @@ import { companies } from './companies';
 export const PLAN_TYPES = ['free', 'standard', 'premium', 'enterprise'] as const;
 export const SUBSCRIPTION_STATUS = ['active', 'trialing', 'past_due', 'canceled', 'unpaid'] as const;
 export const BILLING_CYCLES = ['monthly', 'annual'] as const;
+export const BILLING_EVENT_STATUS = ['received', 'processing', 'processed', 'ignored', 'failed'] as const;
 
 export const plans = mysqlTable('plans', {
   id: varchar('id', { length: 36 }).primaryKey().notNull(),
@@ -19,6 +20,8 @@ export const plans = mysqlTable('plans', {
   maxRooms: int('max_rooms').notNull(),
   features: text('features').notNull(),  // JSON list of features
   isActive: boolean('is_active').notNull().default(true),
+  // The payment provider's price for paid plans, e.g. a Stripe price ID
+  paymentProviderPriceId: varchar('payment_provider_price_id', { length: 255 }),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow()
 });
@@ -36,6 +39,24 @@ export const subscriptions = mysqlTable('subscriptions', {
   updatedAt: timestamp('updated_at').notNull().defaultNow()
 });
 
+// Events received from payment providers, stored for idempotency and auditing
+export const billingEvents = mysqlTable('billing_events', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  provider: varchar('provider', { length: 50 }).notNull(),
+  eventId: varchar('event_id', { length: 255 }).notNull(),  // Provider's event ID
+  eventType: varchar('event_type', { length: 100 }).notNull(),
+  payload: text('payload').notNull(),
+  status: mysqlEnum('status', BILLING_EVENT_STATUS).notNull().default('received'),
+  error: text('error'),
+  attempts: int('attempts').notNull().default(0),
+  // When a delivery last claimed the event for processing
+  claimedAt: timestamp('claimed_at'),
+  receivedAt: timestamp('received_at').notNull().defaultNow(),
+  processedAt: timestamp('processed_at')
+}, (table) => ({
+  providerEventUnq: unique('provider_event_unq').on(table.provider, table.eventId)
+}));
+
 // Relations remain the same
 export const plansRelations = relations(plans, ({ many }) => ({
   subscriptions: many(subscriptions)
@@ -0,0 +1,60 @@
+// src/db/schema/tags.ts
+import { mysqlTable, varchar, timestamp, unique, index } from 'drizzle-orm/mysql-core';
+import { relations } from 'drizzle-orm';
+import { companies } from './companies';
+import { users } from './users';
+import { files } from './files';
+
+// Company-scoped tag definitions
+export const tags = mysqlTable('tags', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  companyId: varchar('company_id', { length: 128 }).notNull(),
+  name: varchar('name', { length: 50 }).notNull(),
+  color: varchar('color', { length: 7 }),  // Hex color, e.g. #ff8800
+  createdById: varchar('created_by_id', { length: 36 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+}, (table) => ({
+  // Tag names are unique within a company
+  companyNameUnq: unique('company_name_unq').on(table.companyId, table.name)
+}));
+
+// Tags attached to files and folders
+export const fileTags = mysqlTable('file_tags', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  fileId: varchar('file_id', { length: 36 }).notNull(),
+  tagId: varchar('tag_id', { length: 36 }).notNull(),
+  addedById: varchar('added_by_id', { length: 36 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => ({
+  fileTagUnq: unique('file_tag_unq').on(table.fileId, table.tagId),
+  tagIdx: index('tag_idx').on(table.tagId)
+}));
+
+// Relations
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [tags.companyId],
+    references: [companies.id]
+  }),
+  createdBy: one(users, {
+    fields: [tags.createdById],
+    references: [users.id]
+  }),
+  files: many(fileTags)
+}));
+
+export const fileTagsRelations = relations(fileTags, ({ one }) => ({
+  file: one(files, {
+    fields: [fileTags.fileId],
+    references: [files.id]
+  }),
+  tag: one(tags, {
+    fields: [fileTags.tagId],
+    references: [tags.id]
+  }),
+  addedBy: one(users, {
+    fields: [fileTags.addedById],
+    references: [users.id]
+  })
+}));
@@ -0,0 +1,60 @@
+// src/db/schema/uploads.ts
+import { mysqlTable, varchar, timestamp, int, bigint, json, text, mysqlEnum, index, unique } from 'drizzle-orm/mysql-core';
+
+export const MULTIPART_UPLOAD_STATUS = [
+  'initialized',
+  'in_progress',
+  'completing',
+  'completed',
+  'failed',
+  'aborted'
+] as const;
+
+// In-flight multipart uploads, so any instance can continue them
+export const multipartUploads = mysqlTable('multipart_uploads', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  fileId: varchar('file_id', { length: 36 }).notNull(),
+  providerUploadId: varchar('provider_upload_id', { length: 512 }).notNull(),
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  mimeType: varchar('mime_type', { length: 255 }).notNull(),
+  storageId: varchar('storage_id', { length: 36 }).notNull(),
+  storageKey: varchar('storage_key', { length: 512 }).notNull(),
+  roomId: varchar('room_id', { length: 36 }).notNull(),
+  parentId: varchar('parent_id', { length: 36 }),
+  userId: varchar('user_id', { length: 36 }).notNull(),
+  totalSize: bigint('total_size', { mode: 'number' }).notNull(),
+  partSize: bigint('part_size', { mode: 'number' }).notNull(),
+  totalParts: int('total_parts').notNull(),
+  // Data key the server encrypts parts with, for companies that encrypt at rest
+  encryptionKeyId: varchar('encryption_key_id', { length: 36 }),
+  status: mysqlEnum('status', MULTIPART_UPLOAD_STATUS).notNull().default('initialized'),
+  metadata: json('metadata'),
+  error: varchar('error', { length: 1024 }),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+}, (table) => ({
+  userStatusIdx: index('multipart_uploads_user_status_idx').on(table.userId, table.status),
+  expiresIdx: index('multipart_uploads_expires_idx').on(table.status, table.expiresAt)
+}));
+
+export const multipartUploadParts = mysqlTable('multipart_upload_parts', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  uploadId: varchar('upload_id', { length: 36 }).notNull(),
+  partNumber: int('part_number').notNull(),
+  etag: varchar('etag', { length: 255 }).notNull(),
+  size: bigint('size', { mode: 'number' }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => ({
+  uploadPartUnq: unique('multipart_upload_part_unq').on(table.uploadId, table.partNumber)
+}));
+
+// tus protocol state of multipart uploads created through the tus endpoint
+export const tusUploads = mysqlTable('tus_uploads', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(), // Multipart upload ID
+  uploadOffset: bigint('upload_offset', { mode: 'number' }).notNull().default(0),
+  uploadMetadata: text('upload_metadata'),
+  lockedUntil: timestamp('locked_until'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+});
@@ -0,0 +1,55 @@
+// src/db/schema/webhooks.ts
+import { mysqlTable, varchar, timestamp, int, boolean, json, text, mysqlEnum, index } from 'drizzle-orm/mysql-core';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'file.uploaded',
+  'file.downloaded',
+  'file.shared',
+  'file.deleted',
+  'member.added',
+  'member.removed',
+  'member.role_changed'
+] as const;
+
+export const WEBHOOK_DELIVERY_STATUS = ['pending', 'succeeded', 'failed'] as const;
+
+// Company endpoints that receive event notifications
+export const webhookEndpoints = mysqlTable('webhook_endpoints', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  companyId: varchar('company_id', { length: 36 }).notNull(),
+  url: varchar('url', { length: 2048 }).notNull(),
+  description: varchar('description', { length: 255 }),
+  secret: varchar('secret', { length: 128 }).notNull(), // Signs each payload
+  events: json('events').$type<string[]>().notNull(), // Event types to send; empty means all
+  isActive: boolean('is_active').notNull().default(true),
+  consecutiveFailures: int('consecutive_failures').notNull().default(0),
+  disabledAt: timestamp('disabled_at'),
+  disabledReason: varchar('disabled_reason', { length: 255 }),
+  createdById: varchar('created_by_id', { length: 36 }).notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow()
+}, (table) => ({
+  companyIdx: index('webhook_endpoints_company_idx').on(table.companyId)
+}));
+
+// Every attempt to send an event to an endpoint, and its outcome
+export const webhookDeliveries = mysqlTable('webhook_deliveries', {
+  id: varchar('id', { length: 36 }).primaryKey().notNull(),
+  endpointId: varchar('endpoint_id', { length: 36 }).notNull(),
+  eventId: varchar('event_id', { length: 36 }).notNull(), // Shared by all deliveries of one event
+  eventType: varchar('event_type', { length: 50 }).notNull(),
+  payload: text('payload').notNull(),
+  status: mysqlEnum('status', WEBHOOK_DELIVERY_STATUS).notNull().default('pending'),
+  attempts: int('attempts').notNull().default(0),
+  responseStatus: int('response_status'),
+  error: varchar('error', { length: 1024 }),
+  durationMs: int('duration_ms'),
+  nextAttemptAt: timestamp('next_attempt_at'),
+  lastAttemptAt: timestamp('last_attempt_at'),
+  deliveredAt: timestamp('delivered_at'),
+  redeliveryOf: varchar('redelivery_of', { length: 36 }),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+}, (table) => ({
+  endpointIdx: index('webhook_deliveries_endpoint_idx').on(table.endpointId, table.createdAt),
+  pendingIdx: index('webhook_deliveries_pending_idx').on(table.status, table.nextAttemptAt)
+}));
@@ -0,0 +1,230 @@
+// src/repositories/activity-export.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, eq, gt, gte, inArray, lte, notInArray, or, sql, InferModel, SQL } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { activities } from '../db/schema/activities';
+import { activityExports, ACTIVITY_EXPORT_STATUS } from '../db/schema/activity-exports';
+import * as schema from '../db/schema';
+
+export type ActivityExport = InferModel<typeof activityExports>;
+export type ActivityExportStatus = typeof ACTIVITY_EXPORT_STATUS[number];
+export type Activity = InferModel<typeof activities>;
+type ActivityAction = Activity['action'];
+
+export type CreateActivityExportParams = Pick<
+  ActivityExport,
+  'id' | 'companyId' | 'requestedById' | 'format' | 'options' | 'storageId' | 'storageKey'
+>;
+
+export type UpdateActivityExportParams = Partial<Pick<
+  ActivityExport,
+  'status' | 'storageKey' | 'encryptionKeyId' | 'rowCount' | 'size' | 'error' | 'completedAt'
+>>;
+
+/**
+ * Which activities an export contains
+ */
+export interface ActivityExportFilter {
+  companyId: string;
+  userId?: string;
+  fileId?: string;
+  roomId?: string;
+  types?: ActivityAction[];
+  excludedTypes?: ActivityAction[];
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Where the previous page of an export ended
+ */
+export interface ActivityCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Activity exports, and the paged reads they are built from
+ */
+@injectable()
+export class ActivityExportRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('ActivityExportRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  async create(data: CreateActivityExportParams): Promise<ActivityExport> {
+    try {
+      const db = this.getDb();
+      await db.insert(activityExports).values(data);
+
+      return (await this.findById(data.id))!;
+    } catch (error: any) {
+      this.logger.error('Failed to create activity export', { companyId: data.companyId, error });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<ActivityExport | null> {
+    try {
+      const db = this.getDb();
+      const [found] = await db
+        .select()
+        .from(activityExports)
+        .where(eq(activityExports.id, id));
+      return found || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find activity export', { exportId: id, error });
+      throw error;
+    }
+  }
+
+  async update(id: string, data: UpdateActivityExportParams): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(activityExports)
+        .set(data)
+        .where(eq(activityExports.id, id));
+    } catch (error: any) {
+      this.logger.error('Failed to update activity export', { exportId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Exports waiting to run, and running ones whose worker has stopped
+   * holding them, oldest first
+   */
+  async findDue(now: Date, limit: number): Promise<ActivityExport[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(activityExports)
+        .where(this.isDue(now))
+        .orderBy(asc(activityExports.createdAt))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find due activity exports', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a due export for one worker until `leaseUntil`, counting the
+   * attempt. Returns false if it is not due or someone else took it.
+   */
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(activityExports)
+        .set({ status: 'running', claimedUntil: leaseUntil, attempts: sql`${activityExports.attempts} + 1` })
+        .where(and(eq(activityExports.id, id), this.isDue(now)));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to claim activity export', { exportId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Finished exports that completed before the given time
+   */
+  async findFinishedBefore(before: Date, limit: number): Promise<ActivityExport[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(activityExports)
+        .where(and(
+          inArray(activityExports.status, ['completed', 'failed']),
+          lte(activityExports.completedAt, before)
+        ))
+        .orderBy(asc(activityExports.completedAt))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find finished activity exports', { error });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.delete(activityExports).where(eq(activityExports.id, id));
+    } catch (error: any) {
+      this.logger.error('Failed to delete activity export', { exportId: id, error });
+      throw error;
+    }
+  }
+
+  private isDue(now: Date): SQL {
+    return or(
+      eq(activityExports.status, 'pending'),
+      and(eq(activityExports.status, 'running'), lte(activityExports.claimedUntil, now))
+    )!;
+  }
+
+  /**
+   * One page of activities in time order, starting after a cursor. Paging on
+   * (createdAt, id) keeps each query cheap however deep the export goes.
+   */
+  async findActivityPage(
+    filter: ActivityExportFilter,
+    after: ActivityCursor | null,
+    limit: number
+  ): Promise<Activity[]> {
+    try {
+      const db = this.getDb();
+      const conditions: SQL[] = [eq(activities.companyId, filter.companyId)];
+
+      if (filter.userId) {
+        conditions.push(eq(activities.userId, filter.userId));
+      }
+      if (filter.fileId) {
+        conditions.push(eq(activities.fileId, filter.fileId));
+      }
+      if (filter.roomId) {
+        conditions.push(eq(activities.roomId, filter.roomId));
+      }
+      if (filter.types && filter.types.length > 0) {
+        conditions.push(inArray(activities.action, filter.types));
+      }
+      if (filter.excludedTypes && filter.excludedTypes.length > 0) {
+        conditions.push(notInArray(activities.action, filter.excludedTypes));
+      }
+      if (filter.startDate) {
+        conditions.push(gte(activities.createdAt, filter.startDate));
+      }
+      if (filter.endDate) {
+        conditions.push(lte(activities.createdAt, filter.endDate));
+      }
+      if (after) {
+        conditions.push(or(
+          gt(activities.createdAt, after.createdAt),
+          and(eq(activities.createdAt, after.createdAt), gt(activities.id, after.id))
+        )!);
+      }
+
+      return await db
+        .select()
+        .from(activities)
+        .where(and(...conditions))
+        .orderBy(asc(activities.createdAt), asc(activities.id))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to read activities for export', { companyId: filter.companyId, error });
+      throw error;
+    }
+  }
+}
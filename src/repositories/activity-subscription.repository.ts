@@ -0,0 +1,198 @@
+// src/repositories/activity-subscription.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, eq, isNull, lt, or, sql, InferModel, SQL, AnyColumn } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import {
+  activitySubscriptions,
+  ACTIVITY_SUBSCRIPTION_CHANNELS,
+  ACTIVITY_SUBSCRIPTION_FREQUENCIES
+} from '../db/schema/activity-subscriptions';
+import * as schema from '../db/schema';
+
+export type ActivitySubscription = InferModel<typeof activitySubscriptions>;
+export type ActivitySubscriptionChannel = typeof ACTIVITY_SUBSCRIPTION_CHANNELS[number];
+export type ActivitySubscriptionFrequency = typeof ACTIVITY_SUBSCRIPTION_FREQUENCIES[number];
+
+export type CreateActivitySubscriptionParams = Omit<
+  ActivitySubscription,
+  'isActive' | 'lastDigestAt' | 'createdAt' | 'updatedAt'
+>;
+
+export type UpdateActivitySubscriptionParams = Partial<Omit<
+  ActivitySubscription,
+  'id' | 'userId' | 'lastDigestAt' | 'createdAt' | 'updatedAt'
+>>;
+
+/**
+ * The fields of an activity that subscriptions filter on
+ */
+export interface SubscribableActivity {
+  action: string;
+  userId: string;
+  roomId: string | null;
+  fileId: string | null;
+}
+
+/**
+ * Users' activity subscriptions
+ */
+@injectable()
+export class ActivitySubscriptionRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('ActivitySubscriptionRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  async create(data: CreateActivitySubscriptionParams): Promise<ActivitySubscription> {
+    try {
+      const db = this.getDb();
+      await db.insert(activitySubscriptions).values(data);
+
+      return (await this.findById(data.id))!;
+    } catch (error: any) {
+      this.logger.error('Failed to create activity subscription', { userId: data.userId, error });
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<ActivitySubscription | null> {
+    try {
+      const db = this.getDb();
+      const [subscription] = await db
+        .select()
+        .from(activitySubscriptions)
+        .where(eq(activitySubscriptions.id, id));
+      return subscription || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find activity subscription', { subscriptionId: id, error });
+      throw error;
+    }
+  }
+
+  async listByUser(userId: string): Promise<ActivitySubscription[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(activitySubscriptions)
+        .where(eq(activitySubscriptions.userId, userId))
+        .orderBy(asc(activitySubscriptions.createdAt));
+    } catch (error: any) {
+      this.logger.error('Failed to list activity subscriptions', { userId, error });
+      throw error;
+    }
+  }
+
+  async update(id: string, data: UpdateActivitySubscriptionParams): Promise<ActivitySubscription | null> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(activitySubscriptions)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(activitySubscriptions.id, id));
+
+      return await this.findById(id);
+    } catch (error: any) {
+      this.logger.error('Failed to update activity subscription', { subscriptionId: id, error });
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db.delete(activitySubscriptions).where(eq(activitySubscriptions.id, id));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to delete activity subscription', { subscriptionId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Active immediate subscriptions whose filters accept the activity. Access
+   * to the activity is not checked here.
+   */
+  async findImmediateMatches(activity: SubscribableActivity): Promise<ActivitySubscription[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(activitySubscriptions)
+        .where(
+          and(
+            eq(activitySubscriptions.isActive, true),
+            eq(activitySubscriptions.frequency, 'immediate'),
+            this.listAccepts(activitySubscriptions.roomIds, activity.roomId),
+            this.listAccepts(activitySubscriptions.fileIds, activity.fileId),
+            this.listAccepts(activitySubscriptions.actions, activity.action),
+            this.listAccepts(activitySubscriptions.actorIds, activity.userId),
+            sql`NOT JSON_CONTAINS(${activitySubscriptions.excludedActions}, JSON_QUOTE(${activity.action}))`
+          )
+        );
+    } catch (error: any) {
+      this.logger.error('Failed to find matching activity subscriptions', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Active digest subscriptions of a frequency whose last digest was sent
+   * before `sentBefore` (or never)
+   */
+  async findDueDigests(
+    frequency: Exclude<ActivitySubscriptionFrequency, 'immediate'>,
+    sentBefore: Date,
+    limit: number
+  ): Promise<ActivitySubscription[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(activitySubscriptions)
+        .where(
+          and(
+            eq(activitySubscriptions.isActive, true),
+            eq(activitySubscriptions.frequency, frequency),
+            or(isNull(activitySubscriptions.lastDigestAt), lt(activitySubscriptions.lastDigestAt, sentBefore))
+          )
+        )
+        .orderBy(asc(activitySubscriptions.id))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find due activity digests', { frequency, error });
+      throw error;
+    }
+  }
+
+  async markDigestSent(id: string, sentAt: Date): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(activitySubscriptions)
+        .set({ lastDigestAt: sentAt })
+        .where(eq(activitySubscriptions.id, id));
+    } catch (error: any) {
+      this.logger.error('Failed to record activity digest', { subscriptionId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * An empty filter list accepts anything; otherwise it must contain the value
+   */
+  private listAccepts(column: AnyColumn, value: string | null): SQL {
+    if (value === null) {
+      return sql`JSON_LENGTH(${column}) = 0`;
+    }
+    return sql`(JSON_LENGTH(${column}) = 0 OR JSON_CONTAINS(${column}, JSON_QUOTE(${value})))`;
+  }
+}
@@ -0,0 +1,133 @@
+// src/repositories/billing-event.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, eq, inArray, lt, or, sql, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { billingEvents, BILLING_EVENT_STATUS } from '../db/schema/subscriptions';
+import * as schema from '../db/schema';
+
+export type BillingEventRecord = InferModel<typeof billingEvents>;
+export type BillingEventStatus = typeof BILLING_EVENT_STATUS[number];
+
+export interface RecordBillingEventParams {
+  provider: string;
+  eventId: string;
+  eventType: string;
+  payload: string;
+}
+
+/**
+ * Payment provider events, stored once per provider event ID
+ */
+@injectable()
+export class BillingEventRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('BillingEventRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * Find a stored event by the provider's event ID
+   */
+  async findByEventId(provider: string, eventId: string): Promise<BillingEventRecord | null> {
+    try {
+      const db = this.getDb();
+      const [event] = await db
+        .select()
+        .from(billingEvents)
+        .where(and(eq(billingEvents.provider, provider), eq(billingEvents.eventId, eventId)));
+      return event || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find billing event', { provider, eventId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Store a received event. Redeliveries of the same event return the existing record.
+   */
+  async record(data: RecordBillingEventParams): Promise<BillingEventRecord> {
+    try {
+      const db = this.getDb();
+
+      await db
+        .insert(billingEvents)
+        .ignore()
+        .values({
+          id: uuidv4(),
+          provider: data.provider,
+          eventId: data.eventId,
+          eventType: data.eventType,
+          payload: data.payload,
+          status: 'received'
+        });
+
+      const [event] = await db
+        .select()
+        .from(billingEvents)
+        .where(and(eq(billingEvents.provider, data.provider), eq(billingEvents.eventId, data.eventId)));
+      return event;
+    } catch (error: any) {
+      this.logger.error('Failed to record billing event', {
+        provider: data.provider,
+        eventId: data.eventId,
+        error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Claim an event for processing. Only one delivery can hold the claim; a
+   * claim older than staleBefore is taken to be abandoned and can be taken over.
+   * Returns whether this caller got the claim.
+   */
+  async claim(id: string, staleBefore: Date): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(billingEvents)
+        .set({ status: 'processing', claimedAt: new Date() })
+        .where(and(
+          eq(billingEvents.id, id),
+          or(
+            inArray(billingEvents.status, ['received', 'failed']),
+            and(eq(billingEvents.status, 'processing'), lt(billingEvents.claimedAt, staleBefore))
+          )
+        ));
+      return result.affectedRows === 1;
+    } catch (error: any) {
+      this.logger.error('Failed to claim billing event', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the outcome of a processing attempt
+   */
+  async markStatus(id: string, status: BillingEventStatus, error?: string | null): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(billingEvents)
+        .set({
+          status,
+          error: error || null,
+          attempts: sql`${billingEvents.attempts} + 1`,
+          processedAt: status === 'failed' ? null : new Date()
+        })
+        .where(eq(billingEvents.id, id));
+    } catch (err: any) {
+      this.logger.error('Failed to update billing event', { id, status, error: err });
+      throw err;
+    }
+  }
+}
@@ -5,8 +5,8 @@ import { Logger } from '../utils/logger';
 import { DrizzleClient } from '../db/drizzle.client';
 import { CompanyMember, CompanySettings } from '../types/company';
 import { PaginationOptions } from '../types/common';
-import { eq, like, and } from 'drizzle-orm';
-import { companyMembers, companySettings } from '../db/schema';
+import { eq, like, and, desc } from 'drizzle-orm';
+import { companyMembers, companySettings, userCompanies } from '../db/schema';
 import { MySql2Database } from 'drizzle-orm/mysql2';
 import * as schema from '../db/schema';
 import { v4 as uuidv4 } from 'uuid';
@@ -236,6 +236,68 @@ export class CompanyRepository {
     }
   }
 
+  /**
+   * Find a member of a company
+   */
+  async findMember(companyId: string, userId: string): Promise<CompanyMember | null> {
+    try {
+      const db = this.getDb();
+      const [member] = await db
+        .select()
+        .from(companyMembers)
+        .where(
+          and(
+            eq(companyMembers.companyId, companyId),
+            eq(companyMembers.userId, userId)
+          )
+        );
+      return member || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find company member', { companyId, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Link a user to a company in user_companies
+   */
+  async addUserCompany(userId: string, companyId: string, role: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      const [existing] = await db
+        .select()
+        .from(userCompanies)
+        .where(
+          and(
+            eq(userCompanies.userId, userId),
+            eq(userCompanies.companyId, companyId)
+          )
+        );
+
+      if (existing) {
+        await db
+          .update(userCompanies)
+          .set({ role })
+          .where(eq(userCompanies.id, existing.id));
+        return;
+      }
+
+      // First company a user joins becomes their default
+      const [anyCompany] = await db
+        .select({ id: userCompanies.id })
+        .from(userCompanies)
+        .where(eq(userCompanies.userId, userId))
+        .limit(1);
+
+      await db
+        .insert(userCompanies)
+        .values({ userId, companyId, role, isDefault: !anyCompany });
+    } catch (error: any) {
+      this.logger.error('Failed to link user to company', { userId, companyId, role, error });
+      throw error;
+    }
+  }
+
   /**
    * Remove member from company
    */
@@ -388,12 +450,7 @@ export class CompanyRepository {
       const [invite] = await db
         .select()
         .from(companyInvites)
-        .where(
-          and(
-            eq(companyInvites.companyId, data.companyId),
-            eq(companyInvites.email, data.email)
-          )
-        );
+        .where(eq(companyInvites.token, token));
       return invite;
     } catch (error: any) {
       this.logger.error('Failed to create company invite', { data, error });
@@ -419,7 +476,7 @@ export class CompanyRepository {
   }
 
   /**
-   * Find invite by email
+   * Find the most recent pending invite for an email
    */
   async findInviteByEmail(companyId: string, email: string): Promise<CompanyInvite | null> {
     try {
@@ -430,9 +487,12 @@ export class CompanyRepository {
         .where(
           and(
             eq(companyInvites.companyId, companyId),
-            eq(companyInvites.email, email)
+            eq(companyInvites.email, email),
+            eq(companyInvites.status, 'pending')
           )
-        );
+        )
+        .orderBy(desc(companyInvites.createdAt))
+        .limit(1);
       return invite || null;
     } catch (error: any) {
       this.logger.error('Failed to find invite by email', { companyId, email, error });
@@ -0,0 +1,132 @@
+// src/repositories/encryption-key.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, count, eq, ne, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { companyMasterKeys, fileDataKeys } from '../db/schema/encryption';
+import { files, fileVersions } from '../db/schema/files';
+import * as schema from '../db/schema';
+
+export type CompanyMasterKey = InferModel<typeof companyMasterKeys>;
+export type FileDataKeyRecord = InferModel<typeof fileDataKeys>;
+
+export type CreateMasterKeyParams = Pick<CompanyMasterKey, 'id' | 'companyId' | 'wrappedKey'>;
+export type CreateDataKeyParams = Pick<FileDataKeyRecord, 'id' | 'companyId' | 'masterKeyId' | 'wrappedKey' | 'chunkSize'>;
+
+/**
+ * Wrapped company master keys and per-file data keys
+ */
+@injectable()
+export class EncryptionKeyRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('EncryptionKeyRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * The key new data keys are wrapped with. Should two have been created
+   * concurrently, the oldest wins so every caller agrees.
+   */
+  async findActiveMasterKey(companyId: string): Promise<CompanyMasterKey | null> {
+    try {
+      const db = this.getDb();
+      const [found] = await db
+        .select()
+        .from(companyMasterKeys)
+        .where(and(eq(companyMasterKeys.companyId, companyId), eq(companyMasterKeys.status, 'active')))
+        .orderBy(asc(companyMasterKeys.createdAt), asc(companyMasterKeys.id))
+        .limit(1);
+      return found || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find active master key', { companyId, error });
+      throw error;
+    }
+  }
+
+  async findMasterKey(id: string): Promise<CompanyMasterKey | null> {
+    try {
+      const db = this.getDb();
+      const [found] = await db
+        .select()
+        .from(companyMasterKeys)
+        .where(eq(companyMasterKeys.id, id));
+      return found || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find master key', { masterKeyId: id, error });
+      throw error;
+    }
+  }
+
+  async createMasterKey(data: CreateMasterKeyParams): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.insert(companyMasterKeys).values(data);
+    } catch (error: any) {
+      this.logger.error('Failed to create master key', { companyId: data.companyId, error });
+      throw error;
+    }
+  }
+
+  async findDataKey(id: string): Promise<FileDataKeyRecord | null> {
+    try {
+      const db = this.getDb();
+      const [found] = await db
+        .select()
+        .from(fileDataKeys)
+        .where(eq(fileDataKeys.id, id));
+      return found || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find data key', { dataKeyId: id, error });
+      throw error;
+    }
+  }
+
+  async createDataKey(data: CreateDataKeyParams): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.insert(fileDataKeys).values(data);
+    } catch (error: any) {
+      this.logger.error('Failed to create data key', { companyId: data.companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Files and versions other than those of exceptFileId encrypted with a
+   * data key. Copies share their original's key.
+   */
+  async countDataKeyReferences(id: string, exceptFileId: string): Promise<number> {
+    try {
+      const db = this.getDb();
+      const [fileRefs] = await db
+        .select({ count: count() })
+        .from(files)
+        .where(and(eq(files.encryptionKeyId, id), ne(files.id, exceptFileId)));
+      const [versionRefs] = await db
+        .select({ count: count() })
+        .from(fileVersions)
+        .where(and(eq(fileVersions.encryptionKeyId, id), ne(fileVersions.fileId, exceptFileId)));
+      return Number(fileRefs?.count || 0) + Number(versionRefs?.count || 0);
+    } catch (error: any) {
+      this.logger.error('Failed to count data key references', { dataKeyId: id, error });
+      throw error;
+    }
+  }
+
+  async deleteDataKey(id: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.delete(fileDataKeys).where(eq(fileDataKeys.id, id));
+    } catch (error: any) {
+      this.logger.error('Failed to delete data key', { dataKeyId: id, error });
+      throw error;
+    }
+  }
+}
@@ -4,10 +4,12 @@ import { StorageAccount } from './storage-account.repository';
 import { rooms } from '../db/schema/rooms';
 import { roomMembers } from '../db/schema/room-members';
 import { roomAccess } from '../db/schema/access';
-import { eq, and, or, inArray, gte, lte, asc, desc, count } from 'drizzle-orm';
+import { tags, fileTags } from '../db/schema/tags';
+import { eq, and, or, inArray, gte, lte, asc, desc, count, sql } from 'drizzle-orm';
 import { injectable } from 'inversify';
 import { Logger } from '../utils/logger';
 import { like } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
 
 export { FILE_TYPES, ENCRYPTION_TYPES };
 
@@ -25,9 +27,12 @@ export interface FileEntity {
   storageKey: string | null;
   encryption: typeof ENCRYPTION_TYPES[number];
   encryptionKeyId: string | null;
+  checksum: string | null;
   metadata: string | null;
   deleteAfter: Date | null;
   isDeleted: boolean;
+  deletedAt: Date | null;
+  deletedById: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,7 +44,9 @@ export interface FileVersionEntity {
   size: number;
   storageKey: string;
   uploadedById: string;
+  encryption: typeof ENCRYPTION_TYPES[number];
   encryptionKeyId: string | null;
+  checksum: string | null;
   createdAt: Date;
 }
 
@@ -95,6 +102,7 @@ export interface CreateFileParams {
   storageKey?: string;
   encryption?: typeof ENCRYPTION_TYPES[number];
   encryptionKeyId?: string;
+  checksum?: string;
   metadata?: any;
   deleteAfter?: Date;
 }
@@ -102,6 +110,12 @@ export interface CreateFileParams {
 export interface UpdateFileParams {
   name?: string;
   parentId?: string | null;
+  mimeType?: string | null;
+  size?: number;
+  storageKey?: string | null;
+  encryption?: typeof ENCRYPTION_TYPES[number];
+  encryptionKeyId?: string | null;
+  checksum?: string | null;
   metadata?: any;
   deleteAfter?: Date | null;
   isDeleted?: boolean;
@@ -109,10 +123,13 @@ export interface UpdateFileParams {
 
 export interface CreateFileVersionParams {
   fileId: string;
+  versionNumber?: number; // Defaults to the next number for the file
   size: number;
   storageKey: string;
   uploadedById: string;
+  encryption?: typeof ENCRYPTION_TYPES[number];
   encryptionKeyId?: string;
+  checksum?: string;
 }
 
 export interface CreateFileShareParams {
@@ -168,9 +185,12 @@ export class FileRepository {
         storageKey: true,
         encryption: true,
         encryptionKeyId: true,
+        checksum: true,
         metadata: true,
         deleteAfter: true,
         isDeleted: true,
+        deletedAt: true,
+        deletedById: true,
         createdAt: true,
         updatedAt: true
       },
@@ -192,6 +212,7 @@ export class FileRepository {
     parentId?: string | null;
     fileType?: typeof FILE_TYPES[number];
     includeDeleted?: boolean;
+    tags?: string[];
   }): Promise<FileEntity[]> {
     const db = await this.dbClient.getInstance();
     return db.query.files.findMany({
@@ -199,7 +220,8 @@ export class FileRepository {
         eq(files.roomId, roomId),
         options?.parentId ? eq(files.parentId, options.parentId) : undefined,
         options?.fileType ? eq(files.fileType, options.fileType) : undefined,
-        options?.includeDeleted === false ? eq(files.isDeleted, false) : undefined
+        options?.includeDeleted === false ? eq(files.isDeleted, false) : undefined,
+        options?.tags && options.tags.length > 0 ? this.hasAllTags(db, options.tags) : undefined
       )
     });
   }
@@ -221,10 +243,13 @@ export class FileRepository {
     });
   }
 
-  async softDelete(id: string): Promise<boolean> {
+  async softDelete(id: string, deletedById?: string, trashedWithId?: string): Promise<boolean> {
     const db = await this.dbClient.getInstance();
     const result = await db.update(files).set({
       isDeleted: true,
+      deletedAt: new Date(),
+      deletedById: deletedById || null,
+      trashedWithId: trashedWithId || null,
       updatedAt: new Date()
     }).where(eq(files.id, id)).returning({
       updatedAt: true
@@ -236,6 +261,9 @@ export class FileRepository {
     const db = await this.dbClient.getInstance();
     const result = await db.update(files).set({
       isDeleted: false,
+      deletedAt: null,
+      deletedById: null,
+      trashedWithId: null,
       updatedAt: new Date()
     }).where(eq(files.id, id)).returning({
       updatedAt: true
@@ -243,20 +271,22 @@ export class FileRepository {
     return result.length > 0;
   }
 
-  async hardDelete(id: string): Promise<boolean> {
+  // Version operations
+  async findVersionsByFileId(fileId: string): Promise<FileVersionEntity[]> {
     const db = await this.dbClient.getInstance();
-    const result = await db.delete(files).where(eq(files.id, id)).returning({
-      deletedAt: true
+    return db.query.fileVersions.findMany({
+      where: eq(fileVersions.fileId, fileId),
+      orderBy: [desc(fileVersions.versionNumber)]
     });
-    return result.length > 0;
   }
 
-  // Version operations
-  async findVersionsByFileId(fileId: string): Promise<FileVersionEntity[]> {
+  async findLatestVersion(fileId: string): Promise<FileVersionEntity | null> {
     const db = await this.dbClient.getInstance();
-    return db.query.fileVersions.findMany({
-      where: eq(fileVersions.fileId, fileId)
+    const version = await db.query.fileVersions.findFirst({
+      where: eq(fileVersions.fileId, fileId),
+      orderBy: [desc(fileVersions.versionNumber)]
     });
+    return version || null;
   }
 
   async findVersionById(id: string): Promise<FileVersionEntity | null> {
@@ -268,7 +298,19 @@ export class FileRepository {
 
   async createVersion(params: CreateFileVersionParams): Promise<FileVersionEntity> {
     const db = await this.dbClient.getInstance();
-    return db.insert(fileVersions).values(params).returning(fileVersions);
+    let versionNumber = params.versionNumber;
+
+    if (versionNumber === undefined) {
+      const latest = await this.findLatestVersion(params.fileId);
+      versionNumber = latest ? latest.versionNumber + 1 : 1;
+    }
+
+    const id = uuidv4();
+    await db.insert(fileVersions).values({ ...params, id, versionNumber });
+
+    return db.query.fileVersions.findFirst({
+      where: eq(fileVersions.id, id)
+    });
   }
 
   // Share operations
@@ -476,11 +518,9 @@ export class FileRepository {
         conditions.push(lte(files.updatedAt, options.updatedBefore));
       }
       
-      // Tags filter (implementation depends on how tags are stored)
-      // This is a placeholder and would need customization based on schema
+      // Tags filter - files must carry every requested tag
       if (options.tags && options.tags.length > 0) {
-        // Assuming tags are stored in metadata JSON field
-        // This would need to be adjusted based on actual implementation
+        conditions.push(this.hasAllTags(db, options.tags));
       }
       
       // Build query with sorting
@@ -606,6 +646,11 @@ export class FileRepository {
         conditions.push(lte(files.updatedAt, options.updatedBefore));
       }
       
+      // Add tags filter
+      if (options.tags && options.tags.length > 0) {
+        conditions.push(this.hasAllTags(db, options.tags));
+      }
+      
       // Execute count query
       const result = await db.select({ count: count() }).from(files).where(and(...conditions));
       return result[0]?.count || 0;
@@ -614,4 +659,21 @@ export class FileRepository {
       return 0;
     }
   }
+
+  /**
+   * Condition matching files that carry every one of the given tag names
+   */
+  private hasAllTags(db: any, tagNames: string[]) {
+    const names = [...new Set(tagNames)];
+    return inArray(
+      files.id,
+      db
+        .select({ fileId: fileTags.fileId })
+        .from(fileTags)
+        .innerJoin(tags, eq(tags.id, fileTags.tagId))
+        .where(inArray(tags.name, names))
+        .groupBy(fileTags.fileId)
+        .having(sql`count(distinct ${tags.name}) = ${names.length}`)
+    );
+  }
 }
\ No newline at end of file
@@ -0,0 +1,289 @@
+// src/repositories/guest.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, eq, gt, inArray, isNotNull, isNull, lte, ne, or, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { guestLists, roomAccess } from '../db/schema/access';
+import { rooms } from '../db/schema/rooms';
+import { users } from '../db/schema/users';
+import * as schema from '../db/schema';
+
+export type GuestListEntry = InferModel<typeof guestLists>;
+
+/**
+ * A guest list entry together with the guest's profile
+ */
+export interface GuestDetails extends GuestListEntry {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+export interface AddGuestParams {
+  companyId: string;
+  userId: string;
+  addedById: string;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Company guest lists and the room access granted to guests
+ */
+@injectable()
+export class GuestRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('GuestRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * List a company's guests, oldest first
+   */
+  async listByCompany(companyId: string): Promise<GuestDetails[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({
+          entry: guestLists,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName
+        })
+        .from(guestLists)
+        .innerJoin(users, eq(users.id, guestLists.userId))
+        .where(eq(guestLists.companyId, companyId))
+        .orderBy(asc(guestLists.addedAt));
+
+      return rows.map(row => ({
+        ...row.entry,
+        email: row.email,
+        firstName: row.firstName,
+        lastName: row.lastName
+      }));
+    } catch (error: any) {
+      this.logger.error('Failed to list guests', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's entry on a company's guest list
+   */
+  async findEntry(companyId: string, userId: string): Promise<GuestListEntry | null> {
+    try {
+      const db = this.getDb();
+      const [entry] = await db
+        .select()
+        .from(guestLists)
+        .where(and(eq(guestLists.companyId, companyId), eq(guestLists.userId, userId)));
+      return entry || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find guest', { companyId, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a user to a company's guest list
+   */
+  async add(data: AddGuestParams): Promise<GuestListEntry> {
+    try {
+      const db = this.getDb();
+      const id = uuidv4();
+
+      await db.insert(guestLists).values({
+        id,
+        companyId: data.companyId,
+        userId: data.userId,
+        addedById: data.addedById,
+        expiresAt: data.expiresAt || null
+      });
+
+      const [entry] = await db.select().from(guestLists).where(eq(guestLists.id, id));
+      return entry;
+    } catch (error: any) {
+      this.logger.error('Failed to add guest', { companyId: data.companyId, userId: data.userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Change when a guest's access expires
+   */
+  async updateExpiry(id: string, expiresAt: Date | null): Promise<GuestListEntry | null> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(guestLists)
+        .set({ expiresAt, updatedAt: new Date() })
+        .where(eq(guestLists.id, id));
+
+      const [entry] = await db.select().from(guestLists).where(eq(guestLists.id, id));
+      return entry || null;
+    } catch (error: any) {
+      this.logger.error('Failed to update guest expiry', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user from a company's guest list
+   */
+  async remove(companyId: string, userId: string): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .delete(guestLists)
+        .where(and(eq(guestLists.companyId, companyId), eq(guestLists.userId, userId)));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to remove guest', { companyId, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * A company's guest list entries whose access has not expired
+   */
+  async findActiveGuests(companyId: string, now: Date = new Date()): Promise<GuestListEntry[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(guestLists)
+        .where(
+          and(
+            eq(guestLists.companyId, companyId),
+            or(isNull(guestLists.expiresAt), gt(guestLists.expiresAt, now))
+          )
+        );
+    } catch (error: any) {
+      this.logger.error('Failed to find active guests', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Guest list entries across all companies that expired at or before the given time
+   */
+  async findExpired(now: Date = new Date(), limit: number = 500): Promise<GuestListEntry[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(guestLists)
+        .where(and(isNotNull(guestLists.expiresAt), lte(guestLists.expiresAt, now)))
+        .orderBy(asc(guestLists.expiresAt))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find expired guests', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * IDs of a company's active rooms that are open to guests
+   */
+  async findGuestRoomIds(companyId: string): Promise<string[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({ id: rooms.id })
+        .from(rooms)
+        .where(
+          and(
+            eq(rooms.companyId, companyId),
+            eq(rooms.isActive, true),
+            eq(rooms.accessLevel, 'guests')
+          )
+        );
+      return rows.map(row => row.id);
+    } catch (error: any) {
+      this.logger.error('Failed to find guest rooms', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Give guests viewer access to rooms, recording the guest list entry each
+   * grant was made through. Existing access entries are left untouched.
+   */
+  async grantRoomAccess(
+    roomIds: string[],
+    guests: Pick<GuestListEntry, 'id' | 'userId'>[],
+    invitedById: string | null
+  ): Promise<void> {
+    if (roomIds.length === 0 || guests.length === 0) {
+      return;
+    }
+
+    try {
+      const db = this.getDb();
+      const values = roomIds.flatMap(roomId => guests.map(guest => ({
+        id: uuidv4(),
+        roomId,
+        userId: guest.userId,
+        accessType: 'viewer',
+        invitedById,
+        guestListId: guest.id
+      })));
+
+      await db.insert(roomAccess).ignore().values(values);
+    } catch (error: any) {
+      this.logger.error('Failed to grant guest room access', { roomIds, guestCount: guests.length, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the access to the given rooms that was granted through the given
+   * guest list entries
+   */
+  async revokeRoomAccess(roomIds: string[], guestListIds: string[]): Promise<number> {
+    if (roomIds.length === 0 || guestListIds.length === 0) {
+      return 0;
+    }
+
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .delete(roomAccess)
+        .where(
+          and(
+            inArray(roomAccess.roomId, roomIds),
+            inArray(roomAccess.guestListId, guestListIds),
+            ne(roomAccess.accessType, 'owner')
+          )
+        );
+      return result.affectedRows;
+    } catch (error: any) {
+      this.logger.error('Failed to revoke guest room access', { roomIds, guestListIds, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove all room access granted through a guest list entry. Access the user
+   * was given some other way is kept.
+   */
+  async revokeGuestAccess(guestListId: string): Promise<number> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .delete(roomAccess)
+        .where(and(eq(roomAccess.guestListId, guestListId), ne(roomAccess.accessType, 'owner')));
+      return result.affectedRows;
+    } catch (error: any) {
+      this.logger.error('Failed to revoke guest access', { guestListId, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,128 @@
+// src/repositories/mail-queue.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, eq, inArray, lte, sql, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { mailQueue } from '../db/schema/mail';
+import * as schema from '../db/schema';
+
+export type QueuedMail = InferModel<typeof mailQueue>;
+
+export type CreateQueuedMailParams = Pick<QueuedMail, 'id' | 'recipient' | 'subject' | 'text' | 'html' | 'headers'>;
+
+/**
+ * Email waiting to be sent by the worker
+ */
+@injectable()
+export class MailQueueRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('MailQueueRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  async enqueue(messages: CreateQueuedMailParams[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    try {
+      const db = this.getDb();
+      await db.insert(mailQueue).values(messages);
+    } catch (error: any) {
+      this.logger.error('Failed to queue email', { count: messages.length, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Pending email due to be sent, oldest first
+   */
+  async findDue(now: Date, limit: number): Promise<QueuedMail[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(mailQueue)
+        .where(and(eq(mailQueue.status, 'pending'), lte(mailQueue.nextAttemptAt, now)))
+        .orderBy(asc(mailQueue.nextAttemptAt))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find due email', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a due email for one sender by pushing its next attempt to
+   * `leaseUntil`. Returns false if it is not due or someone else took it.
+   */
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(mailQueue)
+        .set({ nextAttemptAt: leaseUntil })
+        .where(and(eq(mailQueue.id, id), eq(mailQueue.status, 'pending'), lte(mailQueue.nextAttemptAt, now)));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to claim email', { mailId: id, error });
+      throw error;
+    }
+  }
+
+  async markSent(id: string, sentAt: Date): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(mailQueue)
+        .set({ status: 'sent', sentAt, error: null, attempts: sql`${mailQueue.attempts} + 1` })
+        .where(eq(mailQueue.id, id));
+    } catch (error: any) {
+      this.logger.error('Failed to mark email sent', { mailId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a failed attempt, retrying at `nextAttemptAt` or giving up if it is null
+   */
+  async recordFailure(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(mailQueue)
+        .set({
+          ...(nextAttemptAt ? { nextAttemptAt } : { status: 'failed' as const }),
+          error: error.slice(0, 1024),
+          attempts: sql`${mailQueue.attempts} + 1`
+        })
+        .where(eq(mailQueue.id, id));
+    } catch (dbError: any) {
+      this.logger.error('Failed to record email failure', { mailId: id, error: dbError });
+      throw dbError;
+    }
+  }
+
+  /**
+   * Remove sent and failed email created before the given time
+   */
+  async deleteFinishedBefore(before: Date): Promise<number> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .delete(mailQueue)
+        .where(and(inArray(mailQueue.status, ['sent', 'failed']), lte(mailQueue.createdAt, before)));
+      return result.affectedRows;
+    } catch (error: any) {
+      this.logger.error('Failed to delete finished email', { error });
+      throw error;
+    }
+  }
+}
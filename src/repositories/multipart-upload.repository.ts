@@ -0,0 +1,280 @@
+// src/repositories/multipart-upload.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, desc, eq, gt, inArray, isNull, lt, lte, or, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { multipartUploads, multipartUploadParts, tusUploads, MULTIPART_UPLOAD_STATUS } from '../db/schema/uploads';
+import * as schema from '../db/schema';
+
+export type MultipartUploadSession = InferModel<typeof multipartUploads>;
+export type MultipartUploadPart = InferModel<typeof multipartUploadParts>;
+export type MultipartUploadStatus = typeof MULTIPART_UPLOAD_STATUS[number];
+export type TusUpload = InferModel<typeof tusUploads>;
+
+export type CreateMultipartUploadParams = Omit<MultipartUploadSession, 'status' | 'error' | 'createdAt' | 'updatedAt'>;
+
+// Uploads that can still receive parts
+export const RESUMABLE_STATUSES: MultipartUploadStatus[] = ['initialized', 'in_progress'];
+
+/**
+ * Multipart upload sessions and the parts uploaded so far
+ */
+@injectable()
+export class MultipartUploadRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('MultipartUploadRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * Record a new upload session
+   */
+  async create(data: CreateMultipartUploadParams): Promise<MultipartUploadSession> {
+    try {
+      const db = this.getDb();
+      await db.insert(multipartUploads).values(data);
+
+      const [session] = await db.select().from(multipartUploads).where(eq(multipartUploads.id, data.id));
+      return session;
+    } catch (error: any) {
+      this.logger.error('Failed to create upload session', { uploadId: data.id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find an upload session by ID
+   */
+  async findById(id: string): Promise<MultipartUploadSession | null> {
+    try {
+      const db = this.getDb();
+      const [session] = await db.select().from(multipartUploads).where(eq(multipartUploads.id, id));
+      return session || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find upload session', { uploadId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * A user's uploads that have not expired and can still be continued, newest first
+   */
+  async listResumable(userId: string, now: Date, roomId?: string): Promise<MultipartUploadSession[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(multipartUploads)
+        .where(
+          and(
+            eq(multipartUploads.userId, userId),
+            inArray(multipartUploads.status, RESUMABLE_STATUSES),
+            gt(multipartUploads.expiresAt, now),
+            roomId ? eq(multipartUploads.roomId, roomId) : undefined
+          )
+        )
+        .orderBy(desc(multipartUploads.updatedAt));
+    } catch (error: any) {
+      this.logger.error('Failed to list resumable uploads', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Resumable uploads that expired at or before the given time
+   */
+  async findExpired(now: Date, limit: number = 100): Promise<MultipartUploadSession[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(multipartUploads)
+        .where(
+          and(
+            inArray(multipartUploads.status, RESUMABLE_STATUSES),
+            lte(multipartUploads.expiresAt, now)
+          )
+        )
+        .orderBy(asc(multipartUploads.expiresAt))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find expired uploads', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Move an upload to a new status, only if it is currently in one of `from`.
+   * Returns false if another request changed it first.
+   */
+  async transition(
+    id: string,
+    from: MultipartUploadStatus[],
+    to: MultipartUploadStatus,
+    changes: { expiresAt?: Date; error?: string | null } = {}
+  ): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(multipartUploads)
+        .set({ ...changes, status: to, updatedAt: new Date() })
+        .where(and(eq(multipartUploads.id, id), inArray(multipartUploads.status, from)));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to update upload status', { uploadId: id, to, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record an uploaded part. Uploading the same part again replaces it.
+   */
+  async savePart(uploadId: string, partNumber: number, etag: string, size: number): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .insert(multipartUploadParts)
+        .values({ id: uuidv4(), uploadId, partNumber, etag, size })
+        .onDuplicateKeyUpdate({ set: { etag, size, createdAt: new Date() } });
+    } catch (error: any) {
+      this.logger.error('Failed to save upload part', { uploadId, partNumber, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Parts uploaded so far, in part order
+   */
+  async listParts(uploadId: string): Promise<MultipartUploadPart[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(multipartUploadParts)
+        .where(eq(multipartUploadParts.uploadId, uploadId))
+        .orderBy(asc(multipartUploadParts.partNumber));
+    } catch (error: any) {
+      this.logger.error('Failed to list upload parts', { uploadId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove finished, failed and aborted sessions last updated before the given time
+   */
+  async deleteFinishedBefore(before: Date): Promise<number> {
+    try {
+      const db = this.getDb();
+      const finished = await db
+        .select({ id: multipartUploads.id })
+        .from(multipartUploads)
+        .where(
+          and(
+            inArray(multipartUploads.status, ['completed', 'failed', 'aborted']),
+            lte(multipartUploads.updatedAt, before)
+          )
+        )
+        .limit(500);
+
+      if (finished.length === 0) {
+        return 0;
+      }
+
+      const ids = finished.map(row => row.id);
+      await db.delete(multipartUploadParts).where(inArray(multipartUploadParts.uploadId, ids));
+      await db.delete(tusUploads).where(inArray(tusUploads.id, ids));
+      const [result] = await db.delete(multipartUploads).where(inArray(multipartUploads.id, ids));
+      return result.affectedRows;
+    } catch (error: any) {
+      this.logger.error('Failed to delete finished uploads', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the tus state of an upload created through the tus endpoint
+   */
+  async createTus(id: string, uploadMetadata: string | null): Promise<TusUpload> {
+    try {
+      const db = this.getDb();
+      await db.insert(tusUploads).values({ id, uploadMetadata });
+
+      const [upload] = await db.select().from(tusUploads).where(eq(tusUploads.id, id));
+      return upload;
+    } catch (error: any) {
+      this.logger.error('Failed to create tus upload', { uploadId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find the tus state of an upload
+   */
+  async findTus(id: string): Promise<TusUpload | null> {
+    try {
+      const db = this.getDb();
+      const [upload] = await db.select().from(tusUploads).where(eq(tusUploads.id, id));
+      return upload || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find tus upload', { uploadId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Lock a tus upload until the given time so only one request appends to it.
+   * Returns false if another request holds an unexpired lock.
+   */
+  async lockTus(id: string, now: Date, until: Date): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(tusUploads)
+        .set({ lockedUntil: until, updatedAt: now })
+        .where(and(eq(tusUploads.id, id), or(isNull(tusUploads.lockedUntil), lt(tusUploads.lockedUntil, now))));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to lock tus upload', { uploadId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Release a tus upload's lock
+   */
+  async unlockTus(id: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.update(tusUploads).set({ lockedUntil: null }).where(eq(tusUploads.id, id));
+    } catch (error: any) {
+      this.logger.error('Failed to unlock tus upload', { uploadId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Move a tus upload's offset, only if it is still at `from`.
+   * Extends the lock while the upload is being written.
+   */
+  async advanceTusOffset(id: string, from: number, to: number, lockedUntil: Date): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(tusUploads)
+        .set({ uploadOffset: to, lockedUntil, updatedAt: new Date() })
+        .where(and(eq(tusUploads.id, id), eq(tusUploads.uploadOffset, from)));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to update tus upload offset', { uploadId: id, from, to, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,320 @@
+// src/repositories/notification.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, between, desc, eq, inArray, isNull, lt, ne, or, sql, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { notificationPreferences, roomWatches, DIGEST_FREQUENCIES } from '../db/schema/notifications';
+import { users } from '../db/schema/users';
+import { rooms } from '../db/schema/rooms';
+import { activities } from '../db/schema/activities';
+import * as schema from '../db/schema';
+
+export type NotificationPreferences = InferModel<typeof notificationPreferences>;
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+export type UpdateNotificationPreferencesParams = Partial<Pick<
+  NotificationPreferences,
+  'emailEnabled' | 'shares' | 'uploads' | 'digest'
+>>;
+
+/**
+ * A user who may receive notification email, with their preferences
+ * (null when they never changed the defaults)
+ */
+export interface NotificationRecipient {
+  userId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  preferences: NotificationPreferences | null;
+}
+
+/**
+ * An activity for a digest, with the names needed to describe it
+ */
+export interface DigestActivity {
+  id: string;
+  action: string;
+  roomId: string;
+  roomName: string;
+  companyId: string;
+  fileId: string | null;
+  metadata: string | null;
+  actorName: string | null;
+  actorEmail: string;
+  createdAt: Date;
+}
+
+export interface RoomWatch {
+  roomId: string;
+  roomName: string;
+  createdAt: Date;
+}
+
+/**
+ * Email notification preferences and room watches
+ */
+@injectable()
+export class NotificationRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('NotificationRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  async findPreferences(userId: string): Promise<NotificationPreferences | null> {
+    try {
+      const db = this.getDb();
+      const [preferences] = await db
+        .select()
+        .from(notificationPreferences)
+        .where(eq(notificationPreferences.userId, userId));
+      return preferences || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find notification preferences', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update a user's preferences
+   */
+  async upsertPreferences(userId: string, data: UpdateNotificationPreferencesParams): Promise<NotificationPreferences> {
+    try {
+      const db = this.getDb();
+      await db
+        .insert(notificationPreferences)
+        .values({ userId, ...data })
+        .onDuplicateKeyUpdate({ set: { ...data, updatedAt: new Date() } });
+
+      return (await this.findPreferences(userId))!;
+    } catch (error: any) {
+      this.logger.error('Failed to save notification preferences', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Users by email address, for addressing notifications to known users
+   */
+  async findRecipientsByEmail(emails: string[]): Promise<NotificationRecipient[]> {
+    if (emails.length === 0) {
+      return [];
+    }
+
+    try {
+      return await this.recipientQuery().where(inArray(users.email, emails));
+    } catch (error: any) {
+      this.logger.error('Failed to find notification recipients', { error });
+      throw error;
+    }
+  }
+
+  async findRecipient(userId: string): Promise<NotificationRecipient | null> {
+    try {
+      const [recipient] = await this.recipientQuery().where(eq(users.id, userId));
+      return recipient || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find notification recipient', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Users watching a room
+   */
+  async findRoomWatchers(roomId: string): Promise<NotificationRecipient[]> {
+    try {
+      return await this.recipientQuery()
+        .innerJoin(roomWatches, eq(roomWatches.userId, users.id))
+        .where(eq(roomWatches.roomId, roomId));
+    } catch (error: any) {
+      this.logger.error('Failed to find room watchers', { roomId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Users with the given digest frequency whose last digest was sent before
+   * `sentBefore` (or never)
+   */
+  async findDigestRecipients(frequency: DigestFrequency, sentBefore: Date, limit: number): Promise<NotificationRecipient[]> {
+    try {
+      return await this.recipientQuery()
+        .where(
+          and(
+            eq(notificationPreferences.digest, frequency),
+            eq(notificationPreferences.emailEnabled, true),
+            or(isNull(notificationPreferences.lastDigestAt), lt(notificationPreferences.lastDigestAt, sentBefore))
+          )
+        )
+        .orderBy(asc(notificationPreferences.userId))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find digest recipients', { frequency, error });
+      throw error;
+    }
+  }
+
+  async markDigestSent(userId: string, sentAt: Date): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(notificationPreferences)
+        .set({ lastDigestAt: sentAt })
+        .where(eq(notificationPreferences.userId, userId));
+    } catch (error: any) {
+      this.logger.error('Failed to record digest', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * The name and company of a room, for notification content
+   */
+  async findRoom(roomId: string): Promise<{ id: string; name: string; companyId: string } | null> {
+    try {
+      const db = this.getDb();
+      const [room] = await db
+        .select({ id: rooms.id, name: rooms.name, companyId: rooms.companyId })
+        .from(rooms)
+        .where(eq(rooms.id, roomId));
+      return room || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find room', { roomId, error });
+      throw error;
+    }
+  }
+
+  async listWatches(userId: string): Promise<RoomWatch[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select({
+          roomId: roomWatches.roomId,
+          roomName: rooms.name,
+          createdAt: roomWatches.createdAt
+        })
+        .from(roomWatches)
+        .innerJoin(rooms, eq(rooms.id, roomWatches.roomId))
+        .where(eq(roomWatches.userId, userId))
+        .orderBy(asc(rooms.name));
+    } catch (error: any) {
+      this.logger.error('Failed to list room watches', { userId, error });
+      throw error;
+    }
+  }
+
+  async findWatchedRoomIds(userId: string): Promise<string[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({ roomId: roomWatches.roomId })
+        .from(roomWatches)
+        .where(eq(roomWatches.userId, userId));
+      return rows.map(row => row.roomId);
+    } catch (error: any) {
+      this.logger.error('Failed to find watched rooms', { userId, error });
+      throw error;
+    }
+  }
+
+  async addWatch(userId: string, roomId: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .insert(roomWatches)
+        .values({ userId, roomId })
+        .onDuplicateKeyUpdate({ set: { userId: sql`${roomWatches.userId}` } });
+    } catch (error: any) {
+      this.logger.error('Failed to watch room', { userId, roomId, error });
+      throw error;
+    }
+  }
+
+  async removeWatch(userId: string, roomId: string): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .delete(roomWatches)
+        .where(and(eq(roomWatches.userId, userId), eq(roomWatches.roomId, roomId)));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to unwatch room', { userId, roomId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Other users' activity in the given rooms during a period, newest first
+   */
+  async findRoomActivities(
+    roomIds: string[],
+    since: Date,
+    until: Date,
+    excludeUserId: string,
+    limit: number
+  ): Promise<DigestActivity[]> {
+    if (roomIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({
+          id: activities.id,
+          action: activities.action,
+          roomId: rooms.id,
+          roomName: rooms.name,
+          companyId: rooms.companyId,
+          fileId: activities.fileId,
+          metadata: activities.metadata,
+          actorFirstName: users.firstName,
+          actorLastName: users.lastName,
+          actorEmail: users.email,
+          createdAt: activities.createdAt
+        })
+        .from(activities)
+        .innerJoin(rooms, eq(rooms.id, activities.roomId))
+        .innerJoin(users, eq(users.id, activities.userId))
+        .where(
+          and(
+            inArray(activities.roomId, roomIds),
+            between(activities.createdAt, since, until),
+            ne(activities.userId, excludeUserId)
+          )
+        )
+        .orderBy(desc(activities.createdAt))
+        .limit(limit);
+
+      return rows.map(({ actorFirstName, actorLastName, ...row }) => ({
+        ...row,
+        actorName: [actorFirstName, actorLastName].filter(Boolean).join(' ') || null
+      }));
+    } catch (error: any) {
+      this.logger.error('Failed to find digest activities', { error });
+      throw error;
+    }
+  }
+
+  private recipientQuery() {
+    return this.getDb()
+      .select({
+        userId: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        preferences: notificationPreferences
+      })
+      .from(users)
+      .leftJoin(notificationPreferences, eq(notificationPreferences.userId, users.id))
+      .$dynamic();
+  }
+}
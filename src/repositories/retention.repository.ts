@@ -0,0 +1,224 @@
+// src/repositories/retention.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, eq, gt, isNotNull, lte, sql, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { files, fileVersions, fileShares, fileLogs } from '../db/schema/files';
+import { fileTags } from '../db/schema/tags';
+import { rooms } from '../db/schema/rooms';
+import { users } from '../db/schema/users';
+import { storageStats } from '../db/schema/storage';
+import { companySettings } from '../db/schema/companies';
+import * as schema from '../db/schema';
+
+export type RetentionFile = InferModel<typeof files>;
+
+/**
+ * A file about to expire, with what is needed to warn its uploader
+ */
+export interface ExpiringFile {
+  id: string;
+  name: string;
+  roomId: string;
+  roomName: string;
+  uploadedById: string;
+  uploaderEmail: string;
+  expiresAt: Date;
+}
+
+/**
+ * Finding and removing files that have outlived their retention period
+ */
+@injectable()
+export class RetentionRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('RetentionRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * When a file expires: its own deleteAfter, or for files in P2P rooms
+   * without one, its room's fileExpiryDays after upload
+   */
+  private expiresAt() {
+    return sql<Date | null>`COALESCE(${files.deleteAfter}, CASE WHEN ${rooms.roomType} = 'p2p'
+      THEN DATE_ADD(${files.createdAt}, INTERVAL ${rooms.fileExpiryDays} DAY) END)`;
+  }
+
+  /**
+   * Files that expired at or before the given time, oldest first
+   */
+  async findExpiredFiles(now: Date, limit: number = 100): Promise<RetentionFile[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({ file: files })
+        .from(files)
+        .innerJoin(rooms, eq(rooms.id, files.roomId))
+        .where(and(eq(files.fileType, 'file'), lte(this.expiresAt(), now)))
+        .orderBy(asc(files.createdAt))
+        .limit(limit);
+      return rows.map(row => row.file);
+    } catch (error: any) {
+      this.logger.error('Failed to find expired files', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Files and folders that have been in the trash longer than their company's
+   * trash retention period, or `defaultRetentionDays` if it has none
+   */
+  async findTrashedFiles(now: Date, defaultRetentionDays: number, limit: number = 100): Promise<RetentionFile[]> {
+    try {
+      const db = this.getDb();
+      // Files trashed before deletedAt was recorded fall back to their last update
+      const trashedAt = sql`COALESCE(${files.deletedAt}, ${files.updatedAt})`;
+      const retentionDays = sql`COALESCE(${companySettings.trashRetentionDays}, ${defaultRetentionDays})`;
+
+      const rows = await db
+        .select({ file: files })
+        .from(files)
+        .innerJoin(rooms, eq(rooms.id, files.roomId))
+        .leftJoin(companySettings, eq(companySettings.companyId, rooms.companyId))
+        .where(
+          and(
+            eq(files.isDeleted, true),
+            sql`${trashedAt} <= DATE_SUB(${now}, INTERVAL ${retentionDays} DAY)`
+          )
+        )
+        .orderBy(asc(trashedAt))
+        .limit(limit);
+      return rows.map(row => row.file);
+    } catch (error: any) {
+      this.logger.error('Failed to find trashed files', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Files that are not in the trash and expire after `from` but no later than `until`
+   */
+  async findFilesExpiringBetween(from: Date, until: Date, limit: number = 500): Promise<ExpiringFile[]> {
+    try {
+      const db = this.getDb();
+      const expiresAt = this.expiresAt();
+      const rows = await db
+        .select({
+          id: files.id,
+          name: files.name,
+          roomId: files.roomId,
+          roomName: rooms.name,
+          uploadedById: files.uploadedById,
+          uploaderEmail: users.email,
+          expiresAt
+        })
+        .from(files)
+        .innerJoin(rooms, eq(rooms.id, files.roomId))
+        .innerJoin(users, eq(users.id, files.uploadedById))
+        .where(
+          and(
+            eq(files.fileType, 'file'),
+            eq(files.isDeleted, false),
+            isNotNull(expiresAt),
+            gt(expiresAt, from),
+            lte(expiresAt, until)
+          )
+        )
+        .orderBy(asc(expiresAt))
+        .limit(limit);
+
+      return rows.map(row => ({ ...row, expiresAt: new Date(row.expiresAt as Date) }));
+    } catch (error: any) {
+      this.logger.error('Failed to find expiring files', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Storage keys of all versions of a file
+   */
+  async findVersionKeys(fileId: string): Promise<string[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({ storageKey: fileVersions.storageKey })
+        .from(fileVersions)
+        .where(eq(fileVersions.fileId, fileId));
+      return rows.map(row => row.storageKey);
+    } catch (error: any) {
+      this.logger.error('Failed to find file version keys', { fileId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Data keys a file's versions were encrypted at rest with
+   */
+  async findVersionDataKeyIds(fileId: string): Promise<string[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .selectDistinct({ encryptionKeyId: fileVersions.encryptionKeyId })
+        .from(fileVersions)
+        .where(and(
+          eq(fileVersions.fileId, fileId),
+          eq(fileVersions.encryption, 'server_side'),
+          isNotNull(fileVersions.encryptionKeyId)
+        ));
+      return rows.map(row => row.encryptionKeyId).filter((id): id is string => !!id);
+    } catch (error: any) {
+      this.logger.error('Failed to find file version data keys', { fileId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a file's record along with its versions, shares, tags and logs
+   */
+  async deleteFile(fileId: string): Promise<boolean> {
+    try {
+      const db = this.getDb();
+
+      await db.delete(fileVersions).where(eq(fileVersions.fileId, fileId));
+      await db.delete(fileShares).where(eq(fileShares.fileId, fileId));
+      await db.delete(fileTags).where(eq(fileTags.fileId, fileId));
+      await db.delete(fileLogs).where(eq(fileLogs.fileId, fileId));
+
+      const [result] = await db.delete(files).where(eq(files.id, fileId));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to delete file record', { fileId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Subtract removed files from a storage account's stats
+   */
+  async releaseStorage(storageId: string, bytes: number, fileCount: number): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .insert(storageStats)
+        .values({ storageId, usedSize: 0, fileCount: 0 })
+        .onDuplicateKeyUpdate({
+          set: {
+            usedSize: sql`GREATEST(${storageStats.usedSize} - ${bytes}, 0)`,
+            fileCount: sql`GREATEST(${storageStats.fileCount} - ${fileCount}, 0)`,
+            lastUpdated: new Date()
+          }
+        });
+    } catch (error: any) {
+      this.logger.error('Failed to update storage stats', { storageId, error });
+      throw error;
+    }
+  }
+}
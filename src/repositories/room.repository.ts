@@ -2,7 +2,9 @@ import { injectable, inject } from 'inversify';
 import { Logger } from '../utils/logger';
 import { rooms } from '../db/schema/rooms';
 import { roomMembers } from '../db/schema/room-members';
-import { eq, and } from 'drizzle-orm';
+import { roomAccess } from '../db/schema/access';
+import { companyMembers } from '../db/schema/companies';
+import { eq, and, or, inArray } from 'drizzle-orm';
 import { DrizzleClient } from '../db/drizzle.client';
 
 /**
@@ -38,4 +40,137 @@ export class RoomRepository {
       return false;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get the company a room belongs to
+   */
+  async findCompanyId(roomId: string): Promise<string | null> {
+    try {
+      const db = await this.dbClient.getInstance();
+      
+      const room = await db.query.rooms.findFirst({
+        where: eq(rooms.id, roomId),
+        columns: { companyId: true }
+      });
+      
+      return room?.companyId || null;
+    } catch (error) {
+      this.logger.error('Error finding room company', { roomId, error });
+      throw error;
+    }
+  }
+  
+  /**
+   * Get the IDs of all active rooms in a company that a user can access:
+   * rooms they created, rooms they were granted access to or joined, and
+   * rooms open to the whole company
+   */
+  async findAccessibleRoomIds(companyId: string, userId: string): Promise<string[]> {
+    try {
+      const db = await this.dbClient.getInstance();
+      
+      const accessibleRooms = await db
+        .select({ id: rooms.id })
+        .from(rooms)
+        .where(
+          and(
+            eq(rooms.companyId, companyId),
+            eq(rooms.isActive, true),
+            or(
+              eq(rooms.createdById, userId),
+              eq(rooms.accessLevel, 'company'),
+              inArray(
+                rooms.id,
+                db.select({ roomId: roomAccess.roomId }).from(roomAccess).where(eq(roomAccess.userId, userId))
+              ),
+              inArray(
+                rooms.id,
+                db.select({ roomId: roomMembers.roomId }).from(roomMembers).where(eq(roomMembers.userId, userId))
+              )
+            )
+          )
+        );
+      
+      return accessibleRooms.map(room => room.id);
+    } catch (error) {
+      this.logger.error('Error finding accessible rooms', { companyId, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the IDs of the active rooms a user can access in any company: as in
+   * findAccessibleRoomIds, except rooms open to a whole company only count
+   * for its members
+   */
+  async findAllAccessibleRoomIds(userId: string): Promise<string[]> {
+    try {
+      const db = await this.dbClient.getInstance();
+
+      const accessibleRooms = await db
+        .select({ id: rooms.id })
+        .from(rooms)
+        .where(
+          and(
+            eq(rooms.isActive, true),
+            or(
+              eq(rooms.createdById, userId),
+              and(
+                eq(rooms.accessLevel, 'company'),
+                inArray(
+                  rooms.companyId,
+                  db.select({ companyId: companyMembers.companyId }).from(companyMembers).where(eq(companyMembers.userId, userId))
+                )
+              ),
+              inArray(
+                rooms.id,
+                db.select({ roomId: roomAccess.roomId }).from(roomAccess).where(eq(roomAccess.userId, userId))
+              ),
+              inArray(
+                rooms.id,
+                db.select({ roomId: roomMembers.roomId }).from(roomMembers).where(eq(roomMembers.userId, userId))
+              )
+            )
+          )
+        );
+
+      return accessibleRooms.map(room => room.id);
+    } catch (error) {
+      this.logger.error('Error finding accessible rooms', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's access type in a room (owner, editor or viewer). The room's
+   * creator is always its owner.
+   */
+  async findAccessType(roomId: string, userId: string): Promise<string | null> {
+    try {
+      const db = await this.dbClient.getInstance();
+      
+      const room = await db.query.rooms.findFirst({
+        where: eq(rooms.id, roomId),
+        columns: { createdById: true }
+      });
+      
+      if (!room) {
+        return null;
+      }
+      
+      if (room.createdById === userId) {
+        return 'owner';
+      }
+      
+      const access = await db.query.roomAccess.findFirst({
+        where: and(eq(roomAccess.roomId, roomId), eq(roomAccess.userId, userId)),
+        columns: { accessType: true }
+      });
+      
+      return access?.accessType || null;
+    } catch (error) {
+      this.logger.error('Error finding room access type', { roomId, userId, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,432 @@
+// src/repositories/search.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, count, desc, eq, gte, inArray, like, lt, lte, or, sql, InferModel, SQL } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { savedSearches, searchHistory, fileSearchIndex } from '../db/schema/finder';
+import { files } from '../db/schema/files';
+import * as schema from '../db/schema';
+
+export type SavedSearch = InferModel<typeof savedSearches>;
+export type SearchHistoryEntry = InferModel<typeof searchHistory>;
+export type FileSearchIndexEntry = InferModel<typeof fileSearchIndex>;
+
+export interface CreateSavedSearchParams {
+  userId: string;
+  companyId?: string | null;
+  name: string;
+  searchType: string;
+  searchParams: Record<string, any>;
+  isDefault?: boolean;
+}
+
+export interface CreateSearchHistoryParams {
+  userId: string;
+  searchType: string;
+  searchParams: Record<string, any>;
+  resultCount: number;
+  executionTimeMs?: number;
+}
+
+export interface FileIndexFilters {
+  companyId: string;
+  roomIds: string[];
+  query?: string;
+  mimeTypes?: string[];
+  uploaderIds?: string[];
+  minSize?: number;
+  maxSize?: number;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  tags?: string[];
+}
+
+export interface FileIndexFacetBucket {
+  value: string | null;
+  count: number;
+}
+
+export interface FileIndexFacets {
+  mimeType: FileIndexFacetBucket[];
+  uploader: FileIndexFacetBucket[];
+  room: FileIndexFacetBucket[];
+}
+
+/**
+ * Escape LIKE wildcards so user input only ever matches literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Saved searches, search history and the file search index
+ */
+@injectable()
+export class SearchRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('SearchRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * Create a saved search
+   */
+  async createSavedSearch(data: CreateSavedSearchParams): Promise<SavedSearch> {
+    try {
+      const db = this.getDb();
+      const id = uuidv4();
+
+      await db.insert(savedSearches).values({
+        id,
+        userId: data.userId,
+        companyId: data.companyId || null,
+        name: data.name,
+        searchType: data.searchType,
+        searchParams: JSON.stringify(data.searchParams),
+        isDefault: data.isDefault || false
+      });
+
+      const [search] = await db
+        .select()
+        .from(savedSearches)
+        .where(eq(savedSearches.id, id));
+      return search;
+    } catch (error: any) {
+      this.logger.error('Failed to create saved search', { userId: data.userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a saved search by ID
+   */
+  async findSavedSearchById(id: string): Promise<SavedSearch | null> {
+    try {
+      const db = this.getDb();
+      const [search] = await db
+        .select()
+        .from(savedSearches)
+        .where(eq(savedSearches.id, id));
+      return search || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find saved search', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's saved searches, default first
+   */
+  async listSavedSearches(userId: string, searchType?: string): Promise<SavedSearch[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(savedSearches)
+        .where(
+          and(
+            eq(savedSearches.userId, userId),
+            searchType ? eq(savedSearches.searchType, searchType) : undefined
+          )
+        )
+        .orderBy(desc(savedSearches.isDefault), desc(savedSearches.updatedAt));
+    } catch (error: any) {
+      this.logger.error('Failed to list saved searches', { userId, searchType, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a saved search
+   */
+  async updateSavedSearch(id: string, data: {
+    name?: string;
+    searchParams?: Record<string, any>;
+    isDefault?: boolean;
+  }): Promise<SavedSearch | null> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(savedSearches)
+        .set({
+          name: data.name,
+          searchParams: data.searchParams ? JSON.stringify(data.searchParams) : undefined,
+          isDefault: data.isDefault,
+          updatedAt: new Date()
+        })
+        .where(eq(savedSearches.id, id));
+      return await this.findSavedSearchById(id);
+    } catch (error: any) {
+      this.logger.error('Failed to update saved search', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Clear the default flag on all of a user's saved searches of a type
+   */
+  async clearDefaultSavedSearch(userId: string, searchType: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(savedSearches)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(savedSearches.userId, userId),
+            eq(savedSearches.searchType, searchType),
+            eq(savedSearches.isDefault, true)
+          )
+        );
+    } catch (error: any) {
+      this.logger.error('Failed to clear default saved search', { userId, searchType, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(id: string): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .delete(savedSearches)
+        .where(eq(savedSearches.id, id));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to delete saved search', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record an executed search
+   */
+  async createHistoryEntry(data: CreateSearchHistoryParams): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.insert(searchHistory).values({
+        id: uuidv4(),
+        userId: data.userId,
+        searchType: data.searchType,
+        searchParams: JSON.stringify(data.searchParams),
+        resultCount: data.resultCount,
+        executionTimeMs: data.executionTimeMs ?? null
+      });
+    } catch (error: any) {
+      this.logger.error('Failed to record search history', { userId: data.userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's most recent searches
+   */
+  async listRecentSearches(userId: string, options: {
+    searchType?: string;
+    limit?: number;
+  } = {}): Promise<SearchHistoryEntry[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(searchHistory)
+        .where(
+          and(
+            eq(searchHistory.userId, userId),
+            options.searchType ? eq(searchHistory.searchType, options.searchType) : undefined
+          )
+        )
+        .orderBy(desc(searchHistory.createdAt))
+        .limit(options.limit || 20);
+    } catch (error: any) {
+      this.logger.error('Failed to list recent searches', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Insert or replace a file's search index entry
+   */
+  async upsertFileIndex(entry: FileSearchIndexEntry): Promise<void> {
+    try {
+      const db = this.getDb();
+      const { fileId, ...values } = entry;
+      await db
+        .insert(fileSearchIndex)
+        .values(entry)
+        .onDuplicateKeyUpdate({ set: values });
+    } catch (error: any) {
+      this.logger.error('Failed to index file', { fileId: entry.fileId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove files from the search index
+   */
+  async deleteFileIndex(fileIds: string[]): Promise<void> {
+    if (fileIds.length === 0) {
+      return;
+    }
+
+    try {
+      const db = this.getDb();
+      await db
+        .delete(fileSearchIndex)
+        .where(inArray(fileSearchIndex.fileId, fileIds));
+    } catch (error: any) {
+      this.logger.error('Failed to remove files from search index', { fileIds, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Rooms holding files that are not deleted but missing from the index,
+   * e.g. files created before the index existed
+   */
+  async findRoomsWithUnindexedFiles(limit: number): Promise<string[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .selectDistinct({ roomId: files.roomId })
+        .from(files)
+        .leftJoin(fileSearchIndex, eq(fileSearchIndex.fileId, files.id))
+        .where(and(eq(files.isDeleted, false), sql`${fileSearchIndex.fileId} IS NULL`))
+        .limit(limit);
+      return rows.map(row => row.roomId);
+    } catch (error: any) {
+      this.logger.error('Failed to find rooms with unindexed files', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Search the file index, newest first. `after` is the last entry of the
+   * previous page.
+   */
+  async searchFileIndex(
+    filters: FileIndexFilters,
+    options: { limit: number; after?: { updatedAt: Date; fileId: string } }
+  ): Promise<FileSearchIndexEntry[]> {
+    if (filters.roomIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = this.getDb();
+      const conditions = this.buildFileIndexConditions(filters);
+
+      if (options.after) {
+        conditions.push(
+          or(
+            lt(fileSearchIndex.updatedAt, options.after.updatedAt),
+            and(
+              eq(fileSearchIndex.updatedAt, options.after.updatedAt),
+              lt(fileSearchIndex.fileId, options.after.fileId)
+            )
+          )
+        );
+      }
+
+      return await db
+        .select()
+        .from(fileSearchIndex)
+        .where(and(...conditions))
+        .orderBy(desc(fileSearchIndex.updatedAt), desc(fileSearchIndex.fileId))
+        .limit(options.limit);
+    } catch (error: any) {
+      this.logger.error('Failed to search file index', { companyId: filters.companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Count matching files and group them by mime type, uploader and room
+   */
+  async countFileIndex(filters: FileIndexFilters): Promise<{ total: number; facets: FileIndexFacets }> {
+    const facets: FileIndexFacets = { mimeType: [], uploader: [], room: [] };
+    if (filters.roomIds.length === 0) {
+      return { total: 0, facets };
+    }
+
+    try {
+      const db = this.getDb();
+      const where = and(...this.buildFileIndexConditions(filters));
+
+      const [[totalRow], mimeRows, uploaderRows, roomRows] = await Promise.all([
+        db.select({ count: count() }).from(fileSearchIndex).where(where),
+        db.select({ value: fileSearchIndex.mimeType, count: count() })
+          .from(fileSearchIndex).where(where)
+          .groupBy(fileSearchIndex.mimeType).orderBy(desc(count())),
+        db.select({ value: fileSearchIndex.createdById, count: count() })
+          .from(fileSearchIndex).where(where)
+          .groupBy(fileSearchIndex.createdById).orderBy(desc(count())),
+        db.select({ value: fileSearchIndex.roomId, count: count() })
+          .from(fileSearchIndex).where(where)
+          .groupBy(fileSearchIndex.roomId).orderBy(desc(count()))
+      ]);
+
+      facets.mimeType = mimeRows;
+      facets.uploader = uploaderRows;
+      facets.room = roomRows;
+
+      return { total: totalRow?.count || 0, facets };
+    } catch (error: any) {
+      this.logger.error('Failed to count file index', { companyId: filters.companyId, error });
+      throw error;
+    }
+  }
+
+  private buildFileIndexConditions(filters: FileIndexFilters): (SQL | undefined)[] {
+    const conditions: (SQL | undefined)[] = [
+      eq(fileSearchIndex.companyId, filters.companyId),
+      inArray(fileSearchIndex.roomId, filters.roomIds)
+    ];
+
+    if (filters.query) {
+      conditions.push(like(fileSearchIndex.fileName, `%${escapeLike(filters.query)}%`));
+    }
+
+    if (filters.mimeTypes && filters.mimeTypes.length > 0) {
+      conditions.push(inArray(fileSearchIndex.mimeType, filters.mimeTypes));
+    }
+
+    if (filters.uploaderIds && filters.uploaderIds.length > 0) {
+      conditions.push(inArray(fileSearchIndex.createdById, filters.uploaderIds));
+    }
+
+    if (filters.minSize !== undefined) {
+      conditions.push(gte(fileSearchIndex.fileSize, filters.minSize));
+    }
+
+    if (filters.maxSize !== undefined) {
+      conditions.push(lte(fileSearchIndex.fileSize, filters.maxSize));
+    }
+
+    if (filters.updatedAfter) {
+      conditions.push(gte(fileSearchIndex.updatedAt, filters.updatedAfter));
+    }
+
+    if (filters.updatedBefore) {
+      conditions.push(lte(fileSearchIndex.updatedAt, filters.updatedBefore));
+    }
+
+    // Tags are stored as a JSON array; every requested tag must be present
+    for (const tag of filters.tags || []) {
+      conditions.push(sql`JSON_CONTAINS(${fileSearchIndex.tags}, JSON_QUOTE(${tag}))`);
+    }
+
+    return conditions;
+  }
+}
@@ -25,6 +25,9 @@ const STORAGE_TYPE_MAP: Partial<Record<StorageProviderType, StorageType>> = {
   'dropbox': 'dropbox',
   'azure_blob': 'azure_blob',
   'gcp_storage': 'gcp_storage',
+  'onedrive': 'onedrive',
+  'storj': 'storj',
+  's3_compatible': 's3_compatible',
   'cloud': 'vault' // Map cloud to vault
 };
 
@@ -35,7 +38,10 @@ const REVERSE_STORAGE_TYPE_MAP: Record<StorageType, StorageProviderType> = {
   'gcp_storage': 'gcp_storage',
   'azure_blob': 'azure_blob',
   'dropbox': 'dropbox',
-  'google_drive': 'google_drive'
+  'google_drive': 'google_drive',
+  'onedrive': 'onedrive',
+  'storj': 'storj',
+  's3_compatible': 's3_compatible'
 };
 
 // Helper function to convert database storage type to provider type
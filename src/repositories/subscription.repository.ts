@@ -0,0 +1,234 @@
+// src/repositories/subscription.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, count, desc, eq, ne, sum, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { plans, subscriptions, SUBSCRIPTION_STATUS } from '../db/schema/subscriptions';
+import { companyMembers } from '../db/schema/companies';
+import { rooms } from '../db/schema/rooms';
+import { files } from '../db/schema/files';
+import * as schema from '../db/schema';
+
+export type Plan = InferModel<typeof plans>;
+export type Subscription = InferModel<typeof subscriptions>;
+export type SubscriptionStatus = typeof SUBSCRIPTION_STATUS[number];
+
+export interface CreateSubscriptionParams {
+  companyId: string;
+  planId: string;
+  status: SubscriptionStatus;
+  startDate?: Date;
+  endDate?: Date | null;
+  paymentProviderId?: string | null;
+}
+
+export interface UpdateSubscriptionParams {
+  planId?: string;
+  status?: SubscriptionStatus;
+  endDate?: Date | null;
+  canceledAt?: Date | null;
+  paymentProviderId?: string | null;
+}
+
+/**
+ * Current resource usage of a company, as counted against its plan
+ */
+export interface CompanyUsage {
+  users: number;
+  rooms: number;
+  storage: number;
+}
+
+/**
+ * Plans, company subscriptions and plan usage
+ */
+@injectable()
+export class SubscriptionRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('SubscriptionRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * List plans, cheapest first
+   */
+  async listPlans(activeOnly: boolean = true): Promise<Plan[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(plans)
+        .where(activeOnly ? eq(plans.isActive, true) : undefined)
+        .orderBy(asc(plans.price));
+    } catch (error: any) {
+      this.logger.error('Failed to list plans', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a plan by ID
+   */
+  async findPlanById(id: string): Promise<Plan | null> {
+    try {
+      const db = this.getDb();
+      const [plan] = await db.select().from(plans).where(eq(plans.id, id));
+      return plan || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find plan', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find the active free plan, used for companies without a subscription
+   */
+  async findFreePlan(): Promise<Plan | null> {
+    try {
+      const db = this.getDb();
+      const [plan] = await db
+        .select()
+        .from(plans)
+        .where(and(eq(plans.planType, 'free'), eq(plans.isActive, true)))
+        .orderBy(asc(plans.createdAt))
+        .limit(1);
+      return plan || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find free plan', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a subscription by ID
+   */
+  async findById(id: string): Promise<Subscription | null> {
+    try {
+      const db = this.getDb();
+      const [subscription] = await db.select().from(subscriptions).where(eq(subscriptions.id, id));
+      return subscription || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find subscription', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a subscription by its payment provider ID
+   */
+  async findByPaymentProviderId(paymentProviderId: string): Promise<Subscription | null> {
+    try {
+      const db = this.getDb();
+      const [subscription] = await db
+        .select()
+        .from(subscriptions)
+        .where(eq(subscriptions.paymentProviderId, paymentProviderId));
+      return subscription || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find subscription by payment provider ID', { paymentProviderId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a company's current (not canceled) subscription
+   */
+  async findCurrentByCompany(companyId: string): Promise<Subscription | null> {
+    try {
+      const db = this.getDb();
+      const [subscription] = await db
+        .select()
+        .from(subscriptions)
+        .where(and(eq(subscriptions.companyId, companyId), ne(subscriptions.status, 'canceled')))
+        .orderBy(desc(subscriptions.createdAt))
+        .limit(1);
+      return subscription || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find company subscription', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a subscription
+   */
+  async create(data: CreateSubscriptionParams): Promise<Subscription> {
+    try {
+      const db = this.getDb();
+      const id = uuidv4();
+
+      await db.insert(subscriptions).values({
+        id,
+        companyId: data.companyId,
+        planId: data.planId,
+        status: data.status,
+        startDate: data.startDate || new Date(),
+        endDate: data.endDate || null,
+        paymentProviderId: data.paymentProviderId || null
+      });
+
+      const [subscription] = await db.select().from(subscriptions).where(eq(subscriptions.id, id));
+      return subscription;
+    } catch (error: any) {
+      this.logger.error('Failed to create subscription', { companyId: data.companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a subscription
+   */
+  async update(id: string, data: UpdateSubscriptionParams): Promise<Subscription | null> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(subscriptions)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(subscriptions.id, id));
+      return await this.findById(id);
+    } catch (error: any) {
+      this.logger.error('Failed to update subscription', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Count a company's members, active rooms and stored bytes
+   */
+  async getUsage(companyId: string): Promise<CompanyUsage> {
+    try {
+      const db = this.getDb();
+
+      const [[members], [activeRooms], [storage]] = await Promise.all([
+        db.select({ count: count() })
+          .from(companyMembers)
+          .where(eq(companyMembers.companyId, companyId)),
+        db.select({ count: count() })
+          .from(rooms)
+          .where(and(eq(rooms.companyId, companyId), eq(rooms.isActive, true))),
+        // Trashed files still occupy storage until they are purged
+        db.select({ total: sum(files.size) })
+          .from(files)
+          .innerJoin(rooms, eq(rooms.id, files.roomId))
+          .where(and(eq(rooms.companyId, companyId), eq(files.fileType, 'file')))
+      ]);
+
+      return {
+        users: members?.count || 0,
+        rooms: activeRooms?.count || 0,
+        storage: Number(storage?.total || 0)
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get company usage', { companyId, error });
+      throw error;
+    }
+  }
+}
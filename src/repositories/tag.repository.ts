@@ -0,0 +1,265 @@
+// src/repositories/tag.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, count, eq, inArray, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { tags, fileTags } from '../db/schema/tags';
+import * as schema from '../db/schema';
+
+export type Tag = InferModel<typeof tags>;
+export type FileTag = InferModel<typeof fileTags>;
+
+export interface CreateTagParams {
+  companyId: string;
+  name: string;
+  color?: string | null;
+  createdById: string;
+}
+
+export interface UpdateTagParams {
+  name?: string;
+  color?: string | null;
+}
+
+/**
+ * Company tag definitions and the tags attached to files
+ */
+@injectable()
+export class TagRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('TagRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * Create a tag
+   */
+  async create(data: CreateTagParams): Promise<Tag> {
+    try {
+      const db = this.getDb();
+      const id = uuidv4();
+
+      await db.insert(tags).values({
+        id,
+        companyId: data.companyId,
+        name: data.name,
+        color: data.color || null,
+        createdById: data.createdById
+      });
+
+      const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+      return tag;
+    } catch (error: any) {
+      this.logger.error('Failed to create tag', { companyId: data.companyId, name: data.name, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a tag by ID
+   */
+  async findById(id: string): Promise<Tag | null> {
+    try {
+      const db = this.getDb();
+      const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+      return tag || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find tag', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find tags by ID
+   */
+  async findByIds(ids: string[]): Promise<Tag[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = this.getDb();
+      return await db.select().from(tags).where(inArray(tags.id, ids));
+    } catch (error: any) {
+      this.logger.error('Failed to find tags', { ids, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a company's tag by name
+   */
+  async findByName(companyId: string, name: string): Promise<Tag | null> {
+    try {
+      const db = this.getDb();
+      const [tag] = await db
+        .select()
+        .from(tags)
+        .where(and(eq(tags.companyId, companyId), eq(tags.name, name)));
+      return tag || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find tag by name', { companyId, name, error });
+      throw error;
+    }
+  }
+
+  /**
+   * List a company's tags with the number of files using each
+   */
+  async listByCompany(companyId: string): Promise<(Tag & { fileCount: number })[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({ tag: tags, fileCount: count(fileTags.id) })
+        .from(tags)
+        .leftJoin(fileTags, eq(fileTags.tagId, tags.id))
+        .where(eq(tags.companyId, companyId))
+        .groupBy(tags.id)
+        .orderBy(asc(tags.name));
+
+      return rows.map(row => ({ ...row.tag, fileCount: row.fileCount }));
+    } catch (error: any) {
+      this.logger.error('Failed to list tags', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a tag
+   */
+  async update(id: string, data: UpdateTagParams): Promise<Tag | null> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(tags)
+        .set({
+          name: data.name,
+          color: data.color,
+          updatedAt: new Date()
+        })
+        .where(eq(tags.id, id));
+      return await this.findById(id);
+    } catch (error: any) {
+      this.logger.error('Failed to update tag', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a tag and detach it from all files
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db.delete(fileTags).where(eq(fileTags.tagId, id));
+      await db.delete(tags).where(eq(tags.id, id));
+    } catch (error: any) {
+      this.logger.error('Failed to delete tag', { id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the tags attached to a file
+   */
+  async findByFileId(fileId: string): Promise<Tag[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({ tag: tags })
+        .from(fileTags)
+        .innerJoin(tags, eq(tags.id, fileTags.tagId))
+        .where(eq(fileTags.fileId, fileId))
+        .orderBy(asc(tags.name));
+      return rows.map(row => row.tag);
+    } catch (error: any) {
+      this.logger.error('Failed to find file tags', { fileId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the IDs of all files a tag is attached to
+   */
+  async findFileIdsByTagId(tagId: string): Promise<string[]> {
+    try {
+      const db = this.getDb();
+      const rows = await db
+        .select({ fileId: fileTags.fileId })
+        .from(fileTags)
+        .where(eq(fileTags.tagId, tagId));
+      return rows.map(row => row.fileId);
+    } catch (error: any) {
+      this.logger.error('Failed to find tagged files', { tagId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Attach tags to a file. Tags that are already attached are left as they are.
+   * Returns the IDs of the tags that were newly attached.
+   */
+  async addToFile(fileId: string, tagIds: string[], addedById: string): Promise<string[]> {
+    if (tagIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = this.getDb();
+      const existing = await db
+        .select({ tagId: fileTags.tagId })
+        .from(fileTags)
+        .where(and(eq(fileTags.fileId, fileId), inArray(fileTags.tagId, tagIds)));
+      const existingIds = new Set(existing.map(row => row.tagId));
+      const newIds = tagIds.filter(tagId => !existingIds.has(tagId));
+
+      if (newIds.length > 0) {
+        await db
+          .insert(fileTags)
+          .ignore()
+          .values(newIds.map(tagId => ({ id: uuidv4(), fileId, tagId, addedById })));
+      }
+
+      return newIds;
+    } catch (error: any) {
+      this.logger.error('Failed to add tags to file', { fileId, tagIds, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Detach tags from a file. Returns the IDs of the tags that were removed.
+   */
+  async removeFromFile(fileId: string, tagIds: string[]): Promise<string[]> {
+    if (tagIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = this.getDb();
+      const existing = await db
+        .select({ tagId: fileTags.tagId })
+        .from(fileTags)
+        .where(and(eq(fileTags.fileId, fileId), inArray(fileTags.tagId, tagIds)));
+
+      if (existing.length > 0) {
+        await db
+          .delete(fileTags)
+          .where(and(eq(fileTags.fileId, fileId), inArray(fileTags.tagId, tagIds)));
+      }
+
+      return existing.map(row => row.tagId);
+    } catch (error: any) {
+      this.logger.error('Failed to remove tags from file', { fileId, tagIds, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,208 @@
+// src/repositories/trash.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, desc, eq, inArray, isNull, or, sql, count, InferModel } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/mysql-core';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { files } from '../db/schema/files';
+import { users } from '../db/schema/users';
+import * as schema from '../db/schema';
+
+export type TrashedFile = InferModel<typeof files>;
+
+/**
+ * A trashed file or folder together with who moved it to the trash
+ */
+export interface TrashEntry {
+  id: string;
+  name: string;
+  fileType: TrashedFile['fileType'];
+  mimeType: string | null;
+  size: number;
+  parentId: string | null;
+  uploadedById: string;
+  deletedAt: Date | null;
+  deletedBy: {
+    id: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+}
+
+/**
+ * Files and folders in a room's trash
+ */
+@injectable()
+export class TrashRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('TrashRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  /**
+   * List what was moved to a room's trash, most recently deleted first.
+   * Items inside a trashed folder are left out; they come back with it.
+   */
+  async listByRoom(roomId: string, options: { limit: number; offset: number }): Promise<{
+    items: TrashEntry[];
+    total: number;
+  }> {
+    try {
+      const db = this.getDb();
+      const parent = alias(files, 'parent');
+      const where = and(
+        eq(files.roomId, roomId),
+        eq(files.isDeleted, true),
+        or(isNull(files.parentId), isNull(parent.id), eq(parent.isDeleted, false))
+      );
+
+      const [rows, [{ total }]] = await Promise.all([
+        db
+          .select({
+            file: files,
+            deletedBy: {
+              id: users.id,
+              email: users.email,
+              firstName: users.firstName,
+              lastName: users.lastName
+            }
+          })
+          .from(files)
+          .leftJoin(parent, eq(parent.id, files.parentId))
+          .leftJoin(users, eq(users.id, files.deletedById))
+          .where(where)
+          .orderBy(desc(sql`COALESCE(${files.deletedAt}, ${files.updatedAt})`))
+          .limit(options.limit)
+          .offset(options.offset),
+        db
+          .select({ total: count() })
+          .from(files)
+          .leftJoin(parent, eq(parent.id, files.parentId))
+          .where(where)
+      ]);
+
+      return {
+        items: rows.map(({ file, deletedBy }) => ({
+          id: file.id,
+          name: file.name,
+          fileType: file.fileType,
+          mimeType: file.mimeType,
+          size: file.size,
+          parentId: file.parentId,
+          uploadedById: file.uploadedById,
+          deletedAt: file.deletedAt || file.updatedAt,
+          deletedBy: deletedBy?.id ? deletedBy : null
+        })),
+        total
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to list trash', { roomId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Files and folders of a room by ID, trashed or not
+   */
+  async findInRoom(roomId: string, fileIds: string[]): Promise<TrashedFile[]> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(files)
+        .where(and(eq(files.roomId, roomId), inArray(files.id, fileIds)));
+    } catch (error: any) {
+      this.logger.error('Failed to find files', { roomId, fileIds, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Trashed children of the given folders, however they were trashed
+   */
+  async findTrashedChildren(folderIds: string[]): Promise<TrashedFile[]> {
+    if (folderIds.length === 0) {
+      return [];
+    }
+
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(files)
+        .where(and(inArray(files.parentId, folderIds), eq(files.isDeleted, true)));
+    } catch (error: any) {
+      this.logger.error('Failed to find trashed children', { folderIds, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Items in a room's trash, including items inside trashed folders,
+   * longest trashed first
+   */
+  async findTrashedInRoom(roomId: string, limit: number): Promise<TrashedFile[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(files)
+        .where(and(eq(files.roomId, roomId), eq(files.isDeleted, true)))
+        .orderBy(asc(files.deletedAt), asc(files.id))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find trashed files', { roomId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Number of items in a room's trash, including items inside trashed folders
+   */
+  async countTrashedInRoom(roomId: string): Promise<number> {
+    try {
+      const db = this.getDb();
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(files)
+        .where(and(eq(files.roomId, roomId), eq(files.isDeleted, true)));
+      return total;
+    } catch (error: any) {
+      this.logger.error('Failed to count trashed files', { roomId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Take files out of the trash
+   */
+  async restore(fileIds: string[]): Promise<number> {
+    if (fileIds.length === 0) {
+      return 0;
+    }
+
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(files)
+        .set({ isDeleted: false, deletedAt: null, deletedById: null, trashedWithId: null, updatedAt: new Date() })
+        .where(and(inArray(files.id, fileIds), eq(files.isDeleted, true)));
+      return result.affectedRows;
+    } catch (error: any) {
+      this.logger.error('Failed to restore files', { fileIds, error });
+      throw error;
+    }
+  }
+}
@@ -221,8 +221,29 @@ export class UserRepository {
 
   // Guest user methods
   async createGuestUser(email: string, metadata?: Record<string, any>): Promise<UserModel> {
-    // Implementation needed
-    throw new Error('Method not implemented');
+    try {
+      const db = this.db.getInstance();
+      await db.insert(users).values({
+        email,
+        firstName: metadata?.firstName,
+        lastName: metadata?.lastName,
+        password: '', // Guests sign in through invitations, not passwords
+        role: 'guest',
+        status: 'active',
+        isGuest: true,
+        isOnboarding: false,
+        metadata: metadata || {}
+      });
+      const [user] = await db
+        .select()
+        .from(users)
+        .where(eq(users.email, email))
+        .limit(1);
+      return user;
+    } catch (error: any) {
+      this.logger.error('Failed to create guest user', { email, error: error.message });
+      throw error;
+    }
   }
 
   async convertGuestToUser(guestId: string, password: string): Promise<UserModel> {
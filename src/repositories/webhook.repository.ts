@@ -0,0 +1,363 @@
+// src/repositories/webhook.repository.ts
+import { injectable, inject } from 'inversify';
+import { and, asc, count, desc, eq, lte, sql, InferModel } from 'drizzle-orm';
+import { MySql2Database } from 'drizzle-orm/mysql2';
+import { Logger } from '../utils/logger';
+import { DrizzleClient } from '../db/drizzle.client';
+import { webhookEndpoints, webhookDeliveries, WEBHOOK_DELIVERY_STATUS } from '../db/schema/webhooks';
+import { files } from '../db/schema/files';
+import { rooms } from '../db/schema/rooms';
+import * as schema from '../db/schema';
+
+export type WebhookEndpoint = InferModel<typeof webhookEndpoints>;
+export type WebhookDelivery = InferModel<typeof webhookDeliveries>;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUS[number];
+
+export type CreateWebhookEndpointParams = Pick<
+  WebhookEndpoint,
+  'id' | 'companyId' | 'url' | 'description' | 'secret' | 'events' | 'createdById'
+>;
+
+export type UpdateWebhookEndpointParams = Partial<Pick<
+  WebhookEndpoint,
+  'url' | 'description' | 'events' | 'isActive' | 'consecutiveFailures' | 'disabledAt' | 'disabledReason'
+>>;
+
+export type CreateWebhookDeliveryParams = Pick<
+  WebhookDelivery,
+  'id' | 'endpointId' | 'eventId' | 'eventType' | 'payload' | 'nextAttemptAt'
+> & { redeliveryOf?: string | null };
+
+export type WebhookAttemptResult = Pick<
+  WebhookDelivery,
+  'status' | 'responseStatus' | 'error' | 'durationMs' | 'nextAttemptAt' | 'deliveredAt'
+>;
+
+/**
+ * Company webhook endpoints and their delivery log
+ */
+@injectable()
+export class WebhookRepository {
+  constructor(
+    @inject('DrizzleClient') private drizzleClient: DrizzleClient,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('WebhookRepository');
+  }
+
+  private getDb(): MySql2Database<typeof schema> {
+    return this.drizzleClient.getInstance();
+  }
+
+  async createEndpoint(data: CreateWebhookEndpointParams): Promise<WebhookEndpoint> {
+    try {
+      const db = this.getDb();
+      await db.insert(webhookEndpoints).values(data);
+
+      const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, data.id));
+      return endpoint;
+    } catch (error: any) {
+      this.logger.error('Failed to create webhook endpoint', { companyId: data.companyId, error });
+      throw error;
+    }
+  }
+
+  async findEndpoint(companyId: string, id: string): Promise<WebhookEndpoint | null> {
+    try {
+      const db = this.getDb();
+      const [endpoint] = await db
+        .select()
+        .from(webhookEndpoints)
+        .where(and(eq(webhookEndpoints.companyId, companyId), eq(webhookEndpoints.id, id)));
+      return endpoint || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find webhook endpoint', { companyId, endpointId: id, error });
+      throw error;
+    }
+  }
+
+  async findEndpointById(id: string): Promise<WebhookEndpoint | null> {
+    try {
+      const db = this.getDb();
+      const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+      return endpoint || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find webhook endpoint', { endpointId: id, error });
+      throw error;
+    }
+  }
+
+  async listEndpoints(companyId: string): Promise<WebhookEndpoint[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(webhookEndpoints)
+        .where(eq(webhookEndpoints.companyId, companyId))
+        .orderBy(asc(webhookEndpoints.createdAt));
+    } catch (error: any) {
+      this.logger.error('Failed to list webhook endpoints', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * A company's enabled endpoints
+   */
+  async findActiveEndpoints(companyId: string): Promise<WebhookEndpoint[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(webhookEndpoints)
+        .where(and(eq(webhookEndpoints.companyId, companyId), eq(webhookEndpoints.isActive, true)));
+    } catch (error: any) {
+      this.logger.error('Failed to find active webhook endpoints', { companyId, error });
+      throw error;
+    }
+  }
+
+  async updateEndpoint(id: string, data: UpdateWebhookEndpointParams): Promise<WebhookEndpoint | null> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(webhookEndpoints)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(webhookEndpoints.id, id));
+
+      return await this.findEndpointById(id);
+    } catch (error: any) {
+      this.logger.error('Failed to update webhook endpoint', { endpointId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an endpoint together with its delivery log
+   */
+  async deleteEndpoint(id: string): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      await db.delete(webhookDeliveries).where(eq(webhookDeliveries.endpointId, id));
+      const [result] = await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to delete webhook endpoint', { endpointId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Reset an endpoint's failure count after a successful delivery
+   */
+  async recordEndpointSuccess(id: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(webhookEndpoints)
+        .set({ consecutiveFailures: 0 })
+        .where(and(eq(webhookEndpoints.id, id), sql`${webhookEndpoints.consecutiveFailures} > 0`));
+    } catch (error: any) {
+      this.logger.error('Failed to record webhook success', { endpointId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Count a failed attempt against an endpoint and disable it once it has
+   * failed `disableAfter` times in a row. Returns true if this disabled it.
+   */
+  async recordEndpointFailure(id: string, disableAfter: number, reason: string): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(webhookEndpoints)
+        .set({ consecutiveFailures: sql`${webhookEndpoints.consecutiveFailures} + 1` })
+        .where(eq(webhookEndpoints.id, id));
+
+      const [result] = await db
+        .update(webhookEndpoints)
+        .set({ isActive: false, disabledAt: new Date(), disabledReason: reason, updatedAt: new Date() })
+        .where(
+          and(
+            eq(webhookEndpoints.id, id),
+            eq(webhookEndpoints.isActive, true),
+            sql`${webhookEndpoints.consecutiveFailures} >= ${disableAfter}`
+          )
+        );
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to record webhook failure', { endpointId: id, error });
+      throw error;
+    }
+  }
+
+  async createDeliveries(data: CreateWebhookDeliveryParams[]): Promise<void> {
+    if (data.length === 0) {
+      return;
+    }
+
+    try {
+      const db = this.getDb();
+      await db.insert(webhookDeliveries).values(data);
+    } catch (error: any) {
+      this.logger.error('Failed to create webhook deliveries', { count: data.length, error });
+      throw error;
+    }
+  }
+
+  async findDelivery(endpointId: string, id: string): Promise<WebhookDelivery | null> {
+    try {
+      const db = this.getDb();
+      const [delivery] = await db
+        .select()
+        .from(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.endpointId, endpointId), eq(webhookDeliveries.id, id)));
+      return delivery || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find webhook delivery', { deliveryId: id, error });
+      throw error;
+    }
+  }
+
+  async findDeliveryById(id: string): Promise<WebhookDelivery | null> {
+    try {
+      const db = this.getDb();
+      const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+      return delivery || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find webhook delivery', { deliveryId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * An endpoint's deliveries, newest first
+   */
+  async listDeliveries(endpointId: string, options: {
+    status?: WebhookDeliveryStatus;
+    limit: number;
+    offset: number;
+  }): Promise<{ items: WebhookDelivery[]; total: number }> {
+    try {
+      const db = this.getDb();
+      const where = and(
+        eq(webhookDeliveries.endpointId, endpointId),
+        options.status ? eq(webhookDeliveries.status, options.status) : undefined
+      );
+
+      const [items, [{ total }]] = await Promise.all([
+        db
+          .select()
+          .from(webhookDeliveries)
+          .where(where)
+          .orderBy(desc(webhookDeliveries.createdAt))
+          .limit(options.limit)
+          .offset(options.offset),
+        db.select({ total: count() }).from(webhookDeliveries).where(where)
+      ]);
+
+      return { items, total };
+    } catch (error: any) {
+      this.logger.error('Failed to list webhook deliveries', { endpointId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due
+   */
+  async findDueDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    try {
+      const db = this.getDb();
+      return await db
+        .select()
+        .from(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.status, 'pending'), lte(webhookDeliveries.nextAttemptAt, now)))
+        .orderBy(asc(webhookDeliveries.nextAttemptAt))
+        .limit(limit);
+    } catch (error: any) {
+      this.logger.error('Failed to find due webhook deliveries', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a due delivery for one sender by pushing its next attempt to
+   * `leaseUntil`. Returns false if it is not due or someone else took it.
+   */
+  async claimDelivery(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(webhookDeliveries)
+        .set({ nextAttemptAt: leaseUntil })
+        .where(
+          and(
+            eq(webhookDeliveries.id, id),
+            eq(webhookDeliveries.status, 'pending'),
+            lte(webhookDeliveries.nextAttemptAt, now)
+          )
+        );
+      return result.affectedRows > 0;
+    } catch (error: any) {
+      this.logger.error('Failed to claim webhook delivery', { deliveryId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the outcome of an attempt
+   */
+  async recordAttempt(id: string, attemptedAt: Date, result: WebhookAttemptResult): Promise<void> {
+    try {
+      const db = this.getDb();
+      await db
+        .update(webhookDeliveries)
+        .set({
+          ...result,
+          attempts: sql`${webhookDeliveries.attempts} + 1`,
+          lastAttemptAt: attemptedAt
+        })
+        .where(eq(webhookDeliveries.id, id));
+    } catch (error: any) {
+      this.logger.error('Failed to record webhook attempt', { deliveryId: id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Stop retrying an endpoint's pending deliveries, e.g. once it is disabled
+   */
+  async failPendingDeliveries(endpointId: string, error: string): Promise<number> {
+    try {
+      const db = this.getDb();
+      const [result] = await db
+        .update(webhookDeliveries)
+        .set({ status: 'failed', error, nextAttemptAt: null })
+        .where(and(eq(webhookDeliveries.endpointId, endpointId), eq(webhookDeliveries.status, 'pending')));
+      return result.affectedRows;
+    } catch (error: any) {
+      this.logger.error('Failed to fail pending webhook deliveries', { endpointId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * The company owning the room a file is in
+   */
+  async findFileCompanyId(fileId: string): Promise<string | null> {
+    try {
+      const db = this.getDb();
+      const [row] = await db
+        .select({ companyId: rooms.companyId })
+        .from(files)
+        .innerJoin(rooms, eq(rooms.id, files.roomId))
+        .where(eq(files.id, fileId));
+      return row?.companyId || null;
+    } catch (error: any) {
+      this.logger.error('Failed to find file company', { fileId, error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,200 @@
+// src/services/activity/_tests_/activity-export.service.test.ts
+import { Readable } from 'stream';
+import { ActivityExportService } from '../activity-export.service';
+import { parseExportOptions } from '../activity-export';
+import { createTestLogger, InMemoryActivityExportRepository } from '../../../tests/helpers';
+
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/activity-export.repository', () => ({ ActivityExportRepository: class {} }));
+jest.mock('../../storage/storage.service', () => ({ StorageService: class {} }));
+jest.mock('../../websocket/websocket.service', () => ({ WebSocketService: class {} }));
+jest.mock('../../company/company.service', () => ({ CompanyService: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../file/file-encryption.service', () => ({ FileEncryptionService: class {} }));
+jest.mock('../../../config/env', () => ({ env: { ACTIVITY_EXPORT_RETENTION_DAYS: 7 } }));
+
+const logger = createTestLogger();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ActivityExportService', () => {
+  let repository: InMemoryActivityExportRepository;
+  let storageService: Record<string, jest.Mock>;
+  let provider: { deleteFile: jest.Mock; getSignedUrl: jest.Mock };
+  let wsService: { publishToUser: jest.Mock };
+  let companyRepository: { getSettings: jest.Mock };
+  let fileEncryption: Record<string, jest.Mock>;
+  let service: ActivityExportService;
+  let uploaded: string;
+
+  const actor: any = { id: 'user-1', role: 'admin' };
+  const filter = { companyId: 'company-1', startDate: new Date('2024-03-01T00:00:00Z') };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = new InMemoryActivityExportRepository();
+    repository.activities = [{
+      id: 'act-1',
+      action: 'upload',
+      userId: 'user-2',
+      fileId: 'file-1',
+      roomId: 'room-1',
+      companyId: 'company-1',
+      ipAddress: null,
+      userAgent: null,
+      metadata: null,
+      createdAt: new Date('2024-03-10T12:30:00Z')
+    }];
+    uploaded = '';
+    provider = {
+      deleteFile: jest.fn().mockResolvedValue({ success: true }),
+      getSignedUrl: jest.fn().mockResolvedValue({ success: true, url: 'https://storage.example.com/export' })
+    };
+    storageService = {
+      getDefaultStorageAccount: jest.fn().mockResolvedValue({ id: 'storage-1', storageType: 's3' }),
+      getStorageAccount: jest.fn().mockResolvedValue({ id: 'storage-1', storageType: 's3' }),
+      getStorageProvider: jest.fn().mockResolvedValue(provider),
+      uploadFile: jest.fn().mockImplementation(async (storageId: string, folder: string, fileName: string, content: any) => {
+        for await (const chunk of content) {
+          uploaded += chunk.toString();
+        }
+        return { key: folder === '/' ? 'drive-file-id' : `${folder}/${fileName}` };
+      })
+    };
+    wsService = { publishToUser: jest.fn().mockResolvedValue(undefined) };
+    companyRepository = { getSettings: jest.fn().mockResolvedValue(null) };
+    const dataKey = { id: 'key-1', key: Buffer.alloc(32), chunkSize: 64 * 1024 };
+    fileEncryption = {
+      createDataKey: jest.fn().mockResolvedValue(dataKey),
+      getDataKey: jest.fn().mockResolvedValue(dataKey),
+      deleteDataKey: jest.fn().mockResolvedValue(undefined),
+      discardDataKey: jest.fn().mockResolvedValue(undefined),
+      // Stands in for the cipher by reversing each chunk
+      encrypt: jest.fn(async function* (content: AsyncIterable<Buffer>) {
+        for await (const chunk of content) {
+          yield Buffer.from(chunk).reverse();
+        }
+      }),
+      encryptedSize: jest.fn((size: number) => size),
+      openStream: jest.fn(async () => ({ stream: Readable.from(['id,action\n']), contentLength: 10 }))
+    };
+    service = new ActivityExportService(
+      repository as any,
+      storageService as any,
+      wsService as any,
+      companyRepository as any,
+      fileEncryption as any,
+      logger
+    );
+  });
+
+  it('should queue an export for the worker rather than run it in the request', async () => {
+    const job = await service.startExport(actor, filter, parseExportOptions({}));
+
+    expect(job.status).toBe('pending');
+    expect(storageService.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should write a queued export through the storage service and tell the requester', async () => {
+    const job = await service.startExport(actor, filter, parseExportOptions({}));
+
+    await expect(service.processExports()).resolves.toEqual({ ran: 1, removed: 0 });
+
+    expect(storageService.uploadFile).toHaveBeenCalledWith(
+      'storage-1',
+      'exports/activity',
+      `activity-export-${job.id}.csv`,
+      expect.anything(),
+      expect.objectContaining({ contentType: expect.stringContaining('text/csv'), contentLength: uploaded.length })
+    );
+    expect(uploaded).toContain('act-1,upload');
+    expect(repository.exports[0]).toMatchObject({
+      status: 'completed',
+      storageKey: `exports/activity/activity-export-${job.id}.csv`,
+      rowCount: 1
+    });
+    expect(wsService.publishToUser).toHaveBeenCalledWith('user-1', 'activity:export', { exportId: job.id, status: 'completed' });
+  });
+
+  it('should keep the key Google Drive gives the export', async () => {
+    storageService.getStorageAccount.mockResolvedValue({ id: 'storage-1', storageType: 'google_drive' });
+    await service.startExport(actor, filter, parseExportOptions({}));
+
+    await service.processExports();
+
+    expect(storageService.uploadFile.mock.calls[0][1]).toBe('/');
+    expect(repository.exports[0].storageKey).toBe('drive-file-id');
+  });
+
+  it('should not run an export another worker claimed', async () => {
+    await service.startExport(actor, filter, parseExportOptions({}));
+    jest.spyOn(repository, 'claim').mockResolvedValue(false);
+
+    await expect(service.processExports()).resolves.toEqual({ ran: 0, removed: 0 });
+    expect(storageService.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should give up on an export whose worker keeps stopping', async () => {
+    const job = await service.startExport(actor, filter, parseExportOptions({}));
+    Object.assign(repository.exports[0], { status: 'running', attempts: 3, claimedUntil: new Date(Date.now() - 1000) });
+
+    await service.processExports();
+
+    expect(storageService.uploadFile).not.toHaveBeenCalled();
+    expect(repository.exports[0]).toMatchObject({ status: 'failed', error: 'The export was interrupted too many times' });
+    expect(wsService.publishToUser).toHaveBeenCalledWith('user-1', 'activity:export', { exportId: job.id, status: 'failed' });
+  });
+
+  it('should encrypt the exports of companies that encrypt at rest and serve them through the server', async () => {
+    companyRepository.getSettings.mockResolvedValue({ security: { encryptAtRest: true } });
+    const job = await service.startExport(actor, filter, parseExportOptions({}));
+
+    await service.processExports();
+
+    expect(fileEncryption.createDataKey).toHaveBeenCalledWith('company-1');
+    expect(uploaded).not.toContain('act-1,upload');
+    expect(repository.exports[0]).toMatchObject({ status: 'completed', encryptionKeyId: 'key-1' });
+
+    const dto = await service.getExport(job.id);
+    expect(dto.downloadUrl).toBe(`/api/activities/exports/${job.id}/download`);
+    expect(provider.getSignedUrl).not.toHaveBeenCalled();
+
+    const download = await service.openDownload(job.id);
+    expect(download).toMatchObject({ contentLength: 10, fileName: `activity-export-${job.id}.csv` });
+    expect(fileEncryption.openStream).toHaveBeenCalledWith(
+      provider,
+      `exports/activity/activity-export-${job.id}.csv`,
+      expect.objectContaining({ id: 'key-1' }),
+      repository.exports[0].size
+    );
+  });
+
+  it('should discard the data key of an export that failed to upload', async () => {
+    companyRepository.getSettings.mockResolvedValue({ security: { encryptAtRest: true } });
+    storageService.uploadFile.mockRejectedValue(new Error('Storage unavailable'));
+    await service.startExport(actor, filter, parseExportOptions({}));
+
+    await service.processExports();
+
+    expect(repository.exports[0]).toMatchObject({ status: 'failed', error: 'Storage unavailable' });
+    expect(fileEncryption.discardDataKey).toHaveBeenCalledWith('key-1');
+  });
+
+  it('should delete expired exports from storage and keep ones whose file could not be deleted', async () => {
+    const now = new Date();
+    const old = new Date(now.getTime() - 8 * DAY_MS);
+    repository.exports = [
+      { id: 'old-1', status: 'completed', storageId: 'storage-1', storageKey: 'exports/activity/old-1.csv', encryptionKeyId: 'key-old-1', completedAt: old },
+      { id: 'old-2', status: 'completed', storageId: 'storage-1', storageKey: 'exports/activity/old-2.csv', completedAt: old },
+      { id: 'failed', status: 'failed', storageId: 'storage-1', storageKey: null, completedAt: old },
+      { id: 'recent', status: 'completed', storageId: 'storage-1', storageKey: 'exports/activity/recent.csv', completedAt: now }
+    ];
+    provider.deleteFile.mockImplementation(async (key: string) => ({ success: !key.includes('old-2') }));
+
+    await expect(service.processExports(now)).resolves.toEqual({ ran: 0, removed: 2 });
+
+    expect(provider.deleteFile.mock.calls.map(([key]) => key)).toEqual(['exports/activity/old-1.csv', 'exports/activity/old-2.csv']);
+    expect(repository.exports.map(e => e.id)).toEqual(['old-2', 'recent']);
+    expect(fileEncryption.deleteDataKey).toHaveBeenCalledWith('key-old-1');
+  });
+});
@@ -0,0 +1,92 @@
+// src/services/activity/_tests_/activity-export.test.ts
+import {
+  createActivityFormatter,
+  formatTimestamp,
+  parseExportFilter,
+  parseExportOptions,
+  ExportableActivity
+} from '../activity-export';
+import { ValidationError } from '../../../utils/errors';
+
+describe('Activity export formats', () => {
+  const activity: ExportableActivity = {
+    id: 'act-1',
+    action: 'upload',
+    userId: 'user-1',
+    fileId: 'file-1',
+    roomId: null,
+    companyId: 'company-1',
+    ipAddress: '10.0.0.1',
+    userAgent: null,
+    metadata: '{"name":"report, final.pdf","note":"a=b|c"}',
+    createdAt: new Date('2024-03-10T12:30:00.250Z')
+  };
+
+  it('should default to the original CSV columns in UTC', () => {
+    const formatter = createActivityFormatter(parseExportOptions({}));
+
+    expect(formatter.header()).toBe('ID,Type,User ID,File ID,Room ID,Company ID,IP Address,Timestamp,Metadata\r\n');
+    expect(formatter.row(activity)).toBe(
+      'act-1,upload,user-1,file-1,,company-1,10.0.0.1,2024-03-10T12:30:00.250Z,"{""name"":""report, final.pdf"",""note"":""a=b|c""}"\r\n'
+    );
+  });
+
+  it('should write selected columns as JSON lines with parsed metadata', () => {
+    const formatter = createActivityFormatter(parseExportOptions({
+      format: 'jsonl',
+      columns: 'id,createdAt,metadata',
+      timeZone: 'America/New_York'
+    }));
+
+    expect(formatter.header()).toBe('');
+    expect(JSON.parse(formatter.row(activity))).toEqual({
+      id: 'act-1',
+      createdAt: '2024-03-10T08:30:00.250-04:00',
+      metadata: { name: 'report, final.pdf', note: 'a=b|c' }
+    });
+  });
+
+  it('should escape CEF extension values and label custom strings', () => {
+    const formatter = createActivityFormatter(parseExportOptions({
+      format: 'cef',
+      columns: ['action', 'fileId', 'roomId', 'createdAt', 'metadata']
+    }));
+
+    expect(formatter.row(activity)).toBe(
+      'CEF:0|Bridge|Bridge Server|1.0|upload|upload|3|act=upload cs1=file-1 cs1Label=fileId ' +
+      `rt=${activity.createdAt.getTime()} msg={"name":"report, final.pdf","note":"a\\=b|c"}\n`
+    );
+  });
+
+  it('should wrap CEF in an RFC 5424 syslog header', () => {
+    const formatter = createActivityFormatter(parseExportOptions({ format: 'syslog', columns: ['action'] }));
+
+    expect(formatter.row({ ...activity, action: 'password_change' })).toMatch(
+      /^<132>1 2024-03-10T12:30:00\.250Z \S+ bridge-server - - - CEF:0\|Bridge\|Bridge Server\|1\.0\|password_change\|password change\|7\|act=password_change\n$/
+    );
+  });
+
+  it('should format timestamps with the zone offset', () => {
+    const date = new Date('2024-07-01T23:15:05.007Z');
+
+    expect(formatTimestamp(date, 'UTC')).toBe('2024-07-01T23:15:05.007Z');
+    expect(formatTimestamp(date, 'Asia/Kolkata')).toBe('2024-07-02T04:45:05.007+05:30');
+  });
+
+  it('should reject unknown formats, columns and time zones', () => {
+    expect(() => parseExportOptions({ format: 'xml' })).toThrow(ValidationError);
+    expect(() => parseExportOptions({ columns: ['id', 'password'] })).toThrow(ValidationError);
+    expect(() => parseExportOptions({ timeZone: 'Mars/Olympus' })).toThrow(ValidationError);
+  });
+
+  it('should require a company and parse filter dates', () => {
+    expect(() => parseExportFilter({})).toThrow(ValidationError);
+    expect(() => parseExportFilter({ companyId: 'company-1', types: ['teleport'] })).toThrow(ValidationError);
+
+    expect(parseExportFilter({ companyId: 'company-1', startDate: '2024-01-01T00:00:00Z', types: ['upload'] })).toEqual({
+      companyId: 'company-1',
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      types: ['upload']
+    });
+  });
+});
@@ -0,0 +1,207 @@
+// src/services/activity/_tests_/activity.service.test.ts
+import { ActivityService } from '../activity.service';
+import { activities } from '../../../db/schema/activities';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../db/drizzle.client', () => ({ DrizzleClient: class {} }));
+jest.mock('../../websocket/websocket.service', () => ({ WebSocketService: class {} }));
+jest.mock('../../webhook/webhook.service', () => ({ WebhookService: class {} }));
+jest.mock('../../notification/notification.service', () => ({ NotificationService: class {} }));
+jest.mock('../activity-subscription.service', () => ({ ActivitySubscriptionService: class {} }));
+jest.mock('../../company/company.service', () => ({ CompanyService: class {} }));
+jest.mock('../../../db', () => ({ getDb: () => mockDb }));
+
+const logger = createTestLogger();
+
+// Keeps activities the way the table does, as far as the service reads them:
+// selects return the activities subscribers have not been told about, and
+// claims succeed unless told otherwise
+class FakeDb {
+  activities: any[] = [];
+  claims: number[] = [];
+
+  insert() {
+    return {
+      values: async (row: any) => {
+        this.activities.push({ ...row, subscribersNotifiedAt: null, createdAt: new Date() });
+      }
+    };
+  }
+
+  select() {
+    return {
+      from: (table: any) => {
+        const query: any = Promise.resolve(
+          table === activities ? this.activities.filter(activity => !activity.subscribersNotifiedAt) : []
+        );
+        query.where = () => query;
+        query.orderBy = () => query;
+        query.limit = () => query;
+        return query;
+      }
+    };
+  }
+
+  update() {
+    return {
+      set: () => ({
+        where: async () => [{ affectedRows: this.claims.length > 0 ? this.claims.shift() : 1 }]
+      })
+    };
+  }
+}
+
+let mockDb: FakeDb;
+
+describe('ActivityService', () => {
+  let wsService: { broadcastToRoom: jest.Mock; broadcastToUser: jest.Mock; publishToUser: jest.Mock };
+  let webhookService: { publishActivity: jest.Mock; deliver: jest.Mock };
+  let notificationService: { notifyActivity: jest.Mock; sendActivityEmail: jest.Mock; sendDigest: jest.Mock };
+  let subscriptionService: Record<string, jest.Mock>;
+  let service: ActivityService;
+
+  const actor: any = { id: 'user-1', role: 'user' };
+
+  const subscription = (overrides: Record<string, any> = {}) => ({
+    id: 'sub-1',
+    userId: 'user-1',
+    name: 'Activity notifications',
+    channel: 'websocket',
+    frequency: 'immediate',
+    roomIds: [],
+    fileIds: [],
+    actions: [],
+    excludedActions: [],
+    actorIds: [],
+    webhookEndpointId: null,
+    isActive: true,
+    lastDigestAt: null,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb = new FakeDb();
+    wsService = { broadcastToRoom: jest.fn(), broadcastToUser: jest.fn(), publishToUser: jest.fn().mockResolvedValue(undefined) };
+    webhookService = { publishActivity: jest.fn(), deliver: jest.fn() };
+    notificationService = { notifyActivity: jest.fn(), sendActivityEmail: jest.fn(), sendDigest: jest.fn().mockResolvedValue(true) };
+    subscriptionService = {
+      list: jest.fn().mockResolvedValue([]),
+      delete: jest.fn().mockResolvedValue(undefined),
+      create: jest.fn().mockResolvedValue(subscription()),
+      findImmediateRecipients: jest.fn().mockResolvedValue([]),
+      findVisibleRoomIds: jest.fn().mockResolvedValue([]),
+      findDueDigests: jest.fn().mockResolvedValue([]),
+      markDigestSent: jest.fn().mockResolvedValue(undefined)
+    };
+    service = new ActivityService(
+      {} as any,
+      logger,
+      wsService as any,
+      webhookService as any,
+      notificationService as any,
+      subscriptionService as any
+    );
+  });
+
+  it('should leave telling subscribers about a new activity to the worker', async () => {
+    const activity = await service.createActivity({ type: 'upload', userId: 'user-2', roomId: 'room-1' });
+
+    expect(activity).toMatchObject({ action: 'upload', roomId: 'room-1' });
+    expect(subscriptionService.findImmediateRecipients).not.toHaveBeenCalled();
+    expect(wsService.broadcastToRoom).toHaveBeenCalledWith('room-1', 'activity:created', activity);
+  });
+
+  it('should notify subscribers of each pending activity once from the worker', async () => {
+    await service.createActivity({ type: 'upload', userId: 'user-2', roomId: 'room-1' });
+    await service.createActivity({ type: 'rename', userId: 'user-2', roomId: 'room-1' });
+    subscriptionService.findImmediateRecipients.mockResolvedValue([subscription()]);
+    // Another worker claimed the second activity first
+    mockDb.claims = [1, 0];
+
+    const notified = await service.notifyPendingActivities();
+
+    expect(notified).toBe(1);
+    expect(subscriptionService.findImmediateRecipients).toHaveBeenCalledTimes(1);
+    expect(subscriptionService.findImmediateRecipients).toHaveBeenCalledWith(expect.objectContaining({ action: 'upload' }));
+    expect(wsService.publishToUser).toHaveBeenCalledWith('user-1', 'notification:activity', expect.objectContaining({
+      subscriptionId: 'sub-1'
+    }));
+  });
+
+  it('should leave out the activity categories the legacy options turn off', async () => {
+    await service.subscribeToActivities({
+      userId: 'user-1',
+      notifyRoomActivities: false,
+      notifySystemActivities: false,
+      excludedTypes: ['view']
+    }, actor);
+
+    const { excludedActions } = subscriptionService.create.mock.calls[0][1];
+    expect(excludedActions).toEqual(expect.arrayContaining(['view', 'join_room', 'update_permissions', 'login', 'access_denied']));
+    expect(excludedActions).not.toContain('upload');
+  });
+
+  it('should not subscribe when every category is turned off', async () => {
+    subscriptionService.list.mockResolvedValue([subscription()]);
+
+    await service.subscribeToActivities({
+      userId: 'user-1',
+      notifyFileActivities: false,
+      notifyRoomActivities: false,
+      notifySystemActivities: false
+    }, actor);
+
+    expect(subscriptionService.delete).toHaveBeenCalledWith('sub-1', 'user-1');
+    expect(subscriptionService.create).not.toHaveBeenCalled();
+  });
+
+  it('should only remove the legacy subscription when unsubscribing', async () => {
+    subscriptionService.list.mockResolvedValue([
+      subscription(),
+      subscription({ id: 'sub-2', name: 'Contracts room' }),
+      subscription({ id: 'sub-3', name: null })
+    ]);
+
+    await service.unsubscribeFromActivities('user-1');
+
+    expect(subscriptionService.delete).toHaveBeenCalledTimes(1);
+    expect(subscriptionService.delete).toHaveBeenCalledWith('sub-1', 'user-1');
+  });
+
+  it('should query a digest only for rooms the subscriber can access and the chosen actors', async () => {
+    const digest = subscription({
+      channel: 'email',
+      frequency: 'daily',
+      roomIds: ['room-1', 'room-2'],
+      actorIds: ['user-2']
+    });
+    subscriptionService.findDueDigests.mockImplementation(async (frequency: string) => frequency === 'daily' ? [digest] : []);
+    subscriptionService.findVisibleRoomIds.mockResolvedValue(['room-1', 'room-3']);
+    const query = jest.spyOn(service, 'getFilteredActivities').mockResolvedValue([
+      { id: 'act-1', action: 'upload', userId: 'user-2', roomId: 'room-1', metadata: {} }
+    ]);
+
+    await expect(service.sendSubscriptionDigests()).resolves.toBe(1);
+
+    expect(query).toHaveBeenCalledWith(expect.objectContaining({
+      roomIds: ['room-1'],
+      actorIds: ['user-2'],
+      visibleTo: { userId: 'user-1', roomIds: ['room-1'] }
+    }));
+    expect(subscriptionService.markDigestSent).toHaveBeenCalledWith('sub-1', expect.any(Date));
+  });
+
+  it('should not query a room digest when none of its rooms are accessible any more', async () => {
+    const digest = subscription({ channel: 'email', frequency: 'daily', roomIds: ['room-2'] });
+    subscriptionService.findDueDigests.mockImplementation(async (frequency: string) => frequency === 'daily' ? [digest] : []);
+    subscriptionService.findVisibleRoomIds.mockResolvedValue(['room-1']);
+    const query = jest.spyOn(service, 'getFilteredActivities');
+
+    await expect(service.sendSubscriptionDigests()).resolves.toBe(0);
+
+    expect(query).not.toHaveBeenCalled();
+    expect(notificationService.sendDigest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,439 @@
+// src/services/activity/activity-export.service.ts
+import { injectable, inject } from 'inversify';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Logger } from '../../utils/logger';
+import {
+  ActivityExportRepository,
+  ActivityExport,
+  ActivityExportFilter,
+  ActivityCursor
+} from '../../repositories/activity-export.repository';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { StorageService } from '../storage/storage.service';
+import { WebSocketService } from '../websocket/websocket.service';
+import { FileEncryptionService, FileDataKey } from '../file/file-encryption.service';
+import { CompanyActor } from '../company/company.service';
+import { ActivityExportOptions, ActivityFormatter, createActivityFormatter } from './activity-export';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { env } from '../../config/env';
+
+// Activities read from the database per query
+const PAGE_SIZE = 1000;
+// How long a download link to a finished export works
+const DOWNLOAD_URL_TTL_SECONDS = 3600;
+
+// How often the worker runs requested exports and removes old ones
+const WORKER_INTERVAL_MS = 30 * 1000;
+const EXPORT_BATCH_SIZE = 5;
+const CLEANUP_BATCH_SIZE = 100;
+// How long a worker holds an export before another may take it over
+const LEASE_MS = 30 * 60 * 1000;
+// Runs after which an export whose worker keeps stopping is given up on
+const MAX_ATTEMPTS = 3;
+// Where exports go in storage addressed by path
+const EXPORT_FOLDER = 'exports/activity';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What an export was requested with, as kept on the job
+type StoredExportOptions = ActivityExportOptions & { filter: ActivityExportFilter };
+
+export interface ActivityExportDto {
+  id: string;
+  companyId: string;
+  status: ActivityExport['status'];
+  format: string;
+  rowCount: number;
+  size: number;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  downloadUrl?: string;
+}
+
+/**
+ * A finished export's content, decrypted by the server
+ */
+export interface ActivityExportDownload {
+  stream: Readable;
+  contentLength: number;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * Streams activity exports to clients, or has the worker write them to the
+ * company's default storage account and remove them again after
+ * ACTIVITY_EXPORT_RETENTION_DAYS. Exports of companies that encrypt at rest
+ * are stored encrypted and downloaded through the server.
+ */
+@injectable()
+export class ActivityExportService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    @inject('ActivityExportRepository') private exportRepository: ActivityExportRepository,
+    @inject('StorageService') private storageService: StorageService,
+    @inject('WebSocketService') private wsService: WebSocketService,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('FileEncryptionService') private fileEncryption: FileEncryptionService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('ActivityExportService');
+  }
+
+  formatter(options: ActivityExportOptions): ActivityFormatter {
+    return createActivityFormatter(options);
+  }
+
+  /**
+   * The export as a series of text chunks, reading the activities a page at
+   * a time so memory use does not grow with the size of the export
+   */
+  async *stream(
+    filter: ActivityExportFilter,
+    options: ActivityExportOptions,
+    progress: { rows: number } = { rows: 0 }
+  ): AsyncGenerator<string> {
+    const formatter = this.formatter(options);
+    const header = formatter.header();
+    if (header) {
+      yield header;
+    }
+
+    let cursor: ActivityCursor | null = null;
+    for (;;) {
+      const page = await this.exportRepository.findActivityPage(filter, cursor, PAGE_SIZE);
+      if (page.length === 0) {
+        break;
+      }
+
+      yield page.map(activity => formatter.row(activity)).join('');
+      progress.rows += page.length;
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+      const last = page[page.length - 1];
+      cursor = { createdAt: last.createdAt, id: last.id };
+    }
+
+    this.logger.info('Activity logs exported', {
+      companyId: filter.companyId,
+      format: options.format,
+      count: progress.rows
+    });
+  }
+
+  /**
+   * Queue an export to the company's default storage account for the
+   * worker. The requester is told over websocket when it is done.
+   */
+  async startExport(
+    actor: CompanyActor,
+    filter: ActivityExportFilter,
+    options: ActivityExportOptions
+  ): Promise<ActivityExportDto> {
+    try {
+      const storageAccount = await this.storageService.getDefaultStorageAccount(filter.companyId);
+      if (!storageAccount) {
+        throw new ValidationError('The company has no default storage account to write the export to');
+      }
+
+      const id = uuidv4();
+      const job = await this.exportRepository.create({
+        id,
+        companyId: filter.companyId,
+        requestedById: actor.id,
+        format: options.format,
+        options: { filter, ...options },
+        storageId: storageAccount.id,
+        storageKey: null
+      });
+
+      this.logger.info('Activity export queued', { exportId: id, companyId: filter.companyId, userId: actor.id });
+      return this.toDto(job);
+    } catch (error: any) {
+      this.logger.error('Failed to start activity export', { companyId: filter.companyId, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * An export's progress, with a download link once it has finished.
+   * Storage only holds the ciphertext of encrypted exports, so their link
+   * points at the server.
+   */
+  async getExport(id: string): Promise<ActivityExportDto> {
+    const job = await this.exportRepository.findById(id);
+    if (!job) {
+      throw new NotFoundError('Activity export', id);
+    }
+
+    const dto = this.toDto(job);
+    if (job.status === 'completed' && job.encryptionKeyId) {
+      dto.downloadUrl = `/api/activities/exports/${job.id}/download`;
+    } else if (job.status === 'completed' && job.storageId && job.storageKey) {
+      const provider = await this.storageService.getStorageProvider(job.storageId);
+      const urlResult = await provider.getSignedUrl(job.storageKey, {
+        operation: 'read',
+        expiresIn: DOWNLOAD_URL_TTL_SECONDS,
+        responseContentDisposition: `attachment; filename="${this.fileName(job)}"`
+      });
+
+      if (!urlResult.success || !urlResult.url) {
+        throw new Error(urlResult.message || 'Failed to get download URL');
+      }
+      dto.downloadUrl = urlResult.url;
+    }
+
+    return dto;
+  }
+
+  /**
+   * Open a finished encrypted export to send to the client decrypted
+   */
+  async openDownload(id: string): Promise<ActivityExportDownload> {
+    const job = await this.exportRepository.findById(id);
+    if (!job) {
+      throw new NotFoundError('Activity export', id);
+    }
+
+    if (job.status !== 'completed' || !job.storageId || !job.storageKey) {
+      throw new ValidationError('The export has not finished');
+    }
+    if (!job.encryptionKeyId) {
+      throw new ValidationError('The export is downloaded from storage through its download link');
+    }
+
+    const provider = await this.storageService.getStorageProvider(job.storageId);
+    const dataKey = await this.fileEncryption.getDataKey(job.encryptionKeyId);
+    const { stream, contentLength } = await this.fileEncryption.openStream(provider, job.storageKey, dataKey, job.size);
+
+    return {
+      stream,
+      contentLength,
+      contentType: this.formatter(this.settings(job).options).contentType,
+      fileName: this.fileName(job)
+    };
+  }
+
+  /**
+   * Run queued exports, taking over ones whose worker stopped, then remove
+   * exports past their retention. Each export is claimed first, so only one
+   * worker runs it. Runs never overlap.
+   */
+  async processExports(now: Date = new Date()): Promise<{ ran: number; removed: number }> {
+    const result = { ran: 0, removed: 0 };
+
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      for (const job of await this.exportRepository.findDue(now, EXPORT_BATCH_SIZE)) {
+        if (!(await this.exportRepository.claim(job.id, now, new Date(now.getTime() + LEASE_MS)))) {
+          continue;
+        }
+
+        if (job.attempts >= MAX_ATTEMPTS) {
+          await this.fail(job, 'The export was interrupted too many times', 0);
+          continue;
+        }
+
+        await this.run(job);
+        result.ran++;
+      }
+
+      result.removed = await this.removeExpired(now);
+
+      if (result.ran || result.removed) {
+        this.logger.info('Activity export run finished', result);
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Run exports now and then periodically
+   */
+  start(intervalMs: number = WORKER_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.processExports().catch(error => {
+        this.logger.error('Error in scheduled activity export run', { error: error.message });
+      });
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    run();
+
+    this.logger.info('Activity exports scheduled', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Write the export to a temporary file, then upload it through the storage
+   * service so the provider gets its exact length and its own upload method
+   */
+  private async run(job: ActivityExport): Promise<void> {
+    const tempPath = path.join(os.tmpdir(), `activity-export-${job.id}`);
+    const progress = { rows: 0 };
+    let dataKey: FileDataKey | undefined;
+
+    try {
+      const { filter, options } = this.settings(job);
+      const account = await this.storageService.getStorageAccount(job.storageId!);
+      if (!account) {
+        throw new Error('The storage account for the export no longer exists');
+      }
+
+      await pipeline(Readable.from(this.stream(filter, options, progress)), fs.createWriteStream(tempPath));
+      const { size } = await fs.promises.stat(tempPath);
+
+      const settings = await this.companyRepository.getSettings(job.companyId);
+      if (settings?.security?.encryptAtRest === true) {
+        dataKey = await this.fileEncryption.createDataKey(job.companyId);
+      }
+
+      const content = dataKey
+        ? Readable.from(this.fileEncryption.encrypt(fs.createReadStream(tempPath), dataKey))
+        : fs.createReadStream(tempPath);
+
+      // Google Drive takes folder IDs rather than paths, so exports go in its root folder
+      const stored = await this.storageService.uploadFile(
+        account.id,
+        account.storageType === 'google_drive' ? '/' : EXPORT_FOLDER,
+        this.fileName(job),
+        content,
+        {
+          contentType: this.formatter(options).contentType,
+          contentLength: dataKey ? this.fileEncryption.encryptedSize(size, dataKey) : size
+        }
+      );
+
+      await this.exportRepository.update(job.id, {
+        status: 'completed',
+        storageKey: stored.key,
+        encryptionKeyId: dataKey?.id ?? null,
+        rowCount: progress.rows,
+        size,
+        completedAt: new Date()
+      });
+
+      this.logger.info('Activity export completed', { exportId: job.id, rows: progress.rows, size });
+      await this.notifyRequester(job, 'completed');
+    } catch (error: any) {
+      this.logger.error('Activity export failed', { exportId: job.id, error: error.message });
+      if (dataKey) {
+        await this.fileEncryption.discardDataKey(dataKey.id);
+      }
+      await this.fail(job, error.message, progress.rows);
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  private async fail(job: ActivityExport, message: string, rowCount: number): Promise<void> {
+    await this.exportRepository.update(job.id, {
+      status: 'failed',
+      rowCount,
+      error: String(message || 'Export failed').slice(0, 1024),
+      completedAt: new Date()
+    });
+    await this.notifyRequester(job, 'failed');
+  }
+
+  /**
+   * Delete finished exports older than ACTIVITY_EXPORT_RETENTION_DAYS from
+   * storage, then their jobs. The data key of an encrypted export goes first,
+   * so its content is unreadable even where a copy survives. Jobs whose key
+   * or file could not be deleted are kept so the next run tries again.
+   */
+  private async removeExpired(now: Date): Promise<number> {
+    const before = new Date(now.getTime() - env.ACTIVITY_EXPORT_RETENTION_DAYS * DAY_MS);
+    let removed = 0;
+
+    for (const job of await this.exportRepository.findFinishedBefore(before, CLEANUP_BATCH_SIZE)) {
+      try {
+        if (job.encryptionKeyId) {
+          await this.fileEncryption.deleteDataKey(job.encryptionKeyId);
+        }
+
+        if (job.storageKey && job.storageId && await this.storageService.getStorageAccount(job.storageId)) {
+          const provider = await this.storageService.getStorageProvider(job.storageId);
+          const deleted = await provider.deleteFile(job.storageKey);
+          if (!deleted.success) {
+            throw new Error(deleted.message || 'Failed to delete export file');
+          }
+        }
+
+        await this.exportRepository.delete(job.id);
+        removed++;
+      } catch (error: any) {
+        this.logger.warn('Failed to remove expired activity export', { exportId: job.id, error: error.message });
+      }
+    }
+
+    return removed;
+  }
+
+  private async notifyRequester(job: ActivityExport, status: 'completed' | 'failed'): Promise<void> {
+    // This runs in the worker, so the event goes through the servers holding the sockets
+    await this.wsService.publishToUser(job.requestedById, 'activity:export', { exportId: job.id, status }).catch(error => {
+      this.logger.warn('Failed to tell user about activity export', { exportId: job.id, error: error.message });
+    });
+  }
+
+  /**
+   * The filter and options an export was requested with. Dates come back
+   * from the job's JSON as strings.
+   */
+  private settings(job: ActivityExport): { filter: ActivityExportFilter; options: ActivityExportOptions } {
+    const { filter, ...options } = job.options as StoredExportOptions;
+    return {
+      filter: {
+        ...filter,
+        startDate: filter.startDate ? new Date(filter.startDate) : undefined,
+        endDate: filter.endDate ? new Date(filter.endDate) : undefined
+      },
+      options
+    };
+  }
+
+  private fileName(job: ActivityExport): string {
+    return `activity-export-${job.id}.${this.formatter(this.settings(job).options).extension}`;
+  }
+
+  private toDto(job: ActivityExport): ActivityExportDto {
+    return {
+      id: job.id,
+      companyId: job.companyId,
+      status: job.status,
+      format: job.format,
+      rowCount: job.rowCount,
+      size: job.size,
+      error: job.error,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt
+    };
+  }
+}
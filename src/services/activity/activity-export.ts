@@ -0,0 +1,323 @@
+// src/services/activity/activity-export.ts
+import os from 'os';
+import { activities } from '../../db/schema/activities';
+import { ActivityExportFilter } from '../../repositories/activity-export.repository';
+import { ValidationError } from '../../utils/errors';
+
+export const ACTIVITY_EXPORT_FORMATS = ['csv', 'jsonl', 'cef', 'syslog'] as const;
+export type ActivityExportFormat = typeof ACTIVITY_EXPORT_FORMATS[number];
+
+export const ACTIVITY_EXPORT_COLUMNS = [
+  'id',
+  'action',
+  'userId',
+  'fileId',
+  'roomId',
+  'companyId',
+  'ipAddress',
+  'userAgent',
+  'createdAt',
+  'metadata'
+] as const;
+export type ActivityExportColumn = typeof ACTIVITY_EXPORT_COLUMNS[number];
+
+// What the original CSV export contained, in its order
+const DEFAULT_COLUMNS: ActivityExportColumn[] = [
+  'id', 'action', 'userId', 'fileId', 'roomId', 'companyId', 'ipAddress', 'createdAt', 'metadata'
+];
+
+const CSV_HEADERS: Record<ActivityExportColumn, string> = {
+  id: 'ID',
+  action: 'Type',
+  userId: 'User ID',
+  fileId: 'File ID',
+  roomId: 'Room ID',
+  companyId: 'Company ID',
+  ipAddress: 'IP Address',
+  userAgent: 'User Agent',
+  createdAt: 'Timestamp',
+  metadata: 'Metadata'
+};
+
+// CEF extension keys. IDs without a standard key go in labelled custom strings.
+const CEF_KEYS: Record<ActivityExportColumn, { key: string; label?: string }> = {
+  id: { key: 'externalId' },
+  action: { key: 'act' },
+  userId: { key: 'suid' },
+  fileId: { key: 'cs1', label: 'fileId' },
+  roomId: { key: 'cs2', label: 'roomId' },
+  companyId: { key: 'cs3', label: 'companyId' },
+  ipAddress: { key: 'src' },
+  userAgent: { key: 'requestClientApplication' },
+  createdAt: { key: 'rt' },
+  metadata: { key: 'msg' }
+};
+
+// Actions reported to SIEMs at a higher severity
+const HIGH_SEVERITY_ACTIONS = [
+  'login', 'logout', 'password_change', 'admin_action', 'update_permissions', 'delete', 'access_denied'
+];
+
+const CEF_VENDOR = 'Bridge';
+const CEF_PRODUCT = 'Bridge Server';
+const CEF_VERSION = '1.0';
+
+export interface ExportableActivity {
+  id: string;
+  action: string;
+  userId: string;
+  fileId: string | null;
+  roomId: string | null;
+  companyId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: string | null;
+  createdAt: Date;
+}
+
+export interface ActivityExportOptions {
+  format: ActivityExportFormat;
+  columns: ActivityExportColumn[];
+  // IANA time zone timestamps are written in
+  timeZone: string;
+}
+
+/**
+ * Writes activities in one export format, a line at a time
+ */
+export interface ActivityFormatter {
+  contentType: string;
+  extension: string;
+  // Written before the first row, if the format has a header
+  header(): string;
+  row(activity: ExportableActivity): string;
+}
+
+/**
+ * Check and fill in export options taken from a request
+ */
+export function parseExportOptions(input: {
+  format?: unknown;
+  columns?: unknown;
+  timeZone?: unknown;
+}): ActivityExportOptions {
+  const format = input.format === undefined ? 'csv' : input.format;
+  if (typeof format !== 'string' || !ACTIVITY_EXPORT_FORMATS.includes(format as ActivityExportFormat)) {
+    throw new ValidationError(`format must be one of: ${ACTIVITY_EXPORT_FORMATS.join(', ')}`);
+  }
+
+  let columns = DEFAULT_COLUMNS;
+  if (input.columns !== undefined) {
+    const requested = typeof input.columns === 'string' ? input.columns.split(',') : input.columns;
+    if (!Array.isArray(requested) || requested.length === 0) {
+      throw new ValidationError('columns must be a non-empty list');
+    }
+
+    const unknown = requested.filter(column => !ACTIVITY_EXPORT_COLUMNS.includes(column));
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        `Unknown columns: ${unknown.join(', ')}. Available columns: ${ACTIVITY_EXPORT_COLUMNS.join(', ')}`
+      );
+    }
+    columns = [...new Set(requested as ActivityExportColumn[])];
+  }
+
+  const timeZone = input.timeZone === undefined ? 'UTC' : input.timeZone;
+  if (typeof timeZone !== 'string' || !isTimeZone(timeZone)) {
+    throw new ValidationError('timeZone must be an IANA time zone such as UTC or Europe/Paris');
+  }
+
+  return { format: format as ActivityExportFormat, columns, timeZone };
+}
+
+/**
+ * Check the activity filter of an export request. Exports always cover one
+ * company.
+ */
+export function parseExportFilter(input: Record<string, any>): ActivityExportFilter {
+  if (typeof input.companyId !== 'string' || !input.companyId) {
+    throw new ValidationError('Company ID is required');
+  }
+
+  const filter: ActivityExportFilter = { companyId: input.companyId };
+
+  for (const field of ['userId', 'fileId', 'roomId'] as const) {
+    if (input[field] !== undefined) {
+      if (typeof input[field] !== 'string') {
+        throw new ValidationError(`${field} must be a string`);
+      }
+      filter[field] = input[field];
+    }
+  }
+
+  for (const field of ['types', 'excludedTypes'] as const) {
+    if (input[field] !== undefined) {
+      const list = input[field];
+      const actions: readonly string[] = activities.action.enumValues;
+      if (!Array.isArray(list) || list.some(type => !actions.includes(type))) {
+        throw new ValidationError(`${field} must be a list of activity types`);
+      }
+      filter[field] = list;
+    }
+  }
+
+  for (const field of ['startDate', 'endDate'] as const) {
+    if (input[field] !== undefined) {
+      const date = new Date(input[field]);
+      if (Number.isNaN(date.getTime())) {
+        throw new ValidationError(`${field} must be a date`);
+      }
+      filter[field] = date;
+    }
+  }
+
+  return filter;
+}
+
+export function createActivityFormatter(options: ActivityExportOptions): ActivityFormatter {
+  const value = (activity: ExportableActivity, column: ActivityExportColumn): string => {
+    if (column === 'createdAt') {
+      return formatTimestamp(activity.createdAt, options.timeZone);
+    }
+    return activity[column] ?? '';
+  };
+
+  switch (options.format) {
+    case 'csv':
+      return {
+        contentType: 'text/csv; charset=utf-8',
+        extension: 'csv',
+        header: () => options.columns.map(column => csvField(CSV_HEADERS[column])).join(',') + '\r\n',
+        row: activity => options.columns.map(column => csvField(value(activity, column))).join(',') + '\r\n'
+      };
+
+    case 'jsonl':
+      return {
+        contentType: 'application/x-ndjson',
+        extension: 'jsonl',
+        header: () => '',
+        row: activity => JSON.stringify(Object.fromEntries(options.columns.map(column => {
+          if (column === 'metadata') {
+            return [column, parseMetadata(activity.metadata)];
+          }
+          return [column, column === 'createdAt' ? value(activity, column) : activity[column]];
+        }))) + '\n'
+      };
+
+    case 'cef':
+    case 'syslog': {
+      const hostname = os.hostname();
+      return {
+        contentType: 'text/plain; charset=utf-8',
+        extension: options.format === 'cef' ? 'cef' : 'log',
+        header: () => '',
+        row: activity => {
+          const line = cefLine(activity, options.columns);
+          if (options.format === 'cef') {
+            return line + '\n';
+          }
+          // RFC 5424: facility local0 (16), severity notice (5) or warning (4)
+          const priority = 16 * 8 + (HIGH_SEVERITY_ACTIONS.includes(activity.action) ? 4 : 5);
+          const timestamp = formatTimestamp(activity.createdAt, options.timeZone);
+          return `<${priority}>1 ${timestamp} ${hostname} bridge-server - - - ${line}\n`;
+        }
+      };
+    }
+  }
+}
+
+/**
+ * An ISO 8601 timestamp in a time zone, with its offset
+ */
+export function formatTimestamp(date: Date, timeZone: string): string {
+  if (timeZone === 'UTC') {
+    return date.toISOString();
+  }
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  const local = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  const offsetMinutes = Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const offset = `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`;
+  const millis = String(date.getUTCMilliseconds()).padStart(3, '0');
+
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}.${millis}${offset}`;
+}
+
+function cefLine(activity: ExportableActivity, columns: ActivityExportColumn[]): string {
+  const severity = HIGH_SEVERITY_ACTIONS.includes(activity.action) ? 7 : 3;
+  const header = [
+    'CEF:0',
+    CEF_VENDOR,
+    CEF_PRODUCT,
+    CEF_VERSION,
+    activity.action,
+    activity.action.replace(/_/g, ' '),
+    String(severity)
+  ].map(cefHeaderField).join('|');
+
+  const extension = columns.flatMap(column => {
+    const raw = column === 'createdAt' ? String(activity.createdAt.getTime()) : activity[column];
+    if (raw === null || raw === '') {
+      return [];
+    }
+    const { key, label } = CEF_KEYS[column];
+    return [
+      `${key}=${cefExtensionValue(raw)}`,
+      ...(label ? [`${key}Label=${label}`] : [])
+    ];
+  });
+
+  return `${header}|${extension.join(' ')}`;
+}
+
+function cefHeaderField(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+}
+
+function cefExtensionValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/=/g, '\\=')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseMetadata(metadata: string | null): unknown {
+  if (!metadata) {
+    return null;
+  }
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return metadata;
+  }
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,254 @@
+// src/services/activity/activity-subscription.service.ts
+import { injectable, inject } from 'inversify';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import {
+  ActivitySubscriptionRepository,
+  ActivitySubscription,
+  ActivitySubscriptionChannel,
+  ActivitySubscriptionFrequency,
+  SubscribableActivity
+} from '../../repositories/activity-subscription.repository';
+import { RoomRepository } from '../../repositories/room.repository';
+import { FileRepository } from '../../repositories/file.repository';
+import { WebhookService } from '../webhook/webhook.service';
+import { CompanyActor } from '../company/company.service';
+import { activities } from '../../db/schema/activities';
+import {
+  ACTIVITY_SUBSCRIPTION_CHANNELS,
+  ACTIVITY_SUBSCRIPTION_FREQUENCIES
+} from '../../db/schema/activity-subscriptions';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+
+const ACTIVITY_TYPES: readonly string[] = activities.action.enumValues;
+
+// Longest filter list a subscription may have
+const MAX_FILTER_ENTRIES = 100;
+
+export interface ActivitySubscriptionInput {
+  name?: string | null;
+  channel?: ActivitySubscriptionChannel;
+  frequency?: ActivitySubscriptionFrequency;
+  roomIds?: string[];
+  fileIds?: string[];
+  actions?: string[];
+  excludedActions?: string[];
+  actorIds?: string[];
+  webhookEndpointId?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Manages users' activity subscriptions and decides who may receive an
+ * activity: subscribers only hear about rooms they can access, and about
+ * activities outside rooms only when they performed them
+ */
+@injectable()
+export class ActivitySubscriptionService {
+  constructor(
+    @inject('ActivitySubscriptionRepository') private subscriptionRepository: ActivitySubscriptionRepository,
+    @inject('RoomRepository') private roomRepository: RoomRepository,
+    @inject('FileRepository') private fileRepository: FileRepository,
+    @inject('WebhookService') private webhookService: WebhookService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('ActivitySubscriptionService');
+  }
+
+  async list(userId: string): Promise<ActivitySubscription[]> {
+    return this.subscriptionRepository.listByUser(userId);
+  }
+
+  async get(id: string, userId: string): Promise<ActivitySubscription> {
+    const subscription = await this.subscriptionRepository.findById(id);
+    if (!subscription || subscription.userId !== userId) {
+      throw new NotFoundError('Activity subscription', id);
+    }
+    return subscription;
+  }
+
+  async create(actor: CompanyActor, input: ActivitySubscriptionInput): Promise<ActivitySubscription> {
+    try {
+      if (!input.channel) {
+        throw new ValidationError(`channel is required (${ACTIVITY_SUBSCRIPTION_CHANNELS.join(', ')})`);
+      }
+
+      const fields = await this.validate(actor, {
+        name: null,
+        frequency: 'immediate',
+        roomIds: [],
+        fileIds: [],
+        actions: [],
+        excludedActions: [],
+        actorIds: [],
+        webhookEndpointId: null,
+        ...input
+      } as Required<ActivitySubscriptionInput>);
+
+      const subscription = await this.subscriptionRepository.create({ id: uuidv4(), userId: actor.id, ...fields });
+
+      this.logger.info('Activity subscription created', {
+        subscriptionId: subscription.id,
+        userId: actor.id,
+        channel: subscription.channel
+      });
+      return subscription;
+    } catch (error: any) {
+      this.logger.error('Failed to create activity subscription', { userId: actor.id, error });
+      throw error;
+    }
+  }
+
+  async update(id: string, actor: CompanyActor, input: ActivitySubscriptionInput): Promise<ActivitySubscription> {
+    try {
+      const existing = await this.get(id, actor.id);
+
+      const merged = { ...existing, ...this.defined(input) };
+      const fields = await this.validate(actor, merged as Required<ActivitySubscriptionInput>);
+
+      return (await this.subscriptionRepository.update(id, {
+        ...fields,
+        isActive: input.isActive !== undefined ? input.isActive : existing.isActive
+      }))!;
+    } catch (error: any) {
+      this.logger.error('Failed to update activity subscription', { subscriptionId: id, error });
+      throw error;
+    }
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    await this.get(id, userId);
+    await this.subscriptionRepository.delete(id);
+  }
+
+  /**
+   * Immediate subscriptions that should receive an activity
+   */
+  async findImmediateRecipients(activity: SubscribableActivity): Promise<ActivitySubscription[]> {
+    const candidates = await this.subscriptionRepository.findImmediateMatches(activity);
+    const access = new Map<string, boolean>();
+    const recipients: ActivitySubscription[] = [];
+
+    for (const subscription of candidates) {
+      if (!access.has(subscription.userId)) {
+        access.set(subscription.userId, await this.canSee(subscription.userId, activity));
+      }
+      if (access.get(subscription.userId)) {
+        recipients.push(subscription);
+      }
+    }
+
+    return recipients;
+  }
+
+  /**
+   * Whether a user may be told about an activity
+   */
+  async canSee(userId: string, activity: SubscribableActivity): Promise<boolean> {
+    if (!activity.roomId) {
+      return activity.userId === userId;
+    }
+    return this.canAccessRoom(userId, activity.roomId);
+  }
+
+  /**
+   * Rooms whose activities a user may be told about
+   */
+  async findVisibleRoomIds(userId: string): Promise<string[]> {
+    return this.roomRepository.findAllAccessibleRoomIds(userId);
+  }
+
+  async findDueDigests(frequency: 'daily' | 'weekly', sentBefore: Date, limit: number): Promise<ActivitySubscription[]> {
+    return this.subscriptionRepository.findDueDigests(frequency, sentBefore, limit);
+  }
+
+  async markDigestSent(id: string, sentAt: Date): Promise<void> {
+    await this.subscriptionRepository.markDigestSent(id, sentAt);
+  }
+
+  private async validate(actor: CompanyActor, input: Required<ActivitySubscriptionInput>) {
+    if (!ACTIVITY_SUBSCRIPTION_CHANNELS.includes(input.channel)) {
+      throw new ValidationError(`channel must be one of: ${ACTIVITY_SUBSCRIPTION_CHANNELS.join(', ')}`);
+    }
+    if (!ACTIVITY_SUBSCRIPTION_FREQUENCIES.includes(input.frequency)) {
+      throw new ValidationError(`frequency must be one of: ${ACTIVITY_SUBSCRIPTION_FREQUENCIES.join(', ')}`);
+    }
+    if (input.frequency !== 'immediate' && input.channel !== 'email') {
+      throw new ValidationError('Only email subscriptions can be sent as daily or weekly digests');
+    }
+    if (input.name !== null && (typeof input.name !== 'string' || input.name.length > 100)) {
+      throw new ValidationError('name must be a string of at most 100 characters');
+    }
+
+    const roomIds = this.validateList('roomIds', input.roomIds);
+    const fileIds = this.validateList('fileIds', input.fileIds);
+    const actions = this.validateActions('actions', input.actions);
+    const excludedActions = this.validateActions('excludedActions', input.excludedActions);
+    const actorIds = this.validateList('actorIds', input.actorIds);
+
+    for (const roomId of roomIds) {
+      if (!(await this.canAccessRoom(actor.id, roomId))) {
+        throw new AuthorizationError(`You do not have access to room ${roomId}`);
+      }
+    }
+
+    for (const fileId of fileIds) {
+      const file = await this.fileRepository.findById(fileId);
+      if (!file || !(await this.canAccessRoom(actor.id, file.roomId))) {
+        throw new AuthorizationError(`You do not have access to file ${fileId}`);
+      }
+    }
+
+    let webhookEndpointId: string | null = null;
+    if (input.channel === 'webhook') {
+      if (!input.webhookEndpointId) {
+        throw new ValidationError('webhookEndpointId is required for webhook subscriptions');
+      }
+      // Only people who manage a company's webhooks can point subscriptions at them
+      webhookEndpointId = (await this.webhookService.assertCanUseEndpoint(input.webhookEndpointId, actor)).id;
+    }
+
+    return {
+      name: input.name,
+      channel: input.channel,
+      frequency: input.frequency,
+      roomIds,
+      fileIds,
+      actions,
+      excludedActions,
+      actorIds,
+      webhookEndpointId
+    };
+  }
+
+  private validateList(field: string, value: unknown): string[] {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item)) {
+      throw new ValidationError(`${field} must be a list of IDs`);
+    }
+    if (value.length > MAX_FILTER_ENTRIES) {
+      throw new ValidationError(`${field} can have at most ${MAX_FILTER_ENTRIES} entries`);
+    }
+    return [...new Set(value as string[])];
+  }
+
+  private validateActions(field: string, value: unknown): string[] {
+    const list = this.validateList(field, value);
+    const unknown = list.filter(action => !ACTIVITY_TYPES.includes(action));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown activity types in ${field}: ${unknown.join(', ')}`);
+    }
+    return list;
+  }
+
+  private async canAccessRoom(userId: string, roomId: string): Promise<boolean> {
+    const companyId = await this.roomRepository.findCompanyId(roomId);
+    if (!companyId) {
+      return false;
+    }
+    return (await this.roomRepository.findAccessibleRoomIds(companyId, userId)).includes(roomId);
+  }
+
+  private defined(input: ActivitySubscriptionInput): ActivitySubscriptionInput {
+    return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  }
+}
@@ -2,10 +2,15 @@ import { injectable, inject } from 'inversify';
 import { Logger } from '../../utils/logger';
 import { DrizzleClient } from '../../db/drizzle.client';
 import { activities } from '../../db/schema/activities';
-import { eq, and, or, sql, lt, between } from 'drizzle-orm';
+import { eq, and, or, sql, lt, between, inArray, isNull, asc } from 'drizzle-orm';
 import { ValidationError } from '../../utils/errors';
 import { v4 as uuidv4 } from 'uuid';
 import { WebSocketService } from '../websocket/websocket.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { NotificationService } from '../notification/notification.service';
+import { ActivitySubscriptionService } from './activity-subscription.service';
+import { ActivitySubscription } from '../../repositories/activity-subscription.repository';
+import { CompanyActor } from '../company/company.service';
 import { getDb } from '../../db';
 import { users } from '../../db/schema/users';
 import { files } from '../../db/schema/files';
@@ -31,7 +36,9 @@ export type ActivityType =
   | 'copy'
   | 'admin_action'
   | 'system_event'
-  | 'subscription_change';
+  | 'subscription_change'
+  | 'update_tags'
+  | 'access_denied';
 
 export interface CreateActivityDto {
   type: ActivityType;
@@ -55,10 +62,32 @@ export interface ActivityFilter {
   roomId?: string;
   roomIds?: string[];
   companyId?: string;
+  actorIds?: string[];
+  // Only activities in these rooms, or outside rooms and performed by this user
+  visibleTo?: { userId: string; roomIds: string[] };
   limit?: number;
   offset?: number;
 }
 
+// How often due subscription digests are checked for
+const DIGEST_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIGEST_BATCH_SIZE = 100;
+// Most activities read for one subscription digest
+const MAX_DIGEST_ACTIVITIES = 500;
+// How often the worker tells immediate subscribers about new activities
+const NOTIFY_INTERVAL_MS = 5 * 1000;
+const NOTIFY_BATCH_SIZE = 100;
+// Name of the subscription managed through the legacy subscribe endpoint
+const LEGACY_SUBSCRIPTION_NAME = 'Activity notifications';
+
+// Activity types covered by the legacy endpoint's notify* options
+const ACTIVITY_CATEGORIES: Record<'file' | 'room' | 'system', ActivityType[]> = {
+  file: ['upload', 'download', 'share', 'delete', 'restore', 'move', 'rename', 'create_folder', 'view', 'print', 'copy', 'update_tags'],
+  room: ['join_room', 'leave_room', 'update_permissions'],
+  system: ['login', 'logout', 'password_change', 'admin_action', 'system_event', 'subscription_change', 'access_denied']
+};
+
 export interface ActivitySubscriptionOptions {
   userId: string;
   notifyFileActivities?: boolean;
@@ -72,15 +101,20 @@ export interface ActivitySubscriptionOptions {
 
 @injectable()
 export class ActivityService {
-  private userActivitySubscriptions: Map<string, ActivitySubscriptionOptions> = new Map();
-  
+  private digestTimer: NodeJS.Timeout | null = null;
+  private notifyTimer: NodeJS.Timeout | null = null;
+  private sendingDigests = false;
+  private notifying = false;
+
   constructor(
     @inject('DrizzleClient') private db: DrizzleClient,
     @inject('Logger') private logger: Logger,
-    @inject('WebSocketService') private wsService: WebSocketService
+    @inject('WebSocketService') private wsService: WebSocketService,
+    @inject('WebhookService') private webhookService: WebhookService,
+    @inject('NotificationService') private notificationService: NotificationService,
+    @inject('ActivitySubscriptionService') private subscriptionService: ActivitySubscriptionService
   ) {
     this.logger = logger.createChildLogger('ActivityService');
-    this.setupDailyActivitySummaries();
   }
 
   /**
@@ -108,17 +142,17 @@ export class ActivityService {
         .select()
         .from(activities)
         .where(eq(activities.id, activityId));
-        
-      // Process activity for real-time notifications
-      await this.processActivityNotifications(activity);
 
       // Notify relevant users via WebSocket if connected
       if (data.roomId) {
         this.wsService.broadcastToRoom(data.roomId, 'activity:created', activity);
       }
-      
-      // Send targeted notifications to subscribed users
-      await this.notifySubscribedUsers(activity);
+
+      // Immediate subscriptions are notified by the worker (notifyPendingActivities)
+
+      // Forward to the company's webhooks and email watchers without holding up the caller
+      this.webhookService.publishActivity(activity);
+      this.notificationService.notifyActivity(activity);
 
       this.logger.info('Activity created', {
         activityId,
@@ -273,111 +307,46 @@ export class ActivityService {
   }
   
   /**
-   * Export activity logs (for compliance)
+   * Subscribe to activity notifications. Kept for the original subscribe
+   * endpoint: the options replace the subscription it manages, delivered over
+   * websocket when immediate and by email otherwise. File, room and system
+   * activities are included unless their notify* option is false.
    */
-  async exportActivityLogs(filter: ActivityFilter): Promise<string> {
+  async subscribeToActivities(options: ActivitySubscriptionOptions, actor: CompanyActor): Promise<boolean> {
     try {
-      // Create conditions array
-      const conditions = [];
-      
-      // Add filter conditions
-      if (filter.companyId) {
-        conditions.push(eq(activities.companyId, filter.companyId));
-      }
-      
-      if (filter.userId) {
-        conditions.push(eq(activities.userId, filter.userId));
-      }
-      
-      if (filter.fileId) {
-        conditions.push(eq(activities.fileId, filter.fileId));
-      }
-      
-      if (filter.roomId) {
-        conditions.push(eq(activities.roomId, filter.roomId));
-      }
-      
-      if (filter.startDate && filter.endDate) {
-        conditions.push(between(activities.createdAt, filter.startDate, filter.endDate));
-      }
-      
-      // Add type filter if present
-      let typeCondition = null;
-      if (filter.types && filter.types.length > 0) {
-        const typesStr = filter.types.map(t => `'${t}'`).join(',');
-        typeCondition = sql`${activities.action} IN (${sql.raw(typesStr)})`;
-      }
-      
-      // Create a query that includes all conditions
-      let baseQuery;
-      if (conditions.length > 0 && typeCondition) {
-        baseQuery = getDb()
-          .select()
-          .from(activities)
-          .where(and(...conditions, typeCondition));
-      } else if (conditions.length > 0) {
-        baseQuery = getDb()
-          .select()
-          .from(activities)
-          .where(and(...conditions));
-      } else if (typeCondition) {
-        baseQuery = getDb()
-          .select()
-          .from(activities)
-          .where(typeCondition);
-      } else {
-        baseQuery = getDb()
-          .select()
-          .from(activities);
+      const frequency = options.notifyInterval || 'immediate';
+
+      const excludedActions = new Set<ActivityType>(options.excludedTypes || []);
+      const categories = {
+        file: options.notifyFileActivities,
+        room: options.notifyRoomActivities,
+        system: options.notifySystemActivities
+      };
+      for (const [category, notify] of Object.entries(categories)) {
+        if (notify === false) {
+          ACTIVITY_CATEGORIES[category as keyof typeof categories].forEach(type => excludedActions.add(type));
+        }
       }
-      
-      // Get the results ordered by creation date
-      const activityLogs = await baseQuery.orderBy(sql`${activities.createdAt} ASC`);
-      
-      // Define the activity type
-      interface ActivityLog {
-        id: string;
-        action: string;
-        userId: string;
-        fileId: string | null;
-        roomId: string | null;
-        companyId: string | null;
-        ipAddress: string | null;
-        userAgent: string | null;
-        metadata: string | null;
-        createdAt: Date;
+
+      await this.removeLegacySubscriptions(actor.id);
+
+      // Every category switched off leaves nothing to subscribe to
+      if (Object.values(categories).every(notify => notify === false)) {
+        this.logger.info('User turned off all activity notifications', { userId: actor.id });
+        return true;
       }
-      
-      // Convert to CSV format
-      const csvHeader = 'ID,Type,User ID,File ID,Room ID,Company ID,IP Address,Timestamp,Metadata\n';
-      const csvRows = activityLogs.map((activity: ActivityLog) => {
-        return `${activity.id},${activity.action},${activity.userId},${activity.fileId || ''},${activity.roomId || ''},${activity.companyId || ''},${activity.ipAddress || ''},${activity.createdAt.toISOString()},${activity.metadata || ''}\n`;
-      });
-      
-      const csvContent = csvHeader + csvRows.join('');
-      
-      this.logger.info('Activity logs exported', { 
-        count: activityLogs.length,
-        filters: filter 
+
+      await this.subscriptionService.create(actor, {
+        name: LEGACY_SUBSCRIPTION_NAME,
+        channel: frequency === 'immediate' ? 'websocket' : 'email',
+        frequency,
+        roomIds: options.roomIds || [],
+        fileIds: options.fileIds || [],
+        excludedActions: [...excludedActions]
       });
-      
-      return csvContent;
-    } catch (error: any) {
-      this.logger.error('Failed to export activity logs', { error: error.message });
-      throw error;
-    }
-  }
-  
-  /**
-   * Subscribe to activity notifications
-   */
-  async subscribeToActivities(options: ActivitySubscriptionOptions): Promise<boolean> {
-    try {
-      // Store subscription preferences
-      this.userActivitySubscriptions.set(options.userId, options);
-      
+
       this.logger.info('User subscribed to activity notifications', { 
-        userId: options.userId,
+        userId: actor.id,
         options 
       });
       
@@ -389,14 +358,16 @@ export class ActivityService {
   }
   
   /**
-   * Unsubscribe from activity notifications
+   * Unsubscribe from the notifications set up through subscribeToActivities.
+   * Subscriptions created through the subscriptions API are kept.
    */
   async unsubscribeFromActivities(userId: string): Promise<boolean> {
     try {
-      this.userActivitySubscriptions.delete(userId);
+      const removed = await this.removeLegacySubscriptions(userId);
       
       this.logger.info('User unsubscribed from activity notifications', { 
-        userId 
+        userId,
+        removed
       });
       
       return true;
@@ -406,6 +377,143 @@ export class ActivityService {
     }
   }
 
+  private async removeLegacySubscriptions(userId: string): Promise<number> {
+    let removed = 0;
+    for (const subscription of await this.subscriptionService.list(userId)) {
+      if (subscription.name === LEGACY_SUBSCRIPTION_NAME) {
+        await this.subscriptionService.delete(subscription.id, userId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Send the daily and weekly digests of subscriptions that are due
+   */
+  async sendSubscriptionDigests(now: Date = new Date()): Promise<number> {
+    if (this.sendingDigests) {
+      return 0;
+    }
+
+    this.sendingDigests = true;
+    let sent = 0;
+
+    try {
+      for (const frequency of ['daily', 'weekly'] as const) {
+        const period = frequency === 'daily' ? DAY_MS : 7 * DAY_MS;
+        // A little slack so a digest sent slightly late one day is not skipped the next
+        const sentBefore = new Date(now.getTime() - period + DIGEST_INTERVAL_MS);
+
+        for (const subscription of await this.subscriptionService.findDueDigests(frequency, sentBefore, DIGEST_BATCH_SIZE)) {
+          try {
+            const since = subscription.lastDigestAt || new Date(now.getTime() - period);
+            if (await this.generateActivityDigest(subscription, since, now)) {
+              sent++;
+            }
+            await this.subscriptionService.markDigestSent(subscription.id, now);
+          } catch (error: any) {
+            this.logger.error('Failed to send subscription digest', {
+              subscriptionId: subscription.id,
+              error: error.message
+            });
+          }
+        }
+      }
+
+      if (sent > 0) {
+        this.logger.info('Subscription digests sent', { sent });
+      }
+
+      return sent;
+    } finally {
+      this.sendingDigests = false;
+    }
+  }
+
+  /**
+   * Tell immediate subscriptions about activities they have not heard about
+   * yet. Each activity is claimed first, so it is sent once even with several
+   * workers. Runs never overlap.
+   */
+  async notifyPendingActivities(now: Date = new Date()): Promise<number> {
+    if (this.notifying) {
+      return 0;
+    }
+
+    this.notifying = true;
+    let notified = 0;
+
+    try {
+      const db = getDb();
+      const pending = await db
+        .select()
+        .from(activities)
+        .where(isNull(activities.subscribersNotifiedAt))
+        .orderBy(asc(activities.createdAt))
+        .limit(NOTIFY_BATCH_SIZE);
+
+      for (const activity of pending) {
+        const [claimed] = await db
+          .update(activities)
+          .set({ subscribersNotifiedAt: now })
+          .where(and(eq(activities.id, activity.id), isNull(activities.subscribersNotifiedAt)));
+        if (claimed.affectedRows === 0) {
+          continue;
+        }
+
+        const detailedActivity = await this.processActivityNotifications(activity);
+        await this.notifySubscribedUsers(
+          activity,
+          detailedActivity.description || this.generateActivityDescription(detailedActivity)
+        );
+        notified++;
+      }
+
+      return notified;
+    } finally {
+      this.notifying = false;
+    }
+  }
+
+  /**
+   * Check for due subscription digests every hour, and for activities to
+   * tell immediate subscriptions about every few seconds
+   */
+  start(intervalMs: number = DIGEST_INTERVAL_MS, notifyIntervalMs: number = NOTIFY_INTERVAL_MS): void {
+    if (this.digestTimer) {
+      return;
+    }
+
+    const run = () => {
+      this.sendSubscriptionDigests().catch(error => {
+        this.logger.error('Error in scheduled subscription digest run', { error: error.message });
+      });
+    };
+
+    const notify = () => {
+      this.notifyPendingActivities().catch(error => {
+        this.logger.error('Error in scheduled activity notification run', { error: error.message });
+      });
+    };
+
+    this.digestTimer = setInterval(run, intervalMs);
+    this.notifyTimer = setInterval(notify, notifyIntervalMs);
+    run();
+    notify();
+  }
+
+  stop(): void {
+    if (this.digestTimer) {
+      clearInterval(this.digestTimer);
+      this.digestTimer = null;
+    }
+    if (this.notifyTimer) {
+      clearInterval(this.notifyTimer);
+      this.notifyTimer = null;
+    }
+  }
+
   /**
    * Clean up old activities
    */
@@ -426,9 +534,10 @@ export class ActivityService {
   }
   
   /**
-   * Process activity notifications
+   * Process activity notifications, returning the activity with its user,
+   * file, room and description filled in
    */
-  private async processActivityNotifications(activity: any): Promise<void> {
+  private async processActivityNotifications(activity: any): Promise<any> {
     try {
       // Extract metadata if it's a string
       const metadata = typeof activity.metadata === 'string' 
@@ -516,11 +625,14 @@ export class ActivityService {
       
       // Send real-time notification
       this.sendRealTimeNotification(detailedActivity);
+
+      return detailedActivity;
     } catch (error) {
       this.logger.error('Error processing activity notifications', {
         activityId: activity.id,
         error: (error as Error).message
       });
+      return activity;
     }
   }
   
@@ -691,49 +803,53 @@ export class ActivityService {
       case 'subscription_change':
         return `${userName} changed subscription settings`;
       
+      case 'update_tags':
+        return `${userName} updated tags on ${fileName}`;
+      
+      case 'access_denied':
+        return `${userName} was denied access: ${activity.metadata?.reason || 'access policy'}`;
+      
       default:
         return `${userName} performed action: ${activity.action}`;
     }
   }
 
   /**
-   * Generate and send activity digest emails
+   * Generate and send one subscription's activity digest email. Returns
+   * whether an email was sent.
    */
   private async generateActivityDigest(
-    userId: string, 
+    subscription: ActivitySubscription,
     startDate: Date, 
-    endDate: Date, 
-    options: ActivitySubscriptionOptions
-  ): Promise<void> {
+    endDate: Date
+  ): Promise<boolean> {
+    const userId = subscription.userId;
+
     try {
-      // Build filter based on subscription options
-      const filter: ActivityFilter = {
-        userId,
-        startDate,
-        endDate
-      };
-      
-      // Add room filter if specified
-      if (options.roomIds && options.roomIds.length > 0) {
-        filter.roomIds = options.roomIds;
-      }
-      
-      // Add file filter if specified
-      if (options.fileIds && options.fileIds.length > 0) {
-        filter.fileIds = options.fileIds;
-      }
-      
-      // Add excluded types
-      if (options.excludedTypes && options.excludedTypes.length > 0) {
-        filter.excludedTypes = options.excludedTypes;
+      // Only rooms the subscriber can still access, narrowed to the subscription's rooms
+      let roomIds = await this.subscriptionService.findVisibleRoomIds(userId);
+      if (subscription.roomIds.length > 0) {
+        roomIds = roomIds.filter(roomId => subscription.roomIds.includes(roomId));
       }
-      
-      // Fetch activities
-      const activities = await this.getFilteredActivities(filter);
-      
+
+      // Activities outside rooms never match a subscription limited to rooms
+      const activities = subscription.roomIds.length > 0 && roomIds.length === 0
+        ? []
+        : await this.getFilteredActivities({
+          startDate,
+          endDate,
+          roomIds: subscription.roomIds.length > 0 ? roomIds : undefined,
+          fileIds: subscription.fileIds,
+          actorIds: subscription.actorIds,
+          types: subscription.actions as ActivityType[],
+          excludedTypes: subscription.excludedActions as ActivityType[],
+          visibleTo: { userId, roomIds },
+          limit: MAX_DIGEST_ACTIVITIES
+        });
+
       if (activities.length === 0) {
-        this.logger.debug('No activities for digest', { userId });
-        return;
+        this.logger.debug('No activities for digest', { userId, subscriptionId: subscription.id });
+        return false;
       }
       
       // Group activities by type
@@ -752,9 +868,20 @@ export class ActivityService {
         count: acts.length
       }));
       
-      // TODO: Send email with digest
+      const sent = await this.notificationService.sendDigest(userId, {
+        frequency: subscription.frequency === 'weekly' ? 'weekly' : 'daily',
+        since: startDate,
+        until: endDate,
+        total: activities.length,
+        sections: Object.entries(groupedActivities).map(([type, acts]) => ({
+          title: `${type.replace(/_/g, ' ')} (${acts.length})`,
+          lines: acts.slice(0, 20).map(activity => this.generateActivityDescription(activity))
+        }))
+      }, `subscription:${subscription.id}`);
+
       this.logger.info('Activity digest generated', {
         userId,
+        subscriptionId: subscription.id,
         period: `${startDate.toISOString()} to ${endDate.toISOString()}`,
         totalActivities: activities.length,
         summary: summaryCounts
@@ -771,11 +898,15 @@ export class ActivityService {
           createdAt: a.createdAt
         }))
       });
+
+      return sent;
     } catch (error) {
       this.logger.error('Error generating activity digest', {
         userId,
+        subscriptionId: subscription.id,
         error: (error as Error).message
       });
+      return false;
     }
   }
 
@@ -823,6 +954,17 @@ export class ActivityService {
         whereConditions.push(sql`${activities.fileId} IN (${sql.raw(fileIdsStr)})`);
       }
       
+      if (filter.actorIds && filter.actorIds.length > 0) {
+        whereConditions.push(inArray(activities.userId, filter.actorIds));
+      }
+
+      if (filter.visibleTo) {
+        const ownOutsideRooms = and(isNull(activities.roomId), eq(activities.userId, filter.visibleTo.userId));
+        whereConditions.push(filter.visibleTo.roomIds.length > 0
+          ? or(inArray(activities.roomId, filter.visibleTo.roomIds), ownOutsideRooms)
+          : ownOutsideRooms);
+      }
+
       // Activity types
       if (filter.types && filter.types.length > 0) {
         const typesConditions = filter.types.map(type => eq(activities.action, type));
@@ -901,77 +1043,37 @@ export class ActivityService {
   }
 
   /**
-   * Set up daily activity summary emails
+   * Deliver an activity to the immediate subscriptions that match it, over
+   * each subscription's channel
    */
-  private setupDailyActivitySummaries(): void {
-    // Run at midnight every day
-    setInterval(async () => {
-      try {
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        yesterday.setHours(0, 0, 0, 0);
-        
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        
-        // Find users who want daily digests
-        for (const [userId, options] of this.userActivitySubscriptions.entries()) {
-          if (options.notifyInterval === 'daily') {
-            await this.generateActivityDigest(userId, yesterday, today, options);
-          }
-        }
-      } catch (error: any) {
-        this.logger.error('Error sending daily activity summaries', { 
-          error: error.message 
-        });
-      }
-    }, 24 * 60 * 60 * 1000); // Once per day
-  }
-  
-  /**
-   * Notify subscribed users about an activity
-   */
-  private async notifySubscribedUsers(activity: any): Promise<void> {
+  private async notifySubscribedUsers(activity: any, description: string): Promise<void> {
     try {
-      for (const [userId, options] of this.userActivitySubscriptions.entries()) {
-        // Skip immediate notifications for users who prefer digests
-        if (options.notifyInterval !== 'immediate') {
-          continue;
-        }
-        
-        // Check if user should be notified about this type of activity
-        if (options.excludedTypes?.includes(activity.action)) {
-          continue;
-        }
-        
-        let shouldNotify = false;
-        
-        // File activity
-        if (activity.fileId && options.notifyFileActivities) {
-          if (!options.fileIds || options.fileIds.includes(activity.fileId)) {
-            shouldNotify = true;
-          }
-        }
-        
-        // Room activity
-        if (activity.roomId && options.notifyRoomActivities) {
-          if (!options.roomIds || options.roomIds.includes(activity.roomId)) {
-            shouldNotify = true;
-          }
-        }
-        
-        // System activity
-        if (!activity.fileId && !activity.roomId && options.notifySystemActivities) {
-          shouldNotify = true;
-        }
-        
-        if (shouldNotify) {
-          // Send notification to user
-          this.wsService.broadcastToUser(
-            userId,
-            'notification:activity',
-            activity
-          );
+      const subscriptions = await this.subscriptionService.findImmediateRecipients(activity);
+
+      for (const subscription of subscriptions) {
+        const payload = { subscriptionId: subscription.id, activity: { ...activity, description } };
+
+        switch (subscription.channel) {
+          case 'websocket':
+            // This runs in the worker, so the event goes through the servers holding the sockets
+            await this.wsService.publishToUser(subscription.userId, 'notification:activity', payload);
+            break;
+
+          case 'email':
+            // Neither of these throws, so they are not awaited
+            this.notificationService.sendActivityEmail(subscription.userId, {
+              description,
+              subscriptionId: subscription.id,
+              subscriptionName: subscription.name,
+              roomId: activity.roomId
+            });
+            break;
+
+          case 'webhook':
+            if (subscription.webhookEndpointId) {
+              this.webhookService.deliver(subscription.webhookEndpointId, 'activity.subscription', payload);
+            }
+            break;
         }
       }
     } catch (error: any) {
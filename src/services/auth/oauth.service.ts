@@ -5,6 +5,7 @@ import crypto from 'crypto';
 import querystring from 'querystring';
 import { v4 as uuidv4 } from 'uuid';
 import { redisClient } from '../../utils/redis';
+import { ONEDRIVE_SCOPES } from '../storage/credentials';
 
 export interface OAuthProvider {
   name: string;
@@ -334,15 +335,16 @@ export class OAuthService {
       extraParams: { token_access_type: 'offline' }
     });
     
-    // Register OneDrive
+    // Register OneDrive. 'common' accepts both work and personal accounts.
+    const onedriveTenant = process.env.ONEDRIVE_TENANT_ID || 'common';
     this.registerProvider({
       name: 'onedrive',
-      authUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
-      tokenUrl: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+      authUrl: `https://login.microsoftonline.com/${onedriveTenant}/oauth2/v2.0/authorize`,
+      tokenUrl: `https://login.microsoftonline.com/${onedriveTenant}/oauth2/v2.0/token`,
       clientId: process.env.ONEDRIVE_CLIENT_ID || '',
       clientSecret: process.env.ONEDRIVE_CLIENT_SECRET || '',
       redirectUri: `${process.env.API_URL}/api/auth/oauth/callback`,
-      scope: ['files.readwrite', 'offline_access'],
+      scope: ONEDRIVE_SCOPES,
       extraParams: {}
     });
   }
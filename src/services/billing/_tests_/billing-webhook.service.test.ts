@@ -0,0 +1,68 @@
+// src/services/billing/_tests_/billing-webhook.service.test.ts
+import { BillingWebhookService } from '../billing-webhook.service';
+import { BillingEvent, PaymentProviderAdapter } from '../types';
+import { createTestLogger, InMemoryBillingEventRepository } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: {} }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/billing-event.repository', () => ({ BillingEventRepository: class {} }));
+jest.mock('../../subscription/subscription.service', () => ({ SubscriptionService: class {} }));
+
+const logger = createTestLogger();
+
+const event: BillingEvent = {
+  id: 'evt_1',
+  type: 'customer.subscription.updated',
+  kind: 'subscription.updated',
+  occurredAt: new Date(),
+  subscription: { providerId: 'sub_1', companyId: 'company-1', planId: 'plan-1', status: 'active' },
+  payload: {}
+};
+
+const adapter: PaymentProviderAdapter = { name: 'test', parseEvent: () => event };
+
+describe('BillingWebhookService', () => {
+  let repository: InMemoryBillingEventRepository;
+  let subscriptionService: { syncFromProvider: jest.Mock };
+  let service: BillingWebhookService;
+
+  beforeEach(() => {
+    repository = new InMemoryBillingEventRepository();
+    subscriptionService = { syncFromProvider: jest.fn().mockResolvedValue({ id: 'subscription-1' }) };
+    service = new BillingWebhookService(repository as any, subscriptionService as any, logger);
+    service.registerAdapter(adapter);
+  });
+
+  it('should apply an event once when deliveries arrive concurrently', async () => {
+    const results = await Promise.all([
+      service.handleWebhook('test', '{}', {}),
+      service.handleWebhook('test', '{}', {}),
+      service.handleWebhook('test', '{}', {})
+    ]);
+
+    expect(subscriptionService.syncFromProvider).toHaveBeenCalledTimes(1);
+    expect(results.filter(result => !result.duplicate)).toEqual([{ eventId: 'evt_1', status: 'processed', duplicate: false }]);
+  });
+
+  it('should acknowledge redeliveries of a handled event without applying it again', async () => {
+    await service.handleWebhook('test', '{}', {});
+    const again = await service.handleWebhook('test', '{}', {});
+
+    expect(again).toEqual({ eventId: 'evt_1', status: 'processed', duplicate: true });
+    expect(subscriptionService.syncFromProvider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply a failed event again on redelivery', async () => {
+    subscriptionService.syncFromProvider.mockRejectedValueOnce(new Error('database unavailable'));
+
+    await expect(service.handleWebhook('test', '{}', {})).rejects.toThrow('database unavailable');
+    await expect(service.handleWebhook('test', '{}', {})).resolves.toMatchObject({ status: 'processed', duplicate: false });
+  });
+
+  it('should take over a claim that was abandoned', async () => {
+    await repository.record({ eventId: 'evt_1' });
+    Object.assign(repository.events.get('evt_1'), { status: 'processing', claimedAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+    await expect(service.handleWebhook('test', '{}', {})).resolves.toMatchObject({ status: 'processed', duplicate: false });
+  });
+});
@@ -0,0 +1,81 @@
+// src/services/billing/_tests_/stripe.adapter.test.ts
+import { StripeWebhookAdapter, signStripePayload } from '../providers/stripe.adapter';
+import { ValidationError } from '../../../utils/errors';
+
+describe('StripeWebhookAdapter', () => {
+  const secret = 'whsec_test_secret';
+  const now = 1_700_000_000;
+  const adapter = new StripeWebhookAdapter(secret, 300, () => now * 1000);
+
+  const subscriptionEvent = JSON.stringify({
+    id: 'evt_1',
+    type: 'customer.subscription.updated',
+    created: now,
+    data: {
+      object: {
+        id: 'sub_1',
+        status: 'past_due',
+        metadata: { companyId: 'company-1' },
+        items: { data: [{ price: { metadata: { planId: 'plan-1' } } }] }
+      }
+    }
+  });
+
+  it('should parse a correctly signed subscription event', () => {
+    const event = adapter.parseEvent(Buffer.from(subscriptionEvent), {
+      'stripe-signature': signStripePayload(subscriptionEvent, secret, now)
+    });
+
+    expect(event).toMatchObject({
+      id: 'evt_1',
+      type: 'customer.subscription.updated',
+      kind: 'subscription.updated',
+      subscription: {
+        providerId: 'sub_1',
+        companyId: 'company-1',
+        planId: 'plan-1',
+        status: 'past_due'
+      }
+    });
+  });
+
+  it('should map invoice events to their subscription', () => {
+    const payload = JSON.stringify({
+      id: 'evt_2',
+      type: 'invoice.payment_failed',
+      created: now,
+      data: { object: { id: 'in_1', subscription: 'sub_1' } }
+    });
+
+    const event = adapter.parseEvent(payload, {
+      'stripe-signature': signStripePayload(payload, secret, now)
+    });
+
+    expect(event.kind).toBe('payment.failed');
+    expect(event.subscription).toMatchObject({ providerId: 'sub_1' });
+  });
+
+  it('should reject a payload signed with another secret', () => {
+    expect(() => adapter.parseEvent(subscriptionEvent, {
+      'stripe-signature': signStripePayload(subscriptionEvent, 'whsec_other', now)
+    })).toThrow(ValidationError);
+  });
+
+  it('should reject a tampered payload', () => {
+    const signature = signStripePayload(subscriptionEvent, secret, now);
+
+    expect(() => adapter.parseEvent(subscriptionEvent.replace('past_due', 'active'), {
+      'stripe-signature': signature
+    })).toThrow('Invalid webhook signature');
+  });
+
+  it('should reject signatures outside the tolerance window', () => {
+    expect(() => adapter.parseEvent(subscriptionEvent, {
+      'stripe-signature': signStripePayload(subscriptionEvent, secret, now - 301)
+    })).toThrow(ValidationError);
+  });
+
+  it('should reject a missing signature header', () => {
+    expect(() => adapter.parseEvent(subscriptionEvent, {})).toThrow('Missing webhook signature');
+  });
+});
@@ -0,0 +1,72 @@
+// src/services/billing/_tests_/stripe.client.test.ts
+import { StripeCheckoutClient, encodeStripeParams } from '../providers/stripe.client';
+
+describe('encodeStripeParams', () => {
+  it('should flatten nested objects and arrays into bracketed keys', () => {
+    const form = encodeStripeParams({
+      mode: 'subscription',
+      line_items: [{ price: 'price_1', quantity: 1 }],
+      subscription_data: { metadata: { companyId: 'c1' }, trial_period_days: undefined }
+    });
+
+    expect([...form.entries()]).toEqual([
+      ['mode', 'subscription'],
+      ['line_items[0][price]', 'price_1'],
+      ['line_items[0][quantity]', '1'],
+      ['subscription_data[metadata][companyId]', 'c1']
+    ]);
+  });
+});
+
+describe('StripeCheckoutClient', () => {
+  const http = { request: jest.fn() };
+  const client = new StripeCheckoutClient('sk_test', http as any);
+
+  beforeEach(() => http.request.mockReset());
+
+  it('should tag the checkout and its subscription with the company and plan', async () => {
+    http.request.mockResolvedValue({ data: { id: 'cs_1', url: 'https://checkout.example.com/cs_1' } });
+
+    const session = await client.createCheckoutSession({
+      companyId: 'company-1',
+      planId: 'plan-1',
+      priceId: 'price_1',
+      trialDays: 7,
+      successUrl: 'https://app/ok',
+      cancelUrl: 'https://app/cancel'
+    });
+
+    expect(session).toEqual({ id: 'cs_1', url: 'https://checkout.example.com/cs_1' });
+    const { method, url, data } = http.request.mock.calls[0][0];
+    const form = new URLSearchParams(data);
+    expect([method, url]).toEqual(['post', '/checkout/sessions']);
+    expect(form.get('subscription_data[metadata][companyId]')).toBe('company-1');
+    expect(form.get('subscription_data[metadata][planId]')).toBe('plan-1');
+    expect(form.get('subscription_data[trial_period_days]')).toBe('7');
+    expect(form.get('line_items[0][price]')).toBe('price_1');
+  });
+
+  it('should swap the price of the existing subscription item', async () => {
+    http.request
+      .mockResolvedValueOnce({ data: { items: { data: [{ id: 'si_1' }] } } })
+      .mockResolvedValueOnce({ data: {} });
+
+    await client.changeSubscriptionPrice('sub_1', 'price_2', 'plan-2');
+
+    const { url, data } = http.request.mock.calls[1][0];
+    const form = new URLSearchParams(data);
+    expect(url).toBe('/subscriptions/sub_1');
+    expect(form.get('items[0][id]')).toBe('si_1');
+    expect(form.get('items[0][price]')).toBe('price_2');
+    expect(form.get('metadata[planId]')).toBe('plan-2');
+  });
+
+  it('should surface provider errors as bad gateway', async () => {
+    http.request.mockRejectedValue({ response: { data: { error: { message: 'No such price' } } } });
+
+    await expect(client.cancelSubscription('sub_1')).rejects.toMatchObject({
+      statusCode: 502,
+      message: 'Payment provider request failed: No such price'
+    });
+  });
+});
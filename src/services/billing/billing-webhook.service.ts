@@ -0,0 +1,120 @@
+// src/services/billing/billing-webhook.service.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { env } from '../../config/env';
+import { NotFoundError } from '../../utils/errors';
+import { BillingEventRepository, BillingEventStatus } from '../../repositories/billing-event.repository';
+import { SubscriptionService } from '../subscription/subscription.service';
+import { StripeWebhookAdapter } from './providers/stripe.adapter';
+import { BillingEvent, PaymentProviderAdapter, WebhookHeaders } from './types';
+
+// A claimed event not finished within this time is taken to be abandoned
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface WebhookResult {
+  eventId: string;
+  status: BillingEventStatus;
+  duplicate: boolean;
+}
+
+@injectable()
+export class BillingWebhookService {
+  private adapters = new Map<string, PaymentProviderAdapter>();
+
+  constructor(
+    @inject('BillingEventRepository') private billingEventRepository: BillingEventRepository,
+    @inject('SubscriptionService') private subscriptionService: SubscriptionService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('BillingWebhookService');
+
+    if (env.STRIPE_WEBHOOK_SECRET) {
+      this.registerAdapter(
+        new StripeWebhookAdapter(env.STRIPE_WEBHOOK_SECRET, env.BILLING_WEBHOOK_TOLERANCE_SECONDS)
+      );
+    }
+  }
+
+  /**
+   * Register a payment provider adapter under its name
+   */
+  registerAdapter(adapter: PaymentProviderAdapter): void {
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  /**
+   * Verify, store and apply a webhook delivery. Each event is claimed before it
+   * is applied, so concurrent redeliveries apply it only once; events that were
+   * already handled or are being handled are acknowledged without being applied
+   * again. Processing errors are rethrown so the provider retries the delivery.
+   */
+  async handleWebhook(provider: string, rawBody: Buffer | string, headers: WebhookHeaders): Promise<WebhookResult> {
+    const adapter = this.adapters.get(provider);
+    if (!adapter) {
+      throw new NotFoundError('Payment provider', provider);
+    }
+
+    const event = adapter.parseEvent(rawBody, headers);
+
+    const record = await this.billingEventRepository.record({
+      provider,
+      eventId: event.id,
+      eventType: event.type,
+      payload: JSON.stringify(event.payload)
+    });
+
+    if (record.status === 'processed' || record.status === 'ignored') {
+      this.logger.info('Skipping already handled billing event', { provider, eventId: event.id });
+      return { eventId: event.id, status: record.status, duplicate: true };
+    }
+
+    const claimed = await this.billingEventRepository.claim(record.id, new Date(Date.now() - CLAIM_TIMEOUT_MS));
+    if (!claimed) {
+      this.logger.info('Billing event is being handled by another delivery', { provider, eventId: event.id });
+      return { eventId: event.id, status: 'processing', duplicate: true };
+    }
+
+    try {
+      const status = await this.applyEvent(provider, event);
+      await this.billingEventRepository.markStatus(record.id, status);
+
+      this.logger.info('Billing event handled', { provider, eventId: event.id, type: event.type, status });
+      return { eventId: event.id, status, duplicate: false };
+    } catch (error: any) {
+      this.logger.error('Failed to handle billing event', { provider, eventId: event.id, type: event.type, error });
+      await this.billingEventRepository.markStatus(record.id, 'failed', error.message);
+      throw error;
+    }
+  }
+
+  private async applyEvent(provider: string, event: BillingEvent): Promise<BillingEventStatus> {
+    if (event.kind === 'unsupported' || !event.subscription) {
+      return 'ignored';
+    }
+
+    const context = { provider, eventId: event.id, eventType: event.type };
+    let subscription;
+
+    switch (event.kind) {
+      case 'subscription.created':
+      case 'subscription.updated':
+      case 'subscription.canceled':
+        subscription = await this.subscriptionService.syncFromProvider(event.subscription, context);
+        break;
+      case 'payment.succeeded':
+        subscription = await this.subscriptionService.syncFromProvider(
+          { ...event.subscription, status: 'active' },
+          context
+        );
+        break;
+      case 'payment.failed':
+        subscription = await this.subscriptionService.syncFromProvider(
+          { ...event.subscription, status: 'past_due' },
+          context
+        );
+        break;
+    }
+
+    return subscription ? 'processed' : 'ignored';
+  }
+}
@@ -0,0 +1,167 @@
+// src/services/billing/providers/stripe.adapter.ts
+import crypto from 'crypto';
+import { ValidationError } from '../../../utils/errors';
+import { SUBSCRIPTION_STATUS } from '../../../db/schema/subscriptions';
+import {
+  BillingEvent,
+  BillingEventKind,
+  BillingSubscriptionData,
+  PaymentProviderAdapter,
+  WebhookHeaders
+} from '../types';
+
+export const STRIPE_SIGNATURE_HEADER = 'stripe-signature';
+
+const EVENT_KINDS: Record<string, BillingEventKind> = {
+  'customer.subscription.created': 'subscription.created',
+  'customer.subscription.updated': 'subscription.updated',
+  'customer.subscription.deleted': 'subscription.canceled',
+  'invoice.paid': 'payment.succeeded',
+  'invoice.payment_succeeded': 'payment.succeeded',
+  'invoice.payment_failed': 'payment.failed'
+};
+
+/**
+ * Sign a payload the way Stripe does, producing a `Stripe-Signature` header value.
+ * Used to generate test events locally.
+ */
+export function signStripePayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verifies and parses Stripe-compatible webhook events
+ */
+export class StripeWebhookAdapter implements PaymentProviderAdapter {
+  readonly name = 'stripe';
+
+  constructor(
+    private secret: string,
+    private toleranceSeconds: number = 300,
+    private now: () => number = () => Date.now()
+  ) {}
+
+  parseEvent(rawBody: Buffer | string, headers: WebhookHeaders): BillingEvent {
+    const payload = Buffer.isBuffer(rawBody) ? rawBody.toString('utf8') : rawBody;
+    this.verifySignature(payload, headers[STRIPE_SIGNATURE_HEADER]);
+
+    let event: any;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      throw new ValidationError('Invalid webhook payload');
+    }
+
+    if (!event || typeof event.id !== 'string' || typeof event.type !== 'string') {
+      throw new ValidationError('Webhook payload is missing an event ID or type');
+    }
+
+    const kind = EVENT_KINDS[event.type] || 'unsupported';
+
+    return {
+      id: event.id,
+      type: event.type,
+      kind,
+      occurredAt: typeof event.created === 'number' ? new Date(event.created * 1000) : new Date(this.now()),
+      subscription: kind === 'unsupported' ? undefined : this.extractSubscription(kind, event.data?.object),
+      payload: event
+    };
+  }
+
+  private verifySignature(payload: string, header: string | string[] | undefined): void {
+    const value = Array.isArray(header) ? header[0] : header;
+    if (!value) {
+      throw new ValidationError('Missing webhook signature');
+    }
+
+    let timestamp: number | undefined;
+    const signatures: string[] = [];
+
+    for (const part of value.split(',')) {
+      const [key, ...rest] = part.trim().split('=');
+      const partValue = rest.join('=');
+      if (key === 't') {
+        timestamp = Number(partValue);
+      } else if (key === 'v1') {
+        signatures.push(partValue);
+      }
+    }
+
+    if (!timestamp || !Number.isFinite(timestamp) || signatures.length === 0) {
+      throw new ValidationError('Malformed webhook signature');
+    }
+
+    const age = Math.abs(this.now() / 1000 - timestamp);
+    if (age > this.toleranceSeconds) {
+      throw new ValidationError('Webhook signature timestamp is outside the tolerance window');
+    }
+
+    const expected = Buffer.from(
+      crypto.createHmac('sha256', this.secret).update(`${timestamp}.${payload}`).digest('hex')
+    );
+
+    const valid = signatures.some(signature => {
+      const candidate = Buffer.from(signature);
+      return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+    });
+
+    if (!valid) {
+      throw new ValidationError('Invalid webhook signature');
+    }
+  }
+
+  private extractSubscription(kind: BillingEventKind, object: any): BillingSubscriptionData | undefined {
+    if (!object) {
+      return undefined;
+    }
+
+    // Invoice events reference the subscription by ID
+    if (kind === 'payment.succeeded' || kind === 'payment.failed') {
+      const subscriptionId = typeof object.subscription === 'string'
+        ? object.subscription
+        : object.subscription?.id;
+      if (!subscriptionId) {
+        return undefined;
+      }
+
+      const metadata = object.subscription_details?.metadata || object.metadata || {};
+      return {
+        providerId: subscriptionId,
+        companyId: metadata.companyId,
+        planId: metadata.planId
+      };
+    }
+
+    const metadata = object.metadata || {};
+    const priceMetadata = object.items?.data?.[0]?.price?.metadata || {};
+
+    return {
+      providerId: object.id,
+      companyId: metadata.companyId,
+      planId: metadata.planId || priceMetadata.planId,
+      status: kind === 'subscription.canceled' ? 'canceled' : this.mapStatus(object.status)
+    };
+  }
+
+  private mapStatus(status: string | undefined): BillingSubscriptionData['status'] {
+    if (!status) {
+      return undefined;
+    }
+    if ((SUBSCRIPTION_STATUS as readonly string[]).includes(status)) {
+      return status as BillingSubscriptionData['status'];
+    }
+    // The first payment never completed
+    if (status === 'incomplete_expired') {
+      return 'canceled';
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,100 @@
+// src/services/billing/providers/stripe.client.ts
+import axios, { AxiosInstance } from 'axios';
+import { AppError } from '../../../utils/errors';
+import { CheckoutRequest, CheckoutSession, PaymentCheckoutProvider } from '../types';
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+/**
+ * Encode nested parameters the way Stripe's API expects them,
+ * e.g. { metadata: { planId: 'x' } } as metadata[planId]=x
+ */
+export function encodeStripeParams(params: Record<string, any>, prefix?: string, form = new URLSearchParams()): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === 'object') {
+      encodeStripeParams(value, name, form);
+    } else {
+      form.append(name, String(value));
+    }
+  }
+  return form;
+}
+
+/**
+ * Creates checkout sessions and changes subscriptions through Stripe's REST API
+ */
+export class StripeCheckoutClient implements PaymentCheckoutProvider {
+  readonly name = 'stripe';
+  private http: AxiosInstance;
+
+  constructor(secretKey: string, http?: AxiosInstance) {
+    this.http = http || axios.create({
+      baseURL: STRIPE_API_URL,
+      headers: { Authorization: `Bearer ${secretKey}` },
+      timeout: 10000
+    });
+  }
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    // The webhook adapter reads the company and plan from the subscription's metadata
+    const metadata = { companyId: request.companyId, planId: request.planId };
+
+    const session = await this.post('/checkout/sessions', {
+      mode: 'subscription',
+      line_items: [{ price: request.priceId, quantity: 1 }],
+      client_reference_id: request.companyId,
+      customer_email: request.customerEmail,
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      metadata,
+      subscription_data: {
+        metadata,
+        trial_period_days: request.trialDays && request.trialDays > 0 ? request.trialDays : undefined
+      }
+    });
+
+    return { id: session.id, url: session.url };
+  }
+
+  async changeSubscriptionPrice(providerSubscriptionId: string, priceId: string, planId: string): Promise<void> {
+    const subscription = await this.request('get', `/subscriptions/${encodeURIComponent(providerSubscriptionId)}`);
+    const item = subscription.items?.data?.[0];
+    if (!item) {
+      throw new AppError('Payment provider subscription has no items', 502, 'PAYMENT_PROVIDER_ERROR');
+    }
+
+    await this.post(`/subscriptions/${encodeURIComponent(providerSubscriptionId)}`, {
+      items: [{ id: item.id, price: priceId }],
+      metadata: { planId },
+      proration_behavior: 'create_prorations'
+    });
+  }
+
+  async cancelSubscription(providerSubscriptionId: string): Promise<void> {
+    await this.request('delete', `/subscriptions/${encodeURIComponent(providerSubscriptionId)}`);
+  }
+
+  private post(path: string, params: Record<string, any>): Promise<any> {
+    return this.request('post', path, encodeStripeParams(params));
+  }
+
+  private async request(method: 'get' | 'post' | 'delete', path: string, form?: URLSearchParams): Promise<any> {
+    try {
+      const response = await this.http.request({
+        method,
+        url: path,
+        data: form?.toString(),
+        headers: form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : undefined
+      });
+      return response.data;
+    } catch (error: any) {
+      const message = error.response?.data?.error?.message || error.message;
+      throw new AppError(`Payment provider request failed: ${message}`, 502, 'PAYMENT_PROVIDER_ERROR');
+    }
+  }
+}
@@ -0,0 +1,87 @@
+// src/services/billing/types.ts
+import { SUBSCRIPTION_STATUS } from '../../db/schema/subscriptions';
+
+/**
+ * Provider-independent kinds of billing events we act on
+ */
+export type BillingEventKind =
+  | 'subscription.created'
+  | 'subscription.updated'
+  | 'subscription.canceled'
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'unsupported';
+
+/**
+ * Subscription details carried by a billing event
+ */
+export interface BillingSubscriptionData {
+  providerId: string;                      // Provider's subscription ID
+  companyId?: string;                      // From subscription metadata
+  planId?: string;                         // From subscription or price metadata
+  status?: typeof SUBSCRIPTION_STATUS[number];
+}
+
+/**
+ * A verified, normalized event from a payment provider
+ */
+export interface BillingEvent {
+  id: string;                              // Provider's event ID, used for idempotency
+  type: string;                            // Provider's event type
+  kind: BillingEventKind;
+  occurredAt: Date;
+  subscription?: BillingSubscriptionData;
+  payload: any;
+}
+
+/**
+ * A hosted payment page where a company pays for a plan. The subscription is
+ * created by the provider's webhook once payment succeeds.
+ */
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+export interface CheckoutRequest {
+  companyId: string;
+  planId: string;
+  priceId: string;                         // Provider's price for the plan
+  trialDays?: number;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+/**
+ * Starts and changes paid subscriptions at a payment provider. Changes take
+ * effect locally only when the provider reports them through its webhook.
+ */
+export interface PaymentCheckoutProvider {
+  readonly name: string;
+
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+
+  /**
+   * Move a provider subscription to another price
+   */
+  changeSubscriptionPrice(providerSubscriptionId: string, priceId: string, planId: string): Promise<void>;
+
+  cancelSubscription(providerSubscriptionId: string): Promise<void>;
+}
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * A payment provider adapter verifies webhook signatures and normalizes
+ * the provider's payload format into BillingEvents
+ */
+export interface PaymentProviderAdapter {
+  readonly name: string;
+
+  /**
+   * Verify the signature of a raw webhook body and parse it.
+   * Throws ValidationError if the signature or payload is invalid.
+   */
+  parseEvent(rawBody: Buffer | string, headers: WebhookHeaders): BillingEvent;
+}
@@ -0,0 +1,206 @@
+// src/services/company/_tests_/company.service.test.ts
+import { CompanyService } from '../company.service';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../../utils/errors';
+import { createTestLogger, InMemoryCompanyRepository } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: { APP_URL: 'https://app.example.com/' } }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../activity/activity.service', () => ({ ActivityService: class {} }));
+jest.mock('../../mail/mail.service', () => ({ MailService: class {}, escapeHtml: (value: string) => value }));
+jest.mock('../../subscription/subscription.service', () => ({ SubscriptionService: class {} }));
+jest.mock('../../webhook/webhook.service', () => ({ WebhookService: class {} }));
+
+const logger = createTestLogger();
+
+const owner = { id: 'owner', email: 'owner@example.com' };
+const admin = { id: 'admin', email: 'admin@example.com' };
+const member = { id: 'member', email: 'member@example.com' };
+const invitee = { id: 'invitee', email: 'invitee@example.com' };
+
+describe('CompanyService invites', () => {
+  let companyRepository: InMemoryCompanyRepository;
+  let mailService: { send: jest.Mock };
+  let activityService: { createActivity: jest.Mock };
+  let subscriptionService: { assertCanAddMember: jest.Mock };
+  let webhookService: { publish: jest.Mock };
+  let service: CompanyService;
+
+  const invite = (overrides: Record<string, any> = {}) => companyRepository.createInvite({
+    companyId: 'company-1',
+    email: invitee.email,
+    role: 'member',
+    token: 'token-1',
+    expiresIn: 60 * 60 * 1000,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    companyRepository = new InMemoryCompanyRepository();
+    companyRepository.companies = [
+      { id: 'company-1', name: 'Acme' },
+      { id: 'company-2', name: 'Globex' }
+    ];
+    companyRepository.members = [
+      { companyId: 'company-1', userId: owner.id, role: 'owner' },
+      { companyId: 'company-1', userId: admin.id, role: 'admin' },
+      { companyId: 'company-1', userId: member.id, role: 'member' }
+    ];
+
+    mailService = { send: jest.fn().mockResolvedValue({ success: true }) };
+    activityService = { createActivity: jest.fn().mockResolvedValue(undefined) };
+    subscriptionService = { assertCanAddMember: jest.fn().mockResolvedValue(undefined) };
+    webhookService = { publish: jest.fn() };
+
+    service = new CompanyService(
+      companyRepository as any,
+      logger,
+      activityService as any,
+      mailService as any,
+      subscriptionService as any,
+      webhookService as any
+    );
+  });
+
+  describe('createCompanyInvite', () => {
+    it('should create a pending invite and email its link to the invitee', async () => {
+      const created = await service.createCompanyInvite(
+        { companyId: 'company-1', email: ' Invitee@Example.com ', role: 'admin' },
+        owner
+      );
+
+      expect(created).toMatchObject({ email: invitee.email, role: 'admin', status: 'pending' });
+      expect(created.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(mailService.send).toHaveBeenCalledWith(expect.objectContaining({ to: invitee.email }));
+      expect(mailService.send.mock.calls[0][0].text).toContain(`https://app.example.com/invites/${created.token}`);
+      expect(activityService.createActivity).toHaveBeenCalledWith(expect.objectContaining({
+        userId: owner.id,
+        companyId: 'company-1',
+        metadata: expect.objectContaining({ action: 'create_company_invite', role: 'admin' })
+      }));
+    });
+
+    it('should let admins invite but not plain members', async () => {
+      await expect(service.createCompanyInvite({ companyId: 'company-1', email: invitee.email, role: 'member' }, admin))
+        .resolves.toMatchObject({ role: 'member' });
+
+      await expect(service.createCompanyInvite({ companyId: 'company-1', email: 'other@example.com', role: 'member' }, member))
+        .rejects.toThrow(AuthorizationError);
+      expect(companyRepository.invites).toHaveLength(1);
+    });
+
+    it('should refuse members of another company', async () => {
+      await expect(service.createCompanyInvite({ companyId: 'company-2', email: invitee.email, role: 'member' }, owner))
+        .rejects.toThrow(AuthorizationError);
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should refuse the owner role and unknown roles', async () => {
+      await expect(service.createCompanyInvite({ companyId: 'company-1', email: invitee.email, role: 'owner' }, owner))
+        .rejects.toThrow(ValidationError);
+      await expect(service.createCompanyInvite({ companyId: 'company-1', email: invitee.email, role: 'superuser' }, owner))
+        .rejects.toThrow(ValidationError);
+      expect(companyRepository.invites).toHaveLength(0);
+    });
+
+    it('should refuse a second open invite for the same email', async () => {
+      await invite();
+
+      await expect(service.createCompanyInvite({ companyId: 'company-1', email: invitee.email, role: 'member' }, owner))
+        .rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('listCompanyInvites', () => {
+    it('should list invites for owners, admins and platform admins only', async () => {
+      await invite();
+
+      expect((await service.listCompanyInvites('company-1', admin)).total).toBe(1);
+      expect((await service.listCompanyInvites('company-1', { id: 'staff', email: 'staff@example.com', role: 'admin' })).total)
+        .toBe(1);
+      await expect(service.listCompanyInvites('company-1', member)).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('revokeCompanyInvite', () => {
+    it('should revoke a pending invite', async () => {
+      await invite();
+
+      await service.revokeCompanyInvite('company-1', 'token-1', admin);
+
+      expect(companyRepository.invites[0].status).toBe('revoked');
+      await expect(service.acceptCompanyInvite('token-1', invitee)).rejects.toThrow('Invite is revoked');
+    });
+
+    it('should refuse plain members', async () => {
+      await invite();
+
+      await expect(service.revokeCompanyInvite('company-1', 'token-1', member)).rejects.toThrow(AuthorizationError);
+      expect(companyRepository.invites[0].status).toBe('pending');
+    });
+
+    it('should not find another company\'s invite', async () => {
+      await invite({ companyId: 'company-2' });
+
+      await expect(service.revokeCompanyInvite('company-1', 'token-1', owner)).rejects.toThrow(NotFoundError);
+      expect(companyRepository.invites[0].status).toBe('pending');
+    });
+
+    it('should not revoke an accepted invite', async () => {
+      await invite({ status: 'accepted' });
+
+      await expect(service.revokeCompanyInvite('company-1', 'token-1', owner)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('acceptCompanyInvite', () => {
+    it('should add the invitee with the invited role', async () => {
+      await invite({ role: 'admin' });
+
+      const joined = await service.acceptCompanyInvite('token-1', { ...invitee, email: 'INVITEE@example.com' });
+
+      expect(joined).toMatchObject({ companyId: 'company-1', userId: invitee.id, role: 'admin' });
+      expect(companyRepository.userCompanies).toEqual([{ userId: invitee.id, companyId: 'company-1', role: 'admin' }]);
+      expect(companyRepository.invites[0].status).toBe('accepted');
+      expect(webhookService.publish).toHaveBeenCalledWith('company-1', 'member.added', expect.objectContaining({
+        userId: invitee.id,
+        role: 'admin'
+      }));
+    });
+
+    it('should refuse a user whose email does not match the invite', async () => {
+      await invite();
+
+      await expect(service.acceptCompanyInvite('token-1', { id: 'someone', email: 'someone@example.com' }))
+        .rejects.toThrow(AuthorizationError);
+      expect(companyRepository.members.some(m => m.userId === 'someone')).toBe(false);
+      expect(companyRepository.invites[0].status).toBe('pending');
+    });
+
+    it('should expire an invite accepted too late', async () => {
+      await invite({ expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(service.acceptCompanyInvite('token-1', invitee)).rejects.toThrow('Invite has expired');
+      expect(companyRepository.invites[0].status).toBe('expired');
+    });
+
+    it('should not accept an invite twice or an unknown token', async () => {
+      await invite();
+      await service.acceptCompanyInvite('token-1', invitee);
+
+      await expect(service.acceptCompanyInvite('token-1', invitee)).rejects.toThrow('Invite is accepted');
+      await expect(service.acceptCompanyInvite('token-2', invitee)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should not downgrade an existing member', async () => {
+      await invite({ email: admin.email, role: 'member' });
+
+      const joined = await service.acceptCompanyInvite('token-1', admin);
+
+      expect(joined.role).toBe('admin');
+      expect(subscriptionService.assertCanAddMember).not.toHaveBeenCalled();
+      expect(webhookService.publish).not.toHaveBeenCalled();
+    });
+  });
+});
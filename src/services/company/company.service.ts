@@ -2,20 +2,48 @@
 import { injectable, inject } from 'inversify';
 import { Logger } from '../../utils/logger';
 import { CompanyRepository, CreateCompanyParams, UpdateCompanyParams } from '../../repositories/company.repository';
-import { NotFoundError, ValidationError } from '../../utils/errors';
+import { NotFoundError, ValidationError, AuthorizationError, ConflictError } from '../../utils/errors';
 import { CompanyMember, CompanySettings } from '../../types/company';
 import { PaginationOptions } from '../../types/common';
-import { companies } from '../../db/schema/companies';
+import { companies, companyInvites, COMPANY_ROLES } from '../../db/schema/companies';
 import { InferModel } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
+import { ActivityService } from '../activity/activity.service';
+import { MailService } from '../mail/mail.service';
+import { inviteEmail } from '../mail/templates';
+import { SubscriptionService } from '../subscription/subscription.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { env } from '../../config/env';
 
 type Company = InferModel<typeof companies>;
+type CompanyInvite = InferModel<typeof companyInvites>;
+
+export type CompanyRole = typeof COMPANY_ROLES[number];
+
+// Invites are valid for 7 days
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Longest a company can keep files in the trash
+const MAX_TRASH_RETENTION_DAYS = 3650;
+
+/**
+ * The user performing an action, as attached to the request by AuthMiddleware
+ */
+export interface CompanyActor {
+  id: string;
+  email: string;
+  role?: string;
+}
 
 @injectable()
 export class CompanyService {
   constructor(
     @inject('CompanyRepository') private companyRepository: CompanyRepository,
-    @inject('Logger') private logger: Logger
+    @inject('Logger') private logger: Logger,
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('MailService') private mailService: MailService,
+    @inject('SubscriptionService') private subscriptionService: SubscriptionService,
+    @inject('WebhookService') private webhookService: WebhookService
   ) {
     this.logger = logger.createChildLogger('CompanyService');
   }
@@ -112,7 +140,9 @@ export class CompanyService {
    */
   async addCompanyMember(companyId: string, userId: string, role: string): Promise<CompanyMember> {
     try {
+      await this.subscriptionService.assertCanAddMember(companyId);
       const member = await this.companyRepository.addMember(companyId, userId, role);
+      this.webhookService.publish(companyId, 'member.added', { userId, role: member.role });
       return member;
     } catch (error: any) {
       this.logger.error('Failed to add company member', { companyId, userId, error });
@@ -129,6 +159,7 @@ export class CompanyService {
       if (!removed) {
         throw new NotFoundError(`Member ${userId} not found in company ${companyId}`);
       }
+      this.webhookService.publish(companyId, 'member.removed', { userId });
     } catch (error: any) {
       this.logger.error('Failed to remove company member', { companyId, userId, error });
       throw error;
@@ -140,10 +171,18 @@ export class CompanyService {
    */
   async updateMemberRole(companyId: string, userId: string, role: string): Promise<CompanyMember> {
     try {
+      const previous = await this.companyRepository.findMember(companyId, userId);
       const member = await this.companyRepository.updateMemberRole(companyId, userId, role);
       if (!member) {
         throw new NotFoundError(`Member ${userId} not found in company ${companyId}`);
       }
+      if (previous && previous.role !== member.role) {
+        this.webhookService.publish(companyId, 'member.role_changed', {
+          userId,
+          role: member.role,
+          previousRole: previous.role
+        });
+      }
       return member;
     } catch (error: any) {
       this.logger.error('Failed to update member role', { companyId, userId, role, error });
@@ -206,6 +245,13 @@ export class CompanyService {
    */
   async updateCompanySettings(companyId: string, settings: Partial<CompanySettings>): Promise<CompanySettings> {
     try {
+      if (settings.trashRetentionDays !== undefined && settings.trashRetentionDays !== null) {
+        const days = settings.trashRetentionDays;
+        if (!Number.isInteger(days) || days < 1 || days > MAX_TRASH_RETENTION_DAYS) {
+          throw new ValidationError(`trashRetentionDays must be a whole number of days between 1 and ${MAX_TRASH_RETENTION_DAYS}`);
+        }
+      }
+
       // Check if settings exist first
       const existingSettings = await this.companyRepository.getSettings(companyId);
       
@@ -229,30 +275,236 @@ export class CompanyService {
   }
 
   /**
-   * Create a company invite
+   * Create a company invite and email it to the invitee
    */
   async createCompanyInvite(data: {
     companyId: string;
     email: string;
     role: string;
-  }): Promise<any> {
+  }, invitedBy?: CompanyActor): Promise<CompanyInvite> {
     try {
-      // Create invite with token that expires in 7 days
+      const email = data.email?.trim().toLowerCase();
+      const role = data.role || 'member';
+
+      if (!email) {
+        throw new ValidationError('Email is required');
+      }
+
+      if (!this.isCompanyRole(role) || role === 'owner') {
+        throw new ValidationError(`Invalid role. Must be one of: ${COMPANY_ROLES.filter(r => r !== 'owner').join(', ')}`);
+      }
+
+      const company = await this.getCompanyById(data.companyId);
+
+      if (invitedBy) {
+        await this.assertCanInvite(company.id, invitedBy, role);
+      }
+
+      // Only one open invite per email
+      const existing = await this.companyRepository.findInviteByEmail(company.id, email);
+      if (existing && existing.expiresAt > new Date()) {
+        throw new ConflictError(`A pending invite already exists for ${email}`);
+      }
+
       const invite = await this.companyRepository.createInvite({
-        companyId: data.companyId,
-        email: data.email,
-        role: data.role,
-        expiresIn: 7 * 24 * 60 * 60 * 1000 // 7 days
+        companyId: company.id,
+        email,
+        role,
+        token: uuidv4(),
+        expiresIn: INVITE_TTL_MS
       });
-      
-      this.logger.info('Company invite created', { companyId: data.companyId, email: data.email });
-      
-      // TODO: Send invitation email
-      
+
+      this.logger.info('Company invite created', { companyId: company.id, email });
+
+      await this.sendInviteEmail(company, invite, invitedBy);
+
+      if (invitedBy) {
+        await this.activityService.createActivity({
+          type: 'admin_action',
+          userId: invitedBy.id,
+          companyId: company.id,
+          metadata: {
+            action: 'create_company_invite',
+            email,
+            role
+          }
+        });
+      }
+
       return invite;
     } catch (error: any) {
       this.logger.error('Failed to create company invite', { companyId: data.companyId, email: data.email, error });
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * List invites for a company
+   */
+  async listCompanyInvites(
+    companyId: string,
+    actor: CompanyActor,
+    params?: { page?: number; limit?: number; status?: string }
+  ): Promise<{ invites: CompanyInvite[]; total: number }> {
+    try {
+      await this.getCompanyById(companyId);
+      await this.assertCanManageMembers(companyId, actor);
+
+      return await this.companyRepository.listInvites(companyId, params);
+    } catch (error: any) {
+      this.logger.error('Failed to list company invites', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a pending invite
+   */
+  async revokeCompanyInvite(companyId: string, token: string, actor: CompanyActor): Promise<void> {
+    try {
+      const invite = await this.companyRepository.findInviteByToken(token);
+
+      if (!invite || invite.companyId !== companyId) {
+        throw new NotFoundError('Invite');
+      }
+
+      await this.assertCanManageMembers(companyId, actor);
+
+      if (invite.status === 'accepted') {
+        throw new ValidationError('Invite has already been accepted');
+      }
+
+      await this.companyRepository.updateInviteStatus(token, 'revoked');
+
+      await this.activityService.createActivity({
+        type: 'admin_action',
+        userId: actor.id,
+        companyId,
+        metadata: {
+          action: 'revoke_company_invite',
+          email: invite.email
+        }
+      });
+
+      this.logger.info('Company invite revoked', { companyId, email: invite.email });
+    } catch (error: any) {
+      this.logger.error('Failed to revoke company invite', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Accept an invite as the signed-in user, adding them to the company
+   */
+  async acceptCompanyInvite(token: string, user: CompanyActor): Promise<CompanyMember> {
+    try {
+      const invite = await this.companyRepository.findInviteByToken(token);
+
+      if (!invite) {
+        throw new NotFoundError('Invite');
+      }
+
+      if (invite.status !== 'pending') {
+        throw new ValidationError(`Invite is ${invite.status}`);
+      }
+
+      if (invite.expiresAt < new Date()) {
+        await this.companyRepository.updateInviteStatus(token, 'expired');
+        throw new ValidationError('Invite has expired');
+      }
+
+      if (invite.email.toLowerCase() !== user.email.toLowerCase()) {
+        throw new AuthorizationError('This invite was issued to a different email address');
+      }
+
+      if (!this.isCompanyRole(invite.role)) {
+        throw new ValidationError(`Invite has an invalid role: ${invite.role}`);
+      }
+
+      // Never downgrade someone who is already a member
+      let member = await this.companyRepository.findMember(invite.companyId, user.id);
+      if (!member) {
+        await this.subscriptionService.assertCanAddMember(invite.companyId);
+        member = await this.companyRepository.addMember(invite.companyId, user.id, invite.role);
+        this.webhookService.publish(invite.companyId, 'member.added', {
+          userId: user.id,
+          role: member.role,
+          inviteId: invite.id
+        });
+      }
+
+      await this.companyRepository.addUserCompany(user.id, invite.companyId, member.role);
+      await this.companyRepository.updateInviteStatus(token, 'accepted');
+
+      await this.activityService.createActivity({
+        type: 'update_permissions',
+        userId: user.id,
+        companyId: invite.companyId,
+        metadata: {
+          action: 'accept_company_invite',
+          role: member.role
+        }
+      });
+
+      this.logger.info('Company invite accepted', { companyId: invite.companyId, userId: user.id });
+
+      return member;
+    } catch (error: any) {
+      this.logger.error('Failed to accept company invite', { userId: user.id, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Only owners and admins (or platform admins) can manage members
+   */
+  private async assertCanManageMembers(companyId: string, actor: CompanyActor): Promise<CompanyRole> {
+    if (actor.role === 'admin') {
+      return 'owner';
+    }
+
+    const member = await this.companyRepository.findMember(companyId, actor.id);
+
+    if (!member || !this.isCompanyRole(member.role) || member.role === 'member') {
+      throw new AuthorizationError('Only company owners and admins can manage members');
+    }
+
+    return member.role;
+  }
+
+  /**
+   * Inviters cannot grant a role above their own
+   */
+  private async assertCanInvite(companyId: string, actor: CompanyActor, role: CompanyRole): Promise<void> {
+    const actorRole = await this.assertCanManageMembers(companyId, actor);
+
+    if (COMPANY_ROLES.indexOf(role) < COMPANY_ROLES.indexOf(actorRole)) {
+      throw new AuthorizationError(`You cannot invite members with the ${role} role`);
+    }
+  }
+
+  private isCompanyRole(role: string): role is CompanyRole {
+    return (COMPANY_ROLES as readonly string[]).includes(role);
+  }
+
+  private async sendInviteEmail(company: Company, invite: CompanyInvite, invitedBy?: CompanyActor): Promise<void> {
+    const acceptUrl = `${env.APP_URL.replace(/\/+$/, '')}/invites/${invite.token}`;
+    const inviter = invitedBy ? invitedBy.email : 'A team member';
+
+    const result = await this.mailService.send({
+      to: invite.email,
+      ...inviteEmail({
+        inviter,
+        companyName: company.name,
+        role: invite.role,
+        acceptUrl,
+        expiresAt: invite.expiresAt
+      })
+    });
+
+    if (!result.success) {
+      // The invite stays valid; it can be resent or shared manually
+      this.logger.warn('Company invite email was not delivered', { companyId: company.id, email: invite.email });
+    }
+  }
+}
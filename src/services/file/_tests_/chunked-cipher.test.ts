@@ -0,0 +1,108 @@
+// src/services/file/_tests_/chunked-cipher.test.ts
+import crypto from 'crypto';
+import {
+  wrapKey,
+  unwrapKey,
+  chunkCount,
+  encryptedSize,
+  encryptedRange,
+  encryptChunks,
+  encryptPart,
+  decryptChunks,
+  sliceBytes
+} from '../chunked-cipher';
+
+const collect = async (source: AsyncIterable<Buffer>) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+async function* inPieces(data: Buffer, pieceSize: number) {
+  for (let offset = 0; offset < data.length; offset += pieceSize) {
+    yield data.subarray(offset, offset + pieceSize);
+  }
+}
+
+describe('encryptChunks and decryptChunks', () => {
+  const key = crypto.randomBytes(32);
+  const chunkSize = 16;
+  const plaintext = crypto.randomBytes(100);
+
+  const encrypt = (data: Buffer) => collect(encryptChunks(inPieces(data, 7), key, chunkSize));
+  const decryptAll = (sealed: Buffer, size: number) => {
+    const totalChunks = chunkCount(size, chunkSize);
+    return collect(decryptChunks(inPieces(sealed, 11), key, chunkSize, { firstChunk: 0, lastChunk: totalChunks - 1, totalChunks }));
+  };
+
+  it('should round-trip content of any length, including empty', async () => {
+    for (const data of [plaintext, plaintext.subarray(0, 32), Buffer.alloc(0)]) {
+      const sealed = await encrypt(data);
+
+      expect(sealed.length).toBe(encryptedSize(data.length, chunkSize));
+      expect(await decryptAll(sealed, data.length)).toEqual(data);
+    }
+  });
+
+  it('should decrypt a range from only the chunks that cover it', async () => {
+    const sealed = await encrypt(plaintext);
+    const range = { start: 20, end: 70 };
+    const location = encryptedRange(range, plaintext.length, chunkSize);
+
+    const stored = sealed.subarray(location.stored.start, location.stored.end + 1);
+    const decrypted = decryptChunks(inPieces(stored, 5), key, chunkSize, {
+      firstChunk: location.firstChunk,
+      lastChunk: location.lastChunk,
+      totalChunks: chunkCount(plaintext.length, chunkSize)
+    });
+
+    expect(await collect(sliceBytes(decrypted, location.skip, 51))).toEqual(plaintext.subarray(20, 71));
+  });
+
+  it('should reject tampered, truncated or extended content', async () => {
+    const sealed = await encrypt(plaintext);
+    const tampered = Buffer.from(sealed);
+    tampered[60] ^= 1;
+
+    await expect(decryptAll(tampered, plaintext.length)).rejects.toThrow('Failed to decrypt chunk 1');
+    // Cut at a chunk boundary: the new last chunk was not sealed as the last one
+    await expect(decryptAll(sealed.subarray(0, 88), 32)).rejects.toThrow('Failed to decrypt chunk 1');
+    await expect(decryptAll(sealed.subarray(0, 88), plaintext.length)).rejects.toThrow('truncated');
+
+    const short = await encrypt(plaintext.subarray(0, 32));
+    await expect(decryptAll(Buffer.concat([short, short.subarray(0, 32)]), 32)).rejects.toThrow('longer');
+  });
+
+  it('should encrypt content written in parts in the same layout as in one go', async () => {
+    const parts = [0, 32, 64].map(offset => {
+      const last = offset === 64;
+      return encryptPart(plaintext.subarray(offset, last ? plaintext.length : offset + 32), key, chunkSize, offset, last);
+    });
+
+    expect(Buffer.concat(parts).length).toBe((await encrypt(plaintext)).length);
+    expect(await decryptAll(Buffer.concat(parts), plaintext.length)).toEqual(plaintext);
+    expect(() => encryptPart(plaintext.subarray(0, 20), key, chunkSize, 0, false)).toThrow('whole chunks');
+  });
+
+  it('should not reuse a nonce when a part is encrypted again', () => {
+    const first = encryptPart(plaintext.subarray(0, 32), key, chunkSize, 0, false);
+    const retried = encryptPart(crypto.randomBytes(32), key, chunkSize, 0, false);
+
+    expect(retried.subarray(0, 12)).not.toEqual(first.subarray(0, 12));
+    expect(retried.subarray(44, 56)).not.toEqual(first.subarray(44, 56));
+  });
+});
+
+describe('wrapKey', () => {
+  it('should only unwrap with the same wrapping key and context', () => {
+    const key = crypto.randomBytes(32);
+    const wrappingKey = crypto.randomBytes(32);
+    const wrapped = wrapKey(key, wrappingKey, 'key-1');
+
+    expect(unwrapKey(wrapped, wrappingKey, 'key-1')).toEqual(key);
+    expect(() => unwrapKey(wrapped, wrappingKey, 'key-2')).toThrow('Failed to unwrap encryption key');
+    expect(() => unwrapKey(wrapped, crypto.randomBytes(32), 'key-1')).toThrow('Failed to unwrap encryption key');
+  });
+});
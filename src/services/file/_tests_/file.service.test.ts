@@ -0,0 +1,210 @@
+// src/services/file/_tests_/file.service.test.ts
+import { Readable } from 'stream';
+import { FileService } from '../file.service';
+import { AccessDeniedError, NotFoundError, UploadRestrictionError } from '../../../utils/errors';
+import { createTestLogger, InMemoryFileRepository } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: {} }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/file.repository', () => ({ FileRepository: class {} }));
+jest.mock('../../../repositories/room.repository', () => ({ RoomRepository: class {} }));
+jest.mock('../../../repositories/search.repository', () => ({ SearchRepository: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../storage/storage.service', () => ({ StorageService: class {} }));
+jest.mock('../../storage/streaming-upload.service', () => ({ StreamingUploadService: class {} }));
+jest.mock('../../websocket/websocket.service', () => ({ WebSocketService: class {} }));
+jest.mock('../../activity/activity.service', () => ({ ActivityService: class {} }));
+jest.mock('../../search/file-search-indexer', () => ({ FileSearchIndexer: class {} }));
+jest.mock('../../retention/retention.service', () => ({ RetentionService: class {} }));
+jest.mock('../upload-policy.service', () => ({ UploadPolicyService: class {} }));
+jest.mock('../file-encryption.service', () => ({ FileEncryptionService: class {} }));
+
+const logger = createTestLogger();
+
+describe('FileService versions', () => {
+  let fileRepository: InMemoryFileRepository;
+  let provider: { getSignedUrl: jest.Mock; getFileStream: jest.Mock };
+  let streamingUploadService: { upload: jest.Mock };
+  let uploadPolicyService: { assertUploadAllowed: jest.Mock };
+  let activityService: { createActivity: jest.Mock };
+  let service: FileService;
+
+  const version = (id: string, fileId: string, versionNumber: number, size: number) => ({
+    id,
+    fileId,
+    versionNumber,
+    size,
+    storageKey: `rooms/room-1/files/${fileId}/v${versionNumber}/report.pdf`,
+    uploadedById: 'owner',
+    encryption: 'none',
+    encryptionKeyId: null,
+    checksum: null,
+    createdAt: new Date(2024, 0, versionNumber)
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fileRepository = new InMemoryFileRepository();
+    fileRepository.files = [
+      {
+        id: 'file-1',
+        name: 'report.pdf',
+        fileType: 'file',
+        mimeType: 'application/pdf',
+        roomId: 'room-1',
+        storageId: 'storage-1',
+        storageKey: 'rooms/room-1/files/file-1/v2/report.pdf',
+        size: 200,
+        isDeleted: false,
+        encryption: 'none',
+        encryptionKeyId: null,
+        checksum: null
+      },
+      { id: 'file-2', name: 'other.pdf', fileType: 'file', roomId: 'room-2', storageId: 'storage-1', size: 50, isDeleted: false }
+    ];
+    fileRepository.versions = [
+      version('version-1', 'file-1', 1, 100),
+      version('version-2', 'file-1', 2, 200),
+      version('version-3', 'file-2', 1, 50)
+    ];
+    fileRepository.members = [
+      { roomId: 'room-1', userId: 'owner' },
+      { roomId: 'room-2', userId: 'outsider' }
+    ];
+
+    provider = {
+      getSignedUrl: jest.fn(async (key: string) => ({ success: true, url: `https://storage.example.com/${key}` })),
+      getFileStream: jest.fn(async () => ({ success: true, stream: Readable.from([Buffer.alloc(100)]) }))
+    };
+    streamingUploadService = { upload: jest.fn(async (_provider: any, key: string) => ({ key, size: 100 })) };
+    uploadPolicyService = { assertUploadAllowed: jest.fn().mockResolvedValue(undefined) };
+    activityService = { createActivity: jest.fn().mockResolvedValue(undefined) };
+
+    service = new FileService(
+      fileRepository as any,
+      { getStorageProvider: async () => provider } as any,
+      { broadcastToRoom: jest.fn(), notifyFileTransferStatus: jest.fn() } as any,
+      logger,
+      {} as any,
+      activityService as any,
+      {} as any,
+      {} as any,
+      { indexFile: jest.fn().mockResolvedValue(undefined) } as any,
+      uploadPolicyService as any,
+      streamingUploadService as any,
+      {} as any,
+      {} as any
+    );
+  });
+
+  describe('listVersions', () => {
+    it('should list versions newest first and mark the current one', async () => {
+      const result = await service.listVersions('file-1', 'owner');
+
+      expect(result.success).toBe(true);
+      expect(result.data.map((v: any) => [v.id, v.isCurrent])).toEqual([
+        ['version-2', true],
+        ['version-1', false]
+      ]);
+    });
+
+    it('should refuse users outside the file\'s room', async () => {
+      const result = await service.listVersions('file-1', 'outsider');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(AccessDeniedError);
+      expect(activityService.createActivity).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing file', async () => {
+      const result = await service.listVersions('missing', 'owner');
+
+      expect(result.error).toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('getVersionDownloadUrl', () => {
+    it('should sign the version\'s own storage key', async () => {
+      const result = await service.getVersionDownloadUrl('file-1', 'version-1', 'owner');
+
+      expect(result.success).toBe(true);
+      expect(provider.getSignedUrl).toHaveBeenCalledWith(
+        'rooms/room-1/files/file-1/v1/report.pdf',
+        expect.objectContaining({ operation: 'read' })
+      );
+    });
+
+    it('should refuse users outside the file\'s room', async () => {
+      const result = await service.getVersionDownloadUrl('file-1', 'version-1', 'outsider');
+
+      expect(result.error).toBeInstanceOf(AccessDeniedError);
+      expect(provider.getSignedUrl).not.toHaveBeenCalled();
+    });
+
+    it('should not hand out a version that belongs to another file', async () => {
+      // The owner can reach file-1, but version-3 is file-2's
+      const result = await service.getVersionDownloadUrl('file-1', 'version-3', 'owner');
+
+      expect(result.error).toBeInstanceOf(NotFoundError);
+      expect(provider.getSignedUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreVersion', () => {
+    it('should copy the version back as a new current version', async () => {
+      const result = await service.restoreVersion('file-1', 'version-1', 'owner');
+
+      expect(result.success).toBe(true);
+      expect(streamingUploadService.upload).toHaveBeenCalledWith(
+        provider,
+        'rooms/room-1/files/file-1/v3/report.pdf',
+        expect.anything(),
+        expect.anything()
+      );
+      expect(result.data.version).toMatchObject({ versionNumber: 3, size: 100, uploadedById: 'owner' });
+      expect(fileRepository.files[0]).toMatchObject({ size: 100, storageKey: 'rooms/room-1/files/file-1/v3/report.pdf' });
+    });
+
+    it('should hold the restored content to the room\'s upload rules', async () => {
+      uploadPolicyService.assertUploadAllowed.mockRejectedValue(
+        new UploadRestrictionError('STORAGE_QUOTA_EXCEEDED', 'The company\'s storage quota would be exceeded')
+      );
+
+      const result = await service.restoreVersion('file-1', 'version-1', 'owner');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(UploadRestrictionError);
+      expect(uploadPolicyService.assertUploadAllowed).toHaveBeenCalledWith(expect.objectContaining({
+        roomId: 'room-1',
+        userId: 'owner',
+        fileName: 'report.pdf',
+        size: 100,
+        mimeType: 'application/pdf',
+        additionalBytes: -100
+      }));
+      expect(streamingUploadService.upload).not.toHaveBeenCalled();
+      expect(fileRepository.versions).toHaveLength(3);
+    });
+
+    it('should refuse users outside the file\'s room', async () => {
+      const result = await service.restoreVersion('file-1', 'version-1', 'outsider');
+
+      expect(result.error).toBeInstanceOf(AccessDeniedError);
+      expect(streamingUploadService.upload).not.toHaveBeenCalled();
+    });
+
+    it('should not restore a version of another file', async () => {
+      const result = await service.restoreVersion('file-1', 'version-3', 'owner');
+
+      expect(result.error).toBeInstanceOf(NotFoundError);
+      expect(streamingUploadService.upload).not.toHaveBeenCalled();
+    });
+
+    it('should not restore the current version', async () => {
+      const result = await service.restoreVersion('file-1', 'version-2', 'owner');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Version is already the current version');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+// src/services/file/_tests_/http-download.test.ts
+import { parseRange, fileEtag, etagMatches, ifRangeAllows, contentDisposition } from '../http-download';
+
+describe('parseRange', () => {
+  it('should parse closed, open-ended and suffix ranges', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ type: 'partial', range: { start: 0, end: 99 } });
+    expect(parseRange('bytes=500-', 1000)).toEqual({ type: 'partial', range: { start: 500, end: 999 } });
+    expect(parseRange('bytes=-200', 1000)).toEqual({ type: 'partial', range: { start: 800, end: 999 } });
+  });
+
+  it('should clamp ranges that run past the end of the file', () => {
+    expect(parseRange('bytes=900-5000', 1000)).toEqual({ type: 'partial', range: { start: 900, end: 999 } });
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ type: 'partial', range: { start: 0, end: 999 } });
+  });
+
+  it('should reject ranges that start past the end of the file', () => {
+    expect(parseRange('bytes=1000-', 1000)).toEqual({ type: 'unsatisfiable' });
+    expect(parseRange('bytes=-0', 1000)).toEqual({ type: 'unsatisfiable' });
+    expect(parseRange('bytes=0-', 0)).toEqual({ type: 'unsatisfiable' });
+  });
+
+  it('should serve the whole file for missing, malformed or multiple ranges', () => {
+    expect(parseRange(undefined, 1000)).toEqual({ type: 'full' });
+    expect(parseRange('bytes=50-10', 1000)).toEqual({ type: 'full' });
+    expect(parseRange('items=0-10', 1000)).toEqual({ type: 'full' });
+    expect(parseRange('bytes=0-10,20-30', 1000)).toEqual({ type: 'full' });
+  });
+});
+
+describe('conditional requests', () => {
+  const updatedAt = new Date('2026-03-01T12:00:00Z');
+  const etag = fileEtag({ id: 'file-1', size: 1000, checksum: 'abc123', updatedAt });
+
+  it('should tag files by checksum when they have one', () => {
+    expect(etag).toBe('"abc123"');
+    expect(fileEtag({ id: 'file-1', size: 1000, checksum: null, updatedAt })).not.toEqual(
+      fileEtag({ id: 'file-1', size: 1000, checksum: null, updatedAt: new Date('2026-03-02T12:00:00Z') })
+    );
+  });
+
+  it('should match If-None-Match lists, wildcards and weak tags', () => {
+    expect(etagMatches('"other", "abc123"', etag)).toBe(true);
+    expect(etagMatches('W/"abc123"', etag)).toBe(true);
+    expect(etagMatches('*', etag)).toBe(true);
+    expect(etagMatches('"other"', etag)).toBe(false);
+    expect(etagMatches(undefined, etag)).toBe(false);
+  });
+
+  it('should only honour If-Range when the validator is still current', () => {
+    expect(ifRangeAllows(undefined, etag, updatedAt)).toBe(true);
+    expect(ifRangeAllows('"abc123"', etag, updatedAt)).toBe(true);
+    expect(ifRangeAllows('W/"abc123"', etag, updatedAt)).toBe(false);
+    expect(ifRangeAllows('"stale"', etag, updatedAt)).toBe(false);
+    expect(ifRangeAllows(updatedAt.toUTCString(), etag, updatedAt)).toBe(true);
+    expect(ifRangeAllows('Sun, 01 Feb 2026 12:00:00 GMT', etag, updatedAt)).toBe(false);
+  });
+});
+
+describe('contentDisposition', () => {
+  it('should encode non-ASCII names with an ASCII fallback', () => {
+    expect(contentDisposition('attachment', 'résumé "final".pdf')).toBe(
+      `attachment; filename="r_sum_ _final_.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%22final%22.pdf`
+    );
+    expect(contentDisposition('inline', "it's (1).txt")).toBe(
+      `inline; filename="it's (1).txt"; filename*=UTF-8''it%27s%20%281%29.txt`
+    );
+  });
+});
@@ -0,0 +1,151 @@
+// src/services/file/_tests_/trash.service.test.ts
+import { TrashService } from '../trash.service';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../../utils/errors';
+import { createTestLogger, InMemoryTrashRepository } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: { TRASH_RETENTION_DAYS: 30 } }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/trash.repository', () => ({ TrashRepository: class {} }));
+jest.mock('../../../repositories/room.repository', () => ({ RoomRepository: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../retention/retention.service', () => ({ RetentionService: class {} }));
+jest.mock('../../search/file-search-indexer', () => ({ FileSearchIndexer: class {} }));
+jest.mock('../../activity/activity.service', () => ({ ActivityService: class {} }));
+
+const logger = createTestLogger();
+
+const entry = (id: string, parentId: string | null, overrides: Record<string, any> = {}) => ({
+  id,
+  name: id,
+  fileType: 'file',
+  roomId: 'room-1',
+  parentId,
+  isDeleted: true,
+  deletedAt: new Date('2024-05-01T10:00:00Z'),
+  trashedWithId: null,
+  ...overrides
+});
+
+describe('TrashService', () => {
+  const owner = { id: 'owner', email: 'owner@example.com' };
+  const editor = { id: 'editor', email: 'editor@example.com' };
+  const viewer = { id: 'viewer', email: 'viewer@example.com' };
+
+  let trashRepository: InMemoryTrashRepository;
+  let retentionService: { purgeFile: jest.Mock };
+  let fileSearchIndexer: { indexFile: jest.Mock };
+  let service: TrashService;
+
+  beforeEach(() => {
+    trashRepository = new InMemoryTrashRepository();
+    retentionService = {
+      purgeFile: jest.fn(async (file: any) => {
+        trashRepository.files = trashRepository.files.filter(f => f.id !== file.id);
+        return true;
+      })
+    };
+    fileSearchIndexer = { indexFile: jest.fn().mockResolvedValue(undefined) };
+    const roomRepository = {
+      findCompanyId: async (roomId: string) => roomId === 'room-1' ? 'company-1' : null,
+      findAccessType: async (_roomId: string, userId: string) => ({ owner: 'owner', editor: 'editor', viewer: 'viewer' } as any)[userId] || null
+    };
+
+    service = new TrashService(
+      trashRepository as any,
+      roomRepository as any,
+      { getSettings: async () => ({ trashRetentionDays: 7 }) } as any,
+      retentionService as any,
+      fileSearchIndexer as any,
+      { createActivity: jest.fn().mockResolvedValue(undefined) } as any,
+      logger
+    );
+  });
+
+  describe('restoreFiles', () => {
+    it('should bring back the contents trashed along with a folder', async () => {
+      trashRepository.files = [
+        entry('folder', null, { fileType: 'folder' }),
+        entry('sub', 'folder', { fileType: 'folder', trashedWithId: 'folder' }),
+        entry('a', 'sub', { trashedWithId: 'folder' }),
+        entry('b', 'folder', { trashedWithId: 'folder' })
+      ];
+
+      const { restored } = await service.restoreFiles('room-1', editor, ['folder']);
+
+      expect(restored.sort()).toEqual(['a', 'b', 'folder', 'sub']);
+      expect(fileSearchIndexer.indexFile).toHaveBeenCalledTimes(4);
+    });
+
+    it('should leave items that were trashed before their folder in the trash', async () => {
+      trashRepository.files = [
+        entry('folder', null, { fileType: 'folder' }),
+        entry('earlier', 'folder', { deletedAt: new Date('2024-04-01T10:00:00Z') }),
+        entry('sub', 'folder', { fileType: 'folder', deletedAt: new Date('2024-04-02T10:00:00Z') }),
+        entry('in-sub', 'sub', { trashedWithId: 'sub' }),
+        entry('with-folder', 'folder', { trashedWithId: 'folder' })
+      ];
+
+      const { restored } = await service.restoreFiles('room-1', editor, ['folder']);
+
+      expect(restored.sort()).toEqual(['folder', 'with-folder']);
+      expect(trashRepository.files.filter(file => file.isDeleted).map(file => file.id)).toEqual(['earlier', 'sub', 'in-sub']);
+    });
+
+    it('should restore the trashed folders a file is in, without their other contents', async () => {
+      trashRepository.files = [
+        entry('folder', null, { fileType: 'folder' }),
+        entry('a', 'folder', { trashedWithId: 'folder' }),
+        entry('b', 'folder', { trashedWithId: 'folder' })
+      ];
+
+      const { restored } = await service.restoreFiles('room-1', editor, ['a']);
+
+      expect(restored.sort()).toEqual(['a', 'folder']);
+    });
+
+    it('should validate the selection', async () => {
+      trashRepository.files = [entry('a', null), entry('live', null, { isDeleted: false })];
+
+      await expect(service.restoreFiles('room-1', editor, [])).rejects.toThrow(ValidationError);
+      await expect(service.restoreFiles('room-1', editor, ['missing'])).rejects.toThrow(NotFoundError);
+      await expect(service.restoreFiles('room-1', editor, ['a', 'live'])).rejects.toThrow('Some files are not in the trash');
+      await expect(service.restoreFiles('room-1', viewer, ['a'])).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('emptyTrash', () => {
+    it('should only let room owners empty the trash', async () => {
+      trashRepository.files = [entry('a', null)];
+
+      await expect(service.emptyTrash('room-1', editor)).rejects.toThrow('Only room owners can empty the trash');
+      expect(retentionService.purgeFile).not.toHaveBeenCalled();
+    });
+
+    it('should purge a bounded batch and report what remains', async () => {
+      trashRepository.files = Array.from({ length: 150 }, (_, i) => entry(`file-${i}`, null));
+
+      const first = await service.emptyTrash('room-1', owner);
+      const second = await service.emptyTrash('room-1', owner);
+
+      expect(first).toEqual({ purged: 100, failed: 0, remaining: 50 });
+      expect(second).toEqual({ purged: 50, failed: 0, remaining: 0 });
+      expect(retentionService.purgeFile).toHaveBeenCalledWith(expect.objectContaining({ id: 'file-0' }), 'trash_emptied', 'owner');
+    });
+
+    it('should count files that could not be purged as remaining', async () => {
+      trashRepository.files = [entry('stuck', null), entry('gone', null)];
+      retentionService.purgeFile.mockImplementationOnce(async () => false);
+
+      await expect(service.emptyTrash('room-1', owner)).resolves.toEqual({ purged: 1, failed: 1, remaining: 1 });
+    });
+  });
+
+  it('should tell when trashed items will be purged', async () => {
+    trashRepository.files = [entry('a', null)];
+
+    const result = await service.listTrash('room-1', viewer);
+
+    expect(result).toMatchObject({ total: 1, page: 1, limit: 50, retentionDays: 7 });
+    expect(result.items[0].purgeAt).toEqual(new Date('2024-05-08T10:00:00Z'));
+  });
+});
@@ -0,0 +1,218 @@
+// src/services/file/_tests_/tus-upload.service.test.ts
+import crypto, { createHash } from 'crypto';
+import axios from 'axios';
+import { TusUploadService, parseTusMetadata } from '../tus-upload.service';
+import { sealBytes, openBytes } from '../chunked-cipher';
+import { NotFoundError, ValidationError } from '../../../utils/errors';
+import { createTestLogger, InMemoryMultipartUploadRepository } from '../../../tests/helpers';
+
+jest.mock('axios', () => ({ put: jest.fn() }));
+jest.mock('../../../config/env', () => ({ env: {} }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../upload.service', () => ({ UploadService: class {}, stagedBytesKey: (key: string) => `${key}.part` }));
+jest.mock('../../storage/storage.service', () => ({ StorageService: class {} }));
+jest.mock('../../../repositories/multipart-upload.repository', () => ({ MultipartUploadRepository: class {} }));
+jest.mock('../file-encryption.service', () => ({ FileEncryptionService: class {} }));
+
+const logger = createTestLogger();
+
+const base64 = (value: string) => Buffer.from(value).toString('base64');
+
+async function* chunks(...parts: string[]): AsyncIterable<Buffer> {
+  for (const part of parts) {
+    yield Buffer.from(part);
+  }
+}
+
+describe('TusUploadService', () => {
+  let uploadRepository: InMemoryMultipartUploadRepository;
+  let uploaded: Array<{ partNumber: number; data: string }>;
+  let session: any;
+  let staged: Map<string, Buffer>;
+  let uploadService: any;
+  let fileEncryption: Record<string, jest.Mock>;
+  let service: TusUploadService;
+
+  const tus = (id = 'upload-1') => uploadRepository.tus.get(id);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    uploadRepository = new InMemoryMultipartUploadRepository();
+    await uploadRepository.createTus('upload-1', null);
+    uploaded = [];
+    staged = new Map();
+    session = {
+      id: 'upload-1',
+      userId: 'user-1',
+      storageId: 'storage-1',
+      storageKey: 'rooms/room-1/files/file-1/notes.txt',
+      totalSize: 10,
+      partSize: 4,
+      totalParts: 3,
+      status: 'in_progress',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+    };
+
+    uploadService = {
+      initializeMultipartUpload: jest.fn().mockResolvedValue({
+        success: true,
+        data: { uploadId: 'upload-2', expiresAt: session.expiresAt }
+      }),
+      getSession: jest.fn(async (id: string, userId: string) => {
+        if (id !== session.id || userId !== session.userId) {
+          throw new NotFoundError('Upload', id);
+        }
+        return { ...session };
+      }),
+      isResumable: (upload: any) => upload.status === 'in_progress',
+      keepAlive: jest.fn().mockResolvedValue(null),
+      uploadPart: jest.fn(async (upload: any, partNumber: number, data: Buffer) => {
+        uploaded.push({ partNumber, data: data.toString() });
+        await uploadRepository.savePart(upload.id, partNumber, `etag-${partNumber}`, data.length);
+      }),
+      completeMultipartUpload: jest.fn().mockResolvedValue({ success: true, data: { id: 'file-1' } }),
+      abortMultipartUpload: jest.fn().mockResolvedValue({ success: true })
+    };
+
+    (axios.put as jest.Mock).mockImplementation(async (url: string, data: Buffer) => {
+      staged.set(url, Buffer.from(data));
+      return { headers: {} };
+    });
+    const provider = {
+      getSignedUrl: async (key: string) => ({ success: true, url: key }),
+      getFileContent: async (key: string) => staged.has(key) ? { success: true, data: staged.get(key) } : { success: false },
+      deleteFile: jest.fn(async (key: string) => ({ success: staged.delete(key) }))
+    };
+
+    const dataKey = { id: 'key-1', key: crypto.randomBytes(32), chunkSize: 64 * 1024 };
+    fileEncryption = {
+      getDataKey: jest.fn().mockResolvedValue(dataKey),
+      seal: jest.fn((data: Buffer, key: any, context: string) => sealBytes(data, key.key, context)),
+      open: jest.fn((sealed: Buffer, key: any, context: string) => openBytes(sealed, key.key, context))
+    };
+
+    service = new TusUploadService(
+      uploadService,
+      { getStorageProvider: async () => provider } as any,
+      uploadRepository as any,
+      fileEncryption as any,
+      logger
+    );
+  });
+
+  it('should parse Upload-Metadata', () => {
+    expect(parseTusMetadata(`filename ${base64('a b.txt')},roomId ${base64('room-1')}, is_confidential`))
+      .toEqual({ filename: 'a b.txt', roomId: 'room-1', is_confidential: '' });
+    expect(parseTusMetadata(null)).toEqual({});
+  });
+
+  it('should need a file name and room to create an upload', async () => {
+    await expect(service.createUpload({ userId: 'user-1', uploadLength: 10, uploadMetadata: `filename ${base64('a.txt')}` }))
+      .rejects.toThrow(ValidationError);
+
+    const metadata = `filename ${base64('a.txt')},roomId ${base64('room-1')},filetype ${base64('text/plain')}`;
+    const upload = await service.createUpload({ userId: 'user-1', uploadLength: 10, uploadMetadata: metadata });
+
+    expect(upload).toMatchObject({ id: 'upload-2', offset: 0, length: 10, metadata });
+    expect(uploadService.initializeMultipartUpload).toHaveBeenCalledWith(expect.objectContaining({
+      fileName: 'a.txt',
+      mimeType: 'text/plain',
+      roomId: 'room-1',
+      totalSize: 10,
+      throughServer: true
+    }));
+    expect(tus('upload-2')).toMatchObject({ id: 'upload-2', uploadOffset: 0 });
+  });
+
+  it('should cut chunks of any size into parts and stage the rest between requests', async () => {
+    const first = await service.appendChunk('upload-1', 'user-1', 0, chunks('abc', 'de'));
+
+    expect(first.offset).toBe(5);
+    expect(uploaded).toEqual([{ partNumber: 1, data: 'abcd' }]);
+    expect(staged.get(`${session.storageKey}.part`)?.toString()).toBe('e');
+
+    const last = await service.appendChunk('upload-1', 'user-1', 5, chunks('fghij'));
+
+    expect(last).toMatchObject({ offset: 10, fileId: 'file-1' });
+    expect(uploaded.map(part => part.data)).toEqual(['abcd', 'efgh', 'ij']);
+    expect(uploadService.completeMultipartUpload).toHaveBeenCalledWith('upload-1', 'user-1');
+    expect(staged.size).toBe(0);
+    expect(tus().lockedUntil).toBeNull();
+  });
+
+  it('should encrypt the bytes staged for uploads the server encrypts', async () => {
+    session.encryptionKeyId = 'key-1';
+
+    await service.appendChunk('upload-1', 'user-1', 0, chunks('abc', 'de'));
+
+    // Bound to the offset the staged bytes follow
+    expect(fileEncryption.seal).toHaveBeenCalledWith(Buffer.from('e'), expect.anything(), 'upload-1:4');
+    expect(staged.get(`${session.storageKey}.part`)).toHaveLength(1 + 28);
+
+    const last = await service.appendChunk('upload-1', 'user-1', 5, chunks('fghij'));
+
+    expect(last).toMatchObject({ offset: 10, fileId: 'file-1' });
+    expect(uploaded.map(part => part.data)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('should check the offset against the upload as it is once locked', async () => {
+    // Another request finishes writing while this one waits for the lock
+    const lockTus = uploadRepository.lockTus.bind(uploadRepository);
+    jest.spyOn(uploadRepository, 'lockTus').mockImplementation(async (id, now, until) => {
+      tus().uploadOffset = 3;
+      return lockTus(id, now, until);
+    });
+
+    await expect(service.appendChunk('upload-1', 'user-1', 0, chunks('abc')))
+      .rejects.toMatchObject({ statusCode: 409, code: 'OFFSET_MISMATCH' });
+    expect(uploadService.uploadPart).not.toHaveBeenCalled();
+    expect(tus().lockedUntil).toBeNull();
+  });
+
+  it('should refuse a chunk while another request holds the upload', async () => {
+    tus().lockedUntil = new Date(Date.now() + 60 * 1000);
+
+    await expect(service.appendChunk('upload-1', 'user-1', 0, chunks('abc')))
+      .rejects.toMatchObject({ statusCode: 423 });
+    expect(tus().lockedUntil).not.toBeNull();
+  });
+
+  it('should refuse chunks past the end of the upload', async () => {
+    await expect(service.appendChunk('upload-1', 'user-1', 0, chunks('abc'), { contentLength: 11 }))
+      .rejects.toMatchObject({ statusCode: 413 });
+    await expect(service.appendChunk('upload-1', 'user-1', 0, chunks('abcdefghijk')))
+      .rejects.toMatchObject({ statusCode: 413, code: 'UPLOAD_LENGTH_EXCEEDED' });
+  });
+
+  it('should only write chunks that match their checksum', async () => {
+    const digest = createHash('sha1').update('abc').digest('base64');
+
+    await expect(service.appendChunk('upload-1', 'user-1', 0, chunks('abx'), { checksum: { algorithm: 'sha1', digest } }))
+      .rejects.toMatchObject({ statusCode: 460 });
+    expect(tus().uploadOffset).toBe(0);
+
+    const upload = await service.appendChunk('upload-1', 'user-1', 0, chunks('abc'), { checksum: { algorithm: 'sha1', digest } });
+    expect(upload.offset).toBe(3);
+
+    await expect(service.appendChunk('upload-1', 'user-1', 3, chunks('d'), { checksum: { algorithm: 'crc32', digest } }))
+      .rejects.toMatchObject({ statusCode: 400, code: 'CHECKSUM_ALGORITHM_UNSUPPORTED' });
+  });
+
+  it('should report uploads that expired or were terminated as gone', async () => {
+    session.status = 'aborted';
+
+    await expect(service.getUpload('upload-1', 'user-1')).rejects.toMatchObject({ statusCode: 410 });
+    await expect(service.appendChunk('upload-1', 'user-1', 0, chunks('abc'))).rejects.toMatchObject({ statusCode: 410 });
+
+    session.status = 'completed';
+    await expect(service.getUpload('upload-1', 'user-1')).resolves.toMatchObject({ offset: 10, length: 10 });
+  });
+
+  it("should hide other users' uploads", async () => {
+    await expect(service.getUpload('upload-1', 'user-2')).rejects.toThrow(NotFoundError);
+    await expect(service.terminateUpload('upload-1', 'user-2')).rejects.toThrow(NotFoundError);
+
+    await service.terminateUpload('upload-1', 'user-1');
+    expect(uploadService.abortMultipartUpload).toHaveBeenCalledWith('upload-1', 'user-1');
+  });
+});
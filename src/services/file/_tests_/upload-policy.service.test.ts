@@ -0,0 +1,132 @@
+// src/services/file/_tests_/upload-policy.service.test.ts
+import { UploadPolicyService } from '../upload-policy.service';
+import { NotFoundError, PlanLimitError, UploadRestrictionError } from '../../../utils/errors';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: {} }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../../repositories/room.repository', () => ({ RoomRepository: class {} }));
+jest.mock('../../../repositories/subscription.repository', () => ({ SubscriptionRepository: class {} }));
+jest.mock('../../../repositories/guest.repository', () => ({ GuestRepository: class {} }));
+jest.mock('../../subscription/subscription.service', () => ({ SubscriptionService: class {} }));
+
+const logger = createTestLogger();
+
+const MB = 1024 * 1024;
+
+describe('UploadPolicyService', () => {
+  let settings: any;
+  let usage: { storage: number };
+  let guests: Record<string, { expiresAt: Date | null }>;
+  let subscriptionService: { assertCanStore: jest.Mock; getRemainingStorage: jest.Mock };
+  let service: UploadPolicyService;
+
+  const upload = (overrides: Record<string, any> = {}) => ({
+    roomId: 'room-1',
+    userId: 'member',
+    fileName: 'report.pdf',
+    size: MB,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    settings = {
+      allowGuestUploads: false,
+      maxFileSize: 10,
+      allowedFileTypes: ['pdf', 'image/*'],
+      storageQuota: 100,
+      security: { encryptAtRest: false }
+    };
+    usage = { storage: 95 * MB };
+    guests = { guest: { expiresAt: null }, expired: { expiresAt: new Date(Date.now() - 1000) } };
+    subscriptionService = {
+      assertCanStore: jest.fn().mockResolvedValue(undefined),
+      getRemainingStorage: jest.fn().mockResolvedValue(undefined)
+    };
+
+    service = new UploadPolicyService(
+      { getSettings: async () => settings } as any,
+      { findCompanyId: async (roomId: string) => roomId === 'room-1' ? 'company-1' : null } as any,
+      { getUsage: async () => usage } as any,
+      { findEntry: async (_companyId: string, userId: string) => guests[userId] || null } as any,
+      subscriptionService as any,
+      logger
+    );
+  });
+
+  it('should refuse uploads from active guests unless the company allows them', async () => {
+    await expect(service.assertUploadAllowed(upload({ userId: 'guest' }))).rejects.toMatchObject({ code: 'GUEST_UPLOADS_DISABLED' });
+    await expect(service.assertUploadAllowed(upload({ userId: 'expired' }))).resolves.toBeUndefined();
+
+    settings.allowGuestUploads = true;
+    await expect(service.assertUploadAllowed(upload({ userId: 'guest' }))).resolves.toBeUndefined();
+  });
+
+  it('should refuse files over the maximum size', async () => {
+    await expect(service.assertUploadAllowed(upload({ size: 11 * MB, additionalBytes: 0 })))
+      .rejects.toMatchObject({ code: 'FILE_TOO_LARGE', details: { max: 10 * MB, actual: 11 * MB } });
+  });
+
+  it('should check the extension and the sniffed content against the allowed types', async () => {
+    await expect(service.assertUploadAllowed(upload({ fileName: 'tool.exe' }))).rejects.toThrow(UploadRestrictionError);
+    await expect(service.assertUploadAllowed(upload({ fileName: 'photo.PNG' }))).resolves.toBeUndefined();
+
+    const executable = Buffer.concat([Buffer.from('MZ'), Buffer.alloc(16)]);
+    await expect(service.assertUploadAllowed(upload({ content: executable, mimeType: 'application/pdf' })))
+      .rejects.toMatchObject({ code: 'FILE_TYPE_NOT_ALLOWED', details: { detectedType: 'application/x-msdownload' } });
+  });
+
+  it("should refuse uploads past the company's storage quota", async () => {
+    await expect(service.assertUploadAllowed(upload({ size: 6 * MB })))
+      .rejects.toMatchObject({ code: 'STORAGE_QUOTA_EXCEEDED', details: { current: 95 * MB, requested: 6 * MB } });
+
+    // A new version only adds the difference
+    await expect(service.assertUploadAllowed(upload({ size: 6 * MB, additionalBytes: 2 * MB }))).resolves.toBeUndefined();
+  });
+
+  it("should check the plan's storage limit through the subscription service", async () => {
+    subscriptionService.assertCanStore.mockRejectedValue(new PlanLimitError('The Free plan allows at most 1 GB of storage'));
+
+    await expect(service.assertUploadAllowed(upload())).rejects.toThrow(PlanLimitError);
+    expect(subscriptionService.assertCanStore).toHaveBeenCalledWith('company-1', MB);
+  });
+
+  it('should still apply the plan when the company has no upload settings', async () => {
+    settings = null;
+
+    await service.assertUploadAllowed(upload({ fileName: 'tool.exe', size: 500 * MB }));
+    await service.checkStorageQuota('room-1', 2 * MB);
+
+    expect(subscriptionService.assertCanStore.mock.calls).toEqual([['company-1', 500 * MB], ['company-1', 2 * MB]]);
+  });
+
+  it('should check quota and plan for storage added outside an upload', async () => {
+    await expect(service.checkStorageQuota('room-1', 6 * MB)).rejects.toMatchObject({ code: 'STORAGE_QUOTA_EXCEEDED' });
+    await service.checkStorageQuota('room-1', 0);
+
+    expect(subscriptionService.assertCanStore).not.toHaveBeenCalled();
+    await expect(service.checkStorageQuota('missing', MB)).rejects.toThrow(NotFoundError);
+  });
+
+  it('should limit an upload to the smallest of the server, file size, quota and plan limits', async () => {
+    await expect(service.getUploadLimit('room-1', 50 * MB)).resolves.toBe(5 * MB);
+    // A new version gets back the bytes of the one it replaces
+    await expect(service.getUploadLimit('room-1', 50 * MB, 3 * MB)).resolves.toBe(8 * MB);
+
+    usage.storage = 0;
+    await expect(service.getUploadLimit('room-1', 50 * MB)).resolves.toBe(10 * MB);
+    await expect(service.getUploadLimit('room-1', 2 * MB)).resolves.toBe(2 * MB);
+
+    subscriptionService.getRemainingStorage.mockResolvedValue(MB);
+    await expect(service.getUploadLimit('room-1', 50 * MB)).resolves.toBe(MB);
+  });
+
+  it('should limit an upload by the server and plan when the company has no upload settings', async () => {
+    settings = null;
+    await expect(service.getUploadLimit('room-1', 50 * MB)).resolves.toBe(50 * MB);
+
+    subscriptionService.getRemainingStorage.mockResolvedValue(0);
+    await expect(service.getUploadLimit('room-1', 50 * MB)).resolves.toBe(0);
+  });
+});
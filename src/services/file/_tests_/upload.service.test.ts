@@ -0,0 +1,274 @@
+// src/services/file/_tests_/upload.service.test.ts
+import axios from 'axios';
+import { Readable } from 'stream';
+import { UploadService } from '../upload.service';
+import { NotFoundError, UploadRestrictionError } from '../../../utils/errors';
+import { createTestLogger, InMemoryMultipartUploadRepository } from '../../../tests/helpers';
+
+jest.mock('axios', () => ({ put: jest.fn() }));
+jest.mock('../../../config/env', () => ({ env: { MULTIPART_UPLOAD_TTL_HOURS: 24 } }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../storage/storage.service', () => ({ StorageService: class {} }));
+jest.mock('../file.service', () => ({ FileService: class {} }));
+jest.mock('../../../repositories/file.repository', () => ({ FileRepository: class {} }));
+jest.mock('../../websocket/websocket.service', () => ({ WebSocketService: class {} }));
+jest.mock('../upload-policy.service', () => ({ UploadPolicyService: class {} }));
+jest.mock('../file-encryption.service', () => ({ FileEncryptionService: class {} }));
+jest.mock('../../../repositories/multipart-upload.repository', () => ({
+  MultipartUploadRepository: class {},
+  RESUMABLE_STATUSES: ['initialized', 'in_progress']
+}));
+
+const logger = createTestLogger();
+
+const MB = 1024 * 1024;
+
+describe('UploadService', () => {
+  let uploadRepository: InMemoryMultipartUploadRepository;
+  let provider: any;
+  let uploadPolicyService: { assertUploadAllowed: jest.Mock; requiresEncryption: jest.Mock };
+  let fileService: { uploadFile: jest.Mock; createRoomDataKey: jest.Mock };
+  let fileEncryption: Record<string, jest.Mock>;
+  let createService: () => UploadService;
+  let service: UploadService;
+
+  const initialize = (overrides: Record<string, any> = {}) => service.initializeMultipartUpload({
+    fileName: 'video.mp4',
+    mimeType: 'video/mp4',
+    totalSize: 12 * MB,
+    roomId: 'room-1',
+    parentId: null,
+    userId: 'user-1',
+    ...overrides
+  });
+
+  // Clients fetch a part's URL, upload to it, then report the part
+  const sendPart = async (uploadId: string, partNumber: number) => {
+    await createService().getUploadPartUrl(uploadId, 'user-1', partNumber, MB);
+    return createService().completePart(uploadId, 'user-1', partNumber, `etag-${partNumber}`);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    uploadRepository = new InMemoryMultipartUploadRepository();
+    provider = {
+      getCapabilities: () => ({
+        supportsMultipartUpload: true,
+        minimumPartSize: 5 * MB,
+        maximumPartSize: 100 * MB,
+        maximumPartCount: 10000
+      }),
+      createMultipartUpload: jest.fn().mockResolvedValue({ success: true, uploadId: 'provider-upload' }),
+      getSignedUrlForPart: jest.fn(async (_key: string, _id: string, partNumber: number) =>
+        ({ success: true, url: `https://storage.example.com/part-${partNumber}` })),
+      completeMultipartUpload: jest.fn().mockResolvedValue({ success: true }),
+      abortMultipartUpload: jest.fn().mockResolvedValue({ success: true }),
+      getFileContent: jest.fn().mockResolvedValue({ success: true, data: Buffer.alloc(18) }),
+      deleteFile: jest.fn().mockResolvedValue({ success: true })
+    };
+    uploadPolicyService = {
+      assertUploadAllowed: jest.fn().mockResolvedValue(undefined),
+      requiresEncryption: jest.fn().mockResolvedValue(false)
+    };
+    const dataKey = { id: 'key-1', key: Buffer.alloc(32), chunkSize: 64 * 1024 };
+    fileService = {
+      uploadFile: jest.fn().mockResolvedValue({ success: true, data: { id: 'file-1' } }),
+      createRoomDataKey: jest.fn().mockResolvedValue(dataKey)
+    };
+    fileEncryption = {
+      getDataKey: jest.fn().mockResolvedValue(dataKey),
+      discardDataKey: jest.fn().mockResolvedValue(undefined),
+      encryptPart: jest.fn((part: Buffer) => Buffer.concat([part, Buffer.alloc(16)])),
+      openStream: jest.fn(async () => ({ stream: Readable.from([Buffer.from('%PDF-1.7')]), contentLength: 8 }))
+    };
+
+    const storageService = {
+      getStorageAccount: async (id: string) => ({ id }),
+      getDefaultStorageAccount: async () => ({ id: 'storage-1' }),
+      getStorageProvider: async () => provider
+    };
+
+    // Each call stands for another instance of the server
+    createService = () => new UploadService(
+      storageService as any,
+      fileService as any,
+      {} as any,
+      { notifyFileTransferStatus: jest.fn() } as any,
+      uploadPolicyService as any,
+      uploadRepository as any,
+      fileEncryption as any,
+      logger
+    );
+    service = createService();
+  });
+
+  it('should let another instance continue and complete an upload', async () => {
+    const { data } = await initialize();
+    expect(data).toMatchObject({ partSize: 5 * MB, totalParts: 3, providerUploadId: 'provider-upload' });
+
+    const url = await createService().getUploadPartUrl(data.uploadId, 'user-1', 2, 5 * MB);
+    expect(url.data.url).toBe('https://storage.example.com/part-2');
+
+    for (const partNumber of [3, 1, 2]) {
+      await sendPart(data.uploadId, partNumber);
+    }
+
+    const result = await createService().completeMultipartUpload(data.uploadId, 'user-1');
+
+    expect(result.success).toBe(true);
+    expect(provider.completeMultipartUpload.mock.calls[0][2].map((part: any) => part.ETag)).toEqual(['etag-1', 'etag-2', 'etag-3']);
+    expect(uploadRepository.parts.find(p => p.partNumber === 3).size).toBe(2 * MB);
+    expect(fileService.uploadFile).toHaveBeenCalledWith(expect.objectContaining({ size: 12 * MB, storageKey: expect.any(String) }));
+    expect(uploadRepository.sessions[0].status).toBe('completed');
+  });
+
+  it('should report the missing parts and let the client retry', async () => {
+    const { data } = await initialize();
+    await sendPart(data.uploadId, 2);
+
+    const result = await service.completeMultipartUpload(data.uploadId, 'user-1');
+
+    expect(result.success).toBe(false);
+    expect(result.error.details).toEqual({ missingParts: [1, 3] });
+    expect(uploadRepository.sessions[0].status).toBe('in_progress');
+  });
+
+  it('should not record a part the provider returned no ETag for', async () => {
+    const { data } = await initialize();
+    const session = await service.getSession(data.uploadId, 'user-1');
+    (axios.put as jest.Mock).mockResolvedValue({ headers: {} });
+
+    await expect(service.uploadPart(session, 1, Buffer.alloc(5 * MB))).rejects.toThrow('no ETag for part 1');
+    expect(uploadRepository.parts).toEqual([]);
+  });
+
+  it('should complete an upload only once', async () => {
+    const { data } = await initialize({ totalSize: MB });
+    await sendPart(data.uploadId, 1);
+
+    const [first, second] = await Promise.all([
+      service.completeMultipartUpload(data.uploadId, 'user-1'),
+      createService().completeMultipartUpload(data.uploadId, 'user-1')
+    ]);
+
+    expect([first.success, second.success]).toEqual([true, false]);
+    expect(fileService.uploadFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the upload and delete the object when its content is not allowed', async () => {
+    const { data } = await initialize({ totalSize: MB });
+    await sendPart(data.uploadId, 1);
+    uploadPolicyService.assertUploadAllowed.mockRejectedValue(new UploadRestrictionError('FILE_TYPE_NOT_ALLOWED', 'Not allowed'));
+
+    const result = await service.completeMultipartUpload(data.uploadId, 'user-1');
+
+    expect(result.error).toBeInstanceOf(UploadRestrictionError);
+    expect(provider.deleteFile).toHaveBeenCalledWith(uploadRepository.sessions[0].storageKey);
+    expect(uploadRepository.sessions[0].status).toBe('failed');
+    expect(fileService.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it("should hide other users' uploads", async () => {
+    const { data } = await initialize();
+
+    const result = await service.getUploadStatus(data.uploadId, 'user-2');
+
+    expect(result.error).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should list the uploads a user can resume with the parts already sent', async () => {
+    const { data } = await initialize();
+    await initialize({ roomId: 'room-2' });
+    await initialize({ userId: 'user-2' });
+    await sendPart(data.uploadId, 1);
+
+    const all = await service.listResumableUploads('user-1');
+    const inRoom = await service.listResumableUploads('user-1', 'room-1');
+
+    expect(all.data).toHaveLength(2);
+    expect(inRoom.data).toEqual([expect.objectContaining({
+      uploadId: data.uploadId,
+      partsCompleted: [1],
+      partsInfo: [{ partNumber: 1, etag: 'etag-1', size: 5 * MB }]
+    })]);
+  });
+
+  it('should refuse direct uploads for companies that encrypt at rest', async () => {
+    uploadPolicyService.requiresEncryption.mockResolvedValue(true);
+
+    const result = await initialize();
+
+    expect(result.error).toMatchObject({ code: 'ENCRYPTION_REQUIRED' });
+    expect(provider.createMultipartUpload).not.toHaveBeenCalled();
+    expect(fileService.createRoomDataKey).not.toHaveBeenCalled();
+  });
+
+  it('should encrypt the parts of uploads sent through the server for companies that encrypt at rest', async () => {
+    uploadPolicyService.requiresEncryption.mockResolvedValue(true);
+    (axios.put as jest.Mock).mockResolvedValue({ headers: { etag: '"etag-1"' } });
+    const { data } = await initialize({ totalSize: 1000, throughServer: true });
+    const session = await service.getSession(data.uploadId, 'user-1');
+
+    await expect(service.getUploadPartUrl(data.uploadId, 'user-1', 1, 1000))
+      .resolves.toMatchObject({ error: { code: 'ENCRYPTION_REQUIRED' } });
+    await service.uploadPart(session, 1, Buffer.alloc(1000));
+
+    expect(session).toMatchObject({ encryptionKeyId: 'key-1', partSize: 5 * MB });
+    expect(fileEncryption.encryptPart).toHaveBeenCalledWith(Buffer.alloc(1000), expect.objectContaining({ id: 'key-1' }), 0, true);
+    expect((axios.put as jest.Mock).mock.calls[0][1]).toHaveLength(1016);
+    expect(uploadRepository.parts).toEqual([expect.objectContaining({ partNumber: 1, size: 1000 })]);
+
+    await expect(service.completeMultipartUpload(data.uploadId, 'user-1')).resolves.toMatchObject({ success: true });
+    // The type check reads the decrypted content
+    expect(uploadPolicyService.assertUploadAllowed).toHaveBeenLastCalledWith(expect.objectContaining({
+      content: Buffer.from('%PDF-1.7')
+    }));
+    expect(fileService.uploadFile).toHaveBeenCalledWith(expect.objectContaining({
+      encryption: 'server_side',
+      encryptionKey: 'key-1'
+    }));
+  });
+
+  it('should discard the data key of an aborted encrypted upload', async () => {
+    uploadPolicyService.requiresEncryption.mockResolvedValue(true);
+    const { data } = await initialize({ throughServer: true });
+
+    await service.abortMultipartUpload(data.uploadId, 'user-1');
+
+    expect(fileEncryption.discardDataKey).toHaveBeenCalledWith('key-1');
+  });
+
+  it('should abort uploads that expired with their provider', async () => {
+    const { data: expired } = await initialize();
+    const { data: active } = await initialize();
+    uploadRepository.sessions[0].expiresAt = new Date(Date.now() - 1000);
+    // The provider already dropped it
+    provider.abortMultipartUpload.mockResolvedValue({ success: false, message: 'NoSuchUpload' });
+
+    const result = await service.abortExpiredUploads();
+
+    expect(result).toEqual({ aborted: 1, failed: 0 });
+    expect(provider.abortMultipartUpload).toHaveBeenCalledWith(expect.any(String), 'provider-upload');
+    expect(uploadRepository.sessions.map(s => [s.id, s.status])).toEqual([
+      [expired.uploadId, 'aborted'],
+      [active.uploadId, 'initialized']
+    ]);
+    expect((await service.getUploadPartUrl(expired.uploadId, 'user-1', 1, MB)).success).toBe(false);
+  });
+
+  it('should sweep only once started', () => {
+    jest.useFakeTimers();
+    try {
+      const sweep = jest.spyOn(service, 'abortExpiredUploads').mockResolvedValue({ aborted: 0, failed: 0 });
+
+      service.startSweeper(1000);
+      jest.advanceTimersByTime(1000);
+      service.stopSweeper();
+      jest.advanceTimersByTime(5000);
+
+      expect(sweep).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
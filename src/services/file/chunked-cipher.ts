@@ -0,0 +1,246 @@
+// src/services/file/chunked-cipher.ts
+import crypto from 'crypto';
+import { ByteRange } from '../storage/types';
+import { StorageError } from '../storage/errors';
+import { splitIntoParts } from '../storage/upload-stream';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+// Each stored chunk carries its own nonce and tag
+const CHUNK_OVERHEAD = IV_LENGTH + TAG_LENGTH;
+
+export const KEY_LENGTH = 32;
+
+/**
+ * Encrypt a small value with a random nonce. The context (for keys, the id
+ * of the record holding the wrapped key) is authenticated too, so sealed
+ * bytes copied to another record will not open.
+ */
+export function sealBytes(data: Buffer, key: Buffer, context: string): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context));
+
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+export function openBytes(sealed: Buffer, key: Buffer, context: string): Buffer {
+  if (sealed.length < IV_LENGTH + TAG_LENGTH) {
+    throw new StorageError('Encrypted data is truncated');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  } catch (error: any) {
+    throw new StorageError('Failed to decrypt data', error);
+  }
+}
+
+export function wrapKey(key: Buffer, wrappingKey: Buffer, context: string): string {
+  return sealBytes(key, wrappingKey, context).toString('base64');
+}
+
+export function unwrapKey(wrapped: string, wrappingKey: Buffer, context: string): Buffer {
+  try {
+    return openBytes(Buffer.from(wrapped, 'base64'), wrappingKey, context);
+  } catch (error: any) {
+    throw new StorageError('Failed to unwrap encryption key', error.details ?? error);
+  }
+}
+
+/**
+ * Chunks that content of this size is encrypted in. Empty content still
+ * gets one, so content truncated to nothing does not decrypt.
+ */
+export function chunkCount(plainSize: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(plainSize / chunkSize));
+}
+
+export function encryptedSize(plainSize: number, chunkSize: number): number {
+  return plainSize + chunkCount(plainSize, chunkSize) * CHUNK_OVERHEAD;
+}
+
+/**
+ * Where a plaintext range lives in the encrypted content
+ */
+export interface EncryptedRange {
+  // Stored bytes holding the chunks that cover the range
+  stored: ByteRange;
+  firstChunk: number;
+  lastChunk: number;
+  // Plaintext bytes before the range in its first chunk
+  skip: number;
+}
+
+export function encryptedRange(range: ByteRange, plainSize: number, chunkSize: number): EncryptedRange {
+  const sealedSize = chunkSize + CHUNK_OVERHEAD;
+  const firstChunk = Math.floor(range.start / chunkSize);
+  const lastChunk = Math.floor(range.end / chunkSize);
+
+  return {
+    stored: {
+      start: firstChunk * sealedSize,
+      end: Math.min((lastChunk + 1) * sealedSize, encryptedSize(plainSize, chunkSize)) - 1
+    },
+    firstChunk,
+    lastChunk,
+    skip: range.start - firstChunk * chunkSize
+  };
+}
+
+/**
+ * A chunk's position and whether it is the last one are authenticated with
+ * it, so chunks cannot be moved or dropped
+ */
+function chunkAad(index: number, final: boolean): Buffer {
+  const aad = Buffer.alloc(9);
+  aad.writeBigUInt64BE(BigInt(index));
+  aad[8] = final ? 1 : 0;
+
+  return aad;
+}
+
+/**
+ * Every chunk gets a random nonce, stored in front of it. A part written
+ * again with different bytes (a retried upload) must not reuse one under
+ * the same key.
+ */
+function sealChunk(chunk: Buffer, key: Buffer, index: number, final: boolean): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(chunkAad(index, final));
+
+  return Buffer.concat([iv, cipher.update(chunk), cipher.final(), cipher.getAuthTag()]);
+}
+
+function openChunk(sealed: Buffer, key: Buffer, index: number, final: boolean): Buffer {
+  if (sealed.length < CHUNK_OVERHEAD) {
+    throw new StorageError(`Encrypted chunk ${index} is truncated`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_LENGTH));
+    decipher.setAAD(chunkAad(index, final));
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+
+    return Buffer.concat([
+      decipher.update(sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH)),
+      decipher.final()
+    ]);
+  } catch (error: any) {
+    throw new StorageError(`Failed to decrypt chunk ${index}`, error);
+  }
+}
+
+/**
+ * Encrypt content in chunks of chunkSize plaintext bytes, each stored with
+ * its own nonce and tag, so any range can be decrypted without reading what comes
+ * before it. Chunks cannot be reordered, dropped or cut off without
+ * decryption failing.
+ */
+export async function* encryptChunks(
+  source: AsyncIterable<Buffer | string>,
+  key: Buffer,
+  chunkSize: number
+): AsyncGenerator<Buffer> {
+  let index = 0;
+  let pending: Buffer | undefined;
+
+  // Hold one chunk back: only once the source ends is it known to be the last
+  for await (const chunk of splitIntoParts(source, chunkSize)) {
+    if (pending) {
+      yield sealChunk(pending, key, index++, false);
+    }
+    pending = chunk;
+  }
+
+  yield sealChunk(pending || Buffer.alloc(0), key, index, true);
+}
+
+/**
+ * Encrypt one part of content written in parts, in the layout encryptChunks
+ * gives that stretch. The part must start on a chunk
+ * boundary (offset is where it starts in the content) and hold whole chunks
+ * unless it is the last.
+ */
+export function encryptPart(part: Buffer, key: Buffer, chunkSize: number, offset: number, last: boolean): Buffer {
+  if (offset % chunkSize !== 0 || (!last && part.length % chunkSize !== 0)) {
+    throw new StorageError('Encrypted parts must hold whole chunks');
+  }
+
+  const first = offset / chunkSize;
+  const count = last ? chunkCount(part.length, chunkSize) : part.length / chunkSize;
+  const sealed: Buffer[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const chunk = part.subarray(i * chunkSize, (i + 1) * chunkSize);
+    sealed.push(sealChunk(chunk, key, first + i, last && i === count - 1));
+  }
+
+  return Buffer.concat(sealed);
+}
+
+/**
+ * Decrypt the chunks firstChunk to lastChunk of content that was encrypted
+ * in totalChunks chunks
+ */
+export async function* decryptChunks(
+  source: AsyncIterable<Buffer | string>,
+  key: Buffer,
+  chunkSize: number,
+  chunks: { firstChunk: number; lastChunk: number; totalChunks: number }
+): AsyncGenerator<Buffer> {
+  let index = chunks.firstChunk;
+
+  for await (const sealed of splitIntoParts(source, chunkSize + CHUNK_OVERHEAD)) {
+    if (index > chunks.lastChunk) {
+      throw new StorageError('Encrypted content is longer than expected');
+    }
+    yield openChunk(sealed, key, index, index === chunks.totalChunks - 1);
+    index++;
+  }
+
+  if (index <= chunks.lastChunk) {
+    throw new StorageError('Encrypted content is truncated');
+  }
+}
+
+/**
+ * Drop the first skip bytes of a stream and end it after length more
+ */
+export async function* sliceBytes(
+  source: AsyncIterable<Buffer>,
+  skip: number,
+  length: number
+): AsyncGenerator<Buffer> {
+  if (length <= 0) {
+    return;
+  }
+
+  let remaining = length;
+
+  for await (let chunk of source) {
+    if (skip > 0) {
+      const skipped = Math.min(skip, chunk.length);
+      chunk = chunk.subarray(skipped);
+      skip -= skipped;
+    }
+
+    if (chunk.length === 0) {
+      continue;
+    }
+
+    yield chunk.subarray(0, remaining);
+    remaining -= Math.min(chunk.length, remaining);
+
+    if (remaining === 0) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,246 @@
+// src/services/file/file-encryption.service.ts
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { NotFoundError } from '../../utils/errors';
+import { EncryptionKeyRepository } from '../../repositories/encryption-key.repository';
+import { StorageError } from '../storage/errors';
+import { StorageProvider, ByteRange } from '../storage/types';
+import {
+  KEY_LENGTH,
+  wrapKey,
+  unwrapKey,
+  sealBytes,
+  openBytes,
+  chunkCount,
+  encryptedSize,
+  encryptedRange,
+  encryptChunks,
+  encryptPart,
+  decryptChunks,
+  sliceBytes
+} from './chunked-cipher';
+import { env } from '../../config/env';
+
+// Plaintext bytes per encrypted chunk; recorded with each data key so it can change later
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * An unwrapped data key, only ever held in memory
+ */
+export interface FileDataKey {
+  id: string;
+  key: Buffer;
+  chunkSize: number;
+}
+
+/**
+ * Envelope encryption for file content at rest. Each file is encrypted with
+ * its own random data key; data keys are stored wrapped by their company's
+ * master key, and master keys are stored wrapped by the deployment's root
+ * key, so storage providers only ever see ciphertext.
+ */
+@injectable()
+export class FileEncryptionService {
+  private readonly rootKey?: Buffer;
+  // Unwrapped master keys by id; a master key never changes once created
+  private masterKeys = new Map<string, Buffer>();
+
+  constructor(
+    @inject('EncryptionKeyRepository') private keyRepository: EncryptionKeyRepository,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('FileEncryptionService');
+    this.rootKey = env.FILE_ENCRYPTION_KEY ? Buffer.from(env.FILE_ENCRYPTION_KEY, 'hex') : undefined;
+  }
+
+  /**
+   * Whether a root key is configured
+   */
+  isAvailable(): boolean {
+    return this.rootKey !== undefined;
+  }
+
+  /**
+   * Generate a data key for a new upload, wrapped by the company's active
+   * master key
+   */
+  async createDataKey(companyId: string): Promise<FileDataKey> {
+    const masterKey = await this.getActiveMasterKey(companyId);
+    const id = uuidv4();
+    const key = crypto.randomBytes(KEY_LENGTH);
+
+    await this.keyRepository.createDataKey({
+      id,
+      companyId,
+      masterKeyId: masterKey.id,
+      wrappedKey: wrapKey(key, masterKey.key, id),
+      chunkSize: CHUNK_SIZE
+    });
+
+    return { id, key, chunkSize: CHUNK_SIZE };
+  }
+
+  async getDataKey(id: string): Promise<FileDataKey> {
+    const record = await this.keyRepository.findDataKey(id);
+    if (!record) {
+      throw new NotFoundError('Encryption key', id);
+    }
+
+    const masterKey = await this.getMasterKey(record.masterKeyId);
+    return { id, key: unwrapKey(record.wrappedKey, masterKey, id), chunkSize: record.chunkSize };
+  }
+
+  /**
+   * Remove the data key of an upload that never made it into a file
+   */
+  async discardDataKey(id: string): Promise<void> {
+    await this.keyRepository.deleteDataKey(id).catch(error => {
+      this.logger.error('Failed to discard unused data key', { dataKeyId: id, error });
+    });
+  }
+
+  /**
+   * Delete a data key, leaving whatever it encrypted unreadable
+   */
+  async deleteDataKey(id: string): Promise<void> {
+    await this.keyRepository.deleteDataKey(id);
+  }
+
+  /**
+   * Delete data keys once no file or version uses them any more, which makes
+   * whatever is left of their content in storage unreadable. References from
+   * the file being removed (exceptFileId) are not counted.
+   */
+  async shredDataKeys(ids: Array<string | null>, exceptFileId: string): Promise<number> {
+    let shredded = 0;
+
+    for (const id of new Set(ids.filter((id): id is string => !!id))) {
+      if (await this.keyRepository.countDataKeyReferences(id, exceptFileId) > 0) {
+        continue;
+      }
+
+      await this.deleteDataKey(id);
+      shredded++;
+    }
+
+    if (shredded > 0) {
+      this.logger.info('Shredded unused data keys', { fileId: exceptFileId, count: shredded });
+    }
+
+    return shredded;
+  }
+
+  encrypt(content: AsyncIterable<Buffer>, dataKey: FileDataKey): AsyncGenerator<Buffer> {
+    return encryptChunks(content, dataKey.key, dataKey.chunkSize);
+  }
+
+  /**
+   * Encrypt one part of content uploaded in parts. Parts start at offset in
+   * the content and, but for the last, hold whole chunks.
+   */
+  encryptPart(part: Buffer, dataKey: FileDataKey, offset: number, last: boolean): Buffer {
+    return encryptPart(part, dataKey.key, dataKey.chunkSize, offset, last);
+  }
+
+  encryptedSize(plainSize: number, dataKey: FileDataKey): number {
+    return encryptedSize(plainSize, dataKey.chunkSize);
+  }
+
+  /**
+   * Encrypt bytes kept aside on the way to becoming content, such as those
+   * staged between resumable upload requests. They only open with the same
+   * context.
+   */
+  seal(data: Buffer, dataKey: FileDataKey, context: string): Buffer {
+    return sealBytes(data, dataKey.key, context);
+  }
+
+  open(sealed: Buffer, dataKey: FileDataKey, context: string): Buffer {
+    return openBytes(sealed, dataKey.key, context);
+  }
+
+  /**
+   * Open the plaintext of an encrypted file, or a range of it. Only the
+   * chunks covering the range are read from storage.
+   */
+  async openStream(
+    provider: StorageProvider,
+    storageKey: string,
+    dataKey: FileDataKey,
+    plainSize: number,
+    range?: ByteRange
+  ): Promise<{ stream: Readable; contentLength: number }> {
+    if (plainSize === 0) {
+      return { stream: Readable.from([]), contentLength: 0 };
+    }
+
+    const wanted = range || { start: 0, end: plainSize - 1 };
+    const location = encryptedRange(wanted, plainSize, dataKey.chunkSize);
+
+    const result = await provider.getFileStream(storageKey, location.stored);
+    if (!result.success || !result.stream) {
+      throw new StorageError(result.message || 'Failed to open file content', result.error);
+    }
+
+    const source = result.stream;
+    const contentLength = wanted.end - wanted.start + 1;
+    const plaintext = decryptChunks(source, dataKey.key, dataKey.chunkSize, {
+      firstChunk: location.firstChunk,
+      lastChunk: location.lastChunk,
+      totalChunks: chunkCount(plainSize, dataKey.chunkSize)
+    });
+
+    const stream = Readable.from(sliceBytes(plaintext, location.skip, contentLength));
+    // Stop reading from storage if the consumer goes away early
+    stream.on('close', () => source.destroy());
+
+    return { stream, contentLength };
+  }
+
+  /**
+   * The company's active master key, created on first use
+   */
+  private async getActiveMasterKey(companyId: string): Promise<{ id: string; key: Buffer }> {
+    const rootKey = this.requireRootKey();
+    const existing = await this.keyRepository.findActiveMasterKey(companyId);
+
+    if (existing) {
+      return { id: existing.id, key: await this.getMasterKey(existing.id) };
+    }
+
+    const id = uuidv4();
+    const key = crypto.randomBytes(KEY_LENGTH);
+    await this.keyRepository.createMasterKey({ id, companyId, wrappedKey: wrapKey(key, rootKey, id) });
+    this.masterKeys.set(id, key);
+
+    this.logger.info('Created company master key', { companyId, masterKeyId: id });
+    return { id, key };
+  }
+
+  private async getMasterKey(id: string): Promise<Buffer> {
+    const cached = this.masterKeys.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const rootKey = this.requireRootKey();
+    const record = await this.keyRepository.findMasterKey(id);
+    if (!record) {
+      throw new NotFoundError('Master key', id);
+    }
+
+    const key = unwrapKey(record.wrappedKey, rootKey, id);
+    this.masterKeys.set(id, key);
+    return key;
+  }
+
+  private requireRootKey(): Buffer {
+    if (!this.rootKey) {
+      throw new StorageError('File encryption is not configured');
+    }
+    return this.rootKey;
+  }
+}
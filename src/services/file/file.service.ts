@@ -1,13 +1,26 @@
 // src/services/file/file.service.ts
 import { injectable, inject } from 'inversify';
 import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import { Readable } from 'stream';
 import { Logger } from '../../utils/logger';
 import { FileRepository, FileEntity, FileVersionEntity, CreateFileParams, FILE_TYPES, ENCRYPTION_TYPES } from '../../repositories/file.repository';
 import { StorageService } from '../storage/storage.service';
-import { StorageProvider, SignedUrlOptions } from '../storage/types';
+import { StorageProvider, SignedUrlOptions, ByteRange } from '../storage/types';
 import { NotFoundError, ValidationError, ForbiddenError, AccessDeniedError } from '../../utils/errors';
 import { WebSocketService } from '../websocket/websocket.service';
 import { RoomRepository } from '../../repositories/room.repository';
+import { ActivityService } from '../activity/activity.service';
+import { SearchRepository, FileSearchIndexEntry } from '../../repositories/search.repository';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { FileSearchIndexer } from '../search/file-search-indexer';
+import { UploadPolicyService } from './upload-policy.service';
+import { StreamingUploadService, StreamUploadResult } from '../storage/streaming-upload.service';
+import { FileEncryptionService, FileDataKey } from './file-encryption.service';
+import { RetentionService } from '../retention/retention.service';
+
+// Largest upload accepted when the caller sets no limit of its own
+const DEFAULT_MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
 
 export interface UploadFileParams {
   name: string;
@@ -18,12 +31,60 @@ export interface UploadFileParams {
   userId: string;
   buffer?: Buffer;
   tempFilePath?: string;
+  // Content written to storage as it arrives; size is then what the client
+  // declared, or 0 if unknown
+  stream?: Readable;
+  // Largest upload the route it arrived through accepts
+  maxBytes?: number;
+  // SHA-256 the client computed, checked against the content received
+  checksum?: string;
   storageId?: string;
   encryption?: typeof ENCRYPTION_TYPES[number];
   encryptionKey?: string;
   storageKey?: string; 
   metadata?: any;
   deleteAfter?: Date;
+  fileId?: string; // Existing file to upload a new version of
+}
+
+export interface FileSearchParams {
+  query?: string;
+  fileTypes?: string[];
+  mimeTypes?: string[];
+  minSize?: number;
+  maxSize?: number;
+  createdBefore?: Date;
+  createdAfter?: Date;
+  updatedBefore?: Date;
+  updatedAfter?: Date;
+  tags?: string[];
+  sort?: { field: string; direction: 'asc' | 'desc' };
+  page?: number;
+  limit?: number;
+}
+
+export interface CompanyFileSearchParams {
+  query?: string;
+  mimeTypes?: string[];
+  uploaderIds?: string[];
+  roomIds?: string[];
+  minSize?: number;
+  maxSize?: number;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  tags?: string[];
+  cursor?: string;
+  limit?: number;
+  // Narrows the searched rooms further, e.g. to those whose access policies allow the request
+  filterRooms?: (roomIds: string[]) => Promise<string[]>;
+}
+
+/**
+ * Content written to storage, and how it is encrypted there
+ */
+interface StoredContent extends StreamUploadResult {
+  encryption: typeof ENCRYPTION_TYPES[number];
+  encryptionKeyId?: string;
 }
 
 export interface FileOperationResult {
@@ -40,7 +101,15 @@ export class FileService {
     @inject('StorageService') private storageService: StorageService,
     @inject('WebSocketService') private wsService: WebSocketService,
     @inject('Logger') private logger: Logger,
-    @inject('RoomRepository') private roomRepository: RoomRepository
+    @inject('RoomRepository') private roomRepository: RoomRepository,
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('SearchRepository') private searchRepository: SearchRepository,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('FileSearchIndexer') private fileSearchIndexer: FileSearchIndexer,
+    @inject('UploadPolicyService') private uploadPolicyService: UploadPolicyService,
+    @inject('StreamingUploadService') private streamingUploadService: StreamingUploadService,
+    @inject('FileEncryptionService') private fileEncryption: FileEncryptionService,
+    @inject('RetentionService') private retentionService: RetentionService
   ) {
     this.logger = logger.createChildLogger('FileService');
   }
@@ -60,11 +129,12 @@ export class FileService {
   /**
    * Get files in a directory
    */
-  async getFilesInDirectory(roomId: string, parentId: string | null = null): Promise<FileEntity[]> {
+  async getFilesInDirectory(roomId: string, parentId: string | null = null, tags?: string[]): Promise<FileEntity[]> {
     try {
       return await this.fileRepository.findByRoomId(roomId, {
         parentId,
-        includeDeleted: false
+        includeDeleted: false,
+        tags
       });
     } catch (error: any) {
       this.logger.error('Error getting files in directory', { roomId, parentId, error });
@@ -127,6 +197,7 @@ export class FileService {
       };
 
       const folder = await this.fileRepository.create(folderParams);
+      await this.fileSearchIndexer.indexFile(folder.id);
 
       this.logger.info('Folder created', { 
         folderId: folder.id, 
@@ -143,19 +214,34 @@ export class FileService {
   }
 
   /**
-   * Upload a new file
+   * Upload a new file. Pass storageKey instead of content to record a file
+   * that is already in storage, such as a completed multipart upload.
    */
   async uploadFile(params: UploadFileParams): Promise<FileOperationResult> {
     try {
       // Validate input
-      if (!params.name || !params.roomId || !params.userId) {
+      if (!params.name || !params.userId || (!params.roomId && !params.fileId)) {
         throw new ValidationError('Missing required fields: name, roomId, userId');
       }
 
-      if (!params.buffer && !params.tempFilePath) {
-        throw new ValidationError('Either buffer or tempFilePath must be provided');
+      if (!params.buffer && !params.tempFilePath && !params.stream && !params.storageKey) {
+        throw new ValidationError('Either buffer, tempFilePath, stream or storageKey must be provided');
       }
 
+      // Uploading to an existing file adds a new version instead of a new file
+      if (params.fileId) {
+        return await this.uploadNewVersion(params.fileId, params);
+      }
+
+      await this.uploadPolicyService.assertUploadAllowed({
+        roomId: params.roomId,
+        userId: params.userId,
+        fileName: params.name,
+        size: params.buffer ? params.buffer.length : params.size,
+        mimeType: params.mimeType,
+        content: params.buffer
+      });
+
       // Get storage account
       const storageId = params.storageId;
       let storageAccount;
@@ -179,7 +265,7 @@ export class FileService {
 
       // Generate storage key
       const fileId = uuidv4();
-      const storageKey = `rooms/${params.roomId}/files/${fileId}/${params.name}`;
+      const storageKey = params.storageKey || `rooms/${params.roomId}/files/${fileId}/${params.name}`;
 
       // Check for existing file with same name
       const existingFiles = await this.fileRepository.findByRoomId(params.roomId, {
@@ -196,45 +282,49 @@ export class FileService {
       }
 
       // Upload file to storage provider
-      const uploadResult = await this.uploadToStorage(
-        provider, 
-        storageKey, 
-        params.mimeType, 
-        params.buffer, 
-        params.tempFilePath
-      );
-
-      if (!uploadResult.success) {
-        throw new Error(uploadResult.message || 'Failed to upload file to storage');
+      let stored: StoredContent | undefined;
+      if (!params.storageKey) {
+        stored = await this.uploadToStorage(provider, storageKey, params, {
+          roomId: params.roomId,
+          fileId,
+          fileName: params.name
+        });
       }
+      const size = stored ? stored.size : params.size;
+      // The provider may have stored the content under a key of its own
+      const storedKey = stored ? stored.key : storageKey;
 
       // Create file record
       const fileParams: CreateFileParams = {
         name: params.name,
         originalName: params.name,
         mimeType: params.mimeType,
-        size: params.size,
+        size,
         fileType: 'file',
         parentId: params.parentId || undefined,
         storageId: storageAccount.id,
         roomId: params.roomId,
         uploadedById: params.userId,
-        storageKey: storageKey,
-        encryption: params.encryption || 'none',
-        encryptionKeyId: params.encryptionKey,
+        storageKey: storedKey,
+        encryption: stored ? stored.encryption : params.encryption || 'none',
+        encryptionKeyId: stored ? stored.encryptionKeyId : params.encryptionKey,
+        checksum: stored?.sha256,
         metadata: params.metadata,
         deleteAfter: params.deleteAfter
       };
 
       const file = await this.fileRepository.create(fileParams);
+      await this.fileSearchIndexer.indexFile(file.id);
 
       // Create initial version
       await this.fileRepository.createVersion({
         fileId: file.id,
-        size: params.size,
-        storageKey: storageKey,
+        size,
+        storageKey: storedKey,
         uploadedById: params.userId,
-        encryptionKeyId: params.encryptionKey
+        encryption: fileParams.encryption,
+        encryptionKeyId: fileParams.encryptionKeyId,
+        checksum: stored?.sha256
       });
 
       // Log the action
@@ -243,7 +333,19 @@ export class FileService {
         userId: params.userId,
         action: 'upload',
         metadata: {
-          size: params.size,
+          size,
+          mimeType: params.mimeType
+        }
+      });
+
+      await this.activityService.createActivity({
+        type: 'upload',
+        userId: params.userId,
+        fileId: file.id,
+        roomId: file.roomId,
+        metadata: {
+          fileName: file.name,
+          size,
           mimeType: params.mimeType
         }
       });
@@ -276,67 +378,153 @@ export class FileService {
   }
 
   /**
-   * Upload file to storage provider
+   * Write an upload's content to storage, reporting progress to the room.
+   * The upload is cut off past the smallest of the route's limit and the
+   * company's size, quota and plan limits, and its type is checked from its
+   * first bytes before any of it is written. Streamed content is checked
+   * again against the company's upload settings and the client's checksum
+   * once it has arrived, and is deleted from storage if it fails. Content is
+   * encrypted on the way when the client asks for it or the company requires it.
    */
   private async uploadToStorage(
     provider: StorageProvider,
     key: string,
-    contentType: string,
-    buffer?: Buffer,
-    tempFilePath?: string
-  ): Promise<FileOperationResult> {
-    try {
-      // For small files, use direct upload
-      if (buffer) {
-        // Get signed URL for upload
-        const urlResult = await provider.getSignedUrl(key, {
-          operation: 'write',
-          expiresIn: 3600,
-          contentType: contentType
-        });
+    params: UploadFileParams,
+    target: { roomId: string; fileId: string; fileName: string; replacedBytes?: number }
+  ): Promise<StoredContent> {
+    const source = params.stream
+      || (params.buffer ? Readable.from([params.buffer]) : fs.createReadStream(params.tempFilePath!));
+    const totalBytes = params.size > 0 ? params.size : undefined;
 
-        if (!urlResult.success || !urlResult.url) {
-          throw new Error('Failed to get signed URL for upload');
-        }
+    const notify = (status: 'in_progress' | 'completed' | 'error', bytes: number, error?: string) => {
+      this.wsService.notifyFileTransferStatus(target.roomId, {
+        fileId: target.fileId,
+        type: 'upload',
+        status,
+        progress: status === 'completed' ? 100 : totalBytes ? Math.min(99, Math.floor(bytes / totalBytes * 100)) : 0,
+        bytesTransferred: bytes,
+        totalBytes,
+        error,
+        userId: params.userId
+      });
+    };
 
-        // Upload file using the signed URL
-        // This is a simplified example, in real implementation you would use fetch or axios
-        // to upload the buffer to the signed URL
-        // const uploadResponse = await fetch(urlResult.url, {
-        //   method: 'PUT',
-        //   body: buffer,
-        //   headers: {
-        //     'Content-Type': contentType
-        //   }
-        // });
-        
-        // For demonstration purposes, we'll assume success
-        return {
-          success: true,
-          message: 'File uploaded to storage successfully'
-        };
-      } 
-      else if (tempFilePath) {
-        // For large files, implement multipart upload here
-        // This is a placeholder for actual multipart upload implementation
-        this.logger.info('Starting multipart upload for large file', { key });
-        
-        // Return placeholder success
-        return {
-          success: true,
-          message: 'Large file uploaded to storage successfully'
-        };
+    const dataKey = await this.createDataKeyFor(target.roomId, params);
+
+    let stored: StreamUploadResult;
+    try {
+      stored = await this.streamingUploadService.upload(provider, key, source, {
+        contentType: params.mimeType,
+        maxBytes: await this.uploadPolicyService.getUploadLimit(
+          target.roomId,
+          params.maxBytes ?? DEFAULT_MAX_UPLOAD_BYTES,
+          target.replacedBytes
+        ),
+        inspect: head => this.uploadPolicyService.assertContentAllowed({
+          roomId: target.roomId,
+          userId: params.userId,
+          fileName: target.fileName,
+          size: params.size,
+          mimeType: params.mimeType,
+          content: head
+        }),
+        onProgress: bytes => notify('in_progress', bytes),
+        encrypt: dataKey ? content => this.fileEncryption.encrypt(content, dataKey) : undefined
+      });
+    } catch (error: any) {
+      this.logger.error('Error uploading to storage', { key, error });
+      if (dataKey) {
+        await this.fileEncryption.discardDataKey(dataKey.id);
       }
-      else {
-        throw new Error('Either buffer or tempFilePath must be provided');
+      notify('error', 0, error.message);
+      throw error;
+    }
+
+    try {
+      if (params.checksum && params.checksum.toLowerCase() !== stored.sha256) {
+        throw new ValidationError('The uploaded content does not match its checksum', {
+          expected: params.checksum,
+          actual: stored.sha256
+        });
+      }
+
+      if (params.stream) {
+        const additionalBytes = stored.size - (target.replacedBytes || 0);
+        await this.uploadPolicyService.assertUploadAllowed({
+          roomId: target.roomId,
+          userId: params.userId,
+          fileName: target.fileName,
+          size: stored.size,
+          mimeType: params.mimeType,
+          content: stored.head,
+          additionalBytes
+        });
       }
     } catch (error: any) {
-      this.logger.error('Error uploading to storage', { key, error });
-      return {
-        success: false,
-        message: error.message || 'Failed to upload to storage',
-        error
-      };
+      await provider.deleteFile(stored.key).catch(deleteError => {
+        this.logger.error('Failed to delete rejected upload from storage', { key: stored.key, error: deleteError });
+      });
+      if (dataKey) {
+        await this.fileEncryption.discardDataKey(dataKey.id);
+      }
+      notify('error', stored.size, error.message);
+      throw error;
+    }
+
+    notify('completed', stored.size);
+    return dataKey
+      ? { ...stored, encryption: 'server_side', encryptionKeyId: dataKey.id }
+      : { ...stored, encryption: params.encryption || 'none', encryptionKeyId: params.encryptionKey };
+  }
+
+  /**
+   * A new data key when the upload is to be encrypted at rest. Content the
+   * client encrypted itself is stored as it is.
+   */
+  private async createDataKeyFor(roomId: string, params: UploadFileParams): Promise<FileDataKey | undefined> {
+    if (params.encryption === 'client_side') {
+      return undefined;
+    }
+
+    const required = params.encryption === 'server_side'
+      || await this.uploadPolicyService.requiresEncryption(roomId);
+    return required ? this.createRoomDataKey(roomId) : undefined;
+  }
+
+  /**
+   * A new data key for content uploaded to a room, wrapped by its company's
+   * master key
+   */
+  async createRoomDataKey(roomId: string): Promise<FileDataKey> {
+    if (!this.fileEncryption.isAvailable()) {
+      throw new ValidationError('Server-side encryption is not available on this server');
+    }
+
+    const companyId = await this.roomRepository.findCompanyId(roomId);
+    if (!companyId) {
+      throw new NotFoundError('Room', roomId);
+    }
+
+    return this.fileEncryption.createDataKey(companyId);
+  }
+
+  /**
+   * Data key of a file or version stored with server-side encryption
+   */
+  private async getDataKey(entity: { encryptionKeyId: string | null }): Promise<FileDataKey> {
+    if (!entity.encryptionKeyId) {
+      throw new Error('Encrypted content has no data key');
+    }
+    return this.fileEncryption.getDataKey(entity.encryptionKeyId);
+  }
+
+  /**
+   * Signed storage URLs hand out the stored bytes as they are, which for
+   * encrypted content is ciphertext
+   */
+  private assertDirectlyDownloadable(entity: { encryption: typeof ENCRYPTION_TYPES[number] }): void {
+    if (entity.encryption === 'server_side') {
+      throw new ValidationError('This file is encrypted at rest; download it through its stream endpoint instead');
     }
   }
 
@@ -357,6 +545,8 @@ export class FileService {
         throw new ForbiddenError('You do not have permission to download this file');
       }
       
+      this.assertDirectlyDownloadable(file);
+      
       // Get provider
       const provider = await this.storageService.getStorageProvider(file.storageId);
       
@@ -371,6 +561,16 @@ export class FileService {
       if (!urlResult.success) {
         throw new Error(urlResult.message || 'Failed to get download URL');
       }
+
+      await this.activityService.createActivity({
+        type: 'download',
+        userId,
+        fileId: file.id,
+        roomId: file.roomId,
+        metadata: {
+          fileName: file.name
+        }
+      });
       
       // Notify download start
       this.wsService.notifyFileTransferStatus(file.roomId, {
@@ -571,6 +771,7 @@ export class FileService {
       
       // Update the file
       const updatedFile = await this.fileRepository.update(fileId, updates);
+      await this.fileSearchIndexer.indexFile(fileId);
       
       // Log the action
       await this.fileRepository.createLog({
@@ -629,9 +830,15 @@ export class FileService {
   }
 
   /**
-   * Delete a file or folder
+   * Delete a file or folder. Items trashed along with a folder remember it
+   * as trashedWithId, so restoring the folder brings back only those.
    */
-  async deleteFile(fileId: string, userId: string, permanent: boolean = false): Promise<FileOperationResult> {
+  async deleteFile(
+    fileId: string,
+    userId: string,
+    permanent: boolean = false,
+    trashedWithId?: string
+  ): Promise<FileOperationResult> {
     try {
       const file = await this.fileRepository.findById(fileId);
       
@@ -644,50 +851,63 @@ export class FileService {
       }
       
       if (file.fileType === 'folder') {
-        // For folders, we need to handle all children
+        // For folders, we need to handle all children, including trashed ones when purging
         const childFiles = await this.fileRepository.findByRoomId(file.roomId, {
           parentId: file.id,
-          includeDeleted: false
+          includeDeleted: permanent
         });
         
         // Recursively delete all children
         for (const childFile of childFiles) {
-          await this.deleteFile(childFile.id, userId, permanent);
+          await this.deleteFile(childFile.id, userId, permanent, trashedWithId || file.id);
         }
       }
       
-      let result: boolean;
-      
       if (permanent) {
-        // If it's a file with storageKey, delete from storage first
-        if (file.fileType === 'file' && file.storageKey) {
-          const provider = await this.storageService.getStorageProvider(file.storageId);
-          await provider.deleteFile(file.storageKey);
-        }
+        // Deletes every version from storage, shreds data keys no copy uses,
+        // releases the storage and logs the activity along with the records
+        const purged = await this.retentionService.purgeFile(file, 'deleted', userId);
         
-        // Hard delete
-        result = await this.fileRepository.hardDelete(fileId);
-      } else {
-        // Soft delete
-        result = await this.fileRepository.softDelete(fileId);
-        
-        // Log the action
-        await this.fileRepository.createLog({
+        return {
+          success: purged,
+          message: purged ? 'File permanently deleted successfully' : 'Failed to delete file'
+        };
+      }
+      
+      // Soft delete
+      const result = await this.fileRepository.softDelete(fileId, userId, trashedWithId);
+      
+      // Log the action
+      await this.fileRepository.createLog({
+        fileId: file.id,
+        userId: userId,
+        action: 'delete',
+        metadata: {
+          permanent: false,
+          timestamp: new Date().toISOString()
+        }
+      });
+      
+      // Children were handled by the recursive calls above
+      await this.fileSearchIndexer.indexFile(fileId);
+
+      if (result) {
+        await this.activityService.createActivity({
+          type: 'delete',
+          userId,
           fileId: file.id,
-          userId: userId,
-          action: 'delete',
+          roomId: file.roomId,
           metadata: {
-            permanent: false,
-            timestamp: new Date().toISOString()
+            fileName: file.name,
+            fileType: file.fileType,
+            permanent: false
           }
         });
       }
       
       return {
         success: result,
-        message: result 
-          ? `File ${permanent ? 'permanently ' : ''}deleted successfully` 
-          : 'Failed to delete file'
+        message: result ? 'File deleted successfully' : 'Failed to delete file'
       };
     } catch (error: any) {
       this.logger.error('Error deleting file', { fileId, permanent, error });
@@ -751,6 +971,8 @@ export class FileService {
         }
       });
       
+      await this.fileSearchIndexer.indexTree(fileId);
+      
       return {
         success: result,
         message: result ? 'File restored successfully' : 'Failed to restore file'
@@ -766,6 +988,412 @@ export class FileService {
     }
   }
 
+  /**
+   * Upload a new version of an existing file
+   */
+  async uploadNewVersion(fileId: string, params: UploadFileParams): Promise<FileOperationResult> {
+    try {
+      const file = await this.fileRepository.findById(fileId);
+
+      if (!file) {
+        throw new NotFoundError('File', fileId);
+      }
+
+      if (file.fileType !== 'file') {
+        throw new ValidationError('Versions can only be created for files, not folders');
+      }
+
+      if (file.isDeleted) {
+        throw new ValidationError('File has been deleted');
+      }
+
+      if (params.roomId && params.roomId !== file.roomId) {
+        throw new ValidationError('File does not belong to the specified room');
+      }
+
+      const hasAccess = await this.fileRepository.checkAccess(fileId, params.userId);
+
+      if (!hasAccess) {
+        throw new AccessDeniedError('You do not have permission to update this file');
+      }
+
+      // Usage counts the current version of each file
+      await this.uploadPolicyService.assertUploadAllowed({
+        roomId: file.roomId,
+        userId: params.userId,
+        fileName: file.name,
+        size: params.buffer ? params.buffer.length : params.size,
+        mimeType: params.mimeType,
+        content: params.buffer,
+        additionalBytes: (params.buffer ? params.buffer.length : params.size) - file.size
+      });
+
+      // Each version is stored under its own key so earlier versions stay downloadable
+      const latest = await this.fileRepository.findLatestVersion(fileId);
+      const versionNumber = latest ? latest.versionNumber + 1 : 1;
+      const storageKey = params.storageKey
+        || `rooms/${file.roomId}/files/${file.id}/v${versionNumber}/${file.name}`;
+
+      let stored: StoredContent | undefined;
+      if (!params.storageKey) {
+        const provider = await this.storageService.getStorageProvider(file.storageId);
+        stored = await this.uploadToStorage(provider, storageKey, params, {
+          roomId: file.roomId,
+          fileId: file.id,
+          fileName: file.name,
+          replacedBytes: file.size
+        });
+      }
+      const size = stored ? stored.size : params.size;
+      const storedKey = stored ? stored.key : storageKey;
+      const encryption = stored ? stored.encryption : params.encryption || 'none';
+      const encryptionKeyId = stored ? stored.encryptionKeyId : params.encryptionKey;
+
+      const version = await this.fileRepository.createVersion({
+        fileId: file.id,
+        versionNumber,
+        size,
+        storageKey: storedKey,
+        uploadedById: params.userId,
+        encryption,
+        encryptionKeyId,
+        checksum: stored?.sha256
+      });
+
+      // Point the file at the new current version
+      const updatedFile = await this.fileRepository.update(file.id, {
+        mimeType: params.mimeType,
+        size,
+        storageKey: storedKey,
+        encryption,
+        encryptionKeyId: encryptionKeyId || null,
+        checksum: stored?.sha256 || null
+      });
+      await this.fileSearchIndexer.indexFile(file.id);
+
+      await this.fileRepository.createLog({
+        fileId: file.id,
+        userId: params.userId,
+        action: 'upload_version',
+        metadata: {
+          versionId: version.id,
+          versionNumber,
+          size
+        }
+      });
+
+      await this.activityService.createActivity({
+        type: 'upload',
+        userId: params.userId,
+        fileId: file.id,
+        roomId: file.roomId,
+        metadata: {
+          fileName: file.name,
+          versionId: version.id,
+          versionNumber,
+          size
+        }
+      });
+
+      this.wsService.broadcastToRoom(file.roomId, 'file:version_created', {
+        fileId: file.id,
+        versionId: version.id,
+        versionNumber,
+        size,
+        userId: params.userId
+      });
+
+      this.logger.info('File version uploaded', {
+        fileId: file.id,
+        versionId: version.id,
+        versionNumber
+      });
+
+      return {
+        success: true,
+        message: 'File version uploaded successfully',
+        data: {
+          file: updatedFile,
+          version
+        }
+      };
+    } catch (error: any) {
+      this.logger.error('Error uploading file version', { fileId, error });
+
+      return {
+        success: false,
+        message: error.message || 'Failed to upload file version',
+        error
+      };
+    }
+  }
+
+  /**
+   * List the versions of a file, newest first
+   */
+  async listVersions(fileId: string, userId: string): Promise<FileOperationResult> {
+    try {
+      const file = await this.fileRepository.findById(fileId);
+
+      if (!file) {
+        throw new NotFoundError('File', fileId);
+      }
+
+      const hasAccess = await this.fileRepository.checkAccess(fileId, userId);
+
+      if (!hasAccess) {
+        throw new AccessDeniedError('You do not have permission to access this file');
+      }
+
+      // Newest first; the newest version is always the file's current content
+      const versions = await this.fileRepository.findVersionsByFileId(fileId);
+
+      await this.activityService.createActivity({
+        type: 'view',
+        userId,
+        fileId: file.id,
+        roomId: file.roomId,
+        metadata: {
+          fileName: file.name,
+          action: 'list_versions'
+        }
+      });
+
+      return {
+        success: true,
+        data: versions.map((version, index) => ({
+          ...version,
+          isCurrent: index === 0
+        }))
+      };
+    } catch (error: any) {
+      this.logger.error('Error listing file versions', { fileId, error });
+
+      return {
+        success: false,
+        message: error.message || 'Failed to list file versions',
+        error
+      };
+    }
+  }
+
+  /**
+   * Get download URL for a specific version of a file
+   */
+  async getVersionDownloadUrl(fileId: string, versionId: string, userId: string): Promise<FileOperationResult> {
+    try {
+      const { file, version } = await this.getFileVersion(fileId, versionId, userId);
+
+      this.assertDirectlyDownloadable(version);
+
+      const provider = await this.storageService.getStorageProvider(file.storageId);
+
+      const urlResult = await provider.getSignedUrl(version.storageKey, {
+        operation: 'read',
+        expiresIn: 3600,
+        contentType: file.mimeType || undefined,
+        responseContentDisposition: `attachment; filename="${encodeURIComponent(file.name)}"`
+      });
+
+      if (!urlResult.success) {
+        throw new Error(urlResult.message || 'Failed to get download URL');
+      }
+
+      await this.activityService.createActivity({
+        type: 'download',
+        userId,
+        fileId: file.id,
+        roomId: file.roomId,
+        metadata: {
+          fileName: file.name,
+          versionId: version.id,
+          versionNumber: version.versionNumber
+        }
+      });
+
+      // Notify download start
+      this.wsService.notifyFileTransferStatus(file.roomId, {
+        fileId: file.id,
+        type: 'download',
+        status: 'starting',
+        progress: 0,
+        bytesTransferred: 0,
+        totalBytes: version.size,
+        userId
+      });
+
+      return {
+        success: true,
+        message: 'Download URL generated successfully',
+        data: {
+          url: urlResult.url,
+          versionId: version.id,
+          versionNumber: version.versionNumber,
+          expiresAt: new Date(Date.now() + 3600000).toISOString()
+        }
+      };
+    } catch (error: any) {
+      this.logger.error('Error getting version download URL', { fileId, versionId, error });
+
+      return {
+        success: false,
+        message: error.message || 'Failed to get version download URL',
+        error
+      };
+    }
+  }
+
+  /**
+   * Restore an earlier version by making it the current one.
+   * The restored content is recorded as a new version so history is never rewritten.
+   */
+  async restoreVersion(fileId: string, versionId: string, userId: string): Promise<FileOperationResult> {
+    try {
+      const { file, version } = await this.getFileVersion(fileId, versionId, userId);
+
+      if (file.isDeleted) {
+        throw new ValidationError('File has been deleted');
+      }
+
+      const latest = await this.fileRepository.findLatestVersion(file.id);
+
+      if (!latest || latest.id === version.id) {
+        throw new ValidationError('Version is already the current version');
+      }
+
+      // Restoring writes the old content as a new current version, so it is
+      // held to the room's rules as it stands now, the same as an upload
+      await this.uploadPolicyService.assertUploadAllowed({
+        roomId: file.roomId,
+        userId,
+        fileName: file.name,
+        size: version.size,
+        mimeType: file.mimeType,
+        additionalBytes: version.size - file.size
+      });
+
+      // The restored version gets its own copy of the content, so removing
+      // the version it came from later leaves it intact. Encrypted content is
+      // copied as it is stored and still opens with the same data key.
+      const versionNumber = latest.versionNumber + 1;
+      const storageKey = `rooms/${file.roomId}/files/${file.id}/v${versionNumber}/${file.name}`;
+      const provider = await this.storageService.getStorageProvider(file.storageId);
+      const source = await provider.getFileStream(version.storageKey);
+
+      if (!source.success || !source.stream) {
+        throw new Error(source.message || 'Failed to read version content');
+      }
+
+      const copied = await this.streamingUploadService.upload(provider, storageKey, source.stream, {
+        contentType: file.mimeType || 'application/octet-stream'
+      });
+
+      const restored = await this.fileRepository.createVersion({
+        fileId: file.id,
+        versionNumber,
+        size: version.size,
+        storageKey: copied.key,
+        uploadedById: userId,
+        encryption: version.encryption,
+        encryptionKeyId: version.encryptionKeyId || undefined,
+        checksum: version.checksum || undefined
+      });
+
+      const updatedFile = await this.fileRepository.update(file.id, {
+        size: version.size,
+        storageKey: copied.key,
+        encryption: version.encryption,
+        encryptionKeyId: version.encryptionKeyId,
+        checksum: version.checksum
+      });
+      await this.fileSearchIndexer.indexFile(file.id);
+
+      await this.fileRepository.createLog({
+        fileId: file.id,
+        userId,
+        action: 'restore_version',
+        metadata: {
+          restoredVersionId: version.id,
+          restoredVersionNumber: version.versionNumber,
+          newVersionId: restored.id
+        }
+      });
+
+      await this.activityService.createActivity({
+        type: 'restore',
+        userId,
+        fileId: file.id,
+        roomId: file.roomId,
+        metadata: {
+          fileName: file.name,
+          restoredVersionId: version.id,
+          restoredVersionNumber: version.versionNumber,
+          versionNumber: restored.versionNumber
+        }
+      });
+
+      this.wsService.broadcastToRoom(file.roomId, 'file:version_restored', {
+        fileId: file.id,
+        restoredVersionId: version.id,
+        versionId: restored.id,
+        versionNumber: restored.versionNumber,
+        userId
+      });
+
+      this.logger.info('File version restored', {
+        fileId: file.id,
+        restoredVersionId: version.id,
+        versionNumber: restored.versionNumber
+      });
+
+      return {
+        success: true,
+        message: 'File version restored successfully',
+        data: {
+          file: updatedFile,
+          version: restored
+        }
+      };
+    } catch (error: any) {
+      this.logger.error('Error restoring file version', { fileId, versionId, error });
+
+      return {
+        success: false,
+        message: error.message || 'Failed to restore file version',
+        error
+      };
+    }
+  }
+
+  /**
+   * Load a file and one of its versions, checking the user can access it
+   */
+  private async getFileVersion(
+    fileId: string,
+    versionId: string,
+    userId: string
+  ): Promise<{ file: FileEntity; version: FileVersionEntity }> {
+    const file = await this.fileRepository.findById(fileId);
+
+    if (!file) {
+      throw new NotFoundError('File', fileId);
+    }
+
+    const hasAccess = await this.fileRepository.checkAccess(fileId, userId);
+
+    if (!hasAccess) {
+      throw new AccessDeniedError('You do not have permission to access this file');
+    }
+
+    const version = await this.fileRepository.findVersionById(versionId);
+
+    if (!version || version.fileId !== file.id) {
+      throw new NotFoundError('File version', versionId);
+    }
+
+    return { file, version };
+  }
+
   /**
    * Create a file share
    */
@@ -814,6 +1442,19 @@ export class FileService {
           maxDownloads: options.maxDownloads
         }
       });
+
+      await this.activityService.createActivity({
+        type: 'share',
+        userId,
+        fileId: file.id,
+        roomId: file.roomId,
+        metadata: {
+          fileName: file.name,
+          shareId: share.id,
+          expiresAt: expiresAt?.toISOString(),
+          maxDownloads: options.maxDownloads
+        }
+      });
       
       return {
         success: true,
@@ -868,6 +1509,8 @@ export class FileService {
         throw new ValidationError('File has been deleted');
       }
       
+      this.assertDirectlyDownloadable(file);
+      
       if (!file.storageKey) {
         throw new ValidationError('File storage key is missing');
       }
@@ -1068,10 +1711,26 @@ export class FileService {
       const provider = await this.storageService.getStorageProvider(file.storageId);
       
       // Get file content with or without range
-      const result = await provider.getFileContent(file.storageKey, range);
+      let data: Buffer;
       
-      if (!result.success || !result.data) {
-        throw new Error(result.message || 'Failed to get file content');
+      if (file.encryption === 'server_side') {
+        const readRange = range && { start: range.start, end: Math.min(range.end, file.size - 1) };
+        const { stream } = await this.fileEncryption.openStream(
+          provider, file.storageKey, await this.getDataKey(file), file.size, readRange
+        );
+        
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) {
+          chunks.push(chunk);
+        }
+        data = Buffer.concat(chunks);
+      } else {
+        const result = await provider.getFileContent(file.storageKey, range);
+        
+        if (!result.success || !result.data) {
+          throw new Error(result.message || 'Failed to get file content');
+        }
+        data = result.data;
       }
       
       // Log access
@@ -1087,7 +1746,7 @@ export class FileService {
       
       return {
         success: true,
-        data: result.data
+        data
       };
     } catch (error: any) {
       this.logger.error('Error getting file content', { fileId, error });
@@ -1100,28 +1759,93 @@ export class FileService {
     }
   }
 
+  /**
+   * Open a file's content, or a range of it, as a stream from storage. Only
+   * the whole file or its first range is logged as a download, so a client
+   * fetching a file in ranges counts once.
+   */
+  async getFileStream(fileId: string, userId: string, range?: ByteRange): Promise<FileOperationResult> {
+    let stream: Readable | undefined;
+    
+    try {
+      const file = await this.fileRepository.findById(fileId);
+      
+      if (!file) {
+        throw new NotFoundError('File', fileId);
+      }
+      
+      const hasAccess = await this.fileRepository.checkAccess(fileId, userId);
+      
+      if (!hasAccess) {
+        throw new AccessDeniedError('You do not have permission to access this file');
+      }
+      
+      if (file.fileType !== 'file' || !file.storageKey) {
+        throw new ValidationError('Requested item is not a file');
+      }
+      
+      const provider = await this.storageService.getStorageProvider(file.storageId);
+      let contentLength: number | undefined;
+      
+      if (file.encryption === 'server_side') {
+        // Ranges are in plaintext bytes; only the chunks covering them are read and decrypted
+        const opened = await this.fileEncryption.openStream(
+          provider, file.storageKey, await this.getDataKey(file), file.size, range
+        );
+        stream = opened.stream;
+        contentLength = opened.contentLength;
+      } else {
+        const result = await provider.getFileStream(file.storageKey, range);
+        
+        if (!result.success || !result.stream) {
+          throw new Error(result.message || 'Failed to open file content');
+        }
+        stream = result.stream;
+        contentLength = result.contentLength;
+      }
+      
+      if (!range || range.start === 0) {
+        await this.fileRepository.createLog({
+          fileId: file.id,
+          userId,
+          action: 'download',
+          metadata: {
+            timestamp: new Date().toISOString(),
+            range: range ? `${range.start}-${range.end}` : 'full'
+          }
+        });
+      }
+      
+      return {
+        success: true,
+        data: {
+          file,
+          stream,
+          contentLength
+        }
+      };
+    } catch (error: any) {
+      this.logger.error('Error opening file stream', { fileId, range, error });
+      stream?.destroy();
+      
+      return {
+        success: false,
+        message: error.message || 'Failed to open file content',
+        error
+      };
+    }
+  }
+
   /**
    * Search files with advanced filtering
    */
   async searchFiles(
     roomId: string,
     userId: string,
-    params: {
-      query?: string;
-      fileTypes?: string[];
-      mimeTypes?: string[];
-      minSize?: number;
-      maxSize?: number;
-      createdBefore?: Date;
-      createdAfter?: Date;
-      updatedBefore?: Date;
-      updatedAfter?: Date;
-      tags?: string[];
-      sort?: { field: string; direction: 'asc' | 'desc' };
-      page?: number;
-      limit?: number;
-    }
+    params: FileSearchParams
   ): Promise<FileOperationResult> {
+    const startedAt = Date.now();
+
     try {
       // Check room access
       const hasAccess = await this.roomRepository.checkUserAccess(roomId, userId);
@@ -1166,6 +1890,8 @@ export class FileService {
         tags: params.tags
       });
       
+      await this.recordSearch(userId, roomId, params, totalCount, Date.now() - startedAt);
+      
       return {
         success: true,
         data: {
@@ -1189,6 +1915,140 @@ export class FileService {
     }
   }
 
+  /**
+   * Record a search in the user's search history. Failures are logged and ignored
+   * so that history never breaks searching.
+   */
+  private async recordSearch(
+    userId: string,
+    roomId: string,
+    params: FileSearchParams,
+    resultCount: number,
+    executionTimeMs: number
+  ): Promise<void> {
+    try {
+      await this.searchRepository.createHistoryEntry({
+        userId,
+        searchType: 'files',
+        searchParams: { roomId, ...params },
+        resultCount,
+        executionTimeMs
+      });
+    } catch (error: any) {
+      this.logger.warn('Failed to record search history', { userId, roomId, error: error.message });
+    }
+  }
+
+  /**
+   * Search files across every room the user can access in a company, using the
+   * file search index. Results are newest first and paged with an opaque cursor.
+   */
+  async searchCompanyFiles(
+    companyId: string,
+    userId: string,
+    params: CompanyFileSearchParams
+  ): Promise<FileOperationResult> {
+    try {
+      const member = await this.companyRepository.findMember(companyId, userId);
+      if (!member) {
+        throw new ForbiddenError('You are not a member of this company');
+      }
+      
+      let roomIds = await this.roomRepository.findAccessibleRoomIds(companyId, userId);
+      if (params.roomIds && params.roomIds.length > 0) {
+        roomIds = roomIds.filter(roomId => params.roomIds!.includes(roomId));
+      }
+      if (params.filterRooms) {
+        roomIds = await params.filterRooms(roomIds);
+      }
+      
+      const filters = {
+        companyId,
+        roomIds,
+        query: params.query,
+        mimeTypes: params.mimeTypes,
+        uploaderIds: params.uploaderIds,
+        minSize: params.minSize,
+        maxSize: params.maxSize,
+        updatedAfter: params.updatedAfter,
+        updatedBefore: params.updatedBefore,
+        tags: params.tags
+      };
+      
+      const limit = Math.min(Math.max(params.limit || 50, 1), 100);
+      const after = params.cursor ? this.decodeSearchCursor(params.cursor) : undefined;
+      
+      // Fetch one extra entry to know whether there is another page
+      const [entries, { total, facets }] = await Promise.all([
+        this.searchRepository.searchFileIndex(filters, { limit: limit + 1, after }),
+        this.searchRepository.countFileIndex(filters)
+      ]);
+      
+      const page = entries.slice(0, limit);
+      const last = page[page.length - 1];
+      
+      return {
+        success: true,
+        data: {
+          files: page.map(entry => this.toSearchResult(entry)),
+          facets,
+          totalCount: total,
+          nextCursor: entries.length > limit && last ? this.encodeSearchCursor(last) : null
+        }
+      };
+    } catch (error: any) {
+      this.logger.error('Error searching company files', { companyId, userId, error });
+      
+      return {
+        success: false,
+        message: error.message || 'Failed to search files',
+        error
+      };
+    }
+  }
+
+  private toSearchResult(entry: FileSearchIndexEntry) {
+    let tags: string[] = [];
+    try {
+      tags = entry.tags ? JSON.parse(entry.tags) : [];
+    } catch {
+      tags = [];
+    }
+    
+    return {
+      id: entry.fileId,
+      name: entry.fileName,
+      mimeType: entry.mimeType,
+      size: entry.fileSize,
+      uploadedById: entry.createdById,
+      roomId: entry.roomId,
+      tags,
+      updatedAt: entry.updatedAt
+    };
+  }
+
+  private encodeSearchCursor(entry: FileSearchIndexEntry): string {
+    return Buffer.from(JSON.stringify({
+      updatedAt: entry.updatedAt.toISOString(),
+      fileId: entry.fileId
+    })).toString('base64url');
+  }
+
+  private decodeSearchCursor(cursor: string): { updatedAt: Date; fileId: string } {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      const updatedAt = new Date(decoded.updatedAt);
+      
+      if (typeof decoded.fileId !== 'string' || isNaN(updatedAt.getTime())) {
+        throw new Error('Malformed cursor');
+      }
+      
+      return { updatedAt, fileId: decoded.fileId };
+    } catch {
+      throw new ValidationError('Invalid cursor');
+    }
+  }
+
   /**
    * Move multiple files to a destination folder
    */
@@ -1246,6 +2106,7 @@ export class FileService {
           const updatedFile = await this.fileRepository.update(fileId, {
             parentId: destinationFolderId
           });
+          await this.fileSearchIndexer.indexFile(fileId);
           
           // Log the action
           await this.fileRepository.createLog({
@@ -1414,6 +2275,7 @@ export class FileService {
             encryptionKeyId: file.encryptionKeyId || undefined, // Convert null to undefined
             metadata: file.metadata ? JSON.parse(file.metadata) : undefined
           });
+          await this.fileSearchIndexer.indexFile(newFile.id);
           
           // Create initial version for the new file
           await this.fileRepository.createVersion({
@@ -1421,6 +2283,7 @@ export class FileService {
             size: file.size,
             storageKey: file.storageKey || '', // Empty string as fallback
             uploadedById: userId,
+            encryption: file.encryption,
             encryptionKeyId: file.encryptionKeyId || undefined
           });
           
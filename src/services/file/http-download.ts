@@ -0,0 +1,111 @@
+// src/services/file/http-download.ts
+import { ByteRange } from '../storage/types';
+
+/**
+ * What a Range header asks for: the whole file, one range of it, or a range
+ * that lies outside the file
+ */
+export type RangeRequest =
+  | { type: 'full' }
+  | { type: 'partial'; range: ByteRange }
+  | { type: 'unsatisfiable' };
+
+/**
+ * Parse a Range header against a file's size. Only single byte ranges are
+ * served; anything else (missing, malformed or multiple ranges) falls back to
+ * the whole file, which the spec allows.
+ */
+export function parseRange(header: string | undefined, size: number): RangeRequest {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+
+  if (!match || (!match[1] && !match[2])) {
+    return { type: 'full' };
+  }
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // Suffix range: the last n bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0) {
+      return { type: 'unsatisfiable' };
+    }
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+
+    if (match[2] && Number(match[2]) < start) {
+      return { type: 'full' };
+    }
+  }
+
+  if (start >= size) {
+    return { type: 'unsatisfiable' };
+  }
+
+  return { type: 'partial', range: { start, end } };
+}
+
+/**
+ * ETag for a stored file. Files with a checksum are tagged by content;
+ * older files fall back to their id, size and last change.
+ */
+export function fileEtag(file: { id: string; size: number; checksum?: string | null; updatedAt: Date }): string {
+  if (file.checksum) {
+    return `"${file.checksum}"`;
+  }
+
+  return `"${file.id}-${file.size.toString(36)}-${new Date(file.updatedAt).getTime().toString(36)}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches the current ETag, using weak
+ * comparison as the spec requires for this header
+ */
+export function etagMatches(header: string | undefined, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  const tags = header.split(',').map(tag => tag.trim());
+
+  return tags.includes('*') || tags.some(tag => opaque(tag) === opaque(etag));
+}
+
+/**
+ * Whether a range request may be served given its If-Range header. A stale
+ * validator means the client's partial copy is outdated, so it gets the
+ * whole file instead.
+ */
+export function ifRangeAllows(header: string | undefined, etag: string, lastModified: Date): boolean {
+  if (!header) {
+    return true;
+  }
+
+  const value = header.trim();
+
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    // Strong comparison: weak tags never match
+    return !value.startsWith('W/') && value === etag;
+  }
+
+  const date = Date.parse(value);
+  return !Number.isNaN(date) && Math.floor(new Date(lastModified).getTime() / 1000) <= Math.floor(date / 1000);
+}
+
+/**
+ * Content-Disposition header value that keeps non-ASCII file names intact
+ * (RFC 6266), with an ASCII fallback for older clients
+ */
+export function contentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, char =>
+    '%' + char.charCodeAt(0).toString(16).toUpperCase()
+  );
+
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,252 @@
+// src/services/file/trash.service.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { TrashRepository, TrashEntry, TrashedFile } from '../../repositories/trash.repository';
+import { RoomRepository } from '../../repositories/room.repository';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { RetentionService } from '../retention/retention.service';
+import { FileSearchIndexer } from '../search/file-search-indexer';
+import { ActivityService } from '../activity/activity.service';
+import { CompanyActor } from '../company/company.service';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+import { env } from '../../config/env';
+
+// Room access types allowed to view, restore and empty the trash
+const VIEW_ACCESS = ['owner', 'editor', 'viewer'];
+const RESTORE_ACCESS = ['owner', 'editor'];
+const EMPTY_ACCESS = ['owner'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Items purged per request to empty the trash; callers repeat while items remain
+const EMPTY_BATCH_SIZE = 100;
+
+/**
+ * A trash entry with when the retention worker will purge it
+ */
+export interface TrashListEntry extends TrashEntry {
+  purgeAt: Date | null;
+}
+
+export interface TrashListResult {
+  items: TrashListEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  retentionDays: number;
+}
+
+@injectable()
+export class TrashService {
+  constructor(
+    @inject('TrashRepository') private trashRepository: TrashRepository,
+    @inject('RoomRepository') private roomRepository: RoomRepository,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('RetentionService') private retentionService: RetentionService,
+    @inject('FileSearchIndexer') private fileSearchIndexer: FileSearchIndexer,
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('TrashService');
+  }
+
+  /**
+   * List a room's trash with who deleted each item, when, and when it will be purged
+   */
+  async listTrash(roomId: string, actor: CompanyActor, options: { page?: number; limit?: number } = {}): Promise<TrashListResult> {
+    try {
+      await this.assertRoomAccess(roomId, actor, VIEW_ACCESS);
+
+      const page = Math.max(1, options.page || 1);
+      const limit = Math.min(Math.max(1, options.limit || 50), 200);
+      const retentionDays = await this.getRetentionDays(roomId);
+
+      const { items, total } = await this.trashRepository.listByRoom(roomId, {
+        limit,
+        offset: (page - 1) * limit
+      });
+
+      return {
+        items: items.map(item => ({
+          ...item,
+          purgeAt: item.deletedAt ? new Date(item.deletedAt.getTime() + retentionDays * DAY_MS) : null
+        })),
+        total,
+        page,
+        limit,
+        retentionDays
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to list trash', { roomId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Restore files and folders from a room's trash. Trashed folders they are in
+   * are restored too, so they reappear where they were; restored folders
+   * bring back the contents that were trashed along with them.
+   */
+  async restoreFiles(roomId: string, actor: CompanyActor, fileIds: string[]): Promise<{ restored: string[] }> {
+    try {
+      const ids = [...new Set(fileIds)];
+      if (ids.length === 0) {
+        throw new ValidationError('At least one file ID is required');
+      }
+
+      await this.assertRoomAccess(roomId, actor, RESTORE_ACCESS);
+
+      const selected = await this.trashRepository.findInRoom(roomId, ids);
+      const missing = ids.find(id => !selected.some(file => file.id === id));
+      if (missing) {
+        throw new NotFoundError('File', missing);
+      }
+
+      const notTrashed = selected.filter(file => !file.isDeleted);
+      if (notTrashed.length > 0) {
+        throw new ValidationError('Some files are not in the trash', {
+          fileIds: notTrashed.map(file => file.id)
+        });
+      }
+
+      const toRestore = new Map<string, TrashedFile>(selected.map(file => [file.id, file]));
+
+      for (const ancestor of await this.findTrashedAncestors(roomId, selected)) {
+        toRestore.set(ancestor.id, ancestor);
+      }
+
+      for (const descendant of await this.findTrashedDescendants(selected)) {
+        toRestore.set(descendant.id, descendant);
+      }
+
+      const restoreIds = [...toRestore.keys()];
+      await this.trashRepository.restore(restoreIds);
+
+      for (const id of restoreIds) {
+        await this.fileSearchIndexer.indexFile(id);
+      }
+
+      await this.activityService.createActivity({
+        type: 'restore',
+        userId: actor.id,
+        roomId,
+        fileId: ids.length === 1 ? ids[0] : undefined,
+        metadata: {
+          fileIds: ids,
+          restoredCount: restoreIds.length
+        }
+      });
+
+      this.logger.info('Files restored from trash', { roomId, selected: ids.length, restored: restoreIds.length });
+      return { restored: restoreIds };
+    } catch (error: any) {
+      this.logger.error('Failed to restore files', { roomId, fileIds, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete what is in a room's trash, up to EMPTY_BATCH_SIZE items
+   * per call. Callers repeat while items remain and the last call purged any.
+   * Only room owners can do this.
+   */
+  async emptyTrash(roomId: string, actor: CompanyActor): Promise<{ purged: number; failed: number; remaining: number }> {
+    try {
+      await this.assertRoomAccess(roomId, actor, EMPTY_ACCESS);
+
+      const trashed = await this.trashRepository.findTrashedInRoom(roomId, EMPTY_BATCH_SIZE);
+
+      let purged = 0;
+      for (const file of trashed) {
+        if (await this.retentionService.purgeFile(file, 'trash_emptied', actor.id)) {
+          purged++;
+        }
+      }
+
+      const failed = trashed.length - purged;
+      const remaining = await this.trashRepository.countTrashedInRoom(roomId);
+      this.logger.info('Trash emptied', { roomId, purged, failed, remaining });
+
+      return { purged, failed, remaining };
+    } catch (error: any) {
+      this.logger.error('Failed to empty trash', { roomId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Days items stay in a room's trash before they are purged
+   */
+  async getRetentionDays(roomId: string): Promise<number> {
+    const companyId = await this.roomRepository.findCompanyId(roomId);
+    const settings = companyId ? await this.companyRepository.getSettings(companyId) : null;
+    return settings?.trashRetentionDays ?? env.TRASH_RETENTION_DAYS;
+  }
+
+  private async findTrashedAncestors(roomId: string, selected: TrashedFile[]): Promise<TrashedFile[]> {
+    const ancestors = new Map<string, TrashedFile>();
+    let parentIds = [...new Set(selected.map(file => file.parentId).filter((id): id is string => !!id))];
+
+    while (parentIds.length > 0) {
+      const parents = await this.trashRepository.findInRoom(roomId, parentIds);
+      const trashedParents = parents.filter(parent => parent.isDeleted && !ancestors.has(parent.id));
+
+      for (const parent of trashedParents) {
+        ancestors.set(parent.id, parent);
+      }
+
+      parentIds = [...new Set(trashedParents.map(parent => parent.parentId).filter((id): id is string => !!id))];
+    }
+
+    return [...ancestors.values()];
+  }
+
+  /**
+   * Trashed contents of the selected folders that were trashed along with
+   * them. Items trashed on their own before their folder stay in the trash.
+   */
+  private async findTrashedDescendants(selected: TrashedFile[]): Promise<TrashedFile[]> {
+    const descendants = new Map<string, TrashedFile>();
+    let folders = selected.filter(file => file.fileType === 'folder');
+
+    while (folders.length > 0) {
+      // Deleting a folder tags everything it trashes with the ID of that folder
+      const deletedWith = new Map(folders.map(folder => [folder.id, folder.trashedWithId || folder.id]));
+
+      const children = (await this.trashRepository.findTrashedChildren([...deletedWith.keys()]))
+        .filter(child => !descendants.has(child.id) && child.trashedWithId === deletedWith.get(child.parentId!));
+
+      for (const child of children) {
+        descendants.set(child.id, child);
+      }
+
+      folders = children.filter(child => child.fileType === 'folder');
+    }
+
+    return [...descendants.values()];
+  }
+
+  private async assertRoomAccess(roomId: string, actor: CompanyActor, allowed: string[]): Promise<void> {
+    const companyId = await this.roomRepository.findCompanyId(roomId);
+    if (!companyId) {
+      throw new NotFoundError('Room', roomId);
+    }
+
+    // Platform admins can manage any room's trash
+    if (actor.role === 'admin') {
+      return;
+    }
+
+    const accessType = await this.roomRepository.findAccessType(roomId, actor.id);
+    if (!accessType) {
+      throw new AuthorizationError('You do not have access to this room');
+    }
+    if (!allowed.includes(accessType)) {
+      throw new AuthorizationError(
+        allowed === EMPTY_ACCESS
+          ? 'Only room owners can empty the trash'
+          : 'You do not have permission to restore files in this room'
+      );
+    }
+  }
+}
@@ -0,0 +1,480 @@
+// src/services/file/tus-upload.service.ts
+import { injectable, inject } from 'inversify';
+import { createHash } from 'crypto';
+import axios from 'axios';
+import { Logger } from '../../utils/logger';
+import { UploadService, stagedBytesKey } from './upload.service';
+import { StorageService } from '../storage/storage.service';
+import { FileEncryptionService } from './file-encryption.service';
+import { StorageProvider } from '../storage/types';
+import { MultipartUploadRepository, MultipartUploadSession, TusUpload } from '../../repositories/multipart-upload.repository';
+import { AppError, NotFoundError, TusProtocolError, ValidationError } from '../../utils/errors';
+
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = ['creation', 'termination', 'checksum', 'expiration'];
+export const TUS_CHECKSUM_ALGORITHMS = ['sha1', 'md5', 'sha256'];
+
+// How long a PATCH request holds an upload before another request may take over
+const LOCK_MS = 5 * 60 * 1000;
+
+// Chunks sent with a checksum are held in memory until they are verified
+const MAX_CHECKSUM_CHUNK_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Where a tus upload stands, as reported in tus response headers
+ */
+export interface TusUploadState {
+  id: string;
+  offset: number;
+  length: number;
+  metadata: string | null;
+  expiresAt: Date;
+  fileId?: string;
+}
+
+export interface TusChecksum {
+  algorithm: string;
+  digest: string;
+}
+
+/**
+ * Parse an Upload-Metadata header: comma-separated keys, each followed by
+ * an optional base64 encoded value
+ */
+export const parseTusMetadata = (header?: string | null): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+  if (!header) {
+    return metadata;
+  }
+
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+  }
+
+  return metadata;
+};
+
+/**
+ * tus 1.0 resumable uploads on top of multipart upload sessions.
+ * Clients may send chunks of any size; bytes that do not yet fill a part are
+ * staged in storage next to the upload so any instance can continue it.
+ */
+@injectable()
+export class TusUploadService {
+  constructor(
+    @inject('UploadService') private uploadService: UploadService,
+    @inject('StorageService') private storageService: StorageService,
+    @inject('MultipartUploadRepository') private uploadRepository: MultipartUploadRepository,
+    @inject('FileEncryptionService') private fileEncryption: FileEncryptionService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('TusUploadService');
+  }
+
+  /**
+   * Create an upload. The metadata must name the file (`filename`) and the
+   * room it goes to (`roomId`); `filetype` and `parentId` are optional.
+   */
+  async createUpload(params: {
+    userId: string;
+    uploadLength: number;
+    uploadMetadata: string | null;
+  }): Promise<TusUploadState> {
+    const metadata = parseTusMetadata(params.uploadMetadata);
+    const fileName = metadata.filename || metadata.name;
+
+    if (!fileName || !metadata.roomId) {
+      throw new ValidationError('Upload-Metadata must include filename and roomId');
+    }
+
+    const result = await this.uploadService.initializeMultipartUpload({
+      fileName,
+      mimeType: metadata.filetype || metadata.type || 'application/octet-stream',
+      totalSize: params.uploadLength,
+      roomId: metadata.roomId,
+      parentId: metadata.parentId || null,
+      userId: params.userId,
+      throughServer: true
+    });
+
+    if (!result.success) {
+      throw result.error instanceof AppError
+        ? result.error
+        : new Error(result.message || 'Failed to create upload');
+    }
+
+    const { uploadId, expiresAt } = result.data;
+    await this.uploadRepository.createTus(uploadId, params.uploadMetadata);
+
+    this.logger.info('tus upload created', { uploadId, fileName, uploadLength: params.uploadLength });
+
+    return {
+      id: uploadId,
+      offset: 0,
+      length: params.uploadLength,
+      metadata: params.uploadMetadata,
+      expiresAt
+    };
+  }
+
+  /**
+   * Current offset of an upload. Completed uploads report their full length.
+   */
+  async getUpload(id: string, userId: string): Promise<TusUploadState> {
+    const { session, tus } = await this.load(id, userId);
+
+    if (session.status !== 'completed' && !this.uploadService.isResumable(session)) {
+      throw this.gone(id);
+    }
+
+    return this.toState(session, tus);
+  }
+
+  /**
+   * Append a chunk at the given offset. Full parts are written to storage as
+   * soon as they are received; the rest is staged until the next chunk.
+   * Once the last byte arrives the upload is completed and the file created.
+   */
+  async appendChunk(
+    id: string,
+    userId: string,
+    offset: number,
+    body: AsyncIterable<Buffer>,
+    options: { contentLength?: number; checksum?: TusChecksum } = {}
+  ): Promise<TusUploadState> {
+    await this.load(id, userId);
+
+    if (options.checksum && !TUS_CHECKSUM_ALGORITHMS.includes(options.checksum.algorithm)) {
+      throw new TusProtocolError(400, 'CHECKSUM_ALGORITHM_UNSUPPORTED', `Unsupported checksum algorithm ${options.checksum.algorithm}`);
+    }
+
+    if (!(await this.uploadRepository.lockTus(id, new Date(), this.lockExpiry()))) {
+      throw new TusProtocolError(423, 'UPLOAD_LOCKED', 'Another request is writing to this upload');
+    }
+
+    try {
+      // Read the upload again now that no other request can move its offset
+      const { session, tus } = await this.load(id, userId);
+
+      if (!this.uploadService.isResumable(session)) {
+        throw this.gone(id);
+      }
+
+      if (tus.uploadOffset !== offset) {
+        throw new TusProtocolError(409, 'OFFSET_MISMATCH', `Upload-Offset must be ${tus.uploadOffset}`);
+      }
+
+      const remaining = session.totalSize - offset;
+      if (options.contentLength !== undefined && options.contentLength > remaining) {
+        throw new TusProtocolError(413, 'UPLOAD_LENGTH_EXCEEDED', `Only ${remaining} more bytes can be uploaded`);
+      }
+
+      const expiresAt = (await this.uploadService.keepAlive(id)) || session.expiresAt;
+
+      const provider = await this.storageService.getStorageProvider(session.storageId);
+      const writer = new ChunkWriter(
+        session,
+        (await this.uploadRepository.listParts(id)).length * session.partSize,
+        offset,
+        (partNumber, data) => this.uploadService.uploadPart(session, partNumber, data),
+        (from, to) => this.advanceOffset(id, from, to)
+      );
+
+      writer.restore(await this.readStagedBytes(provider, session, offset, offset - writer.committed));
+
+      try {
+        if (options.checksum) {
+          await writer.write(await this.readVerified(body, options.checksum, remaining));
+        } else {
+          for await (const chunk of body) {
+            await writer.write(chunk);
+          }
+        }
+      } catch (error: any) {
+        // Keep what was received so the client can resume from there
+        await this.saveProgress(provider, session, writer).catch(saveError => {
+          this.logger.error('Failed to save tus upload progress', { uploadId: id, error: saveError.message });
+        });
+        throw error;
+      }
+
+      if (writer.received < session.totalSize) {
+        await this.saveProgress(provider, session, writer);
+        return { ...this.toState(session, tus), offset: writer.received, expiresAt };
+      }
+
+      await writer.flush();
+      return await this.complete(provider, session, tus, userId);
+    } finally {
+      await this.uploadRepository.unlockTus(id).catch(error => {
+        this.logger.error('Failed to unlock tus upload', { uploadId: id, error: error.message });
+      });
+    }
+  }
+
+  /**
+   * Abort an upload and discard everything uploaded so far
+   */
+  async terminateUpload(id: string, userId: string): Promise<void> {
+    await this.load(id, userId);
+
+    const result = await this.uploadService.abortMultipartUpload(id, userId);
+    if (!result.success) {
+      throw result.error instanceof AppError
+        ? result.error
+        : new Error(result.message || 'Failed to terminate upload');
+    }
+  }
+
+  private async complete(
+    provider: StorageProvider,
+    session: MultipartUploadSession,
+    tus: TusUpload,
+    userId: string
+  ): Promise<TusUploadState> {
+    const result = await this.uploadService.completeMultipartUpload(session.id, userId);
+    if (!result.success) {
+      throw result.error instanceof AppError
+        ? result.error
+        : new Error(result.message || 'Failed to complete upload');
+    }
+
+    const cleanup = await provider.deleteFile(stagedBytesKey(session.storageKey));
+    if (!cleanup.success) {
+      this.logger.debug('No staged bytes to remove', { uploadId: session.id });
+    }
+
+    this.logger.info('tus upload completed', { uploadId: session.id, fileId: result.data?.id });
+
+    return {
+      ...this.toState(session, tus),
+      offset: session.totalSize,
+      fileId: result.data?.id
+    };
+  }
+
+  /**
+   * Stage bytes that do not fill a part yet and record the new offset.
+   * Staged bytes of encrypted uploads are encrypted too.
+   */
+  private async saveProgress(provider: StorageProvider, session: MultipartUploadSession, writer: ChunkWriter): Promise<void> {
+    if (!writer.hasUnsavedBytes()) {
+      return;
+    }
+
+    const staged = await this.sealStaged(session, writer.committed, writer.pending());
+    const urlResult = await provider.getSignedUrl(stagedBytesKey(session.storageKey), {
+      operation: 'write',
+      expiresIn: 3600,
+      contentType: 'application/octet-stream'
+    });
+
+    if (!urlResult.success || !urlResult.url) {
+      throw new Error(urlResult.message || 'Failed to get signed URL for staged bytes');
+    }
+
+    await axios.put(urlResult.url, staged, {
+      headers: { 'Content-Type': 'application/octet-stream', 'Content-Length': staged.length },
+      maxBodyLength: Infinity
+    });
+
+    await this.advanceOffset(session.id, writer.saved, writer.received);
+    writer.markSaved();
+  }
+
+  private async readStagedBytes(
+    provider: StorageProvider,
+    session: MultipartUploadSession,
+    offset: number,
+    length: number
+  ): Promise<Buffer> {
+    if (length <= 0) {
+      return Buffer.alloc(0);
+    }
+
+    const result = await provider.getFileContent(stagedBytesKey(session.storageKey));
+    const staged = result.success && result.data
+      ? await this.openStaged(session, offset - length, result.data)
+      : undefined;
+    if (!staged || staged.length !== length) {
+      throw new Error('Staged upload bytes are missing or incomplete');
+    }
+
+    return staged;
+  }
+
+  /**
+   * Staged bytes are bound to the upload and the offset they follow, so
+   * stale ones left behind by an earlier request do not decrypt
+   */
+  private async sealStaged(session: MultipartUploadSession, committed: number, data: Buffer): Promise<Buffer> {
+    if (!session.encryptionKeyId) {
+      return data;
+    }
+
+    const dataKey = await this.fileEncryption.getDataKey(session.encryptionKeyId);
+    return this.fileEncryption.seal(data, dataKey, `${session.id}:${committed}`);
+  }
+
+  private async openStaged(session: MultipartUploadSession, committed: number, stored: Buffer): Promise<Buffer> {
+    if (!session.encryptionKeyId) {
+      return stored;
+    }
+
+    const dataKey = await this.fileEncryption.getDataKey(session.encryptionKeyId);
+    return this.fileEncryption.open(stored, dataKey, `${session.id}:${committed}`);
+  }
+
+  /**
+   * Read a whole chunk and check it against the client's checksum
+   */
+  private async readVerified(body: AsyncIterable<Buffer>, checksum: TusChecksum, remaining: number): Promise<Buffer> {
+    const limit = Math.min(remaining, MAX_CHECKSUM_CHUNK_SIZE);
+    const hash = createHash(checksum.algorithm);
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    for await (const chunk of body) {
+      length += chunk.length;
+      if (length > limit) {
+        throw new TusProtocolError(413, 'CHUNK_TOO_LARGE', `Chunks with a checksum may be at most ${limit} bytes`);
+      }
+      hash.update(chunk);
+      chunks.push(chunk);
+    }
+
+    if (hash.digest('base64') !== checksum.digest) {
+      throw new TusProtocolError(460, 'CHECKSUM_MISMATCH', 'Checksum mismatch');
+    }
+
+    return Buffer.concat(chunks, length);
+  }
+
+  private async advanceOffset(id: string, from: number, to: number): Promise<void> {
+    if (from === to) {
+      return;
+    }
+
+    if (!(await this.uploadRepository.advanceTusOffset(id, from, to, this.lockExpiry()))) {
+      throw new TusProtocolError(409, 'OFFSET_MISMATCH', 'Upload offset changed while writing');
+    }
+  }
+
+  private async load(id: string, userId: string): Promise<{ session: MultipartUploadSession; tus: TusUpload }> {
+    const session = await this.uploadService.getSession(id, userId);
+    const tus = await this.uploadRepository.findTus(id);
+
+    if (!tus) {
+      throw new NotFoundError('Upload', id);
+    }
+
+    return { session, tus };
+  }
+
+  private toState(session: MultipartUploadSession, tus: TusUpload): TusUploadState {
+    return {
+      id: session.id,
+      offset: session.status === 'completed' ? session.totalSize : tus.uploadOffset,
+      length: session.totalSize,
+      metadata: tus.uploadMetadata,
+      expiresAt: session.expiresAt
+    };
+  }
+
+  private gone(id: string): TusProtocolError {
+    return new TusProtocolError(410, 'UPLOAD_GONE', `Upload ${id} has expired or was terminated`);
+  }
+
+  private lockExpiry(): Date {
+    return new Date(Date.now() + LOCK_MS);
+  }
+}
+
+/**
+ * Cuts incoming bytes into parts. Tracks how many bytes are written as parts
+ * (`committed`), received in total (`received`) and recorded as the upload's
+ * offset (`saved`).
+ */
+class ChunkWriter {
+  private chunks: Buffer[] = [];
+  private length = 0;
+  private stagedChanged = false;
+
+  constructor(
+    private session: MultipartUploadSession,
+    public committed: number,
+    public saved: number,
+    private uploadPart: (partNumber: number, data: Buffer) => Promise<void>,
+    private advanceOffset: (from: number, to: number) => Promise<void>
+  ) {}
+
+  get received(): number {
+    return this.committed + this.length;
+  }
+
+  restore(staged: Buffer): void {
+    if (staged.length > 0) {
+      this.chunks = [staged];
+      this.length = staged.length;
+    }
+  }
+
+  async write(chunk: Buffer): Promise<void> {
+    if (chunk.length === 0) {
+      return;
+    }
+
+    if (this.received + chunk.length > this.session.totalSize) {
+      throw new TusProtocolError(413, 'UPLOAD_LENGTH_EXCEEDED', 'Chunk goes past the end of the upload');
+    }
+
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+    this.stagedChanged = true;
+
+    while (this.length >= this.session.partSize) {
+      const data = this.pending();
+      await this.commit(data.subarray(0, this.session.partSize));
+      this.chunks = this.length > 0 ? [data.subarray(this.session.partSize)] : [];
+    }
+  }
+
+  /**
+   * Write the final, possibly short, part
+   */
+  async flush(): Promise<void> {
+    if (this.length > 0) {
+      const data = this.pending();
+      await this.commit(data);
+      this.chunks = [];
+    }
+  }
+
+  pending(): Buffer {
+    return Buffer.concat(this.chunks, this.length);
+  }
+
+  hasUnsavedBytes(): boolean {
+    return this.stagedChanged && this.length > 0;
+  }
+
+  markSaved(): void {
+    this.saved = this.received;
+    this.stagedChanged = false;
+  }
+
+  private async commit(data: Buffer): Promise<void> {
+    const partNumber = this.committed / this.session.partSize + 1;
+    await this.uploadPart(partNumber, data);
+
+    this.committed += data.length;
+    this.length -= data.length;
+
+    // Staged bytes are now part of a written part
+    await this.advanceOffset(this.saved, this.committed);
+    this.saved = this.committed;
+  }
+}
@@ -0,0 +1,238 @@
+// src/services/file/upload-policy.service.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { RoomRepository } from '../../repositories/room.repository';
+import { SubscriptionRepository } from '../../repositories/subscription.repository';
+import { GuestRepository } from '../../repositories/guest.repository';
+import { SubscriptionService } from '../subscription/subscription.service';
+import { CompanySettings } from '../../types/company';
+import { NotFoundError, UploadRestrictionError } from '../../utils/errors';
+import {
+  getExtension,
+  mimeTypeForExtension,
+  mimeTypeMatches,
+  resolveMimeType,
+  sniffMimeType
+} from '../../utils/file-type';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface UploadCheckParams {
+  roomId: string;
+  userId: string;
+  fileName: string;
+  size: number;
+  mimeType?: string | null;
+  // Leading bytes of the file, when available, to detect its actual type
+  content?: Buffer | null;
+  // Bytes the upload adds to the company's storage, if not its full size (e.g. a new version)
+  additionalBytes?: number;
+}
+
+/**
+ * Enforces a company's upload settings: guest uploads, maximum file size,
+ * allowed file types and storage quota, along with its plan's storage limit
+ */
+@injectable()
+export class UploadPolicyService {
+  constructor(
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('RoomRepository') private roomRepository: RoomRepository,
+    @inject('SubscriptionRepository') private subscriptionRepository: SubscriptionRepository,
+    @inject('GuestRepository') private guestRepository: GuestRepository,
+    @inject('SubscriptionService') private subscriptionService: SubscriptionService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('UploadPolicyService');
+  }
+
+  /**
+   * Reject an upload into a room that breaks its company's upload settings or
+   * plan. Throws UploadRestrictionError naming the setting that was hit, or
+   * PlanLimitError.
+   */
+  async assertUploadAllowed(params: UploadCheckParams): Promise<void> {
+    const companyId = await this.findCompanyId(params.roomId);
+    const settings = await this.companyRepository.getSettings(companyId);
+
+    if (settings) {
+      await this.assertSettingsAllow(companyId, settings, params);
+    }
+
+    await this.assertStorageAvailable(companyId, settings, params.additionalBytes ?? params.size);
+  }
+
+  /**
+   * Make sure storing `bytes` more in a room stays within its company's
+   * storage quota and plan
+   */
+  async checkStorageQuota(roomId: string, bytes: number): Promise<void> {
+    if (bytes <= 0) {
+      return;
+    }
+
+    const companyId = await this.findCompanyId(roomId);
+    const settings = await this.companyRepository.getSettings(companyId);
+    await this.assertStorageAvailable(companyId, settings, bytes);
+  }
+
+  private async assertSettingsAllow(companyId: string, settings: CompanySettings, params: UploadCheckParams): Promise<void> {
+    if (!settings.allowGuestUploads && await this.isGuest(companyId, params.userId)) {
+      throw new UploadRestrictionError('GUEST_UPLOADS_DISABLED', 'Guests are not allowed to upload files', {
+        setting: 'allowGuestUploads'
+      });
+    }
+
+    const maxBytes = settings.maxFileSize * BYTES_PER_MB;
+    if (params.size > maxBytes) {
+      throw new UploadRestrictionError(
+        'FILE_TOO_LARGE',
+        `Files can be at most ${settings.maxFileSize} MB`,
+        { setting: 'maxFileSize', max: maxBytes, actual: params.size }
+      );
+    }
+
+    this.assertFileTypeAllowed(settings.allowedFileTypes, params);
+  }
+
+  private async assertStorageAvailable(companyId: string, settings: CompanySettings | null, bytes: number): Promise<void> {
+    if (bytes <= 0) {
+      return;
+    }
+
+    if (settings) {
+      const quota = settings.storageQuota * BYTES_PER_MB;
+      const usage = await this.subscriptionRepository.getUsage(companyId);
+
+      if (usage.storage + bytes > quota) {
+        throw new UploadRestrictionError(
+          'STORAGE_QUOTA_EXCEEDED',
+          `The company's storage quota of ${settings.storageQuota} MB would be exceeded`,
+          { setting: 'storageQuota', max: quota, current: usage.storage, requested: bytes }
+        );
+      }
+    }
+
+    await this.subscriptionService.assertCanStore(companyId, bytes);
+  }
+
+  /**
+   * Largest upload a room accepts right now, in bytes: the smallest of the
+   * server's own limit, its company's maximum file size and what is left of
+   * the company's storage quota and plan. Bytes the upload replaces, such as
+   * the version it supersedes, count as free.
+   */
+  async getUploadLimit(roomId: string, serverMaxBytes: number, replacedBytes: number = 0): Promise<number> {
+    const companyId = await this.findCompanyId(roomId);
+    const settings = await this.companyRepository.getSettings(companyId);
+    const limits = [serverMaxBytes];
+
+    if (settings) {
+      const usage = await this.subscriptionRepository.getUsage(companyId);
+      limits.push(settings.maxFileSize * BYTES_PER_MB);
+      limits.push(settings.storageQuota * BYTES_PER_MB - usage.storage + replacedBytes);
+    }
+
+    const planRemaining = await this.subscriptionService.getRemainingStorage(companyId);
+    if (planRemaining !== undefined) {
+      limits.push(planRemaining + replacedBytes);
+    }
+
+    return Math.max(Math.min(...limits), 0);
+  }
+
+  /**
+   * Reject content whose type, detected from its leading bytes, the room's
+   * company does not allow. Lets a streamed upload be checked before any of
+   * it is written.
+   */
+  async assertContentAllowed(params: UploadCheckParams): Promise<void> {
+    const companyId = await this.findCompanyId(params.roomId);
+    const settings = await this.companyRepository.getSettings(companyId);
+
+    if (settings) {
+      this.assertFileTypeAllowed(settings.allowedFileTypes, params);
+    }
+  }
+
+  /**
+   * Whether a room's company keeps every upload encrypted at rest
+   */
+  async requiresEncryption(roomId: string): Promise<boolean> {
+    const companyId = await this.roomRepository.findCompanyId(roomId);
+    if (!companyId) {
+      throw new NotFoundError('Room', roomId);
+    }
+
+    const settings = await this.companyRepository.getSettings(companyId);
+    return settings?.security?.encryptAtRest === true;
+  }
+
+  /**
+   * The extension must be allowed, and so must the type detected from the
+   * content's signature when there is one. The client-provided type is not
+   * trusted. Entries are extensions (`pdf`, `.pdf`) or MIME types
+   * (`application/pdf`, `image/*`); an empty list allows every type.
+   */
+  private assertFileTypeAllowed(allowedFileTypes: string[] | null, params: UploadCheckParams): void {
+    const allowed = (allowedFileTypes || [])
+      .map(entry => entry.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (allowed.length === 0) {
+      return;
+    }
+
+    const allowsType = (mimeType: string | null): boolean => !!mimeType && allowed.some(entry =>
+      entry.includes('/')
+        ? mimeTypeMatches(entry, mimeType)
+        : mimeTypeForExtension(`.${entry.replace(/^\./, '')}`) === mimeType
+    );
+
+    const extension = getExtension(params.fileName);
+    const extensionAllowed = allowed.some(entry => entry.replace(/^\./, '') === extension)
+      || allowsType(mimeTypeForExtension(params.fileName));
+
+    if (!extensionAllowed) {
+      throw new UploadRestrictionError(
+        'FILE_TYPE_NOT_ALLOWED',
+        `Files with the extension "${extension || 'none'}" are not allowed`,
+        { setting: 'allowedFileTypes', allowed, extension }
+      );
+    }
+
+    if (!params.content || !sniffMimeType(params.content)) {
+      return;
+    }
+
+    const detectedType = resolveMimeType(params.fileName, params.mimeType, params.content);
+    if (!allowsType(detectedType)) {
+      this.logger.warn('Upload content does not match an allowed file type', {
+        roomId: params.roomId,
+        fileName: params.fileName,
+        declaredType: params.mimeType,
+        detectedType
+      });
+
+      throw new UploadRestrictionError(
+        'FILE_TYPE_NOT_ALLOWED',
+        `The content of "${params.fileName}" is not an allowed file type`,
+        { setting: 'allowedFileTypes', allowed, extension, detectedType }
+      );
+    }
+  }
+
+  private async findCompanyId(roomId: string): Promise<string> {
+    const companyId = await this.roomRepository.findCompanyId(roomId);
+    if (!companyId) {
+      throw new NotFoundError('Room', roomId);
+    }
+    return companyId;
+  }
+
+  private async isGuest(companyId: string, userId: string): Promise<boolean> {
+    const entry = await this.guestRepository.findEntry(companyId, userId);
+    return !!entry && (!entry.expiresAt || entry.expiresAt > new Date());
+  }
+}
@@ -1,12 +1,36 @@
 // src/services/file/upload.service.ts
 import { injectable, inject } from 'inversify';
 import { v4 as uuidv4 } from 'uuid';
+import axios from 'axios';
 import { Logger } from '../../utils/logger';
 import { StorageService } from '../storage/storage.service';
+import { StorageProvider } from '../storage/types';
 import { FileService, FileOperationResult } from './file.service';
 import { FileRepository } from '../../repositories/file.repository';
-import { NotFoundError, ValidationError } from '../../utils/errors';
+import { NotFoundError, ValidationError, UploadRestrictionError } from '../../utils/errors';
 import { WebSocketService } from '../websocket/websocket.service';
+import { UploadPolicyService } from './upload-policy.service';
+import { FileEncryptionService, FileDataKey } from './file-encryption.service';
+import { SNIFF_LENGTH } from '../../utils/file-type';
+import {
+  MultipartUploadRepository,
+  MultipartUploadSession,
+  MultipartUploadStatus,
+  RESUMABLE_STATUSES
+} from '../../repositories/multipart-upload.repository';
+import { env } from '../../config/env';
+
+// How often abandoned uploads are aborted
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// Finished upload sessions are kept this long for status lookups
+const FINISHED_SESSION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Storage key holding bytes a server-side upload has received but not yet
+ * written as a part
+ */
+export const stagedBytesKey = (storageKey: string): string => `${storageKey}.part`;
 
 export interface MultipartUploadInfo {
   uploadId: string;
@@ -14,6 +38,7 @@ export interface MultipartUploadInfo {
   fileName: string;
   storageKey: string;
   storageId: string;
+  providerUploadId: string;
   roomId: string;
   parentId: string | null;
   userId: string;
@@ -22,30 +47,35 @@ export interface MultipartUploadInfo {
   partSize: number;
   totalParts: number;
   partsCompleted: number[];
-  partsInfo: Array<{ partNumber: number; etag: string }>;
-  status: 'initialized' | 'in_progress' | 'completed' | 'failed' | 'aborted';
+  partsInfo: Array<{ partNumber: number; etag: string; size: number }>;
+  status: MultipartUploadStatus;
   metadata?: any;
   startedAt: Date;
   updatedAt: Date;
+  expiresAt: Date;
 }
 
 @injectable()
 export class UploadService {
-  // In-memory storage for active uploads - in production, use Redis
-  private activeUploads: Map<string, MultipartUploadInfo> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
   
   constructor(
     @inject('StorageService') private storageService: StorageService,
     @inject('FileService') private fileService: FileService,
     @inject('FileRepository') private fileRepository: FileRepository,
     @inject('WebSocketService') private wsService: WebSocketService,
+    @inject('UploadPolicyService') private uploadPolicyService: UploadPolicyService,
+    @inject('MultipartUploadRepository') private uploadRepository: MultipartUploadRepository,
+    @inject('FileEncryptionService') private fileEncryption: FileEncryptionService,
     @inject('Logger') private logger: Logger
   ) {
     this.logger = logger.createChildLogger('UploadService');
   }
   
   /**
-   * Initialize a multipart upload
+   * Initialize a multipart upload. Uploads whose parts are sent through the
+   * server (throughServer) are encrypted when the company encrypts at rest;
+   * others are refused there.
    */
   async initializeMultipartUpload(params: {
     fileName: string;
@@ -56,7 +86,10 @@ export class UploadService {
     userId: string;
     storageId?: string;
     metadata?: any;
+    throughServer?: boolean;
   }): Promise<FileOperationResult> {
+    let dataKey: FileDataKey | undefined;
+    
     try {
       const { fileName, mimeType, totalSize, roomId, parentId, userId, storageId, metadata } = params;
       
@@ -65,6 +98,27 @@ export class UploadService {
         throw new ValidationError('Missing required fields');
       }
       
+      // Reject uploads that break the company's settings or plan before any parts are sent.
+      // The content's type is checked once the upload completes.
+      await this.uploadPolicyService.assertUploadAllowed({
+        roomId,
+        userId,
+        fileName,
+        size: totalSize,
+        mimeType
+      });
+      
+      const encrypted = await this.uploadPolicyService.requiresEncryption(roomId);
+      
+      // Parts sent straight to storage never pass the server to be encrypted
+      if (encrypted && !params.throughServer) {
+        throw new UploadRestrictionError(
+          'ENCRYPTION_REQUIRED',
+          'Files in this company are encrypted at rest and must be uploaded through the server',
+          { setting: 'encryptAtRest' }
+        );
+      }
+      
       // Get storage account
       let storageAccount;
       
@@ -111,6 +165,12 @@ export class UploadService {
       // Ensure part size doesn't exceed maximum
       partSize = Math.min(partSize, maximumPartSize);
       
+      if (encrypted) {
+        dataKey = await this.fileService.createRoomDataKey(roomId);
+        // Parts are encrypted one at a time, so each must hold whole chunks
+        partSize = Math.ceil(partSize / dataKey.chunkSize) * dataKey.chunkSize;
+      }
+      
       // Calculate total parts
       const totalParts = Math.ceil(totalSize / partSize);
       
@@ -124,30 +184,25 @@ export class UploadService {
         throw new Error(uploadResult.message || 'Failed to initialize multipart upload');
       }
       
-      // Create upload info
-      const uploadInfo: MultipartUploadInfo = {
-        uploadId,
+      // Store the session so any instance can continue the upload
+      const session = await this.uploadRepository.create({
+        id: uploadId,
         fileId,
+        providerUploadId: uploadResult.uploadId,
         fileName,
-        storageKey,
+        mimeType,
         storageId: storageAccount.id,
+        storageKey,
         roomId,
         parentId,
         userId,
         totalSize,
-        mimeType,
         partSize,
         totalParts,
-        partsCompleted: [],
-        partsInfo: [],
-        status: 'initialized',
-        metadata,
-        startedAt: new Date(),
-        updatedAt: new Date()
-      };
-      
-      // Store upload info
-      this.activeUploads.set(uploadId, uploadInfo);
+        encryptionKeyId: dataKey?.id ?? null,
+        metadata: metadata ?? null,
+        expiresAt: this.nextExpiry()
+      });
       
       this.logger.info('Multipart upload initialized', { 
         uploadId, 
@@ -165,7 +220,8 @@ export class UploadService {
           fileId,
           partSize,
           totalParts,
-          providerUploadId: uploadResult.uploadId
+          providerUploadId: uploadResult.uploadId,
+          expiresAt: session.expiresAt
         }
       };
     } catch (error: any) {
@@ -175,6 +231,10 @@ export class UploadService {
         error 
       });
       
+      if (dataKey) {
+        await this.fileEncryption.discardDataKey(dataKey.id);
+      }
+      
       return {
         success: false,
         message: error.message || 'Failed to initialize multipart upload',
@@ -188,32 +248,30 @@ export class UploadService {
    */
   async getUploadPartUrl(
     uploadId: string,
+    userId: string,
     partNumber: number,
     contentLength: number
   ): Promise<FileOperationResult> {
     try {
-      // Get upload info
-      const uploadInfo = this.activeUploads.get(uploadId);
+      const session = await this.getSession(uploadId, userId);
       
-      if (!uploadInfo) {
-        throw new NotFoundError('Upload', uploadId);
+      if (!this.isResumable(session)) {
+        throw new ValidationError(`Upload is in ${session.status} state`);
       }
       
-      if (uploadInfo.status !== 'initialized' && uploadInfo.status !== 'in_progress') {
-        throw new ValidationError(`Upload is in ${uploadInfo.status} state`);
+      if (partNumber < 1 || partNumber > session.totalParts) {
+        throw new ValidationError(`Invalid part number. Must be between 1 and ${session.totalParts}`);
       }
       
-      if (partNumber < 1 || partNumber > uploadInfo.totalParts) {
-        throw new ValidationError(`Invalid part number. Must be between 1 and ${uploadInfo.totalParts}`);
-      }
+      this.assertClientWritable(session);
       
       // Get provider
-      const provider = await this.storageService.getStorageProvider(uploadInfo.storageId);
+      const provider = await this.storageService.getStorageProvider(session.storageId);
       
       // Get signed URL
       const urlResult = await provider.getSignedUrlForPart(
-        uploadInfo.storageKey,
-        uploadInfo.uploadId,
+        session.storageKey,
+        session.providerUploadId,
         partNumber,
         contentLength
       );
@@ -222,13 +280,8 @@ export class UploadService {
         throw new Error(urlResult.message || 'Failed to generate upload URL');
       }
       
-      // Update upload status
-      if (uploadInfo.status === 'initialized') {
-        uploadInfo.status = 'in_progress';
-      }
-      
-      uploadInfo.updatedAt = new Date();
-      this.activeUploads.set(uploadId, uploadInfo);
+      // Update upload status and keep it alive while the client is active
+      await this.keepAlive(uploadId);
       
       return {
         success: true,
@@ -255,47 +308,48 @@ export class UploadService {
    */
   async completePart(
     uploadId: string,
+    userId: string,
     partNumber: number,
     etag: string
   ): Promise<FileOperationResult> {
     try {
-      // Get upload info
-      const uploadInfo = this.activeUploads.get(uploadId);
+      const session = await this.getSession(uploadId, userId);
       
-      if (!uploadInfo) {
-        throw new NotFoundError('Upload', uploadId);
+      if (session.status !== 'in_progress') {
+        throw new ValidationError(`Upload is in ${session.status} state`);
       }
       
-      if (uploadInfo.status !== 'in_progress') {
-        throw new ValidationError(`Upload is in ${uploadInfo.status} state`);
+      if (partNumber < 1 || partNumber > session.totalParts) {
+        throw new ValidationError(`Invalid part number. Must be between 1 and ${session.totalParts}`);
       }
       
-      if (partNumber < 1 || partNumber > uploadInfo.totalParts) {
-        throw new ValidationError(`Invalid part number. Must be between 1 and ${uploadInfo.totalParts}`);
+      if (!etag) {
+        throw new ValidationError('ETag is required');
       }
       
-      // Add part info
-      uploadInfo.partsInfo.push({ partNumber, etag });
-      uploadInfo.partsCompleted.push(partNumber);
+      this.assertClientWritable(session);
+      
+      // Record the part; every part but the last is exactly partSize
+      await this.uploadRepository.savePart(uploadId, partNumber, etag, this.partLength(session, partNumber));
+      await this.keepAlive(uploadId);
+      
+      const parts = await this.uploadRepository.listParts(uploadId);
+      const bytesTransferred = parts.reduce((total, part) => total + part.size, 0);
       
       // Calculate progress
-      const progress = (uploadInfo.partsCompleted.length / uploadInfo.totalParts) * 100;
+      const progress = (parts.length / session.totalParts) * 100;
       
       // Notify progress
-      this.wsService.notifyFileTransferStatus(uploadInfo.roomId, {
-        fileId: uploadInfo.fileId,
+      this.wsService.notifyFileTransferStatus(session.roomId, {
+        fileId: session.fileId,
         type: 'upload',
         status: 'in_progress',
         progress,
-        bytesTransferred: uploadInfo.partsCompleted.length * uploadInfo.partSize,
-        totalBytes: uploadInfo.totalSize,
-        userId: uploadInfo.userId
+        bytesTransferred,
+        totalBytes: session.totalSize,
+        userId: session.userId
       });
       
-      // Update upload info
-      uploadInfo.updatedAt = new Date();
-      this.activeUploads.set(uploadId, uploadInfo);
-      
       return {
         success: true,
         message: 'Part completed successfully',
@@ -318,68 +372,83 @@ export class UploadService {
   /**
    * Complete multipart upload
    */
-  async completeMultipartUpload(uploadId: string): Promise<FileOperationResult> {
+  async completeMultipartUpload(uploadId: string, userId: string): Promise<FileOperationResult> {
+    let session: MultipartUploadSession | null = null;
+    let claimed = false;
+    let created = false;
+    
     try {
-      // Get upload info
-      const uploadInfo = this.activeUploads.get(uploadId);
+      session = await this.getSession(uploadId, userId);
       
-      if (!uploadInfo) {
-        throw new NotFoundError('Upload', uploadId);
+      if (session.status !== 'in_progress') {
+        throw new ValidationError(`Upload is in ${session.status} state`);
       }
       
-      if (uploadInfo.status !== 'in_progress') {
-        throw new ValidationError(`Upload is in ${uploadInfo.status} state`);
+      const parts = await this.uploadRepository.listParts(uploadId);
+      if (parts.length !== session.totalParts) {
+        throw new ValidationError('Not all parts have been uploaded', {
+          missingParts: this.missingParts(session, parts.map(part => part.partNumber))
+        });
       }
       
-      if (uploadInfo.partsCompleted.length !== uploadInfo.totalParts) {
-        throw new ValidationError('Not all parts have been uploaded');
+      // Only one request may complete the upload
+      claimed = await this.uploadRepository.transition(uploadId, ['in_progress'], 'completing');
+      if (!claimed) {
+        throw new ValidationError('Upload is already being completed');
       }
       
       // Get provider
-      const provider = await this.storageService.getStorageProvider(uploadInfo.storageId);
+      const provider = await this.storageService.getStorageProvider(session.storageId);
       
-      // Complete multipart upload
+      // Complete multipart upload; providers differ in how they name part fields
       const completeResult = await provider.completeMultipartUpload(
-        uploadInfo.storageKey,
-        uploadInfo.uploadId,
-        uploadInfo.partsInfo
+        session.storageKey,
+        session.providerUploadId,
+        parts.map(part => ({
+          PartNumber: part.partNumber,
+          ETag: part.etag,
+          partNumber: part.partNumber,
+          etag: part.etag
+        }))
       );
       
       if (!completeResult.success) {
         throw new Error(completeResult.message || 'Failed to complete multipart upload');
       }
       
+      await this.assertUploadedContentAllowed(provider, session);
+      
       // Create file record
       const fileResult = await this.fileService.uploadFile({
-        name: uploadInfo.fileName,
-        mimeType: uploadInfo.mimeType,
-        size: uploadInfo.totalSize,
-        roomId: uploadInfo.roomId,
-        parentId: uploadInfo.parentId,
-        userId: uploadInfo.userId,
-        storageId: uploadInfo.storageId,
-        storageKey: uploadInfo.storageKey,
-        metadata: uploadInfo.metadata
+        name: session.fileName,
+        mimeType: session.mimeType,
+        size: session.totalSize,
+        roomId: session.roomId,
+        parentId: session.parentId,
+        userId: session.userId,
+        storageId: session.storageId,
+        storageKey: session.storageKey,
+        ...(session.encryptionKeyId ? { encryption: 'server_side', encryptionKey: session.encryptionKeyId } : {}),
+        metadata: session.metadata
       });
       
       if (!fileResult.success) {
-        throw new Error(fileResult.message || 'Failed to create file record');
+        throw fileResult.error || new Error(fileResult.message || 'Failed to create file record');
       }
+      created = true;
       
       // Update upload status
-      uploadInfo.status = 'completed';
-      uploadInfo.updatedAt = new Date();
-      this.activeUploads.set(uploadId, uploadInfo);
+      await this.uploadRepository.transition(uploadId, ['completing'], 'completed');
       
       // Notify completion
-      this.wsService.notifyFileTransferStatus(uploadInfo.roomId, {
-        fileId: uploadInfo.fileId,
+      this.wsService.notifyFileTransferStatus(session.roomId, {
+        fileId: session.fileId,
         type: 'upload',
         status: 'completed',
         progress: 100,
-        bytesTransferred: uploadInfo.totalSize,
-        totalBytes: uploadInfo.totalSize,
-        userId: uploadInfo.userId
+        bytesTransferred: session.totalSize,
+        totalBytes: session.totalSize,
+        userId: session.userId
       });
       
       return {
@@ -390,21 +459,27 @@ export class UploadService {
     } catch (error: any) {
       this.logger.error('Error completing multipart upload', { uploadId, error });
       
-      // Update upload status
-      const uploadInfo = this.activeUploads.get(uploadId);
-      if (uploadInfo) {
-        uploadInfo.status = 'failed';
-        uploadInfo.updatedAt = new Date();
-        this.activeUploads.set(uploadId, uploadInfo);
+      // Only a failure after the upload was claimed ends it; otherwise the client can retry
+      if (session && claimed) {
+        await this.uploadRepository
+          .transition(uploadId, ['completing'], 'failed', { error: (error.message || 'Unknown error').slice(0, 1024) })
+          .catch(updateError => {
+            this.logger.error('Failed to mark upload as failed', { uploadId, error: updateError });
+          });
+        
+        // The upload cannot be retried, so its content is never read again
+        if (session.encryptionKeyId && !created) {
+          await this.fileEncryption.discardDataKey(session.encryptionKeyId);
+        }
         
         // Notify failure
-        this.wsService.notifyFileTransferStatus(uploadInfo.roomId, {
-          fileId: uploadInfo.fileId,
+        this.wsService.notifyFileTransferStatus(session.roomId, {
+          fileId: session.fileId,
           type: 'upload',
           status: 'error',
           progress: 0,
           error: error.message,
-          userId: uploadInfo.userId
+          userId: session.userId
         });
       }
       
@@ -416,51 +491,81 @@ export class UploadService {
     }
   }
   
+  /**
+   * Check the assembled file's actual type against the company's allowed file
+   * types, deleting it from storage if it is rejected
+   */
+  private async assertUploadedContentAllowed(
+    provider: StorageProvider,
+    session: MultipartUploadSession
+  ): Promise<void> {
+    const head = await this.readHead(provider, session);
+    if (!head) {
+      this.logger.warn('Could not read uploaded content to check its type', {
+        uploadId: session.id,
+        storageKey: session.storageKey
+      });
+      return;
+    }
+
+    try {
+      await this.uploadPolicyService.assertUploadAllowed({
+        roomId: session.roomId,
+        userId: session.userId,
+        fileName: session.fileName,
+        size: session.totalSize,
+        mimeType: session.mimeType,
+        content: head,
+        // Storage was already checked when the upload was initialized
+        additionalBytes: 0
+      });
+    } catch (error: any) {
+      await provider.deleteFile(session.storageKey);
+      throw error;
+    }
+  }
+  
+  /**
+   * The first bytes of the assembled file, decrypted if the server encrypted it
+   */
+  private async readHead(provider: StorageProvider, session: MultipartUploadSession): Promise<Buffer | undefined> {
+    if (!session.encryptionKeyId) {
+      const head = await provider.getFileContent(session.storageKey, { start: 0, end: SNIFF_LENGTH - 1 });
+      return head.success ? head.data : undefined;
+    }
+    
+    const dataKey = await this.fileEncryption.getDataKey(session.encryptionKeyId);
+    const { stream } = await this.fileEncryption.openStream(provider, session.storageKey, dataKey, session.totalSize, {
+      start: 0,
+      end: Math.min(SNIFF_LENGTH, session.totalSize) - 1
+    });
+    
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+  
   /**
    * Abort multipart upload
    */
-  async abortMultipartUpload(uploadId: string): Promise<FileOperationResult> {
+  async abortMultipartUpload(uploadId: string, userId: string): Promise<FileOperationResult> {
     try {
-      // Get upload info
-      const uploadInfo = this.activeUploads.get(uploadId);
-      
-      if (!uploadInfo) {
-        throw new NotFoundError('Upload', uploadId);
-      }
+      const session = await this.getSession(uploadId, userId);
       
-      if (uploadInfo.status === 'completed') {
-        throw new ValidationError('Upload is already completed');
+      if (!this.isResumable(session)) {
+        throw new ValidationError(`Upload is in ${session.status} state`);
       }
       
-      // Get provider
-      const provider = await this.storageService.getStorageProvider(uploadInfo.storageId);
-      
-      // Abort upload
-      const abortResult = await provider.abortMultipartUpload(
-        uploadInfo.storageKey,
-        uploadInfo.uploadId
-      );
-      
-      if (!abortResult.success) {
-        throw new Error(abortResult.message || 'Failed to abort multipart upload');
-      }
-      
-      // Update upload status
-      uploadInfo.status = 'aborted';
-      uploadInfo.updatedAt = new Date();
-      this.activeUploads.set(uploadId, uploadInfo);
+      await this.abortSession(session);
       
       this.logger.info('Multipart upload aborted', { 
         uploadId, 
-        fileId: uploadInfo.fileId, 
-        fileName: uploadInfo.fileName 
+        fileId: session.fileId, 
+        fileName: session.fileName 
       });
       
-      // Clean up upload info
-      setTimeout(() => {
-        this.activeUploads.delete(uploadId);
-      }, 3600000); // Keep record for 1 hour
-      
       return {
         success: true,
         message: 'Upload aborted successfully'
@@ -479,29 +584,14 @@ export class UploadService {
   /**
    * Get upload status
    */
-  async getUploadStatus(uploadId: string): Promise<FileOperationResult> {
+  async getUploadStatus(uploadId: string, userId: string): Promise<FileOperationResult> {
     try {
-      // Get upload info
-      const uploadInfo = this.activeUploads.get(uploadId);
-      
-      if (!uploadInfo) {
-        throw new NotFoundError('Upload', uploadId);
-      }
+      const session = await this.getSession(uploadId, userId);
+      const parts = await this.uploadRepository.listParts(uploadId);
       
       return {
         success: true,
-        data: {
-          uploadId: uploadInfo.uploadId,
-          fileId: uploadInfo.fileId,
-          fileName: uploadInfo.fileName,
-          totalSize: uploadInfo.totalSize,
-          totalParts: uploadInfo.totalParts,
-          completedParts: uploadInfo.partsCompleted.length,
-          status: uploadInfo.status,
-          progress: (uploadInfo.partsCompleted.length / uploadInfo.totalParts) * 100,
-          startedAt: uploadInfo.startedAt,
-          updatedAt: uploadInfo.updatedAt
-        }
+        data: this.toUploadInfo(session, parts)
       };
     } catch (error: any) {
       this.logger.error('Error getting upload status', { uploadId, error });
@@ -513,4 +603,250 @@ export class UploadService {
       };
     }
   }
+  
+  /**
+   * List a user's uploads that can still be resumed, optionally in one room.
+   * Each includes the parts already uploaded so the client only sends the rest.
+   */
+  async listResumableUploads(userId: string, roomId?: string): Promise<FileOperationResult> {
+    try {
+      const sessions = await this.uploadRepository.listResumable(userId, new Date(), roomId);
+      
+      const uploads: MultipartUploadInfo[] = [];
+      for (const session of sessions) {
+        uploads.push(this.toUploadInfo(session, await this.uploadRepository.listParts(session.id)));
+      }
+      
+      return {
+        success: true,
+        data: uploads
+      };
+    } catch (error: any) {
+      this.logger.error('Error listing resumable uploads', { userId, roomId, error });
+      
+      return {
+        success: false,
+        message: error.message || 'Failed to list uploads',
+        error
+      };
+    }
+  }
+  
+  /**
+   * Abort uploads nobody has touched within MULTIPART_UPLOAD_TTL_HOURS, so
+   * providers drop their parts, and forget old finished sessions
+   */
+  async abortExpiredUploads(now: Date = new Date()): Promise<{ aborted: number; failed: number }> {
+    const result = { aborted: 0, failed: 0 };
+    
+    for (const session of await this.uploadRepository.findExpired(now)) {
+      try {
+        await this.abortSession(session);
+        result.aborted++;
+      } catch (error: any) {
+        this.logger.error('Failed to abort expired upload', { uploadId: session.id, error: error.message });
+        result.failed++;
+      }
+    }
+    
+    const removed = await this.uploadRepository.deleteFinishedBefore(
+      new Date(now.getTime() - FINISHED_SESSION_RETENTION_MS)
+    );
+    
+    if (result.aborted || result.failed || removed) {
+      this.logger.info('Expired uploads swept', { ...result, removed });
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Sweep expired uploads now and then periodically
+   */
+  startSweeper(intervalMs: number = SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    
+    const sweep = () => {
+      this.abortExpiredUploads().catch(error => {
+        this.logger.error('Error sweeping expired uploads', { error: error.message });
+      });
+    };
+    
+    this.sweepTimer = setInterval(sweep, intervalMs);
+    sweep();
+  }
+  
+  stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+  
+  /**
+   * Upload a part through the server, for clients that send their data to us
+   * instead of straight to storage. Every part but the last must be exactly
+   * partSize bytes. Parts of encrypted uploads are encrypted on the way.
+   */
+  async uploadPart(session: MultipartUploadSession, partNumber: number, data: Buffer): Promise<void> {
+    if (partNumber < 1 || partNumber > session.totalParts) {
+      throw new ValidationError(`Invalid part number. Must be between 1 and ${session.totalParts}`);
+    }
+    
+    const expectedLength = this.partLength(session, partNumber);
+    if (data.length !== expectedLength) {
+      throw new ValidationError(`Part ${partNumber} must be ${expectedLength} bytes`);
+    }
+    
+    const body = session.encryptionKeyId
+      ? this.fileEncryption.encryptPart(
+        data,
+        await this.fileEncryption.getDataKey(session.encryptionKeyId),
+        (partNumber - 1) * session.partSize,
+        partNumber === session.totalParts
+      )
+      : data;
+    
+    const provider = await this.storageService.getStorageProvider(session.storageId);
+    const urlResult = await provider.getSignedUrlForPart(
+      session.storageKey,
+      session.providerUploadId,
+      partNumber,
+      body.length
+    );
+    
+    if (!urlResult.success || !urlResult.url) {
+      throw new Error(urlResult.message || 'Failed to generate upload URL');
+    }
+    
+    const response = await axios.put(urlResult.url, body, {
+      headers: { 'Content-Length': body.length },
+      maxBodyLength: Infinity
+    });
+    
+    // Completing the upload needs every part's ETag
+    if (!response.headers.etag) {
+      throw new Error(`The storage provider returned no ETag for part ${partNumber}`);
+    }
+    
+    await this.uploadRepository.savePart(session.id, partNumber, response.headers.etag, data.length);
+    await this.keepAlive(session.id);
+  }
+  
+  /**
+   * Mark an upload as in progress and push back its expiry. Returns the new
+   * expiry, or null if the upload can no longer be resumed.
+   */
+  async keepAlive(uploadId: string): Promise<Date | null> {
+    const expiresAt = this.nextExpiry();
+    const updated = await this.uploadRepository.transition(uploadId, RESUMABLE_STATUSES, 'in_progress', { expiresAt });
+    return updated ? expiresAt : null;
+  }
+  
+  /**
+   * Load an upload session, hiding other users' uploads
+   */
+  async getSession(uploadId: string, userId: string): Promise<MultipartUploadSession> {
+    const session = await this.uploadRepository.findById(uploadId);
+    
+    if (!session || session.userId !== userId) {
+      throw new NotFoundError('Upload', uploadId);
+    }
+    
+    return session;
+  }
+  
+  isResumable(session: MultipartUploadSession): boolean {
+    return RESUMABLE_STATUSES.includes(session.status) && session.expiresAt > new Date();
+  }
+  
+  /**
+   * Encrypted uploads are written by the server, so clients may not send
+   * their parts straight to storage
+   */
+  private assertClientWritable(session: MultipartUploadSession): void {
+    if (session.encryptionKeyId) {
+      throw new UploadRestrictionError(
+        'ENCRYPTION_REQUIRED',
+        'Parts of encrypted uploads must be sent through the server',
+        { setting: 'encryptAtRest' }
+      );
+    }
+  }
+  
+  /**
+   * Abort an upload with its provider and mark it aborted. Provider uploads
+   * that no longer exist are treated as aborted.
+   */
+  private async abortSession(session: MultipartUploadSession): Promise<void> {
+    const provider = await this.storageService.getStorageProvider(session.storageId);
+    const abortResult = await provider.abortMultipartUpload(session.storageKey, session.providerUploadId);
+    
+    if (!abortResult.success) {
+      this.logger.warn('Provider did not abort upload', {
+        uploadId: session.id,
+        message: abortResult.message
+      });
+    }
+    
+    // Bytes received through the server but not yet written as a part
+    if (await this.uploadRepository.findTus(session.id)) {
+      await provider.deleteFile(stagedBytesKey(session.storageKey));
+    }
+    
+    const aborted = await this.uploadRepository.transition(session.id, RESUMABLE_STATUSES, 'aborted');
+    if (!aborted) {
+      throw new ValidationError('Upload is no longer in progress');
+    }
+    
+    if (session.encryptionKeyId) {
+      await this.fileEncryption.discardDataKey(session.encryptionKeyId);
+    }
+  }
+  
+  private partLength(session: MultipartUploadSession, partNumber: number): number {
+    return partNumber === session.totalParts
+      ? session.totalSize - session.partSize * (session.totalParts - 1)
+      : session.partSize;
+  }
+  
+  private missingParts(session: MultipartUploadSession, uploaded: number[]): number[] {
+    const done = new Set(uploaded);
+    return Array.from({ length: session.totalParts }, (_, index) => index + 1)
+      .filter(partNumber => !done.has(partNumber));
+  }
+  
+  private nextExpiry(): Date {
+    return new Date(Date.now() + env.MULTIPART_UPLOAD_TTL_HOURS * 60 * 60 * 1000);
+  }
+  
+  private toUploadInfo(
+    session: MultipartUploadSession,
+    parts: Array<{ partNumber: number; etag: string; size: number }>
+  ): MultipartUploadInfo {
+    return {
+      uploadId: session.id,
+      fileId: session.fileId,
+      fileName: session.fileName,
+      storageKey: session.storageKey,
+      storageId: session.storageId,
+      providerUploadId: session.providerUploadId,
+      roomId: session.roomId,
+      parentId: session.parentId,
+      userId: session.userId,
+      totalSize: session.totalSize,
+      mimeType: session.mimeType,
+      partSize: session.partSize,
+      totalParts: session.totalParts,
+      partsCompleted: parts.map(part => part.partNumber),
+      partsInfo: parts.map(({ partNumber, etag, size }) => ({ partNumber, etag, size })),
+      status: session.status,
+      metadata: session.metadata ?? undefined,
+      startedAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      expiresAt: session.expiresAt
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+// src/services/guest/_tests_/guest.service.test.ts
+import { GuestService } from '../guest.service';
+import { AuthorizationError, ConflictError, ValidationError } from '../../../utils/errors';
+import { createTestLogger, InMemoryGuestRepository } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: { APP_URL: 'https://app.example.com' } }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/guest.repository', () => ({ GuestRepository: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../../repositories/user.repository', () => ({ UserRepository: class {} }));
+jest.mock('../../activity/activity.service', () => ({ ActivityService: class {} }));
+jest.mock('../../mail/mail.service', () => ({ MailService: class {}, escapeHtml: (value: string) => value }));
+
+const logger = createTestLogger();
+
+describe('GuestService', () => {
+  const owner = { id: 'owner', email: 'owner@example.com' };
+  const member = { id: 'member', email: 'member@example.com' };
+
+  let guestRepository: InMemoryGuestRepository;
+  let mailService: { send: jest.Mock };
+  let service: GuestService;
+
+  beforeEach(() => {
+    guestRepository = new InMemoryGuestRepository();
+    const companyRepository = {
+      findById: async (id: string) => ({ id, name: 'Acme' }),
+      findMember: async (_companyId: string, userId: string) =>
+        ({ owner: { role: 'owner' }, member: { role: 'member' } } as any)[userId] || null
+    };
+    const users: any[] = [{ id: 'user-known', email: 'known@example.com' }];
+    const userRepository = {
+      findByEmail: async (email: string) => users.find(u => u.email === email) || null,
+      createGuestUser: async (email: string) => {
+        const user = { id: `user-${users.length + 1}`, email };
+        users.push(user);
+        return user;
+      }
+    };
+    mailService = { send: jest.fn().mockResolvedValue({ success: true }) };
+
+    service = new GuestService(
+      guestRepository as any,
+      companyRepository as any,
+      userRepository as any,
+      { createActivity: jest.fn().mockResolvedValue(undefined) } as any,
+      mailService as any,
+      logger
+    );
+  });
+
+  it('should not schedule anything until started', () => {
+    jest.useFakeTimers();
+    try {
+      const revoke = jest.spyOn(service, 'revokeExpiredGuests');
+      jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+      expect(revoke).not.toHaveBeenCalled();
+
+      service.start(1000);
+      jest.advanceTimersByTime(1000);
+      service.stop();
+      jest.advanceTimersByTime(5000);
+
+      expect(revoke).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should only let owners and admins add guests', async () => {
+    await expect(service.addGuest('company-1', member, { email: 'guest@example.com' })).rejects.toThrow(AuthorizationError);
+    await expect(service.addGuest('company-1', owner, { email: 'not-an-email' })).rejects.toThrow(ValidationError);
+    await expect(service.addGuest('company-1', owner, { email: 'guest@example.com', expiresAt: new Date(Date.now() - 1000) }))
+      .rejects.toThrow(ValidationError);
+  });
+
+  it('should give a new guest access to the rooms open to guests and email them', async () => {
+    const entry = await service.addGuest('company-1', owner, { email: 'Guest@Example.com ' });
+
+    expect(guestRepository.access).toEqual([
+      { roomId: 'room-1', userId: entry.userId, accessType: 'viewer', invitedById: 'owner', guestListId: entry.id },
+      { roomId: 'room-2', userId: entry.userId, accessType: 'viewer', invitedById: 'owner', guestListId: entry.id }
+    ]);
+    expect(mailService.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'guest@example.com' }));
+    await expect(service.addGuest('company-1', owner, { email: 'guest@example.com' })).rejects.toThrow(ConflictError);
+  });
+
+  it('should keep access the user was given directly when they are removed from the guest list', async () => {
+    // Invited to room-1 by a member before being added as a guest
+    guestRepository.access.push({ roomId: 'room-1', userId: 'user-known', accessType: 'editor', invitedById: 'member', guestListId: null });
+
+    await service.addGuest('company-1', owner, { email: 'known@example.com' });
+    await service.removeGuest('company-1', owner, 'user-known');
+
+    expect(guestRepository.access).toEqual([
+      { roomId: 'room-1', userId: 'user-known', accessType: 'editor', invitedById: 'member', guestListId: null }
+    ]);
+    expect(guestRepository.entries).toEqual([]);
+  });
+
+  it('should only take back the guest access when a room is closed to guests', async () => {
+    const guest = await service.addGuest('company-1', owner, { email: 'guest@example.com' });
+    guestRepository.access.push({ roomId: 'room-3', userId: guest.userId, accessType: 'viewer', invitedById: 'member', guestListId: null });
+
+    await service.revokeGuestRoomAccess('room-1', 'company-1');
+    await service.revokeGuestRoomAccess('room-3', 'company-1');
+
+    expect(guestRepository.access.map(a => a.roomId)).toEqual(['room-2', 'room-3']);
+  });
+
+  it('should open a room to active guests only', async () => {
+    guestRepository.guestRooms = [];
+    const active = await service.addGuest('company-1', owner, { email: 'active@example.com' });
+    const expiring = await service.addGuest('company-1', owner, { email: 'expiring@example.com', expiresAt: new Date(Date.now() + 1000) });
+    expiring.expiresAt = new Date(Date.now() - 1000);
+
+    await service.grantGuestRoomAccess('room-4', 'company-1', 'owner');
+
+    expect(guestRepository.access).toEqual([
+      { roomId: 'room-4', userId: active.userId, accessType: 'viewer', invitedById: 'owner', guestListId: active.id }
+    ]);
+  });
+
+  it('should revoke expired guests', async () => {
+    const expiring = await service.addGuest('company-1', owner, { email: 'expiring@example.com', expiresAt: new Date(Date.now() + 1000) });
+    await service.addGuest('company-1', owner, { email: 'staying@example.com' });
+
+    const revoked = await service.revokeExpiredGuests(new Date(Date.now() + 2000));
+
+    expect(revoked).toBe(1);
+    expect(guestRepository.entries.map(e => e.userId)).not.toContain(expiring.userId);
+    expect(guestRepository.access.every(a => a.userId !== expiring.userId)).toBe(true);
+    expect(guestRepository.access).toHaveLength(2);
+  });
+});
@@ -0,0 +1,287 @@
+// src/services/guest/guest.service.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { GuestRepository, GuestDetails, GuestListEntry } from '../../repositories/guest.repository';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { ActivityService } from '../activity/activity.service';
+import { MailService, escapeHtml } from '../mail/mail.service';
+import { CompanyActor } from '../company/company.service';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { env } from '../../config/env';
+
+// Company roles allowed to manage the guest list
+const GUEST_MANAGER_ROLES = ['owner', 'admin'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// How often expired guests are revoked
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+@injectable()
+export class GuestService {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @inject('GuestRepository') private guestRepository: GuestRepository,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('UserRepository') private userRepository: UserRepository,
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('MailService') private mailService: MailService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('GuestService');
+  }
+
+  /**
+   * List a company's guests
+   */
+  async listGuests(companyId: string, actor: CompanyActor): Promise<GuestDetails[]> {
+    try {
+      await this.assertCompanyAccess(companyId, actor);
+      return await this.guestRepository.listByCompany(companyId);
+    } catch (error: any) {
+      this.logger.error('Failed to list guests', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Invite someone to a company's guest list by email. A guest user is created
+   * if nobody has signed up with the address yet. Guests get access to every
+   * room open to guests until their access expires.
+   */
+  async addGuest(companyId: string, actor: CompanyActor, data: {
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    expiresAt?: Date | null;
+  }): Promise<GuestListEntry> {
+    try {
+      const email = data.email?.trim().toLowerCase();
+      if (!email || !EMAIL_PATTERN.test(email)) {
+        throw new ValidationError('A valid email is required');
+      }
+
+      if (data.expiresAt && data.expiresAt <= new Date()) {
+        throw new ValidationError('Expiry date must be in the future');
+      }
+
+      const company = await this.companyRepository.findById(companyId);
+      if (!company) {
+        throw new NotFoundError('Company', companyId);
+      }
+
+      await this.assertCompanyAccess(companyId, actor, GUEST_MANAGER_ROLES);
+
+      let user = await this.userRepository.findByEmail(email);
+      if (!user) {
+        user = await this.userRepository.createGuestUser(email, {
+          firstName: data.firstName,
+          lastName: data.lastName,
+          invitedByCompanyId: companyId
+        });
+        this.logger.info('Guest user created', { userId: user.id, companyId });
+      } else if (await this.companyRepository.findMember(companyId, user.id)) {
+        throw new ConflictError(`${email} is already a member of this company`);
+      }
+
+      if (await this.guestRepository.findEntry(companyId, user.id)) {
+        throw new ConflictError(`${email} is already on the guest list`);
+      }
+
+      const entry = await this.guestRepository.add({
+        companyId,
+        userId: user.id,
+        addedById: actor.id,
+        expiresAt: data.expiresAt
+      });
+
+      const roomIds = await this.guestRepository.findGuestRoomIds(companyId);
+      await this.guestRepository.grantRoomAccess(roomIds, [entry], actor.id);
+
+      await this.sendGuestInviteEmail(company.name, email, entry, actor);
+
+      await this.activityService.createActivity({
+        type: 'admin_action',
+        userId: actor.id,
+        companyId,
+        metadata: {
+          action: 'add_guest',
+          guestId: user.id,
+          email,
+          expiresAt: entry.expiresAt
+        }
+      });
+
+      this.logger.info('Guest added', { companyId, userId: user.id, rooms: roomIds.length });
+      return entry;
+    } catch (error: any) {
+      this.logger.error('Failed to add guest', { companyId, email: data.email, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a guest from a company's guest list and revoke their room access
+   */
+  async removeGuest(companyId: string, actor: CompanyActor, userId: string): Promise<void> {
+    try {
+      await this.assertCompanyAccess(companyId, actor, GUEST_MANAGER_ROLES);
+
+      const entry = await this.guestRepository.findEntry(companyId, userId);
+      if (!entry) {
+        throw new NotFoundError('Guest', userId);
+      }
+
+      await this.revokeGuest(entry);
+
+      await this.activityService.createActivity({
+        type: 'admin_action',
+        userId: actor.id,
+        companyId,
+        metadata: {
+          action: 'remove_guest',
+          guestId: userId
+        }
+      });
+    } catch (error: any) {
+      this.logger.error('Failed to remove guest', { companyId, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Give a company's current guests access to a room that was opened to guests
+   */
+  async grantGuestRoomAccess(roomId: string, companyId: string, grantedById: string | null): Promise<void> {
+    try {
+      const guests = await this.guestRepository.findActiveGuests(companyId);
+      await this.guestRepository.grantRoomAccess([roomId], guests, grantedById);
+    } catch (error: any) {
+      this.logger.error('Failed to grant guest room access', { roomId, companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove guests' access to a room that is no longer open to guests
+   */
+  async revokeGuestRoomAccess(roomId: string, companyId: string): Promise<void> {
+    try {
+      const guests = await this.guestRepository.listByCompany(companyId);
+      await this.guestRepository.revokeRoomAccess([roomId], guests.map(guest => guest.id));
+    } catch (error: any) {
+      this.logger.error('Failed to revoke guest room access', { roomId, companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove guests whose access has expired from their guest lists
+   */
+  async revokeExpiredGuests(now: Date = new Date()): Promise<number> {
+    const expired = await this.guestRepository.findExpired(now);
+
+    let revoked = 0;
+    for (const entry of expired) {
+      try {
+        await this.revokeGuest(entry);
+        revoked++;
+      } catch (error: any) {
+        this.logger.error('Failed to revoke expired guest', {
+          companyId: entry.companyId,
+          userId: entry.userId,
+          error: error.message
+        });
+      }
+    }
+
+    if (revoked > 0) {
+      this.logger.info('Revoked expired guests', { count: revoked });
+    }
+
+    return revoked;
+  }
+
+  private async revokeGuest(entry: GuestListEntry): Promise<void> {
+    // Only the access the guest list granted; rooms the user was invited to directly stay
+    await this.guestRepository.revokeGuestAccess(entry.id);
+    await this.guestRepository.remove(entry.companyId, entry.userId);
+
+    this.logger.info('Guest access revoked', { companyId: entry.companyId, userId: entry.userId });
+  }
+
+  /**
+   * Revoke expired guests now and then every EXPIRY_SWEEP_INTERVAL_MS
+   */
+  start(intervalMs: number = EXPIRY_SWEEP_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.revokeExpiredGuests().catch(error => {
+        this.logger.error('Error in scheduled expired guest cleanup', {
+          error: error.message
+        });
+      });
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    run();
+
+    this.logger.info('Expired guest cleanup scheduled', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async assertCompanyAccess(companyId: string, actor: CompanyActor, roles?: string[]): Promise<void> {
+    // Platform admins can manage any company's guests
+    if (actor.role === 'admin') {
+      return;
+    }
+
+    const member = await this.companyRepository.findMember(companyId, actor.id);
+    if (!member) {
+      throw new AuthorizationError('You are not a member of this company');
+    }
+    if (roles && !roles.includes(member.role)) {
+      throw new AuthorizationError('Only company owners and admins can manage guests');
+    }
+  }
+
+  private async sendGuestInviteEmail(
+    companyName: string,
+    email: string,
+    entry: GuestListEntry,
+    invitedBy: CompanyActor
+  ): Promise<void> {
+    const signInUrl = env.APP_URL.replace(/\/+$/, '');
+    const expiry = entry.expiresAt ? `Your access expires on ${entry.expiresAt.toUTCString()}.` : '';
+
+    const result = await this.mailService.send({
+      to: email,
+      subject: `You have been added as a guest of ${companyName}`,
+      text: [
+        `${invitedBy.email} has given you guest access to ${companyName}.`,
+        '',
+        `Sign in with this email address: ${signInUrl}`,
+        ...(expiry ? ['', expiry] : [])
+      ].join('\n'),
+      html: `<p>${escapeHtml(invitedBy.email)} has given you guest access to <strong>${escapeHtml(companyName)}</strong>.</p>`
+        + `<p><a href="${escapeHtml(signInUrl)}">Sign in</a> with this email address.</p>`
+        + (expiry ? `<p>${expiry}</p>` : '')
+    });
+
+    if (!result.success) {
+      // The guest keeps their access; they can still sign in
+      this.logger.warn('Guest invite email was not delivered', { companyId: entry.companyId, email });
+    }
+  }
+}
@@ -0,0 +1,68 @@
+// src/services/mail/_tests_/mail-queue.service.test.ts
+import { MailQueueService } from '../mail-queue.service';
+import { createTestLogger, InMemoryMailQueueRepository } from '../../../tests/helpers';
+
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/mail-queue.repository', () => ({ MailQueueRepository: class {} }));
+jest.mock('../mail.service', () => ({ MailService: class {} }));
+
+const logger = createTestLogger();
+
+describe('MailQueueService', () => {
+  let repository: InMemoryMailQueueRepository;
+  let mailService: { send: jest.Mock };
+  let service: MailQueueService;
+
+  const message = (to: string) => ({
+    to,
+    subject: 'A file was shared with you',
+    text: 'Open it',
+    headers: { 'List-Unsubscribe': '<https://app.example.com/unsubscribe>' }
+  });
+
+  beforeEach(() => {
+    repository = new InMemoryMailQueueRepository();
+    mailService = { send: jest.fn().mockResolvedValue({ success: true }) };
+    service = new MailQueueService(repository as any, mailService as any, logger);
+  });
+
+  it('should send queued email from the worker, not when it is queued', async () => {
+    await service.enqueue([message('ann@example.com'), message('bob@example.com')]);
+    expect(mailService.send).not.toHaveBeenCalled();
+
+    const result = await service.processQueue();
+
+    expect(result).toEqual({ sent: 2, failed: 0 });
+    expect(mailService.send.mock.calls.map(([mail]) => mail.to)).toEqual(['ann@example.com', 'bob@example.com']);
+    expect(mailService.send).toHaveBeenCalledWith(expect.objectContaining({
+      headers: { 'List-Unsubscribe': '<https://app.example.com/unsubscribe>' }
+    }));
+    expect(repository.mail.map(m => m.status)).toEqual(['sent', 'sent']);
+  });
+
+  it('should retry failed email with backoff and give up after five attempts', async () => {
+    mailService.send.mockResolvedValue({ success: false, message: 'Connection refused' });
+    await service.enqueue([message('ann@example.com')]);
+
+    const first = await service.processQueue();
+    const retryAt = repository.mail[0].nextAttemptAt.getTime();
+
+    expect(first).toEqual({ sent: 0, failed: 1 });
+    expect(retryAt - Date.now()).toBeGreaterThan(50 * 1000);
+    expect((await service.processQueue()).failed).toBe(0);
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      await service.processQueue(new Date(Date.now() + 24 * 60 * 60 * 1000));
+    }
+
+    expect(repository.mail[0]).toMatchObject({ status: 'failed', attempts: 5, error: 'Connection refused' });
+  });
+
+  it('should not send email another sender claimed', async () => {
+    await service.enqueue([message('ann@example.com')]);
+    jest.spyOn(repository, 'claim').mockResolvedValue(false);
+
+    await expect(service.processQueue()).resolves.toEqual({ sent: 0, failed: 0 });
+    expect(mailService.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+// src/services/mail/_tests_/transports.test.ts
+import fs from 'fs/promises';
+import net, { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { FileMailTransport, ConsoleMailTransport, MemoryMailTransport, SmtpMailTransport } from '../transports';
+import { Logger } from '../../../utils/logger';
+
+describe('Mail transports', () => {
+  describe('FileMailTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write each message to a JSON file', async () => {
+      const transport = new FileMailTransport(directory);
+
+      const result = await transport.send({
+        to: 'invitee@example.com',
+        subject: 'You have been invited',
+        text: 'Accept the invitation'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.messageId).toBeDefined();
+
+      const written = await fs.readdir(directory);
+      expect(written).toHaveLength(1);
+
+      const message = JSON.parse(await fs.readFile(path.join(directory, written[0]), 'utf8'));
+      expect(message).toMatchObject({
+        messageId: result.messageId,
+        to: 'invitee@example.com',
+        subject: 'You have been invited'
+      });
+    });
+  });
+
+  describe('ConsoleMailTransport', () => {
+    it('should log the message instead of sending it', async () => {
+      const logger = { info: jest.fn() } as unknown as Logger;
+      const transport = new ConsoleMailTransport(logger);
+
+      const result = await transport.send({
+        to: 'invitee@example.com',
+        subject: 'Hello',
+        text: 'Body'
+      });
+
+      expect(result.success).toBe(true);
+      expect(logger.info).toHaveBeenCalledWith('Email (console transport)', expect.objectContaining({
+        to: 'invitee@example.com',
+        subject: 'Hello'
+      }));
+    });
+  });
+
+  describe('MemoryMailTransport', () => {
+    it('should keep sent messages until cleared', async () => {
+      const transport = new MemoryMailTransport();
+
+      const result = await transport.send({ to: 'watcher@example.com', subject: 'New file', text: 'Body' });
+
+      expect(result.success).toBe(true);
+      expect(transport.messages).toEqual([
+        expect.objectContaining({ messageId: result.messageId, to: 'watcher@example.com', subject: 'New file' })
+      ]);
+
+      transport.clear();
+      expect(transport.messages).toHaveLength(0);
+    });
+  });
+
+  describe('SmtpMailTransport', () => {
+    let server: net.Server;
+    let port: number;
+    let received: { commands: string[]; data: string };
+
+    // Just enough SMTP to accept one message without TLS or auth
+    beforeEach(async () => {
+      received = { commands: [], data: '' };
+
+      server = net.createServer(socket => {
+        let buffer = '';
+        let inData = false;
+
+        socket.write('220 localhost ESMTP test\r\n');
+        socket.on('data', chunk => {
+          buffer += chunk.toString();
+
+          while (true) {
+            if (inData) {
+              const end = buffer.indexOf('\r\n.\r\n');
+              if (end === -1) {
+                return;
+              }
+              received.data = buffer.slice(0, end);
+              buffer = buffer.slice(end + 5);
+              inData = false;
+              socket.write('250 OK queued\r\n');
+              continue;
+            }
+
+            const lineEnd = buffer.indexOf('\r\n');
+            if (lineEnd === -1) {
+              return;
+            }
+            const line = buffer.slice(0, lineEnd);
+            buffer = buffer.slice(lineEnd + 2);
+            received.commands.push(line);
+
+            const command = line.split(' ')[0].toUpperCase();
+            if (command === 'EHLO') {
+              socket.write('250-localhost\r\n250 8BITMIME\r\n');
+            } else if (command === 'DATA') {
+              inData = true;
+              socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+            } else if (command === 'QUIT') {
+              socket.end('221 Bye\r\n');
+            } else {
+              socket.write('250 OK\r\n');
+            }
+          }
+        });
+      });
+
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should deliver the message to the SMTP server', async () => {
+      const transport = new SmtpMailTransport({ host: '127.0.0.1', port, secure: false });
+
+      const result = await transport.send({
+        from: 'no-reply@example.com',
+        to: 'watcher@example.com',
+        subject: 'New file in Finance',
+        text: 'Someone uploaded report.pdf',
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.messageId).toBeDefined();
+      expect(received.commands).toEqual(expect.arrayContaining([
+        'MAIL FROM:<no-reply@example.com>',
+        'RCPT TO:<watcher@example.com>'
+      ]));
+      expect(received.data).toContain('Subject: New file in Finance');
+      expect(received.data).toContain('List-Unsubscribe: <https://example.com/unsubscribe>');
+      expect(received.data).toContain('Someone uploaded report.pdf');
+    });
+  });
+});
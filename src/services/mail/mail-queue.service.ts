@@ -0,0 +1,146 @@
+// src/services/mail/mail-queue.service.ts
+import { injectable, inject } from 'inversify';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { MailQueueRepository, QueuedMail } from '../../repositories/mail-queue.repository';
+import { MailService } from './mail.service';
+import { MailMessage } from './types';
+
+// How often the worker sends queued email
+const QUEUE_INTERVAL_MS = 30 * 1000;
+
+// Email sent per run; the rest wait for the next run
+const BATCH_SIZE = 100;
+
+// Attempts before an email is given up on; retries back off from one minute
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+
+// How long a sender holds an email before another may retry it
+const LEASE_MS = 5 * 60 * 1000;
+
+// Sent and failed email is kept this long
+const FINISHED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Queues email for the worker to send, so requests that trigger many emails
+ * do not wait on the mail server. Failed sends are retried with backoff.
+ */
+@injectable()
+export class MailQueueService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    @inject('MailQueueRepository') private mailQueueRepository: MailQueueRepository,
+    @inject('MailService') private mailService: MailService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('MailQueueService');
+  }
+
+  /**
+   * Queue messages to be sent by the worker
+   */
+  async enqueue(messages: MailMessage[]): Promise<void> {
+    await this.mailQueueRepository.enqueue(messages.map(message => ({
+      id: uuidv4(),
+      recipient: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html ?? null,
+      headers: message.headers ?? null
+    })));
+  }
+
+  /**
+   * Send queued email that is due. Runs never overlap.
+   */
+  async processQueue(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    const result = { sent: 0, failed: 0 };
+
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      for (const mail of await this.mailQueueRepository.findDue(now, BATCH_SIZE)) {
+        if (!(await this.mailQueueRepository.claim(mail.id, now, new Date(now.getTime() + LEASE_MS)))) {
+          continue;
+        }
+
+        if (await this.send(mail)) {
+          result.sent++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      const removed = await this.mailQueueRepository.deleteFinishedBefore(new Date(now.getTime() - FINISHED_RETENTION_MS));
+
+      if (result.sent || result.failed || removed) {
+        this.logger.info('Mail queue run finished', { ...result, removed });
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Send queued email now and then periodically
+   */
+  start(intervalMs: number = QUEUE_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.processQueue().catch(error => {
+        this.logger.error('Error in scheduled mail queue run', { error: error.message });
+      });
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    run();
+
+    this.logger.info('Mail queue scheduled', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async send(mail: QueuedMail): Promise<boolean> {
+    const result = await this.mailService.send({
+      to: mail.recipient,
+      subject: mail.subject,
+      text: mail.text,
+      html: mail.html ?? undefined,
+      headers: mail.headers ?? undefined
+    });
+
+    if (result.success) {
+      await this.mailQueueRepository.markSent(mail.id, new Date());
+      return true;
+    }
+
+    const attempts = mail.attempts + 1;
+    const nextAttemptAt = attempts < MAX_ATTEMPTS
+      ? new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1))
+      : null;
+
+    await this.mailQueueRepository.recordFailure(mail.id, result.message || 'Failed to send email', nextAttemptAt);
+
+    if (!nextAttemptAt) {
+      this.logger.warn('Gave up sending email', { mailId: mail.id, to: mail.recipient, attempts });
+    }
+
+    return false;
+  }
+}
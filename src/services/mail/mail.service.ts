@@ -0,0 +1,95 @@
+// src/services/mail/mail.service.ts
+import { injectable, inject } from 'inversify';
+import path from 'path';
+import { Logger } from '../../utils/logger';
+import { env } from '../../config/env';
+import { MailMessage, MailSendResult, MailTransport } from './types';
+import { ConsoleMailTransport, FileMailTransport, MemoryMailTransport, SmtpMailTransport } from './transports';
+
+/**
+ * Escape user-provided text before putting it in an HTML email body
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+@injectable()
+export class MailService {
+  private transport: MailTransport;
+
+  constructor(
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('MailService');
+    this.transport = this.createTransport();
+  }
+
+  /**
+   * Replace the transport, e.g. with a stub in tests
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send an email. Never throws; delivery failures are reported in the result.
+   */
+  async send(message: MailMessage): Promise<MailSendResult> {
+    try {
+      const result = await this.transport.send({
+        ...message,
+        from: message.from || env.SMTP_FROM || 'no-reply@lockbridge.com'
+      });
+
+      this.logger.info('Email sent', {
+        transport: this.transport.name,
+        to: message.to,
+        subject: message.subject,
+        messageId: result.messageId
+      });
+
+      return result;
+    } catch (error: any) {
+      this.logger.error('Failed to send email', {
+        transport: this.transport.name,
+        to: message.to,
+        subject: message.subject,
+        error: error.message
+      });
+
+      return {
+        success: false,
+        message: error.message || 'Failed to send email',
+        error
+      };
+    }
+  }
+
+  private createTransport(): MailTransport {
+    switch (env.MAIL_TRANSPORT) {
+      case 'smtp':
+        if (!env.SMTP_HOST) {
+          throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+        }
+        return new SmtpMailTransport({
+          host: env.SMTP_HOST,
+          port: env.SMTP_PORT || 587,
+          secure: env.SMTP_SECURE,
+          user: env.SMTP_USER,
+          pass: env.SMTP_PASS
+        });
+      case 'file':
+        return new FileMailTransport(path.resolve(env.MAIL_FILE_DIR));
+      case 'memory':
+        return new MemoryMailTransport();
+      case 'console':
+      default:
+        return new ConsoleMailTransport(this.logger);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+// src/services/mail/templates.ts
+import { escapeHtml } from './mail.service';
+
+/**
+ * Rendered subject and bodies of an email
+ */
+export interface MailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * A paragraph of an email. Text is escaped in the HTML body; a link is
+ * rendered as an anchor in HTML and as "label: url" in plain text.
+ */
+type Block =
+  | { text: string }
+  | { link: string; label: string }
+  | { list: string[] };
+
+function render(subject: string, blocks: Block[], unsubscribeUrl?: string): MailContent {
+  const footer: Block[] = unsubscribeUrl
+    ? [{ text: 'You are receiving this because of your notification settings.' }, { link: unsubscribeUrl, label: 'Unsubscribe' }]
+    : [];
+
+  const text = [...blocks, ...footer].map(block => {
+    if ('list' in block) {
+      return block.list.map(item => `- ${item}`).join('\n');
+    }
+    if ('link' in block) {
+      return `${block.label}: ${block.link}`;
+    }
+    return block.text;
+  });
+
+  const html = [...blocks, ...footer].map(block => {
+    if ('list' in block) {
+      return `<ul>${block.list.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    }
+    if ('link' in block) {
+      return `<p><a href="${escapeHtml(block.link)}">${escapeHtml(block.label)}</a></p>`;
+    }
+    return `<p>${escapeHtml(block.text)}</p>`;
+  });
+
+  return { subject, text: text.join('\n\n'), html: html.join('') };
+}
+
+export function inviteEmail(params: {
+  inviter: string;
+  companyName: string;
+  role: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}): MailContent {
+  return render(`You have been invited to join ${params.companyName}`, [
+    { text: `${params.inviter} has invited you to join ${params.companyName} as ${params.role}.` },
+    { link: params.acceptUrl, label: 'Accept the invitation' },
+    { text: `This invitation expires on ${params.expiresAt.toUTCString()}.` }
+  ]);
+}
+
+export function shareEmail(params: {
+  sharedBy: string;
+  fileName: string;
+  shareUrl: string;
+  message?: string;
+  expiresAt?: Date | null;
+  unsubscribeUrl?: string;
+}): MailContent {
+  return render(`${params.sharedBy} shared ${params.fileName} with you`, [
+    { text: `${params.sharedBy} shared ${params.fileName} with you.` },
+    ...(params.message ? [{ text: `"${params.message}"` }] : []),
+    { link: params.shareUrl, label: 'Open the file' },
+    ...(params.expiresAt ? [{ text: `The link expires on ${params.expiresAt.toUTCString()}.` }] : [])
+  ], params.unsubscribeUrl);
+}
+
+export function uploadEmail(params: {
+  uploader: string;
+  fileName: string;
+  roomName: string;
+  roomUrl: string;
+  unsubscribeUrl?: string;
+}): MailContent {
+  return render(`New file in ${params.roomName}: ${params.fileName}`, [
+    { text: `${params.uploader} uploaded ${params.fileName} to ${params.roomName}.` },
+    { link: params.roomUrl, label: `Open ${params.roomName}` }
+  ], params.unsubscribeUrl);
+}
+
+export function activityEmail(params: {
+  description: string;
+  subscriptionName?: string | null;
+  url?: string;
+  unsubscribeUrl?: string;
+}): MailContent {
+  return render(params.description, [
+    { text: `${params.description}.` },
+    ...(params.url ? [{ link: params.url, label: 'View activity' }] : []),
+    ...(params.subscriptionName ? [{ text: `Sent for your subscription "${params.subscriptionName}".` }] : [])
+  ], params.unsubscribeUrl);
+}
+
+export interface DigestSection {
+  title: string;
+  lines: string[];
+}
+
+export function digestEmail(params: {
+  frequency: 'daily' | 'weekly';
+  since: Date;
+  until: Date;
+  total: number;
+  sections: DigestSection[];
+  unsubscribeUrl?: string;
+}): MailContent {
+  const label = params.frequency === 'daily' ? 'Daily' : 'Weekly';
+
+  return render(`${label} activity summary: ${params.total} ${params.total === 1 ? 'update' : 'updates'}`, [
+    { text: `Activity from ${params.since.toUTCString()} to ${params.until.toUTCString()}.` },
+    ...params.sections.flatMap(section => [{ text: section.title }, { list: section.lines }])
+  ], params.unsubscribeUrl);
+}
@@ -0,0 +1,108 @@
+// src/services/mail/transports.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import nodemailer, { Transporter } from 'nodemailer';
+import { Logger } from '../../utils/logger';
+import { MailMessage, MailSendResult, MailTransport } from './types';
+
+/**
+ * Writes messages to the log instead of sending them. Useful in development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  constructor(private logger: Logger) {}
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const messageId = uuidv4();
+
+    this.logger.info('Email (console transport)', {
+      messageId,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+
+    return { success: true, messageId };
+  }
+}
+
+/**
+ * Writes each message as a JSON file to a directory, so tests and local
+ * setups can inspect exactly what would have been sent.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const messageId = uuidv4();
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${Date.now()}-${messageId}.json`),
+      JSON.stringify({ messageId, sentAt: new Date().toISOString(), ...message }, null, 2)
+    );
+
+    return { success: true, messageId };
+  }
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * Sends messages through an SMTP server
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      // Implicit TLS on 465; other ports upgrade with STARTTLS when offered
+      secure: options.secure ?? options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers: message.headers
+    });
+
+    return { success: true, messageId: info.messageId };
+  }
+}
+
+/**
+ * Keeps sent messages in memory so tests can assert on them
+ */
+export class MemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly messages: (MailMessage & { messageId: string })[] = [];
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const messageId = uuidv4();
+    this.messages.push({ ...message, messageId });
+    return { success: true, messageId };
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
@@ -0,0 +1,36 @@
+// src/services/mail/types.ts
+
+/**
+ * Outgoing email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Result of handing a message to a transport
+ */
+export interface MailSendResult {
+  success: boolean;
+  messageId?: string;
+  message?: string;
+  error?: any;
+}
+
+/**
+ * A mail transport delivers a message somewhere (SMTP, disk, console, ...)
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailSendResult>;
+}
+
+/**
+ * Available transport types
+ */
+export type MailTransportType = 'console' | 'file' | 'smtp' | 'memory';
@@ -0,0 +1,48 @@
+// src/services/notification/_tests_/unsubscribe-token.test.ts
+import { createUnsubscribeToken, verifyUnsubscribeToken } from '../unsubscribe-token';
+
+describe('Unsubscribe tokens', () => {
+  const secret = 'test-secret';
+  const now = new Date('2024-05-01T12:00:00Z');
+  const expiresAt = new Date('2024-07-01T12:00:00Z');
+
+  it('should round-trip the user and scope', () => {
+    const token = createUnsubscribeToken('user-1', 'uploads', secret, expiresAt);
+
+    expect(verifyUnsubscribeToken(token, secret, now)).toEqual({ userId: 'user-1', scope: 'uploads' });
+  });
+
+  it('should carry activity subscription scopes', () => {
+    const token = createUnsubscribeToken('user-1', 'subscription:5f0c6c1e-6d1e-4c55-9a43-1f8f2f7f4b1a', secret, expiresAt);
+
+    expect(verifyUnsubscribeToken(token, secret, now)).toEqual({
+      userId: 'user-1',
+      scope: 'subscription:5f0c6c1e-6d1e-4c55-9a43-1f8f2f7f4b1a'
+    });
+  });
+
+  it('should reject tokens signed with another secret', () => {
+    const token = createUnsubscribeToken('user-1', 'all', secret, expiresAt);
+
+    expect(verifyUnsubscribeToken(token, 'other-secret', now)).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createUnsubscribeToken('user-1', 'all', secret, expiresAt);
+
+    expect(verifyUnsubscribeToken(token, secret, new Date('2024-07-01T11:59:59Z'))).not.toBeNull();
+    expect(verifyUnsubscribeToken(token, secret, expiresAt)).toBeNull();
+  });
+
+  it('should reject tokens whose user, scope or expiry was changed', () => {
+    const [, scope, expires, signature] = createUnsubscribeToken('user-1', 'digest', secret, expiresAt).split('.');
+    const user = Buffer.from('user-1').toString('base64url');
+    const otherUser = Buffer.from('user-2').toString('base64url');
+
+    expect(verifyUnsubscribeToken(`${otherUser}.${scope}.${expires}.${signature}`, secret, now)).toBeNull();
+    expect(verifyUnsubscribeToken(`${user}.all.${expires}.${signature}`, secret, now)).toBeNull();
+    expect(verifyUnsubscribeToken(`${user}.${scope}.${Number(expires) + 86400}.${signature}`, secret, now)).toBeNull();
+    expect(verifyUnsubscribeToken(`${user}.${scope}.${signature}`, secret, now)).toBeNull();
+    expect(verifyUnsubscribeToken('garbage', secret, now)).toBeNull();
+  });
+});
@@ -0,0 +1,523 @@
+// src/services/notification/notification.service.ts
+import { injectable, inject } from 'inversify';
+import { InferModel } from 'drizzle-orm';
+import { Logger } from '../../utils/logger';
+import {
+  NotificationRepository,
+  NotificationPreferences,
+  NotificationRecipient,
+  DigestActivity,
+  DigestFrequency,
+  RoomWatch
+} from '../../repositories/notification.repository';
+import { ActivitySubscriptionRepository } from '../../repositories/activity-subscription.repository';
+import { RoomRepository } from '../../repositories/room.repository';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { MailService } from '../mail/mail.service';
+import { MailQueueService } from '../mail/mail-queue.service';
+import { MailMessage } from '../mail/types';
+import { MailContent, DigestSection, shareEmail, uploadEmail, digestEmail, activityEmail } from '../mail/templates';
+import { activities } from '../../db/schema/activities';
+import { DIGEST_FREQUENCIES } from '../../db/schema/notifications';
+import { createUnsubscribeToken, verifyUnsubscribeToken, UnsubscribeScope } from './unsubscribe-token';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+import { env } from '../../config/env';
+
+type Activity = InferModel<typeof activities>;
+
+/**
+ * A user's notification settings as returned by the API
+ */
+export type NotificationSettings = Pick<NotificationPreferences, 'emailEnabled' | 'shares' | 'uploads' | 'digest'>;
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  emailEnabled: true,
+  shares: true,
+  uploads: true,
+  digest: 'off'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often the worker checks for digests that are due
+const DIGEST_INTERVAL_MS = 60 * 60 * 1000;
+
+// Digests sent per frequency per run; the rest go out on the next run
+const DIGEST_BATCH_SIZE = 100;
+
+// Activities listed in one digest
+const MAX_DIGEST_ACTIVITIES = 200;
+
+const ACTION_VERBS: Record<string, string> = {
+  upload: 'uploaded',
+  download: 'downloaded',
+  share: 'shared',
+  delete: 'deleted',
+  restore: 'restored',
+  move: 'moved',
+  rename: 'renamed',
+  copy: 'copied',
+  update_tags: 'updated tags on',
+  create_folder: 'created folder'
+};
+
+/**
+ * Sends notification email (shares, uploads to watched rooms and activity
+ * digests) according to each user's preferences and their company's
+ * `notifications.email` setting
+ */
+@injectable()
+export class NotificationService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    @inject('NotificationRepository') private notificationRepository: NotificationRepository,
+    @inject('ActivitySubscriptionRepository') private subscriptionRepository: ActivitySubscriptionRepository,
+    @inject('RoomRepository') private roomRepository: RoomRepository,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('MailService') private mailService: MailService,
+    @inject('MailQueueService') private mailQueueService: MailQueueService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('NotificationService');
+  }
+
+  async getSettings(userId: string): Promise<NotificationSettings> {
+    return this.toSettings(await this.notificationRepository.findPreferences(userId));
+  }
+
+  async updateSettings(userId: string, input: Partial<NotificationSettings>): Promise<NotificationSettings> {
+    const update: Partial<NotificationSettings> = {};
+
+    for (const key of ['emailEnabled', 'shares', 'uploads'] as const) {
+      if (input[key] !== undefined) {
+        if (typeof input[key] !== 'boolean') {
+          throw new ValidationError(`${key} must be a boolean`);
+        }
+        update[key] = input[key];
+      }
+    }
+
+    if (input.digest !== undefined) {
+      if (!DIGEST_FREQUENCIES.includes(input.digest)) {
+        throw new ValidationError(`digest must be one of: ${DIGEST_FREQUENCIES.join(', ')}`);
+      }
+      update.digest = input.digest;
+    }
+
+    return this.toSettings(await this.notificationRepository.upsertPreferences(userId, update));
+  }
+
+  async listWatches(userId: string): Promise<RoomWatch[]> {
+    return this.notificationRepository.listWatches(userId);
+  }
+
+  /**
+   * Get an email for every file uploaded to a room
+   */
+  async watchRoom(userId: string, roomId: string): Promise<void> {
+    if (!(await this.notificationRepository.findRoom(roomId))) {
+      throw new NotFoundError('Room', roomId);
+    }
+    if (!(await this.roomRepository.checkUserAccess(roomId, userId))) {
+      throw new AuthorizationError('You do not have access to this room');
+    }
+
+    await this.notificationRepository.addWatch(userId, roomId);
+  }
+
+  async unwatchRoom(userId: string, roomId: string): Promise<void> {
+    if (!(await this.notificationRepository.removeWatch(userId, roomId))) {
+      throw new NotFoundError('Room watch', roomId);
+    }
+  }
+
+  /**
+   * What an unsubscribe link would turn off, without changing anything
+   */
+  describeUnsubscribe(token: string): { scope: UnsubscribeScope } {
+    return { scope: this.verifyUnsubscribeLink(token).scope };
+  }
+
+  /**
+   * Apply an unsubscribe link
+   */
+  async unsubscribe(token: string): Promise<{ scope: UnsubscribeScope; settings: NotificationSettings }> {
+    const parsed = this.verifyUnsubscribeLink(token);
+
+    if (parsed.scope.startsWith('subscription:')) {
+      const subscriptionId = parsed.scope.slice('subscription:'.length);
+      const subscription = await this.subscriptionRepository.findById(subscriptionId);
+      if (subscription && subscription.userId === parsed.userId) {
+        await this.subscriptionRepository.update(subscription.id, { isActive: false });
+      }
+
+      this.logger.info('User paused activity subscription', { userId: parsed.userId, subscriptionId });
+      return { scope: parsed.scope, settings: await this.getSettings(parsed.userId) };
+    }
+
+    const update: Partial<NotificationSettings> =
+      parsed.scope === 'all' ? { emailEnabled: false }
+        : parsed.scope === 'digest' ? { digest: 'off' }
+          : { [parsed.scope]: false };
+
+    const preferences = await this.notificationRepository.upsertPreferences(parsed.userId, update);
+
+    this.logger.info('User unsubscribed from email', { userId: parsed.userId, scope: parsed.scope });
+    return { scope: parsed.scope, settings: this.toSettings(preferences) };
+  }
+
+  /**
+   * Queue emails with a share link to its recipients. Recipients who are
+   * users and have turned share emails off are skipped.
+   */
+  async notifyShare(params: {
+    sharedById: string;
+    fileName: string;
+    shareId: string;
+    roomId: string | null;
+    recipients: string[];
+    message?: string;
+    expiresAt?: Date | null;
+  }): Promise<number> {
+    try {
+      const room = params.roomId ? await this.notificationRepository.findRoom(params.roomId) : null;
+      if (room && !(await this.isCompanyEmailEnabled(room.companyId))) {
+        return 0;
+      }
+
+      const emails = [...new Set(params.recipients.map(email => email.trim().toLowerCase()))];
+      const sharer = await this.notificationRepository.findRecipient(params.sharedById);
+      const users = new Map(
+        (await this.notificationRepository.findRecipientsByEmail(emails)).map(user => [user.email.toLowerCase(), user])
+      );
+
+      const messages: MailMessage[] = [];
+      for (const email of emails) {
+        const user = users.get(email);
+        if (user && !this.wants(user, 'shares')) {
+          continue;
+        }
+
+        // Only users have settings an unsubscribe link could change
+        const unsubscribeUrl = user ? this.unsubscribeUrl(user.userId, 'shares') : undefined;
+        const content = shareEmail({
+          sharedBy: sharer ? this.displayName(sharer) : 'Someone',
+          fileName: params.fileName,
+          shareUrl: `${this.appUrl()}/share/${params.shareId}`,
+          message: params.message,
+          expiresAt: params.expiresAt,
+          unsubscribeUrl
+        });
+
+        messages.push(this.toMessage(email, content, unsubscribeUrl));
+      }
+
+      await this.mailQueueService.enqueue(messages);
+      return messages.length;
+    } catch (error: any) {
+      this.logger.error('Failed to queue share emails', { shareId: params.shareId, error: error.message });
+      return 0;
+    }
+  }
+
+  /**
+   * Send the emails an activity triggers. Currently this tells the users
+   * watching a room about uploads to it. Never throws.
+   */
+  async notifyActivity(activity: Activity): Promise<void> {
+    if (activity.action !== 'upload' || !activity.roomId) {
+      return;
+    }
+
+    try {
+      const watchers = (await this.notificationRepository.findRoomWatchers(activity.roomId))
+        .filter(watcher => watcher.userId !== activity.userId && this.wants(watcher, 'uploads'));
+
+      if (watchers.length === 0) {
+        return;
+      }
+
+      const room = await this.notificationRepository.findRoom(activity.roomId);
+      if (!room || !(await this.isCompanyEmailEnabled(room.companyId))) {
+        return;
+      }
+
+      const uploader = await this.notificationRepository.findRecipient(activity.userId);
+      const metadata = this.parseMetadata(activity.metadata);
+
+      for (const watcher of watchers) {
+        const unsubscribeUrl = this.unsubscribeUrl(watcher.userId, 'uploads');
+        await this.send(watcher.email, uploadEmail({
+          uploader: uploader ? this.displayName(uploader) : 'Someone',
+          fileName: metadata.fileName || 'a file',
+          roomName: room.name,
+          roomUrl: `${this.appUrl()}/rooms/${activity.roomId}`,
+          unsubscribeUrl
+        }), unsubscribeUrl);
+      }
+    } catch (error: any) {
+      this.logger.error('Failed to send upload emails', { activityId: activity.id, error: error.message });
+    }
+  }
+
+  /**
+   * Email one activity to a subscriber, unless they or the activity's
+   * company have turned notification email off
+   */
+  async sendActivityEmail(userId: string, params: {
+    description: string;
+    subscriptionId: string;
+    subscriptionName?: string | null;
+    roomId?: string | null;
+  }): Promise<boolean> {
+    try {
+      const recipient = await this.notificationRepository.findRecipient(userId);
+      if (!recipient || !this.wants(recipient)) {
+        return false;
+      }
+
+      const room = params.roomId ? await this.notificationRepository.findRoom(params.roomId) : null;
+      if (room && !(await this.isCompanyEmailEnabled(room.companyId))) {
+        return false;
+      }
+
+      const unsubscribeUrl = this.unsubscribeUrl(userId, `subscription:${params.subscriptionId}`);
+      return await this.send(recipient.email, activityEmail({
+        description: params.description,
+        subscriptionName: params.subscriptionName,
+        url: room ? `${this.appUrl()}/rooms/${room.id}` : undefined,
+        unsubscribeUrl
+      }), unsubscribeUrl);
+    } catch (error: any) {
+      this.logger.error('Failed to send activity email', { userId, error: error.message });
+      return false;
+    }
+  }
+
+  /**
+   * Email a digest built elsewhere (e.g. for an activity subscription) to a
+   * user, unless they have turned notification email off
+   */
+  async sendDigest(userId: string, params: {
+    frequency: 'daily' | 'weekly';
+    since: Date;
+    until: Date;
+    total: number;
+    sections: DigestSection[];
+  }, scope: UnsubscribeScope = 'digest'): Promise<boolean> {
+    const recipient = await this.notificationRepository.findRecipient(userId);
+    if (!recipient || !this.wants(recipient)) {
+      return false;
+    }
+
+    const unsubscribeUrl = this.unsubscribeUrl(userId, scope);
+    return this.send(recipient.email, digestEmail({ ...params, unsubscribeUrl }), unsubscribeUrl);
+  }
+
+  /**
+   * Send the daily and weekly digests that are due, summarising activity in
+   * each user's watched rooms since their last digest
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let sent = 0;
+
+    try {
+      for (const frequency of ['daily', 'weekly'] as const) {
+        const period = frequency === 'daily' ? DAY_MS : 7 * DAY_MS;
+        // A little slack so a digest sent slightly late one day is not skipped the next
+        const sentBefore = new Date(now.getTime() - period + DIGEST_INTERVAL_MS);
+
+        for (const recipient of await this.notificationRepository.findDigestRecipients(frequency, sentBefore, DIGEST_BATCH_SIZE)) {
+          try {
+            if (await this.sendWatchedRoomsDigest(recipient, frequency, now)) {
+              sent++;
+            }
+            await this.notificationRepository.markDigestSent(recipient.userId, now);
+          } catch (error: any) {
+            this.logger.error('Failed to send digest', { userId: recipient.userId, error: error.message });
+          }
+        }
+      }
+
+      if (sent > 0) {
+        this.logger.info('Digests sent', { sent });
+      }
+
+      return sent;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Check for due digests every hour
+   */
+  start(intervalMs: number = DIGEST_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.sendDueDigests().catch(error => {
+        this.logger.error('Error in scheduled digest run', { error: error.message });
+      });
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    run();
+
+    this.logger.info('Digests scheduled', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async sendWatchedRoomsDigest(
+    recipient: NotificationRecipient,
+    frequency: Exclude<DigestFrequency, 'off'>,
+    now: Date
+  ): Promise<boolean> {
+    const period = frequency === 'daily' ? DAY_MS : 7 * DAY_MS;
+    const since = recipient.preferences?.lastDigestAt || new Date(now.getTime() - period);
+
+    const roomIds = await this.notificationRepository.findWatchedRoomIds(recipient.userId);
+    const found = await this.notificationRepository.findRoomActivities(
+      roomIds,
+      since,
+      now,
+      recipient.userId,
+      MAX_DIGEST_ACTIVITIES
+    );
+
+    const enabled = new Map<string, boolean>();
+    const items: DigestActivity[] = [];
+    for (const activity of found) {
+      if (!enabled.has(activity.companyId)) {
+        enabled.set(activity.companyId, await this.isCompanyEmailEnabled(activity.companyId));
+      }
+      if (enabled.get(activity.companyId)) {
+        items.push(activity);
+      }
+    }
+
+    if (items.length === 0) {
+      return false;
+    }
+
+    const sections = new Map<string, DigestSection>();
+    for (const activity of items) {
+      const section = sections.get(activity.roomId) || { title: activity.roomName, lines: [] };
+      section.lines.push(this.describe(activity));
+      sections.set(activity.roomId, section);
+    }
+
+    const unsubscribeUrl = this.unsubscribeUrl(recipient.userId, 'digest');
+    return this.send(recipient.email, digestEmail({
+      frequency,
+      since,
+      until: now,
+      total: items.length,
+      sections: [...sections.values()],
+      unsubscribeUrl
+    }), unsubscribeUrl);
+  }
+
+  private describe(activity: DigestActivity): string {
+    const actor = activity.actorName || activity.actorEmail;
+    const verb = ACTION_VERBS[activity.action] || activity.action.replace(/_/g, ' ');
+    const fileName = this.parseMetadata(activity.metadata).fileName;
+
+    return fileName ? `${actor} ${verb} ${fileName}` : `${actor} ${verb}`;
+  }
+
+  private async send(to: string, content: MailContent, unsubscribeUrl?: string): Promise<boolean> {
+    const result = await this.mailService.send(this.toMessage(to, content, unsubscribeUrl));
+
+    if (!result.success) {
+      this.logger.warn('Notification email was not delivered', { to, subject: content.subject });
+    }
+
+    return result.success;
+  }
+
+  private toMessage(to: string, content: MailContent, unsubscribeUrl?: string): MailMessage {
+    return {
+      to,
+      ...content,
+      headers: unsubscribeUrl
+        ? {
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        }
+        : undefined
+    };
+  }
+
+  /**
+   * Whether a user wants notification email, optionally of one kind
+   */
+  private wants(recipient: NotificationRecipient, category?: 'shares' | 'uploads'): boolean {
+    const settings = this.toSettings(recipient.preferences);
+    return settings.emailEnabled && (!category || settings[category]);
+  }
+
+  /**
+   * Companies can turn notification email off for all their members with
+   * `notifications.email` in their settings
+   */
+  private async isCompanyEmailEnabled(companyId: string): Promise<boolean> {
+    const settings = await this.companyRepository.getSettings(companyId);
+    return settings?.notifications?.email !== false;
+  }
+
+  private verifyUnsubscribeLink(token: string): { userId: string; scope: UnsubscribeScope } {
+    const parsed = verifyUnsubscribeToken(token, env.UNSUBSCRIBE_SECRET);
+    if (!parsed) {
+      throw new ValidationError('Invalid or expired unsubscribe link');
+    }
+
+    return parsed;
+  }
+
+  private unsubscribeUrl(userId: string, scope: UnsubscribeScope): string {
+    const expiresAt = new Date(Date.now() + env.UNSUBSCRIBE_LINK_TTL_DAYS * DAY_MS);
+    const token = createUnsubscribeToken(userId, scope, env.UNSUBSCRIBE_SECRET, expiresAt);
+    return `${this.appUrl()}/api/notifications/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  private appUrl(): string {
+    return env.APP_URL.replace(/\/+$/, '');
+  }
+
+  private displayName(recipient: NotificationRecipient): string {
+    return [recipient.firstName, recipient.lastName].filter(Boolean).join(' ') || recipient.email;
+  }
+
+  private parseMetadata(metadata: string | null): Record<string, any> {
+    try {
+      return metadata ? JSON.parse(metadata) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private toSettings(preferences: NotificationPreferences | null): NotificationSettings {
+    if (!preferences) {
+      return { ...DEFAULT_SETTINGS };
+    }
+
+    const { emailEnabled, shares, uploads, digest } = preferences;
+    return { emailEnabled, shares, uploads, digest };
+  }
+}
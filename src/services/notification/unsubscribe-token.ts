@@ -0,0 +1,55 @@
+// src/services/notification/unsubscribe-token.ts
+import crypto from 'crypto';
+import { EMAIL_NOTIFICATION_CATEGORIES } from '../../db/schema/notifications';
+
+/**
+ * What an unsubscribe link turns off: one kind of email, one activity
+ * subscription, or all of them
+ */
+export type UnsubscribeScope = typeof EMAIL_NOTIFICATION_CATEGORIES[number] | 'all' | `subscription:${string}`;
+
+const SCOPES: readonly string[] = [...EMAIL_NOTIFICATION_CATEGORIES, 'all'];
+
+function isScope(value: string): value is UnsubscribeScope {
+  return SCOPES.includes(value) || /^subscription:[A-Za-z0-9-]+$/.test(value);
+}
+
+function sign(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`unsubscribe:${body}`).digest('base64url');
+}
+
+/**
+ * Create the token for an unsubscribe link. Tokens are signed rather than
+ * stored, so they keep working for the emails already sent until they expire.
+ */
+export function createUnsubscribeToken(userId: string, scope: UnsubscribeScope, secret: string, expiresAt: Date): string {
+  const body = `${Buffer.from(userId).toString('base64url')}.${scope}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${body}.${sign(body, secret)}`;
+}
+
+/**
+ * Read an unsubscribe token, or return null if it was not issued with this
+ * secret or has expired
+ */
+export function verifyUnsubscribeToken(
+  token: string,
+  secret: string,
+  now: Date = new Date()
+): { userId: string; scope: UnsubscribeScope } | null {
+  const [encodedUserId, scope, expires, signature, ...rest] = token.split('.');
+  if (!encodedUserId || !scope || !signature || rest.length > 0 || !isScope(scope) || !/^\d+$/.test(expires || '')) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${encodedUserId}.${scope}.${expires}`, secret));
+  const candidate = Buffer.from(signature);
+  if (candidate.length !== expected.length || !crypto.timingSafeEqual(candidate, expected)) {
+    return null;
+  }
+
+  if (Number(expires) * 1000 <= now.getTime()) {
+    return null;
+  }
+
+  return { userId: Buffer.from(encodedUserId, 'base64url').toString(), scope };
+}
@@ -0,0 +1,206 @@
+// src/services/retention/_tests_/retention.service.test.ts
+import { RetentionService, PurgeableFile } from '../retention.service';
+import { getValue, setValue } from '../../../utils/redis';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({
+  env: { TRASH_RETENTION_DAYS: 30, EXPIRY_WARNING_HOURS: 24, RETENTION_INTERVAL_MINUTES: 60 }
+}));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../utils/redis', () => ({ getValue: jest.fn(), setValue: jest.fn() }));
+jest.mock('../../../repositories/retention.repository', () => ({ RetentionRepository: class {} }));
+jest.mock('../../../repositories/search.repository', () => ({ SearchRepository: class {} }));
+jest.mock('../../storage/storage.service', () => ({ StorageService: class {} }));
+jest.mock('../../activity/activity.service', () => ({ ActivityService: class {} }));
+jest.mock('../../mail/mail.service', () => ({ MailService: class {}, escapeHtml: (value: string) => value }));
+jest.mock('../../file/file-encryption.service', () => ({ FileEncryptionService: class {} }));
+
+const logger = createTestLogger();
+
+const file = (id: string, overrides: Record<string, any> = {}): PurgeableFile => ({
+  id,
+  name: `${id}.pdf`,
+  fileType: 'file',
+  roomId: 'room-1',
+  storageId: 'storage-1',
+  storageKey: `rooms/room-1/files/${id}`,
+  size: 100,
+  uploadedById: 'uploader',
+  encryption: 'none',
+  encryptionKeyId: null,
+  ...overrides
+});
+
+const expiring = (id: string, uploaderEmail: string) => ({
+  id,
+  name: `${id}.pdf`,
+  roomId: 'room-1',
+  roomName: 'Deals',
+  uploadedById: 'uploader',
+  uploaderEmail,
+  expiresAt: new Date('2024-05-02T09:00:00Z')
+});
+
+describe('RetentionService', () => {
+  const now = new Date('2024-05-01T12:00:00Z');
+
+  let retentionRepository: any;
+  let searchRepository: { deleteFileIndex: jest.Mock };
+  let provider: { deleteFile: jest.Mock; fileExists: jest.Mock };
+  let activityService: { createActivity: jest.Mock };
+  let mailService: { send: jest.Mock };
+  let fileEncryption: { shredDataKeys: jest.Mock };
+  let service: RetentionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getValue as jest.Mock).mockResolvedValue(null);
+
+    retentionRepository = {
+      findExpiredFiles: jest.fn().mockResolvedValue([]),
+      findTrashedFiles: jest.fn().mockResolvedValue([]),
+      findFilesExpiringBetween: jest.fn().mockResolvedValue([]),
+      findVersionKeys: jest.fn().mockResolvedValue([]),
+      findVersionDataKeyIds: jest.fn().mockResolvedValue([]),
+      deleteFile: jest.fn().mockResolvedValue(undefined),
+      releaseStorage: jest.fn().mockResolvedValue(undefined)
+    };
+    searchRepository = { deleteFileIndex: jest.fn().mockResolvedValue(undefined) };
+    provider = {
+      deleteFile: jest.fn().mockResolvedValue({ success: true }),
+      fileExists: jest.fn().mockResolvedValue({ success: true, exists: true })
+    };
+    activityService = { createActivity: jest.fn().mockResolvedValue(undefined) };
+    mailService = { send: jest.fn().mockResolvedValue({ success: true }) };
+    fileEncryption = { shredDataKeys: jest.fn().mockResolvedValue(0) };
+
+    service = new RetentionService(
+      retentionRepository,
+      searchRepository as any,
+      { getStorageProvider: async () => provider } as any,
+      activityService as any,
+      mailService as any,
+      fileEncryption as any,
+      logger
+    );
+  });
+
+  it('should purge expired files and files trashed past the retention period', async () => {
+    retentionRepository.findExpiredFiles.mockResolvedValue([file('expired')]);
+    retentionRepository.findTrashedFiles.mockResolvedValue([file('trashed'), file('folder', { fileType: 'folder', storageKey: null, size: 0 })]);
+
+    const result = await service.runRetention(now);
+
+    expect(result).toEqual({ expired: 1, purged: 2, warned: 0, failed: 0 });
+    expect(retentionRepository.findTrashedFiles).toHaveBeenCalledWith(now, 30, expect.any(Number));
+    expect(retentionRepository.deleteFile.mock.calls.map(([id]: [string]) => id)).toEqual(['expired', 'trashed', 'folder']);
+    expect(searchRepository.deleteFileIndex).toHaveBeenCalledWith(['expired']);
+    // Folders have nothing in storage
+    expect(retentionRepository.releaseStorage.mock.calls).toEqual([['storage-1', 100, 1], ['storage-1', 100, 1]]);
+    expect(activityService.createActivity.mock.calls.map(([activity]: any[]) => activity.metadata.action))
+      .toEqual(['file_expired', 'trash_purged', 'trash_purged']);
+  });
+
+  it('should delete every stored version of a file', async () => {
+    retentionRepository.findVersionKeys.mockResolvedValue(['rooms/room-1/files/a/v1', 'rooms/room-1/files/a']);
+
+    await service.purgeFile(file('a'), 'trash_emptied', 'owner');
+
+    expect(provider.deleteFile.mock.calls.map(([key]) => key)).toEqual(['rooms/room-1/files/a', 'rooms/room-1/files/a/v1']);
+    expect(activityService.createActivity).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'owner',
+      metadata: expect.objectContaining({ action: 'trash_emptied' })
+    }));
+  });
+
+  it('should shred the data keys of an encrypted file before removing its records', async () => {
+    retentionRepository.findVersionDataKeyIds.mockResolvedValue(['key-v1']);
+
+    await service.purgeFile(file('a', { encryption: 'server_side', encryptionKeyId: 'key-v2' }), 'trash_retention');
+
+    expect(fileEncryption.shredDataKeys).toHaveBeenCalledWith(['key-v1', 'key-v2'], 'a');
+    expect(fileEncryption.shredDataKeys.mock.invocationCallOrder[0])
+      .toBeLessThan(retentionRepository.deleteFile.mock.invocationCallOrder[0]);
+  });
+
+  it('should shred the data keys of a file a user deletes permanently', async () => {
+    await service.purgeFile(file('a', { encryption: 'server_side', encryptionKeyId: 'key-1' }), 'deleted', 'owner');
+
+    expect(fileEncryption.shredDataKeys).toHaveBeenCalledWith(['key-1'], 'a');
+    expect(activityService.createActivity).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'owner',
+      metadata: expect.objectContaining({ action: 'file_deleted' })
+    }));
+  });
+
+  it('should keep the records of a file whose data keys could not be shredded', async () => {
+    fileEncryption.shredDataKeys.mockRejectedValue(new Error('Connection lost'));
+
+    await expect(service.purgeFile(file('a', { encryption: 'server_side', encryptionKeyId: 'key-1' }), 'expired')).resolves.toBe(false);
+    expect(retentionRepository.deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('should treat objects that are already gone as deleted', async () => {
+    provider.deleteFile.mockResolvedValue({ success: false, message: 'NoSuchKey' });
+    provider.fileExists.mockResolvedValue({ success: true, exists: false });
+
+    await expect(service.purgeFile(file('a'), 'expired')).resolves.toBe(true);
+    expect(retentionRepository.deleteFile).toHaveBeenCalledWith('a');
+  });
+
+  it('should keep the records of files it could not delete from storage', async () => {
+    retentionRepository.findExpiredFiles.mockResolvedValue([file('stuck'), file('gone')]);
+    provider.deleteFile.mockImplementation(async (key: string) =>
+      key.endsWith('stuck') ? { success: false, message: 'Access denied' } : { success: true });
+
+    const result = await service.runRetention(now);
+
+    expect(result).toMatchObject({ expired: 1, failed: 1 });
+    expect(retentionRepository.deleteFile.mock.calls).toEqual([['gone']]);
+    expect(retentionRepository.releaseStorage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start a run while the previous one is still going', async () => {
+    let finish: (files: any[]) => void = () => undefined;
+    retentionRepository.findExpiredFiles.mockReturnValue(new Promise(resolve => { finish = resolve; }));
+
+    const first = service.runRetention(now);
+    const second = await service.runRetention(now);
+    finish([]);
+    await first;
+
+    expect(second).toEqual({ expired: 0, purged: 0, warned: 0, failed: 0 });
+    expect(retentionRepository.findExpiredFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should warn each uploader once about all of their expiring files', async () => {
+    retentionRepository.findFilesExpiringBetween.mockResolvedValue([
+      expiring('a', 'ann@example.com'),
+      expiring('b', 'ann@example.com'),
+      expiring('c', 'bob@example.com'),
+      expiring('d', 'bob@example.com')
+    ]);
+    (getValue as jest.Mock).mockImplementation(async (key: string) => key === 'retention:warned:d' ? now.toISOString() : null);
+
+    const result = await service.runRetention(now);
+
+    expect(result.warned).toBe(3);
+    expect(retentionRepository.findFilesExpiringBetween).toHaveBeenCalledWith(now, new Date('2024-05-02T12:00:00Z'));
+    expect(mailService.send.mock.calls.map(([mail]) => [mail.to, mail.subject])).toEqual([
+      ['ann@example.com', '2 of your files will be deleted soon'],
+      ['bob@example.com', 'c.pdf will be deleted soon']
+    ]);
+    expect((setValue as jest.Mock).mock.calls.map(([key]) => key))
+      .toEqual(['retention:warned:a', 'retention:warned:b', 'retention:warned:c']);
+  });
+
+  it('should warn again next run when the email was not delivered', async () => {
+    retentionRepository.findFilesExpiringBetween.mockResolvedValue([expiring('a', 'ann@example.com')]);
+    mailService.send.mockResolvedValue({ success: false });
+
+    const result = await service.runRetention(now);
+
+    expect(result.warned).toBe(0);
+    expect(setValue).not.toHaveBeenCalled();
+  });
+});
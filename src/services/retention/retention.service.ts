@@ -0,0 +1,290 @@
+// src/services/retention/retention.service.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { RetentionRepository, RetentionFile, ExpiringFile } from '../../repositories/retention.repository';
+import { SearchRepository } from '../../repositories/search.repository';
+import { StorageService } from '../storage/storage.service';
+import { FileEncryptionService } from '../file/file-encryption.service';
+import { ActivityService } from '../activity/activity.service';
+import { MailService, escapeHtml } from '../mail/mail.service';
+import { getValue, setValue } from '../../utils/redis';
+import { env } from '../../config/env';
+
+// Files handled per category in a single run; the rest wait for the next run
+const BATCH_SIZE = 100;
+
+export type RetentionReason = 'expired' | 'trash_retention' | 'trash_emptied' | 'deleted';
+
+// Activity action logged for each reason a file is purged
+const PURGE_ACTIONS: Record<RetentionReason, string> = {
+  expired: 'file_expired',
+  trash_retention: 'trash_purged',
+  trash_emptied: 'trash_emptied',
+  deleted: 'file_deleted'
+};
+
+// What purging a file needs to know about it
+export type PurgeableFile = Pick<
+  RetentionFile,
+  'id' | 'name' | 'fileType' | 'roomId' | 'storageId' | 'storageKey' | 'size' | 'uploadedById' | 'encryption' | 'encryptionKeyId'
+>;
+
+export interface RetentionRunResult {
+  expired: number;
+  purged: number;
+  warned: number;
+  failed: number;
+}
+
+/**
+ * Deletes expired and long-trashed files from storage and the database,
+ * and warns uploaders before their files expire
+ */
+@injectable()
+export class RetentionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    @inject('RetentionRepository') private retentionRepository: RetentionRepository,
+    @inject('SearchRepository') private searchRepository: SearchRepository,
+    @inject('StorageService') private storageService: StorageService,
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('MailService') private mailService: MailService,
+    @inject('FileEncryptionService') private fileEncryption: FileEncryptionService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('RetentionService');
+  }
+
+  /**
+   * Run retention now and then every RETENTION_INTERVAL_MINUTES
+   */
+  start(intervalMs: number = env.RETENTION_INTERVAL_MINUTES * 60 * 1000): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.runRetention().catch(error => {
+        this.logger.error('Error in scheduled retention run', { error: error.message });
+      });
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    run();
+
+    this.logger.info('Retention scheduled', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Delete expired files, purge files trashed longer than their company's
+   * trash retention period (TRASH_RETENTION_DAYS by default)
+   * and warn uploaders of files expiring within EXPIRY_WARNING_HOURS.
+   * Runs never overlap.
+   */
+  async runRetention(now: Date = new Date()): Promise<RetentionRunResult> {
+    const result: RetentionRunResult = { expired: 0, purged: 0, warned: 0, failed: 0 };
+
+    if (this.running) {
+      this.logger.warn('Previous retention run still in progress, skipping');
+      return result;
+    }
+
+    this.running = true;
+    try {
+      for (const file of await this.retentionRepository.findExpiredFiles(now, BATCH_SIZE)) {
+        if (await this.purgeFile(file, 'expired')) {
+          result.expired++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      const trashed = await this.retentionRepository.findTrashedFiles(now, env.TRASH_RETENTION_DAYS, BATCH_SIZE);
+      for (const file of trashed) {
+        if (await this.purgeFile(file, 'trash_retention')) {
+          result.purged++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      result.warned = await this.warnExpiringFiles(now);
+
+      if (result.expired || result.purged || result.warned || result.failed) {
+        this.logger.info('Retention run finished', { ...result });
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Delete a file's objects from its storage provider and the data keys no
+   * other file uses, then its records. Returns false if it could not be
+   * removed; retention retries what it found on the next run.
+   */
+  async purgeFile(file: PurgeableFile, reason: RetentionReason, actorId?: string): Promise<boolean> {
+    try {
+      if (file.fileType === 'file') {
+        await this.deleteObjects(file);
+        await this.shredDataKeys(file);
+      }
+
+      await this.retentionRepository.deleteFile(file.id);
+      await this.searchRepository.deleteFileIndex([file.id]);
+
+      if (file.fileType === 'file') {
+        await this.retentionRepository.releaseStorage(file.storageId, file.size, 1);
+      }
+
+      await this.activityService.createActivity({
+        type: 'system_event',
+        userId: actorId || file.uploadedById,
+        roomId: file.roomId,
+        fileId: file.id,
+        metadata: {
+          action: PURGE_ACTIONS[reason],
+          fileName: file.name,
+          fileType: file.fileType,
+          size: file.size
+        }
+      });
+
+      this.logger.info('File removed by retention', { fileId: file.id, roomId: file.roomId, reason });
+      return true;
+    } catch (error: any) {
+      this.logger.error('Failed to remove file', { fileId: file.id, reason, error: error.message });
+      return false;
+    }
+  }
+
+  /**
+   * Delete every version of a file from its storage provider. Objects that
+   * are already gone are skipped.
+   */
+  private async deleteObjects(file: PurgeableFile): Promise<void> {
+    const versionKeys = await this.retentionRepository.findVersionKeys(file.id);
+    const keys = [...new Set([file.storageKey, ...versionKeys])].filter((key): key is string => !!key);
+
+    if (keys.length === 0) {
+      return;
+    }
+
+    const provider = await this.storageService.getStorageProvider(file.storageId);
+
+    for (const key of keys) {
+      const result = await provider.deleteFile(key);
+      if (result.success) {
+        continue;
+      }
+
+      const check = await provider.fileExists(key);
+      if (check.success && check.exists === false) {
+        continue;
+      }
+
+      throw new Error(result.message || `Failed to delete ${key} from storage`);
+    }
+  }
+
+  /**
+   * Delete the data keys of a file's encrypted versions, unless a copy still
+   * uses them. This runs before the records go, so a failure leaves the file
+   * for the next run to try again.
+   */
+  private async shredDataKeys(file: PurgeableFile): Promise<void> {
+    const ids = await this.retentionRepository.findVersionDataKeyIds(file.id);
+    if (file.encryption === 'server_side') {
+      ids.push(file.encryptionKeyId as string);
+    }
+
+    await this.fileEncryption.shredDataKeys(ids, file.id);
+  }
+
+  /**
+   * Email uploaders about their files expiring within the warning window.
+   * Each file is only warned about once.
+   */
+  private async warnExpiringFiles(now: Date): Promise<number> {
+    const windowMs = env.EXPIRY_WARNING_HOURS * 60 * 60 * 1000;
+    if (windowMs <= 0) {
+      return 0;
+    }
+
+    const expiring = await this.retentionRepository.findFilesExpiringBetween(
+      now,
+      new Date(now.getTime() + windowMs)
+    );
+
+    const byUploader = new Map<string, ExpiringFile[]>();
+    for (const file of expiring) {
+      if (await getValue(this.warningKey(file.id))) {
+        continue;
+      }
+      byUploader.set(file.uploaderEmail, [...(byUploader.get(file.uploaderEmail) || []), file]);
+    }
+
+    let warned = 0;
+    for (const [email, uploaderFiles] of byUploader) {
+      try {
+        const result = await this.sendExpiryWarning(email, uploaderFiles);
+        if (!result) {
+          continue;
+        }
+
+        // Remember the warning until well after the file is gone
+        const ttlSeconds = Math.ceil(windowMs / 1000) + 24 * 60 * 60;
+        for (const file of uploaderFiles) {
+          await setValue(this.warningKey(file.id), now.toISOString(), ttlSeconds);
+        }
+        warned += uploaderFiles.length;
+      } catch (error: any) {
+        this.logger.error('Failed to warn about expiring files', { email, error: error.message });
+      }
+    }
+
+    return warned;
+  }
+
+  private async sendExpiryWarning(email: string, files: ExpiringFile[]): Promise<boolean> {
+    const lines = files.map(file => `${file.name} in ${file.roomName}, on ${file.expiresAt.toUTCString()}`);
+
+    const result = await this.mailService.send({
+      to: email,
+      subject: files.length === 1
+        ? `${files[0].name} will be deleted soon`
+        : `${files.length} of your files will be deleted soon`,
+      text: [
+        'The following files you uploaded will be deleted:',
+        '',
+        ...lines.map(line => `- ${line}`),
+        '',
+        'Download them before then if you want to keep a copy.'
+      ].join('\n'),
+      html: '<p>The following files you uploaded will be deleted:</p>'
+        + `<ul>${lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+        + '<p>Download them before then if you want to keep a copy.</p>'
+    });
+
+    if (!result.success) {
+      this.logger.warn('Expiry warning was not delivered', { email, files: files.length });
+    }
+
+    return result.success;
+  }
+
+  private warningKey(fileId: string): string {
+    return `retention:warned:${fileId}`;
+  }
+}
@@ -0,0 +1,351 @@
+// src/services/room/_tests_/access-policy.service.test.ts
+import { AccessPolicyService } from '../access-policy.service';
+import { accessControlPolicies } from '../../../db/schema/access';
+import { AccessPolicyError, AuthorizationError, NotFoundError, ValidationError } from '../../../utils/errors';
+import { getValue, setValue } from '../../../utils/redis';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: {} }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../utils/redis', () => ({ getValue: jest.fn(), setValue: jest.fn() }));
+jest.mock('../../../db/drizzle.client', () => ({ DrizzleClient: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../../repositories/user.repository', () => ({ UserRepository: class {} }));
+jest.mock('../../activity/activity.service', () => ({ ActivityService: class {} }));
+jest.mock('../../websocket/websocket.service', () => ({ WebSocketService: class {} }));
+jest.mock('../../auth/jwt.service', () => ({ JwtService: class {} }));
+
+const logger = createTestLogger();
+
+/**
+ * Answers the service's queries in the order they are made. Selects resolve
+ * to the next queued result set; writes are recorded.
+ */
+class ScriptedDb {
+  results: any[][] = [];
+  writes: { op: string; table: any; values?: any }[] = [];
+
+  select() {
+    return this.query(() => this.results.shift() || []);
+  }
+
+  insert(table: any) {
+    return this.write('insert', table);
+  }
+
+  update(table: any) {
+    return this.write('update', table);
+  }
+
+  delete(table: any) {
+    return this.write('delete', table);
+  }
+
+  private write(op: string, table: any) {
+    const entry: { op: string; table: any; values?: any } = { op, table };
+    this.writes.push(entry);
+    return this.query(() => [{ affectedRows: 1 }], entry);
+  }
+
+  private query(resolve: () => any, entry?: { values?: any }) {
+    const query: any = {
+      from: () => query,
+      where: () => query,
+      orderBy: () => query,
+      values: (values: any) => { entry!.values = values; return query; },
+      set: (values: any) => { entry!.values = values; return query; },
+      then: (onResolved: any, onRejected: any) => Promise.resolve().then(resolve).then(onResolved, onRejected)
+    };
+    return query;
+  }
+}
+
+const policy = (overrides: Record<string, any> = {}) => ({
+  id: 'policy-1',
+  name: 'Office only',
+  description: null,
+  roomId: null,
+  companyId: 'company-1',
+  createdById: 'owner',
+  allowedIpRanges: '10.0.0.0/8',
+  deniedIpRanges: null,
+  timeRestrictions: null,
+  allowDownloads: true,
+  allowSharing: true,
+  allowPrinting: true,
+  maxConcurrentUsers: null,
+  requireMfa: false,
+  maxSessionLength: null,
+  inactivityTimeout: null,
+  isActive: true,
+  ...overrides
+});
+
+describe('AccessPolicyService', () => {
+  const owner = { id: 'owner', email: 'owner@example.com' };
+  const member = { id: 'member', email: 'member@example.com' };
+
+  let db: ScriptedDb;
+  let activityService: { createActivity: jest.Mock };
+  let wsService: { setRoomJoinGuard: jest.Mock; broadcastToRoom: jest.Mock; getRoomUserIds: jest.Mock };
+  let userRepository: { findById: jest.Mock };
+  let jwtService: { decodeToken: jest.Mock };
+  let service: AccessPolicyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db = new ScriptedDb();
+    activityService = { createActivity: jest.fn().mockResolvedValue(undefined) };
+    wsService = { setRoomJoinGuard: jest.fn(), broadcastToRoom: jest.fn(), getRoomUserIds: jest.fn().mockResolvedValue([]) };
+    userRepository = { findById: jest.fn().mockResolvedValue(null) };
+    jwtService = { decodeToken: jest.fn().mockReturnValue({}) };
+    const companyRepository = {
+      findMember: async (_companyId: string, userId: string) =>
+        ({ owner: { role: 'owner' }, member: { role: 'member' } } as any)[userId] || null
+    };
+
+    service = new AccessPolicyService(
+      { getInstance: () => db } as any,
+      logger,
+      activityService as any,
+      wsService as any,
+      companyRepository as any,
+      userRepository as any,
+      jwtService as any
+    );
+  });
+
+  describe('managing policies', () => {
+    it('should only let owners and admins create policies', async () => {
+      await expect(service.createPolicy({ name: 'Office only', companyId: 'company-1' }, member))
+        .rejects.toThrow(AuthorizationError);
+      expect(db.writes).toEqual([]);
+    });
+
+    it.each([
+      [{ allowedIpRanges: '10.0.0.0/33' }, 'Invalid IP ranges in allowedIpRanges: 10.0.0.0/33'],
+      [{ deniedIpRanges: '192.168.1.*, example.com' }, 'Invalid IP ranges in deniedIpRanges: example.com'],
+      [{ timeRestrictions: { days: ['funday'] } }, 'Invalid days: funday'],
+      [{ timeRestrictions: { startTime: '09:00' } }, 'timeRestrictions needs both startTime and endTime'],
+      [{ timeRestrictions: { startTime: '9:00', endTime: '17:00' } }, 'Invalid time 9:00'],
+      [{ timeRestrictions: { timezone: 'Mars/Olympus_Mons' } }, 'Invalid timezone: Mars/Olympus_Mons'],
+      [{ maxSessionLength: 0 }, 'maxSessionLength must be a positive integer']
+    ])('should reject %j', async (input, message) => {
+      const created = service.createPolicy({ name: 'Office only', companyId: 'company-1', ...input } as any, owner);
+
+      await expect(created).rejects.toThrow(ValidationError);
+      await expect(created).rejects.toThrow(message);
+      expect(db.writes).toEqual([]);
+    });
+
+    it("should not attach a policy to another company's room", async () => {
+      db.results.push([{ id: 'room-9', companyId: 'company-2' }]);
+
+      await expect(service.createPolicy({ name: 'Office only', companyId: 'company-1', roomId: 'room-9' }, owner))
+        .rejects.toThrow('Room does not belong to specified company');
+      expect(db.writes).toEqual([]);
+    });
+
+    it('should create a room policy with permissive defaults and tell the room', async () => {
+      db.results.push([{ id: 'room-1', companyId: 'company-1' }], [policy({ roomId: 'room-1' })]);
+
+      await service.createPolicy({
+        name: 'Office only',
+        companyId: 'company-1',
+        roomId: 'room-1',
+        allowedIpRanges: '10.0.0.0/8',
+        timeRestrictions: { days: ['Monday'], startTime: '22:00', endTime: '06:00', timezone: 'Europe/Berlin' }
+      }, owner);
+
+      expect(db.writes).toHaveLength(1);
+      expect(db.writes[0].table).toBe(accessControlPolicies);
+      expect(db.writes[0].values).toMatchObject({
+        roomId: 'room-1',
+        companyId: 'company-1',
+        createdById: 'owner',
+        allowDownloads: true,
+        allowSharing: true,
+        requireMfa: false,
+        isActive: true
+      });
+      expect(activityService.createActivity).toHaveBeenCalledWith(expect.objectContaining({
+        metadata: expect.objectContaining({ action: 'create_access_policy' })
+      }));
+      expect(wsService.broadcastToRoom).toHaveBeenCalledWith('room-1', 'room:policy_updated', expect.objectContaining({ action: 'created' }));
+    });
+
+    it("should not reach another company's policy", async () => {
+      db.results.push([policy({ companyId: 'company-2' })]);
+
+      await expect(service.updatePolicy('company-1', 'policy-1', { requireMfa: true }, owner)).rejects.toThrow(NotFoundError);
+      expect(db.writes).toEqual([]);
+    });
+
+    it('should keep the fields an update leaves out', async () => {
+      db.results.push([policy()], [policy({ requireMfa: true })]);
+
+      const updated = await service.updatePolicy('company-1', 'policy-1', { requireMfa: true }, owner);
+
+      expect(updated.requireMfa).toBe(true);
+      expect(db.writes[0].values).toMatchObject({ name: 'Office only', allowedIpRanges: '10.0.0.0/8', requireMfa: true });
+    });
+
+    it('should delete a policy', async () => {
+      db.results.push([policy({ roomId: 'room-1' })]);
+
+      await service.deletePolicy('company-1', 'policy-1', owner);
+
+      expect(db.writes.map(write => [write.op, write.table])).toEqual([['delete', accessControlPolicies]]);
+      expect(wsService.broadcastToRoom).toHaveBeenCalledWith('room-1', 'room:policy_updated', expect.objectContaining({ action: 'deleted' }));
+    });
+
+    it('should let members read the policies of their room', async () => {
+      db.results.push([{ companyId: 'company-1' }], [{ companyId: 'company-1' }], [policy()]);
+
+      await expect(service.listRoomPolicies('room-1', member)).resolves.toEqual([policy()]);
+    });
+
+    it('should report a missing room', async () => {
+      await expect(service.createRoomPolicy('missing', { name: 'Office only' }, owner)).rejects.toThrow(NotFoundError);
+      expect(db.writes).toEqual([]);
+    });
+  });
+
+  describe('dry runs', () => {
+    it('should explain which policy denies a hypothetical request', async () => {
+      db.results.push([policy()]);
+
+      const result = await service.dryRunCompanyPolicies('company-1', owner, { ipAddress: '192.168.1.5' });
+
+      expect(result).toMatchObject({
+        allowed: false,
+        reason: 'IP address not in allowed range',
+        policyId: 'policy-1',
+        policyName: 'Office only',
+        evaluatedPolicies: 1,
+        context: { ipAddress: '192.168.1.5', userId: null, hasMfa: false, action: 'access' }
+      });
+    });
+
+    it('should evaluate a draft against a time in its own timezone', async () => {
+      const draft = { timeRestrictions: { startTime: '22:00', endTime: '06:00', timezone: 'Asia/Tokyo' } };
+
+      // 14:30 UTC is 23:30 in Tokyo, inside the overnight window
+      const night = await service.dryRunCompanyPolicies('company-1', owner, { policy: draft, at: new Date('2024-03-04T14:30:00Z') });
+      const day = await service.dryRunCompanyPolicies('company-1', owner, { policy: draft, at: new Date('2024-03-04T03:00:00Z') });
+
+      expect(night.allowed).toBe(true);
+      expect(day).toMatchObject({ allowed: false, reason: 'Access not allowed at this time', policyName: 'Draft policy' });
+    });
+
+    it("should fall back to the user's MFA enrollment", async () => {
+      userRepository.findById.mockResolvedValue({ id: 'user-1', metadata: { mfaEnabled: true } });
+
+      const result = await service.dryRunCompanyPolicies('company-1', owner, { policy: { requireMfa: true }, userId: 'user-1' });
+
+      expect(result).toMatchObject({ allowed: true, context: { userId: 'user-1', hasMfa: true } });
+    });
+
+    it('should reject invalid hypothetical requests', async () => {
+      await expect(service.dryRunCompanyPolicies('company-1', owner, { policy: {}, ipAddress: '300.1.1.1' }))
+        .rejects.toThrow(ValidationError);
+      await expect(service.dryRunCompanyPolicies('company-1', owner, { policy: {}, userId: 'nobody' }))
+        .rejects.toThrow(NotFoundError);
+      await expect(service.dryRunCompanyPolicies('company-1', member, { policy: {} }))
+        .rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('enforcing policies', () => {
+    const request = { userId: 'user-1', ipAddress: '192.168.1.5', token: 'token' };
+
+    // The queries getRoomPolicies makes for a room of company-1
+    const roomPolicies = (...policies: any[]) => db.results.push([{ companyId: 'company-1' }], policies);
+
+    it('should allow requests to rooms without policies', async () => {
+      roomPolicies();
+
+      await expect(service.enforceAccess('room-1', request)).resolves.toEqual({ allowed: true });
+      expect(activityService.createActivity).not.toHaveBeenCalled();
+    });
+
+    it('should record denials in the activity log', async () => {
+      roomPolicies(policy());
+
+      const decision = await service.enforceAccess('room-1', { ...request, userAgent: 'curl', action: 'download' });
+
+      expect(decision).toMatchObject({ allowed: false, reason: 'IP address not in allowed range' });
+      expect(activityService.createActivity).toHaveBeenCalledWith({
+        type: 'access_denied',
+        userId: 'user-1',
+        roomId: 'room-1',
+        ipAddress: '192.168.1.5',
+        userAgent: 'curl',
+        metadata: { action: 'download', reason: 'IP address not in allowed range', policyId: 'policy-1', policyName: 'Office only' }
+      });
+    });
+
+    it('should refuse requests when the policies cannot be loaded', async () => {
+      db.select = () => { throw new Error('connection lost'); };
+
+      await expect(service.enforceAccess('room-1', request)).rejects.toMatchObject({
+        statusCode: 503,
+        code: 'ACCESS_POLICY_UNAVAILABLE'
+      });
+    });
+
+    it('should refuse requests when the session state cannot be read', async () => {
+      roomPolicies(policy({ allowedIpRanges: null, inactivityTimeout: 30 }));
+      (getValue as jest.Mock).mockRejectedValueOnce(new Error('redis down'));
+
+      await expect(service.enforceAccess('room-1', request)).rejects.toMatchObject({ statusCode: 503 });
+    });
+
+    it('should enforce the policies of the room a file is in', async () => {
+      db.results.push([{ roomId: 'room-1' }]);
+      roomPolicies(policy({ allowedIpRanges: null, allowDownloads: false }));
+
+      const denied = service.assertAccessAllowed({ ...request, fileIds: ['file-1'], action: 'download' });
+
+      await expect(denied).rejects.toThrow(AccessPolicyError);
+      await expect(denied).rejects.toMatchObject({ statusCode: 403, details: { roomId: 'room-1', policyId: 'policy-1' } });
+    });
+
+    it('should enforce the policies of the room an upload goes to', async () => {
+      db.results.push([{ roomId: 'room-1' }]);
+      roomPolicies(policy());
+
+      await expect(service.assertAccessAllowed({ ...request, uploadId: 'upload-1' })).rejects.toThrow(AccessPolicyError);
+    });
+
+    it('should end sessions that were idle for too long', async () => {
+      roomPolicies(policy({ allowedIpRanges: null, inactivityTimeout: 30 }));
+      (getValue as jest.Mock).mockResolvedValueOnce(String(Date.now() - 31 * 60 * 1000));
+
+      const decision = await service.enforceAccess('room-1', request);
+
+      expect(decision.reason).toBe('Session expired due to inactivity. Please sign in again');
+      expect(setValue).not.toHaveBeenCalled();
+    });
+
+    it('should turn away joins once a room is full', async () => {
+      roomPolicies(policy({ allowedIpRanges: null, maxConcurrentUsers: 2 }));
+      wsService.getRoomUserIds.mockResolvedValue(['user-1', 'user-2', 'user-3']);
+
+      await expect(service.enforceAccess('room-1', { ...request, action: 'join' })).resolves.toMatchObject({
+        allowed: false,
+        reason: 'Room has reached its maximum number of concurrent users'
+      });
+    });
+
+    it('should leave rooms whose policies deny a request out of searches', async () => {
+      db.results.push([policy({ roomId: 'room-2' }), policy({ id: 'policy-2', allowedIpRanges: null, requireMfa: true, roomId: 'room-3' })]);
+
+      const allowed = await service.filterAllowedRoomIds('company-1', ['room-1', 'room-2', 'room-3'], { ...request, hasMfa: true });
+
+      expect(allowed).toEqual(['room-1', 'room-3']);
+      expect(activityService.createActivity).toHaveBeenCalledTimes(1);
+      expect(activityService.createActivity.mock.calls[0][0]).toMatchObject({ type: 'access_denied', roomId: 'room-2' });
+    });
+  });
+});
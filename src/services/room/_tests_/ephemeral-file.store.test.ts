@@ -0,0 +1,144 @@
+// src/services/room/_tests_/ephemeral-file.store.test.ts
+import { EphemeralFileStore } from '../ephemeral-file.store';
+import { EphemeralFileDto } from '../room.service';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: { REDIS_PREFIX: 'test:' } }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+
+// In-memory stand-in for the node-redis client, expiring keys lazily
+class FakeRedis {
+  isOpen = true;
+  values = new Map<string, { value: string; expiresAt?: number }>();
+  sets = new Map<string, Set<string>>();
+
+  private live(key: string) {
+    const entry = this.values.get(key);
+    if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get(key: string) { return this.live(key)?.value ?? null; }
+  async set(key: string, value: string) { this.values.set(key, { value }); return 'OK'; }
+  async pExpireAt(key: string, at: number) {
+    const entry = this.live(key);
+    if (entry) entry.expiresAt = at;
+    return entry ? 1 : 0;
+  }
+  async exists(key: string) { return this.live(key) ? 1 : 0; }
+  async mGet(keys: string[]) { return keys.map(key => this.live(key)?.value ?? null); }
+  async del(keys: string | string[]) {
+    let deleted = 0;
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      if (this.live(key) || this.sets.has(key)) deleted++;
+      this.values.delete(key);
+      this.sets.delete(key);
+    }
+    return deleted;
+  }
+  async sAdd(key: string, member: string) {
+    const set = this.sets.get(key) || new Set<string>();
+    this.sets.set(key, set);
+    const added = set.has(member) ? 0 : 1;
+    set.add(member);
+    return added;
+  }
+  async sRem(key: string, member: string) { return this.sets.get(key)?.delete(member) ? 1 : 0; }
+  async sMembers(key: string) { return [...(this.sets.get(key) || [])]; }
+
+  multi() {
+    const queued: Array<() => Promise<any>> = [];
+    const chain: any = new Proxy({}, {
+      get: (_target, name: string) => name === 'exec'
+        ? async () => {
+          const results = [];
+          for (const run of queued) results.push(await run());
+          return results;
+        }
+        : (...args: any[]) => {
+          queued.push(() => (this as any)[name](...args));
+          return chain;
+        }
+    });
+    return chain;
+  }
+}
+
+const mockRedis = new FakeRedis();
+
+jest.mock('../../../utils/redis', () => ({
+  getRedisClient: () => mockRedis,
+  getKey: (key: string) => `test:${key}`
+}));
+
+const logger = createTestLogger();
+
+const file = (id: string, expiresInMs: number): EphemeralFileDto => ({
+  id,
+  name: `${id}.txt`,
+  size: 10,
+  contentType: 'text/plain',
+  ownerId: 'user-1',
+  expiresAt: new Date(Date.now() + expiresInMs)
+});
+
+describe('EphemeralFileStore', () => {
+  let store: EphemeralFileStore;
+
+  beforeEach(() => {
+    mockRedis.values.clear();
+    mockRedis.sets.clear();
+    store = new EphemeralFileStore(logger);
+  });
+
+  it('should only return files that have not expired', async () => {
+    await store.save('room-1', file('live', 60000));
+    await store.save('room-1', file('expired', -1));
+
+    expect((await store.list('room-1')).map(f => f.id)).toEqual(['live']);
+    expect(await store.get('room-1', 'live')).toMatchObject({ id: 'live', expiresAt: expect.any(Date) });
+    expect(await store.get('room-1', 'expired')).toBeNull();
+  });
+
+  it('should report whether a removal actually deleted the file', async () => {
+    await store.save('room-1', file('a', 60000));
+
+    expect(await store.remove('room-1', 'a')).toBe(true);
+    expect(await store.remove('room-1', 'a')).toBe(false);
+    expect(await store.list('room-1')).toEqual([]);
+  });
+
+  it('should run the expiry handler once per expired file when swept', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    await store.save('room-1', file('live', 60000));
+    await store.save('room-1', file('expired', -1));
+
+    expect(await store.sweepExpired(handler)).toBe(1);
+    expect(await store.sweepExpired(handler)).toBe(0);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith('room-1', expect.objectContaining({ id: 'expired' }));
+    expect((await store.list('room-1')).map(f => f.id)).toEqual(['live']);
+  });
+
+  it('should not count a file whose expiry handler fails', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('storage unavailable'));
+    await store.save('room-1', file('expired', -1));
+
+    expect(await store.sweepExpired(handler)).toBe(0);
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it('should forget a room once it is cleared', async () => {
+    await store.save('room-1', file('a', 60000));
+    await store.save('room-1', file('b', 60000));
+
+    await store.clearRoom('room-1');
+
+    expect(await store.list('room-1')).toEqual([]);
+    expect(await mockRedis.sMembers('test:ephemeral:rooms')).toEqual([]);
+  });
+});
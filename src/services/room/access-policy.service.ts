@@ -3,12 +3,62 @@ import { Logger } from '../../utils/logger';
 import { DrizzleClient } from '../../db/drizzle.client';
 import { accessControlPolicies } from '../../db/schema/access';
 import { rooms } from '../../db/schema/rooms';
-import { and, eq, isNull, or } from 'drizzle-orm';
-import { ValidationError, ForbiddenError } from '../../utils/errors';
+import { files } from '../../db/schema/files';
+import { shares } from '../../db/schema/shares';
+import { multipartUploads } from '../../db/schema/uploads';
+import { and, desc, eq, inArray, InferModel, isNull, or } from 'drizzle-orm';
+import {
+  AppError,
+  ValidationError,
+  ForbiddenError,
+  NotFoundError,
+  AuthorizationError,
+  AccessPolicyError
+} from '../../utils/errors';
 import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
 import { ActivityService } from '../activity/activity.service';
 import { WebSocketService } from '../websocket/websocket.service';
-import { isIPInRange } from '../../utils/network';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { CompanyActor } from '../company/company.service';
+import { JwtService } from '../auth/jwt.service';
+import { isIPInRange, isValidIPRange, isValidIPv4, normalizeIP } from '../../utils/network';
+import { getValue, setValue } from '../../utils/redis';
+
+export type AccessControlPolicy = InferModel<typeof accessControlPolicies>;
+
+/**
+ * The policy fields that take part in evaluation
+ */
+export type EvaluablePolicy = Pick<AccessControlPolicy,
+  | 'id'
+  | 'name'
+  | 'allowedIpRanges'
+  | 'deniedIpRanges'
+  | 'timeRestrictions'
+  | 'requireMfa'
+  | 'allowDownloads'
+  | 'allowSharing'
+  | 'maxConcurrentUsers'
+  | 'maxSessionLength'
+  | 'inactivityTimeout'
+>;
+
+/**
+ * What a request does in a room. Downloads and shares are subject to the
+ * allowDownloads and allowSharing flags, joins to maxConcurrentUsers.
+ */
+export type PolicyAction = 'access' | 'join' | 'download' | 'share';
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Last activity of sessions under an inactivity timeout is kept for a week
+const SESSION_ACTIVITY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Company roles allowed to manage access policies
+const POLICY_MANAGER_ROLES = ['owner', 'admin'];
 
 export interface AccessControlPolicyDto {
   name: string;
@@ -30,6 +80,73 @@ export interface AccessControlPolicyDto {
   requireMfa?: boolean;
   maxSessionLength?: number; // in minutes
   inactivityTimeout?: number; // in minutes
+  isActive?: boolean;
+}
+
+/**
+ * The circumstances an access request is evaluated under
+ */
+export interface PolicyEvaluationContext {
+  ipAddress?: string;
+  at?: Date;        // Defaults to now
+  hasMfa?: boolean;
+  action?: PolicyAction;        // Defaults to access
+  sessionStartedAt?: Date;
+  lastActivityAt?: Date;
+  concurrentUsers?: number;     // Other users currently in the room
+}
+
+/**
+ * An authenticated request to rooms, files or a share. The rooms whose
+ * policies apply are resolved from whichever targets are given.
+ */
+export interface PolicyAccessRequest {
+  userId: string;
+  roomIds?: string[];
+  fileIds?: string[];
+  shareId?: string;
+  uploadId?: string;    // Multipart or tus upload, checked against its target room
+  action?: PolicyAction;
+  ipAddress?: string;
+  userAgent?: string;
+  token?: string;       // Bearer token, read for MFA and session claims
+  hasMfa?: boolean;     // Overrides the token's MFA claim
+}
+
+/**
+ * Session details read from an access token
+ */
+interface SessionInfo {
+  id: string;
+  startedAt?: Date;
+  hasMfa: boolean;
+}
+
+type PolicyRequestContext = Omit<PolicyAccessRequest, 'roomIds' | 'fileIds' | 'shareId' | 'uploadId'>;
+
+/**
+ * The outcome of evaluating access policies. When access is denied, the
+ * policy that denied it is reported along with the reason.
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  policyId?: string;
+  policyName?: string;
+}
+
+/**
+ * A dry-run decision together with the hypothetical context it was made under
+ */
+export interface PolicyDryRunResult extends PolicyDecision {
+  evaluatedPolicies: number;
+  context: {
+    ipAddress: string | null;
+    at: Date;
+    userId: string | null;
+    hasMfa: boolean;
+    action: PolicyAction;
+  };
 }
 
 @injectable()
@@ -38,16 +155,29 @@ export class AccessPolicyService {
     @inject('DrizzleClient') private db: DrizzleClient,
     @inject('Logger') private logger: Logger,
     @inject('ActivityService') private activityService: ActivityService,
-    @inject('WebSocketService') private wsService: WebSocketService
+    @inject('WebSocketService') private wsService: WebSocketService,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('UserRepository') private userRepository: UserRepository,
+    @inject('JwtService') private jwtService: JwtService
   ) {
     this.logger = logger.createChildLogger('AccessPolicyService');
+
+    // Policies also apply to rooms joined over WebSocket
+    this.wsService.setRoomJoinGuard(request => this.enforceAccess(request.roomId, {
+      ...request,
+      action: 'join'
+    }));
   }
 
   /**
    * Create a new access control policy
    */
-  async createPolicy(data: AccessControlPolicyDto, createdById: string) {
+  async createPolicy(data: AccessControlPolicyDto, actor: CompanyActor) {
     try {
+      await this.assertCompanyAccess(data.companyId, actor, POLICY_MANAGER_ROLES);
+      this.validatePolicyInput(data, true);
+
+      const createdById = actor.id;
       const db = this.db.getInstance();
       const policyId = uuidv4();
 
@@ -86,6 +216,7 @@ export class AccessPolicyService {
         requireMfa: data.requireMfa || false,
         maxSessionLength: data.maxSessionLength || null,
         inactivityTimeout: data.inactivityTimeout || null,
+        isActive: data.isActive !== undefined ? data.isActive : true
       });
 
       const [policy] = await db
@@ -126,19 +257,14 @@ export class AccessPolicyService {
   /**
    * Update an access control policy
    */
-  async updatePolicy(id: string, data: Partial<AccessControlPolicyDto>, userId: string) {
+  async updatePolicy(companyId: string, id: string, data: Partial<AccessControlPolicyDto>, actor: CompanyActor) {
     try {
-      const db = this.db.getInstance();
+      await this.assertCompanyAccess(companyId, actor, POLICY_MANAGER_ROLES);
+      this.validatePolicyInput(data, false);
 
-      // Get existing policy
-      const [policy] = await db
-        .select()
-        .from(accessControlPolicies)
-        .where(eq(accessControlPolicies.id, id));
-
-      if (!policy) {
-        throw new ValidationError('Access control policy not found');
-      }
+      const userId = actor.id;
+      const db = this.db.getInstance();
+      const policy = await this.findCompanyPolicy(companyId, id);
 
       // Update policy
       await db
@@ -156,6 +282,7 @@ export class AccessPolicyService {
           requireMfa: data.requireMfa !== undefined ? data.requireMfa : policy.requireMfa,
           maxSessionLength: data.maxSessionLength !== undefined ? data.maxSessionLength : policy.maxSessionLength,
           inactivityTimeout: data.inactivityTimeout !== undefined ? data.inactivityTimeout : policy.inactivityTimeout,
+          isActive: data.isActive !== undefined ? data.isActive : policy.isActive,
           updatedAt: new Date()
         })
         .where(eq(accessControlPolicies.id, id));
@@ -199,19 +326,13 @@ export class AccessPolicyService {
   /**
    * Delete an access control policy
    */
-  async deletePolicy(id: string, userId: string) {
+  async deletePolicy(companyId: string, id: string, actor: CompanyActor) {
     try {
-      const db = this.db.getInstance();
-
-      // Get existing policy
-      const [policy] = await db
-        .select()
-        .from(accessControlPolicies)
-        .where(eq(accessControlPolicies.id, id));
+      await this.assertCompanyAccess(companyId, actor, POLICY_MANAGER_ROLES);
 
-      if (!policy) {
-        throw new ValidationError('Access control policy not found');
-      }
+      const userId = actor.id;
+      const db = this.db.getInstance();
+      const policy = await this.findCompanyPolicy(companyId, id);
 
       // Delete policy
       await db
@@ -247,6 +368,140 @@ export class AccessPolicyService {
     }
   }
 
+  /**
+   * List all policies of a company, both company-wide and room-specific
+   */
+  async listCompanyPolicies(companyId: string, actor: CompanyActor): Promise<AccessControlPolicy[]> {
+    try {
+      await this.assertCompanyAccess(companyId, actor);
+
+      const db = this.db.getInstance();
+      return await db
+        .select()
+        .from(accessControlPolicies)
+        .where(eq(accessControlPolicies.companyId, companyId))
+        .orderBy(desc(accessControlPolicies.createdAt));
+    } catch (error: any) {
+      this.logger.error('Failed to list company policies', { companyId, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single policy of a company
+   */
+  async getPolicy(companyId: string, id: string, actor: CompanyActor): Promise<AccessControlPolicy> {
+    try {
+      await this.assertCompanyAccess(companyId, actor);
+      return await this.findCompanyPolicy(companyId, id);
+    } catch (error: any) {
+      this.logger.error('Failed to get access control policy', { companyId, policyId: id, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * List the policies in effect for a room, as seen by a company member
+   */
+  async listRoomPolicies(roomId: string, actor: CompanyActor): Promise<AccessControlPolicy[]> {
+    try {
+      const companyId = await this.getRoomCompanyId(roomId);
+      await this.assertCompanyAccess(companyId, actor);
+      return await this.getRoomPolicies(roomId);
+    } catch (error: any) {
+      this.logger.error('Failed to list room policies', { roomId, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a policy that only applies to one room
+   */
+  async createRoomPolicy(roomId: string, data: Omit<AccessControlPolicyDto, 'roomId' | 'companyId'>, actor: CompanyActor) {
+    const companyId = await this.getRoomCompanyId(roomId);
+    return this.createPolicy({ ...data, roomId, companyId }, actor);
+  }
+
+  /**
+   * Evaluate a company's policies against a hypothetical request without
+   * enforcing anything. Evaluates a stored policy if policyId is given, an
+   * unsaved draft if policy is given, and all active company-wide policies
+   * otherwise.
+   */
+  async dryRunCompanyPolicies(companyId: string, actor: CompanyActor, input: {
+    policyId?: string;
+    policy?: Partial<AccessControlPolicyDto>;
+    ipAddress?: string;
+    at?: Date;
+    userId?: string;
+    hasMfa?: boolean;
+    action?: PolicyAction;
+  }): Promise<PolicyDryRunResult> {
+    try {
+      await this.assertCompanyAccess(companyId, actor, POLICY_MANAGER_ROLES);
+
+      let policies: EvaluablePolicy[];
+
+      if (input.policyId) {
+        policies = [await this.findCompanyPolicy(companyId, input.policyId)];
+      } else if (input.policy) {
+        this.validatePolicyInput(input.policy, false);
+        policies = [{
+          id: 'draft',
+          name: input.policy.name || 'Draft policy',
+          allowedIpRanges: input.policy.allowedIpRanges || null,
+          deniedIpRanges: input.policy.deniedIpRanges || null,
+          timeRestrictions: input.policy.timeRestrictions || null,
+          requireMfa: input.policy.requireMfa || false,
+          allowDownloads: input.policy.allowDownloads !== undefined ? input.policy.allowDownloads : true,
+          allowSharing: input.policy.allowSharing !== undefined ? input.policy.allowSharing : true,
+          maxConcurrentUsers: input.policy.maxConcurrentUsers || null,
+          maxSessionLength: input.policy.maxSessionLength || null,
+          inactivityTimeout: input.policy.inactivityTimeout || null
+        }];
+      } else {
+        const db = this.db.getInstance();
+        policies = await db
+          .select()
+          .from(accessControlPolicies)
+          .where(
+            and(
+              eq(accessControlPolicies.companyId, companyId),
+              isNull(accessControlPolicies.roomId),
+              eq(accessControlPolicies.isActive, true)
+            )
+          );
+      }
+
+      return await this.dryRun(companyId, policies, input);
+    } catch (error: any) {
+      this.logger.error('Failed to dry-run company policies', { companyId, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluate the policies in effect for a room against a hypothetical request
+   */
+  async dryRunRoomPolicies(roomId: string, actor: CompanyActor, input: {
+    ipAddress?: string;
+    at?: Date;
+    userId?: string;
+    hasMfa?: boolean;
+    action?: PolicyAction;
+  }): Promise<PolicyDryRunResult> {
+    try {
+      const companyId = await this.getRoomCompanyId(roomId);
+      await this.assertCompanyAccess(companyId, actor, POLICY_MANAGER_ROLES);
+
+      const policies = await this.getRoomPolicies(roomId);
+      return await this.dryRun(companyId, policies, input);
+    } catch (error: any) {
+      this.logger.error('Failed to dry-run room policies', { roomId, error: error.message });
+      throw error;
+    }
+  }
+
   /**
    * Get policies for a room
    */
@@ -296,104 +551,541 @@ export class AccessPolicyService {
     ipAddress?: string, 
     hasMfa: boolean = false
   ): Promise<{ allowed: boolean; reason?: string }> {
-    try {
-      const policies = await this.getRoomPolicies(roomId);
-      
-      if (policies.length === 0) {
-        // No policies, access is allowed
-        return { allowed: true };
-      }
-      
-      // Check each policy constraint
-      for (const policy of policies) {
-        // Check IP restrictions
-        if (ipAddress && policy.allowedIpRanges) {
-          const allowedRanges = policy.allowedIpRanges.split(',').map(r => r.trim());
-          let ipAllowed = false;
-          
-          for (const range of allowedRanges) {
-            if (isIPInRange(ipAddress, range)) {
-              ipAllowed = true;
-              break;
-            }
-          }
-          
-          if (!ipAllowed) {
-            return { 
-              allowed: false, 
-              reason: 'IP address not in allowed range' 
-            };
-          }
+    const decision = await this.enforceAccess(roomId, { userId, ipAddress, hasMfa });
+    return decision.allowed ? { allowed: true } : { allowed: false, reason: decision.reason };
+  }
+
+  /**
+   * Enforce the policies of every room a request touches.
+   * Throws AccessPolicyError on the first denial.
+   */
+  async assertAccessAllowed(request: PolicyAccessRequest): Promise<void> {
+    const roomIds = await this.resolveRoomIds(request);
+
+    for (const roomId of roomIds) {
+      const decision = await this.enforceAccess(roomId, request);
+      if (!decision.allowed) {
+        throw new AccessPolicyError(decision.reason || 'Access denied by policy', {
+          roomId,
+          policyId: decision.policyId,
+          policyName: decision.policyName
+        });
+      }
+    }
+  }
+
+  /**
+   * Evaluate a room's policies for a real request and record denials in the
+   * activity log. Sessions are identified by their access token, so session
+   * length and inactivity limits apply per sign-in. Throws a 503 AppError if
+   * the policies cannot be evaluated, so requests never pass unchecked.
+   */
+  async enforceAccess(roomId: string, request: PolicyRequestContext): Promise<PolicyDecision> {
+    const action = request.action || 'access';
+    const now = new Date();
+
+    const policies = await this.loadPolicies(request, () => this.getRoomPolicies(roomId));
+    if (policies.length === 0) {
+      // No policies, access is allowed
+      return { allowed: true };
+    }
+
+    const { context, activityKey } = await this.describeRequest(roomId, policies, request, now);
+    const decision = this.evaluatePolicies(policies, context);
+
+    if (!decision.allowed) {
+      await this.recordDenial(roomId, request, action, decision);
+      return decision;
+    }
+
+    // Inactive sessions stay denied, so only allowed requests count as activity
+    if (activityKey) {
+      await setValue(activityKey, String(now.getTime()), SESSION_ACTIVITY_TTL_SECONDS);
+    }
+
+    return decision;
+  }
+
+  /**
+   * The rooms of a company whose policies allow a request. For requests that
+   * span many rooms, such as company-wide search, where denied rooms are left
+   * out instead of failing the whole request. Denials are recorded as usual.
+   */
+  async filterAllowedRoomIds(companyId: string, roomIds: string[], request: PolicyRequestContext): Promise<string[]> {
+    if (roomIds.length === 0) {
+      return [];
+    }
+
+    const policies = await this.loadPolicies(request, () => this.db.getInstance()
+      .select()
+      .from(accessControlPolicies)
+      .where(
+        and(
+          eq(accessControlPolicies.isActive, true),
+          eq(accessControlPolicies.companyId, companyId),
+          or(isNull(accessControlPolicies.roomId), inArray(accessControlPolicies.roomId, roomIds))
+        )
+      ));
+
+    if (policies.length === 0) {
+      return roomIds;
+    }
+
+    const action = request.action || 'access';
+    const now = new Date();
+    const allowed: string[] = [];
+
+    for (const roomId of roomIds) {
+      const roomPolicies = policies.filter(policy => !policy.roomId || policy.roomId === roomId);
+      if (roomPolicies.length === 0) {
+        allowed.push(roomId);
+        continue;
+      }
+
+      const { context } = await this.describeRequest(roomId, roomPolicies, request, now);
+      const decision = this.evaluatePolicies(roomPolicies, context);
+
+      if (decision.allowed) {
+        allowed.push(roomId);
+      } else {
+        await this.recordDenial(roomId, request, action, decision);
+      }
+    }
+
+    return allowed;
+  }
+
+  /**
+   * Evaluate policies against a request. The first policy that denies access decides.
+   */
+  evaluatePolicies(
+    policies: EvaluablePolicy[],
+    context: PolicyEvaluationContext
+  ): PolicyDecision {
+    const ipAddress = context.ipAddress ? normalizeIP(context.ipAddress) : undefined;
+    const at = context.at || new Date();
+
+    for (const policy of policies) {
+      const deny = (reason: string): PolicyDecision => ({
+        allowed: false,
+        reason,
+        policyId: policy.id,
+        policyName: policy.name
+      });
+
+      // Check IP restrictions
+      if (ipAddress && policy.allowedIpRanges) {
+        const allowedRanges = this.splitRanges(policy.allowedIpRanges);
+        if (!allowedRanges.some(range => isIPInRange(ipAddress, range))) {
+          return deny('IP address not in allowed range');
         }
-        
-        if (ipAddress && policy.deniedIpRanges) {
-          const deniedRanges = policy.deniedIpRanges.split(',').map(r => r.trim());
-          
-          for (const range of deniedRanges) {
-            if (isIPInRange(ipAddress, range)) {
-              return { 
-                allowed: false, 
-                reason: 'IP address in denied range' 
-              };
-            }
-          }
+      }
+
+      if (ipAddress && policy.deniedIpRanges) {
+        const deniedRanges = this.splitRanges(policy.deniedIpRanges);
+        if (deniedRanges.some(range => isIPInRange(ipAddress, range))) {
+          return deny('IP address in denied range');
+        }
+      }
+
+      // Check MFA requirement
+      if (policy.requireMfa && !context.hasMfa) {
+        return deny('Multi-factor authentication required');
+      }
+
+      // Check feature restrictions
+      if (context.action === 'download' && !policy.allowDownloads) {
+        return deny('Downloads are not allowed');
+      }
+
+      if (context.action === 'share' && !policy.allowSharing) {
+        return deny('Sharing is not allowed');
+      }
+
+      if (
+        context.action === 'join' &&
+        policy.maxConcurrentUsers &&
+        context.concurrentUsers !== undefined &&
+        context.concurrentUsers >= policy.maxConcurrentUsers
+      ) {
+        return deny('Room has reached its maximum number of concurrent users');
+      }
+
+      // Check session limits
+      if (policy.maxSessionLength && context.sessionStartedAt) {
+        const sessionMinutes = (at.getTime() - context.sessionStartedAt.getTime()) / 60000;
+        if (sessionMinutes > policy.maxSessionLength) {
+          return deny('Session length limit exceeded. Please sign in again');
         }
-        
-        // Check MFA requirement
-        if (policy.requireMfa && !hasMfa) {
-          return { 
-            allowed: false, 
-            reason: 'Multi-factor authentication required' 
-          };
+      }
+
+      if (policy.inactivityTimeout && context.lastActivityAt) {
+        const idleMinutes = (at.getTime() - context.lastActivityAt.getTime()) / 60000;
+        if (idleMinutes > policy.inactivityTimeout) {
+          return deny('Session expired due to inactivity. Please sign in again');
         }
-        
-        // Check time restrictions
-        if (policy.timeRestrictions) {
-          const restrictions = policy.timeRestrictions;
-          
-          if (restrictions.days && restrictions.days.length > 0) {
-            const currentDay = new Date().toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-            if (!restrictions.days.includes(currentDay)) {
-              return { 
-                allowed: false, 
-                reason: 'Access not allowed on this day' 
-              };
-            }
+      }
+
+      // Check time restrictions, in the policy's timezone if it has one
+      const restrictions = policy.timeRestrictions;
+      if (restrictions) {
+        const local = this.getLocalTime(at, restrictions.timezone);
+
+        if (restrictions.days && restrictions.days.length > 0) {
+          const days = restrictions.days.map(day => day.toLowerCase());
+          if (!days.includes(local.day)) {
+            return deny('Access not allowed on this day');
           }
-          
-          if (restrictions.startTime && restrictions.endTime) {
-            const now = new Date();
-            const currentHour = now.getHours();
-            const currentMinute = now.getMinutes();
-            
-            const [startHour, startMinute] = restrictions.startTime.split(':').map(Number);
-            const [endHour, endMinute] = restrictions.endTime.split(':').map(Number);
-            
-            const currentTimeMinutes = currentHour * 60 + currentMinute;
-            const startTimeMinutes = startHour * 60 + startMinute;
-            const endTimeMinutes = endHour * 60 + endMinute;
-            
-            if (currentTimeMinutes < startTimeMinutes || currentTimeMinutes > endTimeMinutes) {
-              return { 
-                allowed: false, 
-                reason: 'Access not allowed at this time' 
-              };
-            }
+        }
+
+        if (restrictions.startTime && restrictions.endTime) {
+          const start = this.toMinutes(restrictions.startTime);
+          const end = this.toMinutes(restrictions.endTime);
+
+          // Windows such as 22:00-06:00 span midnight
+          const inWindow = start <= end
+            ? local.minutes >= start && local.minutes <= end
+            : local.minutes >= start || local.minutes <= end;
+
+          if (!inWindow) {
+            return deny('Access not allowed at this time');
           }
         }
       }
-      
-      // All policies passed, access is allowed
-      return { allowed: true };
+    }
+
+    // All policies passed, access is allowed
+    return { allowed: true };
+  }
+
+  private async loadPolicies(
+    request: PolicyRequestContext,
+    load: () => Promise<AccessControlPolicy[]>
+  ): Promise<AccessControlPolicy[]> {
+    try {
+      return await load();
     } catch (error: any) {
-      this.logger.error('Failed to validate access against policies', { 
-        roomId, 
-        userId, 
-        ipAddress, 
-        error: error.message 
+      if (error instanceof AppError) {
+        throw error;
+      }
+      this.logger.error('Failed to load access policies', {
+        userId: request.userId,
+        ipAddress: request.ipAddress,
+        error: error.message
       });
-      // Default to allowed on error, but log the issue
-      return { allowed: true };
+      throw new AppError('Access policies could not be evaluated', 503, 'ACCESS_POLICY_UNAVAILABLE');
+    }
+  }
+
+  /**
+   * The evaluation context of a real request: its session, the session's last
+   * activity when a policy has an inactivity timeout, and the room's other
+   * users when a policy limits concurrent users of a join
+   */
+  private async describeRequest(
+    roomId: string,
+    policies: EvaluablePolicy[],
+    request: PolicyRequestContext,
+    at: Date
+  ): Promise<{ context: PolicyEvaluationContext; activityKey?: string }> {
+    const action = request.action || 'access';
+    const session = request.token ? this.describeSession(request.token) : undefined;
+
+    try {
+      let activityKey: string | undefined;
+      if (session && policies.some(policy => policy.inactivityTimeout)) {
+        activityKey = `policy:activity:${session.id}`;
+      }
+      const lastActivity = activityKey ? await getValue(activityKey) : null;
+
+      let concurrentUsers: number | undefined;
+      if (action === 'join' && policies.some(policy => policy.maxConcurrentUsers)) {
+        const userIds = await this.wsService.getRoomUserIds(roomId);
+        concurrentUsers = userIds.filter(id => id !== request.userId).length;
+      }
+
+      return {
+        activityKey,
+        context: {
+          ipAddress: request.ipAddress,
+          at,
+          hasMfa: request.hasMfa !== undefined ? request.hasMfa : session?.hasMfa,
+          action,
+          sessionStartedAt: session?.startedAt,
+          lastActivityAt: lastActivity ? new Date(Number(lastActivity)) : undefined,
+          concurrentUsers
+        }
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to validate access against policies', {
+        roomId,
+        userId: request.userId,
+        ipAddress: request.ipAddress,
+        error: error.message
+      });
+      throw new AppError('Access policies could not be evaluated', 503, 'ACCESS_POLICY_UNAVAILABLE');
+    }
+  }
+
+  private async dryRun(
+    companyId: string,
+    policies: EvaluablePolicy[],
+    input: { ipAddress?: string; at?: Date; userId?: string; hasMfa?: boolean; action?: PolicyAction }
+  ): Promise<PolicyDryRunResult> {
+    if (input.ipAddress && !isValidIPv4(normalizeIP(input.ipAddress))) {
+      throw new ValidationError(`Invalid IP address: ${input.ipAddress}`);
+    }
+    if (input.at && isNaN(input.at.getTime())) {
+      throw new ValidationError('Invalid time');
+    }
+
+    let hasMfa = input.hasMfa;
+    if (input.userId) {
+      const user = await this.userRepository.findById(input.userId);
+      if (!user) {
+        throw new NotFoundError('User', input.userId);
+      }
+      // Fall back to the user's MFA enrollment when not given explicitly
+      if (hasMfa === undefined) {
+        hasMfa = user.metadata?.mfaEnabled === true;
+      }
+    }
+
+    const at = input.at || new Date();
+    const action = input.action || 'access';
+    const decision = this.evaluatePolicies(policies, { ipAddress: input.ipAddress, at, hasMfa, action });
+
+    this.logger.debug('Access policy dry run', { companyId, policies: policies.length, allowed: decision.allowed });
+
+    return {
+      ...decision,
+      evaluatedPolicies: policies.length,
+      context: {
+        ipAddress: input.ipAddress || null,
+        at,
+        userId: input.userId || null,
+        hasMfa: hasMfa || false,
+        action
+      }
+    };
+  }
+
+  private async resolveRoomIds(request: PolicyAccessRequest): Promise<string[]> {
+    const roomIds = new Set(request.roomIds || []);
+    const fileIds = [...(request.fileIds || [])];
+    const db = this.db.getInstance();
+
+    if (request.shareId) {
+      const [share] = await db
+        .select({ fileId: shares.fileId })
+        .from(shares)
+        .where(eq(shares.id, request.shareId));
+      if (share) {
+        fileIds.push(share.fileId);
+      }
+    }
+
+    if (request.uploadId) {
+      const [upload] = await db
+        .select({ roomId: multipartUploads.roomId })
+        .from(multipartUploads)
+        .where(eq(multipartUploads.id, request.uploadId));
+      if (upload) {
+        roomIds.add(upload.roomId);
+      }
+    }
+
+    if (fileIds.length > 0) {
+      const fileRooms = await db
+        .select({ roomId: files.roomId })
+        .from(files)
+        .where(inArray(files.id, fileIds));
+      fileRooms.forEach(file => roomIds.add(file.roomId));
+    }
+
+    return [...roomIds];
+  }
+
+  private describeSession(token: string): SessionInfo {
+    const claims: any = this.jwtService.decodeToken(token) || {};
+    const startedAt = claims.auth_time || claims.iat;
+
+    return {
+      id: claims.jti || crypto.createHash('sha256').update(token).digest('hex').slice(0, 32),
+      startedAt: typeof startedAt === 'number' ? new Date(startedAt * 1000) : undefined,
+      hasMfa: Array.isArray(claims.amr) && claims.amr.includes('mfa')
+    };
+  }
+
+  private async recordDenial(
+    roomId: string,
+    request: PolicyRequestContext,
+    action: PolicyAction,
+    decision: PolicyDecision
+  ): Promise<void> {
+    this.logger.warn('Access denied by policy', {
+      roomId,
+      userId: request.userId,
+      action,
+      policyId: decision.policyId,
+      reason: decision.reason
+    });
+
+    try {
+      await this.activityService.createActivity({
+        type: 'access_denied',
+        userId: request.userId,
+        roomId,
+        ipAddress: request.ipAddress,
+        userAgent: request.userAgent,
+        metadata: {
+          action,
+          reason: decision.reason,
+          policyId: decision.policyId,
+          policyName: decision.policyName
+        }
+      });
+    } catch (error: any) {
+      this.logger.error('Failed to record access denial', { roomId, userId: request.userId, error: error.message });
+    }
+  }
+
+  private validatePolicyInput(data: Partial<AccessControlPolicyDto>, isNew: boolean): void {
+    if (isNew || data.name !== undefined) {
+      if (typeof data.name !== 'string' || !data.name.trim()) {
+        throw new ValidationError('Policy name is required');
+      }
+      if (data.name.length > 255) {
+        throw new ValidationError('Policy name must be at most 255 characters');
+      }
+    }
+
+    for (const field of ['allowedIpRanges', 'deniedIpRanges'] as const) {
+      const value = data[field];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      if (typeof value !== 'string') {
+        throw new ValidationError(`${field} must be a comma-separated list of IP ranges`);
+      }
+      const invalid = this.splitRanges(value).filter(range => !isValidIPRange(range));
+      if (invalid.length > 0) {
+        throw new ValidationError(`Invalid IP ranges in ${field}: ${invalid.join(', ')}`, { field, invalid });
+      }
+    }
+
+    const restrictions = data.timeRestrictions;
+    if (restrictions) {
+      if (restrictions.days) {
+        if (!Array.isArray(restrictions.days)) {
+          throw new ValidationError('timeRestrictions.days must be a list of weekdays');
+        }
+        const invalidDays = restrictions.days.filter(day => !WEEKDAYS.includes(String(day).toLowerCase()));
+        if (invalidDays.length > 0) {
+          throw new ValidationError(`Invalid days: ${invalidDays.join(', ')}. Must be one of: ${WEEKDAYS.join(', ')}`);
+        }
+      }
+
+      if (!!restrictions.startTime !== !!restrictions.endTime) {
+        throw new ValidationError('timeRestrictions needs both startTime and endTime');
+      }
+      for (const time of [restrictions.startTime, restrictions.endTime]) {
+        if (time !== undefined && !TIME_PATTERN.test(time)) {
+          throw new ValidationError(`Invalid time ${time}. Use HH:MM in 24-hour format`);
+        }
+      }
+
+      if (restrictions.timezone !== undefined && !this.isValidTimezone(restrictions.timezone)) {
+        throw new ValidationError(`Invalid timezone: ${restrictions.timezone}`);
+      }
+    }
+
+    for (const field of ['maxConcurrentUsers', 'maxSessionLength', 'inactivityTimeout'] as const) {
+      const value = data[field];
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value <= 0)) {
+        throw new ValidationError(`${field} must be a positive integer`);
+      }
+    }
+  }
+
+  private splitRanges(ranges: string): string[] {
+    return ranges.split(',').map(range => range.trim()).filter(Boolean);
+  }
+
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Weekday and minutes past midnight of a moment, in a timezone or server local time
+   */
+  private getLocalTime(at: Date, timezone?: string): { day: string; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+    return {
+      day: part('weekday').toLowerCase(),
+      minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10)
+    };
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private async findCompanyPolicy(companyId: string, id: string): Promise<AccessControlPolicy> {
+    const db = this.db.getInstance();
+    const [policy] = await db
+      .select()
+      .from(accessControlPolicies)
+      .where(eq(accessControlPolicies.id, id));
+
+    if (!policy || policy.companyId !== companyId) {
+      throw new NotFoundError('Access control policy', id);
+    }
+
+    return policy;
+  }
+
+  private async getRoomCompanyId(roomId: string): Promise<string> {
+    const db = this.db.getInstance();
+    const [room] = await db
+      .select({ companyId: rooms.companyId })
+      .from(rooms)
+      .where(eq(rooms.id, roomId));
+
+    if (!room) {
+      throw new NotFoundError('Room', roomId);
+    }
+
+    return room.companyId;
+  }
+
+  private async assertCompanyAccess(companyId: string, actor: CompanyActor, roles?: string[]): Promise<void> {
+    // Platform admins can manage any company's policies
+    if (actor.role === 'admin') {
+      return;
+    }
+
+    const member = await this.companyRepository.findMember(companyId, actor.id);
+    if (!member) {
+      throw new AuthorizationError('You are not a member of this company');
+    }
+    if (roles && !roles.includes(member.role)) {
+      throw new AuthorizationError('Only company owners and admins can manage access policies');
     }
   }
 } 
\ No newline at end of file
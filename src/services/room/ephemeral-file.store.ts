@@ -0,0 +1,253 @@
+// src/services/room/ephemeral-file.store.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { env } from '../../config/env';
+import { getRedisClient, getKey } from '../../utils/redis';
+import type { EphemeralFileDto } from './room.service';
+
+/**
+ * Called once (across all instances) when an ephemeral file expires
+ */
+export type EphemeralFileExpiredHandler = (roomId: string, file: EphemeralFileDto) => Promise<void>;
+
+// The record outlives its expiry marker so the expiry handler can still read it
+const RECORD_GRACE_SECONDS = 60 * 60;
+
+/**
+ * Redis-backed storage for ephemeral P2P room files.
+ *
+ * Keys (all under REDIS_PREFIX):
+ * - ephemeral:rooms                     set of room ids holding ephemeral files
+ * - ephemeral:{roomId}:index            set of file ids in the room
+ * - ephemeral:{roomId}:file:{fileId}    JSON record
+ * - ephemeral:{roomId}:expiry:{fileId}  marker whose TTL is the file's expiry
+ *
+ * Expiry of the marker is picked up through Redis keyspace notifications, with a
+ * periodic sweep as a fallback since notifications are not delivered reliably.
+ */
+@injectable()
+export class EphemeralFileStore {
+  private subscriber: any = null;
+
+  constructor(
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('EphemeralFileStore');
+  }
+
+  /**
+   * Save a file and (re)set its expiry
+   */
+  async save(roomId: string, file: EphemeralFileDto): Promise<void> {
+    const client = await this.getClient();
+    const expiresAtMs = new Date(file.expiresAt).getTime();
+
+    await client
+      .multi()
+      .set(this.fileKey(roomId, file.id), JSON.stringify(file))
+      .pExpireAt(this.fileKey(roomId, file.id), expiresAtMs + RECORD_GRACE_SECONDS * 1000)
+      .set(this.expiryKey(roomId, file.id), '1')
+      .pExpireAt(this.expiryKey(roomId, file.id), expiresAtMs)
+      .sAdd(this.indexKey(roomId), file.id)
+      .sAdd(getKey('ephemeral:rooms'), roomId)
+      .exec();
+  }
+
+  /**
+   * Get a single file, or null if it does not exist or has expired
+   */
+  async get(roomId: string, fileId: string): Promise<EphemeralFileDto | null> {
+    const client = await this.getClient();
+    const [raw, live] = await Promise.all([
+      client.get(this.fileKey(roomId, fileId)),
+      client.exists(this.expiryKey(roomId, fileId))
+    ]);
+
+    if (!raw || live !== 1) {
+      return null;
+    }
+
+    return this.parse(raw);
+  }
+
+  /**
+   * List all unexpired files in a room
+   */
+  async list(roomId: string): Promise<EphemeralFileDto[]> {
+    const client = await this.getClient();
+    const fileIds: string[] = await client.sMembers(this.indexKey(roomId));
+
+    if (fileIds.length === 0) {
+      return [];
+    }
+
+    const records: Array<string | null> = await client.mGet(fileIds.map(id => this.fileKey(roomId, id)));
+    const now = Date.now();
+
+    return records
+      .filter((raw): raw is string => !!raw)
+      .map(raw => this.parse(raw))
+      .filter(file => file.expiresAt.getTime() > now);
+  }
+
+  /**
+   * Remove a file. Returns false if it was already gone, so that concurrent
+   * callers (e.g. several instances handling the same expiry) act only once.
+   */
+  async remove(roomId: string, fileId: string): Promise<boolean> {
+    const client = await this.getClient();
+    const [deleted] = await client
+      .multi()
+      .del(this.fileKey(roomId, fileId))
+      .del(this.expiryKey(roomId, fileId))
+      .sRem(this.indexKey(roomId), fileId)
+      .exec();
+
+    return Number(deleted) === 1;
+  }
+
+  /**
+   * Remove every file in a room
+   */
+  async clearRoom(roomId: string): Promise<void> {
+    const client = await this.getClient();
+    const fileIds: string[] = await client.sMembers(this.indexKey(roomId));
+    const keys = fileIds.flatMap(id => [this.fileKey(roomId, id), this.expiryKey(roomId, id)]);
+
+    await client.del([...keys, this.indexKey(roomId)]);
+    await client.sRem(getKey('ephemeral:rooms'), roomId);
+  }
+
+  /**
+   * Subscribe to expiry events. The handler runs on whichever instance
+   * removes the record first.
+   */
+  async subscribeToExpirations(handler: EphemeralFileExpiredHandler): Promise<void> {
+    if (this.subscriber) {
+      return;
+    }
+
+    const client = await this.getClient();
+
+    try {
+      // Expired-key events are off by default; managed Redis may reject CONFIG
+      await client.configSet('notify-keyspace-events', 'Ex');
+    } catch (error: any) {
+      this.logger.warn('Could not enable Redis keyspace notifications, relying on periodic sweep', {
+        error: error.message
+      });
+    }
+
+    this.subscriber = client.duplicate();
+    this.subscriber.on('error', (err: any) => {
+      this.logger.error('Redis subscriber error', { error: err.message });
+    });
+    await this.subscriber.connect();
+
+    const expiryPattern = new RegExp(
+      `^${this.escape(env.REDIS_PREFIX)}ephemeral:([^:]+):expiry:([^:]+)$`
+    );
+
+    await this.subscriber.pSubscribe('__keyevent@*__:expired', (key: string) => {
+      const match = expiryPattern.exec(key);
+      if (match) {
+        this.expire(match[1], match[2], handler);
+      }
+    });
+
+    this.logger.info('Subscribed to ephemeral file expirations');
+  }
+
+  /**
+   * Find files whose expiry marker is gone but whose record remains, e.g.
+   * because a keyspace notification was missed while no instance was listening.
+   */
+  async sweepExpired(handler: EphemeralFileExpiredHandler): Promise<number> {
+    const client = await this.getClient();
+    const roomIds: string[] = await client.sMembers(getKey('ephemeral:rooms'));
+    let expired = 0;
+
+    for (const roomId of roomIds) {
+      const fileIds: string[] = await client.sMembers(this.indexKey(roomId));
+
+      if (fileIds.length === 0) {
+        await client.sRem(getKey('ephemeral:rooms'), roomId);
+        continue;
+      }
+
+      for (const fileId of fileIds) {
+        const live = await client.exists(this.expiryKey(roomId, fileId));
+        if (live !== 1 && await this.expire(roomId, fileId, handler)) {
+          expired++;
+        }
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Close the keyspace subscriber
+   */
+  async close(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = null;
+    }
+  }
+
+  private async expire(roomId: string, fileId: string, handler: EphemeralFileExpiredHandler): Promise<boolean> {
+    try {
+      const client = await this.getClient();
+      const raw = await client.get(this.fileKey(roomId, fileId));
+
+      // Only the instance that actually deletes the record runs the handler
+      const removed = await this.remove(roomId, fileId);
+      if (!removed || !raw) {
+        return false;
+      }
+
+      await handler(roomId, this.parse(raw));
+      return true;
+    } catch (error: any) {
+      this.logger.error('Error handling ephemeral file expiration', {
+        roomId,
+        fileId,
+        error: error.message
+      });
+      return false;
+    }
+  }
+
+  private async getClient(): Promise<any> {
+    const client = getRedisClient();
+    if (!client.isOpen) {
+      await client.connect();
+    }
+    return client;
+  }
+
+  private parse(raw: string): EphemeralFileDto {
+    const file = JSON.parse(raw);
+    return {
+      ...file,
+      expiresAt: new Date(file.expiresAt)
+    };
+  }
+
+  private escape(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private indexKey(roomId: string): string {
+    return getKey(`ephemeral:${roomId}:index`);
+  }
+
+  private fileKey(roomId: string, fileId: string): string {
+    return getKey(`ephemeral:${roomId}:file:${fileId}`);
+  }
+
+  private expiryKey(roomId: string, fileId: string): string {
+    return getKey(`ephemeral:${roomId}:expiry:${fileId}`);
+  }
+}
@@ -9,6 +9,10 @@ import { ValidationError, ForbiddenError } from '../../utils/errors';
 import { v4 as uuidv4 } from 'uuid';
 import { WebSocketService } from '../websocket/websocket.service';
 import { ActivityService, CreateActivityDto } from '../activity/activity.service';
+import { EphemeralFileStore } from './ephemeral-file.store';
+import { SubscriptionService } from '../subscription/subscription.service';
+import { GuestService } from '../guest/guest.service';
+import { UploadPolicyService } from '../file/upload-policy.service';
 
 export interface CreateRoomDto {
   name: string;
@@ -61,14 +65,17 @@ export interface RoomParticipantStatus {
 
 @injectable()
 export class RoomService {
-  private ephemeralFiles: Map<string, Map<string, EphemeralFileDto>> = new Map(); // roomId -> Map of fileId -> file
   private participantStatus: Map<string, Map<string, RoomParticipantStatus>> = new Map(); // roomId -> Map of userId -> status
 
   constructor(
     @inject('DrizzleClient') private db: DrizzleClient,
     @inject('Logger') private logger: Logger,
     @inject('WebSocketService') private wsService: WebSocketService,
-    @inject('ActivityService') private activityService: ActivityService
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('EphemeralFileStore') private ephemeralFiles: EphemeralFileStore,
+    @inject('SubscriptionService') private subscriptionService: SubscriptionService,
+    @inject('GuestService') private guestService: GuestService,
+    @inject('UploadPolicyService') private uploadPolicyService: UploadPolicyService
   ) {
     this.logger = logger.createChildLogger('RoomService');
     this.setupEphemeralFileCleanup();
@@ -79,6 +86,8 @@ export class RoomService {
    */
   async createRoom(data: CreateRoomDto) {
     try {
+      await this.subscriptionService.assertCanCreateRoom(data.companyId);
+
       const db = this.db.getInstance();
       const roomId = uuidv4();
 
@@ -104,14 +113,16 @@ export class RoomService {
         invitedById: null
       });
 
+      // Guest-level rooms are open to the company's guests
+      if (data.accessLevel === 'guests') {
+        await this.guestService.grantGuestRoomAccess(roomId, data.companyId, data.createdById);
+      }
+
       const [room] = await db
         .select()
         .from(rooms)
         .where(eq(rooms.id, roomId));
 
-      // Initialize ephemeral file storage for this room
-      this.ephemeralFiles.set(roomId, new Map());
-      
       // Initialize participant status tracking for this room
       this.participantStatus.set(roomId, new Map());
 
@@ -362,6 +373,15 @@ export class RoomService {
         .from(rooms)
         .where(eq(rooms.id, id));
 
+      // Keep guest access in line with the room's access level
+      if (data.accessLevel && data.accessLevel !== currentRoom.accessLevel) {
+        if (data.accessLevel === 'guests') {
+          await this.guestService.grantGuestRoomAccess(id, room.companyId, userId);
+        } else if (currentRoom.accessLevel === 'guests') {
+          await this.guestService.revokeGuestRoomAccess(id, room.companyId);
+        }
+      }
+
       // Notify room members of update
       this.wsService.broadcastToRoom(id, 'room:updated', {
         roomId: id,
@@ -427,6 +447,9 @@ export class RoomService {
       // Delete room
       await db.delete(rooms).where(eq(rooms.id, id));
 
+      // Drop any ephemeral files still shared in the room
+      await this.ephemeralFiles.clearRoom(id);
+
       // Notify room members
       this.wsService.broadcastToRoom(id, 'room:deleted', { roomId: id });
 
@@ -673,13 +696,8 @@ export class RoomService {
         expiresAt
       };
 
-      // Initialize room's ephemeral files if not already
-      if (!this.ephemeralFiles.has(roomId)) {
-        this.ephemeralFiles.set(roomId, new Map());
-      }
-
-      // Store file
-      this.ephemeralFiles.get(roomId)!.set(file.id, ephemeralFile);
+      // Store file; Redis expires it, so no local timer is needed
+      await this.ephemeralFiles.save(roomId, ephemeralFile);
 
       // Notify room members
       this.wsService.broadcastToRoom(roomId, 'room:ephemeral_file_added', {
@@ -700,11 +718,6 @@ export class RoomService {
         }
       });
 
-      // Schedule automatic cleanup
-      setTimeout(() => {
-        this.removeExpiredEphemeralFile(roomId, file.id);
-      }, expiresAt.getTime() - Date.now());
-
       this.logger.info('Ephemeral file registered', {
         roomId,
         fileId: file.id,
@@ -729,15 +742,13 @@ export class RoomService {
   async extendEphemeralFileExpiration(roomId: string, fileId: string, userId: string, additionalMinutes: number = 60): Promise<EphemeralFileDto | null> {
     try {
       // Check if room and file exist
-      if (!this.ephemeralFiles.has(roomId) || !this.ephemeralFiles.get(roomId)!.has(fileId)) {
+      const file = await this.ephemeralFiles.get(roomId, fileId);
+      if (!file) {
         throw new ValidationError('Ephemeral file not found');
       }
 
       // Check if user has access
       await this.checkAccess(roomId, userId, 'write');
-
-      // Get the file
-      const file = this.ephemeralFiles.get(roomId)!.get(fileId)!;
       
       // Only allow extension if owner or admin
       if (file.ownerId !== userId) {
@@ -757,7 +768,7 @@ export class RoomService {
       };
       
       // Save updated file
-      this.ephemeralFiles.get(roomId)!.set(fileId, updatedFile);
+      await this.ephemeralFiles.save(roomId, updatedFile);
       
       // Notify room members
       this.wsService.broadcastToRoom(roomId, 'room:ephemeral_file_updated', {
@@ -785,19 +796,12 @@ export class RoomService {
   }
 
   /**
-   * Automatically remove an expired ephemeral file
+   * Handle an expired ephemeral file. The store has already removed it.
    */
-  private async removeExpiredEphemeralFile(roomId: string, fileId: string): Promise<void> {
+  private async removeExpiredEphemeralFile(roomId: string, file: EphemeralFileDto): Promise<void> {
+    const fileId = file.id;
+
     try {
-      if (!this.ephemeralFiles.has(roomId) || !this.ephemeralFiles.get(roomId)!.has(fileId)) {
-        return; // Already removed
-      }
-      
-      const file = this.ephemeralFiles.get(roomId)!.get(fileId)!;
-      
-      // Remove file
-      this.ephemeralFiles.get(roomId)!.delete(fileId);
-      
       // Notify room members
       this.wsService.broadcastToRoom(roomId, 'room:ephemeral_file_expired', {
         roomId,
@@ -864,11 +868,7 @@ export class RoomService {
       await this.checkAccess(roomId, userId, 'read');
       
       // Get ephemeral files
-      if (!this.ephemeralFiles.has(roomId)) {
-        return [];
-      }
-      
-      return Array.from(this.ephemeralFiles.get(roomId)!.values());
+      return await this.ephemeralFiles.list(roomId);
     } catch (error: any) {
       this.logger.error('Failed to get ephemeral files', {
         roomId,
@@ -1051,39 +1051,25 @@ export class RoomService {
   }
   
   /**
-   * Set up periodic cleanup of expired ephemeral files
+   * Set up cleanup of expired ephemeral files
    */
   private setupEphemeralFileCleanup(): void {
-    // Run cleanup every hour
-    setInterval(() => {
+    const onExpired = this.removeExpiredEphemeralFile.bind(this);
+
+    // Expiry is driven by Redis keyspace notifications
+    this.ephemeralFiles.subscribeToExpirations(onExpired).catch((error: any) => {
+      this.logger.error('Failed to subscribe to ephemeral file expirations', {
+        error: error.message
+      });
+    });
+
+    // Sweep every hour for expirations missed while no instance was listening
+    setInterval(async () => {
       try {
-        const now = new Date();
-        
-        // Check all rooms
-        for (const [roomId, files] of this.ephemeralFiles.entries()) {
-          // Find expired files
-          const expiredFiles: string[] = [];
-          for (const [fileId, file] of files.entries()) {
-            if (file.expiresAt < now) {
-              expiredFiles.push(fileId);
-            }
-          }
-          
-          // Remove expired files
-          for (const fileId of expiredFiles) {
-            files.delete(fileId);
-            
-            // Notify room
-            this.wsService.broadcastToRoom(roomId, 'room:file_expired', {
-              roomId,
-              fileId
-            });
-            
-            this.logger.info('Ephemeral file expired and removed', { 
-              roomId, 
-              fileId 
-            });
-          }
+        const expired = await this.ephemeralFiles.sweepExpired(onExpired);
+
+        if (expired > 0) {
+          this.logger.info('Swept expired ephemeral files', { count: expired });
         }
       } catch (error: any) {
         this.logger.error('Error cleaning up ephemeral files', { 
@@ -1099,15 +1085,13 @@ export class RoomService {
   async removeEphemeralFile(roomId: string, fileId: string, userId: string): Promise<boolean> {
     try {
       // Check if room and file exist
-      if (!this.ephemeralFiles.has(roomId) || !this.ephemeralFiles.get(roomId)!.has(fileId)) {
+      const file = await this.ephemeralFiles.get(roomId, fileId);
+      if (!file) {
         return false;
       }
 
       // Check if user has access to room
       await this.checkAccess(roomId, userId, 'read');
-
-      // Get the file to check if owner or admin
-      const file = this.ephemeralFiles.get(roomId)!.get(fileId)!;
       
       // Only allow removal if owner or admin
       if (file.ownerId !== userId) {
@@ -1118,7 +1102,10 @@ export class RoomService {
       }
 
       // Remove file
-      this.ephemeralFiles.get(roomId)!.delete(fileId);
+      const removed = await this.ephemeralFiles.remove(roomId, fileId);
+      if (!removed) {
+        return false; // Expired or removed by someone else meanwhile
+      }
       
       // Notify room members
       this.wsService.broadcastToRoom(roomId, 'room:ephemeral_file_removed', {
@@ -1253,6 +1240,15 @@ export class RoomService {
         }
       }
       
+      await this.uploadPolicyService.assertUploadAllowed({
+        roomId,
+        userId,
+        fileName: file.filename,
+        size: file.size,
+        mimeType: file.contentType,
+        content: file.buffer
+      });
+      
       // Generate IDs
       const fileId = uuidv4();
       const transferId = uuidv4();
@@ -0,0 +1,97 @@
+// src/services/search/_tests_/search.service.test.ts
+import { SearchService } from '../search.service';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../../utils/errors';
+import { createTestLogger, InMemorySearchRepository } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: {} }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/search.repository', () => ({ SearchRepository: class {} }));
+jest.mock('../../file/file.service', () => ({ FileService: class {} }));
+
+const logger = createTestLogger();
+
+describe('SearchService', () => {
+  let repository: InMemorySearchRepository;
+  let fileService: { searchFiles: jest.Mock };
+  let service: SearchService;
+
+  beforeEach(() => {
+    repository = new InMemorySearchRepository();
+    fileService = { searchFiles: jest.fn().mockResolvedValue({ success: true, data: { files: [] } }) };
+    service = new SearchService(repository as any, fileService as any, logger);
+  });
+
+  it('should store the room and filters without paging', async () => {
+    const saved = await service.saveSearch('user-1', {
+      name: '  Reports  ',
+      roomId: 'room-1',
+      params: { query: 'report', page: 3, limit: 10 }
+    });
+
+    expect(saved).toMatchObject({ name: 'Reports', roomId: 'room-1', params: { query: 'report' } });
+    expect(saved.params).not.toHaveProperty('page');
+    expect(JSON.parse(repository.saved[0].searchParams)).toEqual({ roomId: 'room-1', query: 'report' });
+  });
+
+  it('should reject a search without a name or room', async () => {
+    await expect(service.saveSearch('user-1', { name: ' ', roomId: 'room-1' })).rejects.toThrow(ValidationError);
+    await expect(service.saveSearch('user-1', { name: 'x', roomId: '' })).rejects.toThrow(ValidationError);
+  });
+
+  it('should keep a single default search per user', async () => {
+    const first = await service.saveSearch('user-1', { name: 'First', roomId: 'room-1', isDefault: true });
+    const second = await service.saveSearch('user-1', { name: 'Second', roomId: 'room-1', isDefault: true });
+
+    expect(repository.saved.map(s => [s.id, s.isDefault])).toEqual([[first.id, false], [second.id, true]]);
+
+    await service.setDefaultSavedSearch(first.id, 'user-1');
+    expect(repository.saved.map(s => [s.id, s.isDefault])).toEqual([[first.id, true], [second.id, false]]);
+  });
+
+  it('should run a saved search with its stored filters and the requested page', async () => {
+    const createdAfter = new Date('2026-01-01T00:00:00Z');
+    const saved = await service.saveSearch('user-1', {
+      name: 'Recent',
+      roomId: 'room-1',
+      params: { query: 'q', createdAfter }
+    });
+
+    await service.runSavedSearch(saved.id, 'user-1', { page: 2, limit: 5 });
+
+    expect(fileService.searchFiles).toHaveBeenCalledWith('room-1', 'user-1', {
+      query: 'q',
+      createdAfter,
+      page: 2,
+      limit: 5
+    });
+  });
+
+  it("should not let a user touch another user's saved search", async () => {
+    const saved = await service.saveSearch('owner', { name: 'Mine', roomId: 'room-1' });
+
+    await expect(service.runSavedSearch(saved.id, 'intruder')).rejects.toThrow(AuthorizationError);
+    await expect(service.renameSavedSearch(saved.id, 'intruder', 'Taken')).rejects.toThrow(AuthorizationError);
+    await expect(service.deleteSavedSearch(saved.id, 'intruder')).rejects.toThrow(AuthorizationError);
+
+    expect(fileService.searchFiles).not.toHaveBeenCalled();
+    expect(repository.saved[0]).toMatchObject({ name: 'Mine' });
+  });
+
+  it('should report a missing saved search as not found', async () => {
+    await expect(service.runSavedSearch('missing', 'user-1')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should return recent searches with their room and parsed filters', async () => {
+    repository.history.push({
+      id: 'h-1',
+      userId: 'user-1',
+      searchType: 'files',
+      searchParams: JSON.stringify({ roomId: 'room-1', query: 'q', updatedBefore: '2026-02-01T00:00:00.000Z' })
+    });
+
+    const [recent] = await service.getRecentSearches('user-1', 500);
+
+    expect(recent.roomId).toBe('room-1');
+    expect(recent.params).toEqual({ query: 'q', updatedBefore: new Date('2026-02-01T00:00:00Z') });
+  });
+});
@@ -0,0 +1,190 @@
+// src/services/search/file-search-indexer.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { FileEntity, FileRepository } from '../../repositories/file.repository';
+import { RoomRepository } from '../../repositories/room.repository';
+import { SearchRepository } from '../../repositories/search.repository';
+import { TagRepository } from '../../repositories/tag.repository';
+
+// Rooms looked up per round of the backfill
+const BACKFILL_BATCH_SIZE = 50;
+
+/**
+ * Keeps the file search index in sync with the files table.
+ *
+ * Indexing is best effort: failures are logged and never surface to the
+ * file operation that triggered them. A room can be rebuilt with reindexRoom,
+ * and the worker backfills rooms with files missing from the index.
+ */
+@injectable()
+export class FileSearchIndexer {
+  constructor(
+    @inject('SearchRepository') private searchRepository: SearchRepository,
+    @inject('FileRepository') private fileRepository: FileRepository,
+    @inject('RoomRepository') private roomRepository: RoomRepository,
+    @inject('TagRepository') private tagRepository: TagRepository,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('FileSearchIndexer');
+  }
+
+  /**
+   * Index a file from its current state. Deleted files are removed from the index.
+   */
+  async indexFile(fileId: string): Promise<void> {
+    try {
+      const file = await this.fileRepository.findById(fileId);
+
+      if (!file || file.isDeleted) {
+        await this.searchRepository.deleteFileIndex([fileId]);
+        return;
+      }
+
+      await this.upsert(file, await this.roomRepository.findCompanyId(file.roomId));
+    } catch (error: any) {
+      this.logger.warn('Failed to index file', { fileId, error: error.message });
+    }
+  }
+
+  /**
+   * Index a file and, for folders, everything below it that is not deleted
+   */
+  async indexTree(fileId: string): Promise<void> {
+    try {
+      const file = await this.fileRepository.findById(fileId);
+
+      if (!file || file.isDeleted) {
+        await this.removeTree(fileId);
+        return;
+      }
+
+      const companyId = await this.roomRepository.findCompanyId(file.roomId);
+      await this.upsert(file, companyId);
+
+      if (file.fileType === 'folder') {
+        await this.indexChildren(file, companyId);
+      }
+    } catch (error: any) {
+      this.logger.warn('Failed to index file tree', { fileId, error: error.message });
+    }
+  }
+
+  /**
+   * Remove a file and, for folders, everything below it from the index
+   */
+  async removeTree(fileId: string): Promise<void> {
+    try {
+      const file = await this.fileRepository.findById(fileId);
+      const fileIds = [fileId];
+
+      if (file && file.fileType === 'folder') {
+        fileIds.push(...await this.collectDescendantIds(file));
+      }
+
+      await this.searchRepository.deleteFileIndex(fileIds);
+    } catch (error: any) {
+      this.logger.warn('Failed to remove file from search index', { fileId, error: error.message });
+    }
+  }
+
+  /**
+   * Rebuild the index for every file in a room
+   */
+  async reindexRoom(roomId: string): Promise<number> {
+    const companyId = await this.roomRepository.findCompanyId(roomId);
+    const roomFiles = await this.fileRepository.findByRoomId(roomId, { includeDeleted: true });
+
+    const deleted = roomFiles.filter(file => file.isDeleted).map(file => file.id);
+    await this.searchRepository.deleteFileIndex(deleted);
+
+    let indexed = 0;
+    for (const file of roomFiles) {
+      if (!file.isDeleted) {
+        await this.upsert(file, companyId);
+        indexed++;
+      }
+    }
+
+    this.logger.info('Room reindexed', { roomId, indexed, removed: deleted.length });
+    return indexed;
+  }
+
+  /**
+   * Reindex every room that has files missing from the index. Each room is
+   * tried once per run, so a room that keeps failing cannot stall the rest.
+   */
+  async backfill(): Promise<number> {
+    const attempted = new Set<string>();
+    let reindexed = 0;
+
+    while (true) {
+      const roomIds = (await this.searchRepository.findRoomsWithUnindexedFiles(attempted.size + BACKFILL_BATCH_SIZE))
+        .filter(roomId => !attempted.has(roomId));
+
+      if (roomIds.length === 0) {
+        break;
+      }
+
+      for (const roomId of roomIds) {
+        attempted.add(roomId);
+        try {
+          await this.reindexRoom(roomId);
+          reindexed++;
+        } catch (error: any) {
+          this.logger.error('Failed to backfill room search index', { roomId, error: error.message });
+        }
+      }
+    }
+
+    if (reindexed > 0) {
+      this.logger.info('Search index backfilled', { rooms: reindexed });
+    }
+    return reindexed;
+  }
+
+  private async indexChildren(folder: FileEntity, companyId: string | null): Promise<void> {
+    const children = await this.fileRepository.findByRoomId(folder.roomId, {
+      parentId: folder.id,
+      includeDeleted: false
+    });
+
+    for (const child of children) {
+      await this.upsert(child, companyId);
+      if (child.fileType === 'folder') {
+        await this.indexChildren(child, companyId);
+      }
+    }
+  }
+
+  private async collectDescendantIds(folder: FileEntity): Promise<string[]> {
+    const children = await this.fileRepository.findByRoomId(folder.roomId, {
+      parentId: folder.id,
+      includeDeleted: true
+    });
+
+    const ids: string[] = [];
+    for (const child of children) {
+      ids.push(child.id);
+      if (child.fileType === 'folder') {
+        ids.push(...await this.collectDescendantIds(child));
+      }
+    }
+    return ids;
+  }
+
+  private async upsert(file: FileEntity, companyId: string | null): Promise<void> {
+    const fileTags = await this.tagRepository.findByFileId(file.id);
+
+    await this.searchRepository.upsertFileIndex({
+      fileId: file.id,
+      fileName: file.name,
+      mimeType: file.mimeType || null,
+      fileSize: file.size,
+      createdById: file.uploadedById,
+      companyId,
+      roomId: file.roomId,
+      tags: fileTags.length > 0 ? JSON.stringify(fileTags.map(tag => tag.name)) : null,
+      updatedAt: file.updatedAt || new Date()
+    });
+  }
+}
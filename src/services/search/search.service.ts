@@ -0,0 +1,235 @@
+// src/services/search/search.service.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { AppError, AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+import { SearchRepository, SavedSearch, SearchHistoryEntry } from '../../repositories/search.repository';
+import { FileService, FileSearchParams } from '../file/file.service';
+
+// Saved searches currently only cover file searches within a room
+const FILE_SEARCH_TYPE = 'files';
+
+const DATE_PARAMS = ['createdBefore', 'createdAfter', 'updatedBefore', 'updatedAfter'] as const;
+
+/**
+ * Saved search as returned to clients, with its parameters parsed
+ */
+export interface SavedSearchView extends Omit<SavedSearch, 'searchParams'> {
+  roomId: string;
+  params: FileSearchParams;
+}
+
+/**
+ * Search history entry as returned to clients, with its parameters parsed
+ */
+export interface RecentSearchView extends Omit<SearchHistoryEntry, 'searchParams'> {
+  roomId?: string;
+  params: FileSearchParams;
+}
+
+@injectable()
+export class SearchService {
+  constructor(
+    @inject('SearchRepository') private searchRepository: SearchRepository,
+    @inject('FileService') private fileService: FileService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('SearchService');
+  }
+
+  /**
+   * Save a file search for later re-use
+   */
+  async saveSearch(userId: string, data: {
+    name: string;
+    roomId: string;
+    params?: FileSearchParams;
+    isDefault?: boolean;
+  }): Promise<SavedSearchView> {
+    try {
+      const name = data.name?.trim();
+      if (!name) {
+        throw new ValidationError('Search name is required');
+      }
+      if (!data.roomId) {
+        throw new ValidationError('Room ID is required');
+      }
+
+      if (data.isDefault) {
+        await this.searchRepository.clearDefaultSavedSearch(userId, FILE_SEARCH_TYPE);
+      }
+
+      const search = await this.searchRepository.createSavedSearch({
+        userId,
+        name,
+        searchType: FILE_SEARCH_TYPE,
+        searchParams: { roomId: data.roomId, ...this.stripPaging(data.params || {}) },
+        isDefault: data.isDefault || false
+      });
+
+      return this.toSavedSearchView(search);
+    } catch (error: any) {
+      this.logger.error('Failed to save search', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * List the user's saved searches, default first
+   */
+  async listSavedSearches(userId: string): Promise<SavedSearchView[]> {
+    try {
+      const searches = await this.searchRepository.listSavedSearches(userId, FILE_SEARCH_TYPE);
+      return searches.map(search => this.toSavedSearchView(search));
+    } catch (error: any) {
+      this.logger.error('Failed to list saved searches', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a saved search
+   */
+  async renameSavedSearch(id: string, userId: string, name: string): Promise<SavedSearchView> {
+    try {
+      const trimmed = name?.trim();
+      if (!trimmed) {
+        throw new ValidationError('Search name is required');
+      }
+
+      await this.getOwnedSavedSearch(id, userId);
+      const updated = await this.searchRepository.updateSavedSearch(id, { name: trimmed });
+      if (!updated) {
+        throw new NotFoundError('Saved search', id);
+      }
+
+      return this.toSavedSearchView(updated);
+    } catch (error: any) {
+      this.logger.error('Failed to rename saved search', { id, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Make a saved search the user's default, replacing any previous default
+   */
+  async setDefaultSavedSearch(id: string, userId: string): Promise<SavedSearchView> {
+    try {
+      const search = await this.getOwnedSavedSearch(id, userId);
+
+      await this.searchRepository.clearDefaultSavedSearch(userId, search.searchType);
+      const updated = await this.searchRepository.updateSavedSearch(id, { isDefault: true });
+      if (!updated) {
+        throw new NotFoundError('Saved search', id);
+      }
+
+      return this.toSavedSearchView(updated);
+    } catch (error: any) {
+      this.logger.error('Failed to set default saved search', { id, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(id: string, userId: string): Promise<void> {
+    try {
+      await this.getOwnedSavedSearch(id, userId);
+      await this.searchRepository.deleteSavedSearch(id);
+    } catch (error: any) {
+      this.logger.error('Failed to delete saved search', { id, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Re-run a saved search. Paging can be overridden per run.
+   */
+  async runSavedSearch(id: string, userId: string, overrides: {
+    page?: number;
+    limit?: number;
+  } = {}): Promise<any> {
+    try {
+      const search = await this.getOwnedSavedSearch(id, userId);
+      const { roomId, params } = this.toSavedSearchView(search);
+
+      const result = await this.fileService.searchFiles(roomId, userId, {
+        ...params,
+        page: overrides.page,
+        limit: overrides.limit
+      });
+
+      if (!result.success) {
+        throw new AppError(result.message || 'Failed to run saved search', 500, 'SEARCH_FAILED', result.error);
+      }
+
+      return result.data;
+    } catch (error: any) {
+      this.logger.error('Failed to run saved search', { id, userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's most recent searches
+   */
+  async getRecentSearches(userId: string, limit: number = 20): Promise<RecentSearchView[]> {
+    try {
+      const entries = await this.searchRepository.listRecentSearches(userId, {
+        searchType: FILE_SEARCH_TYPE,
+        limit: Math.min(Math.max(limit, 1), 100)
+      });
+
+      return entries.map(entry => {
+        const { searchParams, ...rest } = entry;
+        const { roomId, ...params } = this.parseParams(searchParams);
+        return { ...rest, roomId, params };
+      });
+    } catch (error: any) {
+      this.logger.error('Failed to get recent searches', { userId, error });
+      throw error;
+    }
+  }
+
+  private async getOwnedSavedSearch(id: string, userId: string): Promise<SavedSearch> {
+    const search = await this.searchRepository.findSavedSearchById(id);
+    if (!search) {
+      throw new NotFoundError('Saved search', id);
+    }
+    if (search.userId !== userId) {
+      throw new AuthorizationError('You do not have access to this saved search');
+    }
+    return search;
+  }
+
+  private toSavedSearchView(search: SavedSearch): SavedSearchView {
+    const { searchParams, ...rest } = search;
+    const { roomId, ...params } = this.parseParams(searchParams);
+    return { ...rest, roomId, params };
+  }
+
+  /**
+   * Parse stored search parameters, turning date strings back into dates
+   */
+  private parseParams(raw: string): FileSearchParams & { roomId: string } {
+    let parsed: any = {};
+    try {
+      parsed = JSON.parse(raw) || {};
+    } catch (error: any) {
+      this.logger.warn('Invalid stored search parameters', { error: error.message });
+    }
+
+    for (const key of DATE_PARAMS) {
+      if (parsed[key]) {
+        parsed[key] = new Date(parsed[key]);
+      }
+    }
+
+    return parsed;
+  }
+
+  private stripPaging(params: FileSearchParams): FileSearchParams {
+    const { page, limit, ...rest } = params;
+    return rest;
+  }
+}
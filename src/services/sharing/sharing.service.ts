@@ -9,8 +9,12 @@ import { v4 as uuidv4 } from 'uuid';
 import { WebSocketService } from '../websocket/websocket.service';
 import { FileService } from '../file/file.service';
 import { ActivityService } from '../activity/activity.service';
+import { NotificationService } from '../notification/notification.service';
 import * as bcrypt from 'bcrypt';
 
+// Most addresses one share can be emailed to
+const MAX_SHARE_RECIPIENTS = 50;
+
 export interface CreateShareDto {
   fileId: string;
   createdById: string;
@@ -19,6 +23,9 @@ export interface CreateShareDto {
   maxDownloads?: number;
   password?: string;
   isPublic?: boolean;
+  // Email addresses to send the share link to
+  recipients?: string[];
+  message?: string;
 }
 
 export interface UpdateShareDto {
@@ -47,7 +54,8 @@ export class SharingService {
     @inject('Logger') private logger: Logger,
     @inject('WebSocketService') private wsService: WebSocketService,
     @inject('FileService') private fileService: FileService,
-    @inject('ActivityService') private activityService: ActivityService
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('NotificationService') private notificationService: NotificationService
   ) {
     this.logger = logger.createChildLogger('SharingService');
     
@@ -63,6 +71,14 @@ export class SharingService {
       const db = this.db.getInstance();
       const shareId = uuidv4();
 
+      const recipients = data.recipients || [];
+      if (!Array.isArray(recipients) || recipients.some(email => typeof email !== 'string' || !email.includes('@'))) {
+        throw new ValidationError('recipients must be a list of email addresses');
+      }
+      if (new Set(recipients.map(email => email.trim().toLowerCase())).size > MAX_SHARE_RECIPIENTS) {
+        throw new ValidationError(`A share can be emailed to at most ${MAX_SHARE_RECIPIENTS} recipients`);
+      }
+
       // Check if user has access to the file
       const hasAccess = await this.fileService.checkAccess(data.fileId, data.createdById, 'read');
       if (!hasAccess) {
@@ -107,6 +123,19 @@ export class SharingService {
         }
       });
 
+      if (recipients.length > 0) {
+        const file = await this.fileService.getFileById(data.fileId);
+        await this.notificationService.notifyShare({
+          sharedById: data.createdById,
+          fileName: file?.name || 'a file',
+          shareId,
+          roomId: file?.roomId || null,
+          recipients,
+          message: typeof data.message === 'string' ? data.message.slice(0, 1000) : undefined,
+          expiresAt: share.expiresAt
+        });
+      }
+
       this.logger.info('Share created', { shareId, fileId: data.fileId });
       return share;
     } catch (error: any) {
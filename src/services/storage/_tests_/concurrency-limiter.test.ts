@@ -0,0 +1,49 @@
+// src/services/storage/_tests_/concurrency-limiter.test.ts
+import { ConcurrencyLimiter } from '../concurrency-limiter';
+
+describe('ConcurrencyLimiter', () => {
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(done => { resolve = done; });
+    return { promise, resolve };
+  };
+
+  it('should run at most the limit of tasks at once, in arrival order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) => limiter.run(async () => {
+      started.push(index);
+      await gate.promise;
+      return index;
+    }));
+
+    await new Promise(process.nextTick);
+    expect(started).toEqual([0, 1]);
+    expect(limiter.pending).toBe(3);
+
+    gates[1].resolve();
+    await runs[1];
+    await new Promise(process.nextTick);
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[0].resolve();
+    gates[2].resolve();
+    await expect(Promise.all(runs)).resolves.toEqual([0, 1, 2]);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new ConcurrencyLimiter(0)).toThrow();
+    expect(() => new ConcurrencyLimiter(1.5)).toThrow();
+  });
+});
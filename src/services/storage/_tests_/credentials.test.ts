@@ -0,0 +1,48 @@
+// src/services/storage/_tests_/credentials.test.ts
+import { credentialProblems } from '../credentials';
+
+describe('credentialProblems', () => {
+  const storj = {
+    accessKey: 'access',
+    secretKey: 'secret',
+    bucket: 'files',
+    endpoint: 'https://gateway.storjshare.io'
+  };
+
+  it('should accept complete credentials for the new provider types', () => {
+    expect(credentialProblems('storj', storj)).toEqual([]);
+    expect(credentialProblems('s3_compatible', {
+      accessKeyId: 'id',
+      secretAccessKey: 'secret',
+      endpoint: 'http://minio.internal:9000',
+      bucket: 'files'
+    })).toEqual([]);
+    expect(credentialProblems('onedrive', { clientId: 'id', clientSecret: 'secret', refreshToken: 'token' })).toEqual([]);
+  });
+
+  it('should list missing fields and reject endpoints that are not http URLs', () => {
+    expect(credentialProblems('s3_compatible', {
+      accessKeyId: 'id',
+      secretAccessKey: ' ',
+      endpoint: 'minio.internal:9000',
+      bucket: 'files'
+    })).toEqual(['secretAccessKey is required', 'endpoint must be an http or https URL']);
+    expect(credentialProblems('onedrive', { clientId: 'id', clientSecret: 'secret' })).toEqual([
+      'refreshToken or tenantId is required'
+    ]);
+  });
+
+  it('should check vault accounts against the deployment backend', () => {
+    expect(credentialProblems('vault', storj, 'storj')).toEqual([]);
+    expect(credentialProblems('vault', storj, 'wasabi')).toEqual([
+      'accessKeyId is required',
+      'secretAccessKey is required',
+      'region is required'
+    ]);
+  });
+
+  it('should reject unknown types and non-object credentials', () => {
+    expect(credentialProblems('ftp', {})).toEqual(['Unsupported storage type: ftp']);
+    expect(credentialProblems('storj', 'secret')).toEqual(['Credentials must be an object']);
+  });
+});
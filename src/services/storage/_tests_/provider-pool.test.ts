@@ -0,0 +1,99 @@
+// src/services/storage/_tests_/provider-pool.test.ts
+import { PassThrough } from 'stream';
+import { StorageProviderPool } from '../provider-pool';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/storage-account.repository', () => ({ StorageAccountRepository: class {} }));
+jest.mock('../../../config/env', () => ({
+  env: { STORAGE_PROVIDER_MAX_CONCURRENCY: 1, STORAGE_PROVIDER_IDLE_MINUTES: 15 }
+}));
+
+const logger = createTestLogger();
+
+describe('StorageProviderPool', () => {
+  let pool: StorageProviderPool;
+  let stream: PassThrough;
+  let provider: any;
+  let repository: Record<string, jest.Mock>;
+  let factory: { createProvider: jest.Mock };
+
+  const settled = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    stream = new PassThrough();
+    provider = {
+      getFileStream: jest.fn().mockResolvedValue({ success: true, stream, contentLength: 5 }),
+      getFileMetadata: jest.fn().mockResolvedValue({ success: true }),
+      getCapabilities: jest.fn(),
+      onCredentialsChange: jest.fn()
+    };
+    repository = {
+      findById: jest.fn().mockResolvedValue({ id: 'storage-1', storageType: 's3' }),
+      getCredentials: jest.fn(),
+      saveCredentials: jest.fn().mockResolvedValue(undefined)
+    };
+    factory = { createProvider: jest.fn() };
+    pool = new StorageProviderPool(factory as any, repository as any, logger);
+    pool.replace('storage-1', 's3', { type: 's3' }, provider);
+  });
+
+  afterEach(() => {
+    pool.stop();
+  });
+
+  it('should hold the slot of a file stream until it has been read', async () => {
+    const pooled = await pool.acquire('storage-1');
+    const opened = await pooled.getFileStream('file-1');
+
+    let metadataDone = false;
+    const metadata = pooled.getFileMetadata('file-2').then(() => { metadataDone = true; });
+    await settled();
+    expect(metadataDone).toBe(false);
+    expect(pool.sweep(Date.now() + 60 * 60 * 1000)).toBe(0);
+
+    opened.stream!.resume();
+    stream.end('hello');
+    await metadata;
+    expect(provider.getFileMetadata).toHaveBeenCalledWith('file-2');
+  });
+
+  it('should free the slot when a file stream is destroyed before it ends', async () => {
+    const pooled = await pool.acquire('storage-1');
+    const opened = await pooled.getFileStream('file-1');
+
+    opened.stream!.destroy();
+
+    await expect(pooled.getFileMetadata('file-2')).resolves.toEqual({ success: true });
+  });
+
+  it('should save credentials a provider rotates and keep using that provider', async () => {
+    const rotated = { type: 's3', refreshToken: 'rotated' };
+    const [listener] = provider.onCredentialsChange.mock.calls[0];
+
+    await listener(rotated);
+    expect(repository.saveCredentials).toHaveBeenCalledWith('storage-1', rotated);
+
+    // The next credential check reads back what the provider saved
+    repository.getCredentials.mockResolvedValue({ credentials: rotated });
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60 * 1000);
+    try {
+      const pooled = await pool.acquire('storage-1');
+      await pooled.getFileMetadata('file-1');
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    expect(factory.createProvider).not.toHaveBeenCalled();
+    expect(provider.getFileMetadata).toHaveBeenCalledWith('file-1');
+  });
+
+  it('should free the slot when opening a file stream fails', async () => {
+    provider.getFileStream.mockResolvedValue({ success: false, message: 'Not found' });
+    const pooled = await pool.acquire('storage-1');
+
+    await pooled.getFileStream('missing');
+
+    await expect(pooled.getFileMetadata('file-2')).resolves.toEqual({ success: true });
+  });
+});
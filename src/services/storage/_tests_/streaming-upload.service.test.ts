@@ -0,0 +1,90 @@
+// src/services/storage/_tests_/streaming-upload.service.test.ts
+import axios from 'axios';
+import { Readable } from 'stream';
+import { StreamingUploadService } from '../streaming-upload.service';
+import { UploadRestrictionError } from '../../../utils/errors';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('axios', () => ({ put: jest.fn() }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../config/env', () => ({ env: { UPLOAD_PART_SIZE_MB: 5 } }));
+
+const logger = createTestLogger();
+
+const MB = 1024 * 1024;
+
+describe('StreamingUploadService', () => {
+  let provider: any;
+  let service: StreamingUploadService;
+
+  const pdf = () => Readable.from([Buffer.from('%PDF-1.7\n'), Buffer.alloc(MB)]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (axios.put as jest.Mock).mockResolvedValue({ headers: { etag: '"etag"' } });
+    provider = {
+      getCapabilities: () => ({
+        supportsMultipartUpload: true,
+        minimumPartSize: 5 * MB,
+        maximumPartSize: 100 * MB,
+        maximumPartCount: 10000
+      }),
+      getSignedUrl: jest.fn().mockResolvedValue({ success: true, url: 'https://storage.example.com/object' }),
+      createMultipartUpload: jest.fn().mockResolvedValue({ success: true, uploadId: 'provider-upload' }),
+      getSignedUrlForPart: jest.fn().mockResolvedValue({ success: true, url: 'https://storage.example.com/part' }),
+      completeMultipartUpload: jest.fn().mockResolvedValue({ success: true }),
+      abortMultipartUpload: jest.fn().mockResolvedValue({ success: true })
+    };
+    service = new StreamingUploadService(logger);
+  });
+
+  it('should inspect the first bytes before writing anything', async () => {
+    const inspect = jest.fn().mockRejectedValue(new UploadRestrictionError('FILE_TYPE_NOT_ALLOWED', 'Not allowed'));
+
+    await expect(service.upload(provider, 'rooms/room-1/report.pdf', pdf(), { contentType: 'application/pdf', inspect }))
+      .rejects.toMatchObject({ code: 'FILE_TYPE_NOT_ALLOWED' });
+
+    expect(inspect.mock.calls[0][0].toString('latin1')).toMatch(/^%PDF-1\.7/);
+    expect(provider.getSignedUrl).not.toHaveBeenCalled();
+    expect(axios.put).not.toHaveBeenCalled();
+  });
+
+  it('should stop an upload once it grows past its limit', async () => {
+    await expect(service.upload(provider, 'rooms/room-1/report.pdf', pdf(), { contentType: 'application/pdf', maxBytes: MB }))
+      .rejects.toMatchObject({ code: 'FILE_TOO_LARGE', details: { max: MB } });
+
+    expect(axios.put).not.toHaveBeenCalled();
+  });
+
+  it("should hand content to a provider's own upload method and keep the key it chose", async () => {
+    let received = 0;
+    provider.getCapabilities = () => ({ supportsMultipartUpload: false });
+    provider.uploadFile = jest.fn(async (_path: string, _name: string, content: Readable) => {
+      for await (const chunk of content) {
+        received += chunk.length;
+      }
+      return { success: true, fileId: 'drive-file-id' };
+    });
+
+    const result = await service.upload(provider, 'exports/activity/export.csv', pdf(), { contentType: 'text/csv' });
+
+    expect(provider.uploadFile).toHaveBeenCalledWith('exports/activity', 'export.csv', expect.anything(), {
+      contentType: 'text/csv',
+      contentLength: MB + 9
+    });
+    expect(received).toBe(MB + 9);
+    expect(result).toMatchObject({ key: 'drive-file-id', size: MB + 9 });
+    expect(provider.getSignedUrl).not.toHaveBeenCalled();
+  });
+
+  it('should abort a multipart upload when a part comes back without an ETag', async () => {
+    (axios.put as jest.Mock).mockResolvedValue({ headers: {} });
+    const source = Readable.from([Buffer.alloc(5 * MB), Buffer.alloc(MB)]);
+
+    await expect(service.upload(provider, 'rooms/room-1/video.mp4', source, { contentType: 'video/mp4' }))
+      .rejects.toThrow('no ETag for part 1');
+
+    expect(provider.abortMultipartUpload).toHaveBeenCalledWith('rooms/room-1/video.mp4', 'provider-upload');
+    expect(provider.completeMultipartUpload).not.toHaveBeenCalled();
+  });
+});
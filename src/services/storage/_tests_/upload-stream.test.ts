@@ -0,0 +1,73 @@
+// src/services/storage/_tests_/upload-stream.test.ts
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { UploadDigest, splitIntoParts, streamingPartSize } from '../upload-stream';
+
+describe('splitIntoParts', () => {
+  const collect = async (chunks: Array<Buffer | string>, partSize: number) => {
+    const parts: Buffer[] = [];
+    for await (const part of splitIntoParts(Readable.from(chunks), partSize)) {
+      parts.push(part);
+    }
+    return parts;
+  };
+
+  it('should regroup chunks into full parts followed by a shorter last part', async () => {
+    const parts = await collect([Buffer.from('abc'), Buffer.from('defghij'), 'kl'], 4);
+
+    expect(parts.map(part => part.toString())).toEqual(['abcd', 'efgh', 'ijkl']);
+  });
+
+  it('should yield a single short part for content smaller than a part', async () => {
+    const parts = await collect([Buffer.from('ab'), Buffer.from('c')], 8);
+
+    expect(parts.map(part => part.toString())).toEqual(['abc']);
+  });
+
+  it('should yield nothing for empty content', async () => {
+    expect(await collect([], 4)).toEqual([]);
+  });
+
+  it('should not read ahead of the part being consumed', async () => {
+    let read = 0;
+    async function* source() {
+      for (let i = 0; i < 10; i++) {
+        read++;
+        yield Buffer.alloc(2, i);
+      }
+    }
+
+    const parts = splitIntoParts(source(), 4);
+    await parts.next();
+
+    expect(read).toBe(2);
+  });
+});
+
+describe('UploadDigest', () => {
+  it('should compute checksums, length and leading bytes across chunks', () => {
+    const digest = new UploadDigest(5);
+    digest.update(Buffer.from('hel'));
+    digest.update(Buffer.from('lo world'));
+
+    const expected = (algorithm: string) => crypto.createHash(algorithm).update('hello world').digest('hex');
+    expect(digest.bytes).toBe(11);
+    expect(digest.head.toString()).toBe('hello');
+    expect(digest.checksums()).toEqual({ sha256: expected('sha256'), md5: expected('md5') });
+  });
+});
+
+describe('streamingPartSize', () => {
+  const s3 = { minimumPartSize: 5 * 1024 * 1024, maximumPartSize: 5 * 1024 * 1024 * 1024, maximumPartCount: 10000 };
+
+  it('should use the preferred size when the provider allows it', () => {
+    expect(streamingPartSize(s3, 8 * 1024 * 1024)).toBe(8 * 1024 * 1024);
+    expect(streamingPartSize(s3, 1024 * 1024)).toBe(5 * 1024 * 1024);
+  });
+
+  it('should grow parts so the largest allowed file fits in the part count', () => {
+    const maxBytes = 200 * 1024 * 1024 * 1024;
+
+    expect(streamingPartSize(s3, 8 * 1024 * 1024, maxBytes)).toBe(Math.ceil(maxBytes / 10000));
+  });
+});
@@ -1,5 +1,6 @@
 // src/services/storage/base-provider.ts
 import { injectable, inject } from 'inversify';
+import { Readable } from 'stream';
 import { Logger } from '../../utils/logger';
 import { 
   StorageProvider,
@@ -11,7 +12,9 @@ import {
   UploadOptions, 
   FileMetadata,
   StorageProviderCapabilities,
-  StorageStats
+  StorageStats,
+  ByteRange,
+  FileStreamResult
 } from './types';
 import { StorageError } from './errors';
 
@@ -23,6 +26,7 @@ export abstract class BaseStorageProvider implements StorageProvider {
   protected initialized: boolean = false;
   protected credentials: any;
   public readonly providerName: string;
+  private credentialsListener?: (credentials: any) => Promise<void>;
   
   constructor(
     @inject('Logger') protected logger: Logger,
@@ -46,7 +50,63 @@ export abstract class BaseStorageProvider implements StorageProvider {
   abstract abortMultipartUpload(key: string, uploadId: string): Promise<StorageOperationResult>;
   abstract getStorageStats(): Promise<StorageOperationResult & { stats?: StorageStats }>;
   abstract getFileContent(key: string, range?: { start: number; end: number }): Promise<StorageOperationResult & { data?: Buffer }>;
+
+  /**
+   * Upload content in one request through the provider's own API, for
+   * providers that do not accept uploads to signed URLs. The file may be
+   * stored under an id of the provider's choosing, returned as fileId.
+   */
+  uploadFile?(
+    path: string,
+    fileName: string,
+    content: Buffer | Readable,
+    options?: UploadOptions
+  ): Promise<StorageOperationResult & { fileId?: string }>;
+
+  /**
+   * Open a file's content, or a range of it, as a stream. Providers that can
+   * read from storage as the stream is consumed override this; the default
+   * reads the content into memory first.
+   */
+  async getFileStream(key: string, range?: ByteRange): Promise<FileStreamResult> {
+    const result = await this.getFileContent(key, range);
+
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        message: result.message || 'Failed to get file content',
+        error: result.error
+      };
+    }
+
+    return {
+      success: true,
+      stream: Readable.from([result.data]),
+      contentLength: result.data.length
+    };
+  }
   
+  /**
+   * Be told when the provider changes its own credentials, e.g. when an OAuth
+   * refresh token is rotated, so they can be saved
+   */
+  onCredentialsChange(listener: (credentials: any) => Promise<void>): void {
+    this.credentialsListener = listener;
+  }
+
+  /**
+   * Record credentials the provider changed itself. A failure to save them
+   * is logged rather than failing the call that caused the change.
+   */
+  protected async credentialsChanged(credentials: any): Promise<void> {
+    this.credentials = credentials;
+    try {
+      await this.credentialsListener?.(credentials);
+    } catch (error) {
+      this.logger.error(`Failed to save updated ${this.providerName} credentials`, { error });
+    }
+  }
+
   /**
    * Validates that the provider is initialized
    * @throws Error if not initialized
@@ -0,0 +1,61 @@
+// src/services/storage/concurrency-limiter.ts
+
+/**
+ * Runs at most `limit` tasks at once; later tasks wait their turn in the
+ * order they arrived
+ */
+export class ConcurrencyLimiter {
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('Concurrency limit must be a positive integer');
+    }
+  }
+
+  /**
+   * Tasks running or waiting to run
+   */
+  get pending(): number {
+    return this.running + this.waiting.length;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Wait for a slot and hold it until the returned function is called, for
+   * work that outlives a single promise such as reading a stream. Calling
+   * it more than once has no further effect.
+   */
+  async acquire(): Promise<() => void> {
+    if (this.running >= this.limit) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = this.waiting.shift();
+      if (next) {
+        // The slot passes straight to the next task
+        next();
+      } else {
+        this.running--;
+      }
+    };
+  }
+}
@@ -70,12 +70,19 @@ export interface WasabiCredentials {
   export interface OneDriveCredentials {
     clientId: string;
     clientSecret: string;
-    tenantId: string;
-    refreshToken: string;
+    // Accounts connected through OAuth default to 'common', which accepts
+    // work and personal accounts
+    tenantId?: string;
+    // Set for accounts connected through OAuth; without it the app signs in
+    // as itself
+    refreshToken?: string;
     accessToken?: string;
     expiryDate?: number;
   }
   
+  // Delegated permissions requested for OneDrive accounts connected through OAuth
+  export const ONEDRIVE_SCOPES = ['offline_access', 'Files.ReadWrite'];
+  
   /**
    * Google Cloud Storage credentials
    */
@@ -99,4 +106,72 @@ export interface WasabiCredentials {
     bucket: string;
     region?: string;
     forcePathStyle?: boolean;
-  }
\ No newline at end of file
+  }
+
+/**
+ * Where vault accounts keep their files; chosen per deployment
+ */
+export type VaultBackend = 'wasabi' | 'storj';
+
+// Fields every account of a type needs. Vault accounts take the fields of
+// the deployment's backend.
+const REQUIRED_CREDENTIAL_FIELDS: Record<string, string[]> = {
+  wasabi: ['accessKeyId', 'secretAccessKey', 'region', 'endpoint', 'bucket'],
+  storj: ['accessKey', 'secretKey', 'bucket', 'endpoint'],
+  s3: ['accessKeyId', 'secretAccessKey', 'region', 'bucket'],
+  s3_compatible: ['accessKeyId', 'secretAccessKey', 'endpoint', 'bucket'],
+  google_drive: ['clientId', 'clientSecret', 'refreshToken'],
+  dropbox: ['accessToken', 'appKey', 'appSecret'],
+  onedrive: ['clientId', 'clientSecret'],
+  azure_blob: ['containerName'],
+  gcp_storage: ['projectId', 'bucket']
+};
+
+/**
+ * Check that credentials have the fields their storage type needs, without
+ * contacting the provider
+ * @returns What is wrong with the credentials; empty when they look usable
+ */
+export function credentialProblems(
+  storageType: string,
+  credentials: unknown,
+  vaultBackend: VaultBackend = 'wasabi'
+): string[] {
+  if (!credentials || typeof credentials !== 'object' || Array.isArray(credentials)) {
+    return ['Credentials must be an object'];
+  }
+
+  const kind = storageType === 'vault' || storageType === 'cloud' ? vaultBackend : storageType;
+  const required = REQUIRED_CREDENTIAL_FIELDS[kind];
+  if (!required) {
+    return [`Unsupported storage type: ${storageType}`];
+  }
+
+  const values = credentials as Record<string, unknown>;
+  const present = (field: string) => typeof values[field] === 'string' && (values[field] as string).trim() !== '';
+  const problems = required.filter(field => !present(field)).map(field => `${field} is required`);
+
+  if (present('endpoint') && !isHttpUrl(values.endpoint as string)) {
+    problems.push('endpoint must be an http or https URL');
+  }
+
+  if (kind === 'azure_blob' && !present('connectionString') && !(present('accountName') && present('accountKey'))) {
+    problems.push('connectionString, or accountName and accountKey, is required');
+  }
+
+  // Without a refresh token the app signs in as itself, which needs a tenant
+  if (kind === 'onedrive' && !present('refreshToken') && !present('tenantId')) {
+    problems.push('refreshToken or tenantId is required');
+  }
+
+  return problems;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
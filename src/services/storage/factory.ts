@@ -2,107 +2,74 @@
 import { injectable, inject } from 'inversify';
 import { Logger } from '../../utils/logger';
 import { StorageProviderFactory, StorageProviderType, StorageProvider, StorageCredentials } from './types';
-import { GoogleDriveStorageProvider } from './providers/google-drive-provider';
-import { DropboxStorageProvider } from './providers/dropbox-provider';
-import { S3StorageProvider } from './providers/s3-provider';
-import { WasabiStorageProvider } from './providers/wasabi-provider';
-import { GcpStorageProvider } from './providers/gcp-storage-provider';
-import { AzureBlobStorageProvider } from './providers/azure-blob-provider';
+
+/**
+ * A provider class; every provider takes only a logger
+ */
+export type StorageProviderClass = new (logger: Logger) => StorageProvider;
 
 @injectable()
 export class StorageProviderFactoryImpl implements StorageProviderFactory {
-  private providers: Map<string, StorageProvider> = new Map();
-  private availableTypes: StorageProviderType[] = [
-    'google_drive', 'dropbox', 's3', 'vault', 'cloud', 'gcp_storage', 'azure_blob'
-  ];
+  private providers: Map<string, StorageProviderClass> = new Map();
+  private logger: Logger;
 
   constructor(
-    @inject('Logger') private logger: Logger,
-    @inject('GoogleDriveStorageProvider') private googleDriveProvider: GoogleDriveStorageProvider,
-    @inject('DropboxStorageProvider') private dropboxProvider: DropboxStorageProvider,
-    @inject('S3StorageProvider') private s3Provider: S3StorageProvider,
-    @inject('WasabiStorageProvider') private wasabiProvider: WasabiStorageProvider,
-    @inject('GcpStorageProvider') private gcpStorageProvider: GcpStorageProvider,
-    @inject('AzureBlobStorageProvider') private azureBlobProvider: AzureBlobStorageProvider
+    // Providers get the root logger and name their own child loggers
+    @inject('Logger') private providerLogger: Logger
   ) {
-    this.logger = logger.createChildLogger('StorageProviderFactory');
+    this.logger = providerLogger.createChildLogger('StorageProviderFactory');
   }
 
   /**
-   * Create a storage provider instance
+   * Create a new storage provider instance. Instances are never shared, so
+   * each storage account gets its own client (see StorageProviderPool).
    * @param type Storage provider type
    * @param credentials Provider-specific credentials
    * @returns StorageProvider instance or null if type is not supported
    */
   createProvider(type: StorageProviderType, credentials?: StorageCredentials): StorageProvider | null {
     this.logger.debug(`Creating storage provider for type: ${type}`);
-    
-    let provider: StorageProvider | null = null;
-    
-    // Return provider from cache if it exists
-    if (this.providers.has(type)) {
-      return this.providers.get(type)!;
+
+    const ProviderClass = this.providers.get(type);
+    if (!ProviderClass) {
+      this.logger.warn(`No provider registered for storage type: ${type}`);
+      return null;
     }
 
-    switch (type) {
-      case 'google_drive':
-        provider = this.googleDriveProvider;
-        break;
-      case 'dropbox':
-        provider = this.dropboxProvider;
-        break;
-      case 's3':
-        provider = this.s3Provider;
-        break;
-      case 'vault':
-      case 'cloud':
-        provider = this.wasabiProvider;
-        break;
-      case 'gcp_storage':
-        provider = this.gcpStorageProvider;
-        break;
-      case 'azure_blob':
-        provider = this.azureBlobProvider;
-        break;
-      default:
-        this.logger.error(`Unknown storage provider type: ${type}`);
-        return null;
+    let provider: StorageProvider;
+    try {
+      provider = new ProviderClass(this.providerLogger);
+    } catch (error) {
+      this.logger.error(`Error creating provider ${type}`, { error });
+      return null;
     }
 
-    // Initialize provider if credentials provided
-    if (credentials && provider) {
-      try {
-        // Initialize provider asynchronously
-        // Note: The caller will need to await the initialization
-        provider.initialize(credentials);
-      } catch (error) {
+    // Start initializing if credentials were given. Callers that need to know
+    // the outcome should call initialize themselves and await it.
+    if (credentials) {
+      provider.initialize(credentials).catch(error => {
         this.logger.error(`Failed to initialize storage provider ${type}`, { error });
-        return null;
-      }
+      });
     }
 
-    // Cache the provider
-    this.providers.set(type, provider);
-    
     return provider;
   }
-  
+
   /**
    * Get available provider types
    * @returns List of supported provider types
    */
   getAvailableProviders(): StorageProviderType[] {
-    // Return the predefined available types rather than keys from the map
-    return this.availableTypes;
+    return Array.from(this.providers.keys()) as StorageProviderType[];
   }
-  
+
   /**
-   * Register a provider instance
+   * Register the provider class used for a storage type
    * @param type Provider type
-   * @param provider Provider instance
+   * @param providerClass Provider class
    */
-  registerProvider(type: StorageProviderType, provider: StorageProvider): void {
-    this.providers.set(type, provider);
+  registerProvider(type: StorageProviderType, providerClass: StorageProviderClass): void {
+    this.providers.set(type, providerClass);
     this.logger.info(`Registered provider for type: ${type}`);
   }
-}
\ No newline at end of file
+}
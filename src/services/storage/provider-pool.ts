@@ -0,0 +1,310 @@
+// src/services/storage/provider-pool.ts
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { finished } from 'stream';
+import { Logger } from '../../utils/logger';
+import { StorageProviderFactory, StorageProvider, StorageCredentials } from './types';
+import { StorageAccountRepository } from '../../repositories/storage-account.repository';
+import { StorageError, StorageProviderError, StorageAuthError } from './errors';
+import { ConcurrencyLimiter } from './concurrency-limiter';
+import { env } from '../../config/env';
+
+// How long a pooled provider is trusted before its credentials are compared
+// with the stored ones again, which catches changes made by other instances
+const CREDENTIAL_CHECK_MS = 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Provider methods that skip the limiter: getCapabilities and
+// onCredentialsChange do no I/O, and initialize is only called by the pool itself
+const UNLIMITED_METHODS = new Set<PropertyKey>(['getCapabilities', 'onCredentialsChange', 'initialize', 'constructor']);
+
+interface PoolEntry {
+  storageType: string;
+  credentialsKey: string;
+  // The provider as handed out: calls go through the account's limiter
+  provider: StorageProvider;
+  limiter: ConcurrencyLimiter;
+  lastUsedAt: number;
+  checkedAt: number;
+}
+
+/**
+ * One initialized provider per storage account, so companies with accounts of
+ * the same type never share a client. Providers are created on first use,
+ * recreated when the account's credentials change, dropped when idle, and
+ * limited to a number of concurrent calls per account.
+ */
+@injectable()
+export class StorageProviderPool {
+  private entries: Map<string, PoolEntry> = new Map();
+  // Providers being created, so concurrent first calls share one
+  private loading: Map<string, Promise<PoolEntry>> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private readonly maxConcurrency = env.STORAGE_PROVIDER_MAX_CONCURRENCY;
+  private readonly idleMs = env.STORAGE_PROVIDER_IDLE_MINUTES * 60 * 1000;
+
+  constructor(
+    @inject('StorageProviderFactory') private providerFactory: StorageProviderFactory,
+    @inject('StorageAccountRepository') private storageAccountRepository: StorageAccountRepository,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('StorageProviderPool');
+  }
+
+  /**
+   * Get the provider for a storage account, creating it if needed
+   */
+  async acquire(storageId: string): Promise<StorageProvider> {
+    this.startSweeper();
+
+    const entry = this.entries.get(storageId);
+    if (entry && Date.now() - entry.checkedAt < CREDENTIAL_CHECK_MS) {
+      entry.lastUsedAt = Date.now();
+      return entry.provider;
+    }
+
+    let loading = this.loading.get(storageId);
+    if (!loading) {
+      loading = this.load(storageId, entry).finally(() => this.loading.delete(storageId));
+      this.loading.set(storageId, loading);
+    }
+
+    const loaded = await loading;
+    loaded.lastUsedAt = Date.now();
+    return loaded.provider;
+  }
+
+  /**
+   * Put a provider already initialized with an account's credentials in the
+   * pool, in place of any older one. Calls in flight finish on the old
+   * client; the account keeps its limiter so they still count against the
+   * limit.
+   */
+  replace(storageId: string, storageType: string, credentials: StorageCredentials, provider: StorageProvider): void {
+    const previous = this.entries.get(storageId);
+    const limiter = previous?.limiter || new ConcurrencyLimiter(this.maxConcurrency);
+
+    this.loading.delete(storageId);
+    const entry = this.createEntry(storageType, credentials, provider, limiter);
+    this.entries.set(storageId, entry);
+    this.saveCredentialChanges(storageId, storageType, provider, updated => {
+      entry.credentialsKey = this.credentialsKey(storageType, updated);
+    });
+
+    this.logger.info(previous ? 'Storage provider refreshed' : 'Storage provider added', { storageId, storageType });
+  }
+
+  /**
+   * Drop an account's provider; the next call creates a new one
+   */
+  evict(storageId: string): void {
+    this.loading.delete(storageId);
+    if (this.entries.delete(storageId)) {
+      this.logger.debug('Storage provider evicted', { storageId });
+    }
+  }
+
+  /**
+   * Drop providers that have been idle for longer than the idle timeout and
+   * have no calls in flight
+   */
+  sweep(now: number = Date.now()): number {
+    let evicted = 0;
+
+    for (const [storageId, entry] of this.entries) {
+      if (now - entry.lastUsedAt >= this.idleMs && entry.limiter.pending === 0) {
+        this.entries.delete(storageId);
+        evicted++;
+      }
+    }
+
+    if (evicted > 0) {
+      this.logger.debug('Idle storage providers evicted', { evicted, remaining: this.entries.size });
+    }
+    return evicted;
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    // Idle eviction alone should not keep the process running
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Create the provider for an account, or keep the current one when the
+   * stored credentials have not changed
+   */
+  private async load(storageId: string, current?: PoolEntry): Promise<PoolEntry> {
+    const storageAccount = await this.storageAccountRepository.findById(storageId);
+    if (!storageAccount) {
+      this.evict(storageId);
+      throw new StorageError(`Storage account not found: ${storageId}`);
+    }
+
+    const credentialData = await this.storageAccountRepository.getCredentials(storageId);
+    if (!credentialData) {
+      this.evict(storageId);
+      throw new StorageError(`Credentials not found for storage account: ${storageId}`);
+    }
+
+    const credentials = credentialData.credentials;
+    const credentialsKey = this.credentialsKey(storageAccount.storageType, credentials);
+
+    if (current && current.credentialsKey === credentialsKey && this.entries.get(storageId) === current) {
+      current.checkedAt = Date.now();
+      return current;
+    }
+
+    const provider = this.providerFactory.createProvider(storageAccount.storageType);
+    if (!provider) {
+      throw new StorageProviderError(
+        storageAccount.storageType,
+        'initialization',
+        { message: `Provider type not supported: ${storageAccount.storageType}` }
+      );
+    }
+
+    // Initializing may already refresh an OAuth token
+    let latestCredentials = credentials;
+    let entry: PoolEntry | null = null;
+    this.saveCredentialChanges(storageId, storageAccount.storageType, provider, updated => {
+      latestCredentials = updated;
+      if (entry) {
+        entry.credentialsKey = this.credentialsKey(storageAccount.storageType, updated);
+      }
+    });
+
+    let initResult;
+    try {
+      initResult = await provider.initialize(credentials);
+    } catch (error: any) {
+      this.logger.error(`Failed to initialize storage provider for account ${storageId}`, { error });
+      throw new StorageProviderError(storageAccount.storageType, 'initialization', error);
+    }
+
+    if (!initResult.success) {
+      throw new StorageAuthError(
+        storageAccount.storageType,
+        { message: initResult.message || 'Failed to initialize storage provider' }
+      );
+    }
+
+    const limiter = current?.limiter || new ConcurrencyLimiter(this.maxConcurrency);
+    entry = this.createEntry(storageAccount.storageType, latestCredentials, provider, limiter);
+    this.entries.set(storageId, entry);
+
+    this.logger.info(current ? 'Storage provider recreated after credential change' : 'Storage provider created', {
+      storageId,
+      storageType: storageAccount.storageType
+    });
+    return entry;
+  }
+
+  private createEntry(
+    storageType: string,
+    credentials: StorageCredentials,
+    provider: StorageProvider,
+    limiter: ConcurrencyLimiter
+  ): PoolEntry {
+    const now = Date.now();
+    return {
+      storageType,
+      credentialsKey: this.credentialsKey(storageType, credentials),
+      provider: this.limit(provider, limiter),
+      limiter,
+      lastUsedAt: now,
+      checkedAt: now
+    };
+  }
+
+  /**
+   * Save credentials a provider changes itself, e.g. a rotated OAuth refresh
+   * token, and keep the pool's digest of them current so the change is not
+   * taken for an edit made elsewhere
+   */
+  private saveCredentialChanges(
+    storageId: string,
+    storageType: string,
+    provider: StorageProvider,
+    onSaved: (credentials: StorageCredentials) => void
+  ): void {
+    provider.onCredentialsChange(async credentials => {
+      await this.storageAccountRepository.saveCredentials(storageId, credentials);
+      onSaved(credentials);
+      this.logger.debug('Storage credentials updated by provider', { storageId, storageType });
+    });
+  }
+
+  /**
+   * Wrap a provider so each of its calls waits for a slot in the limiter. A
+   * file stream keeps its slot until it ends, fails or is destroyed, since
+   * the provider is still serving it until then.
+   */
+  private limit(provider: StorageProvider, limiter: ConcurrencyLimiter): StorageProvider {
+    return new Proxy(provider, {
+      get(target, property, receiver) {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function' || UNLIMITED_METHODS.has(property)) {
+          return value;
+        }
+        if (property === 'getFileStream') {
+          return async (...args: unknown[]) => {
+            const release = await limiter.acquire();
+            try {
+              const result = await value.apply(target, args);
+              if (result?.success && result.stream) {
+                finished(result.stream, release);
+              } else {
+                release();
+              }
+              return result;
+            } catch (error) {
+              release();
+              throw error;
+            }
+          };
+        }
+        return (...args: unknown[]) => limiter.run(() => value.apply(target, args));
+      }
+    });
+  }
+
+  /**
+   * A digest of an account's type and credentials, so changed credentials can
+   * be spotted without keeping a second copy of them
+   */
+  private credentialsKey(storageType: string, credentials: StorageCredentials): string {
+    return crypto
+      .createHash('sha256')
+      .update(storageType)
+      .update(stableStringify(credentials))
+      .digest('hex');
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
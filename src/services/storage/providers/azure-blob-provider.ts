@@ -1,9 +1,10 @@
 // src/services/storage/providers/azure-blob-provider.ts
 import { BlobServiceClient, ContainerClient, StorageSharedKeyCredential, BlobClient, BlobSASPermissions } from '@azure/storage-blob';
 import { injectable, inject } from 'inversify';
+import { Readable } from 'stream';
 import { BaseStorageProvider } from '../base-provider';
 import { Logger } from '../../../utils/logger';
-import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats } from '../types';
+import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ByteRange, FileStreamResult } from '../types';
 import { AzureBlobCredentials } from '../credentials';
 import { StorageAuthError, StorageNotFoundError, StorageAccessError, StorageProviderError } from '../errors';
 
@@ -658,6 +659,40 @@ export class AzureBlobStorageProvider extends BaseStorageProvider {
       throw new StorageProviderError('Azure Blob Storage', 'getFileContent', error);
     }
   }
+
+  /**
+   * Stream file content straight from the container
+   */
+  async getFileStream(key: string, range?: ByteRange): Promise<FileStreamResult> {
+    try {
+      this.validateInitialized();
+      
+      const response = await this.containerClient!.getBlobClient(key).download(
+        range ? range.start : 0,
+        range ? (range.end - range.start + 1) : undefined
+      );
+      
+      if (!response.readableStreamBody) {
+        throw new Error('No readable stream in response');
+      }
+      
+      return {
+        success: true,
+        stream: response.readableStreamBody as Readable,
+        contentLength: response.contentLength,
+        contentType: response.contentType,
+        etag: response.etag
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to open file stream', { key, range, error });
+      
+      if (error.statusCode === 404) {
+        throw new StorageNotFoundError(key, error);
+      }
+      
+      throw new StorageProviderError('Azure Blob Storage', 'getFileStream', error);
+    }
+  }
   
   /**
    * Get provider capabilities
@@ -3,12 +3,15 @@ import { Dropbox } from 'dropbox';
 import { injectable, inject } from 'inversify';
 import { BaseStorageProvider } from '../base-provider';
 import { Logger } from '../../../utils/logger';
-import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ProgressCallback } from '../types';
+import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ProgressCallback, ByteRange, FileStreamResult } from '../types';
 import { DropboxCredentials } from '../credentials';
 import { StorageAuthError, StorageNotFoundError, StorageAccessError, StorageProviderError } from '../errors';
 import { Readable } from 'stream';
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
+import axios from 'axios';
+
+const DROPBOX_DOWNLOAD_URL = 'https://content.dropboxapi.com/2/files/download';
 
 @injectable()
 export class DropboxStorageProvider extends BaseStorageProvider {
@@ -28,6 +31,7 @@ export class DropboxStorageProvider extends BaseStorageProvider {
         clientId: credentials.appKey,
         clientSecret: credentials.appSecret
       });
+      this.credentials = credentials;
 
       // Test the connection
       await this.dropbox.checkUser({});
@@ -408,6 +412,48 @@ export class DropboxStorageProvider extends BaseStorageProvider {
     }
   }
 
+  /**
+   * Stream file content from Dropbox's content endpoint. The SDK buffers
+   * downloads and ignores ranges, so this calls the HTTP API directly.
+   */
+  async getFileStream(key: string, range?: ByteRange): Promise<FileStreamResult> {
+    try {
+      this.validateInitialized();
+      
+      // Header values must be ASCII, so escape the rest of the path
+      const apiArg = JSON.stringify({ path: key }).replace(
+        /[\u007f-\uffff]/g,
+        char => '\\u' + char.charCodeAt(0).toString(16).padStart(4, '0')
+      );
+      
+      const response = await axios.post(DROPBOX_DOWNLOAD_URL, undefined, {
+        headers: {
+          Authorization: `Bearer ${this.credentials.accessToken}`,
+          'Dropbox-API-Arg': apiArg,
+          ...(range && { Range: `bytes=${range.start}-${range.end}` })
+        },
+        responseType: 'stream'
+      });
+      
+      const contentLength = Number(response.headers['content-length']);
+      
+      return {
+        success: true,
+        stream: response.data as Readable,
+        contentLength: Number.isNaN(contentLength) ? undefined : contentLength,
+        etag: response.headers.etag
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to open file stream', { key, range, error });
+      
+      if (error.response?.status === 409) {
+        throw new StorageNotFoundError(key, error);
+      }
+      
+      throw new StorageProviderError('dropbox', 'getFileStream', error);
+    }
+  }
+
   /**
    * Register a webhook to receive file change notifications
    */
@@ -3,7 +3,7 @@ import { Storage, Bucket, File, GetFilesResponse } from '@google-cloud/storage';
 import { injectable, inject } from 'inversify';
 import { BaseStorageProvider } from '../base-provider';
 import { Logger } from '../../../utils/logger';
-import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats } from '../types';
+import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ByteRange, FileStreamResult } from '../types';
 import { GcpStorageCredentials } from '../credentials';
 import { StorageAuthError, StorageNotFoundError, StorageAccessError, StorageProviderError } from '../errors';
 
@@ -605,4 +605,35 @@ export class GcpStorageProvider extends BaseStorageProvider {
       throw new StorageProviderError('Google Cloud Storage', 'getFileContent', error);
     }
   }
+
+  /**
+   * Stream file content straight from the bucket
+   */
+  async getFileStream(key: string, range?: ByteRange): Promise<FileStreamResult> {
+    try {
+      this.validateInitialized();
+      
+      const file = this.bucket!.file(key);
+      
+      // Read stream errors only surface once reading starts, so look the file up first
+      const [metadata] = await file.getMetadata();
+      const stream = file.createReadStream(range ? { start: range.start, end: range.end } : {});
+      
+      return {
+        success: true,
+        stream,
+        contentLength: range ? range.end - range.start + 1 : Number(metadata.size),
+        contentType: metadata.contentType,
+        etag: metadata.etag
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to open file stream', { key, range, error });
+      
+      if (error.code === 404) {
+        throw new StorageNotFoundError(key, error);
+      }
+      
+      throw new StorageProviderError('Google Cloud Storage', 'getFileStream', error);
+    }
+  }
 }
\ No newline at end of file
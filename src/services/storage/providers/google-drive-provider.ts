@@ -3,7 +3,7 @@ import { google } from 'googleapis';
 import { injectable, inject } from 'inversify';
 import { BaseStorageProvider } from '../base-provider';
 import { Logger } from '../../../utils/logger';
-import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ProgressCallback } from '../types';
+import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ProgressCallback, ByteRange, FileStreamResult } from '../types';
 import { GoogleDriveCredentials } from '../credentials';
 import { StorageAuthError, StorageNotFoundError, StorageAccessError, StorageProviderError } from '../errors';
 import { Readable } from 'stream';
@@ -310,6 +310,41 @@ export class GoogleDriveStorageProvider extends BaseStorageProvider {
     }
   }
 
+  /**
+   * Stream file content from Drive as it is downloaded
+   */
+  async getFileStream(key: string, range?: ByteRange): Promise<FileStreamResult> {
+    try {
+      this.validateInitialized();
+      
+      const response = await this.drive.files.get(
+        { fileId: key, alt: 'media' },
+        {
+          responseType: 'stream',
+          ...(range && { headers: { Range: `bytes=${range.start}-${range.end}` } })
+        }
+      );
+      
+      const contentLength = Number(response.headers['content-length']);
+      
+      return {
+        success: true,
+        stream: response.data as Readable,
+        contentLength: Number.isNaN(contentLength) ? undefined : contentLength,
+        contentType: response.headers['content-type'],
+        etag: response.headers.etag
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to open file stream', { key, range, error });
+      
+      if (error.code === 404) {
+        throw new StorageNotFoundError(key, error);
+      }
+      
+      throw new StorageProviderError('google-drive', 'getFileStream', error);
+    }
+  }
+
   /**
    * Upload a file to Google Drive with progress tracking
    */
@@ -2,12 +2,14 @@
 import { injectable, inject } from 'inversify';
 import { BaseStorageProvider } from '../base-provider';
 import { Logger } from '../../../utils/logger';
-import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats } from '../types';
-import { OneDriveCredentials } from '../credentials';
+import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ByteRange, FileStreamResult } from '../types';
+import { OneDriveCredentials, ONEDRIVE_SCOPES } from '../credentials';
 import { StorageAuthError, StorageNotFoundError, StorageAccessError, StorageProviderError } from '../errors';
-import { Client } from '@microsoft/microsoft-graph-client';
+import { Client, AuthenticationProvider } from '@microsoft/microsoft-graph-client';
 import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
 import { ClientSecretCredential } from '@azure/identity';
+import axios from 'axios';
+import { Readable } from 'stream';
 
 @injectable()
 export class OneDriveStorageProvider extends BaseStorageProvider {
@@ -26,17 +28,14 @@ export class OneDriveStorageProvider extends BaseStorageProvider {
     try {
       this.logger.info('Initializing OneDrive provider');
       
-      // Create Azure AD client credential
-      const credential = new ClientSecretCredential(
-        credentials.tenantId,
-        credentials.clientId,
-        credentials.clientSecret
-      );
-      
-      // Create auth provider
-      const authProvider = new TokenCredentialAuthenticationProvider(credential, {
-        scopes: ['https://graph.microsoft.com/.default']
-      });
+      // Accounts connected through OAuth act for the user who signed in;
+      // otherwise the app authenticates as itself with its client secret
+      const authProvider = credentials.refreshToken
+        ? this.createDelegatedAuthProvider(credentials)
+        : new TokenCredentialAuthenticationProvider(
+          new ClientSecretCredential(credentials.tenantId!, credentials.clientId, credentials.clientSecret),
+          { scopes: ['https://graph.microsoft.com/.default'] }
+        );
       
       // Create Graph client
       this.client = Client.initWithMiddleware({
@@ -66,6 +65,47 @@ export class OneDriveStorageProvider extends BaseStorageProvider {
     }
   }
   
+  /**
+   * Auth provider that uses the stored access token until it expires, then
+   * gets a new one with the refresh token. New tokens are handed to the
+   * credentials listener, since Microsoft rotates refresh tokens and the
+   * stored one stops working.
+   */
+  private createDelegatedAuthProvider(credentials: OneDriveCredentials): AuthenticationProvider {
+    let accessToken = credentials.accessToken;
+    let expiryDate = credentials.expiryDate || 0;
+    let refreshToken = credentials.refreshToken!;
+    
+    return {
+      getAccessToken: async () => {
+        // Refresh a minute early so tokens do not expire mid-request
+        if (accessToken && expiryDate - 60 * 1000 > Date.now()) {
+          return accessToken;
+        }
+        
+        const tokenUrl = `https://login.microsoftonline.com/${credentials.tenantId || 'common'}/oauth2/v2.0/token`;
+        const response = await axios.post(tokenUrl, new URLSearchParams({
+          client_id: credentials.clientId,
+          client_secret: credentials.clientSecret,
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          scope: ONEDRIVE_SCOPES.join(' ')
+        }).toString(), {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+        });
+        
+        accessToken = response.data.access_token as string;
+        expiryDate = Date.now() + response.data.expires_in * 1000;
+        // Microsoft may rotate the refresh token
+        refreshToken = response.data.refresh_token || refreshToken;
+        
+        this.logger.debug('OneDrive access token refreshed');
+        await this.credentialsChanged({ ...credentials, accessToken, expiryDate, refreshToken });
+        return accessToken;
+      }
+    };
+  }
+  
   /**
    * Test the connection to OneDrive
    */
@@ -123,7 +163,7 @@ export class OneDriveStorageProvider extends BaseStorageProvider {
       const permission = await this.client!.api(`/me/drive/items/${key}/createLink`).post({
         type: options.operation === 'read' ? 'view' : 'edit',
         scope: 'anonymous',
-        expirationDateTime: new Date(Date.now() + (options.expiresIn * 1000)).toISOString()
+        expirationDateTime: new Date(Date.now() + ((options.expiresIn || 3600) * 1000)).toISOString()
       });
       
       return {
@@ -238,7 +278,6 @@ export class OneDriveStorageProvider extends BaseStorageProvider {
         lastModified: new Date(item.lastModifiedDateTime),
         contentType: item.file?.mimeType,
         isDirectory: !!item.folder,
-        url: item.webUrl,
         metadata: {
           id: item.id,
           webUrl: item.webUrl
@@ -328,6 +367,7 @@ export class OneDriveStorageProvider extends BaseStorageProvider {
         availableBytes: drive.quota.remaining,
         fileCount: drive.quota.fileCount || 0,
         lastUpdated: new Date(),
+        usageByType: {}, // OneDrive only reports totals
         costEstimate: 0 // OneDrive doesn't provide cost information
       };
       
@@ -502,4 +542,35 @@ export class OneDriveStorageProvider extends BaseStorageProvider {
       throw new StorageProviderError('OneDrive', 'getFileContent', error);
     }
   }
+
+  /**
+   * Stream file content from OneDrive as it is downloaded
+   */
+  async getFileStream(key: string, range?: ByteRange): Promise<FileStreamResult> {
+    try {
+      this.validateInitialized();
+      
+      let request = this.client!.api(`/me/drive/items/${key}/content`);
+      
+      if (range) {
+        request = request.header('Range', `bytes=${range.start}-${range.end}`);
+      }
+      
+      const stream = await request.getStream();
+      
+      return {
+        success: true,
+        stream: stream as Readable,
+        contentLength: range ? range.end - range.start + 1 : undefined
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to open file stream', { key, range, error });
+      
+      if (error.statusCode === 404) {
+        throw new StorageNotFoundError(key, error);
+      }
+      
+      throw new StorageProviderError('OneDrive', 'getFileStream', error);
+    }
+  }
 } 
\ No newline at end of file
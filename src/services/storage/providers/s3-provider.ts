@@ -1,9 +1,10 @@
 import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, ListObjectsV2Command, HeadObjectCommand, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { injectable, inject } from 'inversify';
+import { Readable } from 'stream';
 import { BaseStorageProvider } from '../base-provider';
 import { Logger } from '../../../utils/logger';
-import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats } from '../types';
+import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ByteRange, FileStreamResult } from '../types';
 import { AwsS3Credentials } from '../credentials';
 import { StorageAuthError, StorageNotFoundError, StorageAccessError, StorageProviderError } from '../errors';
 
@@ -473,4 +474,39 @@ export class S3StorageProvider extends BaseStorageProvider {
       };
     }
   }
+
+  /**
+   * Stream file content straight from the bucket
+   */
+  async getFileStream(key: string, range?: ByteRange): Promise<FileStreamResult> {
+    try {
+      this.validateInitialized();
+      
+      const response = await this.s3Client!.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ...(range && { Range: `bytes=${range.start}-${range.end}` })
+      }));
+      
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+      
+      return {
+        success: true,
+        stream: response.Body as Readable,
+        contentLength: response.ContentLength,
+        contentType: response.ContentType,
+        etag: response.ETag
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to open file stream', { key, range, error });
+      
+      if (error.name === 'NoSuchKey') {
+        throw new StorageNotFoundError(key, error);
+      }
+      
+      throw new StorageProviderError('S3', 'getFileStream', error);
+    }
+  }
 } 
\ No newline at end of file
@@ -2,9 +2,10 @@
 import { S3Client, HeadObjectCommand, ListObjectsV2Command, PutObjectCommand, DeleteObjectCommand, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { injectable, inject } from 'inversify';
+import { Readable } from 'stream';
 import { BaseStorageProvider } from '../base-provider';
 import { Logger } from '../../../utils/logger';
-import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats } from '../types';
+import { StorageOperationResult, SignedUrlOptions, FolderOptions, ListOptions, DeleteOptions, UploadOptions, FileMetadata, StorageStats, ByteRange, FileStreamResult } from '../types';
 import { StorjCredentials } from '../credentials';
 import { StorageAuthError, StorageNotFoundError, StorageAccessError, StorageProviderError } from '../errors';
 
@@ -749,4 +750,39 @@ export class StorjStorageProvider extends BaseStorageProvider {
       throw new StorageProviderError('Storj', 'getFileContent', error);
     }
   }
+
+  /**
+   * Stream file content straight from the bucket
+   */
+  async getFileStream(key: string, range?: ByteRange): Promise<FileStreamResult> {
+    try {
+      this.validateInitialized();
+      
+      const response = await this.s3Client!.send(new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ...(range && { Range: `bytes=${range.start}-${range.end}` })
+      }));
+      
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+      
+      return {
+        success: true,
+        stream: response.Body as Readable,
+        contentLength: response.ContentLength,
+        contentType: response.ContentType,
+        etag: response.ETag
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to open file stream', { key, range, error });
+      
+      if (error.name === 'NoSuchKey') {
+        throw new StorageNotFoundError(key, error);
+      }
+      
+      throw new StorageProviderError('Storj', 'getFileStream', error);
+    }
+  }
 }
\ No newline at end of file
@@ -1,63 +1,6 @@
-import { createHash, createCipheriv, createDecipheriv, randomBytes } from 'crypto';
-import { StorageError } from './errors';
-
-export interface EncryptionConfig {
-  algorithm: string;
-  keyLength: number;
-  ivLength: number;
-}
+import { createHash, randomBytes } from 'crypto';
 
 export class StorageSecurity {
-  private static readonly DEFAULT_ENCRYPTION_CONFIG: EncryptionConfig = {
-    algorithm: 'aes-256-gcm',
-    keyLength: 32,
-    ivLength: 16
-  };
-
-  /**
-   * Generate a secure encryption key
-   */
-  static generateEncryptionKey(): Buffer {
-    return randomBytes(this.DEFAULT_ENCRYPTION_CONFIG.keyLength);
-  }
-
-  /**
-   * Encrypt data with AES-GCM
-   */
-  static encryptData(data: string, key: Buffer): { encrypted: Buffer; iv: Buffer; authTag: Buffer } {
-    try {
-      const iv = randomBytes(this.DEFAULT_ENCRYPTION_CONFIG.ivLength);
-      const cipher = createCipheriv(this.DEFAULT_ENCRYPTION_CONFIG.algorithm, key, iv);
-      
-      const encrypted = Buffer.concat([
-        cipher.update(data, 'utf8'),
-        cipher.final()
-      ]);
-      
-      return {
-        encrypted,
-        iv,
-        authTag: cipher.getAuthTag()
-      };
-    } catch (error: any) {
-      throw new StorageError(`Encryption failed: ${error.message}`);
-    }
-  }
-
-  /**
-   * Decrypt data with AES-GCM
-   */
-  static decryptData(encrypted: Buffer, key: Buffer, iv: Buffer, authTag: Buffer): string {
-    try {
-      const decipher = createDecipheriv(this.DEFAULT_ENCRYPTION_CONFIG.algorithm, key, iv);
-      decipher.setAuthTag(authTag);
-      
-      return decipher.update(encrypted) + decipher.final('utf8');
-    } catch (error: any) {
-      throw new StorageError(`Decryption failed: ${error.message}`);
-    }
-  }
-
   /**
    * Generate a secure hash for file integrity verification
    */
@@ -7,8 +7,14 @@ import { S3StorageProvider } from './providers/s3-provider';
 import { WasabiStorageProvider } from './providers/wasabi-provider';
 import { GcpStorageProvider } from './providers/gcp-storage-provider';
 import { AzureBlobStorageProvider } from './providers/azure-blob-provider';
+import { OneDriveStorageProvider } from './providers/onedrive-provider';
+import { StorjStorageProvider } from './providers/storj-provider';
+import { S3CompatibleStorageProvider } from './providers/s3-compatible-provider';
 import { StorageProviderFactoryImpl } from './factory';
+import { StorageProviderPool } from './provider-pool';
+import { StreamingUploadService } from './streaming-upload.service';
 import { Logger } from '../../utils/logger';
+import { env } from '../../config/env';
 
 export function setupStorageModule(container: Container) {
   // Register storage providers
@@ -18,9 +24,34 @@ export function setupStorageModule(container: Container) {
   container.bind<WasabiStorageProvider>('WasabiStorageProvider').to(WasabiStorageProvider);
   container.bind<GcpStorageProvider>('GcpStorageProvider').to(GcpStorageProvider);
   container.bind<AzureBlobStorageProvider>('AzureBlobStorageProvider').to(AzureBlobStorageProvider);
+  container.bind<OneDriveStorageProvider>('OneDriveStorageProvider').to(OneDriveStorageProvider);
+  container.bind<StorjStorageProvider>('StorjStorageProvider').to(StorjStorageProvider);
+  container.bind<S3CompatibleStorageProvider>('S3CompatibleStorageProvider').to(S3CompatibleStorageProvider);
 
-  // Register factory
-  container.bind<StorageProviderFactoryImpl>('StorageProviderFactory').to(StorageProviderFactoryImpl);
+  // Vault accounts live on the deployment's chosen backend
+  const VaultProvider = env.VAULT_BACKEND === 'storj' ? StorjStorageProvider : WasabiStorageProvider;
+
+  // Register factory, with the provider class used for each storage type
+  container.bind<StorageProviderFactoryImpl>('StorageProviderFactory').to(StorageProviderFactoryImpl).inSingletonScope()
+    .onActivation((_context, factory) => {
+      factory.registerProvider('google_drive', GoogleDriveStorageProvider);
+      factory.registerProvider('dropbox', DropboxStorageProvider);
+      factory.registerProvider('s3', S3StorageProvider);
+      factory.registerProvider('vault', VaultProvider);
+      factory.registerProvider('cloud', VaultProvider);
+      factory.registerProvider('gcp_storage', GcpStorageProvider);
+      factory.registerProvider('azure_blob', AzureBlobStorageProvider);
+      factory.registerProvider('onedrive', OneDriveStorageProvider);
+      factory.registerProvider('storj', StorjStorageProvider);
+      factory.registerProvider('s3_compatible', S3CompatibleStorageProvider);
+      return factory;
+    });
+
+  // One provider per storage account, shared by every StorageService
+  container.bind<StorageProviderPool>('StorageProviderPool').to(StorageProviderPool).inSingletonScope();
+
+  // Streams uploads into whichever provider an account uses
+  container.bind<StreamingUploadService>('StreamingUploadService').to(StreamingUploadService).inSingletonScope();
 
   // Register storage service
   container.bind<StorageService>('StorageService').to(StorageService);
@@ -1,31 +1,19 @@
 // src/services/storage/storage.service.ts
-import { injectable, inject, multiInject } from 'inversify';
+import { injectable, inject } from 'inversify';
 import { Logger } from '../../utils/logger';
 import { StorageProviderFactory, StorageProvider, StorageProviderType, StorageOperationResult, StorageStats } from './types';
 import { StorageError, StorageProviderError, StorageAuthError, StorageQuotaExceededError } from './errors';
 import { StorageAccountRepository, StorageAccount } from '../../repositories/storage-account.repository';
-import { BaseStorageProvider } from './base-provider';
-import { GoogleDriveStorageProvider } from './providers/google-drive-provider';
-import { DropboxStorageProvider } from './providers/dropbox-provider';
-import { S3StorageProvider } from './providers/s3-provider';
-import { 
-  StorageCredentials,
-  SignedUrlOptions,
-  FolderOptions,
-  ListOptions,
-  DeleteOptions,
-  UploadOptions,
-  FileMetadata,
-  StorageProviderCapabilities,
-  ProgressCallback,
-  ProgressInfo
-} from './types';
+import { StorageProviderPool } from './provider-pool';
+import { StreamingUploadService, StreamUploadResult } from './streaming-upload.service';
+import { credentialProblems } from './credentials';
+import { UploadRestrictionError, ValidationError } from '../../utils/errors';
+import { env } from '../../config/env';
+import { UploadOptions, FileMetadata, ProgressCallback } from './types';
 import { Readable } from 'stream';
 
 @injectable()
 export class StorageService {
-  private providers: Map<string, BaseStorageProvider> = new Map();
-  private activeProvider?: BaseStorageProvider;
   private storageStats: Map<string, { stats: StorageStats, lastUpdated: Date }> = new Map();
   // Update stats every 15 minutes
   private statsRefreshInterval = 15 * 60 * 1000;
@@ -34,17 +22,11 @@ export class StorageService {
   constructor(
     @inject('StorageProviderFactory') private providerFactory: StorageProviderFactory,
     @inject('StorageAccountRepository') private storageAccountRepository: StorageAccountRepository,
-    @inject('Logger') private logger: Logger,
-    @multiInject('GoogleDriveStorageProvider') googleDriveProvider: GoogleDriveStorageProvider,
-    @multiInject('DropboxStorageProvider') dropboxProvider: DropboxStorageProvider,
-    @multiInject('S3StorageProvider') s3Provider: S3StorageProvider
+    @inject('StorageProviderPool') private providerPool: StorageProviderPool,
+    @inject('StreamingUploadService') private streamingUploadService: StreamingUploadService,
+    @inject('Logger') private logger: Logger
   ) {
     this.logger = logger.createChildLogger('StorageService');
-    
-    // Register providers
-    this.providers.set('google_drive', googleDriveProvider);
-    this.providers.set('dropbox', dropboxProvider);
-    this.providers.set('s3', s3Provider);
   }
   
   /**
@@ -171,42 +153,30 @@ export class StorageService {
   }
   
   /**
-   * Check if an operation would exceed storage quota
+   * Bytes left in a storage account's quota, or undefined when it has none
+   * or it cannot be read
    */
-  async checkStorageQuota(storageId: string, sizeBytes: number): Promise<boolean> {
+  private async getRemainingQuota(storageId: string): Promise<number | undefined> {
     try {
       const stats = await this.getStorageStats(storageId);
       
       if (!stats.totalBytes) {
         // If total bytes is not defined, assume unlimited
-        return true;
+        return undefined;
       }
       
-      // Check if adding the new file would exceed quota
-      const projectedUsage = stats.usedBytes + sizeBytes;
-      
-      if (projectedUsage > stats.totalBytes) {
-        this.logger.warn(`Storage quota would be exceeded for account ${storageId}`, {
-          currentUsage: stats.usedBytes,
-          requestedSize: sizeBytes,
-          projectedUsage,
-          totalQuota: stats.totalBytes
-        });
-        
-        // Return false if operation would exceed quota
-        return false;
-      }
-      
-      return true;
+      return Math.max(stats.totalBytes - stats.usedBytes, 0);
     } catch (error) {
       this.logger.error(`Failed to check storage quota for account ${storageId}`, { error });
       // Default to allowing the operation if we can't check quota
-      return true;
+      return undefined;
     }
   }
   
   /**
-   * Upload file with quota check and progress tracking
+   * Upload file with quota check and progress tracking. The quota is checked
+   * against a declared length up front, and enforced on the bytes that
+   * actually arrive.
    */
   async uploadFile(
     storageId: string,
@@ -216,42 +186,56 @@ export class StorageService {
     options?: UploadOptions & { onProgress?: ProgressCallback }
   ): Promise<FileMetadata> {
     const provider = await this.getStorageProvider(storageId);
+    const remaining = await this.getRemainingQuota(storageId);
     
-    // Check if the provider supports direct uploads
-    if ('uploadFile' in provider) {
-      // Check content size if it's a buffer
-      if (Buffer.isBuffer(content)) {
-        // Check if upload would exceed quota
-        const hasQuota = await this.checkStorageQuota(storageId, content.length);
-        
-        if (!hasQuota) {
-          throw new StorageQuotaExceededError(storageId);
+    // The buffer's length, or the length a stream's sender declared
+    const expectedSize = Buffer.isBuffer(content) ? content.length : options?.contentLength;
+    if (remaining !== undefined && expectedSize && expectedSize > remaining) {
+      this.logger.warn(`Storage quota would be exceeded for account ${storageId}`, {
+        requestedSize: expectedSize,
+        remaining
+      });
+      throw new StorageQuotaExceededError(storageId);
+    }
+    
+    // Stream the content to the provider; it may choose its own key
+    const key = [path.replace(/^\/+|\/+$/g, ''), fileName].filter(Boolean).join('/');
+    const contentType = options?.contentType || 'application/octet-stream';
+    let result: StreamUploadResult;
+    try {
+      result = await this.streamingUploadService.upload(
+        provider,
+        key,
+        Buffer.isBuffer(content) ? Readable.from([content]) : content,
+        {
+          contentType,
+          maxBytes: remaining,
+          onProgress: bytes => options?.onProgress?.({
+            bytes,
+            totalBytes: expectedSize || 0,
+            percent: expectedSize ? Math.min(100, Math.round(bytes / expectedSize * 100)) : 0
+          })
         }
+      );
+    } catch (error) {
+      // More arrived than the quota had room for
+      if (remaining !== undefined && error instanceof UploadRestrictionError && error.code === 'FILE_TOO_LARGE') {
+        throw new StorageQuotaExceededError(storageId);
       }
-      
-      // Use provider's upload method with progress tracking
-      const result = await (provider as any).uploadFile(path, fileName, content, options);
-      
-      if (!result.success) {
-        throw new StorageError(`Failed to upload file: ${result.message}`);
-      }
-      
-      // Update storage stats after successful upload
-      setTimeout(() => this.refreshAllStorageStats(), 1000);
-      
-      return {
-        key: result.fileId || result.data?.id,
-        name: fileName,
-        size: Buffer.isBuffer(content) ? content.length : (result.data?.size || 0),
-        lastModified: new Date(),
-        contentType: options?.contentType || 'application/octet-stream',
-        isDirectory: false,
-        metadata: result.data
-      };
-    } else {
-      // Fall back to generic upload approach
-      throw new StorageError(`Direct upload not supported for provider ${provider.providerName}`);
+      throw error;
     }
+    
+    setTimeout(() => this.refreshAllStorageStats(), 1000);
+    
+    return {
+      key: result.key,
+      name: fileName,
+      size: result.size,
+      lastModified: new Date(),
+      contentType,
+      isDirectory: false,
+      metadata: { sha256: result.sha256, md5: result.md5 }
+    };
   }
   
   /**
@@ -271,70 +255,17 @@ export class StorageService {
   /**
    * Get available storage provider types
    */
-  getAvailableProviders(): string[] {
-    return Array.from(this.providers.keys());
+  getAvailableProviders(): StorageProviderType[] {
+    return this.providerFactory.getAvailableProviders();
   }
   
   /**
-   * Get a provider instance for a storage account
+   * Get the provider instance for a storage account. Each account has its
+   * own instance, created on first use (see StorageProviderPool).
    * @param storageId Storage account ID
    */
   async getStorageProvider(storageId: string): Promise<StorageProvider> {
-    // Check if provider is already instantiated
-    if (this.providers.has(storageId)) {
-      return this.providers.get(storageId)!;
-    }
-    
-    // Fetch storage account from database
-    const storageAccount = await this.storageAccountRepository.findById(storageId);
-    
-    if (!storageAccount) {
-      throw new StorageError(`Storage account not found: ${storageId}`);
-    }
-    
-    // Fetch credentials from secure storage
-    const credentialData = await this.storageAccountRepository.getCredentials(storageId);
-    
-    if (!credentialData) {
-      throw new StorageError(`Credentials not found for storage account: ${storageId}`);
-    }
-    
-    const credentials = credentialData.credentials;
-    
-    // Create provider instance
-    const provider = this.providerFactory.createProvider(storageAccount.storageType, credentials);
-    
-    if (!provider) {
-      throw new StorageProviderError(
-        storageAccount.storageType,
-        'initialization',
-        { message: `Provider type not supported: ${storageAccount.storageType}` }
-      );
-    }
-    
-    // Initialize provider if not already initialized
-    try {
-      const initResult = await provider.initialize(credentials);
-      
-      if (!initResult.success) {
-        throw new StorageAuthError(
-          storageAccount.storageType,
-          { message: initResult.message || 'Failed to initialize storage provider' }
-        );
-      }
-    } catch (error: any) {
-      this.logger.error(`Failed to initialize storage provider for account ${storageId}`, { error });
-      throw new StorageProviderError(
-        storageAccount.storageType,
-        'initialization',
-        error
-      );
-    }
-    
-    // Cache the provider instance
-    this.providers.set(storageId, provider);
-    
-    return provider;
+    return this.providerPool.acquire(storageId);
   }
   
   /**
@@ -364,6 +295,8 @@ export class StorageService {
     try {
       this.logger.info('Creating storage account', { companyId: data.companyId, type: data.storageType });
       
+      this.checkCredentialFields(data.storageType, data.credentials);
+      
       // Create a provider instance to validate the credentials
       const tempProvider = this.providerFactory.createProvider(data.storageType);
       
@@ -402,8 +335,8 @@ export class StorageService {
       // Save the credentials securely
       await this.storageAccountRepository.saveCredentials(storageAccount.id, data.credentials);
       
-      // Cache the provider instance
-      this.providers.set(storageAccount.id, tempProvider);
+      // Keep the validated provider for the new account
+      this.providerPool.replace(storageAccount.id, data.storageType, data.credentials, tempProvider);
       
       return storageAccount;
     } catch (error: any) {
@@ -469,8 +402,8 @@ export class StorageService {
       const success = await this.storageAccountRepository.delete(id);
       
       if (success) {
-        // Remove from provider cache
-        this.providers.delete(id);
+        // Remove from provider pool
+        this.providerPool.evict(id);
       }
       
       return success;
@@ -500,6 +433,8 @@ export class StorageService {
         throw new StorageError(`Storage account not found: ${storageId}`);
       }
       
+      this.checkCredentialFields(account.storageType, credentials);
+      
       // Create a provider instance to validate the credentials
       const tempProvider = this.providerFactory.createProvider(account.storageType);
       
@@ -530,11 +465,8 @@ export class StorageService {
       // Save the credentials securely
       await this.storageAccountRepository.saveCredentials(storageId, credentials);
       
-      // Remove the existing provider instance from cache
-      this.providers.delete(storageId);
-      
-      // Cache the new provider instance
-      this.providers.set(storageId, tempProvider);
+      // Use the provider just validated in place of the one holding the old credentials
+      this.providerPool.replace(storageId, account.storageType, credentials, tempProvider);
       
       return true;
     } catch (error: any) {
@@ -543,7 +475,7 @@ export class StorageService {
         error: error.message
       });
       
-      if (error instanceof StorageError) {
+      if (error instanceof StorageError || error instanceof ValidationError) {
         throw error;
       }
       
@@ -556,6 +488,13 @@ export class StorageService {
    */
   async validateCredentials(storageType: StorageProviderType, credentials: any): Promise<boolean> {
     try {
+      // Catch missing or malformed fields before contacting the provider
+      const problems = credentialProblems(storageType, credentials, env.VAULT_BACKEND);
+      if (problems.length > 0) {
+        this.logger.warn('Storage credentials are incomplete', { storageType, problems });
+        return false;
+      }
+      
       // Create a provider instance to validate the credentials
       const tempProvider = this.providerFactory.createProvider(storageType);
       
@@ -586,6 +525,16 @@ export class StorageService {
     }
   }
   
+  /**
+   * Reject credentials that lack the fields their storage type needs
+   */
+  private checkCredentialFields(storageType: string, credentials: any): void {
+    const problems = credentialProblems(storageType, credentials, env.VAULT_BACKEND);
+    if (problems.length > 0) {
+      throw new ValidationError(`Invalid ${storageType} credentials: ${problems.join('; ')}`);
+    }
+  }
+  
   /**
    * Test the connection to a storage account
    */
@@ -601,161 +550,4 @@ export class StorageService {
       };
     }
   }
-  
-  async initializeProvider(type: string, credentials: StorageCredentials): Promise<void> {
-    const provider = this.providers.get(type);
-    if (!provider) {
-      throw new StorageProviderError(type, 'initialize', new Error(`Provider ${type} not found`));
-    }
-
-    try {
-      await provider.initialize(credentials);
-      this.activeProvider = provider;
-    } catch (error: any) {
-      throw new StorageAuthError(type, error);
-    }
-  }
-
-  async testActiveProviderConnection(): Promise<boolean> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'testConnection', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.testConnection();
-    return result.success;
-  }
-
-  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'getSignedUrl', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.getSignedUrl(key, options);
-    if (!result.success || !result.url) {
-      throw new StorageProviderError('storage', 'getSignedUrl', new Error(result.message || 'Failed to get signed URL'));
-    }
-
-    return result.url;
-  }
-
-  async createFolder(path: string, folderName: string, options?: FolderOptions): Promise<void> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'createFolder', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.createFolder(path, folderName, options);
-    if (!result.success) {
-      throw new StorageProviderError('storage', 'createFolder', new Error(result.message || 'Failed to create folder'));
-    }
-  }
-
-  async listFiles(path: string, options?: ListOptions): Promise<FileMetadata[]> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'listFiles', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.listFiles(path, options);
-    if (!result.success || !result.files) {
-      throw new StorageProviderError('storage', 'listFiles', new Error(result.message || 'Failed to list files'));
-    }
-
-    return result.files;
-  }
-
-  async getFileMetadata(key: string): Promise<FileMetadata> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'getFileMetadata', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.getFileMetadata(key);
-    if (!result.success || !result.metadata) {
-      throw new StorageProviderError('storage', 'getFileMetadata', new Error(result.message || 'Failed to get file metadata'));
-    }
-
-    return result.metadata;
-  }
-
-  async deleteFile(key: string, options?: DeleteOptions): Promise<void> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'deleteFile', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.deleteFile(key, options);
-    if (!result.success) {
-      throw new StorageProviderError('storage', 'deleteFile', new Error(result.message || 'Failed to delete file'));
-    }
-  }
-
-  async fileExists(key: string): Promise<boolean> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'fileExists', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.fileExists(key);
-    if (!result.success) {
-      throw new StorageProviderError('storage', 'fileExists', new Error(result.message || 'Failed to check file existence'));
-    }
-
-    return result.exists || false;
-  }
-
-  async createMultipartUpload(key: string, options?: UploadOptions): Promise<string> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'createMultipartUpload', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.createMultipartUpload(key, options);
-    if (!result.success || !result.uploadId) {
-      throw new StorageProviderError('storage', 'createMultipartUpload', new Error(result.message || 'Failed to create multipart upload'));
-    }
-
-    return result.uploadId;
-  }
-
-  async getSignedUrlForPart(key: string, uploadId: string, partNumber: number, contentLength: number): Promise<string> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'getSignedUrlForPart', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.getSignedUrlForPart(key, uploadId, partNumber, contentLength);
-    if (!result.success || !result.url) {
-      throw new StorageProviderError('storage', 'getSignedUrlForPart', new Error(result.message || 'Failed to get signed URL for part'));
-    }
-
-    return result.url;
-  }
-
-  async completeMultipartUpload(key: string, uploadId: string, parts: any[]): Promise<void> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'completeMultipartUpload', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.completeMultipartUpload(key, uploadId, parts);
-    if (!result.success) {
-      throw new StorageProviderError('storage', 'completeMultipartUpload', new Error(result.message || 'Failed to complete multipart upload'));
-    }
-  }
-
-  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'abortMultipartUpload', new Error('No active provider'));
-    }
-
-    const result = await this.activeProvider.abortMultipartUpload(key, uploadId);
-    if (!result.success) {
-      throw new StorageProviderError('storage', 'abortMultipartUpload', new Error(result.message || 'Failed to abort multipart upload'));
-    }
-  }
-
-  getActiveProvider(): string | undefined {
-    return this.activeProvider ? this.activeProvider.providerName : undefined;
-  }
-
-  getProviderCapabilities(): StorageProviderCapabilities {
-    if (!this.activeProvider) {
-      throw new StorageProviderError('storage', 'getProviderCapabilities', new Error('No active provider'));
-    }
-
-    return this.activeProvider.getCapabilities();
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,275 @@
+// src/services/storage/streaming-upload.service.ts
+import { injectable, inject } from 'inversify';
+import axios from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { UploadRestrictionError } from '../../utils/errors';
+import { SNIFF_LENGTH } from '../../utils/file-type';
+import { StorageProvider } from './types';
+import { UploadDigest, UploadChecksums, splitIntoParts, streamingPartSize } from './upload-stream';
+import { env } from '../../config/env';
+
+// Progress is reported at most this often
+const PROGRESS_INTERVAL_MS = 500;
+const SIGNED_URL_TTL_SECONDS = 3600;
+
+export interface StreamUploadOptions {
+  contentType: string;
+  // The upload is rejected once it grows past this many bytes
+  maxBytes?: number;
+  // Bytes received so far
+  onProgress?: (bytes: number) => void;
+  // Checks the leading bytes of the content, e.g. its type, before any of it
+  // is written; throwing rejects the upload
+  inspect?: (head: Buffer) => Promise<void>;
+  // Transforms the content on its way to storage, e.g. to encrypt it. Size,
+  // checksums and the sniffed head describe the content before it.
+  encrypt?: (content: AsyncIterable<Buffer>) => AsyncIterable<Buffer>;
+}
+
+export interface StreamUploadResult extends UploadChecksums {
+  // Where the content was stored. Providers that key files by their own IDs
+  // choose it; for the rest it is the key asked for.
+  key: string;
+  size: number;
+  // Leading bytes of the content, to detect its actual type
+  head: Buffer;
+}
+
+/**
+ * Writes a stream to storage as it arrives. Content up to one part goes up in
+ * a single request; anything longer becomes a multipart upload, sent a part
+ * at a time so memory use stays at one part per upload. Providers without
+ * multipart uploads get the content from a temporary file instead, through
+ * their own upload method when they have one.
+ */
+@injectable()
+export class StreamingUploadService {
+  private readonly partSize = env.UPLOAD_PART_SIZE_MB * 1024 * 1024;
+
+  constructor(@inject('Logger') private logger: Logger) {
+    this.logger = logger.createChildLogger('StreamingUploadService');
+  }
+
+  async upload(
+    provider: StorageProvider,
+    key: string,
+    source: Readable,
+    options: StreamUploadOptions
+  ): Promise<StreamUploadResult> {
+    const digest = new UploadDigest(SNIFF_LENGTH);
+    const metered = this.meter(source, digest, options);
+    const content = options.encrypt ? options.encrypt(metered) : metered;
+    const capabilities = provider.getCapabilities();
+    let storedKey = key;
+
+    if (!capabilities.supportsMultipartUpload) {
+      storedKey = await this.uploadThroughFile(provider, key, content, options.contentType);
+    } else {
+      const partSize = streamingPartSize(capabilities, this.partSize, options.maxBytes);
+      await this.uploadInParts(provider, key, splitIntoParts(content, partSize), partSize, options.contentType);
+    }
+
+    options.onProgress?.(digest.bytes);
+    return { key: storedKey, size: digest.bytes, head: digest.head, ...digest.checksums() };
+  }
+
+  /**
+   * Pass the source through, feeding the digest, enforcing the size limit
+   * and reporting progress. Content is held back until its head has been
+   * inspected.
+   */
+  private async *meter(
+    source: Readable,
+    digest: UploadDigest,
+    options: StreamUploadOptions
+  ): AsyncGenerator<Buffer> {
+    let reportedAt = 0;
+    let held: Buffer[] | null = options.inspect ? [] : null;
+
+    for await (const data of source) {
+      const chunk: Buffer = typeof data === 'string' ? Buffer.from(data) : data;
+      digest.update(chunk);
+
+      if (options.maxBytes !== undefined && digest.bytes > options.maxBytes) {
+        source.destroy();
+        throw new UploadRestrictionError('FILE_TOO_LARGE', 'The file is larger than the maximum upload size', {
+          setting: 'maxFileSize',
+          max: options.maxBytes
+        });
+      }
+
+      if (options.onProgress && Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+        reportedAt = Date.now();
+        options.onProgress(digest.bytes);
+      }
+
+      if (held) {
+        held.push(chunk);
+        if (digest.bytes < SNIFF_LENGTH) {
+          continue;
+        }
+        await options.inspect!(digest.head);
+        yield* held;
+        held = null;
+        continue;
+      }
+
+      yield chunk;
+    }
+
+    if (held) {
+      await options.inspect!(digest.head);
+      yield* held;
+    }
+  }
+
+  /**
+   * Send the first part on its own if the content ends there, otherwise
+   * start a multipart upload with it
+   */
+  private async uploadInParts(
+    provider: StorageProvider,
+    key: string,
+    parts: AsyncGenerator<Buffer>,
+    partSize: number,
+    contentType: string
+  ): Promise<void> {
+    const first = await parts.next();
+    const firstPart = first.done ? Buffer.alloc(0) : first.value;
+
+    if (firstPart.length < partSize) {
+      await this.put(provider, key, firstPart, firstPart.length, contentType);
+      return;
+    }
+
+    const created = await provider.createMultipartUpload(key, { contentType });
+    if (!created.success || !created.uploadId) {
+      throw new Error(created.message || 'Failed to start multipart upload');
+    }
+    const uploadId = created.uploadId;
+
+    try {
+      const uploaded: Array<{ partNumber: number; etag: string }> = [];
+      uploaded.push(await this.uploadPart(provider, key, uploadId, 1, firstPart));
+
+      for await (const part of parts) {
+        uploaded.push(await this.uploadPart(provider, key, uploadId, uploaded.length + 1, part));
+      }
+
+      // Providers differ in how they name part fields
+      const completed = await provider.completeMultipartUpload(
+        key,
+        uploadId,
+        uploaded.map(part => ({
+          PartNumber: part.partNumber,
+          ETag: part.etag,
+          partNumber: part.partNumber,
+          etag: part.etag
+        }))
+      );
+
+      if (!completed.success) {
+        throw new Error(completed.message || 'Failed to complete multipart upload');
+      }
+
+      this.logger.debug('Streamed multipart upload completed', { key, parts: uploaded.length });
+    } catch (error) {
+      await provider.abortMultipartUpload(key, uploadId).catch(abortError => {
+        this.logger.error('Failed to abort streamed multipart upload', { key, uploadId, error: abortError });
+      });
+      throw error;
+    }
+  }
+
+  private async uploadPart(
+    provider: StorageProvider,
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: Buffer
+  ): Promise<{ partNumber: number; etag: string }> {
+    const urlResult = await provider.getSignedUrlForPart(key, uploadId, partNumber, data.length);
+    if (!urlResult.success || !urlResult.url) {
+      throw new Error(urlResult.message || 'Failed to generate upload URL');
+    }
+
+    const response = await axios.put(urlResult.url, data, {
+      headers: { 'Content-Length': data.length },
+      maxBodyLength: Infinity
+    });
+
+    // Completing the upload needs every part's ETag
+    if (!response.headers.etag) {
+      throw new Error(`The storage provider returned no ETag for part ${partNumber}`);
+    }
+
+    return { partNumber, etag: response.headers.etag };
+  }
+
+  /**
+   * Write the content to a temporary file, then upload it in one request so
+   * the provider gets its exact length. Returns the key it was stored under.
+   */
+  private async uploadThroughFile(
+    provider: StorageProvider,
+    key: string,
+    content: AsyncIterable<Buffer>,
+    contentType: string
+  ): Promise<string> {
+    const tempPath = path.join(os.tmpdir(), `upload-${uuidv4()}`);
+
+    try {
+      await pipeline(Readable.from(content), fs.createWriteStream(tempPath));
+      const { size } = await fs.promises.stat(tempPath);
+
+      if (provider.uploadFile) {
+        const slash = key.lastIndexOf('/');
+        const result = await provider.uploadFile(
+          slash > 0 ? key.slice(0, slash) : '/',
+          key.slice(slash + 1),
+          fs.createReadStream(tempPath),
+          { contentType, contentLength: size }
+        );
+
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to upload file');
+        }
+        return result.fileId || result.data?.id || key;
+      }
+
+      await this.put(provider, key, fs.createReadStream(tempPath), size, contentType);
+      return key;
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  private async put(
+    provider: StorageProvider,
+    key: string,
+    body: Buffer | Readable,
+    length: number,
+    contentType: string
+  ): Promise<void> {
+    const urlResult = await provider.getSignedUrl(key, {
+      operation: 'write',
+      expiresIn: SIGNED_URL_TTL_SECONDS,
+      contentType
+    });
+
+    if (!urlResult.success || !urlResult.url) {
+      throw new Error(urlResult.message || 'Failed to get signed URL for upload');
+    }
+
+    await axios.put(urlResult.url, body, {
+      headers: { 'Content-Type': contentType, 'Content-Length': length },
+      maxBodyLength: Infinity
+    });
+  }
+}
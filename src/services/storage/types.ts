@@ -1,4 +1,5 @@
 // src/services/storage/types.ts
+import { Readable } from 'stream';
 import { BaseStorageProvider } from './base-provider';
 
 /**
@@ -11,6 +12,25 @@ export interface StorageOperationResult {
   error?: any;
 }
 
+/**
+ * Byte range within a file, both ends inclusive
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * File content opened for reading. Bytes are fetched from storage as the
+ * stream is consumed.
+ */
+export interface FileStreamResult extends StorageOperationResult {
+  stream?: Readable;
+  contentLength?: number;  // Length of the streamed bytes, when the provider reports it
+  contentType?: string;
+  etag?: string;
+}
+
 /**
  * Progress information for uploads and downloads
  */
@@ -124,7 +144,17 @@ export interface StorageStats {
 /**
  * Available storage provider types
  */
-export type StorageProviderType = 'google_drive' | 'dropbox' | 's3' | 'vault' | 'gcp_storage' | 'azure_blob' | 'cloud';
+export type StorageProviderType =
+  | 'google_drive'
+  | 'dropbox'
+  | 's3'
+  | 'vault'
+  | 'gcp_storage'
+  | 'azure_blob'
+  | 'cloud'
+  | 'onedrive'
+  | 'storj'
+  | 's3_compatible';
 
 export interface StorageCredentials {
   type: string;
@@ -160,4 +190,5 @@ export type StorageProvider = BaseStorageProvider;
 
 export interface StorageProviderFactory {
   createProvider(type: StorageProviderType, credentials?: StorageCredentials): StorageProvider | null;
+  getAvailableProviders(): StorageProviderType[];
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+// src/services/storage/upload-stream.ts
+import crypto from 'crypto';
+import { StorageProviderCapabilities } from './types';
+
+export interface UploadChecksums {
+  // Hex digests of the whole content
+  sha256: string;
+  md5: string;
+}
+
+/**
+ * Tracks an upload's length, checksums and leading bytes as it streams past,
+ * so none of them need the content in memory
+ */
+export class UploadDigest {
+  private sha256 = crypto.createHash('sha256');
+  private md5 = crypto.createHash('md5');
+  private headChunks: Buffer[] = [];
+  private headLength = 0;
+  bytes = 0;
+
+  constructor(private readonly headSize: number) {}
+
+  update(chunk: Buffer): void {
+    this.sha256.update(chunk);
+    this.md5.update(chunk);
+    this.bytes += chunk.length;
+
+    if (this.headLength < this.headSize) {
+      const slice = chunk.subarray(0, this.headSize - this.headLength);
+      this.headChunks.push(slice);
+      this.headLength += slice.length;
+    }
+  }
+
+  /**
+   * The first headSize bytes, or all of them for shorter content
+   */
+  get head(): Buffer {
+    return Buffer.concat(this.headChunks, this.headLength);
+  }
+
+  /**
+   * Finish the checksums; call once the content has ended
+   */
+  checksums(): UploadChecksums {
+    return {
+      sha256: this.sha256.digest('hex'),
+      md5: this.md5.digest('hex')
+    };
+  }
+}
+
+/**
+ * Regroup a stream's chunks into parts of exactly partSize bytes, except for
+ * the last. At most one part is held at a time; the source is not read again
+ * until the consumer asks for the next part.
+ */
+export async function* splitIntoParts(
+  source: AsyncIterable<Buffer | string>,
+  partSize: number
+): AsyncGenerator<Buffer> {
+  let chunks: Buffer[] = [];
+  let length = 0;
+
+  for await (const data of source) {
+    let chunk = typeof data === 'string' ? Buffer.from(data) : data;
+
+    while (length + chunk.length >= partSize) {
+      const needed = partSize - length;
+      chunks.push(chunk.subarray(0, needed));
+      yield Buffer.concat(chunks, partSize);
+
+      chunk = chunk.subarray(needed);
+      chunks = [];
+      length = 0;
+    }
+
+    if (chunk.length > 0) {
+      chunks.push(chunk);
+      length += chunk.length;
+    }
+  }
+
+  if (length > 0) {
+    yield Buffer.concat(chunks, length);
+  }
+}
+
+/**
+ * Part size for an upload whose length is not known up front: at least the
+ * configured size and the provider's minimum, and large enough that maxBytes
+ * fits in the provider's part count
+ */
+export function streamingPartSize(
+  capabilities: Pick<StorageProviderCapabilities, 'minimumPartSize' | 'maximumPartSize' | 'maximumPartCount'>,
+  preferredSize: number,
+  maxBytes?: number
+): number {
+  let partSize = Math.max(preferredSize, capabilities.minimumPartSize);
+
+  if (maxBytes && capabilities.maximumPartCount > 0) {
+    partSize = Math.max(partSize, Math.ceil(maxBytes / capabilities.maximumPartCount));
+  }
+
+  return capabilities.maximumPartSize > 0 ? Math.min(partSize, capabilities.maximumPartSize) : partSize;
+}
@@ -0,0 +1,205 @@
+// src/services/subscription/_tests_/subscription.service.test.ts
+import { SubscriptionService } from '../subscription.service';
+import { AppError, AuthorizationError, ConflictError, PlanLimitError, ValidationError } from '../../../utils/errors';
+import { PaymentCheckoutProvider } from '../../billing/types';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({
+  env: { SUBSCRIPTION_MAX_TRIAL_DAYS: 30, APP_URL: 'https://app.example.com' }
+}));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/subscription.repository', () => ({ SubscriptionRepository: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../activity/activity.service', () => ({ ActivityService: class {} }));
+
+const logger = createTestLogger();
+
+const plan = (id: string, price: string, limits: { maxUsers?: number } = {}) => ({
+  id,
+  name: id,
+  planType: price === '0.00' ? 'free' : 'standard',
+  price,
+  billingCycle: 'monthly',
+  maxUsers: limits.maxUsers ?? 100,
+  maxStorage: 10 ** 12,
+  maxRooms: 100,
+  features: '[]',
+  isActive: true,
+  paymentProviderPriceId: price === '0.00' ? null : `price_${id}`
+});
+
+describe('SubscriptionService', () => {
+  const owner = { id: 'owner', email: 'owner@example.com' };
+  const member = { id: 'member', email: 'member@example.com' };
+
+  let subscriptions: any[];
+  let subscriptionRepository: any;
+  let checkout: jest.Mocked<PaymentCheckoutProvider>;
+  let activityService: { createActivity: jest.Mock };
+  let service: SubscriptionService;
+
+  beforeEach(() => {
+    const plans = [plan('free', '0.00'), plan('pro', '20.00'), plan('team', '50.00'), plan('tiny', '0.00', { maxUsers: 1 })];
+    subscriptions = [];
+
+    subscriptionRepository = {
+      findPlanById: async (id: string) => plans.find(p => p.id === id) || null,
+      findFreePlan: async () => plans[0],
+      findByPaymentProviderId: async (id: string) => subscriptions.find(s => s.paymentProviderId === id) || null,
+      findCurrentByCompany: async (companyId: string) =>
+        subscriptions.find(s => s.companyId === companyId && s.status !== 'canceled') || null,
+      create: jest.fn(async (data: any) => {
+        const created = { id: `sub-${subscriptions.length + 1}`, endDate: null, canceledAt: null, paymentProviderId: null, ...data };
+        subscriptions.push(created);
+        return created;
+      }),
+      update: jest.fn(async (id: string, data: any) => {
+        const index = subscriptions.findIndex(s => s.id === id);
+        subscriptions[index] = { ...subscriptions[index], ...data };
+        return subscriptions[index];
+      }),
+      getUsage: async () => ({ users: 3, rooms: 1, storage: 0 })
+    };
+    const companyRepository = {
+      findMember: async (_companyId: string, userId: string) =>
+        ({ owner: { role: 'owner' }, member: { role: 'member' } } as any)[userId] || null,
+      getMembers: async () => [{ userId: 'owner', role: 'owner' }]
+    };
+    checkout = {
+      name: 'test',
+      createCheckoutSession: jest.fn().mockResolvedValue({ id: 'cs_1', url: 'https://pay.example.com/cs_1' }),
+      changeSubscriptionPrice: jest.fn().mockResolvedValue(undefined),
+      cancelSubscription: jest.fn().mockResolvedValue(undefined)
+    };
+    activityService = { createActivity: jest.fn().mockResolvedValue(undefined) };
+
+    service = new SubscriptionService(subscriptionRepository, companyRepository as any, activityService as any, logger);
+    service.registerCheckoutProvider(checkout);
+  });
+
+  describe('startSubscription', () => {
+    it('should only let owners and admins start a subscription', async () => {
+      await expect(service.startSubscription('company-1', { planId: 'free' }, member)).rejects.toThrow(AuthorizationError);
+      expect(subscriptionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should send a paid plan through checkout without subscribing the company', async () => {
+      const result = await service.startSubscription('company-1', { planId: 'pro', trialDays: 14 }, owner);
+
+      expect(result).toEqual({ subscription: null, checkout: { id: 'cs_1', url: 'https://pay.example.com/cs_1' } });
+      expect(checkout.createCheckoutSession).toHaveBeenCalledWith({
+        companyId: 'company-1',
+        planId: 'pro',
+        priceId: 'price_pro',
+        trialDays: 14,
+        customerEmail: 'owner@example.com',
+        successUrl: 'https://app.example.com/companies/company-1/billing?checkout=success',
+        cancelUrl: 'https://app.example.com/companies/company-1/billing?checkout=canceled'
+      });
+      expect(subscriptionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should cap trial days', async () => {
+      for (const trialDays of [31, 365, -1, 2.5]) {
+        await expect(service.startSubscription('company-1', { planId: 'pro', trialDays }, owner))
+          .rejects.toThrow(ValidationError);
+      }
+      expect(checkout.createCheckoutSession).not.toHaveBeenCalled();
+    });
+
+    it('should start a free plan right away', async () => {
+      const result = await service.startSubscription('company-1', { planId: 'free' }, owner);
+
+      expect(result.subscription).toMatchObject({ companyId: 'company-1', planId: 'free', status: 'active' });
+      expect(checkout.createCheckoutSession).not.toHaveBeenCalled();
+    });
+
+    it('should refuse paid plans when no payment provider is configured', async () => {
+      const unconfigured = new SubscriptionService(subscriptionRepository, { findMember: async () => ({ role: 'owner' }) } as any, activityService as any, logger);
+
+      await expect(unconfigured.startSubscription('company-1', { planId: 'pro' }, owner))
+        .rejects.toMatchObject({ statusCode: 503, code: 'BILLING_UNAVAILABLE' });
+      expect(subscriptionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second subscription', async () => {
+      await service.startSubscription('company-1', { planId: 'free' }, owner);
+      await expect(service.startSubscription('company-1', { planId: 'pro' }, owner)).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('changePlan', () => {
+    it('should send a company on a free subscription through checkout for a paid plan', async () => {
+      await service.startSubscription('company-1', { planId: 'free' }, owner);
+
+      const result = await service.changePlan('company-1', 'team', owner);
+
+      expect(result.checkout).toEqual({ id: 'cs_1', url: 'https://pay.example.com/cs_1' });
+      expect(subscriptions[0].planId).toBe('free');
+      expect(subscriptionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should ask the provider to change a paid subscription and leave the plan to its webhook', async () => {
+      subscriptions.push({ id: 'sub-paid', companyId: 'company-1', planId: 'pro', status: 'active', paymentProviderId: 'sub_stripe' });
+
+      const upgrade = await service.changePlan('company-1', 'team', owner);
+      expect(upgrade).toMatchObject({ pending: true, subscription: { planId: 'pro' } });
+      expect(checkout.changeSubscriptionPrice).toHaveBeenCalledWith('sub_stripe', 'price_team', 'team');
+
+      const downgrade = await service.changePlan('company-1', 'free', owner);
+      expect(downgrade.pending).toBe(true);
+      expect(checkout.cancelSubscription).toHaveBeenCalledWith('sub_stripe');
+
+      expect(subscriptionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a downgrade the current usage does not fit', async () => {
+      await service.startSubscription('company-1', { planId: 'free' }, owner);
+
+      await expect(service.changePlan('company-1', 'tiny', owner)).rejects.toThrow(PlanLimitError);
+    });
+
+    it('should not let members change the plan', async () => {
+      await expect(service.changePlan('company-1', 'team', member)).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('payment provider events', () => {
+    it('should subscribe the company to a paid plan once the provider reports it', async () => {
+      const subscription = await service.syncFromProvider({
+        providerId: 'sub_stripe',
+        companyId: 'company-1',
+        planId: 'pro',
+        status: 'trialing'
+      });
+
+      expect(subscription).toMatchObject({ companyId: 'company-1', planId: 'pro', status: 'trialing', paymentProviderId: 'sub_stripe' });
+    });
+
+    it('should attach a checkout to the free subscription it upgrades', async () => {
+      await service.startSubscription('company-1', { planId: 'free' }, owner);
+
+      await service.syncFromProvider({ providerId: 'sub_stripe', companyId: 'company-1', planId: 'team', status: 'active' });
+
+      expect(subscriptions).toHaveLength(1);
+      expect(subscriptions[0]).toMatchObject({ planId: 'team', paymentProviderId: 'sub_stripe' });
+    });
+  });
+
+  it('should cancel a paid subscription at the provider too', async () => {
+    subscriptions.push({ id: 'sub-paid', companyId: 'company-1', planId: 'pro', status: 'active', paymentProviderId: 'sub_stripe' });
+
+    const canceled = await service.cancelSubscription('company-1', owner);
+
+    expect(checkout.cancelSubscription).toHaveBeenCalledWith('sub_stripe');
+    expect(canceled.status).toBe('canceled');
+  });
+
+  it('should not cancel locally when the provider cannot be reached', async () => {
+    subscriptions.push({ id: 'sub-paid', companyId: 'company-1', planId: 'pro', status: 'active', paymentProviderId: 'sub_stripe' });
+    checkout.cancelSubscription.mockRejectedValue(new AppError('Payment provider request failed', 502));
+
+    await expect(service.cancelSubscription('company-1', owner)).rejects.toThrow('Payment provider request failed');
+    expect(subscriptions[0].status).toBe('active');
+  });
+});
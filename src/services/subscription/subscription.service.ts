@@ -0,0 +1,623 @@
+// src/services/subscription/subscription.service.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import {
+  SubscriptionRepository,
+  Plan,
+  Subscription,
+  SubscriptionStatus,
+  CompanyUsage
+} from '../../repositories/subscription.repository';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { ActivityService } from '../activity/activity.service';
+import { CompanyActor } from '../company/company.service';
+import { StripeCheckoutClient } from '../billing/providers/stripe.client';
+import { CheckoutSession, PaymentCheckoutProvider } from '../billing/types';
+import { env } from '../../config/env';
+import {
+  AppError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  PlanLimitError,
+  ValidationError
+} from '../../utils/errors';
+
+// Allowed status changes. Canceled subscriptions are final; a new one has to be started.
+const STATUS_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  trialing: ['active', 'past_due', 'canceled'],
+  active: ['past_due', 'canceled'],
+  past_due: ['active', 'unpaid', 'canceled'],
+  unpaid: ['active', 'canceled'],
+  canceled: []
+};
+
+// Statuses under which the subscribed plan's limits apply. Otherwise the free plan's do.
+const ENTITLED_STATUSES: SubscriptionStatus[] = ['trialing', 'active', 'past_due'];
+
+// Company roles allowed to manage the subscription
+const BILLING_ROLES = ['owner', 'admin'];
+
+export type PlanLimit = 'users' | 'rooms' | 'storage';
+
+/**
+ * Outcome of a subscription request by a company. Paid plans only take
+ * effect once the payment provider's webhook reports them, so a request
+ * for one returns where to pay, or that the provider is applying it.
+ */
+export interface SubscriptionRequestResult {
+  subscription: Subscription | null;
+  // Hosted page where the company pays for the requested plan
+  checkout?: CheckoutSession;
+  // The payment provider was asked to make the change
+  pending?: boolean;
+}
+
+/**
+ * A company's subscription together with its plan and current usage
+ */
+export interface CompanySubscriptionView {
+  subscription: Subscription | null;
+  plan: Plan | null;
+  usage: CompanyUsage;
+}
+
+@injectable()
+export class SubscriptionService {
+  private checkoutProvider: PaymentCheckoutProvider | null = null;
+
+  constructor(
+    @inject('SubscriptionRepository') private subscriptionRepository: SubscriptionRepository,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('SubscriptionService');
+
+    if (env.STRIPE_SECRET_KEY) {
+      this.registerCheckoutProvider(new StripeCheckoutClient(env.STRIPE_SECRET_KEY));
+    }
+  }
+
+  /**
+   * Set the payment provider paid plans are bought through
+   */
+  registerCheckoutProvider(provider: PaymentCheckoutProvider): void {
+    this.checkoutProvider = provider;
+  }
+
+  /**
+   * List available plans
+   */
+  async listPlans(): Promise<Plan[]> {
+    try {
+      return await this.subscriptionRepository.listPlans();
+    } catch (error: any) {
+      this.logger.error('Failed to list plans', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a company's subscription, effective plan and usage
+   */
+  async getCompanySubscription(companyId: string, actor?: CompanyActor): Promise<CompanySubscriptionView> {
+    try {
+      if (actor) {
+        await this.assertCompanyAccess(companyId, actor);
+      }
+
+      const subscription = await this.subscriptionRepository.findCurrentByCompany(companyId);
+      const plan = await this.getEffectivePlan(companyId, subscription);
+      const usage = await this.subscriptionRepository.getUsage(companyId);
+
+      return { subscription, plan, usage };
+    } catch (error: any) {
+      this.logger.error('Failed to get company subscription', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Start a subscription for a company. Free plans start right away; paid
+   * plans, with an optional trial, start a checkout and begin once the
+   * payment provider reports the subscription.
+   */
+  async startSubscription(companyId: string, data: {
+    planId: string;
+    trialDays?: number;
+  }, actor: CompanyActor): Promise<SubscriptionRequestResult> {
+    try {
+      await this.assertCompanyAccess(companyId, actor, BILLING_ROLES);
+
+      const plan = await this.getActivePlan(data.planId);
+
+      const existing = await this.subscriptionRepository.findCurrentByCompany(companyId);
+      if (existing) {
+        throw new ConflictError('Company already has a subscription', { subscriptionId: existing.id });
+      }
+
+      await this.assertUsageFitsPlan(companyId, plan);
+
+      const trialDays = data.trialDays || 0;
+      if (!Number.isInteger(trialDays) || trialDays < 0 || trialDays > env.SUBSCRIPTION_MAX_TRIAL_DAYS) {
+        throw new ValidationError(`Trial days must be a whole number from 0 to ${env.SUBSCRIPTION_MAX_TRIAL_DAYS}`);
+      }
+
+      if (this.isPaid(plan)) {
+        const checkout = await this.createCheckout(companyId, plan, actor, trialDays);
+        return { subscription: null, checkout };
+      }
+
+      const subscription = await this.subscriptionRepository.create({
+        companyId,
+        planId: plan.id,
+        status: 'active',
+        startDate: new Date()
+      });
+
+      await this.recordChange(subscription, actor.id, {
+        action: 'started',
+        planId: plan.id,
+        status: subscription.status
+      });
+
+      return { subscription };
+    } catch (error: any) {
+      this.logger.error('Failed to start subscription', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Move a company to another plan. Downgrades are rejected while usage exceeds the new plan.
+   * Subscriptions paid through the provider are changed there, and a company without one
+   * pays for a paid plan through checkout; only free-to-free changes apply right away.
+   */
+  async changePlan(companyId: string, planId: string, actor: CompanyActor): Promise<SubscriptionRequestResult> {
+    try {
+      await this.assertCompanyAccess(companyId, actor, BILLING_ROLES);
+
+      const subscription = await this.getCurrentSubscription(companyId);
+      if (subscription.planId === planId) {
+        return { subscription };
+      }
+
+      const plan = await this.getActivePlan(planId);
+      await this.assertUsageFitsPlan(companyId, plan);
+
+      if (subscription.paymentProviderId) {
+        const provider = this.requireCheckoutProvider();
+        if (this.isPaid(plan)) {
+          await provider.changeSubscriptionPrice(subscription.paymentProviderId, this.requirePriceId(plan), plan.id);
+        } else {
+          // Without the paid subscription the company falls back to the free plan
+          await provider.cancelSubscription(subscription.paymentProviderId);
+        }
+
+        this.logger.info('Requested plan change from payment provider', {
+          companyId,
+          subscriptionId: subscription.id,
+          planId: plan.id
+        });
+        return { subscription, pending: true };
+      }
+
+      if (this.isPaid(plan)) {
+        const checkout = await this.createCheckout(companyId, plan, actor);
+        return { subscription, checkout };
+      }
+
+      const updated = await this.subscriptionRepository.update(subscription.id, { planId: plan.id });
+      if (!updated) {
+        throw new NotFoundError('Subscription', subscription.id);
+      }
+
+      await this.recordChange(updated, actor.id, {
+        action: 'plan_changed',
+        previousPlanId: subscription.planId,
+        planId: plan.id
+      });
+
+      return { subscription: updated };
+    } catch (error: any) {
+      this.logger.error('Failed to change plan', { companyId, planId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a trialing or overdue subscription as paid and active
+   */
+  async activateSubscription(companyId: string, actorId?: string): Promise<Subscription> {
+    return this.transition(companyId, 'active', actorId, { endDate: null });
+  }
+
+  /**
+   * Mark a subscription as past due after a failed payment
+   */
+  async markPastDue(companyId: string, actorId?: string): Promise<Subscription> {
+    return this.transition(companyId, 'past_due', actorId);
+  }
+
+  /**
+   * Mark a past due subscription as unpaid once retries are exhausted
+   */
+  async markUnpaid(companyId: string, actorId?: string): Promise<Subscription> {
+    return this.transition(companyId, 'unpaid', actorId);
+  }
+
+  /**
+   * Cancel a company's subscription. The company falls back to the free plan.
+   */
+  async cancelSubscription(companyId: string, actor?: CompanyActor): Promise<Subscription> {
+    if (actor) {
+      await this.assertCompanyAccess(companyId, actor, BILLING_ROLES);
+    }
+
+    // Stop the provider from billing for it too
+    const subscription = await this.getCurrentSubscription(companyId);
+    if (subscription.paymentProviderId) {
+      await this.requireCheckoutProvider().cancelSubscription(subscription.paymentProviderId);
+    }
+
+    const now = new Date();
+    return this.transition(companyId, 'canceled', actor?.id, { canceledAt: now, endDate: now });
+  }
+
+  /**
+   * Apply a subscription change reported by the payment provider. The provider is
+   * authoritative for plan and status, so plan limits are not checked here. Changes
+   * are attributed to the company owner. Returns null if the event matches no
+   * subscription and carries too little data to start one.
+   */
+  async syncFromProvider(data: {
+    providerId: string;
+    companyId?: string;
+    planId?: string;
+    status?: SubscriptionStatus;
+  }, context: Record<string, any> = {}): Promise<Subscription | null> {
+    try {
+      let subscription = await this.subscriptionRepository.findByPaymentProviderId(data.providerId);
+      if (!subscription && data.companyId) {
+        subscription = await this.subscriptionRepository.findCurrentByCompany(data.companyId);
+      }
+
+      const metadata = { source: 'payment_provider', ...context };
+
+      if (!subscription) {
+        if (!data.companyId || !data.planId || !data.status || data.status === 'canceled') {
+          return null;
+        }
+
+        const plan = await this.getActivePlan(data.planId);
+        const created = await this.subscriptionRepository.create({
+          companyId: data.companyId,
+          planId: plan.id,
+          status: data.status,
+          startDate: new Date(),
+          paymentProviderId: data.providerId
+        });
+
+        await this.recordChange(created, await this.findCompanyOwnerId(created.companyId), {
+          action: 'started',
+          planId: plan.id,
+          status: created.status,
+          ...metadata
+        });
+
+        return created;
+      }
+
+      const actorId = await this.findCompanyOwnerId(subscription.companyId);
+
+      if (subscription.paymentProviderId !== data.providerId) {
+        subscription = await this.subscriptionRepository.update(subscription.id, {
+          paymentProviderId: data.providerId
+        }) || subscription;
+      }
+
+      if (data.planId && data.planId !== subscription.planId) {
+        const plan = await this.subscriptionRepository.findPlanById(data.planId);
+        if (!plan) {
+          throw new NotFoundError('Plan', data.planId);
+        }
+
+        const previousPlanId = subscription.planId;
+        subscription = await this.subscriptionRepository.update(subscription.id, { planId: plan.id }) || subscription;
+
+        await this.recordChange(subscription, actorId, {
+          action: 'plan_changed',
+          previousPlanId,
+          planId: plan.id,
+          ...metadata
+        });
+      }
+
+      if (data.status && data.status !== subscription.status) {
+        if (!STATUS_TRANSITIONS[subscription.status].includes(data.status)) {
+          this.logger.warn('Ignoring unsupported subscription status change from provider', {
+            subscriptionId: subscription.id,
+            from: subscription.status,
+            to: data.status
+          });
+          return subscription;
+        }
+
+        const now = new Date();
+        const changes = data.status === 'canceled'
+          ? { canceledAt: now, endDate: now }
+          : data.status === 'active' ? { endDate: null } : {};
+
+        subscription = await this.applyStatus(subscription, data.status, actorId, changes, metadata);
+      }
+
+      return subscription;
+    } catch (error: any) {
+      this.logger.error('Failed to sync subscription from provider', {
+        providerId: data.providerId,
+        companyId: data.companyId,
+        error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reject adding a member if the company is at its plan's user limit
+   */
+  async assertCanAddMember(companyId: string): Promise<void> {
+    await this.assertWithinLimit(companyId, 'users', 1);
+  }
+
+  /**
+   * Reject creating a room if the company is at its plan's room limit
+   */
+  async assertCanCreateRoom(companyId: string): Promise<void> {
+    await this.assertWithinLimit(companyId, 'rooms', 1);
+  }
+
+  /**
+   * Reject storing additional bytes beyond the plan's storage limit
+   */
+  async assertCanStore(companyId: string, bytes: number): Promise<void> {
+    await this.assertWithinLimit(companyId, 'storage', bytes);
+  }
+
+  /**
+   * Bytes the plan still lets the company store, or undefined when there is
+   * no plan to enforce
+   */
+  async getRemainingStorage(companyId: string): Promise<number | undefined> {
+    const subscription = await this.subscriptionRepository.findCurrentByCompany(companyId);
+    const plan = await this.getEffectivePlan(companyId, subscription);
+
+    if (!plan) {
+      return undefined;
+    }
+
+    const usage = await this.subscriptionRepository.getUsage(companyId);
+    return Math.max(this.limitOf(plan, 'storage') - usage.storage, 0);
+  }
+
+  private async assertWithinLimit(companyId: string, limit: PlanLimit, increment: number): Promise<void> {
+    const subscription = await this.subscriptionRepository.findCurrentByCompany(companyId);
+    const plan = await this.getEffectivePlan(companyId, subscription);
+
+    // Without a subscription or a free plan there is nothing to enforce
+    if (!plan) {
+      return;
+    }
+
+    const usage = await this.subscriptionRepository.getUsage(companyId);
+    const max = this.limitOf(plan, limit);
+
+    if (usage[limit] + increment > max) {
+      throw new PlanLimitError(`The ${plan.name} plan allows at most ${this.describeLimit(limit, max)}`, {
+        limit,
+        max,
+        current: usage[limit],
+        requested: increment,
+        planId: plan.id
+      });
+    }
+  }
+
+  private async assertUsageFitsPlan(companyId: string, plan: Plan): Promise<void> {
+    const usage = await this.subscriptionRepository.getUsage(companyId);
+
+    for (const limit of ['users', 'rooms', 'storage'] as PlanLimit[]) {
+      const max = this.limitOf(plan, limit);
+      if (usage[limit] > max) {
+        throw new PlanLimitError(
+          `Current usage exceeds the ${plan.name} plan, which allows at most ${this.describeLimit(limit, max)}`,
+          { limit, max, current: usage[limit], planId: plan.id }
+        );
+      }
+    }
+  }
+
+  private async transition(
+    companyId: string,
+    status: SubscriptionStatus,
+    actorId?: string,
+    changes: { endDate?: Date | null; canceledAt?: Date | null } = {}
+  ): Promise<Subscription> {
+    try {
+      const subscription = await this.getCurrentSubscription(companyId);
+
+      if (subscription.status !== status && !STATUS_TRANSITIONS[subscription.status].includes(status)) {
+        throw new ValidationError(`Cannot change subscription from ${subscription.status} to ${status}`);
+      }
+
+      return await this.applyStatus(subscription, status, actorId, changes);
+    } catch (error: any) {
+      this.logger.error('Failed to change subscription status', { companyId, status, error });
+      throw error;
+    }
+  }
+
+  private async applyStatus(
+    subscription: Subscription,
+    status: SubscriptionStatus,
+    actorId?: string,
+    changes: { endDate?: Date | null; canceledAt?: Date | null } = {},
+    metadata: Record<string, any> = {}
+  ): Promise<Subscription> {
+    if (subscription.status === status) {
+      return subscription;
+    }
+
+    const updated = await this.subscriptionRepository.update(subscription.id, { status, ...changes });
+    if (!updated) {
+      throw new NotFoundError('Subscription', subscription.id);
+    }
+
+    this.logger.info('Subscription status changed', {
+      subscriptionId: subscription.id,
+      companyId: subscription.companyId,
+      from: subscription.status,
+      to: status
+    });
+
+    await this.recordChange(updated, actorId, {
+      action: 'status_changed',
+      previousStatus: subscription.status,
+      status,
+      ...metadata
+    });
+
+    return updated;
+  }
+
+  private isPaid(plan: Plan): boolean {
+    return Number(plan.price) > 0;
+  }
+
+  private async createCheckout(
+    companyId: string,
+    plan: Plan,
+    actor: CompanyActor,
+    trialDays?: number
+  ): Promise<CheckoutSession> {
+    const billingUrl = `${env.APP_URL}/companies/${encodeURIComponent(companyId)}/billing`;
+
+    const checkout = await this.requireCheckoutProvider().createCheckoutSession({
+      companyId,
+      planId: plan.id,
+      priceId: this.requirePriceId(plan),
+      trialDays,
+      customerEmail: actor.email,
+      successUrl: `${billingUrl}?checkout=success`,
+      cancelUrl: `${billingUrl}?checkout=canceled`
+    });
+
+    this.logger.info('Checkout started', { companyId, planId: plan.id, checkoutId: checkout.id });
+    return checkout;
+  }
+
+  private requireCheckoutProvider(): PaymentCheckoutProvider {
+    if (!this.checkoutProvider) {
+      throw new AppError('Paid plans are not available', 503, 'BILLING_UNAVAILABLE');
+    }
+    return this.checkoutProvider;
+  }
+
+  private requirePriceId(plan: Plan): string {
+    if (!plan.paymentProviderPriceId) {
+      throw new AppError(`The ${plan.name} plan cannot be purchased`, 503, 'BILLING_UNAVAILABLE', { planId: plan.id });
+    }
+    return plan.paymentProviderPriceId;
+  }
+
+  private async getCurrentSubscription(companyId: string): Promise<Subscription> {
+    const subscription = await this.subscriptionRepository.findCurrentByCompany(companyId);
+    if (!subscription) {
+      throw new NotFoundError('Subscription for company', companyId);
+    }
+    return subscription;
+  }
+
+  private async getActivePlan(planId: string): Promise<Plan> {
+    const plan = await this.subscriptionRepository.findPlanById(planId);
+    if (!plan || !plan.isActive) {
+      throw new NotFoundError('Plan', planId);
+    }
+    return plan;
+  }
+
+  /**
+   * The plan whose limits currently apply to a company
+   */
+  private async getEffectivePlan(companyId: string, subscription: Subscription | null): Promise<Plan | null> {
+    if (subscription && ENTITLED_STATUSES.includes(subscription.status)) {
+      const plan = await this.subscriptionRepository.findPlanById(subscription.planId);
+      if (plan) {
+        return plan;
+      }
+      this.logger.warn('Subscription references a missing plan', { companyId, planId: subscription.planId });
+    }
+
+    return this.subscriptionRepository.findFreePlan();
+  }
+
+  private limitOf(plan: Plan, limit: PlanLimit): number {
+    switch (limit) {
+      case 'users':
+        return plan.maxUsers;
+      case 'rooms':
+        return plan.maxRooms;
+      case 'storage':
+        return plan.maxStorage;
+    }
+  }
+
+  private describeLimit(limit: PlanLimit, max: number): string {
+    switch (limit) {
+      case 'users':
+        return `${max} users`;
+      case 'rooms':
+        return `${max} rooms`;
+      case 'storage':
+        return `${max} bytes of storage`;
+    }
+  }
+
+  private async assertCompanyAccess(companyId: string, actor: CompanyActor, roles?: string[]): Promise<void> {
+    // Platform admins can manage any company's subscription
+    if (actor.role === 'admin') {
+      return;
+    }
+
+    const member = await this.companyRepository.findMember(companyId, actor.id);
+    if (!member) {
+      throw new AuthorizationError('You are not a member of this company');
+    }
+    if (roles && !roles.includes(member.role)) {
+      throw new AuthorizationError('Only company owners and admins can manage the subscription');
+    }
+  }
+
+  private async findCompanyOwnerId(companyId: string): Promise<string | undefined> {
+    const members = await this.companyRepository.getMembers(companyId);
+    return members.find(member => member.role === 'owner')?.userId;
+  }
+
+  private async recordChange(
+    subscription: Subscription,
+    actorId: string | undefined,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    // System-driven changes (e.g. payment events) have no acting user
+    if (!actorId) {
+      return;
+    }
+
+    await this.activityService.createActivity({
+      type: 'subscription_change',
+      userId: actorId,
+      companyId: subscription.companyId,
+      metadata: { subscriptionId: subscription.id, ...metadata }
+    });
+  }
+}
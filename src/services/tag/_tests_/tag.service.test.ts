@@ -0,0 +1,156 @@
+// src/services/tag/_tests_/tag.service.test.ts
+import { TagService } from '../tag.service';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../../utils/errors';
+import { createTestLogger } from '../../../tests/helpers';
+
+jest.mock('../../../config/env', () => ({ env: {} }));
+jest.mock('../../../utils/logger', () => ({ Logger: class {} }));
+jest.mock('../../../repositories/tag.repository', () => ({ TagRepository: class {} }));
+jest.mock('../../../repositories/file.repository', () => ({ FileRepository: class {} }));
+jest.mock('../../../repositories/room.repository', () => ({ RoomRepository: class {} }));
+jest.mock('../../../repositories/company.repository', () => ({ CompanyRepository: class {} }));
+jest.mock('../../activity/activity.service', () => ({ ActivityService: class {} }));
+jest.mock('../../search/file-search-indexer', () => ({ FileSearchIndexer: class {} }));
+
+const logger = createTestLogger();
+
+const tag = (id: string, companyId: string, name: string) => ({ id, companyId, name, color: null });
+
+describe('TagService', () => {
+  let tags: any[];
+  let fileTags: Map<string, Set<string>>;
+  let members: Record<string, string>;
+  let tagRepository: any;
+  let fileRepository: any;
+  let activityService: { createActivity: jest.Mock };
+  let fileSearchIndexer: { indexFile: jest.Mock };
+  let service: TagService;
+
+  const owner = { id: 'owner', email: 'owner@example.com' };
+  const member = { id: 'member', email: 'member@example.com' };
+  const outsider = { id: 'outsider', email: 'outsider@example.com' };
+
+  beforeEach(() => {
+    tags = [tag('tag-1', 'company-1', 'Invoices'), tag('tag-2', 'company-1', 'Drafts'), tag('other', 'company-2', 'Other')];
+    fileTags = new Map([['file-1', new Set(['tag-1'])], ['file-2', new Set(['tag-1'])]]);
+    members = { owner: 'owner', member: 'member' };
+
+    tagRepository = {
+      findById: async (id: string) => tags.find(t => t.id === id) || null,
+      findByIds: async (ids: string[]) => tags.filter(t => ids.includes(t.id)),
+      findByName: async (companyId: string, name: string) => tags.find(t => t.companyId === companyId && t.name === name) || null,
+      findByFileId: async (fileId: string) => tags.filter(t => fileTags.get(fileId)?.has(t.id)),
+      findFileIdsByTagId: async (tagId: string) => [...fileTags].filter(([, ids]) => ids.has(tagId)).map(([fileId]) => fileId),
+      create: async (data: any) => { const created = { id: `tag-${tags.length + 1}`, ...data }; tags.push(created); return created; },
+      update: async (id: string, data: any) => {
+        const index = tags.findIndex(t => t.id === id);
+        tags[index] = { ...tags[index], ...JSON.parse(JSON.stringify(data)) };
+        return tags[index];
+      },
+      delete: jest.fn(async (id: string) => {
+        tags = tags.filter(t => t.id !== id);
+        fileTags.forEach(ids => ids.delete(id));
+      }),
+      addToFile: async (fileId: string, ids: string[]) => {
+        const current = fileTags.get(fileId) || new Set<string>();
+        fileTags.set(fileId, current);
+        const added = ids.filter(id => !current.has(id));
+        added.forEach(id => current.add(id));
+        return added;
+      },
+      removeFromFile: async (fileId: string, ids: string[]) => ids.filter(id => fileTags.get(fileId)?.delete(id))
+    };
+    fileRepository = {
+      findById: async (id: string) => id.startsWith('file-') ? { id, name: `${id}.pdf`, roomId: 'room-1', isDeleted: false } : null,
+      checkAccess: async (fileId: string, userId: string) => userId !== 'outsider'
+    };
+    const roomRepository = { findCompanyId: async () => 'company-1' };
+    const companyRepository = {
+      findMember: async (_companyId: string, userId: string) => members[userId] ? { role: members[userId] } : null
+    };
+    activityService = { createActivity: jest.fn().mockResolvedValue(undefined) };
+    fileSearchIndexer = { indexFile: jest.fn().mockResolvedValue(undefined) };
+
+    service = new TagService(
+      tagRepository,
+      fileRepository,
+      roomRepository as any,
+      companyRepository as any,
+      activityService as any,
+      fileSearchIndexer as any,
+      logger
+    );
+  });
+
+  describe('tag definitions', () => {
+    it('should only let company members create tags', async () => {
+      await expect(service.createTag('company-1', outsider, { name: 'New' })).rejects.toThrow(AuthorizationError);
+      await expect(service.createTag('company-1', member, { name: 'New', color: '#00ff00' }))
+        .resolves.toMatchObject({ name: 'New', color: '#00ff00', createdById: 'member' });
+    });
+
+    it('should reject duplicate names and invalid colors', async () => {
+      await expect(service.createTag('company-1', member, { name: ' Invoices ' })).rejects.toThrow(ConflictError);
+      await expect(service.createTag('company-1', member, { name: 'Red', color: 'red' })).rejects.toThrow(ValidationError);
+      await expect(service.createTag('company-1', member, { name: 'x'.repeat(51) })).rejects.toThrow(ValidationError);
+    });
+
+    it('should only let owners and admins rename tags, reindexing tagged files', async () => {
+      await expect(service.updateTag('company-1', 'tag-1', member, { name: 'Bills' })).rejects.toThrow(AuthorizationError);
+
+      await service.updateTag('company-1', 'tag-1', owner, { name: 'Bills' });
+
+      expect(fileSearchIndexer.indexFile.mock.calls.map(([fileId]) => fileId)).toEqual(['file-1', 'file-2']);
+    });
+
+    it("should not reach another company's tag", async () => {
+      await expect(service.deleteTag('company-1', 'other', owner)).rejects.toThrow(NotFoundError);
+      expect(tagRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should log the deletion and reindex the files it was removed from', async () => {
+      await service.deleteTag('company-1', 'tag-1', owner);
+
+      expect(await service.getFileTags('file-1', 'owner')).toEqual([]);
+      expect(fileSearchIndexer.indexFile).toHaveBeenCalledTimes(2);
+      expect(activityService.createActivity).toHaveBeenCalledWith({
+        type: 'update_tags',
+        userId: 'owner',
+        companyId: 'company-1',
+        metadata: { action: 'delete_tag', tagId: 'tag-1', tagName: 'Invoices', fileCount: 2 }
+      });
+    });
+  });
+
+  describe('file tags', () => {
+    it('should refuse tags from another company', async () => {
+      await expect(service.addTagsToFile('file-3', ['other'], 'member')).rejects.toThrow(ValidationError);
+      expect(fileTags.has('file-3')).toBe(false);
+    });
+
+    it('should refuse users without access to the file', async () => {
+      await expect(service.addTagsToFile('file-1', ['tag-2'], 'outsider')).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should record only the tags that actually changed', async () => {
+      await service.addTagsToFile('file-1', ['tag-1', 'tag-2'], 'member');
+      await service.addTagsToFile('file-1', ['tag-1'], 'member');
+
+      expect(activityService.createActivity).toHaveBeenCalledTimes(1);
+      expect(activityService.createActivity.mock.calls[0][0]).toMatchObject({
+        type: 'update_tags',
+        fileId: 'file-1',
+        metadata: { added: ['Drafts'], removed: [] }
+      });
+    });
+
+    it('should report bulk changes per file', async () => {
+      const results = await service.bulkUpdateFileTags(['file-1', 'missing'], { add: ['tag-2'], remove: ['tag-1'] }, 'member');
+
+      expect(results).toEqual([
+        { id: 'file-1', success: true, added: ['tag-2'], removed: ['tag-1'] },
+        { id: 'missing', success: false, message: expect.stringContaining('not found') }
+      ]);
+    });
+  });
+});
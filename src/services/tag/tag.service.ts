@@ -0,0 +1,361 @@
+// src/services/tag/tag.service.ts
+import { injectable, inject } from 'inversify';
+import { Logger } from '../../utils/logger';
+import { TagRepository, Tag } from '../../repositories/tag.repository';
+import { FileRepository, FileEntity } from '../../repositories/file.repository';
+import { RoomRepository } from '../../repositories/room.repository';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { ActivityService } from '../activity/activity.service';
+import { FileSearchIndexer } from '../search/file-search-indexer';
+import { CompanyActor } from '../company/company.service';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+
+const MAX_TAG_NAME_LENGTH = 50;
+const TAG_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Company roles allowed to rename or delete tag definitions
+const TAG_MANAGER_ROLES = ['owner', 'admin'];
+
+export interface BulkTagResult {
+  id: string;
+  success: boolean;
+  message?: string;
+  added?: string[];
+  removed?: string[];
+}
+
+@injectable()
+export class TagService {
+  constructor(
+    @inject('TagRepository') private tagRepository: TagRepository,
+    @inject('FileRepository') private fileRepository: FileRepository,
+    @inject('RoomRepository') private roomRepository: RoomRepository,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('ActivityService') private activityService: ActivityService,
+    @inject('FileSearchIndexer') private fileSearchIndexer: FileSearchIndexer,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('TagService');
+  }
+
+  /**
+   * List a company's tags
+   */
+  async listTags(companyId: string, actor: CompanyActor): Promise<(Tag & { fileCount: number })[]> {
+    try {
+      await this.assertCompanyAccess(companyId, actor);
+      return await this.tagRepository.listByCompany(companyId);
+    } catch (error: any) {
+      this.logger.error('Failed to list tags', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a tag for a company
+   */
+  async createTag(companyId: string, actor: CompanyActor, data: {
+    name: string;
+    color?: string | null;
+  }): Promise<Tag> {
+    try {
+      await this.assertCompanyAccess(companyId, actor);
+
+      const name = this.validateName(data.name);
+      const color = this.validateColor(data.color);
+
+      if (await this.tagRepository.findByName(companyId, name)) {
+        throw new ConflictError(`Tag "${name}" already exists`);
+      }
+
+      const tag = await this.tagRepository.create({
+        companyId,
+        name,
+        color,
+        createdById: actor.id
+      });
+
+      this.logger.info('Tag created', { tagId: tag.id, companyId, name });
+      return tag;
+    } catch (error: any) {
+      this.logger.error('Failed to create tag', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename or recolor a tag
+   */
+  async updateTag(companyId: string, tagId: string, actor: CompanyActor, data: {
+    name?: string;
+    color?: string | null;
+  }): Promise<Tag> {
+    try {
+      const tag = await this.getTag(companyId, tagId);
+      await this.assertCompanyAccess(tag.companyId, actor, TAG_MANAGER_ROLES);
+
+      const name = data.name !== undefined ? this.validateName(data.name) : undefined;
+      const color = data.color !== undefined ? this.validateColor(data.color) : undefined;
+
+      if (name && name !== tag.name) {
+        const existing = await this.tagRepository.findByName(tag.companyId, name);
+        if (existing && existing.id !== tag.id) {
+          throw new ConflictError(`Tag "${name}" already exists`);
+        }
+      }
+
+      const updated = await this.tagRepository.update(tagId, { name, color });
+      if (!updated) {
+        throw new NotFoundError('Tag', tagId);
+      }
+
+      // The search index stores tag names
+      if (name && name !== tag.name) {
+        await this.reindexTaggedFiles(await this.tagRepository.findFileIdsByTagId(tagId));
+      }
+
+      return updated;
+    } catch (error: any) {
+      this.logger.error('Failed to update tag', { tagId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a tag and remove it from every file
+   */
+  async deleteTag(companyId: string, tagId: string, actor: CompanyActor): Promise<void> {
+    try {
+      const tag = await this.getTag(companyId, tagId);
+      await this.assertCompanyAccess(tag.companyId, actor, TAG_MANAGER_ROLES);
+
+      const fileIds = await this.tagRepository.findFileIdsByTagId(tagId);
+      await this.tagRepository.delete(tagId);
+      await this.reindexTaggedFiles(fileIds);
+
+      await this.activityService.createActivity({
+        type: 'update_tags',
+        userId: actor.id,
+        companyId: tag.companyId,
+        metadata: {
+          action: 'delete_tag',
+          tagId,
+          tagName: tag.name,
+          fileCount: fileIds.length
+        }
+      });
+
+      this.logger.info('Tag deleted', { tagId, companyId: tag.companyId, files: fileIds.length });
+    } catch (error: any) {
+      this.logger.error('Failed to delete tag', { tagId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the tags attached to a file
+   */
+  async getFileTags(fileId: string, userId: string): Promise<Tag[]> {
+    try {
+      await this.getAccessibleFile(fileId, userId);
+      return await this.tagRepository.findByFileId(fileId);
+    } catch (error: any) {
+      this.logger.error('Failed to get file tags', { fileId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Attach tags to a file or folder
+   */
+  async addTagsToFile(fileId: string, tagIds: string[], userId: string): Promise<Tag[]> {
+    try {
+      const file = await this.getAccessibleFile(fileId, userId);
+      const tagsToAdd = await this.getCompanyTags(file, tagIds);
+
+      const added = await this.tagRepository.addToFile(fileId, tagsToAdd.map(tag => tag.id), userId);
+      if (added.length > 0) {
+        await this.recordTagChange(file, userId, { added: this.namesOf(tagsToAdd, added) });
+      }
+
+      return await this.tagRepository.findByFileId(fileId);
+    } catch (error: any) {
+      this.logger.error('Failed to add tags to file', { fileId, tagIds, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Detach tags from a file or folder
+   */
+  async removeTagsFromFile(fileId: string, tagIds: string[], userId: string): Promise<Tag[]> {
+    try {
+      const file = await this.getAccessibleFile(fileId, userId);
+      const tagsToRemove = await this.tagRepository.findByIds(tagIds);
+
+      const removed = await this.tagRepository.removeFromFile(fileId, tagIds);
+      if (removed.length > 0) {
+        await this.recordTagChange(file, userId, { removed: this.namesOf(tagsToRemove, removed) });
+      }
+
+      return await this.tagRepository.findByFileId(fileId);
+    } catch (error: any) {
+      this.logger.error('Failed to remove tags from file', { fileId, tagIds, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Add and/or remove tags on several files at once. Each file is handled
+   * independently; failures are reported per file.
+   */
+  async bulkUpdateFileTags(
+    fileIds: string[],
+    changes: { add?: string[]; remove?: string[] },
+    userId: string
+  ): Promise<BulkTagResult[]> {
+    const add = changes.add || [];
+    const remove = changes.remove || [];
+
+    if (!Array.isArray(fileIds) || fileIds.length === 0) {
+      throw new ValidationError('No files specified');
+    }
+    if (add.length === 0 && remove.length === 0) {
+      throw new ValidationError('No tag changes specified');
+    }
+
+    const results: BulkTagResult[] = [];
+
+    for (const fileId of fileIds) {
+      try {
+        const file = await this.getAccessibleFile(fileId, userId);
+        const tagsToAdd = await this.getCompanyTags(file, add);
+        const tagsToRemove = await this.tagRepository.findByIds(remove);
+
+        const added = await this.tagRepository.addToFile(fileId, tagsToAdd.map(tag => tag.id), userId);
+        const removed = await this.tagRepository.removeFromFile(fileId, remove);
+
+        if (added.length > 0 || removed.length > 0) {
+          await this.recordTagChange(file, userId, {
+            added: this.namesOf(tagsToAdd, added),
+            removed: this.namesOf(tagsToRemove, removed)
+          });
+        }
+
+        results.push({ id: fileId, success: true, added, removed });
+      } catch (error: any) {
+        this.logger.error('Error updating file tags', { fileId, error });
+        results.push({ id: fileId, success: false, message: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  private async getTag(companyId: string, tagId: string): Promise<Tag> {
+    const tag = await this.tagRepository.findById(tagId);
+    if (!tag || tag.companyId !== companyId) {
+      throw new NotFoundError('Tag', tagId);
+    }
+    return tag;
+  }
+
+  private async getAccessibleFile(fileId: string, userId: string): Promise<FileEntity> {
+    const file = await this.fileRepository.findById(fileId);
+    if (!file || file.isDeleted) {
+      throw new NotFoundError('File', fileId);
+    }
+
+    const hasAccess = await this.fileRepository.checkAccess(fileId, userId);
+    if (!hasAccess) {
+      throw new AuthorizationError('You do not have access to this file');
+    }
+
+    return file;
+  }
+
+  /**
+   * Load tags and make sure they all belong to the file's company
+   */
+  private async getCompanyTags(file: FileEntity, tagIds: string[]): Promise<Tag[]> {
+    if (tagIds.length === 0) {
+      return [];
+    }
+
+    const companyId = await this.roomRepository.findCompanyId(file.roomId);
+    const found = await this.tagRepository.findByIds(tagIds);
+
+    const missing = tagIds.filter(tagId => !found.some(tag => tag.id === tagId && tag.companyId === companyId));
+    if (missing.length > 0) {
+      throw new ValidationError('Unknown tags for this company', { tagIds: missing });
+    }
+
+    return found;
+  }
+
+  private async assertCompanyAccess(companyId: string, actor: CompanyActor, roles?: string[]): Promise<void> {
+    // Platform admins can manage any company's tags
+    if (actor.role === 'admin') {
+      return;
+    }
+
+    const member = await this.companyRepository.findMember(companyId, actor.id);
+    if (!member) {
+      throw new AuthorizationError('You are not a member of this company');
+    }
+    if (roles && !roles.includes(member.role)) {
+      throw new AuthorizationError('Only company owners and admins can manage tags');
+    }
+  }
+
+  private async recordTagChange(
+    file: FileEntity,
+    userId: string,
+    changes: { added?: string[]; removed?: string[] }
+  ): Promise<void> {
+    await this.fileSearchIndexer.indexFile(file.id);
+
+    await this.activityService.createActivity({
+      type: 'update_tags',
+      userId,
+      fileId: file.id,
+      roomId: file.roomId,
+      metadata: {
+        fileName: file.name,
+        added: changes.added || [],
+        removed: changes.removed || []
+      }
+    });
+  }
+
+  private async reindexTaggedFiles(fileIds: string[]): Promise<void> {
+    for (const fileId of fileIds) {
+      await this.fileSearchIndexer.indexFile(fileId);
+    }
+  }
+
+  private namesOf(tags: Tag[], ids: string[]): string[] {
+    return tags.filter(tag => ids.includes(tag.id)).map(tag => tag.name);
+  }
+
+  private validateName(name: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new ValidationError('Tag name is required');
+    }
+    if (trimmed.length > MAX_TAG_NAME_LENGTH) {
+      throw new ValidationError(`Tag name must be at most ${MAX_TAG_NAME_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private validateColor(color?: string | null): string | null {
+    if (color === undefined || color === null || color === '') {
+      return null;
+    }
+    if (!TAG_COLOR_PATTERN.test(color)) {
+      throw new ValidationError('Tag color must be a hex color such as #ff8800');
+    }
+    return color;
+  }
+}
@@ -0,0 +1,138 @@
+// src/services/webhook/_tests_/webhook-sender.test.ts
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  WebhookSender,
+  isPublicAddress,
+  resolvesToPublicAddresses,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from '../webhook-sender';
+
+interface ReceivedRequest {
+  method?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookSender', () => {
+  const secret = 'whsec_test';
+  let server: http.Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let respond: (res: http.ServerResponse) => void;
+
+  // The test receiver listens on loopback, which senders refuse by default
+  const localSender = (timeoutMs: number) => new WebhookSender(timeoutMs, undefined, () => true);
+
+  beforeEach(async () => {
+    received = [];
+    respond = res => res.writeHead(200).end('ok');
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ method: req.method, headers: req.headers, body });
+        respond(res);
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should post a signed payload the receiver can verify', async () => {
+    const sender = localSender(2000);
+    const payload = JSON.stringify({ id: 'evt_1', type: 'file.uploaded', data: { fileId: 'file-1' } });
+
+    const result = await sender.send({ url, secret, deliveryId: 'delivery-1', eventType: 'file.uploaded', payload });
+
+    expect(result).toMatchObject({ success: true, statusCode: 200 });
+    expect(received).toHaveLength(1);
+    expect(received[0].method).toBe('POST');
+    expect(received[0].body).toBe(payload);
+    expect(received[0].headers['x-webhook-id']).toBe('delivery-1');
+    expect(received[0].headers['x-webhook-event']).toBe('file.uploaded');
+    expect(verifyWebhookSignature(payload, received[0].headers['x-webhook-signature'] as string, secret)).toBe(true);
+    expect(verifyWebhookSignature(payload, received[0].headers['x-webhook-signature'] as string, 'other')).toBe(false);
+  });
+
+  it('should report non-2xx responses as failures with their status code', async () => {
+    respond = res => res.writeHead(503).end('unavailable');
+    const sender = localSender(2000);
+
+    const result = await sender.send({ url, secret, deliveryId: 'delivery-2', eventType: 'file.deleted', payload: '{}' });
+
+    expect(result).toMatchObject({ success: false, statusCode: 503 });
+    expect(result.error).toContain('503');
+    expect(result).not.toHaveProperty('body');
+  });
+
+  it('should refuse to connect to hosts that resolve to non-public addresses', async () => {
+    const sender = new WebhookSender(2000);
+
+    const loopback = await sender.send({ url, secret, deliveryId: 'delivery-5', eventType: 'file.uploaded', payload: '{}' });
+    const named = await sender.send({
+      url: url.replace('127.0.0.1', 'localhost'),
+      secret,
+      deliveryId: 'delivery-6',
+      eventType: 'file.uploaded',
+      payload: '{}'
+    });
+
+    expect(loopback).toMatchObject({ success: false, error: '127.0.0.1 is not a public address' });
+    expect(named).toMatchObject({ success: false, error: 'localhost does not resolve to a public address' });
+    expect(received).toHaveLength(0);
+  });
+
+  it('should not follow redirects', async () => {
+    respond = res => res.writeHead(302, { Location: 'http://127.0.0.1:1/elsewhere' }).end();
+    const sender = localSender(2000);
+
+    const result = await sender.send({ url, secret, deliveryId: 'delivery-3', eventType: 'file.shared', payload: '{}' });
+
+    expect(result).toMatchObject({ success: false, statusCode: 302 });
+    expect(received).toHaveLength(1);
+  });
+
+  it('should time out slow endpoints', async () => {
+    respond = res => { setTimeout(() => res.writeHead(200).end(), 500); };
+    const sender = localSender(100);
+
+    const result = await sender.send({ url, secret, deliveryId: 'delivery-4', eventType: 'member.added', payload: '{}' });
+
+    expect(result.success).toBe(false);
+    expect(result.statusCode).toBeUndefined();
+    expect(result.error).toContain('Timed out');
+  });
+
+  it('should reject signatures outside the tolerance window', () => {
+    const payload = '{"id":"evt_2"}';
+    const timestamp = 1700000000;
+    const header = signWebhookPayload(payload, secret, timestamp);
+
+    expect(verifyWebhookSignature(payload, header, secret, 300, (timestamp + 60) * 1000)).toBe(true);
+    expect(verifyWebhookSignature(payload, header, secret, 300, (timestamp + 600) * 1000)).toBe(false);
+    expect(verifyWebhookSignature(payload, undefined, secret)).toBe(false);
+  });
+
+  it('should tell public addresses from private, loopback, link-local and metadata ones', async () => {
+    for (const address of ['10.1.2.3', '127.0.0.1', '169.254.169.254', '172.20.0.1', '192.168.1.10', '100.100.100.200',
+      '0.0.0.0', '::1', '::ffff:127.0.0.1', 'fd00:ec2::254', 'fe80::1', 'not-an-ip']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+
+    await expect(resolvesToPublicAddresses('http://127.0.0.1:8080/hooks')).resolves.toBe(false);
+    await expect(resolvesToPublicAddresses('https://[::1]/hooks')).resolves.toBe(false);
+    await expect(resolvesToPublicAddresses('https://93.184.216.34/hooks')).resolves.toBe(true);
+  });
+});
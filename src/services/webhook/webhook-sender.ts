@@ -0,0 +1,220 @@
+// src/services/webhook/webhook-sender.ts
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+import axios from 'axios';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Webhooks may not be sent to private, loopback, link-local (which includes
+// cloud metadata services), shared, multicast or reserved addresses. IPv4
+// addresses mapped into IPv6 are checked against the IPv4 networks.
+const BLOCKED_NETWORKS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix, type] of BLOCKED_NETWORKS) {
+  blockedAddresses.addSubnet(network, prefix, type);
+}
+
+/**
+ * Whether an IP address is one webhooks may be sent to
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve a URL's host and tell whether every address it resolves to is
+ * public. Throws if the host cannot be resolved.
+ */
+export async function resolvesToPublicAddresses(url: string): Promise<boolean> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+}
+
+/**
+ * A DNS lookup for webhook connections that fails when the host resolves to
+ * an address that is not allowed. It runs for every connection, so a host
+ * cannot pass the check when its endpoint is saved and resolve elsewhere later.
+ */
+function createAddressCheckingLookup(isAllowed: (address: string) => boolean): LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+
+      if (addresses.length === 0 || addresses.some(({ address }) => !isAllowed(address))) {
+        callback(new Error(`${hostname} does not resolve to a public address`), '', 0);
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+/**
+ * Sign a payload, producing an `X-Webhook-Signature` header value:
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<payload>">`
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check an `X-Webhook-Signature` header the way receivers should: the
+ * signature must match and the timestamp must be recent
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds: number = 300,
+  now: number = Date.now()
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === 't') {
+      timestamp = Number(rest.join('='));
+    } else if (key === 'v1') {
+      signatures.push(rest.join('='));
+    }
+  }
+
+  if (!timestamp || !Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')
+  );
+
+  return signatures.some(signature => {
+    const candidate = Buffer.from(signature);
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+  });
+}
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  eventType: string;
+  payload: string;
+}
+
+export interface WebhookResponse {
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Posts signed webhook payloads. Any 2xx response counts as delivered;
+ * redirects are not followed and response bodies are not read.
+ */
+export class WebhookSender {
+  private httpAgent: http.Agent;
+  private httpsAgent: https.Agent;
+
+  constructor(
+    private timeoutMs: number = 10000,
+    private now: () => number = () => Date.now(),
+    private isAllowedAddress: (address: string) => boolean = isPublicAddress
+  ) {
+    const lookup = createAddressCheckingLookup(isAllowedAddress);
+    this.httpAgent = new http.Agent({ lookup });
+    this.httpsAgent = new https.Agent({ lookup });
+  }
+
+  async send(request: WebhookRequest): Promise<WebhookResponse> {
+    const started = Date.now();
+
+    try {
+      // Connections to IP addresses skip the DNS lookup, so check those here
+      const hostname = new URL(request.url).hostname.replace(/^\[(.*)\]$/, '$1');
+      if (isIP(hostname) && !this.isAllowedAddress(hostname)) {
+        throw new Error(`${hostname} is not a public address`);
+      }
+
+      const response = await axios.post(request.url, request.payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Bridge-Webhooks/1.0',
+          'X-Webhook-Id': request.deliveryId,
+          'X-Webhook-Event': request.eventType,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            request.payload,
+            request.secret,
+            Math.floor(this.now() / 1000)
+          )
+        },
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        httpAgent: this.httpAgent,
+        httpsAgent: this.httpsAgent,
+        responseType: 'stream',
+        validateStatus: () => true
+      });
+
+      response.data.destroy();
+
+      return {
+        success: response.status >= 200 && response.status < 300,
+        statusCode: response.status,
+        error: response.status >= 200 && response.status < 300 ? undefined : `Endpoint responded with ${response.status}`,
+        durationMs: Date.now() - started
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.code === 'ECONNABORTED' ? `Timed out after ${this.timeoutMs}ms` : error.message,
+        durationMs: Date.now() - started
+      };
+    }
+  }
+}
@@ -0,0 +1,581 @@
+// src/services/webhook/webhook.service.ts
+import { injectable, inject } from 'inversify';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { InferModel } from 'drizzle-orm';
+import { Logger } from '../../utils/logger';
+import {
+  WebhookRepository,
+  WebhookEndpoint,
+  WebhookDelivery,
+  WebhookDeliveryStatus
+} from '../../repositories/webhook.repository';
+import { RoomRepository } from '../../repositories/room.repository';
+import { CompanyRepository } from '../../repositories/company.repository';
+import { CompanyActor } from '../company/company.service';
+import { WebhookSender, resolvesToPublicAddresses } from './webhook-sender';
+import { activities } from '../../db/schema/activities';
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_DELIVERY_STATUS } from '../../db/schema/webhooks';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../utils/errors';
+import { env } from '../../config/env';
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+type Activity = InferModel<typeof activities>;
+
+// Activity types that are sent to webhooks, and the event each becomes
+const ACTIVITY_EVENTS: Record<string, WebhookEventType> = {
+  upload: 'file.uploaded',
+  download: 'file.downloaded',
+  share: 'file.shared',
+  delete: 'file.deleted'
+};
+
+const WEBHOOK_MANAGER_ROLES = ['owner', 'admin'];
+
+// Deliveries handled per worker run; the rest wait for the next run
+const BATCH_SIZE = 50;
+
+// Longest gap between retries
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * An endpoint as returned by the API. The signing secret is only included
+ * when the endpoint is created.
+ */
+export type WebhookEndpointDto = Omit<WebhookEndpoint, 'secret'> & { secret?: string };
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  isActive?: boolean;
+}
+
+/**
+ * Sends company events to the company's webhook endpoints. Each event is
+ * signed with the endpoint's secret and retried with exponential backoff;
+ * endpoints that keep failing are disabled.
+ */
+@injectable()
+export class WebhookService {
+  private sender: WebhookSender;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    @inject('WebhookRepository') private webhookRepository: WebhookRepository,
+    @inject('RoomRepository') private roomRepository: RoomRepository,
+    @inject('CompanyRepository') private companyRepository: CompanyRepository,
+    @inject('Logger') private logger: Logger
+  ) {
+    this.logger = logger.createChildLogger('WebhookService');
+    this.sender = new WebhookSender(env.WEBHOOK_TIMEOUT_MS);
+  }
+
+  /**
+   * List a company's endpoints
+   */
+  async listEndpoints(companyId: string, actor: CompanyActor): Promise<WebhookEndpointDto[]> {
+    await this.assertCanManage(companyId, actor);
+    const endpoints = await this.webhookRepository.listEndpoints(companyId);
+    return endpoints.map(endpoint => this.toDto(endpoint));
+  }
+
+  /**
+   * Add an endpoint. The response includes the secret used to sign payloads.
+   */
+  async createEndpoint(companyId: string, actor: CompanyActor, input: WebhookEndpointInput): Promise<WebhookEndpointDto> {
+    try {
+      await this.assertCanManage(companyId, actor);
+
+      if (!input.url) {
+        throw new ValidationError('url is required');
+      }
+
+      const endpoint = await this.webhookRepository.createEndpoint({
+        id: uuidv4(),
+        companyId,
+        url: await this.validateUrl(input.url),
+        description: input.description || null,
+        secret: `whsec_${crypto.randomBytes(24).toString('hex')}`,
+        events: this.validateEvents(input.events || []),
+        createdById: actor.id
+      });
+
+      this.logger.info('Webhook endpoint created', { companyId, endpointId: endpoint.id });
+      return { ...this.toDto(endpoint), secret: endpoint.secret };
+    } catch (error: any) {
+      this.logger.error('Failed to create webhook endpoint', { companyId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Change an endpoint. Enabling a disabled endpoint clears its failures.
+   */
+  async updateEndpoint(
+    companyId: string,
+    endpointId: string,
+    actor: CompanyActor,
+    input: WebhookEndpointInput
+  ): Promise<WebhookEndpointDto> {
+    try {
+      await this.assertCanManage(companyId, actor);
+      const endpoint = await this.findEndpoint(companyId, endpointId);
+
+      const updated = await this.webhookRepository.updateEndpoint(endpoint.id, {
+        url: input.url !== undefined ? await this.validateUrl(input.url) : undefined,
+        description: input.description,
+        events: input.events !== undefined ? this.validateEvents(input.events) : undefined,
+        ...(input.isActive === true && !endpoint.isActive
+          ? { isActive: true, consecutiveFailures: 0, disabledAt: null, disabledReason: null }
+          : {}),
+        ...(input.isActive === false && endpoint.isActive
+          ? { isActive: false, disabledAt: new Date(), disabledReason: 'Disabled by user' }
+          : {})
+      });
+
+      return this.toDto(updated!);
+    } catch (error: any) {
+      this.logger.error('Failed to update webhook endpoint', { companyId, endpointId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an endpoint and its delivery log
+   */
+  async deleteEndpoint(companyId: string, endpointId: string, actor: CompanyActor): Promise<void> {
+    try {
+      await this.assertCanManage(companyId, actor);
+      const endpoint = await this.findEndpoint(companyId, endpointId);
+      await this.webhookRepository.deleteEndpoint(endpoint.id);
+
+      this.logger.info('Webhook endpoint deleted', { companyId, endpointId });
+    } catch (error: any) {
+      this.logger.error('Failed to delete webhook endpoint', { companyId, endpointId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * An endpoint's delivery log, newest first
+   */
+  async listDeliveries(
+    companyId: string,
+    endpointId: string,
+    actor: CompanyActor,
+    options: { status?: string; page?: number; limit?: number } = {}
+  ): Promise<{ items: WebhookDelivery[]; total: number; page: number; limit: number }> {
+    await this.assertCanManage(companyId, actor);
+    const endpoint = await this.findEndpoint(companyId, endpointId);
+
+    if (options.status && !WEBHOOK_DELIVERY_STATUS.includes(options.status as WebhookDeliveryStatus)) {
+      throw new ValidationError(`status must be one of: ${WEBHOOK_DELIVERY_STATUS.join(', ')}`);
+    }
+
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(Math.max(1, options.limit || 50), 200);
+
+    const { items, total } = await this.webhookRepository.listDeliveries(endpoint.id, {
+      status: options.status as WebhookDeliveryStatus | undefined,
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    return { items, total, page, limit };
+  }
+
+  /**
+   * Send a past delivery's payload again as a new delivery
+   */
+  async redeliver(companyId: string, endpointId: string, deliveryId: string, actor: CompanyActor): Promise<WebhookDelivery> {
+    try {
+      await this.assertCanManage(companyId, actor);
+      const endpoint = await this.findEndpoint(companyId, endpointId);
+
+      const original = await this.webhookRepository.findDelivery(endpoint.id, deliveryId);
+      if (!original) {
+        throw new NotFoundError('Webhook delivery', deliveryId);
+      }
+
+      const id = uuidv4();
+      await this.webhookRepository.createDeliveries([{
+        id,
+        endpointId: endpoint.id,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        nextAttemptAt: new Date(),
+        redeliveryOf: original.id
+      }]);
+
+      // Redelivery is an explicit request, so send even to a disabled endpoint
+      return await this.attemptDelivery(id, true);
+    } catch (error: any) {
+      this.logger.error('Failed to redeliver webhook', { companyId, endpointId, deliveryId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a `ping` event to one endpoint to check it is reachable
+   */
+  async sendTestEvent(companyId: string, endpointId: string, actor: CompanyActor): Promise<WebhookDelivery> {
+    await this.assertCanManage(companyId, actor);
+    const endpoint = await this.findEndpoint(companyId, endpointId);
+
+    const eventId = uuidv4();
+    const id = uuidv4();
+    await this.webhookRepository.createDeliveries([{
+      id,
+      endpointId: endpoint.id,
+      eventId,
+      eventType: 'ping',
+      payload: this.buildPayload(eventId, 'ping', companyId, { endpointId: endpoint.id }),
+      nextAttemptAt: new Date()
+    }]);
+
+    return await this.attemptDelivery(id, true);
+  }
+
+  /**
+   * Queue an event for every enabled endpoint of the company that wants it,
+   * then try to send it straight away. Failed sends are retried by the worker.
+   */
+  async publish(companyId: string, type: WebhookEventType, data: Record<string, any>): Promise<void> {
+    try {
+      const endpoints = (await this.webhookRepository.findActiveEndpoints(companyId))
+        .filter(endpoint => endpoint.events.length === 0 || endpoint.events.includes(type));
+
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const eventId = uuidv4();
+      const payload = this.buildPayload(eventId, type, companyId, data);
+      const deliveries = endpoints.map(endpoint => ({
+        id: uuidv4(),
+        endpointId: endpoint.id,
+        eventId,
+        eventType: type,
+        payload,
+        nextAttemptAt: new Date()
+      }));
+
+      await this.webhookRepository.createDeliveries(deliveries);
+
+      for (const delivery of deliveries) {
+        this.attemptDelivery(delivery.id).catch(error => {
+          this.logger.error('Error sending webhook', { deliveryId: delivery.id, error: error.message });
+        });
+      }
+    } catch (error: any) {
+      // Webhooks must never break the action that triggered them
+      this.logger.error('Failed to publish webhook event', { companyId, type, error: error.message });
+    }
+  }
+
+  /**
+   * Send an event to one endpoint regardless of its event filter, e.g. for
+   * an activity subscription that points at it. Never throws.
+   */
+  async deliver(endpointId: string, type: string, data: Record<string, any>): Promise<void> {
+    try {
+      const endpoint = await this.webhookRepository.findEndpointById(endpointId);
+      if (!endpoint || !endpoint.isActive) {
+        return;
+      }
+
+      const eventId = uuidv4();
+      const id = uuidv4();
+      await this.webhookRepository.createDeliveries([{
+        id,
+        endpointId: endpoint.id,
+        eventId,
+        eventType: type,
+        payload: this.buildPayload(eventId, type, endpoint.companyId, data),
+        nextAttemptAt: new Date()
+      }]);
+
+      this.attemptDelivery(id).catch(error => {
+        this.logger.error('Error sending webhook', { deliveryId: id, error: error.message });
+      });
+    } catch (error: any) {
+      this.logger.error('Failed to deliver webhook event', { endpointId, type, error: error.message });
+    }
+  }
+
+  /**
+   * Check that an actor manages the company an endpoint belongs to
+   */
+  async assertCanUseEndpoint(endpointId: string, actor: CompanyActor): Promise<WebhookEndpoint> {
+    const endpoint = await this.webhookRepository.findEndpointById(endpointId);
+    if (!endpoint) {
+      throw new NotFoundError('Webhook endpoint', endpointId);
+    }
+
+    await this.assertCanManage(endpoint.companyId, actor);
+    return endpoint;
+  }
+
+  /**
+   * Publish the webhook event for an activity, if its type has one
+   */
+  async publishActivity(activity: Activity): Promise<void> {
+    const type = ACTIVITY_EVENTS[activity.action];
+    if (!type) {
+      return;
+    }
+
+    try {
+      const companyId = activity.companyId
+        || (activity.roomId ? await this.roomRepository.findCompanyId(activity.roomId) : null)
+        || (activity.fileId ? await this.webhookRepository.findFileCompanyId(activity.fileId) : null);
+
+      if (!companyId) {
+        return;
+      }
+
+      await this.publish(companyId, type, {
+        activityId: activity.id,
+        actorId: activity.userId,
+        fileId: activity.fileId,
+        roomId: activity.roomId,
+        metadata: activity.metadata ? JSON.parse(activity.metadata as string) : null,
+        occurredAt: activity.createdAt
+      });
+    } catch (error: any) {
+      this.logger.error('Failed to publish activity webhook', { activityId: activity.id, error: error.message });
+    }
+  }
+
+  /**
+   * Retry due deliveries now and then every WEBHOOK_POLL_INTERVAL_SECONDS
+   */
+  start(intervalMs: number = env.WEBHOOK_POLL_INTERVAL_SECONDS * 1000): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.processDueDeliveries().catch(error => {
+        this.logger.error('Error in scheduled webhook run', { error: error.message });
+      });
+    };
+
+    this.timer = setInterval(run, intervalMs);
+    run();
+
+    this.logger.info('Webhook delivery scheduled', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send deliveries whose next attempt is due. Runs never overlap.
+   */
+  async processDueDeliveries(now: Date = new Date()): Promise<{ delivered: number; failed: number }> {
+    const result = { delivered: 0, failed: 0 };
+
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      for (const due of await this.webhookRepository.findDueDeliveries(now, BATCH_SIZE)) {
+        const delivery = await this.attemptDelivery(due.id);
+        if (delivery.status === 'succeeded') {
+          result.delivered++;
+        } else if (delivery.attempts > due.attempts) {
+          result.failed++;
+        }
+      }
+
+      if (result.delivered || result.failed) {
+        this.logger.info('Webhook run finished', { ...result });
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Make one attempt at a delivery, if it is due and no one else is sending
+   * it, and schedule a retry if it fails. Forced (manual) sends are tried
+   * once and not retried.
+   */
+  private async attemptDelivery(id: string, force: boolean = false): Promise<WebhookDelivery> {
+    const now = new Date();
+    const leaseUntil = new Date(now.getTime() + env.WEBHOOK_TIMEOUT_MS + 60 * 1000);
+
+    if (!(await this.webhookRepository.claimDelivery(id, now, leaseUntil))) {
+      return (await this.webhookRepository.findDeliveryById(id))!;
+    }
+
+    const delivery = (await this.webhookRepository.findDeliveryById(id))!;
+    const endpoint = await this.webhookRepository.findEndpointById(delivery.endpointId);
+
+    if (!endpoint || (!endpoint.isActive && !force)) {
+      await this.webhookRepository.recordAttempt(id, now, {
+        status: 'failed',
+        responseStatus: null,
+        error: endpoint ? 'Endpoint is disabled' : 'Endpoint was deleted',
+        durationMs: null,
+        nextAttemptAt: null,
+        deliveredAt: null
+      });
+      return (await this.webhookRepository.findDeliveryById(id))!;
+    }
+
+    const response = await this.sender.send({
+      url: endpoint.url,
+      secret: endpoint.secret,
+      deliveryId: delivery.id,
+      eventType: delivery.eventType,
+      payload: delivery.payload
+    });
+
+    const attempts = delivery.attempts + 1;
+    const exhausted = attempts >= env.WEBHOOK_MAX_ATTEMPTS || force;
+
+    await this.webhookRepository.recordAttempt(id, now, {
+      status: response.success ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      responseStatus: response.statusCode ?? null,
+      error: response.error ? response.error.slice(0, 1024) : null,
+      durationMs: response.durationMs,
+      nextAttemptAt: response.success || exhausted ? null : new Date(Date.now() + this.retryDelay(attempts)),
+      deliveredAt: response.success ? new Date() : null
+    });
+
+    if (response.success) {
+      await this.webhookRepository.recordEndpointSuccess(endpoint.id);
+    } else {
+      await this.recordFailure(endpoint);
+    }
+
+    return (await this.webhookRepository.findDeliveryById(id))!;
+  }
+
+  private async recordFailure(endpoint: WebhookEndpoint): Promise<void> {
+    const disabled = await this.webhookRepository.recordEndpointFailure(
+      endpoint.id,
+      env.WEBHOOK_DISABLE_AFTER_FAILURES,
+      `Disabled after ${env.WEBHOOK_DISABLE_AFTER_FAILURES} consecutive failed deliveries`
+    );
+
+    if (disabled) {
+      const stopped = await this.webhookRepository.failPendingDeliveries(endpoint.id, 'Endpoint was disabled');
+      this.logger.warn('Webhook endpoint disabled after repeated failures', {
+        companyId: endpoint.companyId,
+        endpointId: endpoint.id,
+        pendingStopped: stopped
+      });
+    }
+  }
+
+  /**
+   * Delay before the next attempt: WEBHOOK_RETRY_BASE_SECONDS, doubling with
+   * each failed attempt
+   */
+  private retryDelay(attempts: number): number {
+    return Math.min(env.WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+
+  private buildPayload(eventId: string, type: string, companyId: string, data: Record<string, any>): string {
+    return JSON.stringify({
+      id: eventId,
+      type,
+      companyId,
+      createdAt: new Date().toISOString(),
+      data
+    });
+  }
+
+  /**
+   * Check an endpoint URL. Its host must resolve to public addresses only;
+   * deliveries check this again each time they connect.
+   */
+  private async validateUrl(value: string): Promise<string> {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new ValidationError('url must be a valid URL');
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new ValidationError('url must use http or https');
+    }
+    if (url.protocol === 'http:' && env.NODE_ENV === 'production') {
+      throw new ValidationError('url must use https');
+    }
+    if (value.length > 2048) {
+      throw new ValidationError('url must be at most 2048 characters');
+    }
+
+    let isPublic: boolean;
+    try {
+      isPublic = await resolvesToPublicAddresses(url.toString());
+    } catch {
+      throw new ValidationError(`url host ${url.hostname} could not be resolved`);
+    }
+    if (!isPublic) {
+      throw new ValidationError('url must point to a public address');
+    }
+
+    return url.toString();
+  }
+
+  private validateEvents(events: unknown): string[] {
+    if (!Array.isArray(events) || events.some(event => typeof event !== 'string')) {
+      throw new ValidationError('events must be a list of event types');
+    }
+
+    const unknown = events.filter(event => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown event types: ${unknown.join(', ')}`, {
+        allowed: WEBHOOK_EVENT_TYPES
+      });
+    }
+
+    return [...new Set(events as string[])];
+  }
+
+  private async findEndpoint(companyId: string, endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.webhookRepository.findEndpoint(companyId, endpointId);
+    if (!endpoint) {
+      throw new NotFoundError('Webhook endpoint', endpointId);
+    }
+    return endpoint;
+  }
+
+  private toDto(endpoint: WebhookEndpoint): WebhookEndpointDto {
+    const { secret, ...rest } = endpoint;
+    return rest;
+  }
+
+  private async assertCanManage(companyId: string, actor: CompanyActor): Promise<void> {
+    // Platform admins can manage any company's webhooks
+    if (actor.role === 'admin') {
+      return;
+    }
+
+    const member = await this.companyRepository.findMember(companyId, actor.id);
+    if (!member) {
+      throw new AuthorizationError('You are not a member of this company');
+    }
+    if (!WEBHOOK_MANAGER_ROLES.includes(member.role)) {
+      throw new AuthorizationError('Only company owners and admins can manage webhooks');
+    }
+  }
+}
@@ -7,6 +7,21 @@ import { AuthService } from '../auth/auth.service';
 import { WebSocketError } from './errors';
 import { JwtService } from '../auth/jwt.service';
 
+/**
+ * Decides whether a socket may join a room
+ */
+export type RoomJoinGuard = (request: {
+  roomId: string;
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  token?: string;
+}) => Promise<{ allowed: boolean; reason?: string }>;
+
+// Redis channel processes without the WebSocket server, e.g. the worker,
+// use to reach users connected to any server instance
+const USER_EVENTS_CHANNEL = 'websocket:user-events';
+
 @injectable()
 export class WebSocketService {
   private io: Server | null = null;
@@ -14,6 +29,7 @@ export class WebSocketService {
   private userSockets: Map<string, Set<string>> = new Map(); // userId -> Set of socketIds
   private userRoles: Map<string, Set<string>> = new Map(); // userId -> Set of roles
   private roomSockets: Map<string, Set<string>> = new Map(); // roomId -> Set of socketIds
+  private roomJoinGuard: RoomJoinGuard | null = null;
 
   constructor(
     @inject('AuthService') private authService: AuthService,
@@ -74,6 +90,8 @@ export class WebSocketService {
       // Connection handler
       this.io.on('connection', this.handleConnection.bind(this));
 
+      this.subscribeToUserEvents();
+
       this.logger.info('WebSocket server initialized');
     } catch (error: any) {
       this.logger.error('Failed to initialize WebSocket server', { error: error.message });
@@ -261,11 +279,45 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Set the guard that is consulted before a socket joins a room
+   */
+  setRoomJoinGuard(guard: RoomJoinGuard): void {
+    this.roomJoinGuard = guard;
+  }
+
+  /**
+   * Get the IDs of users connected to a room, across all instances
+   */
+  async getRoomUserIds(roomId: string): Promise<string[]> {
+    if (!this.io) {
+      return [];
+    }
+
+    const sockets = await this.io.in(roomId).fetchSockets();
+    return [...new Set(sockets.map(socket => socket.data.userId as string).filter(Boolean))];
+  }
+
   /**
    * Handle join room
    */
-  private handleJoinRoom(socket: Socket, roomId: string, userId: string): void {
+  private async handleJoinRoom(socket: Socket, roomId: string, userId: string): Promise<void> {
     try {
+      if (this.roomJoinGuard) {
+        const decision = await this.roomJoinGuard({
+          roomId,
+          userId,
+          ipAddress: socket.handshake.address,
+          userAgent: socket.handshake.headers['user-agent'],
+          token: socket.handshake.auth.token
+        });
+
+        if (!decision.allowed) {
+          socket.emit('room:join_denied', { roomId, reason: decision.reason });
+          return;
+        }
+      }
+
       // Leave any existing rooms
       this.leaveAllRooms(socket);
 
@@ -540,6 +592,31 @@ export class WebSocketService {
     }
   }
   
+  /**
+   * Send an event to a user from any process. Every server instance
+   * delivers it to the user's sockets connected there.
+   */
+  async publishToUser(userId: string, event: string, data: any): Promise<void> {
+    await redisClient.publish(USER_EVENTS_CHANNEL, JSON.stringify({ userId, event, data }));
+  }
+
+  private subscribeToUserEvents(): void {
+    const subscriber = redisClient.duplicate();
+
+    subscriber.connect()
+      .then(() => subscriber.subscribe(USER_EVENTS_CHANNEL, (message: string) => {
+        try {
+          const { userId, event, data } = JSON.parse(message);
+          this.broadcastToUser(userId, event, data);
+        } catch (error: any) {
+          this.logger.warn('Ignoring malformed user event', { error: error.message });
+        }
+      }))
+      .catch((error: any) => {
+        this.logger.error('Failed to subscribe to user events', { error: error.message });
+      });
+  }
+
   /**
    * Broadcast an event to all users with a specific role
    */
@@ -0,0 +1,518 @@
+// src/tests/helpers.ts
+import type { Logger } from '../utils/logger';
+
+/**
+ * A logger that records calls instead of writing them. Child loggers are the
+ * same stub, so what a service logs can be asserted on.
+ */
+export function createTestLogger(): jest.Mocked<Logger> {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    fatal: jest.fn(),
+    auditLog: jest.fn(),
+    createChildLogger: () => logger,
+    createRequestLogger: () => logger
+  };
+
+  return logger as unknown as jest.Mocked<Logger>;
+}
+
+// In-memory stand-ins for repositories. They keep rows in plain arrays and
+// answer only the queries the services under test make.
+
+const RESUMABLE = ['initialized', 'in_progress'];
+
+/**
+ * Upload sessions, their parts and tus state, as the multipart upload
+ * repository keeps them
+ */
+export class InMemoryMultipartUploadRepository {
+  sessions: any[] = [];
+  parts: any[] = [];
+  tus = new Map<string, any>();
+
+  async create(data: any) {
+    const session = { ...data, status: 'initialized', error: null, createdAt: new Date(), updatedAt: new Date() };
+    this.sessions.push(session);
+    return { ...session };
+  }
+
+  async findById(id: string) {
+    const session = this.sessions.find(s => s.id === id);
+    return session ? { ...session } : null;
+  }
+
+  async listResumable(userId: string, now: Date, roomId?: string) {
+    return this.sessions.filter(s => s.userId === userId && RESUMABLE.includes(s.status) && s.expiresAt > now
+      && (!roomId || s.roomId === roomId));
+  }
+
+  async findExpired(now: Date) {
+    return this.sessions.filter(s => RESUMABLE.includes(s.status) && s.expiresAt <= now);
+  }
+
+  async transition(id: string, from: string[], to: string, changes: Record<string, any> = {}) {
+    const session = this.sessions.find(s => s.id === id && from.includes(s.status));
+    if (!session) {
+      return false;
+    }
+    Object.assign(session, changes, { status: to, updatedAt: new Date() });
+    return true;
+  }
+
+  async savePart(uploadId: string, partNumber: number, etag: string, size: number) {
+    this.parts = this.parts.filter(p => !(p.uploadId === uploadId && p.partNumber === partNumber));
+    this.parts.push({ uploadId, partNumber, etag, size });
+  }
+
+  async listParts(uploadId: string) {
+    return this.parts.filter(p => p.uploadId === uploadId).sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async deleteFinishedBefore() {
+    return 0;
+  }
+
+  async createTus(id: string, uploadMetadata: string | null) {
+    const tus = { id, uploadOffset: 0, uploadMetadata, lockedUntil: null };
+    this.tus.set(id, tus);
+    return { ...tus };
+  }
+
+  async findTus(id: string) {
+    const tus = this.tus.get(id);
+    return tus ? { ...tus } : null;
+  }
+
+  async lockTus(id: string, now: Date, until: Date) {
+    const tus = this.tus.get(id);
+    if (!tus || (tus.lockedUntil && tus.lockedUntil > now)) {
+      return false;
+    }
+    tus.lockedUntil = until;
+    return true;
+  }
+
+  async unlockTus(id: string) {
+    const tus = this.tus.get(id);
+    if (tus) {
+      tus.lockedUntil = null;
+    }
+  }
+
+  async advanceTusOffset(id: string, from: number, to: number, lockedUntil: Date) {
+    const tus = this.tus.get(id);
+    if (!tus || tus.uploadOffset !== from) {
+      return false;
+    }
+    Object.assign(tus, { uploadOffset: to, lockedUntil });
+    return true;
+  }
+}
+
+/**
+ * Activity exports, and the activities they read, held as the repository
+ * stores them
+ */
+export class InMemoryActivityExportRepository {
+  exports: any[] = [];
+  activities: any[] = [];
+
+  async create(data: any) {
+    const job = {
+      ...data,
+      status: 'pending',
+      attempts: 0,
+      claimedUntil: null,
+      rowCount: 0,
+      size: 0,
+      error: null,
+      createdAt: new Date(),
+      completedAt: null
+    };
+    this.exports.push(job);
+    return { ...job };
+  }
+
+  async findById(id: string) {
+    const job = this.exports.find(e => e.id === id);
+    return job ? { ...job } : null;
+  }
+
+  async update(id: string, data: any) {
+    Object.assign(this.exports.find(e => e.id === id), data);
+  }
+
+  async delete(id: string) {
+    this.exports = this.exports.filter(e => e.id !== id);
+  }
+
+  async findDue(now: Date, limit: number) {
+    return this.exports.filter(e => this.isDue(e, now)).slice(0, limit).map(e => ({ ...e }));
+  }
+
+  async claim(id: string, now: Date, leaseUntil: Date) {
+    const job = this.exports.find(e => e.id === id && this.isDue(e, now));
+    if (!job) {
+      return false;
+    }
+    Object.assign(job, { status: 'running', claimedUntil: leaseUntil, attempts: job.attempts + 1 });
+    return true;
+  }
+
+  async findFinishedBefore(before: Date, limit: number) {
+    return this.exports
+      .filter(e => ['completed', 'failed'].includes(e.status) && e.completedAt <= before)
+      .slice(0, limit)
+      .map(e => ({ ...e }));
+  }
+
+  async findActivityPage(filter: any, after: any, limit: number) {
+    return after ? [] : this.activities.filter(a => a.companyId === filter.companyId).slice(0, limit);
+  }
+
+  private isDue(job: any, now: Date) {
+    return job.status === 'pending' || (job.status === 'running' && job.claimedUntil <= now);
+  }
+}
+
+/**
+ * Billing events, one per event id, claimed by a conditional update the way
+ * the repository claims them
+ */
+export class InMemoryBillingEventRepository {
+  events = new Map<string, any>();
+
+  async record(data: any) {
+    if (!this.events.has(data.eventId)) {
+      this.events.set(data.eventId, { id: data.eventId, ...data, status: 'received', claimedAt: null });
+    }
+    return { ...this.events.get(data.eventId) };
+  }
+
+  async claim(id: string, staleBefore: Date) {
+    const event = this.events.get(id);
+    const claimable = ['received', 'failed'].includes(event.status)
+      || (event.status === 'processing' && event.claimedAt < staleBefore);
+    if (claimable) {
+      Object.assign(event, { status: 'processing', claimedAt: new Date() });
+    }
+    return claimable;
+  }
+
+  async markStatus(id: string, status: string) {
+    this.events.get(id).status = status;
+  }
+}
+
+/**
+ * Companies, their members and invites. Invites are looked up by token and,
+ * for an email, only while pending, as the repository does.
+ */
+export class InMemoryCompanyRepository {
+  companies: any[] = [];
+  members: any[] = [];
+  userCompanies: any[] = [];
+  invites: any[] = [];
+
+  async findById(id: string) {
+    return this.companies.find(c => c.id === id) || null;
+  }
+
+  async findMember(companyId: string, userId: string) {
+    return this.members.find(m => m.companyId === companyId && m.userId === userId) || null;
+  }
+
+  async addMember(companyId: string, userId: string, role: string) {
+    const member = { companyId, userId, role, joinedAt: new Date() };
+    this.members.push(member);
+    return member;
+  }
+
+  async addUserCompany(userId: string, companyId: string, role: string) {
+    if (!this.userCompanies.some(u => u.userId === userId && u.companyId === companyId)) {
+      this.userCompanies.push({ userId, companyId, role });
+    }
+  }
+
+  async createInvite(data: any) {
+    const invite = {
+      id: `invite-${this.invites.length + 1}`,
+      companyId: data.companyId,
+      email: data.email,
+      role: data.role,
+      token: data.token,
+      expiresAt: data.expiresAt || new Date(Date.now() + data.expiresIn),
+      status: data.status || 'pending',
+      metadata: data.metadata,
+      createdAt: new Date()
+    };
+    this.invites.push(invite);
+    return { ...invite };
+  }
+
+  async findInviteByToken(token: string) {
+    const invite = this.invites.find(i => i.token === token);
+    return invite ? { ...invite } : null;
+  }
+
+  async findInviteByEmail(companyId: string, email: string) {
+    const invite = this.invites.find(i => i.companyId === companyId && i.email === email && i.status === 'pending');
+    return invite ? { ...invite } : null;
+  }
+
+  async updateInviteStatus(token: string, status: string) {
+    const invite = this.invites.find(i => i.token === token);
+    invite.status = status;
+    return { ...invite };
+  }
+
+  async listInvites(companyId: string, params: { status?: string } = {}) {
+    const invites = this.invites.filter(i => i.companyId === companyId && (!params.status || i.status === params.status));
+    return { invites, total: invites.length };
+  }
+}
+
+/**
+ * Files and their versions, with access through room membership the way
+ * the repository checks it
+ */
+export class InMemoryFileRepository {
+  files: any[] = [];
+  versions: any[] = [];
+  members: Array<{ roomId: string; userId: string }> = [];
+  logs: any[] = [];
+
+  async findById(id: string) {
+    const file = this.files.find(f => f.id === id);
+    return file ? { ...file } : null;
+  }
+
+  async checkAccess(fileId: string, userId: string) {
+    const file = this.files.find(f => f.id === fileId);
+    return !!file && this.members.some(m => m.roomId === file.roomId && m.userId === userId);
+  }
+
+  async update(id: string, data: any) {
+    const file = this.files.find(f => f.id === id);
+    Object.assign(file, data, { updatedAt: new Date() });
+    return { ...file };
+  }
+
+  async findVersionsByFileId(fileId: string) {
+    return this.versions
+      .filter(v => v.fileId === fileId)
+      .sort((a, b) => b.versionNumber - a.versionNumber)
+      .map(v => ({ ...v }));
+  }
+
+  async findVersionById(id: string) {
+    const version = this.versions.find(v => v.id === id);
+    return version ? { ...version } : null;
+  }
+
+  async findLatestVersion(fileId: string) {
+    return (await this.findVersionsByFileId(fileId))[0] || null;
+  }
+
+  async createVersion(data: any) {
+    const version = {
+      id: `version-${this.versions.length + 1}`,
+      encryption: 'none',
+      encryptionKeyId: null,
+      checksum: null,
+      ...data,
+      createdAt: new Date()
+    };
+    this.versions.push(version);
+    return { ...version };
+  }
+
+  async createLog(data: any) {
+    this.logs.push(data);
+  }
+}
+
+/**
+ * Guest list entries and the room access rows granted through them
+ */
+export class InMemoryGuestRepository {
+  entries: any[] = [];
+  access: any[] = [];
+  guestRooms = ['room-1', 'room-2'];
+
+  async listByCompany(companyId: string) {
+    return this.entries.filter(e => e.companyId === companyId);
+  }
+
+  async findEntry(companyId: string, userId: string) {
+    return this.entries.find(e => e.companyId === companyId && e.userId === userId) || null;
+  }
+
+  async add(data: any) {
+    const entry = { id: `entry-${this.entries.length + 1}`, expiresAt: null, ...data, addedAt: new Date() };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  async remove(companyId: string, userId: string) {
+    this.entries = this.entries.filter(e => !(e.companyId === companyId && e.userId === userId));
+    return true;
+  }
+
+  async findActiveGuests(companyId: string, now: Date = new Date()) {
+    return this.entries.filter(e => e.companyId === companyId && (!e.expiresAt || e.expiresAt > now));
+  }
+
+  async findExpired(now: Date = new Date()) {
+    return this.entries.filter(e => e.expiresAt && e.expiresAt <= now);
+  }
+
+  async findGuestRoomIds() {
+    return this.guestRooms;
+  }
+
+  async grantRoomAccess(roomIds: string[], guests: any[], invitedById: string | null) {
+    for (const roomId of roomIds) {
+      for (const guest of guests) {
+        // Insert-ignore: existing access is left as it is
+        if (!this.access.some(a => a.roomId === roomId && a.userId === guest.userId)) {
+          this.access.push({ roomId, userId: guest.userId, accessType: 'viewer', invitedById, guestListId: guest.id });
+        }
+      }
+    }
+  }
+
+  async revokeRoomAccess(roomIds: string[], guestListIds: string[]) {
+    const before = this.access.length;
+    this.access = this.access.filter(a => !(roomIds.includes(a.roomId) && guestListIds.includes(a.guestListId)));
+    return before - this.access.length;
+  }
+
+  async revokeGuestAccess(guestListId: string) {
+    const before = this.access.length;
+    this.access = this.access.filter(a => a.guestListId !== guestListId);
+    return before - this.access.length;
+  }
+}
+
+/**
+ * Queued email, claimed and retried the way the repository does it
+ */
+export class InMemoryMailQueueRepository {
+  mail: any[] = [];
+
+  async enqueue(messages: any[]) {
+    this.mail.push(...messages.map(message => ({
+      ...message,
+      status: 'pending',
+      attempts: 0,
+      error: null,
+      nextAttemptAt: new Date(0),
+      createdAt: new Date()
+    })));
+  }
+
+  async findDue(now: Date, limit: number) {
+    return this.mail.filter(m => m.status === 'pending' && m.nextAttemptAt <= now).slice(0, limit).map(m => ({ ...m }));
+  }
+
+  async claim(id: string, now: Date, leaseUntil: Date) {
+    const mail = this.mail.find(m => m.id === id && m.status === 'pending' && m.nextAttemptAt <= now);
+    if (!mail) {
+      return false;
+    }
+    mail.nextAttemptAt = leaseUntil;
+    return true;
+  }
+
+  async markSent(id: string, sentAt: Date) {
+    Object.assign(this.mail.find(m => m.id === id), { status: 'sent', sentAt });
+  }
+
+  async recordFailure(id: string, error: string, nextAttemptAt: Date | null) {
+    const mail = this.mail.find(m => m.id === id);
+    Object.assign(mail, nextAttemptAt ? { nextAttemptAt } : { status: 'failed' }, { error, attempts: mail.attempts + 1 });
+  }
+
+  async deleteFinishedBefore() {
+    return 0;
+  }
+}
+
+/**
+ * Saved searches and search history, as the repository stores them
+ */
+export class InMemorySearchRepository {
+  saved: any[] = [];
+  history: any[] = [];
+
+  async createSavedSearch(data: any) {
+    const search = {
+      id: `search-${this.saved.length + 1}`,
+      ...data,
+      searchParams: JSON.stringify(data.searchParams),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.saved.push(search);
+    return search;
+  }
+  async findSavedSearchById(id: string) { return this.saved.find(s => s.id === id) || null; }
+  async listSavedSearches(userId: string) { return this.saved.filter(s => s.userId === userId); }
+  async updateSavedSearch(id: string, data: any) {
+    const search = this.saved.find(s => s.id === id);
+    return search ? Object.assign(search, data) : null;
+  }
+  async clearDefaultSavedSearch(userId: string, searchType: string) {
+    this.saved
+      .filter(s => s.userId === userId && s.searchType === searchType)
+      .forEach(s => { s.isDefault = false; });
+  }
+  async deleteSavedSearch(id: string) {
+    const before = this.saved.length;
+    this.saved = this.saved.filter(s => s.id !== id);
+    return this.saved.length < before;
+  }
+  async listRecentSearches(userId: string, options: { limit?: number }) {
+    return this.history.filter(h => h.userId === userId).slice(0, options.limit);
+  }
+}
+
+/**
+ * A room's files, trashed or not, as the trash queries see them
+ */
+export class InMemoryTrashRepository {
+  files: any[] = [];
+
+  async listByRoom(roomId: string) {
+    const items = this.files.filter(file => file.roomId === roomId && file.isDeleted);
+    return { items, total: items.length };
+  }
+
+  async findInRoom(roomId: string, ids: string[]) {
+    return this.files.filter(file => file.roomId === roomId && ids.includes(file.id));
+  }
+
+  async findTrashedChildren(folderIds: string[]) {
+    return this.files.filter(file => file.isDeleted && folderIds.includes(file.parentId));
+  }
+
+  async findTrashedInRoom(roomId: string, limit: number) {
+    return this.files.filter(file => file.roomId === roomId && file.isDeleted).slice(0, limit);
+  }
+
+  async countTrashedInRoom(roomId: string) {
+    return this.files.filter(file => file.roomId === roomId && file.isDeleted).length;
+  }
+
+  async restore(ids: string[]) {
+    this.files = this.files.map(file => ids.includes(file.id)
+      ? { ...file, isDeleted: false, deletedAt: null, trashedWithId: null }
+      : file);
+    return ids.length;
+  }
+}
@@ -27,6 +27,7 @@ export interface CompanySettings {
   maxFileSize: number;
   allowedFileTypes: string[];
   storageQuota: number;
+  trashRetentionDays: number | null;
   customBranding: {
     logo?: string;
     colors?: {
@@ -43,6 +44,7 @@ export interface CompanySettings {
     requireApproval: boolean;
     passwordProtected: boolean;
     expirationDays?: number;
+    encryptAtRest?: boolean;
   } | null;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,80 @@
+// src/utils/_tests_/file-type.test.ts
+import { mimeTypeMatches, resolveMimeType, sniffMimeType, SNIFF_LENGTH } from '../file-type';
+
+const bytes = (...values: number[]) => Buffer.from(values);
+const padded = (head: Buffer | string) => Buffer.concat([Buffer.from(head as any), Buffer.alloc(SNIFF_LENGTH)]);
+
+// A 14-byte BMP file header followed by the size of a BITMAPINFOHEADER
+const bitmapHeader = () => {
+  const header = Buffer.alloc(SNIFF_LENGTH);
+  header.write('BM', 0, 'latin1');
+  header.writeUInt32LE(1078, 2);
+  header.writeUInt32LE(54, 10);
+  header.writeUInt32LE(40, 14);
+  return header;
+};
+
+describe('sniffMimeType', () => {
+  it.each([
+    ['application/pdf', padded('%PDF-1.7')],
+    ['image/png', padded(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a))],
+    ['image/jpeg', padded(bytes(0xff, 0xd8, 0xff, 0xe0))],
+    ['image/gif', padded('GIF89a')],
+    ['image/webp', padded('RIFF\x00\x00\x00\x00WEBP')],
+    ['audio/wav', padded('RIFF\x00\x00\x00\x00WAVE')],
+    ['video/mp4', padded('\x00\x00\x00\x18ftypmp42')],
+    ['application/zip', padded(bytes(0x50, 0x4b, 0x03, 0x04))],
+    ['application/x-cfb', padded(bytes(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1))],
+    ['application/x-msdownload', padded('MZ\x90\x00')],
+    ['application/x-executable', padded(bytes(0x7f, 0x45, 0x4c, 0x46))]
+  ])('should detect %s', (mimeType, content) => {
+    expect(sniffMimeType(content)).toBe(mimeType);
+  });
+
+  it('should detect bitmaps by their full header', () => {
+    expect(sniffMimeType(bitmapHeader())).toBe('image/bmp');
+  });
+
+  it('should not take text starting with "BM" for a bitmap', () => {
+    expect(sniffMimeType(Buffer.from('BMW service history, 2019-2024\n'))).toBeNull();
+
+    const nonZeroReserved = bitmapHeader();
+    nonZeroReserved.writeUInt32LE(1, 6);
+    expect(sniffMimeType(nonZeroReserved)).toBeNull();
+
+    const unknownDibHeader = bitmapHeader();
+    unknownDibHeader.writeUInt32LE(41, 14);
+    expect(sniffMimeType(unknownDibHeader)).toBeNull();
+
+    expect(sniffMimeType(bitmapHeader().subarray(0, 14))).toBeNull();
+  });
+
+  it('should return null for content without a signature', () => {
+    expect(sniffMimeType(Buffer.from('just some notes'))).toBeNull();
+    expect(sniffMimeType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('resolveMimeType', () => {
+  it('should trust the content over the name and declared type', () => {
+    expect(resolveMimeType('invoice.pdf', 'application/pdf', padded('MZ\x90\x00'))).toBe('application/x-msdownload');
+  });
+
+  it('should keep the named format of a container', () => {
+    expect(resolveMimeType('report.docx', null, padded(bytes(0x50, 0x4b, 0x03, 0x04))))
+      .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+  });
+
+  it('should prefer the name over a generic declared type', () => {
+    expect(resolveMimeType('notes.md', 'application/octet-stream', Buffer.from('# Notes'))).toBe('text/markdown');
+    expect(resolveMimeType('notes', 'Text/Plain; charset=utf-8')).toBe('text/plain');
+  });
+});
+
+describe('mimeTypeMatches', () => {
+  it('should match exact types and wildcards', () => {
+    expect(mimeTypeMatches('image/*', 'image/png')).toBe(true);
+    expect(mimeTypeMatches(' Application/PDF ', 'application/pdf')).toBe(true);
+    expect(mimeTypeMatches('image/*', 'application/pdf')).toBe(false);
+  });
+});
@@ -74,6 +74,44 @@ export class AppError extends Error {
     }
   }
   
+  /**
+   * Access control policy denial (403)
+   */
+  export class AccessPolicyError extends AppError {
+    constructor(message: string, details?: any) {
+      super(message, 403, 'ACCESS_POLICY_DENIED', details, true);
+    }
+  }
+  
+  /**
+   * Upload rejected by company upload settings (400). The code names the
+   * setting that was hit: FILE_TOO_LARGE, FILE_TYPE_NOT_ALLOWED,
+   * STORAGE_QUOTA_EXCEEDED, GUEST_UPLOADS_DISABLED or ENCRYPTION_REQUIRED.
+   */
+  export class UploadRestrictionError extends AppError {
+    constructor(code: string, message: string, details?: any) {
+      super(message, 400, code, details, true);
+    }
+  }
+  
+  /**
+   * tus protocol error, with the status code the tus spec requires
+   */
+  export class TusProtocolError extends AppError {
+    constructor(statusCode: number, code: string, message: string) {
+      super(message, statusCode, code, undefined, true);
+    }
+  }
+  
+  /**
+   * Subscription plan limit error (403)
+   */
+  export class PlanLimitError extends AppError {
+    constructor(message: string, details?: any) {
+      super(message, 403, 'PLAN_LIMIT_EXCEEDED', details, true);
+    }
+  }
+  
   /**
    * Storage error (500)
    */
@@ -0,0 +1,213 @@
+// src/utils/file-type.ts
+
+/**
+ * MIME types for common file extensions
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  // Documents
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  htm: 'text/html',
+  rtf: 'application/rtf',
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  ppt: 'application/vnd.ms-powerpoint',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  epub: 'application/epub+zip',
+
+  // Images
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  heic: 'image/heic',
+
+  // Audio and video
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+
+  // Archives
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tgz: 'application/gzip',
+  '7z': 'application/x-7z-compressed',
+  rar: 'application/vnd.rar',
+  tar: 'application/x-tar',
+
+  // Executables
+  exe: 'application/x-msdownload',
+  dll: 'application/x-msdownload',
+  msi: 'application/x-msi',
+  jar: 'application/java-archive',
+  apk: 'application/vnd.android.package-archive',
+  elf: 'application/x-executable'
+};
+
+/**
+ * Formats stored inside a generic container. Sniffing only sees the
+ * container, so e.g. a .docx is detected as a ZIP archive.
+ */
+const CONTAINER_FORMATS: Record<string, string[]> = {
+  'application/zip': [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation',
+    'application/epub+zip',
+    'application/java-archive',
+    'application/vnd.android.package-archive'
+  ],
+  'application/x-cfb': [
+    'application/msword',
+    'application/vnd.ms-excel',
+    'application/vnd.ms-powerpoint',
+    'application/x-msi'
+  ],
+  'video/mp4': ['audio/mp4', 'video/quicktime', 'image/heic'],
+  'video/webm': ['video/x-matroska'],
+  'audio/ogg': ['video/ogg']
+};
+
+// Declared types that say nothing about the content
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+// Sizes of the DIB headers that follow a BMP file header
+const BMP_DIB_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+/**
+ * Number of leading bytes needed to sniff any supported format
+ */
+export const SNIFF_LENGTH = 18;
+
+/**
+ * Lower-case extension of a file name, without the dot
+ */
+export function getExtension(fileName: string): string {
+  const name = fileName.trim().toLowerCase();
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1) : '';
+}
+
+/**
+ * MIME type implied by a file name's extension
+ */
+export function mimeTypeForExtension(fileName: string): string | null {
+  return EXTENSION_MIME_TYPES[getExtension(fileName)] || null;
+}
+
+/**
+ * Detect a file's type from its leading bytes. Returns null for formats
+ * without a signature, such as plain text.
+ */
+export function sniffMimeType(content: Buffer): string | null {
+  const startsWith = (bytes: number[], offset: number = 0): boolean =>
+    content.length >= offset + bytes.length && bytes.every((byte, i) => content[offset + i] === byte);
+  const ascii = (start: number, end: number): string => content.subarray(start, end).toString('latin1');
+
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+  if (isBitmap(content)) return 'image/bmp';
+  if (startsWith([0x49, 0x49, 0x2a, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+  if (startsWith([0x00, 0x00, 0x01, 0x00])) return 'image/x-icon';
+
+  if (ascii(0, 4) === 'RIFF') {
+    const format = ascii(8, 12);
+    if (format === 'WEBP') return 'image/webp';
+    if (format === 'WAVE') return 'audio/wav';
+    if (format === 'AVI ') return 'video/x-msvideo';
+  }
+
+  if (ascii(4, 8) === 'ftyp') return 'video/mp4';
+  if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (ascii(0, 3) === 'ID3' || startsWith([0xff, 0xfb]) || startsWith([0xff, 0xf3])) return 'audio/mpeg';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+
+  if (startsWith([0x50, 0x4b, 0x03, 0x04]) || startsWith([0x50, 0x4b, 0x05, 0x06])) return 'application/zip';
+  if (startsWith([0x1f, 0x8b])) return 'application/gzip';
+  if (startsWith([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) return 'application/x-7z-compressed';
+  if (ascii(0, 4) === 'Rar!') return 'application/vnd.rar';
+  if (startsWith([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'application/x-cfb';
+
+  if (ascii(0, 2) === 'MZ') return 'application/x-msdownload';
+  if (startsWith([0x7f, 0x45, 0x4c, 0x46])) return 'application/x-executable';
+  if (startsWith([0xcf, 0xfa, 0xed, 0xfe]) || startsWith([0xfe, 0xed, 0xfa, 0xcf])) return 'application/x-mach-binary';
+
+  return null;
+}
+
+/**
+ * "BM" alone starts plenty of text files, so the reserved header fields must
+ * be zero and the DIB header size one of the known ones
+ */
+function isBitmap(content: Buffer): boolean {
+  return content.length >= 18
+    && content[0] === 0x42
+    && content[1] === 0x4d
+    && content.readUInt32LE(6) === 0
+    && BMP_DIB_HEADER_SIZES.includes(content.readUInt32LE(14));
+}
+
+/**
+ * Determine a file's actual type from its content, name and declared type.
+ * Sniffed content wins over the name, which wins over the client-provided type,
+ * except where the sniffed format is a container of the type the name implies.
+ */
+export function resolveMimeType(fileName: string, declaredType?: string | null, content?: Buffer | null): string | null {
+  const nameType = mimeTypeForExtension(fileName);
+  const sniffed = content ? sniffMimeType(content) : null;
+
+  if (sniffed) {
+    if (nameType && (nameType === sniffed || CONTAINER_FORMATS[sniffed]?.includes(nameType))) {
+      return nameType;
+    }
+    return sniffed;
+  }
+
+  const declared = declaredType?.trim().toLowerCase().split(';')[0] || '';
+  if (nameType && GENERIC_MIME_TYPES.includes(declared)) {
+    return nameType;
+  }
+
+  return declared || nameType;
+}
+
+/**
+ * Whether a MIME type matches a pattern such as `image/png` or `image/*`
+ */
+export function mimeTypeMatches(pattern: string, mimeType: string): boolean {
+  const expected = pattern.trim().toLowerCase();
+  if (expected.endsWith('/*')) {
+    return mimeType.startsWith(expected.slice(0, -1));
+  }
+  return expected === mimeType;
+}
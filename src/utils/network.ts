@@ -54,6 +54,39 @@ export function isIPInRange(ip: string, range: string): boolean {
   return ip === range;
 }
 
+/**
+ * Check if a string is a valid IPv4 address
+ */
+export function isValidIPv4(ip: string): boolean {
+  const parts = ip.split('.');
+  return parts.length === 4 && parts.every(part => /^\d{1,3}$/.test(part) && parseInt(part, 10) <= 255);
+}
+
+/**
+ * Check if a string is an IP range understood by isIPInRange: an exact
+ * IPv4 address, CIDR notation or wildcard notation
+ */
+export function isValidIPRange(range: string): boolean {
+  if (range.includes('/')) {
+    const [ip, bits, ...rest] = range.split('/');
+    return rest.length === 0 && isValidIPv4(ip) && /^\d{1,2}$/.test(bits) && parseInt(bits, 10) <= 32;
+  }
+
+  if (range.includes('*')) {
+    const parts = range.split('.');
+    return parts.length === 4 && parts.every(part => part === '*' || isValidIPv4(`${part}.0.0.0`));
+  }
+
+  return isValidIPv4(range);
+}
+
+/**
+ * Normalize an IPv4-mapped IPv6 address (e.g., "::ffff:192.168.1.1") to plain IPv4
+ */
+export function normalizeIP(ip: string): string {
+  return ip.startsWith('::ffff:') && isValidIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+}
+
 /**
  * Parse user agent string to get device, OS, and browser information
  */
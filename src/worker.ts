@@ -0,0 +1,103 @@
+// src/worker.ts
+import 'reflect-metadata'; // Required for inversify
+import { env } from './config/env';
+import { container, initializeContainer } from './config/container';
+import { connectToRedis } from './utils/redis';
+import { Logger } from './utils/logger';
+import { RetentionService } from './services/retention/retention.service';
+import { UploadService } from './services/file/upload.service';
+import { WebhookService } from './services/webhook/webhook.service';
+import { NotificationService } from './services/notification/notification.service';
+import { MailQueueService } from './services/mail/mail-queue.service';
+import { ActivityService } from './services/activity/activity.service';
+import { ActivityExportService } from './services/activity/activity-export.service';
+import { FileSearchIndexer } from './services/search/file-search-indexer';
+import { GuestService } from './services/guest/guest.service';
+
+// Create logger
+const logger = new Logger('worker');
+
+// Start background jobs
+const startWorker = async () => {
+  try {
+    // Connect to the database
+    logger.info('Connecting to database...');
+    await initializeContainer();
+    logger.info('Database connection successful');
+
+    // Connect to Redis
+    logger.info('Connecting to Redis...');
+    const redisConnected = await connectToRedis();
+    if (!redisConnected) {
+      throw new Error('Redis connection failed');
+    }
+    logger.info('Redis connection successful');
+
+    // File retention
+    const retentionService = container.get<RetentionService>('RetentionService');
+    retentionService.start();
+
+    // Abandoned multipart uploads
+    container.get<UploadService>('UploadService').startSweeper();
+
+    // Webhook retries
+    container.get<WebhookService>('WebhookService').start();
+
+    // Daily and weekly digest emails
+    container.get<NotificationService>('NotificationService').start();
+
+    // Queued email, e.g. share links
+    container.get<MailQueueService>('MailQueueService').start();
+
+    // Activity subscription digests
+    container.get<ActivityService>('ActivityService').start();
+
+    // Activity exports written to storage, and removing old ones
+    container.get<ActivityExportService>('ActivityExportService').start();
+
+    // Expired guest access
+    container.get<GuestService>('GuestService').start();
+
+    // Files missing from the search index, e.g. those created before it existed
+    container.get<FileSearchIndexer>('FileSearchIndexer').backfill().catch(error => {
+      logger.error('Search index backfill failed', { error: error.message });
+    });
+
+    logger.info(`Worker running in ${env.NODE_ENV} mode`);
+  } catch (error: any) {
+    logger.error('Failed to start worker', { error: error.message });
+    process.exit(1);
+  }
+};
+
+// Handle graceful shutdown
+const shutdown = (signal: string) => {
+  logger.info(`${signal} received, shutting down gracefully`);
+  container.get<RetentionService>('RetentionService').stop();
+  container.get<UploadService>('UploadService').stopSweeper();
+  container.get<WebhookService>('WebhookService').stop();
+  container.get<NotificationService>('NotificationService').stop();
+  container.get<MailQueueService>('MailQueueService').stop();
+  container.get<ActivityService>('ActivityService').stop();
+  container.get<ActivityExportService>('ActivityExportService').stop();
+  container.get<GuestService>('GuestService').stop();
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+// Handle uncaught exceptions
+process.on('uncaughtException', (error) => {
+  logger.error('Uncaught exception', { error: error.message, stack: error.stack });
+  process.exit(1);
+});
+
+// Handle unhandled promise rejections
+process.on('unhandledRejection', (reason) => {
+  logger.error('Unhandled promise rejection', { reason });
+  process.exit(1);
+});
+
+// Start the worker
+startWorker();